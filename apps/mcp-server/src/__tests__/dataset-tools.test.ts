@@ -2,6 +2,7 @@
  * Dataset Tools Tests
  */
 
+import * as fs from "fs/promises";
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { Logger } from "@lighthouse-tooling/shared";
 import { MockLighthouseService } from "../services/MockLighthouseService.js";
@@ -10,7 +11,13 @@ import {
   LighthouseListDatasetsTool,
   LighthouseGetDatasetTool,
   LighthouseUpdateDatasetTool,
+  LighthouseListDatasetVersionsTool,
+  LighthouseDiffDatasetVersionsTool,
+  LighthouseRollbackDatasetTool,
+  LighthouseExportDatasetManifestTool,
+  LighthouseImportDatasetManifestTool,
 } from "../tools/index.js";
+import { createTestFile, cleanupTestFiles } from "../tests/utils/test-helpers.js";
 
 describe("Dataset Tools", () => {
   let mockService: MockLighthouseService;
@@ -21,8 +28,9 @@ describe("Dataset Tools", () => {
     logger = Logger.getInstance({ level: "error", component: "test" });
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     mockService.clear();
+    await cleanupTestFiles();
   });
 
   describe("LighthouseCreateDatasetTool", () => {
@@ -55,8 +63,11 @@ describe("Dataset Tools", () => {
     });
 
     it("should create dataset successfully with valid parameters", async () => {
-      // Create test files first
-      const testFiles = ["/tmp/test1.txt", "/tmp/test2.txt"];
+      // Create test files first (uploads read their content to compute CIDs)
+      const testFiles = [
+        await createTestFile("test1.txt", "first file"),
+        await createTestFile("test2.txt", "second file"),
+      ];
 
       // Mock FileUtils to avoid actual file operations
       const { FileUtils } = await import("@lighthouse-tooling/shared");
@@ -251,4 +262,181 @@ describe("Dataset Tools", () => {
       expect(result.error).toContain("File not found");
     });
   });
+
+  describe("Dataset version tools", () => {
+    let datasetId: string;
+    let trainPath: string;
+    let evalPath: string;
+
+    beforeEach(async () => {
+      vi.restoreAllMocks();
+      trainPath = await createTestFile("train.csv", "a,b\n1,2\n");
+      evalPath = await createTestFile("eval.csv", "a,b\n3,4\n");
+      const dataset = await mockService.createDataset({
+        name: "Training Data",
+        filePaths: [trainPath],
+      });
+      datasetId = dataset.id;
+    });
+
+    it("should record a version for every update", async () => {
+      await mockService.updateDataset({ datasetId, addFiles: [evalPath] });
+      await mockService.updateDataset({ datasetId, description: "With eval split" });
+
+      const tool = new LighthouseListDatasetVersionsTool(mockService, logger);
+      const result = await tool.execute({ datasetId });
+
+      expect(result.success).toBe(true);
+      expect(
+        result.data.versions.map((v: any) => [v.version, v.parentVersion, v.fileCount]),
+      ).toEqual([
+        ["1.0.0", undefined, 1],
+        ["1.1.0", "1.0.0", 2],
+        ["1.2.0", "1.1.0", 2],
+      ]);
+    });
+
+    it("should diff files added, removed and changed between versions", async () => {
+      const original = await mockService.getDataset(datasetId);
+      await mockService.updateDataset({
+        datasetId,
+        addFiles: [evalPath],
+        removeFiles: [original!.files[0]!.cid],
+      });
+
+      const tool = new LighthouseDiffDatasetVersionsTool(mockService, logger);
+      const result = await tool.execute({ datasetId, fromVersion: "1.0.0", toVersion: "1.1.0" });
+
+      expect(result.success).toBe(true);
+      expect(result.data.added.map((f: any) => f.originalPath)).toEqual([evalPath]);
+      expect(result.data.removed.map((f: any) => f.originalPath)).toEqual([trainPath]);
+      expect(result.data.changed).toEqual([]);
+    });
+
+    it("should report a file whose content changed at the same path", async () => {
+      const original = await mockService.getDataset(datasetId);
+      const firstCid = original!.files[0]!.cid;
+      await fs.writeFile(trainPath, "a,b\n5,6\n");
+      await mockService.updateDataset({
+        datasetId,
+        removeFiles: [firstCid],
+        addFiles: [trainPath],
+      });
+
+      const tool = new LighthouseDiffDatasetVersionsTool(mockService, logger);
+      const result = await tool.execute({ datasetId, fromVersion: "1.0.0", toVersion: "1.1.0" });
+
+      expect(result.data.summary).toEqual({ added: 0, removed: 0, changed: 1 });
+      expect(result.data.changed[0].fromCid).toBe(firstCid);
+    });
+
+    it("should roll back to an earlier version as a new version", async () => {
+      await mockService.updateDataset({ datasetId, addFiles: [evalPath] });
+
+      const tool = new LighthouseRollbackDatasetTool(mockService, logger);
+      const result = await tool.execute({ datasetId, version: "1.0.0" });
+
+      expect(result.success).toBe(true);
+      expect(result.data.dataset.version).toBe("1.2.0");
+      expect(result.data.dataset.fileCount).toBe(1);
+
+      const versions = await mockService.listDatasetVersions(datasetId);
+      expect(versions[2]).toMatchObject({ parentVersion: "1.1.0", restoredFrom: "1.0.0" });
+      expect(versions[1]!.files).toHaveLength(2);
+    });
+
+    it("should fail for unknown versions", async () => {
+      const tool = new LighthouseRollbackDatasetTool(mockService, logger);
+      const result = await tool.execute({ datasetId, version: "9.9.9" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Dataset version not found");
+    });
+
+    it("should validate required parameters", async () => {
+      const tool = new LighthouseDiffDatasetVersionsTool(mockService, logger);
+      const result = await tool.execute({ datasetId, fromVersion: "1.0.0" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("toVersion is required");
+    });
+  });
+
+  describe("Dataset manifest tools", () => {
+    let datasetId: string;
+
+    beforeEach(async () => {
+      vi.restoreAllMocks();
+      const trainPath = await createTestFile("train.csv", "a,b\n1,2\n");
+      const evalPath = await createTestFile("eval, final.csv", "a,b\n3,4\n");
+      const dataset = await mockService.createDataset({
+        name: "Training Data",
+        description: "Train and eval splits",
+        filePaths: [trainPath, evalPath],
+        metadata: { author: "ML Team", keywords: ["tabular"] },
+      });
+      datasetId = dataset.id;
+    });
+
+    it.each(["json", "csv"])(
+      "should round-trip a dataset through a %s manifest file",
+      async (format) => {
+        const outputPath = await createTestFile(`manifest.${format}`, "");
+        const exportTool = new LighthouseExportDatasetManifestTool(mockService, logger);
+        const exported = await exportTool.execute({ datasetId, outputPath });
+
+        expect(exported.success).toBe(true);
+        expect(exported.data.format).toBe(format);
+        expect(await fs.readFile(outputPath, "utf-8")).toBe(exported.data.manifest);
+
+        const target = new MockLighthouseService();
+        const importTool = new LighthouseImportDatasetManifestTool(target, logger);
+        const imported = await importTool.execute({ manifestPath: outputPath });
+
+        expect(imported.success).toBe(true);
+        expect(imported.data.dataset.fileCount).toBe(2);
+
+        const original = await mockService.getDataset(datasetId);
+        const restored = await target.getDataset(datasetId);
+        expect(restored?.files.map((f) => [f.cid, f.size, f.originalPath])).toEqual(
+          original?.files.map((f) => [f.cid, f.size, f.originalPath]),
+        );
+        expect(restored?.metadata).toEqual(original?.metadata);
+        expect((await target.listDatasetVersions(datasetId)).map((v) => v.version)).toEqual([
+          "1.0.0",
+        ]);
+        expect(target.getStorageStats().fileCount).toBe(0);
+      },
+    );
+
+    it("should refuse to import over an existing dataset", async () => {
+      const exportTool = new LighthouseExportDatasetManifestTool(mockService, logger);
+      const exported = await exportTool.execute({ datasetId });
+
+      const importTool = new LighthouseImportDatasetManifestTool(mockService, logger);
+      const result = await importTool.execute({ manifest: exported.data.manifest });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Dataset already exists");
+    });
+
+    it("should reject invalid manifests", async () => {
+      const importTool = new LighthouseImportDatasetManifestTool(mockService, logger);
+
+      const missing = await importTool.execute({});
+      const invalid = await importTool.execute({ manifest: '{"name":"x"}' });
+
+      expect(missing.error).toContain("either manifestPath or manifest is required");
+      expect(invalid.success).toBe(false);
+      expect(invalid.error).toContain("Invalid manifest");
+    });
+
+    it("should fail to export unknown datasets", async () => {
+      const exportTool = new LighthouseExportDatasetManifestTool(mockService, logger);
+      const result = await exportTool.execute({ datasetId: "missing" });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("Dataset not found");
+    });
+  });
 });
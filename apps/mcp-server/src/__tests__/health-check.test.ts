@@ -11,9 +11,10 @@ import { Logger } from "@lighthouse-tooling/shared";
 function makeRequest(
   port: number,
   path: string,
+  headers: http.OutgoingHttpHeaders = {},
 ): Promise<{ statusCode: number; headers: http.IncomingHttpHeaders; body: string }> {
   return new Promise((resolve, reject) => {
-    const req = http.get(`http://127.0.0.1:${port}${path}`, (res) => {
+    const req = http.get(`http://127.0.0.1:${port}${path}`, { headers }, (res) => {
       let data = "";
       res.on("data", (chunk) => (data += chunk));
       res.on("end", () => {
@@ -34,8 +35,21 @@ function createMockDeps(): HealthCheckDependencies {
       enabled: true,
       size: 10,
       maxSize: 1000,
+      hits: 17,
+      misses: 3,
       hitRate: 0.85,
     }),
+    getAuthMetrics: vi.fn().mockReturnValue({
+      totalRequests: 20,
+      authenticatedRequests: 18,
+      fallbackRequests: 5,
+      failedAuthentications: 2,
+      averageAuthTime: 4,
+      cacheHitRate: 85,
+      rateLimitedRequests: 1,
+      uniqueApiKeys: 3,
+      keyUsageStats: new Map(),
+    }),
     authenticate: vi.fn(),
     getEffectiveApiKey: vi.fn(),
     destroy: vi.fn(),
@@ -46,6 +60,7 @@ function createMockDeps(): HealthCheckDependencies {
       size: 3,
       maxSize: 50,
       oldestServiceAge: 5000,
+      rateLimited: 0,
     }),
     getService: vi.fn(),
     destroy: vi.fn(),
@@ -58,6 +73,17 @@ function createMockDeps(): HealthCheckDependencies {
       maxSize: 1073741824,
       utilization: 0.001,
     }),
+    getSDKMetrics: vi.fn().mockReturnValue({
+      circuitBreaker: { state: "half-open", failureCount: 4, successCount: 0, lastFailureTime: 0 },
+      connectionPool: {
+        totalConnections: 5,
+        activeConnections: 2,
+        idleConnections: 3,
+        queuedRequests: 1,
+        totalRequests: 40,
+        averageWaitTime: 250,
+      },
+    }),
     initialize: vi.fn(),
     uploadFile: vi.fn(),
     fetchFile: vi.fn(),
@@ -77,6 +103,15 @@ function createMockDeps(): HealthCheckDependencies {
 
   const mockRegistry = {
     getMetrics: vi.fn().mockReturnValue({}),
+    getToolMetrics: vi.fn().mockReturnValue([
+      {
+        name: "lighthouse_upload_file",
+        callCount: 3,
+        errorCount: 1,
+        averageExecutionTime: 40,
+        latency: { bucketBounds: [10, 100], bucketCounts: [1, 2, 0], sum: 120, count: 3 },
+      },
+    ]),
     listTools: vi.fn().mockReturnValue([]),
   } as unknown as HealthCheckDependencies["registry"];
 
@@ -253,6 +288,92 @@ describe("HealthCheckServer", () => {
     });
   });
 
+  describe("/metrics endpoint", () => {
+    it("should render tool, auth, cache, pool and SDK metrics in Prometheus format", async () => {
+      const res = await makeRequest(port, "/metrics");
+
+      expect(res.statusCode).toBe(200);
+      expect(res.headers["content-type"]).toBe("text/plain; version=0.0.4; charset=utf-8");
+      expect(res.body).toContain("# TYPE lighthouse_tool_calls_total counter");
+      expect(res.body).toContain(
+        'lighthouse_tool_calls_total{tool="lighthouse_upload_file",result="error"} 1',
+      );
+      expect(res.body).toContain(
+        'lighthouse_tool_duration_seconds_bucket{tool="lighthouse_upload_file",le="0.1"} 3',
+      );
+      expect(res.body).toContain(
+        'lighthouse_tool_duration_seconds_bucket{tool="lighthouse_upload_file",le="+Inf"} 3',
+      );
+      expect(res.body).toContain(
+        'lighthouse_tool_duration_seconds_sum{tool="lighthouse_upload_file"} 0.12',
+      );
+      expect(res.body).toContain('lighthouse_auth_requests_total{result="failure"} 2');
+      expect(res.body).toContain("lighthouse_key_cache_hit_ratio 0.85");
+      expect(res.body).toContain("lighthouse_service_pool_size 3");
+      expect(res.body).toContain('lighthouse_sdk_circuit_breaker_state{state="half-open"} 1');
+      expect(res.body).toContain('lighthouse_sdk_circuit_breaker_state{state="closed"} 0');
+      expect(res.body).toContain("lighthouse_sdk_pool_average_wait_seconds 0.25");
+      expect(res.body).not.toContain("# EOF");
+    });
+
+    it("should render OpenMetrics when the scraper asks for it", async () => {
+      const res = await makeRequest(port, "/metrics", {
+        Accept: "application/openmetrics-text; version=1.0.0",
+      });
+
+      expect(res.headers["content-type"]).toContain("application/openmetrics-text");
+      expect(res.body).toContain("# TYPE lighthouse_tool_calls counter");
+      expect(res.body).toContain("lighthouse_auth_fallback_requests_total 5");
+      expect(res.body.endsWith("# EOF\n")).toBe(true);
+    });
+
+    it("should export quota utilization per organization", async () => {
+      await server.stop();
+      deps.tenantStore = {
+        listOrganizations: vi.fn().mockResolvedValue([
+          { id: "acme", status: "active" },
+          { id: "gone", status: "deleted" },
+        ]),
+        getQuota: vi.fn().mockResolvedValue({
+          storageUsed: 250,
+          storageLimit: 1000,
+          requestsUsed: 10,
+          requestLimit: 100,
+          bandwidthUsed: 0,
+          bandwidthLimit: 1000,
+          currentApiKeys: 1,
+          maxApiKeys: 10,
+          currentTeams: 1,
+          maxTeams: 5,
+        }),
+      } as unknown as HealthCheckDependencies["tenantStore"];
+      server = new HealthCheckServer(deps, healthConfig);
+      await server.start();
+
+      const res = await makeRequest(server.getPort()!, "/metrics");
+
+      expect(res.body).toContain(
+        'lighthouse_tenant_quota_utilization_ratio{organization="acme",resource="storage_bytes"} 0.25',
+      );
+      expect(res.body).toContain(
+        'lighthouse_tenant_quota_limit{organization="acme",resource="requests"} 100',
+      );
+      expect(res.body).not.toContain('organization="gone"');
+    });
+
+    it("should leave out a source that fails instead of failing the scrape", async () => {
+      vi.mocked(deps.serviceFactory.getStats).mockImplementation(() => {
+        throw new Error("pool unavailable");
+      });
+
+      const res = await makeRequest(port, "/metrics");
+
+      expect(res.statusCode).toBe(200);
+      expect(res.body).not.toContain("lighthouse_service_pool_size");
+      expect(res.body).toContain("lighthouse_tool_calls_total");
+    });
+  });
+
   describe("error handling", () => {
     it("should return 404 for unknown paths", async () => {
       const res = await makeRequest(port, "/unknown");
@@ -268,6 +389,33 @@ describe("HealthCheckServer", () => {
     });
   });
 
+  describe("mounted routes", () => {
+    it("should dispatch mounted paths to their handler", async () => {
+      server.mount("/custom", async (_req, res) => {
+        res.writeHead(202);
+        res.end("mounted");
+      });
+
+      const res = await makeRequest(port, "/custom?x=1");
+      expect(res.statusCode).toBe(202);
+      expect(res.body).toBe("mounted");
+    });
+
+    it("should return 500 when a mounted handler fails", async () => {
+      server.mount("/failing", async () => {
+        throw new Error("boom");
+      });
+
+      const res = await makeRequest(port, "/failing");
+      expect(res.statusCode).toBe(500);
+    });
+
+    it("should not allow built-in routes to be replaced", () => {
+      expect(() => server.mount("/health", async () => {})).toThrow("Route already defined");
+      expect(() => server.mount("/metrics", async () => {})).toThrow("Route already defined");
+    });
+  });
+
   describe("lifecycle", () => {
     it("should report the assigned port", () => {
       expect(port).toBeGreaterThan(0);
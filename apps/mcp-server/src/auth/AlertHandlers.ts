@@ -0,0 +1,169 @@
+/**
+ * Alert delivery channels: signed webhooks, email over SMTP and a JSONL file sink
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { AlertHandler, AlertNotification } from "./SecurityAlerter.js";
+import { SmtpConfig, sendMail } from "./SmtpClient.js";
+
+/**
+ * Header carrying the webhook signature, formatted `t=<unix seconds>,v1=<hex HMAC-SHA256>`
+ */
+export const WEBHOOK_SIGNATURE_HEADER = "X-Lighthouse-Signature";
+
+/**
+ * JSON body shared by the webhook and file channels
+ */
+export function toAlertPayload(alert: AlertNotification): Record<string, unknown> {
+  return {
+    alert_id: alert.id,
+    timestamp: alert.timestamp.toISOString(),
+    severity: alert.severity,
+    title: alert.title,
+    message: alert.message,
+    details: alert.details,
+    fingerprint: alert.fingerprint,
+    occurrences: alert.occurrences ?? 1,
+  };
+}
+
+/**
+ * Sign a webhook body. The HMAC covers `<timestamp>.<body>` so a captured request
+ * cannot be replayed with a fresh timestamp.
+ */
+export function signWebhookPayload(
+  body: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000),
+): string {
+  const signature = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check a webhook signature header, rejecting timestamps more than
+ * `toleranceSeconds` away from now
+ */
+export function verifyWebhookSignature(
+  body: string,
+  header: string,
+  secret: string,
+  toleranceSeconds: number = 300,
+): boolean {
+  const parts = new Map(
+    header.split(",").map((part) => {
+      const [key, ...rest] = part.trim().split("=");
+      return [key, rest.join("=")] as [string, string];
+    }),
+  );
+
+  const timestamp = parseInt(parts.get("t") ?? "", 10);
+  const signature = parts.get("v1");
+  if (!Number.isFinite(timestamp) || !signature) {
+    return false;
+  }
+  if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(body, secret, timestamp).split("v1=")[1]!);
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Webhook alert handler. POSTs the alert as JSON, signed with HMAC-SHA256 when a
+ * secret is configured.
+ */
+export class WebhookAlertHandler implements AlertHandler {
+  constructor(
+    private webhookUrl: string,
+    private secret?: string,
+    private timeoutMs: number = 10000,
+  ) {}
+
+  async handleAlert(alert: AlertNotification): Promise<void> {
+    const body = JSON.stringify(toAlertPayload(alert));
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+    };
+    if (this.secret) {
+      headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(body, this.secret);
+    }
+
+    const response = await fetch(this.webhookUrl, {
+      method: "POST",
+      headers,
+      body,
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook failed: ${response.status} ${response.statusText}`);
+    }
+  }
+}
+
+/**
+ * Email alert handler. Sends a plain-text message through an SMTP server.
+ */
+export class EmailAlertHandler implements AlertHandler {
+  private recipients: string[];
+
+  constructor(
+    recipients: string | string[],
+    private smtp: SmtpConfig,
+  ) {
+    this.recipients = (Array.isArray(recipients) ? recipients : recipients.split(","))
+      .map((recipient) => recipient.trim())
+      .filter((recipient) => recipient.length > 0);
+  }
+
+  async handleAlert(alert: AlertNotification): Promise<void> {
+    if (this.recipients.length === 0) {
+      return;
+    }
+
+    const text = [
+      alert.message,
+      "",
+      `Severity: ${alert.severity}`,
+      `Time: ${alert.timestamp.toISOString()}`,
+      `Alert ID: ${alert.id}`,
+      "",
+      "Details:",
+      JSON.stringify(alert.details, null, 2),
+    ].join("\n");
+
+    await sendMail(this.smtp, {
+      to: this.recipients,
+      subject: `[Lighthouse ${alert.severity.toUpperCase()}] ${alert.title}`,
+      text,
+    });
+  }
+}
+
+/**
+ * File sink alert handler. Appends each alert to a file as one JSON line.
+ */
+export class FileAlertHandler implements AlertHandler {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  handleAlert(alert: AlertNotification): Promise<void> {
+    const line = JSON.stringify(toAlertPayload(alert)) + "\n";
+    // Chain appends so concurrent alerts are written whole and in order
+    const write = this.writing.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, line, "utf-8");
+    });
+    this.writing = write.catch(() => undefined);
+    return write;
+  }
+}
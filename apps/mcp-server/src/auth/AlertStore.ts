@@ -0,0 +1,59 @@
+/**
+ * Persistence for security alerts and their acknowledgements
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import type { AlertNotification } from "./SecurityAlerter.js";
+
+/**
+ * Where a SecurityAlerter keeps its alerts between restarts
+ */
+export interface AlertStore {
+  load(): Promise<AlertNotification[]>;
+  /** Replace the stored alerts */
+  save(alerts: AlertNotification[]): Promise<void>;
+}
+
+interface StoredAlert
+  extends Omit<AlertNotification, "timestamp" | "acknowledgedAt" | "lastOccurredAt"> {
+  timestamp: string;
+  acknowledgedAt?: string;
+  lastOccurredAt?: string;
+}
+
+/**
+ * Keeps alerts in a single JSON file, replaced atomically on each save
+ */
+export class FileAlertStore implements AlertStore {
+  constructor(private filePath: string) {}
+
+  async load(): Promise<AlertNotification[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, "utf-8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+
+    const stored = JSON.parse(content) as { alerts?: StoredAlert[] };
+    return (stored.alerts ?? []).map((alert) => ({
+      ...alert,
+      timestamp: new Date(alert.timestamp),
+      acknowledgedAt: alert.acknowledgedAt ? new Date(alert.acknowledgedAt) : undefined,
+      lastOccurredAt: alert.lastOccurredAt ? new Date(alert.lastOccurredAt) : undefined,
+    }));
+  }
+
+  async save(alerts: AlertNotification[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    // Write then rename so a crash never leaves a half-written file
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify({ version: 1, alerts }, null, 2), "utf-8");
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,337 @@
+/**
+ * Per-key behavioral baselines and detection of usage that departs from them
+ */
+
+/**
+ * Kinds of deviation from a key's baseline
+ */
+export enum AnomalyType {
+  REQUEST_RATE = "REQUEST_RATE",
+  DATA_TRANSFER = "DATA_TRANSFER",
+  ENCRYPTED_BULK_DOWNLOAD = "ENCRYPTED_BULK_DOWNLOAD",
+  NEW_TOOL = "NEW_TOOL",
+  UNUSUAL_HOUR = "UNUSUAL_HOUR",
+}
+
+export type AnomalySeverity = "low" | "medium" | "high" | "critical";
+
+/**
+ * One completed tool call made with a key
+ */
+export interface KeyUsageSample {
+  toolName: string;
+  /** Bytes uploaded or downloaded by the call */
+  bytes: number;
+  /** Whether the call downloaded and decrypted encrypted content */
+  encryptedDownload: boolean;
+  timestamp?: Date;
+}
+
+/**
+ * A detected deviation from a key's baseline
+ */
+export interface UsageAnomaly {
+  type: AnomalyType;
+  keyHash: string;
+  severity: AnomalySeverity;
+  description: string;
+  /** Value seen in the current hour (or the hour of day, for UNUSUAL_HOUR) */
+  observed: number;
+  /** Baseline value it was compared with */
+  expected: number;
+  toolName: string;
+}
+
+/**
+ * Anomaly detection configuration
+ */
+export interface AnomalyDetectionConfig {
+  enabled: boolean;
+  /** Active hours a key needs before it is judged against its baseline */
+  learningPeriodHours: number;
+  /** Multiple of the baseline hourly request rate that counts as a spike */
+  requestRateMultiplier: number;
+  /** Multiple of the baseline hourly bytes transferred that counts as a spike */
+  dataTransferMultiplier: number;
+  /** Requests in an hour below which rate spikes are ignored */
+  minRequestsPerHour: number;
+  /** Bytes in an hour below which transfer spikes are ignored */
+  minBytesPerHour: number;
+  /** Encrypted downloads in an hour below which bulk downloads are ignored */
+  minEncryptedDownloadsPerHour: number;
+  /** Share of a key's past activity below which an hour of day (UTC) counts as unusual */
+  unusualHourShare: number;
+  /** Weight of the latest hour when folding it into the baseline (0-1) */
+  baselineSmoothing: number;
+  /** Suspend keys whose anomalies reach `suspendSeverity` */
+  autoSuspend: boolean;
+  suspendSeverity: AnomalySeverity;
+}
+
+/**
+ * Default anomaly detection configuration
+ */
+export const DEFAULT_ANOMALY_DETECTION_CONFIG: AnomalyDetectionConfig = {
+  enabled: true,
+  learningPeriodHours: 24,
+  requestRateMultiplier: 5,
+  dataTransferMultiplier: 10,
+  minRequestsPerHour: 30,
+  minBytesPerHour: 100 * 1024 * 1024, // 100MB
+  minEncryptedDownloadsPerHour: 20,
+  unusualHourShare: 0.01,
+  baselineSmoothing: 0.1,
+  autoSuspend: false,
+  suspendSeverity: "critical",
+};
+
+/**
+ * What is typical for one key, learned from its active hours
+ */
+export interface KeyBaseline {
+  keyHash: string;
+  /** Active hours folded into the baseline */
+  hoursObserved: number;
+  requestsPerHour: number;
+  bytesPerHour: number;
+  encryptedDownloadsPerHour: number;
+  /** Calls per tool */
+  toolCounts: Record<string, number>;
+  /** Calls per hour of day (UTC) */
+  hourOfDayCounts: number[];
+}
+
+interface KeyState {
+  baseline: KeyBaseline;
+  /** Start of the hour being accumulated (ms since the epoch) */
+  hourStart: number;
+  requests: number;
+  bytes: number;
+  encryptedDownloads: number;
+  /** Anomaly types already reported for this hour */
+  reported: Set<string>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const SEVERITY_ORDER: AnomalySeverity[] = ["low", "medium", "high", "critical"];
+
+/**
+ * Whether `severity` is at least `threshold`
+ */
+export function isSeverityAtLeast(severity: AnomalySeverity, threshold: AnomalySeverity): boolean {
+  return SEVERITY_ORDER.indexOf(severity) >= SEVERITY_ORDER.indexOf(threshold);
+}
+
+/**
+ * Learns each key's hourly request rate, bytes transferred, encrypted downloads, tools
+ * and active hours, and reports calls that depart from them. Each anomaly type is
+ * reported at most once per key and hour.
+ */
+export class AnomalyDetector {
+  private config: AnomalyDetectionConfig;
+  private keys = new Map<string, KeyState>();
+
+  constructor(config: AnomalyDetectionConfig = DEFAULT_ANOMALY_DETECTION_CONFIG) {
+    this.config = config;
+  }
+
+  /**
+   * Record a call and return the anomalies it reveals
+   */
+  record(keyHash: string, sample: KeyUsageSample): UsageAnomaly[] {
+    if (!this.config.enabled) return [];
+
+    const now = (sample.timestamp ?? new Date()).getTime();
+    const state = this.getState(keyHash, now);
+    const { baseline } = state;
+
+    const isNewTool = !(sample.toolName in baseline.toolCounts);
+    const hourOfDay = new Date(now).getUTCHours();
+    const hourShare = this.getHourShare(baseline, hourOfDay);
+
+    state.requests++;
+    state.bytes += sample.bytes;
+    if (sample.encryptedDownload) {
+      state.encryptedDownloads++;
+    }
+    baseline.toolCounts[sample.toolName] = (baseline.toolCounts[sample.toolName] ?? 0) + 1;
+    baseline.hourOfDayCounts[hourOfDay] = (baseline.hourOfDayCounts[hourOfDay] ?? 0) + 1;
+
+    if (baseline.hoursObserved < this.config.learningPeriodHours) {
+      return [];
+    }
+
+    const anomalies: UsageAnomaly[] = [];
+    const report = (anomaly: Omit<UsageAnomaly, "keyHash" | "toolName">, reportKey?: string) => {
+      const key = reportKey ?? anomaly.type;
+      if (!state.reported.has(key)) {
+        state.reported.add(key);
+        anomalies.push({ ...anomaly, keyHash, toolName: sample.toolName });
+      }
+    };
+
+    const expectedEncrypted = baseline.encryptedDownloadsPerHour;
+    if (
+      state.encryptedDownloads >= this.config.minEncryptedDownloadsPerHour &&
+      state.encryptedDownloads > this.config.requestRateMultiplier * expectedEncrypted
+    ) {
+      report({
+        type: AnomalyType.ENCRYPTED_BULK_DOWNLOAD,
+        severity: "critical",
+        description: `${state.encryptedDownloads} encrypted downloads this hour, usually ${round(expectedEncrypted)}`,
+        observed: state.encryptedDownloads,
+        expected: expectedEncrypted,
+      });
+    }
+
+    if (
+      state.bytes >= this.config.minBytesPerHour &&
+      state.bytes > this.config.dataTransferMultiplier * baseline.bytesPerHour
+    ) {
+      report({
+        type: AnomalyType.DATA_TRANSFER,
+        severity: "high",
+        description: `${state.bytes} bytes transferred this hour, usually ${round(baseline.bytesPerHour)}`,
+        observed: state.bytes,
+        expected: baseline.bytesPerHour,
+      });
+    }
+
+    if (
+      state.requests >= this.config.minRequestsPerHour &&
+      state.requests > this.config.requestRateMultiplier * baseline.requestsPerHour
+    ) {
+      report({
+        type: AnomalyType.REQUEST_RATE,
+        severity: "medium",
+        description: `${state.requests} requests this hour, usually ${round(baseline.requestsPerHour)}`,
+        observed: state.requests,
+        expected: baseline.requestsPerHour,
+      });
+    }
+
+    if (isNewTool) {
+      report(
+        {
+          type: AnomalyType.NEW_TOOL,
+          severity: "low",
+          description: `First use of ${sample.toolName}`,
+          observed: 1,
+          expected: 0,
+        },
+        `${AnomalyType.NEW_TOOL}:${sample.toolName}`,
+      );
+    }
+
+    if (hourShare < this.config.unusualHourShare) {
+      report({
+        type: AnomalyType.UNUSUAL_HOUR,
+        severity: "low",
+        description: `Activity at ${hourOfDay}:00 UTC, an hour this key is rarely used`,
+        observed: hourOfDay,
+        expected: hourShare,
+      });
+    }
+
+    return anomalies;
+  }
+
+  /**
+   * Get a copy of a key's baseline
+   */
+  getBaseline(keyHash: string): KeyBaseline | undefined {
+    const state = this.keys.get(keyHash);
+    if (!state) return undefined;
+
+    return {
+      ...state.baseline,
+      toolCounts: { ...state.baseline.toolCounts },
+      hourOfDayCounts: state.baseline.hourOfDayCounts.slice(),
+    };
+  }
+
+  /**
+   * Forget a key's baseline so it is learned again
+   */
+  reset(keyHash?: string): void {
+    if (keyHash) {
+      this.keys.delete(keyHash);
+    } else {
+      this.keys.clear();
+    }
+  }
+
+  /**
+   * Get the key's state, folding the previous hour into the baseline once a new one starts
+   */
+  private getState(keyHash: string, now: number): KeyState {
+    const hourStart = now - (now % HOUR_MS);
+    let state = this.keys.get(keyHash);
+
+    if (!state) {
+      state = {
+        baseline: {
+          keyHash,
+          hoursObserved: 0,
+          requestsPerHour: 0,
+          bytesPerHour: 0,
+          encryptedDownloadsPerHour: 0,
+          toolCounts: {},
+          hourOfDayCounts: new Array(24).fill(0),
+        },
+        hourStart,
+        requests: 0,
+        bytes: 0,
+        encryptedDownloads: 0,
+        reported: new Set(),
+      };
+      this.keys.set(keyHash, state);
+      return state;
+    }
+
+    if (hourStart > state.hourStart) {
+      if (state.requests > 0) {
+        this.foldHour(state);
+      }
+      state.hourStart = hourStart;
+      state.requests = 0;
+      state.bytes = 0;
+      state.encryptedDownloads = 0;
+      state.reported.clear();
+    }
+
+    return state;
+  }
+
+  /**
+   * Fold a completed active hour into the baseline: a plain average while learning,
+   * then an exponentially weighted one so the baseline follows gradual change
+   */
+  private foldHour(state: KeyState): void {
+    const { baseline } = state;
+    baseline.hoursObserved++;
+
+    const weight =
+      baseline.hoursObserved <= this.config.learningPeriodHours
+        ? 1 / baseline.hoursObserved
+        : this.config.baselineSmoothing;
+
+    baseline.requestsPerHour += weight * (state.requests - baseline.requestsPerHour);
+    baseline.bytesPerHour += weight * (state.bytes - baseline.bytesPerHour);
+    baseline.encryptedDownloadsPerHour +=
+      weight * (state.encryptedDownloads - baseline.encryptedDownloadsPerHour);
+  }
+
+  /**
+   * Share of the key's calls so far made in the given hour of day
+   */
+  private getHourShare(baseline: KeyBaseline, hourOfDay: number): number {
+    const total = baseline.hourOfDayCounts.reduce((sum, count) => sum + count, 0);
+    return total > 0 ? (baseline.hourOfDayCounts[hourOfDay] ?? 0) / total : 0;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -2,8 +2,16 @@
  * Structured logging for authentication events and audit trails
  */
 
+import * as crypto from "crypto";
 import { SecurityEvent } from "./MetricsCollector.js";
 import { AuthenticationResult, LogContext } from "./types.js";
+import {
+  AuditAnchor,
+  AuditChain,
+  AuditChainLink,
+  AuditChainVerification,
+  AuditCheckpoint,
+} from "../utils/audit-chain.js";
 
 /**
  * Log levels for authentication events
@@ -42,6 +50,12 @@ export interface AuditEntry {
   success: boolean;
   duration?: number;
   details: Record<string, unknown>;
+  /** Position in the audit trail's hash chain (set when the entry is recorded) */
+  sequence?: number;
+  /** Hash of the previous entry */
+  prevHash?: string;
+  /** Hash of this entry, covering its content, sequence and prevHash */
+  hash?: string;
 }
 
 /**
@@ -54,6 +68,10 @@ export interface AuthLoggerConfig {
   maxLogEntries: number;
   auditTrailEnabled: boolean;
   sensitiveFields: string[];
+  /** Number of audit entries between signed checkpoints */
+  checkpointInterval: number;
+  /** HMAC key for audit checkpoints (random per logger if unset) */
+  signingKey?: string;
 }
 
 /**
@@ -66,6 +84,7 @@ export const DEFAULT_AUTH_LOGGER_CONFIG: AuthLoggerConfig = {
   maxLogEntries: 10000,
   auditTrailEnabled: true,
   sensitiveFields: ["apiKey", "password", "token", "secret", "key"],
+  checkpointInterval: 100,
 };
 
 /**
@@ -75,9 +94,15 @@ export class AuthLogger {
   private config: AuthLoggerConfig;
   private logEntries: AuthLogEntry[] = [];
   private auditTrail: AuditEntry[] = [];
+  private auditHead: AuditChainLink | null = null;
+  private auditCheckpoints: AuditCheckpoint[] = [];
+  /** Last entry trimmed from the audit trail */
+  private auditAnchor: AuditAnchor | null = null;
+  private signingKey: string;
 
   constructor(config: AuthLoggerConfig = DEFAULT_AUTH_LOGGER_CONFIG) {
     this.config = config;
+    this.signingKey = config.signingKey ?? crypto.randomBytes(32).toString("hex");
   }
 
   /**
@@ -292,6 +317,25 @@ export class AuthLogger {
     return entries;
   }
 
+  /**
+   * Get signed checkpoints of the audit trail
+   */
+  getAuditCheckpoints(): AuditCheckpoint[] {
+    return this.auditCheckpoints;
+  }
+
+  /**
+   * Walk the audit trail's hash chain and report the first broken link
+   */
+  verifyAuditTrail(): AuditChainVerification {
+    return AuditChain.verify(
+      this.auditTrail,
+      this.auditCheckpoints,
+      this.signingKey,
+      this.auditAnchor,
+    );
+  }
+
   /**
    * Get security events from logs
    */
@@ -315,6 +359,7 @@ export class AuthLogger {
       {
         logs: this.logEntries,
         auditTrail: this.auditTrail,
+        auditCheckpoints: this.auditCheckpoints,
         exportedAt: new Date().toISOString(),
       },
       null,
@@ -328,6 +373,9 @@ export class AuthLogger {
   clear(): void {
     this.logEntries = [];
     this.auditTrail = [];
+    this.auditHead = null;
+    this.auditCheckpoints = [];
+    this.auditAnchor = null;
   }
 
   /**
@@ -375,17 +423,27 @@ export class AuthLogger {
   }
 
   /**
-   * Add audit trail entry
+   * Add audit trail entry, chained to the previous one
    */
   private addAuditEntry(entry: AuditEntry): void {
     // Sanitize sensitive details
     entry.details = this.sanitizeDetails(entry.details);
 
-    this.auditTrail.push(entry);
+    const linked = AuditChain.link(entry, this.auditHead);
+    this.auditTrail.push(linked);
+    this.auditHead = linked;
+
+    if (linked.sequence % this.config.checkpointInterval === 0) {
+      this.auditCheckpoints.push(AuditChain.checkpoint(linked, this.signingKey));
+    }
 
     // Manage audit trail size
     if (this.auditTrail.length > this.config.maxLogEntries) {
+      const trimmed = this.auditTrail[this.auditTrail.length - this.config.maxLogEntries - 1];
+      this.auditAnchor = AuditChain.anchor(trimmed as AuditChainLink, this.signingKey);
       this.auditTrail = this.auditTrail.slice(-this.config.maxLogEntries);
+      const oldest = this.auditTrail[0]!.sequence!;
+      this.auditCheckpoints = this.auditCheckpoints.filter((c) => c.sequence >= oldest);
     }
   }
 
@@ -2,20 +2,48 @@
  * Authentication manager with API key validation and fallback logic
  */
 
-import { AuthConfig, ValidationResult, AuthenticationResult } from "./types.js";
+import { AuthConfig, ValidationResult, AuthenticationResult, RateLimitResult } from "./types.js";
 import { KeyValidationCache } from "./KeyValidationCache.js";
 import { RateLimiter } from "./RateLimiter.js";
 import { SecureKeyHandler } from "./SecureKeyHandler.js";
+import { AuthMetrics, DEFAULT_METRICS_CONFIG, MetricsCollector } from "./MetricsCollector.js";
+import { KeyUsageSample, UsageAnomaly, isSeverityAtLeast } from "./AnomalyDetector.js";
+import { SecurityAlerter } from "./SecurityAlerter.js";
+import { AuthLogger } from "./AuthLogger.js";
 
 export class AuthManager {
   private config: AuthConfig;
   private cache: KeyValidationCache;
   private rateLimiter: RateLimiter;
+  private metrics: MetricsCollector;
+  private alerter?: SecurityAlerter;
+  /** Hash-chained audit trail of authentication attempts */
+  private authLogger = new AuthLogger();
+  /** Hashes of keys suspended for anomalous usage */
+  private suspendedKeys = new Set<string>();
 
   constructor(config: AuthConfig) {
     this.config = config;
     this.cache = new KeyValidationCache(config.keyValidationCache);
     this.rateLimiter = new RateLimiter(config.rateLimiting);
+    this.metrics = new MetricsCollector({
+      ...DEFAULT_METRICS_CONFIG,
+      anomalyDetection: config.anomalyDetection,
+    });
+
+    if (config.alerts?.enabled) {
+      const alerter = new SecurityAlerter(config.alerts, this.metrics);
+      // Events are held back until persisted alerts are loaded, so restarts keep cooldowns
+      const ready = alerter.initialize().catch((error) => {
+        console.error("Failed to load security alerts:", error);
+      });
+      this.metrics.onSecurityEvent((event) => {
+        ready
+          .then(() => alerter.processSecurityEvent(event))
+          .catch((error) => console.error("Security alert processing failed:", error));
+      });
+      this.alerter = alerter;
+    }
   }
 
   /**
@@ -35,6 +63,10 @@ export class AuthManager {
 
     const keyHash = SecureKeyHandler.hashKey(apiKey);
 
+    if (this.suspendedKeys.has(keyHash)) {
+      return { isValid: false, keyHash, errorMessage: "API key suspended" };
+    }
+
     // Check cache first
     const cached = this.cache.get(keyHash);
     if (cached) {
@@ -115,26 +147,43 @@ export class AuthManager {
 
       const validation = await this.validateApiKey(effectiveKey);
 
-      return {
+      return this.recordAuthentication({
         success: validation.isValid,
         keyHash: validation.keyHash,
         usedFallback,
         rateLimited: validation.rateLimitInfo?.remaining === 0 || false,
         authTime: Date.now() - startTime,
         errorMessage: validation.errorMessage,
-      };
+      });
     } catch (error) {
-      return {
+      return this.recordAuthentication({
         success: false,
         keyHash: "unknown",
         usedFallback: false,
         rateLimited: false,
         authTime: Date.now() - startTime,
         errorMessage: error instanceof Error ? error.message : "Authentication failed",
-      };
+      });
     }
   }
 
+  /**
+   * Count an authentication attempt in the auth metrics. Used directly when
+   * authentication is delegated elsewhere (e.g. tenant resolution).
+   */
+  recordAuthentication(result: AuthenticationResult): AuthenticationResult {
+    this.metrics.recordAuthentication(result);
+    this.authLogger.logAuthentication(result);
+    return result;
+  }
+
+  /**
+   * Get authentication metrics
+   */
+  getAuthMetrics(): AuthMetrics {
+    return this.metrics.getMetrics();
+  }
+
   /**
    * Sanitize API key for logging
    */
@@ -151,6 +200,15 @@ export class AuthManager {
     return !result.allowed;
   }
 
+  /**
+   * Consume a rate limit slot for a key without performing key validation.
+   * Used when key validation is delegated elsewhere (e.g. tenant resolution).
+   */
+  checkRateLimit(apiKey: string): RateLimitResult {
+    const keyHash = SecureKeyHandler.hashKey(apiKey);
+    return this.rateLimiter.isAllowed(keyHash);
+  }
+
   /**
    * Invalidate cached validation for a key
    */
@@ -159,6 +217,52 @@ export class AuthManager {
     this.cache.invalidate(keyHash);
   }
 
+  /**
+   * Record a completed tool call against the key's usage baseline. When auto-suspension
+   * is on and an anomaly reaches its severity, the key is suspended.
+   */
+  recordToolUsage(
+    apiKey: string,
+    sample: KeyUsageSample,
+  ): { anomalies: UsageAnomaly[]; suspended: boolean } {
+    const keyHash = SecureKeyHandler.hashKey(apiKey);
+    const anomalies = this.metrics.recordToolUsage(keyHash, sample);
+
+    const detection = this.config.anomalyDetection;
+    const shouldSuspend =
+      !!detection?.autoSuspend &&
+      !this.suspendedKeys.has(keyHash) &&
+      anomalies.some((anomaly) => isSeverityAtLeast(anomaly.severity, detection.suspendSeverity));
+
+    if (shouldSuspend) {
+      this.suspendKey(apiKey);
+    }
+
+    return { anomalies, suspended: shouldSuspend };
+  }
+
+  /**
+   * Suspend a key: drop its cached validation and reject it until reinstated
+   */
+  suspendKey(apiKey: string): void {
+    this.suspendedKeys.add(SecureKeyHandler.hashKey(apiKey));
+    this.invalidateKey(apiKey);
+  }
+
+  /**
+   * Lift a suspension
+   */
+  reinstateKey(apiKey: string): boolean {
+    return this.suspendedKeys.delete(SecureKeyHandler.hashKey(apiKey));
+  }
+
+  /**
+   * Check if a key is suspended
+   */
+  isKeySuspended(apiKey: string): boolean {
+    return this.suspendedKeys.has(SecureKeyHandler.hashKey(apiKey));
+  }
+
   /**
    * Get cache statistics
    */
@@ -198,11 +302,26 @@ export class AuthManager {
     return false;
   }
 
+  /**
+   * Get the authentication audit logger
+   */
+  getAuthLogger(): AuthLogger {
+    return this.authLogger;
+  }
+
+  /**
+   * Get the security alerter, when alerts are configured
+   */
+  getSecurityAlerter(): SecurityAlerter | undefined {
+    return this.alerter;
+  }
+
   /**
    * Destroy the auth manager and cleanup resources
    */
   destroy(): void {
     this.cache.destroy();
     this.rateLimiter.destroy();
+    this.metrics.destroy();
   }
 }
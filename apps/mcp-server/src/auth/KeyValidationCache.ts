@@ -8,6 +8,8 @@ export class KeyValidationCache {
   private cache = new Map<string, CacheEntry>();
   private config: CacheConfig;
   private cleanupInterval?: NodeJS.Timeout;
+  private hits = 0;
+  private misses = 0;
 
   constructor(config: CacheConfig) {
     this.config = config;
@@ -28,16 +30,21 @@ export class KeyValidationCache {
     if (!this.config.enabled) return null;
 
     const entry = this.cache.get(keyHash);
-    if (!entry) return null;
+    if (!entry) {
+      this.misses++;
+      return null;
+    }
 
     // Check if expired
     if (Date.now() > entry.expiresAt) {
       this.cache.delete(keyHash);
+      this.misses++;
       return null;
     }
 
     // Update access time for LRU
     entry.lastAccessed = Date.now();
+    this.hits++;
     return entry.result;
   }
 
@@ -82,13 +89,18 @@ export class KeyValidationCache {
     enabled: boolean;
     size: number;
     maxSize: number;
+    hits: number;
+    misses: number;
     hitRate: number;
   } {
+    const lookups = this.hits + this.misses;
     return {
       enabled: this.config.enabled,
       size: this.cache.size,
       maxSize: this.config.maxSize,
-      hitRate: 0, // Would need to track hits/misses for accurate rate
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
     };
   }
 
@@ -3,6 +3,8 @@
  */
 
 import crypto from "crypto";
+import { ContentCache } from "@lighthouse-tooling/shared";
+import type { LighthouseConfig } from "@lighthouse-tooling/sdk-wrapper";
 import { ILighthouseService } from "../services/ILighthouseService.js";
 import { LighthouseService } from "../services/LighthouseService.js";
 import { PerformanceConfig, ServiceEntry } from "./types.js";
@@ -10,10 +12,22 @@ import { PerformanceConfig, ServiceEntry } from "./types.js";
 export class LighthouseServiceFactory {
   private services = new Map<string, ServiceEntry>();
   private config: PerformanceConfig;
+  private contentCache?: ContentCache;
+  private endpoints?: Pick<LighthouseConfig, "baseUrl" | "gatewayUrl" | "directApi">;
   private cleanupInterval?: NodeJS.Timeout;
 
-  constructor(config: PerformanceConfig) {
+  /**
+   * @param contentCache - Downloaded content cache shared by every pooled service
+   * @param endpoints - Lighthouse endpoint overrides, e.g. a local gateway's
+   */
+  constructor(
+    config: PerformanceConfig,
+    contentCache?: ContentCache,
+    endpoints?: Pick<LighthouseConfig, "baseUrl" | "gatewayUrl" | "directApi">,
+  ) {
     this.config = config;
+    this.contentCache = contentCache;
+    this.endpoints = endpoints;
 
     // Cleanup expired service instances every 5 minutes
     this.cleanupInterval = setInterval(() => this.cleanup(), 5 * 60 * 1000);
@@ -23,7 +37,14 @@ export class LighthouseServiceFactory {
    * Create a new service instance with specific API key
    */
   async createService(apiKey: string): Promise<ILighthouseService> {
-    const service = new LighthouseService(apiKey);
+    const service = new LighthouseService(
+      apiKey,
+      undefined,
+      undefined,
+      undefined,
+      this.contentCache,
+      this.endpoints,
+    );
 
     // Initialize if the service has an initialize method
     if (service.initialize) {
@@ -45,6 +66,9 @@ export class LighthouseServiceFactory {
       existing.lastUsed = Date.now();
       return existing.service;
     }
+    if (existing) {
+      this.dropService(keyHash);
+    }
 
     // Create new service instance
     const service = await this.createService(apiKey);
@@ -54,6 +78,9 @@ export class LighthouseServiceFactory {
       lastUsed: Date.now(),
       keyHash,
     };
+    service.onRateLimit?.((state) => {
+      entry.rateLimitedUntil = Date.now() + state.retryAfter;
+    });
 
     // Manage pool size
     if (this.services.size >= this.config.servicePoolSize) {
@@ -64,19 +91,28 @@ export class LighthouseServiceFactory {
     return service;
   }
 
+  /**
+   * Milliseconds until Lighthouse accepts requests for this API key again, 0 if it does now
+   */
+  getRetryAfter(apiKey: string): number {
+    const entry = this.services.get(this.hashApiKey(apiKey));
+    return Math.max(0, (entry?.rateLimitedUntil ?? 0) - Date.now());
+  }
+
   /**
    * Remove a service from the pool
    */
   removeService(apiKey: string): void {
-    const keyHash = this.hashApiKey(apiKey);
-    this.services.delete(keyHash);
+    this.dropService(this.hashApiKey(apiKey));
   }
 
   /**
    * Clear all services from the pool
    */
   clear(): void {
-    this.services.clear();
+    for (const keyHash of [...this.services.keys()]) {
+      this.dropService(keyHash);
+    }
   }
 
   /**
@@ -86,8 +122,10 @@ export class LighthouseServiceFactory {
     size: number;
     maxSize: number;
     oldestServiceAge: number;
+    rateLimited: number;
   } {
     let oldestAge = 0;
+    let rateLimited = 0;
     const now = Date.now();
 
     for (const entry of this.services.values()) {
@@ -95,12 +133,16 @@ export class LighthouseServiceFactory {
       if (age > oldestAge) {
         oldestAge = age;
       }
+      if ((entry.rateLimitedUntil ?? 0) > now) {
+        rateLimited++;
+      }
     }
 
     return {
       size: this.services.size,
       maxSize: this.config.servicePoolSize,
       oldestServiceAge: oldestAge,
+      rateLimited,
     };
   }
 
@@ -135,7 +177,7 @@ export class LighthouseServiceFactory {
     }
 
     if (oldestKey) {
-      this.services.delete(oldestKey);
+      this.dropService(oldestKey);
     }
   }
 
@@ -151,7 +193,17 @@ export class LighthouseServiceFactory {
       }
     }
 
-    keysToDelete.forEach((key) => this.services.delete(key));
+    keysToDelete.forEach((key) => this.dropService(key));
+  }
+
+  /**
+   * Remove a service from the pool and destroy it, which also releases its share of the
+   * SDK's per-key rate limiter
+   */
+  private dropService(keyHash: string): void {
+    const entry = this.services.get(keyHash);
+    this.services.delete(keyHash);
+    entry?.service.destroy?.();
   }
 
   /**
@@ -3,6 +3,14 @@
  */
 
 import { AuthenticationResult } from "./types.js";
+import {
+  AnomalyDetectionConfig,
+  AnomalyDetector,
+  DEFAULT_ANOMALY_DETECTION_CONFIG,
+  KeyBaseline,
+  KeyUsageSample,
+  UsageAnomaly,
+} from "./AnomalyDetector.js";
 
 /**
  * Authentication metrics interface
@@ -48,6 +56,7 @@ export enum SecurityEventType {
   INVALID_KEY_FORMAT = "INVALID_KEY_FORMAT",
   SUSPICIOUS_ACTIVITY = "SUSPICIOUS_ACTIVITY",
   MULTIPLE_FAILURES = "MULTIPLE_FAILURES",
+  ANOMALOUS_USAGE = "ANOMALOUS_USAGE",
 }
 
 /**
@@ -73,6 +82,8 @@ export interface MetricsConfig {
     suspiciousActivityThreshold: number;
   };
   cleanupIntervalMinutes: number;
+  /** Per-key usage baselines; defaults to DEFAULT_ANOMALY_DETECTION_CONFIG */
+  anomalyDetection?: AnomalyDetectionConfig;
 }
 
 /**
@@ -100,9 +111,14 @@ export class MetricsCollector {
   private cacheHits = 0;
   private cacheMisses = 0;
   private cleanupInterval?: NodeJS.Timeout;
+  private securityEventListeners: Array<(event: SecurityEvent) => void> = [];
+  private anomalyDetector: AnomalyDetector;
 
   constructor(config: MetricsConfig = DEFAULT_METRICS_CONFIG) {
     this.config = config;
+    this.anomalyDetector = new AnomalyDetector(
+      config.anomalyDetection ?? DEFAULT_ANOMALY_DETECTION_CONFIG,
+    );
     this.metrics = {
       totalRequests: 0,
       authenticatedRequests: 0,
@@ -192,6 +208,40 @@ export class MetricsCollector {
     this.updateCacheHitRate();
   }
 
+  /**
+   * Record a completed tool call against its key's baseline. Deviations are recorded
+   * as ANOMALOUS_USAGE security events and returned.
+   */
+  recordToolUsage(keyHash: string, sample: KeyUsageSample): UsageAnomaly[] {
+    if (!this.config.enabled) return [];
+
+    const anomalies = this.anomalyDetector.record(keyHash, sample);
+    for (const anomaly of anomalies) {
+      this.recordSecurityEvent({
+        type: SecurityEventType.ANOMALOUS_USAGE,
+        keyHash,
+        timestamp: sample.timestamp ?? new Date(),
+        details: {
+          anomaly: anomaly.type,
+          description: anomaly.description,
+          observed: anomaly.observed,
+          expected: anomaly.expected,
+          toolName: anomaly.toolName,
+        },
+        severity: anomaly.severity,
+      });
+    }
+
+    return anomalies;
+  }
+
+  /**
+   * Get the usage baseline learned for a key
+   */
+  getKeyBaseline(keyHash: string): KeyBaseline | undefined {
+    return this.anomalyDetector.getBaseline(keyHash);
+  }
+
   /**
    * Record a security event
    */
@@ -203,6 +253,17 @@ export class MetricsCollector {
     // Clean up old events if needed
     const cutoffTime = new Date(Date.now() - this.config.retentionPeriodHours * 60 * 60 * 1000);
     this.securityEvents = this.securityEvents.filter((e) => e.timestamp > cutoffTime);
+
+    for (const listener of this.securityEventListeners) {
+      listener(event);
+    }
+  }
+
+  /**
+   * Subscribe to security events as they are recorded
+   */
+  onSecurityEvent(listener: (event: SecurityEvent) => void): void {
+    this.securityEventListeners.push(listener);
   }
 
   /**
@@ -310,6 +371,7 @@ export class MetricsCollector {
     this.authTimings = [];
     this.cacheHits = 0;
     this.cacheMisses = 0;
+    this.anomalyDetector.reset();
   }
 
   /**
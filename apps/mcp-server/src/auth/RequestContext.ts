@@ -3,6 +3,7 @@
  */
 
 import crypto from "crypto";
+import { TenantContext } from "@lighthouse-tooling/types";
 import { ILighthouseService } from "../services/ILighthouseService.js";
 import { RequestContextParams, LogContext } from "./types.js";
 
@@ -11,6 +12,7 @@ export class RequestContext {
   public readonly keyHash: string;
   public readonly service: ILighthouseService;
   public readonly toolName: string;
+  public readonly tenantContext?: TenantContext;
   public readonly requestId: string;
   public readonly timestamp: Date;
 
@@ -19,6 +21,7 @@ export class RequestContext {
     this.keyHash = params.keyHash;
     this.service = params.service;
     this.toolName = params.toolName;
+    this.tenantContext = params.tenantContext;
     this.requestId = crypto.randomUUID();
     this.timestamp = new Date();
   }
@@ -27,12 +30,19 @@ export class RequestContext {
    * Get sanitized context for logging (without sensitive data)
    */
   toLogContext(): LogContext {
-    return {
+    const logContext: LogContext = {
       requestId: this.requestId,
       keyHash: this.keyHash,
       toolName: this.toolName,
       timestamp: this.timestamp.toISOString(),
     };
+
+    if (this.tenantContext) {
+      logContext.organizationId = this.tenantContext.organization.id;
+      logContext.teamId = this.tenantContext.team?.id;
+    }
+
+    return logContext;
   }
 
   /**
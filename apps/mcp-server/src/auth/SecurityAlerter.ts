@@ -4,6 +4,9 @@
 
 import { SecurityEvent, SecurityEventType, MetricsCollector } from "./MetricsCollector.js";
 import { AuthLogger } from "./AuthLogger.js";
+import { AlertStore, FileAlertStore } from "./AlertStore.js";
+import { EmailAlertHandler, FileAlertHandler, WebhookAlertHandler } from "./AlertHandlers.js";
+import { SmtpConfig } from "./SmtpClient.js";
 
 /**
  * Alert severity levels
@@ -15,6 +18,11 @@ export enum AlertSeverity {
   CRITICAL = "critical",
 }
 
+/**
+ * Built-in alert delivery channels
+ */
+export type AlertChannel = "console" | "webhook" | "email" | "file";
+
 /**
  * Alert configuration
  */
@@ -29,9 +37,29 @@ export interface AlertConfig {
   notifications: {
     console: boolean;
     webhook?: string;
+    /** Secret for the webhook's HMAC-SHA256 signature header */
+    webhookSecret?: string;
+    /** Comma-separated recipients; needs `smtp` */
     email?: string;
+    smtp?: SmtpConfig;
+    /** File alerts are appended to as JSON lines */
+    file?: string;
+  };
+  cooldownMinutes: number; // Window in which repeats of an alert are folded into it
+  /** Severities each channel receives; a channel without a rule receives all of them */
+  routing?: Partial<Record<AlertChannel, AlertSeverity[]>>;
+  /** Most notifications each channel sends per window; the rest are stored but not sent */
+  throttle?: {
+    maxNotifications: number;
+    windowMinutes: number;
+  };
+  /** File alerts and acknowledgements are persisted to, so they survive restarts */
+  storePath?: string;
+  /** Alerts older than `maxAgeHours`, then the oldest beyond `maxAlerts`, are dropped on load and save */
+  retention?: {
+    maxAgeHours?: number;
+    maxAlerts?: number;
   };
-  cooldownMinutes: number; // Minimum time between similar alerts
 }
 
 /**
@@ -47,6 +75,11 @@ export interface AlertNotification {
   acknowledged: boolean;
   acknowledgedAt?: Date;
   acknowledgedBy?: string;
+  /** Identifies repeats of the same alert; defaults to severity and title */
+  fingerprint?: string;
+  /** Times the alert fired within its cooldown window, including the first */
+  occurrences?: number;
+  lastOccurredAt?: Date;
 }
 
 /**
@@ -84,40 +117,6 @@ export class ConsoleAlertHandler implements AlertHandler {
   }
 }
 
-/**
- * Webhook alert handler
- */
-export class WebhookAlertHandler implements AlertHandler {
-  constructor(private webhookUrl: string) {}
-
-  async handleAlert(alert: AlertNotification): Promise<void> {
-    try {
-      const payload = {
-        alert_id: alert.id,
-        timestamp: alert.timestamp.toISOString(),
-        severity: alert.severity,
-        title: alert.title,
-        message: alert.message,
-        details: alert.details,
-      };
-
-      const response = await fetch(this.webhookUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-      });
-
-      if (!response.ok) {
-        throw new Error(`Webhook failed: ${response.status} ${response.statusText}`);
-      }
-    } catch (error) {
-      console.error("Failed to send webhook alert:", error);
-    }
-  }
-}
-
 /**
  * Default alert configuration
  */
@@ -133,16 +132,35 @@ export const DEFAULT_ALERT_CONFIG: AlertConfig = {
     console: true,
   },
   cooldownMinutes: 5,
+  retention: {
+    maxAgeHours: 30 * 24,
+    maxAlerts: 1000,
+  },
 };
 
+/**
+ * A handler and the alerts routed to it
+ */
+interface AlertRoute {
+  handler: AlertHandler;
+  severities?: AlertSeverity[];
+  /** Delivery times within the current throttle window */
+  sentAt: number[];
+}
+
 /**
  * Security alerting system
  */
 export class SecurityAlerter {
   private config: AlertConfig;
-  private handlers: AlertHandler[] = [];
+  private routes: AlertRoute[] = [];
   private alerts: AlertNotification[] = [];
-  private lastAlertTimes = new Map<string, Date>();
+  private latestByFingerprint = new Map<string, AlertNotification>();
+  private duplicatesSuppressed = 0;
+  private notificationsThrottled = 0;
+  private store?: AlertStore;
+  private persisting: Promise<void> = Promise.resolve();
+  private persistQueued = false;
 
   private logger?: AuthLogger;
 
@@ -150,13 +168,34 @@ export class SecurityAlerter {
     config: AlertConfig = DEFAULT_ALERT_CONFIG,
     _metricsCollector?: MetricsCollector,
     logger?: AuthLogger,
+    store?: AlertStore,
   ) {
     this.config = config;
     this.logger = logger;
+    this.store = store ?? (config.storePath ? new FileAlertStore(config.storePath) : undefined);
 
     this.setupHandlers();
   }
 
+  /**
+   * Load persisted alerts, including their acknowledgements and cooldown windows
+   */
+  async initialize(): Promise<void> {
+    if (!this.store) return;
+
+    const stored = await this.store.load();
+    const known = new Set(this.alerts.map((alert) => alert.id));
+    this.alerts = [...stored.filter((alert) => !known.has(alert.id)), ...this.alerts];
+    this.applyRetention();
+  }
+
+  /**
+   * Wait until all changes have been written to the store
+   */
+  async flush(): Promise<void> {
+    await this.persisting;
+  }
+
   /**
    * Process a security event and potentially trigger alerts
    */
@@ -179,26 +218,41 @@ export class SecurityAlerter {
   }
 
   /**
-   * Manually trigger an alert
+   * Manually trigger an alert. Repeats within the cooldown window are counted on
+   * the alert already sent instead of notifying again.
    */
   async triggerAlert(alert: AlertNotification): Promise<void> {
-    // Check cooldown period
-    const alertKey = `${alert.severity}-${alert.title}`;
-    const lastAlert = this.lastAlertTimes.get(alertKey);
+    const fingerprint = alert.fingerprint ?? `${alert.severity}-${alert.title}`;
+    const previous = this.latestByFingerprint.get(fingerprint);
     const cooldownMs = this.config.cooldownMinutes * 60 * 1000;
 
-    if (lastAlert && Date.now() - lastAlert.getTime() < cooldownMs) {
-      return; // Still in cooldown period
+    if (previous && Date.now() - previous.timestamp.getTime() < cooldownMs) {
+      previous.occurrences = (previous.occurrences ?? 1) + 1;
+      previous.lastOccurredAt = alert.timestamp;
+      this.duplicatesSuppressed++;
+      this.persist();
+      return;
     }
 
     // Store the alert
+    alert.fingerprint = fingerprint;
+    alert.occurrences = alert.occurrences ?? 1;
     this.alerts.push(alert);
-    this.lastAlertTimes.set(alertKey, alert.timestamp);
+    this.latestByFingerprint.set(fingerprint, alert);
+    this.persist();
+
+    // Send to the handlers routed this severity
+    for (const route of this.routes) {
+      if (route.severities && !route.severities.includes(alert.severity)) {
+        continue;
+      }
+      if (this.isThrottled(route)) {
+        this.notificationsThrottled++;
+        continue;
+      }
 
-    // Send to all handlers
-    for (const handler of this.handlers) {
       try {
-        await handler.handleAlert(alert);
+        await route.handler.handleAlert(alert);
       } catch (error) {
         console.error("Alert handler failed:", error);
       }
@@ -248,6 +302,7 @@ export class SecurityAlerter {
     alert.acknowledged = true;
     alert.acknowledgedAt = new Date();
     alert.acknowledgedBy = acknowledgedBy;
+    this.persist();
 
     return true;
   }
@@ -263,24 +318,25 @@ export class SecurityAlerter {
    * Clear old alerts
    */
   clearOldAlerts(olderThanHours: number = 24): void {
-    const cutoff = new Date(Date.now() - olderThanHours * 60 * 60 * 1000);
-    this.alerts = this.alerts.filter((alert) => alert.timestamp > cutoff);
+    this.dropAlertsOlderThan(olderThanHours);
+    this.rebuildFingerprints();
+    this.persist();
   }
 
   /**
-   * Add custom alert handler
+   * Add custom alert handler, optionally receiving only the given severities
    */
-  addHandler(handler: AlertHandler): void {
-    this.handlers.push(handler);
+  addHandler(handler: AlertHandler, severities?: AlertSeverity[]): void {
+    this.routes.push({ handler, severities, sentAt: [] });
   }
 
   /**
    * Remove alert handler
    */
   removeHandler(handler: AlertHandler): void {
-    const index = this.handlers.indexOf(handler);
+    const index = this.routes.findIndex((route) => route.handler === handler);
     if (index > -1) {
-      this.handlers.splice(index, 1);
+      this.routes.splice(index, 1);
     }
   }
 
@@ -292,6 +348,8 @@ export class SecurityAlerter {
     unacknowledged: number;
     bySeverity: Record<AlertSeverity, number>;
     recentAlerts: number;
+    duplicatesSuppressed: number;
+    notificationsThrottled: number;
   } {
     const bySeverity = {
       [AlertSeverity.LOW]: 0,
@@ -315,6 +373,8 @@ export class SecurityAlerter {
       unacknowledged: this.getUnacknowledgedAlerts().length,
       bySeverity,
       recentAlerts,
+      duplicatesSuppressed: this.duplicatesSuppressed,
+      notificationsThrottled: this.notificationsThrottled,
     };
   }
 
@@ -322,15 +382,105 @@ export class SecurityAlerter {
    * Setup default alert handlers
    */
   private setupHandlers(): void {
-    if (this.config.notifications.console) {
-      this.addHandler(new ConsoleAlertHandler());
+    const { notifications, routing = {} } = this.config;
+
+    if (notifications.console) {
+      this.addHandler(new ConsoleAlertHandler(), routing.console);
+    }
+
+    if (notifications.webhook) {
+      this.addHandler(
+        new WebhookAlertHandler(notifications.webhook, notifications.webhookSecret),
+        routing.webhook,
+      );
+    }
+
+    if (notifications.email && notifications.smtp) {
+      this.addHandler(
+        new EmailAlertHandler(notifications.email, notifications.smtp),
+        routing.email,
+      );
     }
 
-    if (this.config.notifications.webhook) {
-      this.addHandler(new WebhookAlertHandler(this.config.notifications.webhook));
+    if (notifications.file) {
+      this.addHandler(new FileAlertHandler(notifications.file), routing.file);
     }
   }
 
+  /**
+   * Check the route's throttle window, recording the delivery if it is allowed
+   */
+  private isThrottled(route: AlertRoute): boolean {
+    if (!this.config.throttle) return false;
+
+    const windowStart = Date.now() - this.config.throttle.windowMinutes * 60 * 1000;
+    route.sentAt = route.sentAt.filter((time) => time > windowStart);
+
+    if (route.sentAt.length >= this.config.throttle.maxNotifications) {
+      return true;
+    }
+
+    route.sentAt.push(Date.now());
+    return false;
+  }
+
+  /**
+   * Drop the alerts the retention policy no longer keeps
+   */
+  private applyRetention(): void {
+    const { maxAgeHours, maxAlerts } = this.config.retention ?? {};
+
+    if (maxAgeHours !== undefined) {
+      this.dropAlertsOlderThan(maxAgeHours);
+    }
+    if (maxAlerts !== undefined && this.alerts.length > maxAlerts) {
+      this.alerts = this.alerts
+        .slice()
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+        .slice(-maxAlerts);
+    }
+    this.rebuildFingerprints();
+  }
+
+  private dropAlertsOlderThan(hours: number): void {
+    const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000);
+    this.alerts = this.alerts.filter((alert) => alert.timestamp > cutoff);
+  }
+
+  /**
+   * Point each fingerprint at its most recent alert
+   */
+  private rebuildFingerprints(): void {
+    this.latestByFingerprint.clear();
+    for (const alert of this.alerts) {
+      const fingerprint = alert.fingerprint ?? `${alert.severity}-${alert.title}`;
+      const latest = this.latestByFingerprint.get(fingerprint);
+      if (!latest || alert.timestamp >= latest.timestamp) {
+        this.latestByFingerprint.set(fingerprint, alert);
+      }
+    }
+  }
+
+  /**
+   * Queue a write of the current alerts. Writes run one at a time, and changes made
+   * while one is queued are picked up by it, so a burst causes only a few writes.
+   */
+  private persist(): void {
+    const store = this.store;
+    if (!store || this.persistQueued) return;
+
+    this.persistQueued = true;
+    this.persisting = this.persisting
+      .then(() => {
+        this.persistQueued = false;
+        this.applyRetention();
+        return store.save(this.alerts.slice());
+      })
+      .catch((error) => {
+        console.error("Failed to persist security alerts:", error);
+      });
+  }
+
   /**
    * Evaluate if a security event should trigger an alert
    */
@@ -348,6 +498,9 @@ export class SecurityAlerter {
       case SecurityEventType.MULTIPLE_FAILURES:
         return this.evaluateMultipleFailures(event);
 
+      case SecurityEventType.ANOMALOUS_USAGE:
+        return this.evaluateAnomalousUsage(event);
+
       default:
         return null;
     }
@@ -423,6 +576,27 @@ export class SecurityAlerter {
     };
   }
 
+  /**
+   * Evaluate a deviation from a key's usage baseline. Low-severity deviations (a first
+   * use of a tool, an unusual hour) are logged but not alerted on.
+   */
+  private evaluateAnomalousUsage(event: SecurityEvent): AlertNotification | null {
+    if (event.severity === "low") {
+      return null;
+    }
+
+    return {
+      id: this.generateAlertId(),
+      timestamp: event.timestamp,
+      severity: event.severity as AlertSeverity,
+      title: "Anomalous API Key Usage",
+      message: `Unusual usage for key ${event.keyHash}: ${event.details.description}`,
+      details: event.details,
+      acknowledged: false,
+      fingerprint: `anomaly-${event.keyHash}-${event.details.anomaly}`,
+    };
+  }
+
   /**
    * Check for pattern-based alerts
    */
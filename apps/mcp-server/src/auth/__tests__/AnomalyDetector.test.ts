@@ -0,0 +1,139 @@
+/**
+ * Tests for per-key usage baselines and anomaly detection
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  AnomalyDetector,
+  AnomalyType,
+  DEFAULT_ANOMALY_DETECTION_CONFIG,
+  KeyUsageSample,
+} from "../AnomalyDetector.js";
+
+const HOUR = 60 * 60 * 1000;
+const START = Date.UTC(2026, 0, 5, 9); // 09:00 UTC
+
+describe("AnomalyDetector", () => {
+  let detector: AnomalyDetector;
+
+  const call = (hour: number, sample: Partial<KeyUsageSample> = {}, minute = 0) =>
+    detector.record("key_1", {
+      toolName: "lighthouse_get_dataset",
+      bytes: 0,
+      encryptedDownload: false,
+      timestamp: new Date(START + hour * HOUR + minute * 60 * 1000),
+      ...sample,
+    });
+
+  /**
+   * Three working days of 10 calls an hour between 09:00 and 11:00, one of them a
+   * 1MB encrypted download
+   */
+  const learnWorkingHours = () => {
+    for (let day = 0; day < 3; day++) {
+      for (let hour = 0; hour < 3; hour++) {
+        for (let i = 0; i < 10; i++) {
+          call(day * 24 + hour, i === 0 ? downloadSample(1024 * 1024) : {}, i);
+        }
+      }
+    }
+  };
+
+  const downloadSample = (bytes: number): Partial<KeyUsageSample> => ({
+    toolName: "lighthouse_fetch_file",
+    bytes,
+    encryptedDownload: true,
+  });
+
+  beforeEach(() => {
+    detector = new AnomalyDetector({
+      ...DEFAULT_ANOMALY_DETECTION_CONFIG,
+      learningPeriodHours: 6,
+      minRequestsPerHour: 20,
+      minBytesPerHour: 10 * 1024 * 1024,
+      minEncryptedDownloadsPerHour: 10,
+    });
+  });
+
+  it("should learn the key's hourly rate, tools and active hours", () => {
+    learnWorkingHours();
+    call(3 * 24); // starts a new hour, folding the last one in
+
+    const baseline = detector.getBaseline("key_1")!;
+    expect(baseline.hoursObserved).toBe(9);
+    expect(baseline.requestsPerHour).toBeCloseTo(10);
+    expect(baseline.encryptedDownloadsPerHour).toBeCloseTo(1);
+    expect(baseline.toolCounts).toMatchObject({ lighthouse_fetch_file: 9 });
+    expect(baseline.hourOfDayCounts[9]).toBe(31);
+    expect(baseline.hourOfDayCounts[3]).toBe(0);
+  });
+
+  it("should not report anything while learning", () => {
+    for (let i = 0; i < 100; i++) {
+      expect(call(0, downloadSample(1024 * 1024 * 1024))).toEqual([]);
+    }
+  });
+
+  it("should report a sudden bulk download of encrypted data as critical", () => {
+    learnWorkingHours();
+
+    const anomalies = [];
+    for (let i = 0; i < 60; i++) {
+      anomalies.push(...call(3 * 24, downloadSample(5 * 1024 * 1024)));
+    }
+
+    const types = anomalies.map((anomaly) => anomaly.type);
+    expect(types).toContain(AnomalyType.ENCRYPTED_BULK_DOWNLOAD);
+    expect(types).toContain(AnomalyType.DATA_TRANSFER);
+    expect(types).toContain(AnomalyType.REQUEST_RATE);
+    expect(anomalies.find((a) => a.type === AnomalyType.ENCRYPTED_BULK_DOWNLOAD)).toMatchObject({
+      keyHash: "key_1",
+      severity: "critical",
+      observed: 10,
+      toolName: "lighthouse_fetch_file",
+    });
+  });
+
+  it("should report each anomaly once per hour", () => {
+    learnWorkingHours();
+
+    const reported = (hour: number) => {
+      const anomalies = [];
+      for (let i = 0; i < 100; i++) {
+        anomalies.push(...call(hour, {}, i % 60));
+      }
+      return anomalies.filter((anomaly) => anomaly.type === AnomalyType.REQUEST_RATE);
+    };
+
+    expect(reported(3 * 24)).toHaveLength(1);
+    expect(reported(3 * 24 + 1)).toHaveLength(1);
+  });
+
+  it("should report the first use of a tool and an unusual hour", () => {
+    learnWorkingHours();
+
+    const anomalies = call(3 * 24 + 18, { toolName: "lighthouse_batch_download" }); // 03:00 UTC
+
+    expect(anomalies.map((anomaly) => anomaly.type).sort()).toEqual([
+      AnomalyType.NEW_TOOL,
+      AnomalyType.UNUSUAL_HOUR,
+    ]);
+    expect(anomalies.every((anomaly) => anomaly.severity === "low")).toBe(true);
+  });
+
+  it("should stay quiet for usage that matches the baseline", () => {
+    learnWorkingHours();
+
+    for (let i = 0; i < 10; i++) {
+      expect(call(3 * 24, i === 0 ? downloadSample(1024 * 1024) : {}, i)).toEqual([]);
+    }
+  });
+
+  it("should keep baselines per key", () => {
+    learnWorkingHours();
+
+    expect(detector.getBaseline("key_2")).toBeUndefined();
+    detector.reset("key_1");
+    expect(detector.getBaseline("key_1")).toBeUndefined();
+  });
+});
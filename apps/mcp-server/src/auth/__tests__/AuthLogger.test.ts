@@ -0,0 +1,65 @@
+/**
+ * Tests for AuthLogger audit trail chaining
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import { AuthLogger, DEFAULT_AUTH_LOGGER_CONFIG } from "../AuthLogger.js";
+
+describe("AuthLogger", () => {
+  let logger: AuthLogger;
+
+  const logCalls = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      logger.logToolExecution("lighthouse_upload_file", `key_${i}`, true, 10);
+    }
+  };
+
+  beforeEach(() => {
+    logger = new AuthLogger({ ...DEFAULT_AUTH_LOGGER_CONFIG, checkpointInterval: 2 });
+  });
+
+  describe("audit trail chain", () => {
+    it("should chain entries and sign periodic checkpoints", () => {
+      logCalls(5);
+
+      const trail = logger.getAuditTrail();
+      expect(trail.map((entry) => entry.sequence)).toEqual([1, 2, 3, 4, 5]);
+      expect(trail[1]?.prevHash).toBe(trail[0]?.hash);
+      expect(logger.getAuditCheckpoints().map((c) => c.sequence)).toEqual([2, 4]);
+      expect(logger.verifyAuditTrail()).toMatchObject({ valid: true, checkpointsChecked: 2 });
+    });
+
+    it("should report the first edited entry", () => {
+      logCalls(3);
+
+      logger.getAuditTrail()[1]!.success = false;
+
+      expect(logger.verifyAuditTrail().brokenLink).toMatchObject({
+        index: 1,
+        sequence: 2,
+        reason: "Entry content does not match its hash",
+      });
+    });
+
+    it("should keep verifying after old entries are trimmed", () => {
+      logger = new AuthLogger({
+        ...DEFAULT_AUTH_LOGGER_CONFIG,
+        maxLogEntries: 3,
+        checkpointInterval: 2,
+      });
+      logCalls(7);
+
+      expect(logger.getAuditTrail()[0]?.sequence).toBe(5);
+      expect(logger.getAuditCheckpoints().map((c) => c.sequence)).toEqual([6]);
+      expect(logger.verifyAuditTrail()).toMatchObject({ valid: true, entriesChecked: 3 });
+    });
+
+    it("should include checkpoints in exported logs", () => {
+      logCalls(2);
+
+      const exported = JSON.parse(logger.exportLogs());
+
+      expect(exported.auditCheckpoints).toHaveLength(1);
+    });
+  });
+});
@@ -5,6 +5,7 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { AuthManager } from "../AuthManager.js";
 import { AuthConfig } from "../types.js";
+import { DEFAULT_ANOMALY_DETECTION_CONFIG, KeyUsageSample } from "../AnomalyDetector.js";
 
 describe("AuthManager", () => {
   let authManager: AuthManager;
@@ -158,6 +159,28 @@ describe("AuthManager", () => {
       expect(result.authTime).toBeGreaterThanOrEqual(0);
       expect(result.authTime).toBeLessThan(1000); // Should be fast
     });
+
+    it("should count attempts in the auth metrics", async () => {
+      await authManager.authenticate("test-api-key-12345");
+      await authManager.authenticate();
+      await authManager.authenticate("bad");
+
+      expect(authManager.getAuthMetrics()).toMatchObject({
+        totalRequests: 3,
+        authenticatedRequests: 2,
+        fallbackRequests: 1,
+        failedAuthentications: 1,
+      });
+    });
+
+    it("should record attempts in the chained authentication audit trail", async () => {
+      await authManager.authenticate("test-api-key-12345");
+      await authManager.authenticate("bad");
+
+      const authLogger = authManager.getAuthLogger();
+      expect(authLogger.getAuditTrail().map((entry) => entry.success)).toEqual([true, false]);
+      expect(authLogger.verifyAuditTrail()).toMatchObject({ valid: true, entriesChecked: 2 });
+    });
   });
 
   describe("sanitizeApiKey", () => {
@@ -195,6 +218,58 @@ describe("AuthManager", () => {
     });
   });
 
+  describe("recordToolUsage", () => {
+    const apiKey = "test-api-key-12345";
+    const HOUR = 60 * 60 * 1000;
+    const start = Date.UTC(2026, 0, 5, 9);
+
+    const download = (hour: number): KeyUsageSample => ({
+      toolName: "lighthouse_fetch_file",
+      bytes: 1024,
+      encryptedDownload: true,
+      timestamp: new Date(start + hour * HOUR),
+    });
+
+    const createManager = (autoSuspend: boolean) => {
+      authManager.destroy();
+      authManager = new AuthManager({
+        ...config,
+        anomalyDetection: {
+          ...DEFAULT_ANOMALY_DETECTION_CONFIG,
+          learningPeriodHours: 2,
+          minEncryptedDownloadsPerHour: 5,
+          autoSuspend,
+        },
+      });
+      // Two hours with one encrypted download each, then a burst in the third
+      authManager.recordToolUsage(apiKey, download(0));
+      authManager.recordToolUsage(apiKey, download(1));
+      return Array.from({ length: 6 }, () => authManager.recordToolUsage(apiKey, download(2)));
+    };
+
+    it("should suspend a key on a critical anomaly when auto-suspend is on", async () => {
+      const results = createManager(true);
+
+      expect(results[5]).toMatchObject({ suspended: true });
+      expect(results[5]!.anomalies[0]).toMatchObject({ severity: "critical" });
+      expect(authManager.isKeySuspended(apiKey)).toBe(true);
+
+      const validation = await authManager.validateApiKey(apiKey);
+      expect(validation).toMatchObject({ isValid: false, errorMessage: "API key suspended" });
+
+      expect(authManager.reinstateKey(apiKey)).toBe(true);
+      expect((await authManager.validateApiKey(apiKey)).isValid).toBe(true);
+    });
+
+    it("should only report anomalies when auto-suspend is off", () => {
+      const results = createManager(false);
+
+      expect(results[5]!.anomalies).toHaveLength(1);
+      expect(results[5]!.suspended).toBe(false);
+      expect(authManager.isKeySuspended(apiKey)).toBe(false);
+    });
+  });
+
   describe("getCacheStats", () => {
     it("should return cache statistics", async () => {
       await authManager.validateApiKey("test-api-key-1-12345");
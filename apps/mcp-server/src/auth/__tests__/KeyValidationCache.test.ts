@@ -142,5 +142,16 @@ describe("KeyValidationCache", () => {
       expect(stats.size).toBe(2);
       expect(stats.maxSize).toBe(10);
     });
+
+    it("should compute the hit rate from lookups", () => {
+      cache.set("key1", { isValid: true, keyHash: "key1" });
+
+      cache.get("key1");
+      cache.get("key1");
+      cache.get("key1");
+      cache.get("missing");
+
+      expect(cache.getStats()).toMatchObject({ hits: 3, misses: 1, hitRate: 0.75 });
+    });
   });
 });
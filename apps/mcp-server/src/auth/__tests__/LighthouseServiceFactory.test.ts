@@ -3,6 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { RateLimiter } from "@lighthouse-tooling/sdk-wrapper";
 import { LighthouseServiceFactory } from "../LighthouseServiceFactory.js";
 import { PerformanceConfig } from "../types.js";
 
@@ -88,6 +89,16 @@ describe("LighthouseServiceFactory", () => {
       const service2 = await factory.getService(apiKey);
       expect(service2).not.toBe(service1);
     });
+
+    it("should release the removed service's rate limiter", async () => {
+      const count = RateLimiter.getSharedCount();
+      await factory.getService("removed-key");
+      expect(RateLimiter.getSharedCount()).toBe(count + 1);
+
+      factory.removeService("removed-key");
+
+      expect(RateLimiter.getSharedCount()).toBe(count);
+    });
   });
 
   describe("clear", () => {
@@ -126,4 +137,19 @@ describe("LighthouseServiceFactory", () => {
       expect(stats.oldestServiceAge).toBeGreaterThanOrEqual(50);
     });
   });
+
+  describe("rate limits", () => {
+    it("should report keys Lighthouse has paused", async () => {
+      await factory.getService("throttled-key");
+      await factory.getService("unthrottled-key");
+
+      const limiter = RateLimiter.forKey("throttled-key");
+      limiter.throttle(5000);
+      limiter.release();
+
+      expect(factory.getRetryAfter("throttled-key")).toBeGreaterThan(4000);
+      expect(factory.getRetryAfter("unthrottled-key")).toBe(0);
+      expect(factory.getStats().rateLimited).toBe(1);
+    });
+  });
 });
@@ -0,0 +1,212 @@
+/**
+ * Tests for SecurityAlerter routing, deduplication, throttling and persistence
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import {
+  SecurityAlerter,
+  AlertConfig,
+  AlertHandler,
+  AlertNotification,
+  AlertSeverity,
+  DEFAULT_ALERT_CONFIG,
+} from "../SecurityAlerter.js";
+import { SecurityEventType } from "../MetricsCollector.js";
+
+class RecordingHandler implements AlertHandler {
+  alerts: AlertNotification[] = [];
+
+  async handleAlert(alert: AlertNotification): Promise<void> {
+    this.alerts.push(alert);
+  }
+}
+
+describe("SecurityAlerter", () => {
+  let testDir: string;
+  let storePath: string;
+  let alerters: SecurityAlerter[];
+
+  const createAlerter = (overrides: Partial<AlertConfig> = {}): SecurityAlerter => {
+    const alerter = new SecurityAlerter({
+      ...DEFAULT_ALERT_CONFIG,
+      notifications: { console: false },
+      storePath,
+      ...overrides,
+    });
+    alerters.push(alerter);
+    return alerter;
+  };
+
+  const bruteForceEvent = (keyHash = "key_1") => ({
+    type: SecurityEventType.SUSPICIOUS_ACTIVITY,
+    keyHash,
+    timestamp: new Date(),
+    details: { recentFailures: 50 },
+    severity: "critical" as const,
+  });
+
+  const alert = (severity: AlertSeverity, title: string): AlertNotification => ({
+    id: `alert_${Math.random().toString(36).substring(2, 11)}`,
+    timestamp: new Date(),
+    severity,
+    title,
+    message: title,
+    details: {},
+    acknowledged: false,
+  });
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `security-alerter-test-${Date.now()}`);
+    storePath = path.join(testDir, "alerts.json");
+    alerters = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(alerters.map((alerter) => alerter.flush()));
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should notify once for a burst and count the repeats", async () => {
+    const alerter = createAlerter();
+    const handler = new RecordingHandler();
+    alerter.addHandler(handler);
+
+    for (let i = 0; i < 200; i++) {
+      await alerter.processSecurityEvent(bruteForceEvent());
+    }
+
+    expect(handler.alerts).toHaveLength(1);
+    expect(alerter.getAlerts()).toHaveLength(1);
+    expect(alerter.getAlerts()[0]?.occurrences).toBe(200);
+    expect(alerter.getStats().duplicatesSuppressed).toBe(199);
+  });
+
+  it("should route alerts by severity", async () => {
+    const alerter = createAlerter();
+    const pager = new RecordingHandler();
+    const everything = new RecordingHandler();
+    alerter.addHandler(pager, [AlertSeverity.CRITICAL]);
+    alerter.addHandler(everything);
+
+    await alerter.triggerAlert(alert(AlertSeverity.MEDIUM, "Rate Limit Exceeded"));
+    await alerter.triggerAlert(alert(AlertSeverity.CRITICAL, "Suspicious Activity Detected"));
+
+    expect(pager.alerts.map((a) => a.severity)).toEqual([AlertSeverity.CRITICAL]);
+    expect(everything.alerts).toHaveLength(2);
+  });
+
+  it("should throttle notifications per handler but keep the alerts", async () => {
+    const alerter = createAlerter({ throttle: { maxNotifications: 2, windowMinutes: 60 } });
+    const handler = new RecordingHandler();
+    alerter.addHandler(handler);
+
+    for (let i = 0; i < 5; i++) {
+      await alerter.triggerAlert(alert(AlertSeverity.HIGH, `Alert ${i}`));
+    }
+
+    expect(handler.alerts).toHaveLength(2);
+    expect(alerter.getAlerts()).toHaveLength(5);
+    expect(alerter.getStats().notificationsThrottled).toBe(3);
+  });
+
+  it("should keep delivering when a handler fails", async () => {
+    const alerter = createAlerter();
+    const handler = new RecordingHandler();
+    alerter.addHandler({
+      handleAlert: async () => {
+        throw new Error("webhook down");
+      },
+    });
+    alerter.addHandler(handler);
+
+    const originalError = console.error;
+    console.error = () => undefined;
+    try {
+      await alerter.triggerAlert(alert(AlertSeverity.HIGH, "Multiple Authentication Failures"));
+    } finally {
+      console.error = originalError;
+    }
+
+    expect(handler.alerts).toHaveLength(1);
+  });
+
+  it("should persist alerts and acknowledgements across restarts", async () => {
+    const first = createAlerter();
+    await first.processSecurityEvent(bruteForceEvent());
+    const [stored] = first.getAlerts();
+    first.acknowledgeAlert(stored!.id, "on-call");
+    await first.flush();
+
+    const second = createAlerter();
+    await second.initialize();
+
+    const [restored] = second.getAlerts();
+    expect(restored).toMatchObject({
+      id: stored!.id,
+      acknowledged: true,
+      acknowledgedBy: "on-call",
+    });
+    expect(restored?.timestamp).toBeInstanceOf(Date);
+    expect(second.getUnacknowledgedAlerts()).toHaveLength(0);
+  });
+
+  it("should keep the cooldown window across restarts", async () => {
+    const first = createAlerter();
+    await first.processSecurityEvent(bruteForceEvent());
+    await first.flush();
+
+    const second = createAlerter();
+    const handler = new RecordingHandler();
+    second.addHandler(handler);
+    await second.initialize();
+    await second.processSecurityEvent(bruteForceEvent());
+    await second.flush();
+
+    expect(handler.alerts).toHaveLength(0);
+    expect(second.getAlerts()[0]?.occurrences).toBe(2);
+  });
+
+  it("should drop stored alerts past their retention age on load", async () => {
+    const old = alert(AlertSeverity.HIGH, "Old Alert");
+    old.timestamp = new Date(Date.now() - 48 * 60 * 60 * 1000);
+    const first = createAlerter();
+    await first.triggerAlert(old);
+    await first.triggerAlert(alert(AlertSeverity.HIGH, "Recent Alert"));
+    await first.flush();
+
+    const second = createAlerter({ retention: { maxAgeHours: 24 } });
+    await second.initialize();
+
+    expect(second.getAlerts().map((a) => a.title)).toEqual(["Recent Alert"]);
+  });
+
+  it("should keep only the newest alerts in the store", async () => {
+    const alerter = createAlerter({ retention: { maxAlerts: 3 } });
+
+    for (let i = 0; i < 5; i++) {
+      const next = alert(AlertSeverity.HIGH, `Alert ${i}`);
+      next.timestamp = new Date(Date.now() + i);
+      await alerter.triggerAlert(next);
+    }
+    await alerter.flush();
+
+    const stored = JSON.parse(await fs.readFile(storePath, "utf-8")) as {
+      alerts: AlertNotification[];
+    };
+    expect(stored.alerts.map((a) => a.title)).toEqual(["Alert 2", "Alert 3", "Alert 4"]);
+  });
+
+  it("should notify again once the cooldown window has passed", async () => {
+    const alerter = createAlerter({ cooldownMinutes: 0 });
+    const handler = new RecordingHandler();
+    alerter.addHandler(handler);
+
+    await alerter.processSecurityEvent(bruteForceEvent());
+    await alerter.processSecurityEvent(bruteForceEvent());
+
+    expect(handler.alerts).toHaveLength(2);
+  });
+});
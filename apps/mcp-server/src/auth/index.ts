@@ -9,8 +9,19 @@ export { SecureKeyHandler } from "./SecureKeyHandler.js";
 export { RequestContext } from "./RequestContext.js";
 export { LighthouseServiceFactory } from "./LighthouseServiceFactory.js";
 export { MetricsCollector } from "./MetricsCollector.js";
+export { AnomalyDetector, AnomalyType } from "./AnomalyDetector.js";
 export { AuthLogger } from "./AuthLogger.js";
 export { SecurityAlerter } from "./SecurityAlerter.js";
+export {
+  WebhookAlertHandler,
+  EmailAlertHandler,
+  FileAlertHandler,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+} from "./AlertHandlers.js";
+export { FileAlertStore } from "./AlertStore.js";
+export { sendMail, parseSmtpUrl } from "./SmtpClient.js";
 export {
   MemoryManager,
   SensitiveData,
@@ -44,6 +55,14 @@ export type {
   MetricsConfig,
 } from "./MetricsCollector.js";
 
+export type {
+  AnomalyDetectionConfig,
+  AnomalySeverity,
+  KeyBaseline,
+  KeyUsageSample,
+  UsageAnomaly,
+} from "./AnomalyDetector.js";
+
 export type { AuthLogEntry, AuditEntry, AuthLoggerConfig, AuthLogLevel } from "./AuthLogger.js";
 
 export type {
@@ -51,6 +70,10 @@ export type {
   AlertNotification,
   AlertHandler,
   AlertSeverity,
+  AlertChannel,
 } from "./SecurityAlerter.js";
 
+export type { AlertStore } from "./AlertStore.js";
+export type { SmtpConfig, SmtpMessage } from "./SmtpClient.js";
+
 export type { MemoryManagerConfig } from "./MemoryManager.js";
@@ -93,6 +93,12 @@ export const TOOL_PERMISSIONS: Record<string, AccessPolicy> = {
     requiredPermissions: [Permission.API_KEY_LIST],
   },
 
+  "lighthouse-rotate-api-key": {
+    resource: "api_key",
+    action: "rotate",
+    requiredPermissions: [Permission.API_KEY_CREATE, Permission.API_KEY_REVOKE],
+  },
+
   "lighthouse-revoke-api-key": {
     resource: "api_key",
     action: "revoke",
@@ -154,6 +160,133 @@ export const TOOL_PERMISSIONS: Record<string, AccessPolicy> = {
     action: "update",
     requiredPermissions: [Permission.QUOTA_UPDATE],
   },
+
+  "lighthouse-view-quota": {
+    resource: "quota",
+    action: "view",
+    requiredPermissions: [Permission.QUOTA_VIEW],
+  },
+
+  "lighthouse-create-organization": {
+    resource: "organization",
+    action: "create",
+    requiredPermissions: [Permission.ORG_UPDATE],
+  },
+
+  "lighthouse-manage-team-members": {
+    resource: "team",
+    action: "manage_members",
+    requiredPermissions: [Permission.TEAM_MANAGE_MEMBERS],
+  },
+
+  lighthouse_query_audit_log: {
+    resource: "organization",
+    action: "view_audit_log",
+    requiredPermissions: [Permission.ORG_VIEW_AUDIT_LOG],
+  },
+
+  "lighthouse-query-audit-log": {
+    resource: "organization",
+    action: "view_audit_log",
+    requiredPermissions: [Permission.ORG_VIEW_AUDIT_LOG],
+  },
+
+  "lighthouse-verify-audit-log": {
+    resource: "organization",
+    action: "view_audit_log",
+    requiredPermissions: [Permission.ORG_VIEW_AUDIT_LOG],
+  },
+
+  // Registered MCP server tools
+  lighthouse_upload_file: {
+    resource: "file",
+    action: "upload",
+    requiredPermissions: [Permission.FILE_UPLOAD],
+  },
+
+  lighthouse_batch_upload: {
+    resource: "file",
+    action: "upload",
+    requiredPermissions: [Permission.FILE_UPLOAD],
+  },
+
+  lighthouse_fetch_file: {
+    resource: "file",
+    action: "download",
+    requiredPermissions: [Permission.FILE_DOWNLOAD],
+  },
+
+  lighthouse_batch_download: {
+    resource: "file",
+    action: "download",
+    requiredPermissions: [Permission.FILE_DOWNLOAD],
+  },
+
+  lighthouse_create_dataset: {
+    resource: "dataset",
+    action: "create",
+    requiredPermissions: [Permission.DATASET_CREATE],
+  },
+
+  lighthouse_list_datasets: {
+    resource: "dataset",
+    action: "list",
+    requiredPermissions: [Permission.DATASET_LIST],
+  },
+
+  lighthouse_get_dataset: {
+    resource: "dataset",
+    action: "read",
+    requiredPermissions: [Permission.DATASET_READ],
+  },
+
+  lighthouse_update_dataset: {
+    resource: "dataset",
+    action: "update",
+    requiredPermissions: [Permission.DATASET_UPDATE],
+  },
+
+  lighthouse_list_dataset_versions: {
+    resource: "dataset",
+    action: "read",
+    requiredPermissions: [Permission.DATASET_READ],
+  },
+
+  lighthouse_diff_dataset_versions: {
+    resource: "dataset",
+    action: "read",
+    requiredPermissions: [Permission.DATASET_READ],
+  },
+
+  lighthouse_rollback_dataset: {
+    resource: "dataset",
+    action: "update",
+    requiredPermissions: [Permission.DATASET_UPDATE],
+  },
+
+  lighthouse_export_dataset_manifest: {
+    resource: "dataset",
+    action: "read",
+    requiredPermissions: [Permission.DATASET_READ],
+  },
+
+  lighthouse_import_dataset_manifest: {
+    resource: "dataset",
+    action: "create",
+    requiredPermissions: [Permission.DATASET_CREATE],
+  },
+
+  lighthouse_generate_key: {
+    resource: "file",
+    action: "encrypt",
+    requiredPermissions: [Permission.FILE_UPLOAD],
+  },
+
+  lighthouse_setup_access_control: {
+    resource: "file",
+    action: "share",
+    requiredPermissions: [Permission.FILE_SHARE],
+  },
 };
 
 /**
@@ -2,7 +2,10 @@
  * Authentication types and interfaces
  */
 
+import { TenantContext } from "@lighthouse-tooling/types";
 import { ILighthouseService } from "../services/ILighthouseService.js";
+import type { AlertConfig } from "./SecurityAlerter.js";
+import type { AnomalyDetectionConfig } from "./AnomalyDetector.js";
 
 /**
  * Result of API key validation
@@ -63,6 +66,10 @@ export interface AuthConfig {
   requireAuthentication: boolean;
   keyValidationCache: CacheConfig;
   rateLimiting: RateLimitConfig;
+  /** Deliver security alerts for failed and rate-limited authentications */
+  alerts?: AlertConfig;
+  /** Per-key usage baselines, anomaly detection and optional auto-suspension */
+  anomalyDetection?: AnomalyDetectionConfig;
 }
 
 /**
@@ -82,6 +89,7 @@ export interface RequestContextParams {
   keyHash: string;
   service: ILighthouseService;
   toolName: string;
+  tenantContext?: TenantContext;
 }
 
 /**
@@ -92,6 +100,8 @@ export interface LogContext {
   keyHash: string;
   toolName: string;
   timestamp: string;
+  organizationId?: string;
+  teamId?: string;
 }
 
 /**
@@ -119,6 +129,8 @@ export interface ServiceEntry {
   created: number;
   lastUsed: number;
   keyHash: string;
+  /** Epoch ms until which Lighthouse asked this key to stop sending requests */
+  rateLimitedUntil?: number;
 }
 
 /**
@@ -3,8 +3,22 @@
  */
 
 import { AuthConfig, PerformanceConfig } from "../auth/types.js";
-import { MultiTenancyConfig, OrganizationSettings, UsageQuota } from "@lighthouse-tooling/types";
+import { AlertConfig, AlertSeverity, DEFAULT_ALERT_CONFIG } from "../auth/SecurityAlerter.js";
+import { parseSmtpUrl } from "../auth/SmtpClient.js";
+import {
+  AnomalyDetectionConfig,
+  AnomalySeverity,
+  DEFAULT_ANOMALY_DETECTION_CONFIG,
+} from "../auth/AnomalyDetector.js";
+import {
+  CacheStorageType,
+  MultiTenancyConfig,
+  OrganizationSettings,
+  UsageQuota,
+} from "@lighthouse-tooling/types";
+import { ContentEvictionPolicy } from "@lighthouse-tooling/shared";
 import { HealthCheckConfig } from "../health/types.js";
+import { LocalGatewayConfig } from "../gateway/types.js";
 import * as path from "path";
 import * as os from "os";
 
@@ -15,6 +29,47 @@ export interface ConnectionPoolServerConfig {
   keepAlive: boolean;
 }
 
+export interface ResourceServerConfig {
+  /** Largest file, in bytes, whose contents resources/read will inline */
+  maxInlineSize: number;
+}
+
+export interface TransportConfig {
+  /** stdio serves a single local client; http lets several clients share one server */
+  mode: "stdio" | "http";
+  /** Interface the HTTP transport binds to (served on the health check port) */
+  host: string;
+  /** Path of the streamable HTTP endpoint */
+  endpoint: string;
+  /** Reject HTTP requests without a bearer token instead of using the server's API key */
+  requireAuth: boolean;
+}
+
+export interface IdempotencyConfig {
+  /** How long idempotency keys and their results are remembered */
+  windowSeconds: number;
+  /** SQLite database the records are kept in (defaults to the storage database) */
+  dbPath?: string;
+}
+
+export interface TracingConfig {
+  /** Recorded as the service.name of exported spans */
+  serviceName: string;
+  /** File spans are appended to as OTLP/JSON lines; unset keeps spans in-process */
+  exportPath?: string;
+}
+
+export interface ContentCacheServerConfig {
+  /** Keep downloaded content on disk so repeated fetches skip the network */
+  enabled: boolean;
+  directory: string;
+  /** Size budget in bytes */
+  maxSize: number;
+  evictionPolicy: ContentEvictionPolicy;
+  /** HYBRID also keeps recently read content in memory */
+  storageType: CacheStorageType.DISK | CacheStorageType.HYBRID;
+}
+
 export interface ServerConfig {
   name: string;
   version: string;
@@ -29,6 +84,79 @@ export interface ServerConfig {
   multiTenancy?: MultiTenancyConfig;
   connectionPool?: ConnectionPoolServerConfig;
   healthCheck?: HealthCheckConfig;
+  resources?: ResourceServerConfig;
+  transport?: TransportConfig;
+  idempotency?: IdempotencyConfig;
+  tracing?: TracingConfig;
+  contentCache?: ContentCacheServerConfig;
+  localGateway?: LocalGatewayConfig;
+}
+
+/**
+ * Security alert delivery from SECURITY_ALERT_* environment variables. Alerts are
+ * off unless a webhook, email or file channel is configured.
+ */
+export function getSecurityAlertConfig(): AlertConfig | undefined {
+  const webhook = process.env.SECURITY_ALERT_WEBHOOK_URL;
+  const email = process.env.SECURITY_ALERT_EMAIL;
+  const smtpUrl = process.env.SECURITY_ALERT_SMTP_URL;
+  const file = process.env.SECURITY_ALERT_FILE;
+
+  if (!webhook && !(email && smtpUrl) && !file) {
+    return undefined;
+  }
+
+  const minSeverity = process.env.SECURITY_ALERT_EMAIL_MIN_SEVERITY as AlertSeverity | undefined;
+  const severities = Object.values(AlertSeverity);
+  const emailSeverities =
+    minSeverity && severities.includes(minSeverity)
+      ? severities.slice(severities.indexOf(minSeverity))
+      : undefined;
+
+  return {
+    ...DEFAULT_ALERT_CONFIG,
+    notifications: {
+      console: false,
+      webhook,
+      webhookSecret: process.env.SECURITY_ALERT_WEBHOOK_SECRET,
+      email,
+      smtp: smtpUrl
+        ? parseSmtpUrl(
+            smtpUrl,
+            process.env.SECURITY_ALERT_EMAIL_FROM || "lighthouse-alerts@localhost",
+          )
+        : undefined,
+      file,
+    },
+    cooldownMinutes: parseInt(process.env.SECURITY_ALERT_COOLDOWN_MINUTES || "15", 10),
+    routing: emailSeverities ? { email: emailSeverities } : undefined,
+    throttle: {
+      maxNotifications: parseInt(process.env.SECURITY_ALERT_MAX_PER_HOUR || "20", 10),
+      windowMinutes: 60,
+    },
+    storePath:
+      process.env.SECURITY_ALERT_STORE_PATH ||
+      path.join(process.cwd(), "data", "security-alerts.json"),
+    retention: {
+      maxAgeHours: parseInt(process.env.SECURITY_ALERT_RETENTION_HOURS || "720", 10),
+      maxAlerts: parseInt(process.env.SECURITY_ALERT_MAX_STORED || "1000", 10),
+    },
+  };
+}
+
+/**
+ * Per-key usage anomaly detection from ANOMALY_* environment variables
+ */
+export function getAnomalyDetectionConfig(): AnomalyDetectionConfig {
+  return {
+    ...DEFAULT_ANOMALY_DETECTION_CONFIG,
+    enabled: process.env.ANOMALY_DETECTION_ENABLED !== "false",
+    learningPeriodHours: parseInt(process.env.ANOMALY_LEARNING_PERIOD_HOURS || "24", 10),
+    autoSuspend: process.env.ANOMALY_AUTO_SUSPEND === "true",
+    suspendSeverity:
+      (process.env.ANOMALY_SUSPEND_SEVERITY as AnomalySeverity | undefined) ||
+      DEFAULT_ANOMALY_DETECTION_CONFIG.suspendSeverity,
+  };
 }
 
 /**
@@ -52,6 +180,8 @@ export function getDefaultAuthConfig(): AuthConfig {
       burstLimit: 10,
       keyBasedLimiting: true,
     },
+    alerts: getSecurityAlertConfig(),
+    anomalyDetection: getAnomalyDetectionConfig(),
   };
 }
 
@@ -75,6 +205,8 @@ export const DEFAULT_AUTH_CONFIG: AuthConfig = {
     burstLimit: 10,
     keyBasedLimiting: true,
   },
+  alerts: getSecurityAlertConfig(),
+  anomalyDetection: getAnomalyDetectionConfig(),
 };
 
 export const DEFAULT_PERFORMANCE_CONFIG: PerformanceConfig = {
@@ -90,6 +222,49 @@ export const DEFAULT_CONNECTION_POOL_CONFIG: ConnectionPoolServerConfig = {
   keepAlive: process.env.LIGHTHOUSE_POOL_KEEP_ALIVE !== "false",
 };
 
+export const DEFAULT_RESOURCE_CONFIG: ResourceServerConfig = {
+  maxInlineSize: parseInt(process.env.LIGHTHOUSE_RESOURCE_MAX_INLINE_SIZE || "10485760", 10), // 10MB
+};
+
+export const DEFAULT_TRANSPORT_CONFIG: TransportConfig = {
+  mode: process.env.MCP_TRANSPORT === "http" ? "http" : "stdio",
+  host: process.env.MCP_HTTP_HOST || "127.0.0.1",
+  endpoint: "/mcp",
+  requireAuth: process.env.MCP_HTTP_REQUIRE_AUTH !== "false",
+};
+
+export const DEFAULT_IDEMPOTENCY_CONFIG: IdempotencyConfig = {
+  windowSeconds: parseInt(process.env.IDEMPOTENCY_WINDOW_SECONDS || "86400", 10), // 24 hours
+  dbPath: process.env.IDEMPOTENCY_DB_PATH,
+};
+
+export const DEFAULT_TRACING_CONFIG: TracingConfig = {
+  serviceName: "lighthouse-mcp-server",
+  exportPath: process.env.LIGHTHOUSE_TRACE_FILE,
+};
+
+export const DEFAULT_CONTENT_CACHE_CONFIG: ContentCacheServerConfig = {
+  enabled: process.env.LIGHTHOUSE_CONTENT_CACHE_ENABLED !== "false",
+  directory:
+    process.env.LIGHTHOUSE_CONTENT_CACHE_DIR ||
+    path.join(os.homedir(), ".lighthouse", "content-cache"),
+  maxSize: parseInt(process.env.LIGHTHOUSE_CONTENT_CACHE_MAX_SIZE || "1073741824", 10), // 1GB
+  evictionPolicy: process.env.LIGHTHOUSE_CONTENT_CACHE_EVICTION === "lfu" ? "lfu" : "lru",
+  storageType:
+    process.env.LIGHTHOUSE_CONTENT_CACHE_STORAGE === "hybrid"
+      ? CacheStorageType.HYBRID
+      : CacheStorageType.DISK,
+};
+
+export const DEFAULT_LOCAL_GATEWAY_CONFIG: LocalGatewayConfig = {
+  enabled: process.env.LIGHTHOUSE_LOCAL_GATEWAY === "true",
+  host: process.env.LIGHTHOUSE_LOCAL_GATEWAY_HOST || "127.0.0.1",
+  port: parseInt(process.env.LIGHTHOUSE_LOCAL_GATEWAY_PORT || "8090", 10),
+  directory:
+    process.env.LIGHTHOUSE_LOCAL_GATEWAY_DIR ||
+    path.join(os.homedir(), ".lighthouse", "local-gateway"),
+};
+
 export const DEFAULT_HEALTH_CHECK_CONFIG: HealthCheckConfig = {
   enabled: process.env.HEALTH_CHECK_ENABLED === "true",
   port: parseInt(process.env.HEALTH_CHECK_PORT || "8080", 10),
@@ -139,6 +314,11 @@ export const DEFAULT_MULTI_TENANCY_CONFIG: MultiTenancyConfig = {
   defaultQuota: DEFAULT_USAGE_QUOTA,
   strictIsolation: true,
   auditLogRetentionDays: 90,
+  auditSigningKey: process.env.AUDIT_SIGNING_KEY,
+  auditSigningKeyPath:
+    process.env.AUDIT_SIGNING_KEY_PATH ||
+    path.join(os.homedir(), ".lighthouse", "audit-signing.key"),
+  apiKeyRotationGraceHours: parseInt(process.env.API_KEY_ROTATION_GRACE_HOURS || "24", 10),
 };
 
 /**
@@ -158,6 +338,12 @@ export function getDefaultServerConfig(): ServerConfig {
     multiTenancy: DEFAULT_MULTI_TENANCY_CONFIG,
     connectionPool: DEFAULT_CONNECTION_POOL_CONFIG,
     healthCheck: DEFAULT_HEALTH_CHECK_CONFIG,
+    resources: DEFAULT_RESOURCE_CONFIG,
+    transport: DEFAULT_TRANSPORT_CONFIG,
+    idempotency: DEFAULT_IDEMPOTENCY_CONFIG,
+    tracing: DEFAULT_TRACING_CONFIG,
+    contentCache: DEFAULT_CONTENT_CACHE_CONFIG,
+    localGateway: DEFAULT_LOCAL_GATEWAY_CONFIG,
   };
 }
 
@@ -178,6 +364,12 @@ export const DEFAULT_SERVER_CONFIG: ServerConfig = {
   multiTenancy: DEFAULT_MULTI_TENANCY_CONFIG,
   connectionPool: DEFAULT_CONNECTION_POOL_CONFIG,
   healthCheck: DEFAULT_HEALTH_CHECK_CONFIG,
+  resources: DEFAULT_RESOURCE_CONFIG,
+  transport: DEFAULT_TRANSPORT_CONFIG,
+  idempotency: DEFAULT_IDEMPOTENCY_CONFIG,
+  tracing: DEFAULT_TRACING_CONFIG,
+  contentCache: DEFAULT_CONTENT_CACHE_CONFIG,
+  localGateway: DEFAULT_LOCAL_GATEWAY_CONFIG,
 };
 
 /**
@@ -0,0 +1,20 @@
+/**
+ * Invalid tool arguments error
+ */
+
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { ValidationError } from "../utils/request-validator.js";
+
+/**
+ * Tool arguments that do not match the tool's input schema. The field-level errors are
+ * returned in the error data so the caller can correct the call.
+ */
+export class InvalidParamsError extends McpError {
+  public readonly errors: ValidationError[];
+
+  constructor(message: string, errors: ValidationError[]) {
+    super(ErrorCode.InvalidParams, message, { errors });
+    this.name = "InvalidParamsError";
+    this.errors = errors;
+  }
+}
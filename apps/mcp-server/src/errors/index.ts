@@ -3,3 +3,4 @@
  */
 
 export { AuthenticationError, AuthErrorType } from "./AuthenticationError.js";
+export { InvalidParamsError } from "./InvalidParamsError.js";
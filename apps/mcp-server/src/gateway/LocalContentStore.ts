@@ -0,0 +1,196 @@
+/**
+ * Local Content Store
+ * @fileoverview Content-addressed file store behind the local gateway
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Logger } from "@lighthouse-tooling/shared";
+import { UnixFSImporter } from "@lighthouse-tooling/sdk-wrapper";
+import { LocalFileRecord, LocalGatewaySyncResult, LocalGatewayUploader } from "./types.js";
+
+const DEFAULT_MIME_TYPE = "application/octet-stream";
+
+/**
+ * Keeps uploaded files under the CID Lighthouse would give them, so downloads verify
+ * and the same content can later be uploaded to Lighthouse unchanged.
+ *
+ * Layout: `blobs/<cid>` plus a `files.json` index of names, types and sync state.
+ */
+export class LocalContentStore {
+  private files = new Map<string, LocalFileRecord>();
+  private loaded?: Promise<void>;
+  private indexWrite: Promise<void> = Promise.resolve();
+  private logger: Logger;
+
+  constructor(
+    private readonly directory: string,
+    logger?: Logger,
+  ) {
+    this.logger = logger || Logger.getInstance({ level: "info", component: "LocalContentStore" });
+  }
+
+  /**
+   * Add in-memory content
+   */
+  async addBuffer(data: Buffer, fileName: string, mimeType?: string): Promise<LocalFileRecord> {
+    const { cid } = UnixFSImporter.importBuffer(data);
+    return this.store(cid, data.length, fileName, mimeType, (target) => fs.writeFile(target, data));
+  }
+
+  /**
+   * Add a file from disk, leaving the source in place
+   */
+  async addFile(sourcePath: string, fileName: string, mimeType?: string): Promise<LocalFileRecord> {
+    const { cid, size } = await UnixFSImporter.importFile(sourcePath);
+    return this.store(cid, size, fileName, mimeType, (target) => fs.copyFile(sourcePath, target));
+  }
+
+  async get(cid: string): Promise<LocalFileRecord | undefined> {
+    await this.load();
+    return this.files.get(cid);
+  }
+
+  /**
+   * All files, most recently uploaded first
+   */
+  async list(): Promise<LocalFileRecord[]> {
+    await this.load();
+    return Array.from(this.files.values()).sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+  }
+
+  blobPath(cid: string): string {
+    return path.join(this.directory, "blobs", cid);
+  }
+
+  /**
+   * Upload every file not yet synced to Lighthouse, recording the result per file.
+   * A failed file is left unsynced and retried by the next sync.
+   */
+  async sync(upload: LocalGatewayUploader): Promise<LocalGatewaySyncResult> {
+    const result: LocalGatewaySyncResult = { synced: [], failed: [] };
+
+    for (const record of await this.list()) {
+      if (record.syncedAt) continue;
+
+      try {
+        const { hash } = await upload(this.blobPath(record.cid), {
+          fileName: record.fileName,
+          mimeType: record.mimeType,
+        });
+        record.syncedAt = new Date().toISOString();
+        record.remoteCid = hash;
+        result.synced.push(record);
+
+        if (hash !== record.cid) {
+          this.logger.warn("Synced file has a different CID on Lighthouse", {
+            cid: record.cid,
+            remoteCid: hash,
+          });
+        }
+      } catch (error) {
+        result.failed.push({ cid: record.cid, error: (error as Error).message });
+      }
+    }
+
+    if (result.synced.length > 0) {
+      this.persist();
+    }
+    await this.flush();
+
+    this.logger.info("Local gateway synced", {
+      synced: result.synced.length,
+      failed: result.failed.length,
+    });
+
+    return result;
+  }
+
+  /**
+   * Wait for pending index writes
+   */
+  async flush(): Promise<void> {
+    await this.indexWrite;
+  }
+
+  private async store(
+    cid: string,
+    size: number,
+    fileName: string,
+    mimeType: string | undefined,
+    write: (target: string) => Promise<void>,
+  ): Promise<LocalFileRecord> {
+    await this.load();
+
+    const blobPath = this.blobPath(cid);
+    if (!this.files.has(cid)) {
+      // Write beside the blob and rename so a crash never leaves partial content under a CID
+      const tempPath = `${blobPath}.${process.pid}.tmp`;
+      await fs.mkdir(path.dirname(blobPath), { recursive: true });
+      await write(tempPath);
+      await fs.rename(tempPath, blobPath);
+    }
+
+    const existing = this.files.get(cid);
+    const record: LocalFileRecord = {
+      cid,
+      fileName,
+      mimeType: mimeType || DEFAULT_MIME_TYPE,
+      size,
+      uploadedAt: new Date().toISOString(),
+      syncedAt: existing?.syncedAt,
+      remoteCid: existing?.remoteCid,
+    };
+    this.files.set(cid, record);
+    this.persist();
+
+    this.logger.debug("Stored file in local gateway", { cid, fileName, size });
+    return record;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readIndex();
+    }
+    return this.loaded;
+  }
+
+  private async readIndex(): Promise<void> {
+    let records: LocalFileRecord[];
+    try {
+      records = JSON.parse(await fs.readFile(this.indexPath(), "utf-8")) as LocalFileRecord[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+      return;
+    }
+
+    for (const record of records) {
+      this.files.set(record.cid, record);
+    }
+  }
+
+  /**
+   * Write the index atomically, one write at a time
+   */
+  private persist(): void {
+    const records = Array.from(this.files.values());
+
+    this.indexWrite = this.indexWrite
+      .then(async () => {
+        const target = this.indexPath();
+        const temp = `${target}.tmp`;
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(temp, JSON.stringify(records, null, 2), "utf-8");
+        await fs.rename(temp, target);
+      })
+      .catch((error) => {
+        this.logger.error("Failed to write local gateway index", error as Error);
+      });
+  }
+
+  private indexPath(): string {
+    return path.join(this.directory, "files.json");
+  }
+}
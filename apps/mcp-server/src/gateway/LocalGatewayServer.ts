@@ -0,0 +1,355 @@
+/**
+ * Local Lighthouse Gateway
+ *
+ * A local HTTP stand-in for the Lighthouse endpoints LighthouseAISDK uses with
+ * `directApi`: uploads (single request and resumable chunked sessions), downloads
+ * by CID, file info and the upload list. Content is kept in a LocalContentStore
+ * so it survives restarts and can later be synced to Lighthouse.
+ */
+
+import crypto from "crypto";
+import { createReadStream } from "fs";
+import * as fs from "fs/promises";
+import * as http from "node:http";
+import * as path from "path";
+import { pipeline } from "stream/promises";
+import { Logger } from "@lighthouse-tooling/shared";
+import type { LighthouseConfig } from "@lighthouse-tooling/sdk-wrapper";
+import { LocalContentStore } from "./LocalContentStore.js";
+import { LocalFileRecord, LocalGatewayConfig } from "./types.js";
+
+interface ChunkedUploadState {
+  fileName: string;
+  chunkCount: number;
+  directory: string;
+}
+
+const UPLOAD_SESSIONS_PATH = "/api/v0/uploads";
+const CHUNK_ROUTE = /^\/api\/v0\/uploads\/([^/]+)\/chunks\/(\d+)$/;
+const COMPLETE_ROUTE = /^\/api\/v0\/uploads\/([^/]+)\/complete$/;
+const DOWNLOAD_ROUTE = /^\/ipfs\/([A-Za-z0-9]+)$/;
+
+class HttpError extends Error {
+  constructor(
+    readonly statusCode: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export class LocalGatewayServer {
+  private httpServer: http.Server | null = null;
+  private store: LocalContentStore;
+  private uploads = new Map<string, ChunkedUploadState>();
+  private config: Pick<LocalGatewayConfig, "host" | "port" | "directory">;
+  private logger: Logger;
+
+  constructor(config: Pick<LocalGatewayConfig, "host" | "port" | "directory">, logger?: Logger) {
+    this.config = config;
+    this.logger = logger || Logger.getInstance({ level: "info", component: "LocalGateway" });
+    this.store = new LocalContentStore(config.directory, this.logger);
+  }
+
+  async start(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this.httpServer = http.createServer((req, res) => {
+        this.handleRequest(req, res).catch((err) => {
+          const statusCode = err instanceof HttpError ? err.statusCode : 500;
+          if (statusCode === 500) {
+            this.logger.error("Local gateway request failed", err as Error, { url: req.url });
+          }
+          if (!res.headersSent) {
+            this.sendJSON(res, statusCode, { error: (err as Error).message });
+          } else {
+            res.destroy();
+          }
+        });
+      });
+
+      this.httpServer.on("error", (err) => {
+        this.logger.error("Local gateway server error", err);
+        reject(err);
+      });
+
+      this.httpServer.listen(this.config.port, this.config.host, () => {
+        this.logger.info("Local gateway listening", {
+          url: this.getUrl(),
+          directory: this.config.directory,
+        });
+        resolve();
+      });
+    });
+  }
+
+  async stop(): Promise<void> {
+    await this.store.flush();
+    return new Promise<void>((resolve, reject) => {
+      if (!this.httpServer) {
+        resolve();
+        return;
+      }
+
+      this.httpServer.close((err) => {
+        this.httpServer = null;
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+      this.httpServer.closeAllConnections();
+    });
+  }
+
+  getPort(): number | null {
+    const addr = this.httpServer?.address();
+    if (addr && typeof addr === "object") {
+      return addr.port;
+    }
+    return this.config.port || null;
+  }
+
+  getUrl(): string {
+    return `http://${this.config.host}:${this.getPort()}`;
+  }
+
+  /**
+   * SDK settings that send every request to this gateway
+   */
+  getClientConfig(): Pick<LighthouseConfig, "baseUrl" | "gatewayUrl" | "directApi"> {
+    return { baseUrl: this.getUrl(), gatewayUrl: this.getUrl(), directApi: true };
+  }
+
+  getStore(): LocalContentStore {
+    return this.store;
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const route = `${req.method} ${url.pathname}`;
+
+    const download = DOWNLOAD_ROUTE.exec(url.pathname);
+    if (req.method === "GET" && download) {
+      await this.handleDownload(download[1]!, res);
+      return;
+    }
+
+    // The API endpoints take any key, but like Lighthouse they require one
+    if (!/^Bearer \S+/.test(req.headers.authorization ?? "")) {
+      throw new HttpError(401, "Authentication required");
+    }
+
+    const chunk = CHUNK_ROUTE.exec(url.pathname);
+    const complete = COMPLETE_ROUTE.exec(url.pathname);
+
+    if (route === "POST /api/v0/add") {
+      await this.handleAdd(req, res);
+    } else if (route === `POST ${UPLOAD_SESSIONS_PATH}`) {
+      await this.handleStartUpload(req, res);
+    } else if (req.method === "PUT" && chunk) {
+      await this.handleChunk(req, res, chunk[1]!, Number(chunk[2]));
+    } else if (req.method === "POST" && complete) {
+      await this.handleCompleteUpload(res, complete[1]!);
+    } else if (route === "GET /api/lighthouse/file_info") {
+      await this.handleFileInfo(res, url.searchParams.get("cid") ?? "");
+    } else if (route === "GET /api/user/files_uploaded") {
+      await this.handleListUploads(res);
+    } else {
+      throw new HttpError(404, "Not found");
+    }
+  }
+
+  private async handleAdd(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const file = parseMultipartFile(await readBody(req), req.headers["content-type"] ?? "");
+    if (!file) {
+      throw new HttpError(400, "Expected a multipart upload with a file field");
+    }
+
+    const record = await this.store.addBuffer(file.data, file.fileName, file.mimeType);
+    this.sendJSON(res, 200, uploadResponse(record));
+  }
+
+  private async handleStartUpload(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    const params = JSON.parse((await readBody(req)).toString("utf-8") || "{}");
+    if (typeof params.fileName !== "string" || !Number.isInteger(params.chunkCount)) {
+      throw new HttpError(400, "fileName and chunkCount are required");
+    }
+
+    const uploadId = crypto.randomUUID();
+    const directory = path.join(this.config.directory, "uploads", uploadId);
+    await fs.mkdir(directory, { recursive: true });
+    this.uploads.set(uploadId, {
+      fileName: params.fileName,
+      chunkCount: params.chunkCount,
+      directory,
+    });
+
+    this.sendJSON(res, 200, { uploadId });
+  }
+
+  private async handleChunk(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    uploadId: string,
+    index: number,
+  ): Promise<void> {
+    const upload = this.getUpload(uploadId);
+    if (index >= upload.chunkCount) {
+      throw new HttpError(400, `Chunk ${index} is out of range`);
+    }
+
+    const data = await readBody(req);
+    const expected = /^sha256=([0-9a-f]+)$/.exec(String(req.headers["x-chunk-checksum"] ?? ""));
+    if (expected && crypto.createHash("sha256").update(data).digest("hex") !== expected[1]) {
+      throw new HttpError(422, `Checksum mismatch for chunk ${index}`);
+    }
+
+    await fs.writeFile(path.join(upload.directory, String(index)), data);
+    this.sendJSON(res, 200, { index });
+  }
+
+  private async handleCompleteUpload(res: http.ServerResponse, uploadId: string): Promise<void> {
+    const upload = this.getUpload(uploadId);
+    const assembled = path.join(upload.directory, "assembled");
+
+    await fs.writeFile(assembled, "");
+    for (let index = 0; index < upload.chunkCount; index++) {
+      const data = await fs.readFile(path.join(upload.directory, String(index))).catch(() => {
+        throw new HttpError(409, `Chunk ${index} has not been uploaded`);
+      });
+      await fs.appendFile(assembled, data);
+    }
+
+    const record = await this.store.addFile(assembled, upload.fileName);
+    this.uploads.delete(uploadId);
+    await fs.rm(upload.directory, { recursive: true, force: true });
+
+    this.sendJSON(res, 200, uploadResponse(record));
+  }
+
+  private async handleDownload(cid: string, res: http.ServerResponse): Promise<void> {
+    const record = await this.store.get(cid);
+    if (!record) {
+      throw new HttpError(404, `File not found: ${cid}`);
+    }
+
+    res.writeHead(200, {
+      "Content-Type": record.mimeType,
+      "Content-Length": record.size,
+    });
+    await pipeline(createReadStream(this.store.blobPath(cid)), res);
+  }
+
+  private async handleFileInfo(res: http.ServerResponse, cid: string): Promise<void> {
+    const record = await this.store.get(cid);
+    if (!record) {
+      throw new HttpError(404, `File not found: ${cid}`);
+    }
+
+    this.sendJSON(res, 200, {
+      cid: record.cid,
+      fileName: record.fileName,
+      mimeType: record.mimeType,
+      fileSizeInBytes: String(record.size),
+      encryption: false,
+      txHash: "",
+    });
+  }
+
+  private async handleListUploads(res: http.ServerResponse): Promise<void> {
+    const records = await this.store.list();
+
+    this.sendJSON(res, 200, {
+      fileList: records.map((record) => ({
+        id: record.cid,
+        cid: record.cid,
+        fileName: record.fileName,
+        mimeType: record.mimeType,
+        fileSizeInBytes: String(record.size),
+        createdAt: Date.parse(record.uploadedAt),
+        lastUpdate: Date.parse(record.uploadedAt),
+        encryption: false,
+        publicKey: "",
+        txHash: "",
+        status: "queued",
+      })),
+      totalFiles: records.length,
+    });
+  }
+
+  private getUpload(uploadId: string): ChunkedUploadState {
+    const upload = this.uploads.get(uploadId);
+    if (!upload) {
+      throw new HttpError(404, `Unknown upload session: ${uploadId}`);
+    }
+    return upload;
+  }
+
+  private sendJSON(res: http.ServerResponse, statusCode: number, body: unknown): void {
+    const json = JSON.stringify(body);
+    res.writeHead(statusCode, {
+      "Content-Type": "application/json",
+      "Content-Length": Buffer.byteLength(json),
+    });
+    res.end(json);
+  }
+}
+
+/**
+ * Response body of a Lighthouse upload
+ */
+function uploadResponse(record: LocalFileRecord): { Name: string; Hash: string; Size: string } {
+  return { Name: record.fileName, Hash: record.cid, Size: String(record.size) };
+}
+
+async function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Extract the first file part of a multipart/form-data body
+ */
+function parseMultipartFile(
+  body: Buffer,
+  contentType: string,
+): { data: Buffer; fileName: string; mimeType?: string } | undefined {
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+  if (!boundary) {
+    return undefined;
+  }
+
+  const delimiter = Buffer.from(`--${boundary[1] ?? boundary[2]}`);
+  let start = body.indexOf(delimiter);
+
+  while (start !== -1) {
+    const headerStart = start + delimiter.length + 2; // skip CRLF
+    const headerEnd = body.indexOf("\r\n\r\n", headerStart);
+    const next = headerEnd === -1 ? -1 : body.indexOf(delimiter, headerEnd);
+    if (next === -1) {
+      return undefined;
+    }
+
+    const headers = body.subarray(headerStart, headerEnd).toString("utf-8");
+    const fileName = /content-disposition:[^\r\n]*filename="([^"]*)"/i.exec(headers);
+    if (fileName) {
+      const mimeType = /content-type:\s*([^\r\n]+)/i.exec(headers);
+      return {
+        data: body.subarray(headerEnd + 4, next - 2), // part content ends with CRLF
+        fileName: fileName[1]!,
+        mimeType: mimeType?.[1]?.trim(),
+      };
+    }
+
+    start = next;
+  }
+
+  return undefined;
+}
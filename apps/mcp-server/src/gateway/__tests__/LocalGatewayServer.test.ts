@@ -0,0 +1,137 @@
+/**
+ * Local gateway tests, driving a real LighthouseAISDK against the stand-in endpoints
+ */
+
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { LighthouseAISDK, UnixFSImporter } from "@lighthouse-tooling/sdk-wrapper";
+import { LocalGatewayServer } from "../LocalGatewayServer.js";
+
+describe("LocalGatewayServer", () => {
+  let dir: string;
+  let gateway: LocalGatewayServer;
+  let sdk: LighthouseAISDK;
+
+  const writeSource = async (name: string, content: string): Promise<string> => {
+    const filePath = path.join(dir, "source", name);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "local-gateway-"));
+    gateway = new LocalGatewayServer({
+      host: "127.0.0.1",
+      port: 0,
+      directory: path.join(dir, "gateway"),
+    });
+    await gateway.start();
+    sdk = new LighthouseAISDK({
+      apiKey: "local-key",
+      maxRetries: 0,
+      pool: false,
+      cache: false,
+      chunkedUpload: { chunkSize: 4, sessionDir: path.join(dir, "sessions") },
+      ...gateway.getClientConfig(),
+    });
+  });
+
+  afterEach(async () => {
+    sdk.destroy();
+    await gateway.stop();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should store uploads under the CID Lighthouse would assign", async () => {
+    const content = "hello local gateway\n";
+    const fileInfo = await sdk.uploadFile(await writeSource("hello.txt", content));
+
+    expect(fileInfo.hash).toBe(UnixFSImporter.importBuffer(content).cid);
+    expect(await gateway.getStore().get(fileInfo.hash)).toMatchObject({
+      fileName: "hello.txt",
+      mimeType: "text/plain",
+      size: content.length,
+    });
+  });
+
+  it("should serve uploaded files for download, info and listing", async () => {
+    const { hash } = await sdk.uploadFile(await writeSource("data.json", '{"a":1}'));
+    const outputPath = path.join(dir, "output", "data.json");
+
+    await sdk.downloadFile(hash, outputPath, { verify: true });
+    const info = await sdk.getFileInfo(hash);
+    const list = await sdk.listFiles();
+
+    expect(await fs.readFile(outputPath, "utf-8")).toBe('{"a":1}');
+    expect(info).toMatchObject({ hash, name: "data.json", size: 7 });
+    expect(list.files.map((file) => file.hash)).toEqual([hash]);
+  });
+
+  it("should assemble resumable chunked uploads", async () => {
+    const content = "chunked upload content";
+    const fileInfo = await sdk.uploadFile(await writeSource("chunked.txt", content), {
+      resumable: true,
+    });
+
+    expect(fileInfo.hash).toBe(UnixFSImporter.importBuffer(content).cid);
+    expect(await fs.readFile(gateway.getStore().blobPath(fileInfo.hash), "utf-8")).toBe(content);
+  });
+
+  it("should require an API key for API endpoints", async () => {
+    const response = await fetch(`${gateway.getUrl()}/api/user/files_uploaded`);
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should return 404 for unknown content", async () => {
+    const response = await fetch(`${gateway.getUrl()}/ipfs/QmUnknown`);
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should keep files across restarts", async () => {
+    const { hash } = await sdk.uploadFile(await writeSource("kept.txt", "kept"));
+    await gateway.stop();
+
+    const restarted = new LocalGatewayServer({
+      host: "127.0.0.1",
+      port: 0,
+      directory: path.join(dir, "gateway"),
+    });
+
+    expect(await restarted.getStore().get(hash)).toMatchObject({ fileName: "kept.txt" });
+  });
+
+  describe("sync", () => {
+    it("should upload unsynced files once and record the remote CID", async () => {
+      const { hash } = await sdk.uploadFile(await writeSource("sync.txt", "sync me"));
+      const upload = vi.fn(async () => ({ hash }));
+
+      const first = await gateway.getStore().sync(upload);
+      const second = await gateway.getStore().sync(upload);
+
+      expect(upload).toHaveBeenCalledTimes(1);
+      expect(upload).toHaveBeenCalledWith(gateway.getStore().blobPath(hash), {
+        fileName: "sync.txt",
+        mimeType: "text/plain",
+      });
+      expect(first.synced).toEqual([expect.objectContaining({ cid: hash, remoteCid: hash })]);
+      expect(second.synced).toEqual([]);
+    });
+
+    it("should leave failed files for the next sync", async () => {
+      const { hash } = await sdk.uploadFile(await writeSource("retry.txt", "retry"));
+
+      const failed = await gateway.getStore().sync(async () => {
+        throw new Error("ENOTFOUND api.lighthouse.storage");
+      });
+      const retried = await gateway.getStore().sync(async () => ({ hash }));
+
+      expect(failed.failed).toEqual([{ cid: hash, error: "ENOTFOUND api.lighthouse.storage" }]);
+      expect(retried.synced).toHaveLength(1);
+    });
+  });
+});
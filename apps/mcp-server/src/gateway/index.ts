@@ -0,0 +1,4 @@
+export { LocalGatewayServer } from "./LocalGatewayServer.js";
+export { LocalContentStore } from "./LocalContentStore.js";
+export { syncLocalGateway } from "./sync.js";
+export * from "./types.js";
@@ -0,0 +1,29 @@
+/**
+ * Sync of local gateway content to Lighthouse
+ */
+
+import { LighthouseAISDK } from "@lighthouse-tooling/sdk-wrapper";
+import { Logger } from "@lighthouse-tooling/shared";
+import { LocalContentStore } from "./LocalContentStore.js";
+import { LocalGatewaySyncResult } from "./types.js";
+
+/**
+ * Upload everything stored by the local gateway in `directory` that Lighthouse does not
+ * have yet, using a real API key
+ */
+export async function syncLocalGateway(
+  directory: string,
+  apiKey: string,
+  logger?: Logger,
+): Promise<LocalGatewaySyncResult> {
+  const store = new LocalContentStore(directory, logger);
+  const sdk = new LighthouseAISDK({ apiKey });
+
+  try {
+    return await store.sync(async (filePath, { fileName, mimeType }) =>
+      sdk.uploadFile(filePath, { fileName, mimeType }),
+    );
+  } finally {
+    sdk.destroy();
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Local gateway types
+ */
+
+export interface LocalGatewayConfig {
+  /** Serve a local stand-in for Lighthouse and send every Lighthouse request to it */
+  enabled: boolean;
+  host: string;
+  /** Port to listen on; 0 picks a free port */
+  port: number;
+  /** Directory uploaded content and its index are kept in */
+  directory: string;
+}
+
+/**
+ * A file held by the local gateway
+ */
+export interface LocalFileRecord {
+  cid: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  uploadedAt: string;
+  /** When the file was uploaded to Lighthouse by a sync */
+  syncedAt?: string;
+  /** CID Lighthouse reported for the synced file */
+  remoteCid?: string;
+}
+
+/**
+ * Uploads content to the real Lighthouse service during a sync
+ */
+export type LocalGatewayUploader = (
+  filePath: string,
+  options: { fileName: string; mimeType: string },
+) => Promise<{ hash: string }>;
+
+export interface LocalGatewaySyncResult {
+  synced: LocalFileRecord[];
+  failed: Array<{ cid: string; error: string }>;
+}
@@ -52,13 +52,17 @@ export class CallToolHandler {
         );
       }
 
-      // Validate arguments
-      const validation = RequestValidator.validateToolArguments(tool.definition, args);
-      if (!validation.valid) {
+      // Sanitize input
+      const sanitizedArgs = RequestValidator.sanitize(args) as Record<string, unknown>;
+
+      // Execute tool; the registry validates the arguments against the tool's schema
+      const result = await this.registry.executeTool(toolName, sanitizedArgs);
+
+      if (result.validationErrors) {
         this.logger.warn("Invalid tool arguments", {
           requestId,
           toolName,
-          errors: validation.errors,
+          errors: result.validationErrors,
         });
 
         return ResponseBuilder.error(
@@ -66,17 +70,11 @@ export class CallToolHandler {
           MCPErrorCode.INVALID_PARAMS,
           "Invalid tool arguments",
           {
-            errors: validation.errors,
+            errors: result.validationErrors,
           },
         );
       }
 
-      // Sanitize input
-      const sanitizedArgs = RequestValidator.sanitize(args) as Record<string, unknown>;
-
-      // Execute tool
-      const result = await this.registry.executeTool(toolName, sanitizedArgs);
-
       if (!result.success) {
         this.logger.error("Tool execution failed", new Error(result.error), {
           requestId,
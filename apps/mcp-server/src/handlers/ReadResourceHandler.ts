@@ -0,0 +1,220 @@
+/**
+ * ReadResourceHandler - Handles resources/read requests
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { Logger } from "@lighthouse-tooling/shared";
+import { MCPResponse, MCPResourceContents } from "@lighthouse-tooling/types";
+import { getMimeType } from "@lighthouse-tooling/sdk-wrapper";
+import { ResponseBuilder } from "../utils/response-builder.js";
+import { ILighthouseService, StoredFile } from "../services/ILighthouseService.js";
+import { MockDatasetService } from "../services/MockDatasetService.js";
+
+/**
+ * Default largest file whose contents are inlined (10MB)
+ */
+const DEFAULT_MAX_INLINE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Non-text MIME types that are still returned as text
+ */
+const TEXTUAL_MIME_TYPES = new Set([
+  "application/json",
+  "application/javascript",
+  "application/typescript",
+  "application/xml",
+]);
+
+/**
+ * Parsed lighthouse:// resource URI
+ */
+interface ParsedResourceUri {
+  kind: "file" | "dataset";
+  id: string;
+}
+
+/**
+ * Tool whose permissions govern reading a resource
+ */
+export interface ResourceAccessTool {
+  toolName: string;
+  args: Record<string, unknown>;
+}
+
+export interface ReadResourceHandlerOptions {
+  /** Largest file, in bytes, whose contents will be inlined */
+  maxInlineSize?: number;
+}
+
+export class ReadResourceHandler {
+  private lighthouseService: ILighthouseService;
+  private datasetService: MockDatasetService;
+  private logger: Logger;
+  private maxInlineSize: number;
+
+  constructor(
+    lighthouseService: ILighthouseService,
+    datasetService: MockDatasetService,
+    logger?: Logger,
+    options: ReadResourceHandlerOptions = {},
+  ) {
+    this.lighthouseService = lighthouseService;
+    this.datasetService = datasetService;
+    this.logger = logger || Logger.getInstance({ level: "info", component: "ReadResourceHandler" });
+    this.maxInlineSize = options.maxInlineSize ?? DEFAULT_MAX_INLINE_SIZE;
+  }
+
+  /**
+   * Handle resources/read request
+   */
+  async handle(requestId: string | number, uri: string): Promise<MCPResponse> {
+    try {
+      const contents = await this.read(uri);
+      return ResponseBuilder.resourceContents(requestId, contents);
+    } catch (error) {
+      this.logger.error("Failed to read resource", error as Error, { requestId, uri });
+      return ResponseBuilder.fromError(requestId, error as Error);
+    }
+  }
+
+  /**
+   * Read the contents of a lighthouse:// resource
+   */
+  async read(uri: string): Promise<MCPResourceContents[]> {
+    this.logger.info("Handling resources/read request", { uri });
+
+    const parsed = this.parseUri(uri);
+    const contents =
+      parsed.kind === "dataset"
+        ? await this.readDataset(uri, parsed.id)
+        : await this.readFile(uri, parsed.id);
+
+    this.logger.info("Resource read", { uri, mimeType: contents.mimeType });
+    return [contents];
+  }
+
+  /**
+   * Map a resource URI to the tool call it is equivalent to, so reads are authorized exactly
+   * like lighthouse_fetch_file and lighthouse_get_dataset
+   */
+  getAccessTool(uri: string): ResourceAccessTool {
+    const parsed = this.parseUri(uri);
+    return parsed.kind === "dataset"
+      ? { toolName: "lighthouse_get_dataset", args: { datasetId: parsed.id } }
+      : { toolName: "lighthouse_fetch_file", args: { cid: parsed.id } };
+  }
+
+  /**
+   * Parse lighthouse://file/<cid> and lighthouse://dataset/<id> URIs
+   */
+  private parseUri(uri: string): ParsedResourceUri {
+    const match = /^lighthouse:\/\/(file|dataset)\/([^/?#]+)$/.exec(uri);
+    if (!match) {
+      throw new Error(`Invalid resource URI: ${uri}`);
+    }
+
+    return {
+      kind: match[1] as ParsedResourceUri["kind"],
+      id: decodeURIComponent(match[2]!),
+    };
+  }
+
+  /**
+   * Return the dataset manifest as JSON
+   */
+  private async readDataset(uri: string, datasetId: string): Promise<MCPResourceContents> {
+    const dataset =
+      this.datasetService.getDataset(datasetId) ??
+      (await this.lighthouseService.getDataset(datasetId));
+
+    if (!dataset) {
+      throw new Error(`Dataset not found: ${datasetId}`);
+    }
+
+    return {
+      uri,
+      mimeType: "application/json",
+      text: JSON.stringify(dataset, null, 2),
+    };
+  }
+
+  /**
+   * Return file contents as text or base64 depending on MIME type
+   */
+  private async readFile(uri: string, cid: string): Promise<MCPResourceContents> {
+    const fileInfo = await this.lighthouseService.getFileInfo(cid);
+    if (!fileInfo) {
+      throw new Error(`File not found: ${cid}`);
+    }
+
+    if (fileInfo.size > this.maxInlineSize) {
+      throw new Error(
+        `File too large to inline: ${cid} is ${fileInfo.size} bytes (limit ${this.maxInlineSize}). ` +
+          `Use lighthouse_fetch_file to download it instead`,
+      );
+    }
+
+    const content = await this.loadFileContent(fileInfo);
+    const mimeType = getMimeType(fileInfo.filePath);
+
+    if (this.isTextual(mimeType)) {
+      return { uri, mimeType, text: content.toString("utf-8") };
+    }
+
+    return { uri, mimeType, blob: content.toString("base64") };
+  }
+
+  /**
+   * Load file bytes from the local copy when it is intact, otherwise fetch from Lighthouse
+   */
+  private async loadFileContent(fileInfo: StoredFile): Promise<Buffer> {
+    const localContent = await this.readLocalCopy(fileInfo);
+    if (localContent) {
+      return localContent;
+    }
+
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "lighthouse-resource-"));
+    try {
+      const result = await this.lighthouseService.fetchFile({
+        cid: fileInfo.cid,
+        outputPath: path.join(tempDir, path.basename(fileInfo.filePath)),
+        decrypt: fileInfo.encrypted,
+      });
+      return await fs.readFile(result.filePath);
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  /**
+   * Read the locally stored copy of a file if it still matches the recorded content hash.
+   * Encrypted files are never served from the plaintext the uploader left on disk.
+   */
+  private async readLocalCopy(fileInfo: StoredFile): Promise<Buffer | null> {
+    if (fileInfo.encrypted || !fileInfo.hash) {
+      return null;
+    }
+
+    try {
+      const stats = await fs.stat(fileInfo.filePath);
+      if (!stats.isFile() || stats.size !== fileInfo.size) {
+        return null;
+      }
+      const content = await fs.readFile(fileInfo.filePath);
+      const hash = crypto.createHash("sha256").update(content).digest("hex");
+      return hash === fileInfo.hash ? content : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Whether content of this MIME type should be returned as text
+   */
+  private isTextual(mimeType: string): boolean {
+    return mimeType.startsWith("text/") || TEXTUAL_MIME_TYPES.has(mimeType);
+  }
+}
@@ -5,4 +5,5 @@
 export { ListToolsHandler } from "./ListToolsHandler.js";
 export { CallToolHandler } from "./CallToolHandler.js";
 export { ListResourcesHandler } from "./ListResourcesHandler.js";
+export { ReadResourceHandler } from "./ReadResourceHandler.js";
 export { InitializeHandler } from "./InitializeHandler.js";
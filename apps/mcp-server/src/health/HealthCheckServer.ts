@@ -1,8 +1,10 @@
 /**
  * Health Check HTTP Server
  *
- * Provides /health (liveness) and /ready (readiness) endpoints
- * on a configurable port, separate from the MCP stdio transport.
+ * Provides /health (liveness), /ready (readiness) and /metrics (Prometheus)
+ * endpoints on a configurable port, separate from the MCP stdio transport.
+ * Additional routes (e.g. the MCP HTTP transport) can be mounted
+ * to share the same port and lifecycle.
  */
 
 import * as http from "node:http";
@@ -13,7 +15,19 @@ import { LighthouseServiceFactory } from "../auth/LighthouseServiceFactory.js";
 import { ILighthouseService } from "../services/ILighthouseService.js";
 import { ToolRegistry } from "../registry/ToolRegistry.js";
 import { ServerConfig } from "../config/server-config.js";
-import { HealthCheckConfig, HealthStatus, ReadinessCheck, ReadinessStatus } from "./types.js";
+import { TenantStore } from "../tenancy/storage/TenantStore.js";
+import {
+  MetricsExporter,
+  OPENMETRICS_CONTENT_TYPE,
+  PROMETHEUS_CONTENT_TYPE,
+} from "./MetricsExporter.js";
+import {
+  HealthCheckConfig,
+  HealthStatus,
+  HttpRouteHandler,
+  ReadinessCheck,
+  ReadinessStatus,
+} from "./types.js";
 
 export interface HealthCheckDependencies {
   authManager: AuthManager;
@@ -22,14 +36,20 @@ export interface HealthCheckDependencies {
   registry: ToolRegistry;
   config: ServerConfig;
   logger: Logger;
+  /** Set in multi-tenant mode to export per-organization quota utilization */
+  tenantStore?: TenantStore | null;
 }
 
+const BUILT_IN_ROUTES = new Set(["/health", "/ready", "/metrics"]);
+
 export class HealthCheckServer {
   private httpServer: http.Server | null = null;
   private startTime: number = Date.now();
   private deps: HealthCheckDependencies;
   private healthConfig: HealthCheckConfig;
   private logger: Logger;
+  private routes: Map<string, HttpRouteHandler> = new Map();
+  private metricsExporter: MetricsExporter;
 
   private lastConnectivityCheck: {
     up: boolean;
@@ -41,6 +61,17 @@ export class HealthCheckServer {
     this.deps = deps;
     this.healthConfig = healthConfig;
     this.logger = deps.logger;
+    this.metricsExporter = new MetricsExporter(deps);
+  }
+
+  /**
+   * Serve an additional path from this server, with any HTTP method
+   */
+  mount(path: string, handler: HttpRouteHandler): void {
+    if (BUILT_IN_ROUTES.has(path) || this.routes.has(path)) {
+      throw new Error(`Route already defined: ${path}`);
+    }
+    this.routes.set(path, handler);
   }
 
   async start(): Promise<void> {
@@ -54,10 +85,13 @@ export class HealthCheckServer {
         reject(err);
       });
 
-      this.httpServer.listen(this.healthConfig.port, "127.0.0.1", () => {
+      const host = this.healthConfig.host ?? "127.0.0.1";
+      this.httpServer.listen(this.healthConfig.port, host, () => {
         this.startTime = Date.now();
         this.logger.info("Health check server listening", {
           port: this.healthConfig.port,
+          host,
+          routes: Array.from(this.routes.keys()),
         });
         resolve();
       });
@@ -94,6 +128,17 @@ export class HealthCheckServer {
   private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
     const url = req.url?.split("?")[0];
 
+    const route = url ? this.routes.get(url) : undefined;
+    if (route) {
+      route(req, res).catch((err) => {
+        this.logger.error("Mounted route failed", err, { url });
+        if (!res.headersSent) {
+          this.sendJSON(res, 500, { error: "Internal server error" });
+        }
+      });
+      return;
+    }
+
     if (req.method !== "GET") {
       this.sendJSON(res, 405, { error: "Method not allowed" });
       return;
@@ -109,6 +154,12 @@ export class HealthCheckServer {
           this.sendJSON(res, 500, { error: "Internal server error" });
         });
         break;
+      case "/metrics":
+        this.handleMetrics(req, res).catch((err) => {
+          this.logger.error("Metrics export failed", err);
+          this.sendJSON(res, 500, { error: "Internal server error" });
+        });
+        break;
       default:
         this.sendJSON(res, 404, { error: "Not found" });
         break;
@@ -154,6 +205,18 @@ export class HealthCheckServer {
     this.sendJSON(res, allUp ? 200 : 503, status);
   }
 
+  private async handleMetrics(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const openMetrics = req.headers.accept?.includes("application/openmetrics-text") ?? false;
+    const body = await this.metricsExporter.render(openMetrics ? "openmetrics" : "prometheus");
+
+    res.writeHead(200, {
+      "Content-Type": openMetrics ? OPENMETRICS_CONTENT_TYPE : PROMETHEUS_CONTENT_TYPE,
+      "Content-Length": Buffer.byteLength(body),
+      "Cache-Control": "no-cache, no-store",
+    });
+    res.end(body);
+  }
+
   private checkSDK(): ReadinessCheck {
     try {
       const stats = this.deps.lighthouseService.getStorageStats();
@@ -184,6 +247,7 @@ export class HealthCheckServer {
         status: "up",
         size: stats.size,
         maxSize: stats.maxSize,
+        rateLimited: stats.rateLimited,
       };
     } catch {
       return { status: "down" };
@@ -0,0 +1,312 @@
+/**
+ * Metrics Exporter
+ *
+ * Renders the statistics kept by the registry, auth manager, service pool,
+ * SDK and tenant store in the Prometheus text exposition format, or in
+ * OpenMetrics when the scraper asks for it.
+ */
+
+import { Logger } from "@lighthouse-tooling/shared";
+import { AuthManager } from "../auth/AuthManager.js";
+import { LighthouseServiceFactory } from "../auth/LighthouseServiceFactory.js";
+import { ILighthouseService } from "../services/ILighthouseService.js";
+import { ToolRegistry } from "../registry/ToolRegistry.js";
+import { LatencyHistogram } from "../registry/types.js";
+import { TenantStore } from "../tenancy/storage/TenantStore.js";
+
+export type MetricsFormat = "prometheus" | "openmetrics";
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+export const OPENMETRICS_CONTENT_TYPE =
+  "application/openmetrics-text; version=1.0.0; charset=utf-8";
+
+export interface MetricsExporterDependencies {
+  authManager: AuthManager;
+  serviceFactory: LighthouseServiceFactory;
+  lighthouseService: ILighthouseService;
+  registry: ToolRegistry;
+  /** Set in multi-tenant mode to export per-organization quota utilization */
+  tenantStore?: TenantStore | null;
+  logger: Logger;
+}
+
+type Labels = Record<string, string>;
+
+interface Sample {
+  labels?: Labels;
+  value: number;
+}
+
+const CIRCUIT_STATES = ["closed", "open", "half-open"];
+
+/**
+ * Collects one metric family after another into exposition text
+ */
+class MetricWriter {
+  private lines: string[] = [];
+
+  constructor(private format: MetricsFormat) {}
+
+  /**
+   * Write a counter; `name` is given without the `_total` suffix
+   */
+  counter(name: string, help: string, samples: Sample[]): void {
+    if (samples.length === 0) return;
+    const family = this.format === "openmetrics" ? name : `${name}_total`;
+    this.header(family, "counter", help);
+    for (const sample of samples) {
+      this.sample(`${name}_total`, sample.labels, sample.value);
+    }
+  }
+
+  gauge(name: string, help: string, samples: Sample[]): void {
+    if (samples.length === 0) return;
+    this.header(name, "gauge", help);
+    for (const sample of samples) {
+      this.sample(name, sample.labels, sample.value);
+    }
+  }
+
+  /**
+   * Write millisecond histograms as cumulative buckets in seconds
+   */
+  histogram(
+    name: string,
+    help: string,
+    series: Array<{ labels: Labels; histogram: LatencyHistogram }>,
+  ): void {
+    if (series.length === 0) return;
+    this.header(name, "histogram", help);
+    for (const { labels, histogram } of series) {
+      let cumulative = 0;
+      histogram.bucketBounds.forEach((bound, i) => {
+        cumulative += histogram.bucketCounts[i] ?? 0;
+        this.sample(`${name}_bucket`, { ...labels, le: String(bound / 1000) }, cumulative);
+      });
+      this.sample(`${name}_bucket`, { ...labels, le: "+Inf" }, histogram.count);
+      this.sample(`${name}_sum`, labels, histogram.sum / 1000);
+      this.sample(`${name}_count`, labels, histogram.count);
+    }
+  }
+
+  toString(): string {
+    const eof = this.format === "openmetrics" ? ["# EOF"] : [];
+    return [...this.lines, ...eof].join("\n") + "\n";
+  }
+
+  private header(name: string, type: string, help: string): void {
+    this.lines.push(`# HELP ${name} ${help.replace(/\\/g, "\\\\").replace(/\n/g, "\\n")}`);
+    this.lines.push(`# TYPE ${name} ${type}`);
+  }
+
+  private sample(name: string, labels: Labels | undefined, value: number): void {
+    const pairs = Object.entries(labels ?? {}).map(
+      ([key, labelValue]) =>
+        `${key}="${labelValue.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"')}"`,
+    );
+    const labelText = pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+    this.lines.push(`${name}${labelText} ${this.formatValue(value)}`);
+  }
+
+  private formatValue(value: number): string {
+    if (Number.isNaN(value)) return "NaN";
+    if (value === Infinity) return "+Inf";
+    if (value === -Infinity) return "-Inf";
+    return String(value);
+  }
+}
+
+export class MetricsExporter {
+  private deps: MetricsExporterDependencies;
+
+  constructor(deps: MetricsExporterDependencies) {
+    this.deps = deps;
+  }
+
+  /**
+   * Render every metric family. A source that fails is left out rather than failing the scrape.
+   */
+  async render(format: MetricsFormat = "prometheus"): Promise<string> {
+    const writer = new MetricWriter(format);
+
+    const sections: Array<[string, (writer: MetricWriter) => void | Promise<void>]> = [
+      ["tools", (w) => this.writeToolMetrics(w)],
+      ["auth", (w) => this.writeAuthMetrics(w)],
+      ["key_cache", (w) => this.writeKeyCacheMetrics(w)],
+      ["service_pool", (w) => this.writeServicePoolMetrics(w)],
+      ["sdk", (w) => this.writeSDKMetrics(w)],
+      ["tenants", (w) => this.writeTenantMetrics(w)],
+    ];
+
+    for (const [section, write] of sections) {
+      try {
+        await write(writer);
+      } catch (error) {
+        this.deps.logger.warn("Failed to collect metrics", {
+          section,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    return writer.toString();
+  }
+
+  private writeToolMetrics(writer: MetricWriter): void {
+    const tools = this.deps.registry.getToolMetrics();
+
+    writer.counter(
+      "lighthouse_tool_calls",
+      "Tool calls by result",
+      tools.flatMap((tool) => [
+        { labels: { tool: tool.name, result: "success" }, value: tool.callCount - tool.errorCount },
+        { labels: { tool: tool.name, result: "error" }, value: tool.errorCount },
+      ]),
+    );
+    writer.histogram(
+      "lighthouse_tool_duration_seconds",
+      "Tool execution time",
+      tools.map((tool) => ({ labels: { tool: tool.name }, histogram: tool.latency })),
+    );
+  }
+
+  private writeAuthMetrics(writer: MetricWriter): void {
+    const auth = this.deps.authManager.getAuthMetrics();
+
+    writer.counter("lighthouse_auth_requests", "Authentication attempts by result", [
+      { labels: { result: "success" }, value: auth.authenticatedRequests },
+      { labels: { result: "failure" }, value: auth.failedAuthentications },
+    ]);
+    writer.counter(
+      "lighthouse_auth_fallback_requests",
+      "Requests authenticated with the server's default API key",
+      [{ value: auth.fallbackRequests }],
+    );
+    writer.counter("lighthouse_auth_rate_limited_requests", "Requests rejected by rate limiting", [
+      { value: auth.rateLimitedRequests },
+    ]);
+    writer.gauge(
+      "lighthouse_auth_average_duration_seconds",
+      "Average authentication time over recent requests",
+      [{ value: auth.averageAuthTime / 1000 }],
+    );
+    writer.gauge("lighthouse_auth_unique_api_keys", "Distinct API keys seen", [
+      { value: auth.uniqueApiKeys },
+    ]);
+  }
+
+  private writeKeyCacheMetrics(writer: MetricWriter): void {
+    const cache = this.deps.authManager.getCacheStats();
+
+    writer.counter("lighthouse_key_cache_lookups", "API key validation cache lookups by result", [
+      { labels: { result: "hit" }, value: cache.hits },
+      { labels: { result: "miss" }, value: cache.misses },
+    ]);
+    writer.gauge("lighthouse_key_cache_hit_ratio", "Share of cache lookups that were hits", [
+      { value: cache.hitRate },
+    ]);
+    writer.gauge("lighthouse_key_cache_entries", "Cached API key validations", [
+      { value: cache.size },
+    ]);
+    writer.gauge("lighthouse_key_cache_capacity", "Maximum cached API key validations", [
+      { value: cache.maxSize },
+    ]);
+  }
+
+  private writeServicePoolMetrics(writer: MetricWriter): void {
+    const pool = this.deps.serviceFactory.getStats();
+
+    writer.gauge("lighthouse_service_pool_size", "Pooled per-key Lighthouse services", [
+      { value: pool.size },
+    ]);
+    writer.gauge("lighthouse_service_pool_capacity", "Maximum pooled per-key Lighthouse services", [
+      { value: pool.maxSize },
+    ]);
+    writer.gauge(
+      "lighthouse_service_pool_oldest_service_age_seconds",
+      "Age of the oldest pooled service",
+      [{ value: pool.oldestServiceAge / 1000 }],
+    );
+    writer.gauge(
+      "lighthouse_service_pool_rate_limited",
+      "Pooled services paused by Lighthouse rate limits",
+      [{ value: pool.rateLimited }],
+    );
+  }
+
+  private writeSDKMetrics(writer: MetricWriter): void {
+    const sdk = this.deps.lighthouseService.getSDKMetrics?.();
+    if (!sdk) return;
+
+    writer.gauge(
+      "lighthouse_sdk_circuit_breaker_state",
+      "Circuit breaker state (1 for the current state)",
+      CIRCUIT_STATES.map((state) => ({
+        labels: { state },
+        value: sdk.circuitBreaker.state === state ? 1 : 0,
+      })),
+    );
+    writer.gauge(
+      "lighthouse_sdk_circuit_breaker_failures",
+      "Consecutive failures counted by the circuit breaker",
+      [{ value: sdk.circuitBreaker.failureCount }],
+    );
+
+    const pool = sdk.connectionPool;
+    if (!pool) return;
+
+    writer.gauge("lighthouse_sdk_pool_connections", "SDK connection pool connections by state", [
+      { labels: { state: "active" }, value: pool.activeConnections },
+      { labels: { state: "idle" }, value: pool.idleConnections },
+    ]);
+    writer.gauge("lighthouse_sdk_pool_queued_requests", "Requests waiting for a connection", [
+      { value: pool.queuedRequests },
+    ]);
+    writer.counter("lighthouse_sdk_pool_requests", "Connections handed out by the pool", [
+      { value: pool.totalRequests },
+    ]);
+    writer.gauge(
+      "lighthouse_sdk_pool_average_wait_seconds",
+      "Average wait for a pooled connection",
+      [{ value: pool.averageWaitTime / 1000 }],
+    );
+  }
+
+  private async writeTenantMetrics(writer: MetricWriter): Promise<void> {
+    const store = this.deps.tenantStore;
+    if (!store) return;
+
+    const used: Sample[] = [];
+    const limits: Sample[] = [];
+    const utilization: Sample[] = [];
+
+    for (const organization of await store.listOrganizations()) {
+      if (organization.status === "deleted") continue;
+
+      const quota = await store.getQuota(organization.id);
+      if (!quota) continue;
+
+      const resources: Array<[string, number, number]> = [
+        ["storage_bytes", quota.storageUsed, quota.storageLimit],
+        ["requests", quota.requestsUsed, quota.requestLimit],
+        ["bandwidth_bytes", quota.bandwidthUsed, quota.bandwidthLimit],
+        ["api_keys", quota.currentApiKeys, quota.maxApiKeys],
+        ["teams", quota.currentTeams, quota.maxTeams],
+      ];
+      for (const [resource, usedValue, limit] of resources) {
+        const labels = { organization: organization.id, resource };
+        used.push({ labels, value: usedValue });
+        limits.push({ labels, value: limit });
+        utilization.push({ labels, value: limit > 0 ? usedValue / limit : 0 });
+      }
+    }
+
+    writer.gauge("lighthouse_tenant_quota_used", "Quota consumed per organization", used);
+    writer.gauge("lighthouse_tenant_quota_limit", "Quota limit per organization", limits);
+    writer.gauge(
+      "lighthouse_tenant_quota_utilization_ratio",
+      "Share of the quota consumed per organization",
+      utilization,
+    );
+  }
+}
@@ -1,3 +1,10 @@
 export { HealthCheckServer } from "./HealthCheckServer.js";
 export type { HealthCheckDependencies } from "./HealthCheckServer.js";
+export {
+  MetricsExporter,
+  PROMETHEUS_CONTENT_TYPE,
+  OPENMETRICS_CONTENT_TYPE,
+  type MetricsExporterDependencies,
+  type MetricsFormat,
+} from "./MetricsExporter.js";
 export * from "./types.js";
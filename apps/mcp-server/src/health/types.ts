@@ -2,14 +2,23 @@
  * Health Check Types
  */
 
+import type { IncomingMessage, ServerResponse } from "node:http";
+
 export interface HealthCheckConfig {
   enabled: boolean;
   port: number;
+  /** Interface to bind [default: 127.0.0.1] */
+  host?: string;
   lighthouseApiUrl?: string;
   connectivityCheckInterval?: number;
   connectivityTimeout?: number;
 }
 
+/**
+ * Handler for a route mounted on the health check server
+ */
+export type HttpRouteHandler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
 export interface HealthStatus {
   status: "healthy";
   timestamp: string;
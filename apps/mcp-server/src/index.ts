@@ -3,8 +3,13 @@
  */
 
 import { LighthouseMCPServer } from "./server.js";
-import { ServerConfig } from "./config/server-config.js";
+import {
+  ServerConfig,
+  DEFAULT_TRANSPORT_CONFIG,
+  DEFAULT_LOCAL_GATEWAY_CONFIG,
+} from "./config/server-config.js";
 import { EnvLoader } from "./config/env-loader.js";
+import { syncLocalGateway } from "./gateway/index.js";
 
 // Export main server class
 export { LighthouseMCPServer } from "./server.js";
@@ -15,6 +20,9 @@ export * from "./registry/types.js";
 export * from "./config/server-config.js";
 export { EnvLoader } from "./config/env-loader.js";
 export { HealthCheckServer } from "./health/index.js";
+export { McpHttpTransport } from "./transport/index.js";
+export { LocalGatewayServer, LocalContentStore, syncLocalGateway } from "./gateway/index.js";
+export * from "./middleware/index.js";
 
 /**
  * Main entry point when run as a script
@@ -44,6 +52,13 @@ Options:
   --version <version>    Set server version [default: 0.1.0]
   --api-key <key>        Set Lighthouse API key (or use LIGHTHOUSE_API_KEY env var)
   --health-port <port>   Enable health check server on given port [default: 8080]
+  --transport <mode>     Transport to serve MCP over (stdio, http) [default: stdio]
+                         http serves /mcp (streamable HTTP) and /sse on the health port
+  --http-host <host>     Interface the HTTP transport binds to [default: 127.0.0.1]
+  --http-allow-anonymous Accept HTTP clients without a bearer token; their calls use
+                         the server's API key
+  --local-gateway        Work offline against a local stand-in for Lighthouse
+  --sync-local-gateway   Upload local gateway content to Lighthouse and exit
   --env <path>           Path to .env file [default: .env]
   --show-config          Display current configuration and exit
   --help                 Show this help message
@@ -59,6 +74,36 @@ Environment Variables:
   HEALTH_CHECK_ENABLED   Enable health check server (true/false)
   HEALTH_CHECK_PORT      Health check server port [default: 8080]
   LIGHTHOUSE_API_URL     Lighthouse API URL for connectivity checks
+  MCP_TRANSPORT          Transport to serve MCP over (stdio, http)
+  MCP_HTTP_HOST          Interface the HTTP transport binds to
+  MCP_HTTP_REQUIRE_AUTH  Require a bearer token from HTTP clients (true/false) [default: true]
+  IDEMPOTENCY_WINDOW_SECONDS  How long idempotency keys are remembered [default: 86400]
+  IDEMPOTENCY_DB_PATH    SQLite database for idempotency keys
+  AUDIT_SIGNING_KEY      HMAC key for audit log checkpoints [default: read from AUDIT_SIGNING_KEY_PATH]
+  AUDIT_SIGNING_KEY_PATH  File the generated audit signing key is kept in [default: ~/.lighthouse/audit-signing.key]
+  API_KEY_ROTATION_GRACE_HOURS  Hours a rotated API key keeps working [default: 24]
+  LIGHTHOUSE_TRACE_FILE  Append trace spans to this file as OTLP/JSON
+  LIGHTHOUSE_CONTENT_CACHE_ENABLED  Keep fetched content on disk [default: true]
+  LIGHTHOUSE_CONTENT_CACHE_DIR  Directory fetched content is cached in [default: ~/.lighthouse/content-cache]
+  LIGHTHOUSE_CONTENT_CACHE_MAX_SIZE  Content cache size budget in bytes [default: 1073741824]
+  LIGHTHOUSE_CONTENT_CACHE_EVICTION  Content cache eviction policy, lru or lfu [default: lru]
+  LIGHTHOUSE_CONTENT_CACHE_STORAGE  disk, or hybrid to also keep recent content in memory [default: disk]
+  LIGHTHOUSE_LOCAL_GATEWAY  Serve and use a local stand-in for Lighthouse (true/false)
+  LIGHTHOUSE_LOCAL_GATEWAY_HOST  Interface the local gateway binds to [default: 127.0.0.1]
+  LIGHTHOUSE_LOCAL_GATEWAY_PORT  Local gateway port [default: 8090]
+  LIGHTHOUSE_LOCAL_GATEWAY_DIR  Directory local gateway content is kept in [default: ~/.lighthouse/local-gateway]
+  SECURITY_ALERT_WEBHOOK_URL  Post security alerts to this URL
+  SECURITY_ALERT_WEBHOOK_SECRET  HMAC key for signing security alert webhooks
+  SECURITY_ALERT_EMAIL   Email security alerts to these comma-separated addresses
+  SECURITY_ALERT_SMTP_URL  SMTP server for alert email (smtp:// or smtps://)
+  SECURITY_ALERT_FILE    Append security alerts to this file as JSON lines
+  SECURITY_ALERT_STORE_PATH  File alerts and acknowledgements are kept in [default: data/security-alerts.json]
+  SECURITY_ALERT_RETENTION_HOURS  Stored alerts older than this are dropped [default: 720]
+  SECURITY_ALERT_MAX_STORED  Most alerts kept in the store [default: 1000]
+  ANOMALY_DETECTION_ENABLED  Learn per-key usage baselines and report anomalies [default: true]
+  ANOMALY_LEARNING_PERIOD_HOURS  Active hours a key is observed before anomalies are reported [default: 24]
+  ANOMALY_AUTO_SUSPEND   Suspend API keys on anomalous usage [default: false]
+  ANOMALY_SUSPEND_SEVERITY  Lowest anomaly severity that suspends a key [default: critical]
 
 Examples:
   node dist/index.js --log-level debug
@@ -66,6 +111,9 @@ Examples:
   node dist/index.js --api-key YOUR_API_KEY
   node dist/index.js --env /path/to/.env
   node dist/index.js --show-config
+  node dist/index.js --transport http --health-port 3000
+  node dist/index.js --local-gateway
+  node dist/index.js --sync-local-gateway --api-key YOUR_API_KEY
   LOG_LEVEL=debug node dist/index.js
       `);
       process.exit(0);
@@ -111,6 +159,28 @@ Examples:
             config.healthCheck.enabled = true;
           }
           break;
+        case "--transport":
+          i++;
+          if (args[i] === "stdio" || args[i] === "http") {
+            const mode = args[i] as "stdio" | "http";
+            config.transport = { ...(config.transport ?? DEFAULT_TRANSPORT_CONFIG), mode };
+          }
+          break;
+        case "--http-host":
+          i++;
+          if (args[i]) {
+            config.transport = {
+              ...(config.transport ?? DEFAULT_TRANSPORT_CONFIG),
+              host: args[i]!,
+            };
+          }
+          break;
+        case "--http-allow-anonymous":
+          config.transport = {
+            ...(config.transport ?? DEFAULT_TRANSPORT_CONFIG),
+            requireAuth: false,
+          };
+          break;
         case "--env":
           i++;
           if (args[i]) {
@@ -119,7 +189,25 @@ Examples:
             Object.assign(config, envConfig);
           }
           break;
+        case "--local-gateway":
+          config.localGateway = { ...DEFAULT_LOCAL_GATEWAY_CONFIG, enabled: true };
+          break;
+      }
+    }
+
+    if (args.includes("--sync-local-gateway")) {
+      const apiKey = config.lighthouseApiKey || process.env.LIGHTHOUSE_API_KEY;
+      if (!apiKey) {
+        throw new Error("A Lighthouse API key is required to sync the local gateway");
+      }
+
+      const directory = (config.localGateway ?? DEFAULT_LOCAL_GATEWAY_CONFIG).directory;
+      const result = await syncLocalGateway(directory, apiKey);
+      console.log(`Synced ${result.synced.length} file(s) from ${directory}`);
+      for (const failure of result.failed) {
+        console.error(`Failed to sync ${failure.cid}: ${failure.error}`);
       }
+      process.exit(result.failed.length > 0 ? 1 : 0);
     }
 
     // Display config if debug mode
@@ -0,0 +1,206 @@
+/**
+ * Authentication Middleware - Authenticates tool calls and creates their request context
+ */
+
+import { Logger } from "@lighthouse-tooling/shared";
+import { TenantErrorCode } from "@lighthouse-tooling/types";
+import { AuthManager } from "../auth/AuthManager.js";
+import { LighthouseServiceFactory } from "../auth/LighthouseServiceFactory.js";
+import { RequestContext } from "../auth/RequestContext.js";
+import { SecureKeyHandler } from "../auth/SecureKeyHandler.js";
+import { AuthenticationError } from "../errors/AuthenticationError.js";
+import { ILighthouseService } from "../services/ILighthouseService.js";
+import { TenantResolver } from "../tenancy/TenantResolver.js";
+import { ToolCall, ToolMiddleware } from "./types.js";
+
+/**
+ * Authentication Middleware Options
+ */
+export interface AuthenticationMiddlewareOptions {
+  authManager: AuthManager;
+  serviceFactory: LighthouseServiceFactory;
+  logger: Logger;
+  /** Resolves API keys to tenants when multi-tenancy is enabled */
+  tenantResolver?: TenantResolver | null;
+  /** Upstream service shared by all tenants */
+  tenantService: ILighthouseService;
+}
+
+/**
+ * Sets `call.context` and removes the apiKey argument so it never reaches the tool
+ */
+export class AuthenticationMiddleware implements ToolMiddleware {
+  readonly name = "authentication";
+  private authManager: AuthManager;
+  private serviceFactory: LighthouseServiceFactory;
+  private logger: Logger;
+  private tenantResolver: TenantResolver | null;
+  private tenantService: ILighthouseService;
+
+  constructor(options: AuthenticationMiddlewareOptions) {
+    this.authManager = options.authManager;
+    this.serviceFactory = options.serviceFactory;
+    this.logger = options.logger;
+    this.tenantResolver = options.tenantResolver ?? null;
+    this.tenantService = options.tenantService;
+  }
+
+  async before(call: ToolCall): Promise<void> {
+    call.context = this.tenantResolver
+      ? await this.authenticateTenantRequest(call.toolName, call.apiKey, this.tenantResolver)
+      : await this.authenticateRequest(call.toolName, call.apiKey);
+
+    const { apiKey: _apiKey, ...toolArgs } = call.args;
+    call.args = toolArgs;
+  }
+
+  /**
+   * Authenticate a request against the configured API keys
+   */
+  private async authenticateRequest(
+    name: string,
+    requestApiKey: string | undefined,
+  ): Promise<RequestContext> {
+    const authResult = await this.authManager.authenticate(requestApiKey);
+
+    if (!authResult.success) {
+      this.logger.warn("Authentication failed", {
+        tool: name,
+        keyHash: authResult.keyHash,
+        usedFallback: authResult.usedFallback,
+        rateLimited: authResult.rateLimited,
+        authTime: authResult.authTime,
+      });
+
+      // Throw appropriate authentication error
+      if (authResult.rateLimited) {
+        throw AuthenticationError.rateLimited(authResult.keyHash, 60);
+      } else if (authResult.errorMessage?.includes("required")) {
+        throw AuthenticationError.missingApiKey();
+      } else {
+        throw AuthenticationError.invalidApiKey(authResult.keyHash);
+      }
+    }
+
+    // Get effective API key for service creation
+    const effectiveApiKey = await this.authManager.getEffectiveApiKey(requestApiKey);
+
+    // Get service instance for this API key
+    const service = await this.serviceFactory.getService(effectiveApiKey);
+
+    // Fail fast while Lighthouse has paused this key rather than holding the call open
+    const retryAfter = this.serviceFactory.getRetryAfter(effectiveApiKey);
+    if (retryAfter > 0) {
+      this.logger.warn("Lighthouse rate limit in effect", {
+        tool: name,
+        keyHash: authResult.keyHash,
+        retryAfter,
+      });
+      throw AuthenticationError.rateLimited(authResult.keyHash, Math.ceil(retryAfter / 1000));
+    }
+
+    const context = new RequestContext({
+      apiKey: effectiveApiKey,
+      keyHash: authResult.keyHash,
+      service,
+      toolName: name,
+    });
+
+    this.logger.info("Authentication successful", {
+      ...context.toLogContext(),
+      usedFallback: authResult.usedFallback,
+      authTime: authResult.authTime,
+    });
+
+    return context;
+  }
+
+  /**
+   * Authenticate a request by resolving its API key to a tenant
+   */
+  private async authenticateTenantRequest(
+    name: string,
+    requestApiKey: string | undefined,
+    resolver: TenantResolver,
+  ): Promise<RequestContext> {
+    const startTime = Date.now();
+
+    let effectiveApiKey: string;
+    try {
+      effectiveApiKey = await this.authManager.getEffectiveApiKey(requestApiKey);
+    } catch {
+      throw AuthenticationError.missingApiKey();
+    }
+
+    const keyHash = SecureKeyHandler.hashKey(effectiveApiKey);
+    const usedFallback = !requestApiKey;
+
+    const rateLimit = this.authManager.checkRateLimit(effectiveApiKey);
+    if (!rateLimit.allowed) {
+      this.authManager.recordAuthentication({
+        success: false,
+        keyHash,
+        usedFallback,
+        rateLimited: true,
+        authTime: Date.now() - startTime,
+        errorMessage: "Rate limit exceeded",
+      });
+      this.logger.warn("Tenant request rate limited", { tool: name, keyHash });
+      throw AuthenticationError.rateLimited(keyHash, rateLimit.retryAfter ?? 60);
+    }
+
+    if (this.authManager.isKeySuspended(effectiveApiKey)) {
+      this.authManager.recordAuthentication({
+        success: false,
+        keyHash,
+        usedFallback,
+        rateLimited: false,
+        authTime: Date.now() - startTime,
+        errorMessage: "API key suspended",
+      });
+      this.logger.warn("Suspended API key rejected", { tool: name, keyHash });
+      throw AuthenticationError.validationFailed(keyHash, "API key suspended");
+    }
+
+    const resolution = await resolver.resolveTenant(effectiveApiKey);
+    this.authManager.recordAuthentication({
+      success: resolution.success && !!resolution.context,
+      keyHash,
+      usedFallback,
+      rateLimited: false,
+      authTime: Date.now() - startTime,
+      errorMessage: resolution.error,
+    });
+    if (!resolution.success || !resolution.context) {
+      this.logger.warn("Tenant resolution failed", {
+        tool: name,
+        keyHash,
+        errorCode: resolution.errorCode,
+      });
+
+      if (resolution.errorCode === TenantErrorCode.API_KEY_EXPIRED) {
+        throw AuthenticationError.expiredApiKey(keyHash);
+      }
+      throw AuthenticationError.validationFailed(keyHash, resolution.error);
+    }
+
+    // Tenants share the server's upstream Lighthouse account; isolation is
+    // enforced by the tenant guard rather than by separate service instances
+    const context = new RequestContext({
+      apiKey: effectiveApiKey,
+      keyHash,
+      service: this.tenantService,
+      toolName: name,
+      tenantContext: resolution.context,
+    });
+
+    this.logger.info("Tenant authentication successful", {
+      ...context.toLogContext(),
+      userId: resolution.context.user.userId,
+      usedFallback,
+      authTime: Date.now() - startTime,
+    });
+
+    return context;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Logging Middleware - Logs each tool call and its outcome
+ */
+
+import { Logger } from "@lighthouse-tooling/shared";
+import { SecureKeyHandler } from "../auth/SecureKeyHandler.js";
+import { ToolExecutionResult } from "../registry/types.js";
+import { ToolCall, ToolMiddleware } from "./types.js";
+
+export class LoggingMiddleware implements ToolMiddleware {
+  readonly name = "logging";
+  private logger: Logger;
+
+  constructor(logger: Logger) {
+    this.logger = logger;
+  }
+
+  before(call: ToolCall): void {
+    this.logger.debug("Processing tool call", {
+      tool: call.toolName,
+      hasApiKey: !!call.apiKey,
+      argCount: Object.keys(call.args).length,
+    });
+  }
+
+  after(call: ToolCall, result: ToolExecutionResult): void {
+    const totalTime = Date.now() - call.startTime;
+
+    if (!result.success) {
+      this.logger.error("Tool call failed", new Error(result.error || "Tool execution failed"), {
+        ...this.identify(call),
+        totalTime,
+      });
+      return;
+    }
+
+    this.logger.info("Tool call completed", {
+      ...this.identify(call),
+      totalTime,
+    });
+  }
+
+  onError(call: ToolCall, error: Error): void {
+    // Log error without exposing API key
+    this.logger.error("Tool call failed", error, {
+      ...this.identify(call),
+      totalTime: Date.now() - call.startTime,
+    });
+  }
+
+  private identify(call: ToolCall): Record<string, unknown> {
+    if (call.context) {
+      return { ...call.context.toLogContext() };
+    }
+
+    return {
+      tool: call.toolName,
+      sanitizedApiKey: call.apiKey ? SecureKeyHandler.sanitizeForLogs(call.apiKey) : "none",
+    };
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Tenant Guard Middleware - Applies the tenant tool guard to authenticated tenant calls
+ */
+
+import { Logger } from "@lighthouse-tooling/shared";
+import { TenantErrorCode } from "@lighthouse-tooling/types";
+import { PermissionDeniedError } from "../auth/rbac/index.js";
+import { ToolExecutionResult } from "../registry/types.js";
+import { TenantToolGuard } from "../tenancy/TenantToolGuard.js";
+import { ToolCall, ToolMiddleware } from "./types.js";
+
+/**
+ * Checks permissions, isolation and quota before a tenant call and records its usage after.
+ * Calls without a tenant context pass through untouched.
+ */
+export class TenantGuardMiddleware implements ToolMiddleware {
+  readonly name = "tenant-guard";
+  private guard: TenantToolGuard;
+  private logger: Logger;
+
+  constructor(guard: TenantToolGuard, logger: Logger) {
+    this.guard = guard;
+    this.logger = logger;
+  }
+
+  async before(call: ToolCall): Promise<void> {
+    const tenantContext = call.context?.tenantContext;
+    if (!tenantContext) {
+      return;
+    }
+
+    const authorization = await this.guard.authorize(tenantContext, call.toolName, call.args);
+    if (!authorization.allowed) {
+      this.logger.warn("Tenant authorization denied", {
+        ...call.context!.toLogContext(),
+        errorCode: authorization.errorCode,
+        reason: authorization.reason,
+      });
+
+      if (authorization.errorCode === TenantErrorCode.PERMISSION_DENIED) {
+        throw new PermissionDeniedError(
+          authorization.reason || "Permission denied",
+          authorization.missingPermissions || [],
+        );
+      }
+      throw new Error(authorization.reason || "Tenant quota exceeded");
+    }
+
+    // Tenancy tools read the resolved tenant from their arguments
+    call.args = { ...call.args, _tenantContext: tenantContext };
+  }
+
+  async after(call: ToolCall, result: ToolExecutionResult): Promise<void> {
+    const tenantContext = call.context?.tenantContext;
+    if (!tenantContext) {
+      return;
+    }
+
+    await this.guard.recordUsage(tenantContext, call.toolName, result, result.executionTime);
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Tool Pipeline - Runs tool calls through a chain of middleware
+ */
+
+import { Logger } from "@lighthouse-tooling/shared";
+import { ToolExecutionResult } from "../registry/types.js";
+import { ToolCall, ToolCallHandler, ToolMiddleware } from "./types.js";
+
+export class ToolPipeline {
+  private middleware: ToolMiddleware[] = [];
+  private logger: Logger;
+
+  constructor(logger?: Logger) {
+    this.logger = logger || Logger.getInstance({ level: "info", component: "ToolPipeline" });
+  }
+
+  /**
+   * Append a middleware to the chain
+   */
+  use(middleware: ToolMiddleware): this {
+    if (!middleware.name) {
+      throw new Error("Middleware name is required");
+    }
+    if (this.middleware.some((m) => m.name === middleware.name)) {
+      throw new Error(`Middleware already registered: ${middleware.name}`);
+    }
+
+    this.middleware.push(middleware);
+    this.logger.debug("Middleware registered", { name: middleware.name });
+    return this;
+  }
+
+  /**
+   * Remove a middleware from the chain
+   */
+  remove(name: string): boolean {
+    const index = this.middleware.findIndex((m) => m.name === name);
+    if (index === -1) {
+      return false;
+    }
+
+    this.middleware.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Names of the registered middleware, outermost first
+   */
+  list(): string[] {
+    return this.middleware.map((m) => m.name);
+  }
+
+  /**
+   * Run a call through the chain, executing it with the handler unless a before hook
+   * answers it first
+   */
+  async execute(call: ToolCall, handler: ToolCallHandler): Promise<ToolExecutionResult> {
+    // Snapshot so middleware added mid-call does not see half a call
+    const chain = [...this.middleware];
+    const entered: ToolMiddleware[] = [];
+
+    try {
+      let result: ToolExecutionResult | undefined;
+
+      for (const middleware of chain) {
+        entered.push(middleware);
+        const shortCircuit = await middleware.before?.(call);
+        if (shortCircuit) {
+          result = shortCircuit;
+          break;
+        }
+      }
+
+      if (!result) {
+        result = await handler(call);
+      }
+
+      for (const middleware of [...entered].reverse()) {
+        result = (await middleware.after?.(call, result)) || result;
+      }
+
+      return result;
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+
+      for (const middleware of [...entered].reverse()) {
+        try {
+          await middleware.onError?.(call, err);
+        } catch (hookError) {
+          this.logger.warn("Middleware error hook failed", {
+            middleware: middleware.name,
+            tool: call.toolName,
+            error: (hookError as Error).message,
+          });
+        }
+      }
+
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Usage Anomaly Middleware - Feeds completed tool calls into per-key usage baselines
+ */
+
+import { Logger } from "@lighthouse-tooling/shared";
+import { AuthManager } from "../auth/AuthManager.js";
+import { ToolExecutionResult } from "../registry/types.js";
+import { ApiKeyManager } from "../tenancy/ApiKeyManager.js";
+import { DOWNLOAD_TOOLS, getTransferredBytes } from "../tenancy/TenantToolGuard.js";
+import { ToolCall, ToolMiddleware } from "./types.js";
+
+/**
+ * Usage Anomaly Middleware Options
+ */
+export interface UsageAnomalyMiddlewareOptions {
+  authManager: AuthManager;
+  logger: Logger;
+  /** Suspends tenant keys in the tenant store when multi-tenancy is enabled */
+  apiKeyManager?: ApiKeyManager | null;
+}
+
+/**
+ * Records each authenticated call's tool, bytes transferred and encrypted downloads against
+ * its key. Anomalies become security events; a key the auth manager suspends is also
+ * suspended in the tenant store, so the suspension survives restarts.
+ */
+export class UsageAnomalyMiddleware implements ToolMiddleware {
+  readonly name = "usage-anomaly";
+  private authManager: AuthManager;
+  private logger: Logger;
+  private apiKeyManager: ApiKeyManager | null;
+
+  constructor(options: UsageAnomalyMiddlewareOptions) {
+    this.authManager = options.authManager;
+    this.logger = options.logger;
+    this.apiKeyManager = options.apiKeyManager ?? null;
+  }
+
+  async after(call: ToolCall, result: ToolExecutionResult): Promise<void> {
+    const context = call.context;
+    if (!context) {
+      return;
+    }
+
+    const { anomalies, suspended } = this.authManager.recordToolUsage(context.apiKey, {
+      toolName: call.toolName,
+      bytes: result.success ? getTransferredBytes(result.data) : 0,
+      encryptedDownload:
+        result.success && DOWNLOAD_TOOLS.has(call.toolName) && call.args.decrypt === true,
+    });
+
+    if (anomalies.length > 0) {
+      this.logger.warn("Anomalous API key usage", {
+        ...context.toLogContext(),
+        anomalies: anomalies.map((anomaly) => anomaly.type),
+        suspended,
+      });
+    }
+
+    const tenantKey = context.tenantContext?.apiKey;
+    if (suspended && tenantKey && this.apiKeyManager) {
+      try {
+        await this.apiKeyManager.suspendKey(
+          tenantKey.organizationId,
+          tenantKey.id,
+          anomalies.map((anomaly) => anomaly.description).join("; "),
+        );
+      } catch (error) {
+        // The auth manager already rejects the key; the call itself has completed
+        this.logger.error("Failed to suspend tenant API key", error as Error, {
+          ...context.toLogContext(),
+        });
+      }
+    }
+  }
+}
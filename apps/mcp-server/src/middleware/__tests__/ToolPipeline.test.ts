@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Logger } from "@lighthouse-tooling/shared";
+import { ToolPipeline } from "../ToolPipeline.js";
+import { ToolCall, ToolMiddleware } from "../types.js";
+import { ToolExecutionResult } from "../../registry/types.js";
+
+describe("ToolPipeline", () => {
+  let pipeline: ToolPipeline;
+  let events: string[];
+
+  const createCall = (args: Record<string, unknown> = {}): ToolCall => ({
+    toolName: "test_tool",
+    args,
+    startTime: Date.now(),
+    state: new Map(),
+  });
+
+  const handler = async (call: ToolCall): Promise<ToolExecutionResult> => {
+    events.push("handler");
+    return { success: true, data: { args: call.args }, executionTime: 1 };
+  };
+
+  const recorder = (name: string, hooks: Partial<ToolMiddleware> = {}): ToolMiddleware => ({
+    name,
+    before: (call) => {
+      events.push(`${name}:before`);
+      return hooks.before?.(call);
+    },
+    after: (call, result) => {
+      events.push(`${name}:after`);
+      return hooks.after?.(call, result);
+    },
+    onError: (call, error) => {
+      events.push(`${name}:error`);
+      return hooks.onError?.(call, error);
+    },
+  });
+
+  beforeEach(() => {
+    pipeline = new ToolPipeline(Logger.getInstance({ level: "error", component: "test" }));
+    events = [];
+  });
+
+  it("should run before hooks in order and after hooks in reverse", async () => {
+    pipeline.use(recorder("outer")).use(recorder("inner"));
+
+    const result = await pipeline.execute(createCall(), handler);
+
+    expect(result.success).toBe(true);
+    expect(events).toEqual([
+      "outer:before",
+      "inner:before",
+      "handler",
+      "inner:after",
+      "outer:after",
+    ]);
+  });
+
+  it("should let before hooks rewrite arguments and after hooks replace the result", async () => {
+    pipeline.use(
+      recorder("redact", {
+        before: (call) => {
+          call.args = { ...call.args, secret: "[redacted]" };
+        },
+        after: (_call, result) => ({ ...result, data: { wrapped: result.data } }),
+      }),
+    );
+
+    const result = await pipeline.execute(createCall({ secret: "hunter2" }), handler);
+
+    expect(result.data).toEqual({ wrapped: { args: { secret: "[redacted]" } } });
+  });
+
+  it("should answer the call without executing the tool when a before hook returns a result", async () => {
+    const cached: ToolExecutionResult = { success: true, data: "cached", executionTime: 0 };
+    pipeline
+      .use(recorder("outer"))
+      .use(recorder("cache", { before: () => cached }))
+      .use(recorder("inner"));
+
+    const result = await pipeline.execute(createCall(), handler);
+
+    expect(result).toBe(cached);
+    expect(events).toEqual(["outer:before", "cache:before", "cache:after", "outer:after"]);
+  });
+
+  it("should pass failed results through after hooks rather than error hooks", async () => {
+    pipeline.use(recorder("outer"));
+
+    const result = await pipeline.execute(createCall(), async () => ({
+      success: false,
+      error: "Tool not found: test_tool",
+      executionTime: 0,
+    }));
+
+    expect(result.success).toBe(false);
+    expect(events).toEqual(["outer:before", "outer:after"]);
+  });
+
+  it("should notify entered middleware of errors and re-throw them", async () => {
+    const seen: Error[] = [];
+    pipeline
+      .use(recorder("outer", { onError: (_call, error) => void seen.push(error) }))
+      .use(
+        recorder("policy", {
+          before: () => {
+            throw new Error("Denied by policy");
+          },
+        }),
+      )
+      .use(recorder("inner"));
+
+    await expect(pipeline.execute(createCall(), handler)).rejects.toThrow("Denied by policy");
+    expect(events).toEqual(["outer:before", "policy:before", "policy:error", "outer:error"]);
+    expect(seen[0]?.message).toBe("Denied by policy");
+  });
+
+  it("should keep notifying error hooks when one of them throws", async () => {
+    pipeline.use(recorder("outer")).use(
+      recorder("broken", {
+        onError: () => {
+          throw new Error("hook failure");
+        },
+      }),
+    );
+
+    await expect(
+      pipeline.execute(createCall(), async () => {
+        throw new Error("Tool crashed");
+      }),
+    ).rejects.toThrow("Tool crashed");
+    expect(events).toContain("outer:error");
+  });
+
+  it("should reject duplicate names and support removal", () => {
+    pipeline.use(recorder("audit"));
+
+    expect(() => pipeline.use(recorder("audit"))).toThrow("Middleware already registered: audit");
+    expect(pipeline.remove("audit")).toBe(true);
+    expect(pipeline.remove("audit")).toBe(false);
+    expect(pipeline.list()).toEqual([]);
+  });
+});
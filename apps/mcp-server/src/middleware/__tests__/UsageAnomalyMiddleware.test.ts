@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { Logger } from "@lighthouse-tooling/shared";
+import { TenantContext } from "@lighthouse-tooling/types";
+import { UsageAnomalyMiddleware } from "../UsageAnomalyMiddleware.js";
+import { ToolCall } from "../types.js";
+import { AuthManager } from "../../auth/AuthManager.js";
+import { RequestContext } from "../../auth/RequestContext.js";
+import { SecureKeyHandler } from "../../auth/SecureKeyHandler.js";
+import { DEFAULT_ANOMALY_DETECTION_CONFIG } from "../../auth/AnomalyDetector.js";
+import { ApiKeyManager } from "../../tenancy/ApiKeyManager.js";
+import { ILighthouseService } from "../../services/ILighthouseService.js";
+
+describe("UsageAnomalyMiddleware", () => {
+  const apiKey = "test-api-key-12345";
+  const logger = Logger.getInstance({ level: "error", component: "test" });
+  let authManager: AuthManager;
+  let suspendKey: ReturnType<typeof vi.fn>;
+  let middleware: UsageAnomalyMiddleware;
+
+  const createCall = (tenantContext?: TenantContext): ToolCall => ({
+    toolName: "lighthouse_fetch_file",
+    args: { cid: "QmTest", decrypt: true },
+    startTime: Date.now(),
+    state: new Map(),
+    context: new RequestContext({
+      apiKey,
+      keyHash: SecureKeyHandler.hashKey(apiKey),
+      service: {} as ILighthouseService,
+      toolName: "lighthouse_fetch_file",
+      tenantContext,
+    }),
+  });
+
+  const download = (call: ToolCall) =>
+    middleware.after(call, { success: true, data: { size: 1024 }, executionTime: 1 });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(Date.UTC(2026, 0, 5, 9));
+
+    authManager = new AuthManager({
+      enablePerRequestAuth: true,
+      requireAuthentication: true,
+      keyValidationCache: { enabled: true, maxSize: 10, ttlSeconds: 60, cleanupIntervalSeconds: 0 },
+      rateLimiting: {
+        enabled: false,
+        requestsPerMinute: 60,
+        burstLimit: 10,
+        keyBasedLimiting: true,
+      },
+      anomalyDetection: {
+        ...DEFAULT_ANOMALY_DETECTION_CONFIG,
+        learningPeriodHours: 1,
+        minEncryptedDownloadsPerHour: 3,
+        autoSuspend: true,
+      },
+    });
+    suspendKey = vi.fn().mockResolvedValue(undefined);
+    middleware = new UsageAnomalyMiddleware({
+      authManager,
+      logger,
+      apiKeyManager: { suspendKey } as unknown as ApiKeyManager,
+    });
+  });
+
+  afterEach(() => {
+    authManager.destroy();
+    vi.useRealTimers();
+  });
+
+  it("should suspend the tenant key after an encrypted bulk download", async () => {
+    const tenantContext = {
+      organization: { id: "org_1" },
+      apiKey: { id: "key_1", organizationId: "org_1" },
+    } as unknown as TenantContext;
+
+    await download(createCall(tenantContext));
+    vi.advanceTimersByTime(60 * 60 * 1000);
+    for (let i = 0; i < 6; i++) {
+      await download(createCall(tenantContext));
+    }
+
+    expect(authManager.isKeySuspended(apiKey)).toBe(true);
+    expect(suspendKey).toHaveBeenCalledTimes(1);
+    expect(suspendKey).toHaveBeenCalledWith(
+      "org_1",
+      "key_1",
+      expect.stringContaining("encrypted downloads"),
+    );
+  });
+
+  it("should leave keys whose usage matches the baseline active", async () => {
+    await download(createCall());
+    vi.advanceTimersByTime(60 * 60 * 1000);
+    await download(createCall());
+
+    expect(authManager.isKeySuspended(apiKey)).toBe(false);
+    expect(suspendKey).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,21 @@
+/**
+ * Tool Middleware Module Exports
+ */
+
+export { ToolPipeline } from "./ToolPipeline.js";
+
+export {
+  AuthenticationMiddleware,
+  type AuthenticationMiddlewareOptions,
+} from "./AuthenticationMiddleware.js";
+
+export { LoggingMiddleware } from "./LoggingMiddleware.js";
+
+export { TenantGuardMiddleware } from "./TenantGuardMiddleware.js";
+
+export {
+  UsageAnomalyMiddleware,
+  type UsageAnomalyMiddlewareOptions,
+} from "./UsageAnomalyMiddleware.js";
+
+export type { ToolCall, ToolCallHandler, ToolMiddleware } from "./types.js";
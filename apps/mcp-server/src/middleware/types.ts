@@ -0,0 +1,57 @@
+/**
+ * Tool middleware types
+ */
+
+import { RequestContext } from "../auth/RequestContext.js";
+import { ToolExecutionResult } from "../registry/types.js";
+
+/**
+ * A tool call as it passes through the middleware pipeline
+ */
+export interface ToolCall {
+  /** Name of the tool being called */
+  readonly toolName: string;
+  /** Tool arguments; middleware may rewrite them before the tool executes */
+  args: Record<string, unknown>;
+  /** API key presented with the call: transport credentials, else the apiKey argument */
+  readonly apiKey?: string;
+  /** Request context, set once the call is authenticated */
+  context?: RequestContext;
+  /** When the call entered the pipeline */
+  readonly startTime: number;
+  /** Per-call state shared between the hooks of one or more middleware */
+  readonly state: Map<string, unknown>;
+}
+
+/**
+ * Executes a tool call once every before hook has passed
+ */
+export type ToolCallHandler = (call: ToolCall) => Promise<ToolExecutionResult>;
+
+/**
+ * Hooks run around tool execution.
+ *
+ * `before` hooks run in registration order and `after`/`onError` hooks in reverse order, so the
+ * first middleware registered wraps all the others. A tool that ran but failed is a result, not
+ * an error: it goes through `after` with `success: false`. `onError` sees thrown errors only.
+ */
+export interface ToolMiddleware {
+  /** Unique name of the middleware */
+  readonly name: string;
+  /**
+   * Called before the tool executes. Throw to reject the call, or return a result to
+   * answer it without executing the tool (remaining before hooks are skipped).
+   */
+  before?(call: ToolCall): Promise<ToolExecutionResult | void> | ToolExecutionResult | void;
+  /**
+   * Called with the result of the call. Return a result to replace it.
+   */
+  after?(
+    call: ToolCall,
+    result: ToolExecutionResult,
+  ): Promise<ToolExecutionResult | void> | ToolExecutionResult | void;
+  /**
+   * Called when a hook or the tool throws. The error is re-thrown once every hook has seen it.
+   */
+  onError?(call: ToolCall, error: Error): Promise<void> | void;
+}
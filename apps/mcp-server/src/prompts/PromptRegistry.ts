@@ -0,0 +1,90 @@
+/**
+ * Prompt Registry - Manages workflow prompt templates
+ */
+
+import { Logger } from "@lighthouse-tooling/shared";
+import { ToolRegistry } from "../registry/ToolRegistry.js";
+import { PromptDefinition, PromptResult, PromptTemplate } from "./types.js";
+
+export class PromptRegistry {
+  private prompts: Map<string, PromptTemplate> = new Map();
+  private toolRegistry: ToolRegistry;
+  private logger: Logger;
+
+  constructor(toolRegistry: ToolRegistry, logger?: Logger) {
+    this.toolRegistry = toolRegistry;
+    this.logger = logger || Logger.getInstance({ level: "info", component: "PromptRegistry" });
+  }
+
+  /**
+   * Register a prompt template
+   */
+  register(prompt: PromptTemplate): void {
+    if (this.prompts.has(prompt.name)) {
+      throw new Error(`Prompt already registered: ${prompt.name}`);
+    }
+
+    this.prompts.set(prompt.name, prompt);
+    this.logger.info(`Prompt registered: ${prompt.name}`, { tools: prompt.tools });
+  }
+
+  /**
+   * List prompts whose tools are all registered
+   */
+  listPrompts(): PromptDefinition[] {
+    return Array.from(this.prompts.values())
+      .filter((prompt) => this.getMissingTools(prompt).length === 0)
+      .map(({ name, description, arguments: args }) => ({ name, description, arguments: args }));
+  }
+
+  /**
+   * Render a prompt with the given arguments
+   */
+  getPrompt(name: string, args: Record<string, string> = {}): PromptResult {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new Error(`Prompt not found: ${name}`);
+    }
+
+    const missingTools = this.getMissingTools(prompt);
+    if (missingTools.length > 0) {
+      throw new Error(
+        `Prompt ${name} is unavailable: required tools not found (${missingTools.join(", ")})`,
+      );
+    }
+
+    const missingArgs = prompt.arguments
+      .filter((arg) => arg.required && !args[arg.name])
+      .map((arg) => arg.name);
+    if (missingArgs.length > 0) {
+      throw new Error(`Invalid prompt arguments: missing ${missingArgs.join(", ")}`);
+    }
+
+    const toolList = prompt.tools
+      .map((toolName) => {
+        const tool = this.toolRegistry.getTool(toolName)!;
+        return `- ${toolName}: ${tool.definition.description}`;
+      })
+      .join("\n");
+
+    return {
+      description: prompt.description,
+      messages: [
+        {
+          role: "user",
+          content: {
+            type: "text",
+            text: `${prompt.render(args)}\n\nTools for this workflow:\n${toolList}`,
+          },
+        },
+      ],
+    };
+  }
+
+  /**
+   * Tools a prompt references that are not in the tool registry
+   */
+  private getMissingTools(prompt: PromptTemplate): string[] {
+    return prompt.tools.filter((toolName) => !this.toolRegistry.hasTool(toolName));
+  }
+}
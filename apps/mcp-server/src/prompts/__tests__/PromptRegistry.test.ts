@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { ExecutionTimeCategory } from "@lighthouse-tooling/types";
+import { Logger } from "@lighthouse-tooling/shared";
+import { PromptRegistry } from "../PromptRegistry.js";
+import { ToolRegistry } from "../../registry/ToolRegistry.js";
+import { LIGHTHOUSE_PROMPTS, TOKEN_GATED_SHARE_PROMPT } from "../templates.js";
+
+describe("PromptRegistry", () => {
+  let toolRegistry: ToolRegistry;
+  let promptRegistry: PromptRegistry;
+
+  const registerTool = (name: string) => {
+    toolRegistry.register(
+      {
+        name,
+        description: `${name} description`,
+        inputSchema: { type: "object", properties: {} },
+        executionTime: ExecutionTimeCategory.FAST,
+      },
+      async () => ({ success: true, executionTime: 0 }),
+    );
+  };
+
+  beforeEach(() => {
+    const logger = Logger.getInstance({ level: "error", component: "PromptRegistryTest" });
+    toolRegistry = new ToolRegistry(logger);
+    promptRegistry = new PromptRegistry(toolRegistry, logger);
+    for (const prompt of LIGHTHOUSE_PROMPTS) {
+      promptRegistry.register(prompt);
+    }
+  });
+
+  it("should only list prompts whose tools are registered", () => {
+    expect(promptRegistry.listPrompts()).toEqual([]);
+
+    TOKEN_GATED_SHARE_PROMPT.tools.forEach(registerTool);
+
+    const prompts = promptRegistry.listPrompts();
+    expect(prompts.map((p) => p.name)).toEqual(["lighthouse_token_gated_share"]);
+    expect(prompts[0]).not.toHaveProperty("render");
+    expect(prompts[0]).not.toHaveProperty("tools");
+  });
+
+  it("should reference every template tool by its registered name", () => {
+    for (const prompt of LIGHTHOUSE_PROMPTS) {
+      prompt.tools.forEach((name) => {
+        if (!toolRegistry.hasTool(name)) registerTool(name);
+      });
+    }
+
+    for (const prompt of LIGHTHOUSE_PROMPTS) {
+      const args = Object.fromEntries(prompt.arguments.map((arg) => [arg.name, "value"]));
+      const text = promptRegistry.getPrompt(prompt.name, args).messages[0]!.content.text;
+
+      for (const toolName of prompt.tools) {
+        expect(text).toContain(`- ${toolName}: ${toolName} description`);
+      }
+    }
+  });
+
+  it("should render arguments and defaults into the workflow", () => {
+    TOKEN_GATED_SHARE_PROMPT.tools.forEach(registerTool);
+
+    const result = promptRegistry.getPrompt("lighthouse_token_gated_share", {
+      file: "./report.pdf",
+      ownerAddress: "0xowner",
+      contractAddress: "0xtoken",
+    });
+
+    expect(result.description).toBe(TOKEN_GATED_SHARE_PROMPT.description);
+    expect(result.messages[0]!.role).toBe("user");
+    expect(result.messages[0]!.content.text).toContain('contractAddress: "0xtoken"');
+    expect(result.messages[0]!.content.text).toContain('chain: "ethereum"');
+  });
+
+  it("should reject missing required arguments", () => {
+    TOKEN_GATED_SHARE_PROMPT.tools.forEach(registerTool);
+
+    expect(() =>
+      promptRegistry.getPrompt("lighthouse_token_gated_share", { file: "./report.pdf" }),
+    ).toThrow("Invalid prompt arguments: missing ownerAddress, contractAddress");
+  });
+
+  it("should reject unknown and unavailable prompts", () => {
+    expect(() => promptRegistry.getPrompt("missing_prompt")).toThrow("Prompt not found");
+    expect(() => promptRegistry.getPrompt("lighthouse_quota_audit")).toThrow(
+      "required tools not found (lighthouse-view-quota, lighthouse_list_datasets)",
+    );
+  });
+
+  it("should reject duplicate registrations", () => {
+    expect(() => promptRegistry.register(TOKEN_GATED_SHARE_PROMPT)).toThrow(
+      "Prompt already registered",
+    );
+  });
+});
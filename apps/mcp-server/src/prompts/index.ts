@@ -0,0 +1,18 @@
+/**
+ * Prompt exports
+ */
+
+export { PromptRegistry } from "./PromptRegistry.js";
+export {
+  LIGHTHOUSE_PROMPTS,
+  ENCRYPTED_DATASET_UPLOAD_PROMPT,
+  TOKEN_GATED_SHARE_PROMPT,
+  QUOTA_AUDIT_PROMPT,
+} from "./templates.js";
+export type {
+  PromptArgument,
+  PromptDefinition,
+  PromptTemplate,
+  PromptMessage,
+  PromptResult,
+} from "./types.js";
@@ -0,0 +1,106 @@
+/**
+ * Curated Lighthouse workflow prompts
+ */
+
+import { PromptTemplate } from "./types.js";
+
+/**
+ * Encrypt a local directory and store it as a dataset
+ */
+export const ENCRYPTED_DATASET_UPLOAD_PROMPT: PromptTemplate = {
+  name: "lighthouse_encrypted_dataset_upload",
+  description: "Encrypt and upload a local directory as a Lighthouse dataset",
+  arguments: [
+    { name: "directory", description: "Local directory to upload", required: true },
+    { name: "datasetName", description: "Name for the new dataset", required: true },
+    { name: "description", description: "Optional dataset description" },
+  ],
+  tools: ["lighthouse_create_dataset", "lighthouse_get_dataset"],
+  render: (args) =>
+    [
+      `Upload the directory "${args.directory}" to Lighthouse as an encrypted dataset named "${args.datasetName}".`,
+      "",
+      "Steps:",
+      `1. List every regular file under "${args.directory}" (recursively) and collect their absolute paths.`,
+      `2. Call lighthouse_create_dataset with name "${args.datasetName}", the collected filePaths and encrypt: true` +
+        (args.description ? `, using the description "${args.description}".` : "."),
+      "3. Call lighthouse_get_dataset with the returned dataset ID and confirm every file is listed with a CID.",
+      "4. Report the dataset ID, file count, total size and any files that failed to upload.",
+    ].join("\n"),
+};
+
+/**
+ * Share an encrypted file with a wallet through token-gated access control
+ */
+export const TOKEN_GATED_SHARE_PROMPT: PromptTemplate = {
+  name: "lighthouse_token_gated_share",
+  description: "Share a file with a wallet under token-gated access control",
+  arguments: [
+    {
+      name: "file",
+      description: "Local file path to upload, or the CID of an already encrypted upload",
+      required: true,
+    },
+    { name: "ownerAddress", description: "Wallet address of the file owner", required: true },
+    { name: "contractAddress", description: "Token contract that gates access", required: true },
+    { name: "chain", description: "Blockchain network of the token (default: ethereum)" },
+    {
+      name: "minBalance",
+      description: "Minimum token balance required to decrypt (default: 1)",
+    },
+  ],
+  tools: ["lighthouse_upload_file", "lighthouse_generate_key", "lighthouse_setup_access_control"],
+  render: (args) => {
+    const chain = args.chain || "ethereum";
+    const minBalance = args.minBalance || "1";
+
+    return [
+      `Share "${args.file}" so that only holders of at least ${minBalance} token(s) of contract ${args.contractAddress} on ${chain} can decrypt it.`,
+      "",
+      "Steps:",
+      `1. If "${args.file}" is a local path, call lighthouse_upload_file with encrypt: true and use the returned CID. Otherwise treat it as the CID.`,
+      "2. Call lighthouse_generate_key to create the key shards for the file.",
+      `3. Call lighthouse_setup_access_control with address "${args.ownerAddress}", the CID, the key shards, chainType "evm" and one condition:`,
+      `   { id: 1, chain: "${chain}", method: "balanceOf", standardContractType: "ERC20", contractAddress: "${args.contractAddress}", returnValueTest: { comparator: ">=", value: "${minBalance}" }, parameters: [":userAddress"] }`,
+      "4. Report the CID and the access condition that was applied.",
+    ].join("\n");
+  },
+};
+
+/**
+ * Review quota consumption for an organization or team
+ */
+export const QUOTA_AUDIT_PROMPT: PromptTemplate = {
+  name: "lighthouse_quota_audit",
+  description: "Audit storage, request and bandwidth quota usage",
+  arguments: [
+    { name: "organizationId", description: "Organization to audit", required: true },
+    { name: "teamId", description: "Optional team to audit instead of the whole organization" },
+  ],
+  tools: ["lighthouse-view-quota", "lighthouse_list_datasets"],
+  render: (args) => {
+    const scope = args.teamId
+      ? `team "${args.teamId}" in organization "${args.organizationId}"`
+      : `organization "${args.organizationId}"`;
+
+    return [
+      `Audit quota usage for ${scope}.`,
+      "",
+      "Steps:",
+      `1. Call lighthouse-view-quota with organizationId "${args.organizationId}"` +
+        (args.teamId ? ` and teamId "${args.teamId}".` : "."),
+      "2. Call lighthouse_list_datasets and identify the largest datasets by total size.",
+      "3. Flag any quota above 80% utilization and how long until it resets.",
+      "4. Recommend datasets or files that could be removed to free storage.",
+    ].join("\n");
+  },
+};
+
+/**
+ * All built-in workflow prompts
+ */
+export const LIGHTHOUSE_PROMPTS: PromptTemplate[] = [
+  ENCRYPTED_DATASET_UPLOAD_PROMPT,
+  TOKEN_GATED_SHARE_PROMPT,
+  QUOTA_AUDIT_PROMPT,
+];
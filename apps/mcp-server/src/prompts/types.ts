@@ -0,0 +1,50 @@
+/**
+ * Prompt Registry specific types
+ */
+
+/**
+ * Argument accepted by a prompt template
+ */
+export interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+/**
+ * Prompt as advertised by prompts/list
+ */
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+}
+
+/**
+ * Parameterized workflow prompt backed by registered tools
+ */
+export interface PromptTemplate extends PromptDefinition {
+  /** Names of the registered tools the workflow calls */
+  tools: string[];
+  /** Render the workflow instructions for the given arguments */
+  render(args: Record<string, string>): string;
+}
+
+/**
+ * Message returned by prompts/get
+ */
+export interface PromptMessage {
+  role: "user" | "assistant";
+  content: {
+    type: "text";
+    text: string;
+  };
+}
+
+/**
+ * Result of rendering a prompt
+ */
+export interface PromptResult {
+  description: string;
+  messages: PromptMessage[];
+}
@@ -2,22 +2,58 @@
  * Tool Registry - Manages registration and discovery of MCP tools
  */
 
-import { MCPToolDefinition } from "@lighthouse-tooling/types";
-import { Logger } from "@lighthouse-tooling/shared";
+import crypto from "crypto";
+import { MCPErrorCode, MCPToolDefinition } from "@lighthouse-tooling/types";
+import { Logger, SpanStatusCode, Tracer } from "@lighthouse-tooling/shared";
 import {
   RegisteredTool,
   ToolExecutor,
   ToolFilter,
   RegistryMetrics,
+  ToolMetrics,
   ToolRegistrationOptions,
   ToolExecutionResult,
+  IdempotencyOptions,
 } from "./types.js";
 import { RequestContext } from "../auth/RequestContext.js";
+import { RequestValidator } from "../utils/request-validator.js";
+import { IStorageService } from "../storage/InMemoryStorageService.js";
+import { createInMemoryStorageService } from "../storage/StorageFactory.js";
+
+/**
+ * Arguments injected by the server rather than sent by the client, exempt from schema validation
+ */
+const INTERNAL_ARGUMENTS = new Set(["_tenantContext"]);
+
+/**
+ * Argument through which mutating tools accept an idempotency key
+ */
+const IDEMPOTENCY_KEY_ARGUMENT = "idempotencyKey";
+
+/**
+ * Idempotency scope of calls made without a request context
+ */
+const LOCAL_SCOPE = "local";
+
+/**
+ * Default idempotency window (24 hours)
+ */
+const DEFAULT_IDEMPOTENCY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Upper bounds of the execution time histogram buckets, in milliseconds
+ */
+const LATENCY_BUCKET_BOUNDS_MS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000];
 
 export class ToolRegistry {
   private tools: Map<string, RegisteredTool> = new Map();
   private logger: Logger;
   private registrationStartTime: number;
+  private idempotencyStorage: IStorageService | null = null;
+  private idempotencyWindowMs = DEFAULT_IDEMPOTENCY_WINDOW_MS;
+  /** Keyed calls still executing, so a retry waits for the original instead of repeating it */
+  private inFlightKeys: Map<string, { argsHash: string; result: Promise<ToolExecutionResult> }> =
+    new Map();
 
   constructor(logger?: Logger) {
     this.logger = logger || Logger.getInstance({ level: "info", component: "ToolRegistry" });
@@ -48,11 +84,19 @@ export class ToolRegistry {
 
       // Register the tool
       const registeredTool: RegisteredTool = {
-        definition: tool,
+        definition: tool.mutating ? this.withIdempotencyKey(tool) : tool,
         executor,
         registeredAt: new Date(),
         callCount: 0,
+        errorCount: 0,
         averageExecutionTime: 0,
+        latency: {
+          bucketBounds: LATENCY_BUCKET_BOUNDS_MS,
+          bucketCounts: new Array(LATENCY_BUCKET_BOUNDS_MS.length + 1).fill(0),
+          sum: 0,
+          count: 0,
+        },
+        validateSchema: options.validateSchema ?? true,
       };
 
       this.tools.set(tool.name, registeredTool);
@@ -166,19 +210,35 @@ export class ToolRegistry {
       };
     }
 
+    const invalid = this.validateArguments(tool, args, startTime);
+    if (invalid) {
+      return invalid;
+    }
+
+    return this.traceExecution(tool, () =>
+      this.withIdempotency(tool, args, LOCAL_SCOPE, startTime, (toolArgs) =>
+        this.runTool(tool, toolArgs, startTime),
+      ),
+    );
+  }
+
+  /**
+   * Run a tool's executor and update its metrics
+   */
+  private async runTool(
+    tool: RegisteredTool,
+    args: Record<string, unknown>,
+    startTime: number,
+  ): Promise<ToolExecutionResult> {
+    const name = tool.definition.name;
+
     try {
       this.logger.debug(`Executing tool: ${name}`, { args });
 
       const result = await tool.executor(args);
 
-      // Update tool metrics
-      tool.callCount++;
-      tool.lastCalled = new Date();
       const executionTime = Date.now() - startTime;
-
-      // Update average execution time
-      tool.averageExecutionTime =
-        (tool.averageExecutionTime * (tool.callCount - 1) + executionTime) / tool.callCount;
+      this.recordExecution(tool, executionTime, result.success);
 
       this.logger.info(`Tool executed successfully: ${name}`, {
         executionTime,
@@ -191,6 +251,7 @@ export class ToolRegistry {
       };
     } catch (error) {
       const executionTime = Date.now() - startTime;
+      this.recordExecution(tool, executionTime, false);
       this.logger.error(`Tool execution failed: ${name}`, error as Error);
 
       return {
@@ -220,6 +281,29 @@ export class ToolRegistry {
       };
     }
 
+    const invalid = this.validateArguments(tool, args, startTime);
+    if (invalid) {
+      return invalid;
+    }
+
+    return this.traceExecution(tool, () =>
+      this.withIdempotency(tool, args, context.keyHash, startTime, (toolArgs) =>
+        this.runToolWithContext(tool, toolArgs, context, startTime),
+      ),
+    );
+  }
+
+  /**
+   * Run a tool with the context's service and update its metrics
+   */
+  private async runToolWithContext(
+    tool: RegisteredTool,
+    args: Record<string, unknown>,
+    context: RequestContext,
+    startTime: number,
+  ): Promise<ToolExecutionResult> {
+    const name = tool.definition.name;
+
     try {
       this.logger.debug(`Executing tool with context: ${name}`, {
         ...context.toLogContext(),
@@ -230,14 +314,8 @@ export class ToolRegistry {
       // This requires updating the tool registration to support context-aware executors
       const result = await this.executeToolWithService(name, args, context);
 
-      // Update tool metrics
-      tool.callCount++;
-      tool.lastCalled = new Date();
       const executionTime = Date.now() - startTime;
-
-      // Update average execution time
-      tool.averageExecutionTime =
-        (tool.averageExecutionTime * (tool.callCount - 1) + executionTime) / tool.callCount;
+      this.recordExecution(tool, executionTime, result.success);
 
       this.logger.info(`Tool executed successfully with context: ${name}`, {
         ...context.toLogContext(),
@@ -251,6 +329,7 @@ export class ToolRegistry {
       };
     } catch (error) {
       const executionTime = Date.now() - startTime;
+      this.recordExecution(tool, executionTime, false);
       this.logger.error(`Tool execution failed with context: ${name}`, error as Error, {
         ...context.toLogContext(),
       });
@@ -263,6 +342,264 @@ export class ToolRegistry {
     }
   }
 
+  /**
+   * Update a tool's call count, error count and execution time statistics
+   */
+  private recordExecution(tool: RegisteredTool, executionTime: number, success: boolean): void {
+    tool.callCount++;
+    tool.lastCalled = new Date();
+    if (!success) {
+      tool.errorCount++;
+    }
+
+    // Update average execution time
+    tool.averageExecutionTime =
+      (tool.averageExecutionTime * (tool.callCount - 1) + executionTime) / tool.callCount;
+
+    const { latency } = tool;
+    const bucket = latency.bucketBounds.findIndex((bound) => executionTime <= bound);
+    latency.bucketCounts[bucket === -1 ? latency.bucketBounds.length : bucket]!++;
+    latency.sum += executionTime;
+    latency.count++;
+  }
+
+  /**
+   * Set where idempotency records are kept and for how long. Until storage is configured,
+   * records are kept in memory.
+   */
+  configureIdempotency(options: IdempotencyOptions): void {
+    if (options.storage) {
+      this.idempotencyStorage = options.storage;
+    }
+    if (options.windowMs !== undefined) {
+      this.idempotencyWindowMs = options.windowMs;
+    }
+  }
+
+  /**
+   * Run a validated call inside a span, so the SDK work it triggers nests under the tool
+   */
+  private traceExecution(
+    tool: RegisteredTool,
+    execute: () => Promise<ToolExecutionResult>,
+  ): Promise<ToolExecutionResult> {
+    const name = tool.definition.name;
+
+    return Tracer.getInstance().startActiveSpan(
+      `tool ${name}`,
+      { attributes: { "mcp.tool.name": name } },
+      async (span) => {
+        const result = await execute();
+        span.setAttributes({
+          "mcp.tool.success": result.success,
+          "mcp.tool.execution_time_ms": result.executionTime,
+          "mcp.tool.replayed": result.replayed === true,
+        });
+        if (!result.success) {
+          span.setStatus({ code: SpanStatusCode.ERROR, message: result.error });
+        }
+        return result;
+      },
+    );
+  }
+
+  /**
+   * Run a call, honouring its idempotency key if the tool is mutating. A retry with the same
+   * key and arguments returns the original result; reusing the key with different arguments
+   * fails with INVALID_PARAMS. Only successful results are remembered, so a failed call can
+   * be retried with the same key. Results of tools that return secrets are stored without
+   * their data, and a retry fails with OPERATION_FAILED instead of repeating the secret.
+   */
+  private async withIdempotency(
+    tool: RegisteredTool,
+    args: Record<string, unknown>,
+    scope: string,
+    startTime: number,
+    run: (args: Record<string, unknown>) => Promise<ToolExecutionResult>,
+  ): Promise<ToolExecutionResult> {
+    if (!tool.definition.mutating) {
+      return run(args);
+    }
+
+    const { [IDEMPOTENCY_KEY_ARGUMENT]: key, ...toolArgs } = args;
+    if (typeof key !== "string") {
+      return run(toolArgs);
+    }
+
+    const name = tool.definition.name;
+    const argsHash = this.hashArguments(name, toolArgs);
+    const conflict = (): ToolExecutionResult => {
+      this.logger.warn(`Idempotency key reused with different arguments: ${name}`, { scope });
+      const message = "Idempotency key was already used with different arguments";
+      return {
+        success: false,
+        error: `Invalid arguments for ${name}: ${message}`,
+        errorCode: MCPErrorCode.INVALID_PARAMS,
+        validationErrors: [{ field: IDEMPOTENCY_KEY_ARGUMENT, message }],
+        executionTime: Date.now() - startTime,
+      };
+    };
+    const replay = (result: ToolExecutionResult): ToolExecutionResult => {
+      if (tool.definition.returnsSecrets) {
+        this.logger.warn(`Refusing to replay a result with secrets: ${name}`, { scope });
+        return {
+          success: false,
+          error: `${name} already succeeded for this idempotency key, but its result contains secrets and is not kept for replay`,
+          errorCode: MCPErrorCode.OPERATION_FAILED,
+          replayed: true,
+          executionTime: Date.now() - startTime,
+        };
+      }
+
+      this.logger.info(`Replaying result for idempotency key: ${name}`, { scope });
+      return { ...result, replayed: true, executionTime: Date.now() - startTime };
+    };
+
+    const inFlightId = `${scope}\0${key}`;
+    const inFlight = this.inFlightKeys.get(inFlightId);
+    if (inFlight) {
+      return inFlight.argsHash === argsHash ? replay(await inFlight.result) : conflict();
+    }
+
+    const storage = this.getIdempotencyStorage();
+    let record;
+    try {
+      record = storage.getIdempotencyRecord(scope, key);
+    } catch (error) {
+      this.logger.error(`Idempotency lookup failed: ${name}`, error as Error);
+      return {
+        success: false,
+        error: `Idempotency lookup failed: ${(error as Error).message}`,
+        executionTime: Date.now() - startTime,
+      };
+    }
+    if (record) {
+      return record.argsHash === argsHash ? replay(record.result) : conflict();
+    }
+
+    const execution = run(toolArgs);
+    this.inFlightKeys.set(inFlightId, { argsHash, result: execution });
+
+    try {
+      const result = await execution;
+      if (result.success) {
+        try {
+          storage.deleteExpiredIdempotencyRecords();
+          const now = new Date();
+          storage.saveIdempotencyRecord({
+            scope,
+            key,
+            toolName: name,
+            argsHash,
+            result: tool.definition.returnsSecrets
+              ? { success: true, executionTime: result.executionTime }
+              : result,
+            createdAt: now,
+            expiresAt: new Date(now.getTime() + this.idempotencyWindowMs),
+          });
+        } catch (error) {
+          this.logger.error(`Failed to save idempotency record: ${name}`, error as Error);
+        }
+      }
+      return result;
+    } finally {
+      this.inFlightKeys.delete(inFlightId);
+    }
+  }
+
+  private getIdempotencyStorage(): IStorageService {
+    if (!this.idempotencyStorage) {
+      this.idempotencyStorage = createInMemoryStorageService();
+    }
+    return this.idempotencyStorage;
+  }
+
+  /**
+   * Hash a call's tool name and client arguments, independent of property order
+   */
+  private hashArguments(name: string, args: Record<string, unknown>): string {
+    const canonical = (value: unknown): unknown => {
+      if (Array.isArray(value)) {
+        return value.map(canonical);
+      }
+      if (value && typeof value === "object") {
+        return Object.fromEntries(
+          Object.keys(value)
+            .sort()
+            .map((key) => [key, canonical((value as Record<string, unknown>)[key])]),
+        );
+      }
+      return value;
+    };
+
+    const clientArgs = Object.fromEntries(
+      Object.entries(args).filter(([key]) => !INTERNAL_ARGUMENTS.has(key)),
+    );
+    return crypto
+      .createHash("sha256")
+      .update(JSON.stringify([name, canonical(clientArgs)]))
+      .digest("hex");
+  }
+
+  /**
+   * Add the idempotencyKey argument to a mutating tool's input schema
+   */
+  private withIdempotencyKey(tool: MCPToolDefinition): MCPToolDefinition {
+    return {
+      ...tool,
+      inputSchema: {
+        ...tool.inputSchema,
+        properties: {
+          ...tool.inputSchema.properties,
+          [IDEMPOTENCY_KEY_ARGUMENT]: {
+            type: "string",
+            description:
+              "Optional key identifying this call. Retrying with the same key returns the original result instead of repeating the operation",
+            minLength: 1,
+            maxLength: 255,
+          },
+        },
+      },
+    };
+  }
+
+  /**
+   * Validate arguments against the tool's input schema. Returns an INVALID_PARAMS result
+   * listing every offending field, or null when the arguments are valid.
+   */
+  private validateArguments(
+    tool: RegisteredTool,
+    args: Record<string, unknown>,
+    startTime: number,
+  ): ToolExecutionResult | null {
+    if (!tool.validateSchema) {
+      return null;
+    }
+
+    const clientArgs = Object.fromEntries(
+      Object.entries(args).filter(([key]) => !INTERNAL_ARGUMENTS.has(key)),
+    );
+    const validation = RequestValidator.validateToolArguments(tool.definition, clientArgs);
+    if (validation.valid) {
+      return null;
+    }
+
+    const validationErrors = validation.errors.map(({ field, message }) => ({ field, message }));
+    this.logger.warn(`Invalid arguments for tool: ${tool.definition.name}`, {
+      errors: validationErrors,
+    });
+
+    return {
+      success: false,
+      error: `Invalid arguments for ${tool.definition.name}: ${validationErrors
+        .map((error) => error.message)
+        .join("; ")}`,
+      errorCode: MCPErrorCode.INVALID_PARAMS,
+      validationErrors,
+      executionTime: Date.now() - startTime,
+    };
+  }
+
   /**
    * Execute tool with service from context
    */
@@ -309,6 +646,41 @@ export class ToolRegistry {
         const tool = new LighthouseUpdateDatasetTool(context.service, this.logger);
         return await tool.execute(args);
       }
+      case "lighthouse_list_dataset_versions": {
+        const { LighthouseListDatasetVersionsTool } = await import(
+          "../tools/LighthouseListDatasetVersionsTool.js"
+        );
+        const tool = new LighthouseListDatasetVersionsTool(context.service, this.logger);
+        return await tool.execute(args);
+      }
+      case "lighthouse_diff_dataset_versions": {
+        const { LighthouseDiffDatasetVersionsTool } = await import(
+          "../tools/LighthouseDiffDatasetVersionsTool.js"
+        );
+        const tool = new LighthouseDiffDatasetVersionsTool(context.service, this.logger);
+        return await tool.execute(args);
+      }
+      case "lighthouse_rollback_dataset": {
+        const { LighthouseRollbackDatasetTool } = await import(
+          "../tools/LighthouseRollbackDatasetTool.js"
+        );
+        const tool = new LighthouseRollbackDatasetTool(context.service, this.logger);
+        return await tool.execute(args);
+      }
+      case "lighthouse_export_dataset_manifest": {
+        const { LighthouseExportDatasetManifestTool } = await import(
+          "../tools/LighthouseExportDatasetManifestTool.js"
+        );
+        const tool = new LighthouseExportDatasetManifestTool(context.service, this.logger);
+        return await tool.execute(args);
+      }
+      case "lighthouse_import_dataset_manifest": {
+        const { LighthouseImportDatasetManifestTool } = await import(
+          "../tools/LighthouseImportDatasetManifestTool.js"
+        );
+        const tool = new LighthouseImportDatasetManifestTool(context.service, this.logger);
+        return await tool.execute(args);
+      }
       case "lighthouse_generate_key": {
         const { LighthouseGenerateKeyTool } = await import("../tools/LighthouseGenerateKeyTool.js");
         const tool = new LighthouseGenerateKeyTool(context.service, this.logger);
@@ -321,8 +693,15 @@ export class ToolRegistry {
         const tool = new LighthouseSetupAccessControlTool(context.service, this.logger);
         return await tool.execute(args);
       }
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+      default: {
+        // Tools that don't depend on the per-key service (e.g. tenancy tools)
+        // run through their registered executor
+        const registered = this.tools.get(name);
+        if (!registered) {
+          throw new Error(`Unknown tool: ${name}`);
+        }
+        return await registered.executor(args);
+      }
     }
   }
 
@@ -353,6 +732,20 @@ export class ToolRegistry {
     };
   }
 
+  /**
+   * Get call statistics of every registered tool
+   */
+  getToolMetrics(): ToolMetrics[] {
+    return Array.from(this.tools.values()).map((tool) => ({
+      name: tool.definition.name,
+      callCount: tool.callCount,
+      errorCount: tool.errorCount,
+      averageExecutionTime: tool.averageExecutionTime,
+      lastCalled: tool.lastCalled,
+      latency: { ...tool.latency, bucketCounts: [...tool.latency.bucketCounts] },
+    }));
+  }
+
   /**
    * Unregister a tool
    */
@@ -379,6 +772,7 @@ export class ToolRegistry {
   getToolStats(name: string):
     | {
         callCount: number;
+        errorCount: number;
         averageExecutionTime: number;
         lastCalled?: Date;
       }
@@ -388,6 +782,7 @@ export class ToolRegistry {
 
     return {
       callCount: tool.callCount,
+      errorCount: tool.errorCount,
       averageExecutionTime: tool.averageExecutionTime,
       lastCalled: tool.lastCalled,
     };
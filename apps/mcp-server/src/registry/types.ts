@@ -2,7 +2,9 @@
  * Tool Registry specific types
  */
 
-import { MCPToolDefinition } from "@lighthouse-tooling/types";
+import { MCPErrorCode, MCPToolDefinition } from "@lighthouse-tooling/types";
+import { ValidationError } from "../utils/request-validator.js";
+import type { IStorageService } from "../storage/InMemoryStorageService.js";
 
 /**
  * Registered tool with executor function
@@ -12,8 +14,14 @@ export interface RegisteredTool {
   executor: ToolExecutor;
   registeredAt: Date;
   callCount: number;
+  /** Calls that threw or returned an unsuccessful result */
+  errorCount: number;
   lastCalled?: Date;
   averageExecutionTime: number;
+  /** Distribution of execution times */
+  latency: LatencyHistogram;
+  /** Whether arguments are validated against the input schema before execution */
+  validateSchema: boolean;
 }
 
 /**
@@ -29,6 +37,27 @@ export interface ToolExecutionResult {
   data?: unknown;
   error?: string;
   executionTime: number;
+  /** MCP error code for failures detected by the registry */
+  errorCode?: MCPErrorCode;
+  /** Field-level errors when the arguments do not match the input schema */
+  validationErrors?: ValidationError[];
+  /** Whether the result was replayed for a retried idempotency key rather than executed */
+  replayed?: boolean;
+}
+
+/**
+ * Stored outcome of a mutating tool call made with an idempotency key
+ */
+export interface IdempotencyRecord {
+  /** Caller the key belongs to; keys of different callers never collide */
+  scope: string;
+  key: string;
+  toolName: string;
+  /** SHA-256 of the call arguments, to reject the key being reused for a different call */
+  argsHash: string;
+  result: ToolExecutionResult;
+  createdAt: Date;
+  expiresAt: Date;
 }
 
 /**
@@ -52,6 +81,30 @@ export interface RegistryMetrics {
   registrationTimestamp: Date;
 }
 
+/**
+ * Execution time histogram with fixed bucket bounds
+ */
+export interface LatencyHistogram {
+  /** Upper bounds of the buckets in milliseconds, ascending */
+  bucketBounds: number[];
+  /** Observations per bucket (not cumulative); the last entry counts those above every bound */
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * Call statistics of a single tool
+ */
+export interface ToolMetrics {
+  name: string;
+  callCount: number;
+  errorCount: number;
+  averageExecutionTime: number;
+  lastCalled?: Date;
+  latency: LatencyHistogram;
+}
+
 /**
  * Tool registration options
  */
@@ -59,3 +112,13 @@ export interface ToolRegistrationOptions {
   override?: boolean;
   validateSchema?: boolean;
 }
+
+/**
+ * Idempotency options
+ */
+export interface IdempotencyOptions {
+  /** Storage for idempotency records */
+  storage?: IStorageService;
+  /** How long a key and its result are remembered, in milliseconds */
+  windowMs?: number;
+}
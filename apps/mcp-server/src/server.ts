@@ -8,8 +8,20 @@ import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  McpError,
 } from "@modelcontextprotocol/sdk/types.js";
-import { Logger } from "@lighthouse-tooling/shared";
+import {
+  ContentCache,
+  Logger,
+  SpanExporter,
+  SpanKind,
+  Tracer,
+  configureTracing,
+  parseTraceparent,
+} from "@lighthouse-tooling/shared";
 
 import { ToolRegistry } from "./registry/ToolRegistry.js";
 import { LighthouseService } from "./services/LighthouseService.js";
@@ -22,21 +34,70 @@ import {
   LighthouseListDatasetsTool,
   LighthouseGetDatasetTool,
   LighthouseUpdateDatasetTool,
+  LighthouseListDatasetVersionsTool,
+  LighthouseDiffDatasetVersionsTool,
+  LighthouseRollbackDatasetTool,
+  LighthouseExportDatasetManifestTool,
+  LighthouseImportDatasetManifestTool,
   LighthouseGenerateKeyTool,
   LighthouseSetupAccessControlTool,
+  LighthouseCreateOrganizationTool,
+  LighthouseCreateTeamTool,
+  LighthouseManageTeamMembersTool,
+  LighthouseCreateApiKeyTool,
+  LighthouseListApiKeysTool,
+  LighthouseRotateApiKeyTool,
+  LighthouseRevokeApiKeyTool,
+  LighthouseViewQuotaTool,
+  LighthouseQueryAuditLogTool,
+  LighthouseVerifyAuditLogTool,
 } from "./tools/index.js";
-import { ServerConfig, getDefaultServerConfig } from "./config/server-config.js";
+import {
+  ServerConfig,
+  TransportConfig,
+  getDefaultServerConfig,
+  DEFAULT_HEALTH_CHECK_CONFIG,
+} from "./config/server-config.js";
 import { AuthManager } from "./auth/AuthManager.js";
 import { LighthouseServiceFactory } from "./auth/LighthouseServiceFactory.js";
-import { RequestContext } from "./auth/RequestContext.js";
 import { AuthenticationError } from "./errors/AuthenticationError.js";
-import { HealthCheckServer } from "./health/index.js";
+import { InvalidParamsError } from "./errors/InvalidParamsError.js";
+import { HealthCheckServer, HealthCheckConfig } from "./health/index.js";
+import { LocalGatewayServer } from "./gateway/index.js";
+import { McpHttpTransport } from "./transport/index.js";
+import { MCPResourceContents, MultiTenancyConfig } from "@lighthouse-tooling/types";
+import {
+  TenantStore,
+  TenantResolver,
+  TenantToolGuard,
+  QuotaManager,
+  UsageTracker,
+  ApiKeyManager,
+  DefaultOrganizationInitializer,
+} from "./tenancy/index.js";
+import { ReadResourceHandler } from "./handlers/ReadResourceHandler.js";
+import { ResponseBuilder } from "./utils/response-builder.js";
+import { IStorageService } from "./storage/InMemoryStorageService.js";
+import { createStorageService } from "./storage/StorageFactory.js";
+import { PromptRegistry, PromptResult, LIGHTHOUSE_PROMPTS } from "./prompts/index.js";
+import {
+  ToolPipeline,
+  ToolCall,
+  ToolMiddleware,
+  LoggingMiddleware,
+  AuthenticationMiddleware,
+  TenantGuardMiddleware,
+  UsageAnomalyMiddleware,
+} from "./middleware/index.js";
 
 export class LighthouseMCPServer {
   private server: Server;
   private registry: ToolRegistry;
+  private pipeline: ToolPipeline;
+  private promptRegistry: PromptRegistry;
   private lighthouseService: ILighthouseService;
   private datasetService: MockDatasetService;
+  private readResourceHandler: ReadResourceHandler;
   private logger: Logger;
   private config: ServerConfig;
 
@@ -44,9 +105,32 @@ export class LighthouseMCPServer {
   private authManager: AuthManager;
   private serviceFactory: LighthouseServiceFactory;
 
+  // Downloaded content shared by every Lighthouse service (only set when enabled)
+  private contentCache: ContentCache | null = null;
+
+  // Local stand-in for Lighthouse (only set when enabled)
+  private localGateway: LocalGatewayServer | null = null;
+
+  // Idempotency record storage (only set once the server is started)
+  private idempotencyStorage: IStorageService | null = null;
+
+  // Trace file exporter (only set when a trace export path is configured)
+  private traceExporter: SpanExporter | null = null;
+
   // Health check server
   private healthServer: HealthCheckServer | null = null;
 
+  // HTTP transport (only set in http transport mode)
+  private httpTransport: McpHttpTransport | null = null;
+
+  // Multi-tenancy components (only set when multi-tenancy is enabled)
+  private tenantStore: TenantStore | null = null;
+  private tenantResolver: TenantResolver | null = null;
+  private quotaManager: QuotaManager | null = null;
+  private apiKeyManager: ApiKeyManager | null = null;
+  private usageTracker: UsageTracker | null = null;
+  private tenantGuard: TenantToolGuard | null = null;
+
   constructor(
     config: Partial<ServerConfig> = {},
     services?: {
@@ -64,45 +148,63 @@ export class LighthouseMCPServer {
     });
 
     // Initialize server
-    this.server = new Server(
-      {
-        name: this.config.name,
-        version: this.config.version,
-      },
-      {
-        capabilities: {
-          tools: {},
-          resources: {},
-        },
-      },
-    );
+    this.server = this.createServer();
 
     // Initialize authentication components
     if (!this.config.authentication) {
       throw new Error("Authentication configuration is required");
     }
     this.authManager = new AuthManager(this.config.authentication);
+    if (this.config.contentCache?.enabled) {
+      this.contentCache = new ContentCache({
+        directory: this.config.contentCache.directory,
+        maxSize: this.config.contentCache.maxSize,
+        evictionPolicy: this.config.contentCache.evictionPolicy,
+        storageType: this.config.contentCache.storageType,
+      });
+    }
+    if (this.config.localGateway?.enabled) {
+      this.localGateway = new LocalGatewayServer(this.config.localGateway, this.logger);
+    }
+    const endpoints = this.localGateway?.getClientConfig();
     this.serviceFactory = new LighthouseServiceFactory(
       this.config.performance || {
         servicePoolSize: 50,
         serviceTimeoutMinutes: 30,
         concurrentRequestLimit: 100,
       },
+      this.contentCache ?? undefined,
+      endpoints,
     );
 
     // Initialize services
     if (services?.lighthouseService) {
       this.lighthouseService = services.lighthouseService;
     } else {
-      // For backward compatibility, still support direct API key configuration
-      if (!this.config.lighthouseApiKey && !this.config.authentication?.defaultApiKey) {
+      // For backward compatibility, still support direct API key configuration.
+      // The local gateway accepts any key, so offline mode works without one.
+      if (
+        !this.config.lighthouseApiKey &&
+        !this.config.authentication?.defaultApiKey &&
+        !this.localGateway
+      ) {
         throw new Error(
           "LIGHTHOUSE_API_KEY environment variable or authentication.defaultApiKey is required",
         );
       }
-      const apiKey = this.config.lighthouseApiKey || this.config.authentication?.defaultApiKey;
+      const apiKey =
+        this.config.lighthouseApiKey ||
+        this.config.authentication?.defaultApiKey ||
+        (this.localGateway ? "local-gateway" : undefined);
       if (apiKey) {
-        this.lighthouseService = new LighthouseService(apiKey, this.logger);
+        this.lighthouseService = new LighthouseService(
+          apiKey,
+          this.logger,
+          undefined,
+          undefined,
+          this.contentCache ?? undefined,
+          endpoints,
+        );
       } else {
         // Create a placeholder service - actual services will be created per-request
         this.lighthouseService = new LighthouseService("placeholder", this.logger);
@@ -115,106 +217,248 @@ export class LighthouseMCPServer {
       this.datasetService = new MockDatasetService(this.lighthouseService, this.logger);
     }
 
+    this.readResourceHandler = new ReadResourceHandler(
+      this.lighthouseService,
+      this.datasetService,
+      this.logger,
+      { maxInlineSize: this.config.resources?.maxInlineSize },
+    );
+
     // Initialize registry
     this.registry = new ToolRegistry(this.logger);
+    if (this.config.idempotency) {
+      this.registry.configureIdempotency({
+        windowMs: this.config.idempotency.windowSeconds * 1000,
+      });
+    }
+
+    // Initialize workflow prompts; each is listed once its tools are registered
+    this.promptRegistry = new PromptRegistry(this.registry, this.logger);
+    for (const prompt of LIGHTHOUSE_PROMPTS) {
+      this.promptRegistry.register(prompt);
+    }
+
+    // Initialize multi-tenancy components
+    if (this.config.multiTenancy?.enabled) {
+      this.createTenancyComponents(this.config.multiTenancy);
+    }
+
+    // Initialize the tool middleware pipeline
+    this.pipeline = this.createPipeline();
 
     this.logger.info("Lighthouse MCP Server created", {
       name: this.config.name,
       version: this.config.version,
+      multiTenancy: this.isMultiTenant(),
     });
   }
 
   /**
-   * Handle CallTool requests with authentication
+   * Create tenant store, resolver, quota, API key and usage components
    */
-  private async handleCallTool(request: {
-    params: { name: string; arguments: Record<string, unknown> };
-  }): Promise<{
-    content: Array<{
-      type: "text";
-      text: string;
-    }>;
-  }> {
-    const { name, arguments: args } = request.params;
-    const startTime = Date.now();
+  private createTenancyComponents(config: MultiTenancyConfig): void {
+    this.tenantStore = new TenantStore(config.storage, this.logger, {
+      auditLogRetentionDays: config.auditLogRetentionDays,
+      auditSigningKey: config.auditSigningKey,
+      auditSigningKeyPath: config.auditSigningKeyPath,
+    });
+    this.apiKeyManager = new ApiKeyManager({
+      store: this.tenantStore,
+      logger: this.logger,
+      rotationGracePeriodHours: config.apiKeyRotationGraceHours,
+    });
+    this.tenantResolver = new TenantResolver({
+      store: this.tenantStore,
+      logger: this.logger,
+      defaultOrganizationId: config.defaultOrganizationId,
+      strictIsolation: config.strictIsolation,
+      apiKeyManager: this.apiKeyManager,
+    });
+    this.quotaManager = new QuotaManager({ store: this.tenantStore, logger: this.logger });
+    this.usageTracker = new UsageTracker({ store: this.tenantStore, logger: this.logger });
+    this.tenantGuard = new TenantToolGuard({
+      quotaManager: this.quotaManager,
+      usageTracker: this.usageTracker,
+      logger: this.logger,
+      strictIsolation: config.strictIsolation,
+    });
+  }
 
-    try {
-      this.logger.debug("Processing tool call", {
-        tool: name,
-        hasApiKey: !!args?.apiKey,
-        argCount: Object.keys(args || {}).length,
-      });
+  /**
+   * Initialize tenant storage and the default organization for legacy keys
+   * Made public for testing purposes
+   */
+  async initializeMultiTenancy(): Promise<void> {
+    const config = this.config.multiTenancy;
+    if (!this.tenantStore || !config) {
+      return;
+    }
 
-      // Extract API key from request parameters
-      const requestApiKey = args?.apiKey as string | undefined;
+    await this.tenantStore.initialize();
 
-      // Authenticate the request
-      const authResult = await this.authManager.authenticate(requestApiKey);
+    const initializer = new DefaultOrganizationInitializer(this.tenantStore, this.logger);
+    await initializer.initialize({
+      organizationId: config.defaultOrganizationId,
+      organizationSettings: config.defaultOrganizationSettings,
+      defaultQuota: config.defaultQuota,
+      // Migrate the key that unauthenticated requests fall back to
+      apiKey: this.config.authentication?.defaultApiKey || this.config.lighthouseApiKey,
+    });
 
-      if (!authResult.success) {
-        this.logger.warn("Authentication failed", {
-          tool: name,
-          keyHash: authResult.keyHash,
-          usedFallback: authResult.usedFallback,
-          rateLimited: authResult.rateLimited,
-          authTime: authResult.authTime,
-        });
+    this.logger.info("Multi-tenancy initialized", {
+      defaultOrganizationId: config.defaultOrganizationId,
+      strictIsolation: config.strictIsolation,
+    });
+  }
 
-        // Throw appropriate authentication error
-        if (authResult.rateLimited) {
-          throw AuthenticationError.rateLimited(authResult.keyHash, 60);
-        } else if (authResult.errorMessage?.includes("required")) {
-          throw AuthenticationError.missingApiKey();
-        } else {
-          throw AuthenticationError.invalidApiKey(authResult.keyHash);
-        }
+  /**
+   * Check whether the server runs in multi-tenant mode
+   */
+  isMultiTenant(): boolean {
+    return this.tenantResolver !== null;
+  }
+
+  /**
+   * Handle ReadResource requests for lighthouse:// URIs. Reads run through the middleware
+   * pipeline as the equivalent tool call, so they need the same credentials and permissions.
+   */
+  private async handleReadResource(
+    uri: string,
+    transportApiKey?: string,
+  ): Promise<{
+    contents: Array<{ uri: string; mimeType?: string; text?: string; blob?: string }>;
+  }> {
+    try {
+      const { toolName, args } = this.readResourceHandler.getAccessTool(uri);
+      const call: ToolCall = {
+        toolName,
+        args,
+        apiKey: transportApiKey,
+        startTime: Date.now(),
+        state: new Map(),
+      };
+
+      const result = await this.pipeline.execute(call, async () => ({
+        success: true,
+        data: await this.readResourceHandler.read(uri),
+        executionTime: Date.now() - call.startTime,
+      }));
+
+      if (!result.success) {
+        throw new Error(result.error || "Resource read failed");
       }
 
-      // Get effective API key for service creation
-      const effectiveApiKey = await this.authManager.getEffectiveApiKey(requestApiKey);
+      return { contents: result.data as MCPResourceContents[] };
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
 
-      // Get service instance for this API key
-      const service = await this.serviceFactory.getService(effectiveApiKey);
+      this.logger.error("Failed to read resource", error as Error, { uri });
+      throw new McpError(ResponseBuilder.errorToMCPCode(error as Error), (error as Error).message);
+    }
+  }
 
-      // Create request context
-      const context = new RequestContext({
-        apiKey: effectiveApiKey,
-        keyHash: authResult.keyHash,
-        service,
-        toolName: name,
-      });
+  /**
+   * Handle GetPrompt requests
+   */
+  private handleGetPrompt(name: string, args: Record<string, string> = {}): PromptResult {
+    try {
+      return this.promptRegistry.getPrompt(name, args);
+    } catch (error) {
+      this.logger.error("Failed to get prompt", error as Error, { name });
+      throw new McpError(ResponseBuilder.errorToMCPCode(error as Error), (error as Error).message);
+    }
+  }
 
-      this.logger.info("Authentication successful", {
-        ...context.toLogContext(),
-        usedFallback: authResult.usedFallback,
-        authTime: authResult.authTime,
-      });
+  /**
+   * Handle CallTool requests by running them through the middleware pipeline
+   */
+  private async handleCallTool(
+    request: {
+      params: {
+        name: string;
+        arguments: Record<string, unknown>;
+        _meta?: Record<string, unknown>;
+      };
+    },
+    transportApiKey?: string,
+  ): Promise<{
+    content: Array<{
+      type: "text";
+      text: string;
+    }>;
+  }> {
+    const { name, arguments: args, _meta: meta } = request.params;
 
-      // Route to appropriate tool handler with context
-      const result = await this.routeToolCall(name, args, context);
+    // Continue the caller's trace when the request carries a traceparent
+    return Tracer.getInstance().startActiveSpan(
+      `tools/call ${name}`,
+      {
+        kind: SpanKind.SERVER,
+        parent: parseTraceparent(meta?.traceparent) ?? undefined,
+        attributes: { "rpc.system": "mcp", "rpc.method": "tools/call", "mcp.tool.name": name },
+      },
+      () => this.executeToolCall(name, args, transportApiKey),
+    );
+  }
 
-      const totalTime = Date.now() - startTime;
-      this.logger.info("Tool call completed", {
-        ...context.toLogContext(),
-        totalTime,
-      });
+  /**
+   * Run a tool call through the middleware pipeline and format its result
+   */
+  private async executeToolCall(
+    name: string,
+    args: Record<string, unknown>,
+    transportApiKey?: string,
+  ): Promise<{
+    content: Array<{
+      type: "text";
+      text: string;
+    }>;
+  }> {
+    const call: ToolCall = {
+      toolName: name,
+      args: { ...args },
+      // Transport credentials (HTTP Authorization header) take precedence over
+      // the apiKey tool argument
+      apiKey: transportApiKey || (args?.apiKey as string | undefined),
+      startTime: Date.now(),
+      state: new Map(),
+    };
 
-      return result;
-    } catch (error) {
-      const totalTime = Date.now() - startTime;
-
-      // Log error without exposing API key
-      const sanitizedKey = args?.apiKey
-        ? this.authManager.sanitizeApiKey(args.apiKey as string)
-        : "none";
-      this.logger.error("Tool call failed", error as Error, {
-        tool: name,
-        sanitizedApiKey: sanitizedKey,
-        totalTime,
+    try {
+      const result = await this.pipeline.execute(call, (authenticated) => {
+        if (!authenticated.context) {
+          throw new Error("Tool call reached execution without a request context");
+        }
+        return this.registry.executeToolWithContext(
+          authenticated.toolName,
+          authenticated.args,
+          authenticated.context,
+        );
       });
 
-      // Re-throw authentication errors as-is
-      if (error instanceof AuthenticationError) {
+      if (!result.success) {
+        if (result.validationErrors) {
+          throw new InvalidParamsError(
+            result.error || "Invalid arguments",
+            result.validationErrors,
+          );
+        }
+        throw new Error(result.error || "Tool execution failed");
+      }
+
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify(result.data, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      // Re-throw authentication and argument errors as-is
+      if (error instanceof AuthenticationError || error instanceof InvalidParamsError) {
         throw error;
       }
 
@@ -226,36 +470,44 @@ export class LighthouseMCPServer {
   }
 
   /**
-   * Route tool call to appropriate handler with request context
+   * Install the built-in middleware: logging wraps everything, then authentication, tenant
+   * checks and usage anomaly detection. Middleware added with use() runs inside these, on
+   * authenticated calls.
    */
-  private async routeToolCall(
-    toolName: string,
-    params: Record<string, unknown>,
-    context: RequestContext,
-  ): Promise<{
-    content: Array<{
-      type: "text";
-      text: string;
-    }>;
-  }> {
-    // Remove apiKey from params before passing to tool
-    const { apiKey: _apiKey, ...toolParams } = params;
-
-    // Execute tool with context-aware service
-    const result = await this.registry.executeToolWithContext(toolName, toolParams, context);
-
-    if (!result.success) {
-      throw new Error(result.error || "Tool execution failed");
+  private createPipeline(): ToolPipeline {
+    const pipeline = new ToolPipeline(this.logger);
+
+    pipeline.use(new LoggingMiddleware(this.logger));
+    pipeline.use(
+      new AuthenticationMiddleware({
+        authManager: this.authManager,
+        serviceFactory: this.serviceFactory,
+        logger: this.logger,
+        tenantResolver: this.tenantResolver,
+        tenantService: this.lighthouseService,
+      }),
+    );
+    if (this.tenantGuard) {
+      pipeline.use(new TenantGuardMiddleware(this.tenantGuard, this.logger));
     }
+    pipeline.use(
+      new UsageAnomalyMiddleware({
+        authManager: this.authManager,
+        logger: this.logger,
+        apiKeyManager: this.apiKeyManager,
+      }),
+    );
 
-    return {
-      content: [
-        {
-          type: "text" as const,
-          text: JSON.stringify(result.data, null, 2),
-        },
-      ],
-    };
+    return pipeline;
+  }
+
+  /**
+   * Add a middleware around tool execution. It runs after the built-in authentication and
+   * tenant checks, so its hooks always see the request context.
+   */
+  use(middleware: ToolMiddleware): this {
+    this.pipeline.use(middleware);
+    return this;
   }
 
   /**
@@ -273,6 +525,26 @@ export class LighthouseMCPServer {
     const listDatasetsTool = new LighthouseListDatasetsTool(this.lighthouseService, this.logger);
     const getDatasetTool = new LighthouseGetDatasetTool(this.lighthouseService, this.logger);
     const updateDatasetTool = new LighthouseUpdateDatasetTool(this.lighthouseService, this.logger);
+    const listDatasetVersionsTool = new LighthouseListDatasetVersionsTool(
+      this.lighthouseService,
+      this.logger,
+    );
+    const diffDatasetVersionsTool = new LighthouseDiffDatasetVersionsTool(
+      this.lighthouseService,
+      this.logger,
+    );
+    const rollbackDatasetTool = new LighthouseRollbackDatasetTool(
+      this.lighthouseService,
+      this.logger,
+    );
+    const exportDatasetManifestTool = new LighthouseExportDatasetManifestTool(
+      this.lighthouseService,
+      this.logger,
+    );
+    const importDatasetManifestTool = new LighthouseImportDatasetManifestTool(
+      this.lighthouseService,
+      this.logger,
+    );
     const generateKeyTool = new LighthouseGenerateKeyTool(this.lighthouseService, this.logger);
     const setupAccessControlTool = new LighthouseSetupAccessControlTool(
       this.lighthouseService,
@@ -311,6 +583,31 @@ export class LighthouseMCPServer {
       async (args) => await updateDatasetTool.execute(args),
     );
 
+    this.registry.register(
+      LighthouseListDatasetVersionsTool.getDefinition(),
+      async (args) => await listDatasetVersionsTool.execute(args),
+    );
+
+    this.registry.register(
+      LighthouseDiffDatasetVersionsTool.getDefinition(),
+      async (args) => await diffDatasetVersionsTool.execute(args),
+    );
+
+    this.registry.register(
+      LighthouseRollbackDatasetTool.getDefinition(),
+      async (args) => await rollbackDatasetTool.execute(args),
+    );
+
+    this.registry.register(
+      LighthouseExportDatasetManifestTool.getDefinition(),
+      async (args) => await exportDatasetManifestTool.execute(args),
+    );
+
+    this.registry.register(
+      LighthouseImportDatasetManifestTool.getDefinition(),
+      async (args) => await importDatasetManifestTool.execute(args),
+    );
+
     // Register encryption tools
     this.registry.register(
       LighthouseGenerateKeyTool.getDefinition(),
@@ -322,6 +619,11 @@ export class LighthouseMCPServer {
       async (args) => await setupAccessControlTool.execute(args),
     );
 
+    // Register multi-tenancy tools
+    if (this.tenantStore && this.quotaManager && this.apiKeyManager) {
+      this.registerTenancyTools(this.tenantStore, this.quotaManager, this.apiKeyManager);
+    }
+
     const registeredTools = this.registry.listTools();
     const registrationTime = Date.now() - startTime;
 
@@ -339,30 +641,150 @@ export class LighthouseMCPServer {
     }
   }
 
+  /**
+   * Register organization, team, API key, quota and audit log tools
+   */
+  private registerTenancyTools(
+    tenantStore: TenantStore,
+    quotaManager: QuotaManager,
+    apiKeyManager: ApiKeyManager,
+  ): void {
+    const createOrganizationTool = new LighthouseCreateOrganizationTool(tenantStore, this.logger);
+    const createTeamTool = new LighthouseCreateTeamTool(tenantStore, this.logger);
+    const manageTeamMembersTool = new LighthouseManageTeamMembersTool(tenantStore, this.logger);
+    const createApiKeyTool = new LighthouseCreateApiKeyTool(
+      tenantStore,
+      apiKeyManager,
+      this.logger,
+    );
+    const listApiKeysTool = new LighthouseListApiKeysTool(tenantStore, this.logger);
+    const rotateApiKeyTool = new LighthouseRotateApiKeyTool(apiKeyManager, this.logger);
+    const revokeApiKeyTool = new LighthouseRevokeApiKeyTool(apiKeyManager, this.logger);
+    const viewQuotaTool = new LighthouseViewQuotaTool(
+      tenantStore,
+      quotaManager,
+      this.logger,
+      this.lighthouseService,
+    );
+    const queryAuditLogTool = new LighthouseQueryAuditLogTool(tenantStore, this.logger);
+    const verifyAuditLogTool = new LighthouseVerifyAuditLogTool(
+      tenantStore,
+      this.authManager.getAuthLogger(),
+      this.logger,
+    );
+
+    this.registry.register(
+      LighthouseCreateOrganizationTool.getDefinition(),
+      async (args) => await createOrganizationTool.execute(args),
+    );
+
+    this.registry.register(
+      LighthouseCreateTeamTool.getDefinition(),
+      async (args) => await createTeamTool.execute(args),
+    );
+
+    this.registry.register(
+      LighthouseManageTeamMembersTool.getDefinition(),
+      async (args) => await manageTeamMembersTool.execute(args),
+    );
+
+    this.registry.register(
+      LighthouseCreateApiKeyTool.getDefinition(),
+      async (args) => await createApiKeyTool.execute(args),
+    );
+
+    this.registry.register(
+      LighthouseListApiKeysTool.getDefinition(),
+      async (args) => await listApiKeysTool.execute(args),
+    );
+
+    this.registry.register(
+      LighthouseRotateApiKeyTool.getDefinition(),
+      async (args) => await rotateApiKeyTool.execute(args),
+    );
+
+    this.registry.register(
+      LighthouseRevokeApiKeyTool.getDefinition(),
+      async (args) => await revokeApiKeyTool.execute(args),
+    );
+
+    this.registry.register(
+      LighthouseViewQuotaTool.getDefinition(),
+      async (args) => await viewQuotaTool.execute(args),
+    );
+
+    this.registry.register(
+      LighthouseQueryAuditLogTool.getDefinition(),
+      async (args) => await queryAuditLogTool.execute(args),
+    );
+
+    this.registry.register(
+      LighthouseQueryAuditLogTool.getAliasDefinition(),
+      async (args) => await queryAuditLogTool.execute(args),
+    );
+
+    this.registry.register(
+      LighthouseVerifyAuditLogTool.getDefinition(),
+      async (args) => await verifyAuditLogTool.execute(args),
+    );
+  }
+
+  /**
+   * Create an MCP protocol server with the Lighthouse capabilities
+   */
+  private createServer(): Server {
+    return new Server(
+      {
+        name: this.config.name,
+        version: this.config.version,
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: {},
+          prompts: {},
+        },
+      },
+    );
+  }
+
+  /**
+   * Create a protocol server with handlers for an HTTP client session
+   */
+  private createSessionServer(): Server {
+    const server = this.createServer();
+    this.setupHandlers(server);
+    return server;
+  }
+
   /**
    * Setup request handlers
    */
-  private setupHandlers(): void {
+  private setupHandlers(server: Server = this.server): void {
     this.logger.info("Setting up request handlers...");
 
     // Handle ListTools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       const tools = this.registry.listTools();
       return { tools };
     });
 
     // Handle CallTool with authentication
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      return await this.handleCallTool({
-        params: {
-          name: request.params.name,
-          arguments: request.params.arguments || {},
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+      return await this.handleCallTool(
+        {
+          params: {
+            name: request.params.name,
+            arguments: request.params.arguments || {},
+            _meta: request.params._meta,
+          },
         },
-      });
+        extra.authInfo?.token,
+      );
     });
 
     // Handle ListResources
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
       const files = await this.lighthouseService.listFiles();
       const datasets = this.datasetService.listDatasets();
 
@@ -384,6 +806,25 @@ export class LighthouseMCPServer {
       return { resources };
     });
 
+    // Handle ReadResource
+    server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+      return await this.handleReadResource(request.params.uri, extra.authInfo?.token);
+    });
+
+    // Handle ListPrompts
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return { prompts: this.promptRegistry.listPrompts() };
+    });
+
+    // Handle GetPrompt
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { description, messages } = this.handleGetPrompt(
+        request.params.name,
+        request.params.arguments,
+      );
+      return { description, messages };
+    });
+
     this.logger.info("Request handlers setup complete");
   }
 
@@ -399,11 +840,28 @@ export class LighthouseMCPServer {
         version: this.config.version,
       });
 
+      if (this.config.tracing) {
+        this.traceExporter =
+          configureTracing(this.config.tracing.serviceName, this.config.tracing.exportPath) ?? null;
+      }
+
+      // Lighthouse services send requests to the local gateway, so it must be up first
+      if (this.localGateway) {
+        await this.localGateway.start();
+      }
+
       // Initialize Lighthouse service
       if (this.lighthouseService.initialize) {
         await this.lighthouseService.initialize();
       }
 
+      // Persist idempotency keys so retries are recognised across restarts
+      this.idempotencyStorage = await createStorageService(this.config.idempotency?.dbPath);
+      this.registry.configureIdempotency({ storage: this.idempotencyStorage });
+
+      // Initialize tenant storage before tenancy tools are registered
+      await this.initializeMultiTenancy();
+
       // Register tools
       await this.registerTools();
 
@@ -415,27 +873,21 @@ export class LighthouseMCPServer {
         this.startMetricsCollection();
       }
 
-      // Connect to stdio transport
-      const transport = new StdioServerTransport();
-      await this.server.connect(transport);
-
-      // Start health check server if configured
-      if (this.config.healthCheck?.enabled) {
-        this.healthServer = new HealthCheckServer(
-          {
-            authManager: this.authManager,
-            serviceFactory: this.serviceFactory,
-            lighthouseService: this.lighthouseService,
-            registry: this.registry,
-            config: this.config,
-            logger: this.logger,
-          },
-          this.config.healthCheck,
-        );
-        await this.healthServer.start();
-        this.logger.info("Health check server started", {
-          port: this.config.healthCheck.port,
-        });
+      if (this.config.transport?.mode === "http") {
+        await this.startHttpTransport(this.config.transport);
+      } else {
+        // Connect to stdio transport
+        const transport = new StdioServerTransport();
+        await this.server.connect(transport);
+
+        // Start health check server if configured
+        if (this.config.healthCheck?.enabled) {
+          this.healthServer = this.createHealthServer(this.config.healthCheck);
+          await this.healthServer.start();
+          this.logger.info("Health check server started", {
+            port: this.config.healthCheck.port,
+          });
+        }
       }
 
       const startupTime = Date.now() - startTime;
@@ -456,6 +908,47 @@ export class LighthouseMCPServer {
     }
   }
 
+  /**
+   * Serve MCP over HTTP on the health check server's port
+   */
+  private async startHttpTransport(transportConfig: TransportConfig): Promise<void> {
+    const healthConfig = this.config.healthCheck ?? DEFAULT_HEALTH_CHECK_CONFIG;
+    this.healthServer = this.createHealthServer({ ...healthConfig, host: transportConfig.host });
+
+    this.httpTransport = new McpHttpTransport({
+      createServer: () => this.createSessionServer(),
+      endpoint: transportConfig.endpoint,
+      requireAuth: transportConfig.requireAuth,
+      logger: this.logger,
+    });
+    this.httpTransport.mount(this.healthServer);
+
+    await this.healthServer.start();
+    this.logger.info("HTTP transport started", {
+      host: transportConfig.host,
+      port: this.healthServer.getPort(),
+      endpoint: transportConfig.endpoint,
+    });
+  }
+
+  /**
+   * Create the HTTP server for health checks (and the HTTP transport)
+   */
+  private createHealthServer(healthConfig: HealthCheckConfig): HealthCheckServer {
+    return new HealthCheckServer(
+      {
+        authManager: this.authManager,
+        serviceFactory: this.serviceFactory,
+        lighthouseService: this.lighthouseService,
+        registry: this.registry,
+        config: this.config,
+        logger: this.logger,
+        tenantStore: this.tenantStore,
+      },
+      healthConfig,
+    );
+  }
+
   /**
    * Start metrics collection
    */
@@ -484,6 +977,12 @@ export class LighthouseMCPServer {
     try {
       this.logger.info("Stopping server...");
 
+      // Close HTTP client sessions before their server stops listening
+      if (this.httpTransport) {
+        await this.httpTransport.close();
+        this.httpTransport = null;
+      }
+
       // Stop health check server
       if (this.healthServer) {
         await this.healthServer.stop();
@@ -499,6 +998,30 @@ export class LighthouseMCPServer {
       if (this.serviceFactory) {
         this.serviceFactory.destroy();
       }
+      await this.contentCache?.flush();
+
+      if (this.localGateway) {
+        await this.localGateway.stop();
+        this.localGateway = null;
+      }
+
+      // Stop quota reset and key expiry checks and flush pending usage events
+      this.quotaManager?.stop();
+      this.apiKeyManager?.stop();
+      if (this.usageTracker) {
+        await this.usageTracker.stop();
+      }
+
+      if (this.idempotencyStorage) {
+        this.idempotencyStorage.close();
+        this.idempotencyStorage = null;
+      }
+
+      // Write out buffered spans
+      if (this.traceExporter) {
+        await Tracer.getInstance().removeExporter(this.traceExporter);
+        this.traceExporter = null;
+      }
 
       await this.server.close();
       this.logger.info("Server stopped successfully");
@@ -530,6 +1053,27 @@ export class LighthouseMCPServer {
     return this.registry;
   }
 
+  /**
+   * Get the tool middleware pipeline (for testing)
+   */
+  getPipeline(): ToolPipeline {
+    return this.pipeline;
+  }
+
+  /**
+   * Get the port the HTTP server listens on, if running (for testing)
+   */
+  getHttpPort(): number | null {
+    return this.healthServer?.getPort() ?? null;
+  }
+
+  /**
+   * Get prompt registry instance (for testing)
+   */
+  getPromptRegistry(): PromptRegistry {
+    return this.promptRegistry;
+  }
+
   /**
    * Get lighthouse service instance (for testing)
    */
@@ -558,6 +1102,20 @@ export class LighthouseMCPServer {
     return this.serviceFactory;
   }
 
+  /**
+   * Get tenant store instance (null unless multi-tenancy is enabled)
+   */
+  getTenantStore(): TenantStore | null {
+    return this.tenantStore;
+  }
+
+  /**
+   * Get tenant resolver instance (null unless multi-tenancy is enabled)
+   */
+  getTenantResolver(): TenantResolver | null {
+    return this.tenantResolver;
+  }
+
   /**
    * Get authentication statistics
    */
@@ -2,7 +2,14 @@
  * Common interface for Lighthouse services
  */
 
-import { UploadResult, DownloadResult, AccessCondition, Dataset } from "@lighthouse-tooling/types";
+import {
+  UploadResult,
+  DownloadResult,
+  AccessCondition,
+  Dataset,
+  DatasetVersion,
+  DatasetVersionDiff,
+} from "@lighthouse-tooling/types";
 import {
   EnhancedAccessCondition,
   BatchUploadOptions,
@@ -10,6 +17,7 @@ import {
   BatchOperationResult,
   BatchDownloadFileResult,
   FileInfo,
+  RateLimitState,
 } from "@lighthouse-tooling/sdk-wrapper";
 
 export interface StoredFile {
@@ -24,6 +32,37 @@ export interface StoredFile {
   hash?: string;
 }
 
+/**
+ * Uploads skipped because identical content was already pinned
+ */
+export interface DeduplicationStats {
+  /** Uploads answered with an existing CID */
+  duplicateUploads: number;
+  /** Bytes not uploaded again */
+  bytesSaved: number;
+}
+
+/**
+ * Resilience statistics of the underlying SDK
+ */
+export interface SDKMetrics {
+  circuitBreaker: {
+    state: string;
+    failureCount: number;
+    successCount: number;
+    lastFailureTime: number;
+  };
+  /** Null when the SDK runs without a connection pool */
+  connectionPool: {
+    totalConnections: number;
+    activeConnections: number;
+    idleConnections: number;
+    queuedRequests: number;
+    totalRequests: number;
+    averageWaitTime: number;
+  } | null;
+}
+
 export interface ILighthouseService {
   /**
    * Initialize the service
@@ -47,6 +86,8 @@ export interface ILighthouseService {
     cid: string;
     outputPath?: string;
     decrypt?: boolean;
+    /** Reject content whose recomputed CID does not match */
+    verify?: boolean;
   }): Promise<DownloadResult>;
 
   /**
@@ -77,13 +118,30 @@ export interface ILighthouseService {
     totalSize: number;
     maxSize: number;
     utilization: number;
+    deduplication: DeduplicationStats;
   };
 
+  /**
+   * Get SDK circuit breaker and connection pool statistics (services backed by the SDK only)
+   */
+  getSDKMetrics?(): SDKMetrics;
+
+  /**
+   * Subscribe to changes of the SDK's rate limiter, which is shared by services using the
+   * same API key (services backed by the SDK only)
+   */
+  onRateLimit?(listener: (state: RateLimitState) => void): void;
+
   /**
    * Clear cache (for testing)
    */
   clear(): void;
 
+  /**
+   * Release the service's resources once it is no longer used
+   */
+  destroy?(): void;
+
   /**
    * Create a new dataset
    */
@@ -109,6 +167,30 @@ export interface ILighthouseService {
     tags?: string[];
   }): Promise<Dataset>;
 
+  /**
+   * Register a dataset whose files are already stored (e.g. from a manifest) without uploading
+   */
+  importDataset(dataset: Dataset): Promise<Dataset>;
+
+  /**
+   * List the version history of a dataset, oldest first
+   */
+  listDatasetVersions(datasetId: string): Promise<DatasetVersion[]>;
+
+  /**
+   * Compare the files of two versions of a dataset
+   */
+  diffDatasetVersions(
+    datasetId: string,
+    fromVersion: string,
+    toVersion: string,
+  ): Promise<DatasetVersionDiff>;
+
+  /**
+   * Restore the files and metadata of an earlier version as a new version
+   */
+  rollbackDataset(datasetId: string, version: string): Promise<Dataset>;
+
   /**
    * Get dataset by ID
    */
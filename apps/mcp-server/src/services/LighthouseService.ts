@@ -10,29 +10,52 @@ import {
   BatchDownloadOptions,
   BatchOperationResult,
   BatchDownloadFileResult,
+  BatchFileResult,
   BatchUploadInput,
   BatchDownloadInput,
   FileInfo,
+  LighthouseConfig,
+  RateLimitState,
 } from "@lighthouse-tooling/sdk-wrapper";
-import { UploadResult, DownloadResult, AccessCondition, Dataset } from "@lighthouse-tooling/types";
-import { Logger } from "@lighthouse-tooling/shared";
-import { ILighthouseService, StoredFile } from "./ILighthouseService.js";
+import {
+  UploadResult,
+  DownloadResult,
+  AccessCondition,
+  Dataset,
+  DatasetVersion,
+  DatasetVersionDiff,
+} from "@lighthouse-tooling/types";
+import * as crypto from "crypto";
+import * as fs from "fs/promises";
+import { Logger, FileUtils, ContentCache } from "@lighthouse-tooling/shared";
+import { ILighthouseService, StoredFile, DeduplicationStats } from "./ILighthouseService.js";
 import { IStorageService, InMemoryStorageService } from "../storage/InMemoryStorageService.js";
 import { createStorageService } from "../storage/StorageFactory.js";
+import { DatasetVersions } from "../utils/dataset-versions.js";
 
 export class LighthouseService implements ILighthouseService {
   private sdk: LighthouseAISDK;
   private logger: Logger;
   private storage: IStorageService;
+  /** Identifies this account's uploads in storage shared with other API keys */
+  private owner: string;
   private dbPath?: string;
   private storageInitialized: boolean = false;
   // Keep in-memory cache for performance (LRU cache can be added later)
   private fileCache: Map<string, StoredFile> = new Map();
   private datasetCache: Map<string, Dataset> = new Map();
 
-  constructor(apiKey: string, logger?: Logger, dbPath?: string, poolConfig?: ConnectionPoolConfig) {
+  constructor(
+    apiKey: string,
+    logger?: Logger,
+    dbPath?: string,
+    poolConfig?: ConnectionPoolConfig,
+    contentCache?: ContentCache,
+    endpoints?: Pick<LighthouseConfig, "baseUrl" | "gatewayUrl" | "directApi">,
+  ) {
     this.logger = logger || Logger.getInstance({ level: "info", component: "LighthouseService" });
     this.dbPath = dbPath;
+    this.owner = crypto.createHash("sha256").update(apiKey).digest("hex").slice(0, 16);
 
     // Start with in-memory storage; will try to upgrade to SQLite in initialize()
     this.storage = new InMemoryStorageService();
@@ -43,6 +66,8 @@ export class LighthouseService implements ILighthouseService {
       maxRetries: 3,
       debug: false,
       pool: poolConfig,
+      contentCache,
+      ...endpoints,
     });
 
     // Set up event listeners for progress tracking
@@ -166,6 +191,12 @@ export class LighthouseService implements ILighthouseService {
     this.sdk.on("auth:refresh", () => {
       this.logger.info("Authentication token refreshed");
     });
+
+    this.sdk.on("rate_limit", (state: RateLimitState) => {
+      if (state.retryAfter > 0) {
+        this.logger.warn("Lighthouse rate limit reached, pausing requests", { ...state });
+      }
+    });
   }
 
   /**
@@ -182,6 +213,23 @@ export class LighthouseService implements ILighthouseService {
     try {
       this.logger.info("Starting file upload", { filePath: params.filePath });
 
+      // Reuse identical content that is already pinned instead of uploading it again
+      const contentHash = await this.getContentHash(params.filePath, params.encrypt);
+      const duplicate = contentHash ? this.findDuplicate(contentHash) : undefined;
+      if (duplicate) {
+        return {
+          cid: duplicate.cid,
+          size: duplicate.size,
+          encrypted: false,
+          accessConditions: duplicate.accessConditions,
+          tags: duplicate.tags,
+          uploadedAt: duplicate.uploadedAt,
+          originalPath: params.filePath,
+          hash: duplicate.hash,
+          deduplicated: true,
+        };
+      }
+
       // Upload file using SDK wrapper
       const fileInfo = await this.sdk.uploadFile(params.filePath, {
         fileName: params.filePath.split("/").pop(),
@@ -202,11 +250,11 @@ export class LighthouseService implements ILighthouseService {
         tags: params.tags,
         uploadedAt: fileInfo.uploadedAt,
         pinned: true,
-        hash: fileInfo.hash,
+        hash: contentHash ?? fileInfo.hash,
       };
 
       // Persist to storage
-      this.storage.saveFile(storedFile);
+      this.storage.saveFile(storedFile, this.owner);
       // Update cache
       this.fileCache.set(fileInfo.hash, storedFile);
 
@@ -218,7 +266,7 @@ export class LighthouseService implements ILighthouseService {
         tags: params.tags,
         uploadedAt: fileInfo.uploadedAt,
         originalPath: params.filePath,
-        hash: fileInfo.hash,
+        hash: storedFile.hash,
       };
 
       const executionTime = Date.now() - startTime;
@@ -238,38 +286,42 @@ export class LighthouseService implements ILighthouseService {
   }
 
   /**
-   * Fetch/download file using real Lighthouse SDK
+   * Fetch/download file using real Lighthouse SDK. Content in the content cache is
+   * served without contacting Lighthouse.
    */
   async fetchFile(params: {
     cid: string;
     outputPath?: string;
     decrypt?: boolean;
+    verify?: boolean;
   }): Promise<DownloadResult> {
     const startTime = Date.now();
 
     try {
       this.logger.info("Starting file fetch", { cid: params.cid });
 
-      // Get file info first
-      const fileInfo = await this.sdk.getFileInfo(params.cid);
-
-      // Download file using SDK wrapper
+      // Download file using SDK wrapper; the size comes from the file so that a
+      // cached fetch needs no metadata request either
       const outputPath = params.outputPath || `./downloaded_${params.cid}`;
-      const downloadedPath = await this.sdk.downloadFile(params.cid, outputPath);
+      const downloadedPath = await this.sdk.downloadFile(params.cid, outputPath, {
+        verify: params.verify,
+      });
+      const { size } = await fs.stat(downloadedPath);
 
       const result: DownloadResult = {
         filePath: downloadedPath,
         cid: params.cid,
-        size: fileInfo.size,
+        size,
         decrypted: params.decrypt || false,
         downloadedAt: new Date(),
-        hash: fileInfo.hash,
+        hash: params.cid,
+        verified: params.verify || false,
       };
 
       const executionTime = Date.now() - startTime;
       this.logger.info("File fetched successfully", {
         cid: params.cid,
-        size: fileInfo.size,
+        size,
         executionTime,
       });
 
@@ -430,6 +482,7 @@ export class LighthouseService implements ILighthouseService {
     totalSize: number;
     maxSize: number;
     utilization: number;
+    deduplication: DeduplicationStats;
   } {
     // Get stats from database (more accurate)
     const fileCount = this.storage.getFileCount();
@@ -440,9 +493,42 @@ export class LighthouseService implements ILighthouseService {
       totalSize,
       maxSize: Number.MAX_SAFE_INTEGER, // Lighthouse doesn't have a fixed limit
       utilization: 0, // Can't calculate without knowing the limit
+      deduplication: this.storage.getDeduplicationStats(),
     };
   }
 
+  /**
+   * Content hash used for deduplication. Encrypted uploads are never deduplicated,
+   * since their CID depends on the key and access conditions.
+   */
+  private async getContentHash(filePath: string, encrypt?: boolean): Promise<string | undefined> {
+    if (encrypt) {
+      return undefined;
+    }
+    try {
+      return await FileUtils.calculateFileHash(filePath);
+    } catch {
+      // Unreadable files are left to the SDK, which reports the real error
+      return undefined;
+    }
+  }
+
+  /**
+   * Find identical content this account has pinned and count the upload it saves. Content
+   * pinned by another API key is uploaded again so it is pinned under this account too.
+   */
+  private findDuplicate(contentHash: string): StoredFile | undefined {
+    const duplicate = this.storage.findFileByHash(contentHash, this.owner);
+    if (duplicate) {
+      this.storage.recordDuplicateUpload(duplicate.cid);
+      this.logger.info("Reusing pinned content instead of uploading", {
+        cid: duplicate.cid,
+        size: duplicate.size,
+      });
+    }
+    return duplicate;
+  }
+
   /**
    * Get SDK metrics
    */
@@ -456,6 +542,13 @@ export class LighthouseService implements ILighthouseService {
     };
   }
 
+  /**
+   * Subscribe to rate limiter changes
+   */
+  onRateLimit(listener: (state: RateLimitState) => void): void {
+    this.sdk.on("rate_limit", listener);
+  }
+
   /**
    * Generate encryption key with threshold cryptography
    */
@@ -614,30 +707,95 @@ export class LighthouseService implements ILighthouseService {
         fileCount: params.filePaths.length,
       });
 
-      // Use SDK wrapper to create dataset
-      const datasetInfo = await this.sdk.createDataset(params.filePaths, {
-        name: params.name,
-        description: params.description,
-        encrypt: params.encrypt,
-        metadata: params.metadata,
-        tags: params.tags,
+      // Split out files whose content is already pinned or repeated within the dataset
+      const contentHashes = await Promise.all(
+        params.filePaths.map((filePath) => this.getContentHash(filePath, params.encrypt)),
+      );
+      const newPaths: string[] = [];
+      const newHashes: Array<string | undefined> = [];
+      const newIndexByHash = new Map<string, number>();
+      const plan = params.filePaths.map((filePath, index) => {
+        const contentHash = contentHashes[index];
+        if (contentHash) {
+          const duplicate = this.findDuplicate(contentHash);
+          if (duplicate) {
+            return { duplicate };
+          }
+          const newIndex = newIndexByHash.get(contentHash);
+          if (newIndex !== undefined) {
+            return { newIndex, repeated: true };
+          }
+          newIndexByHash.set(contentHash, newPaths.length);
+        }
+        newPaths.push(filePath);
+        newHashes.push(contentHash);
+        return { newIndex: newPaths.length - 1, repeated: false };
       });
 
+      // Use SDK wrapper to upload new content; a dataset of reused content needs no upload
+      const now = new Date();
+      const datasetInfo =
+        newPaths.length > 0
+          ? await this.sdk.createDataset(newPaths, {
+              name: params.name,
+              description: params.description,
+              encrypt: params.encrypt,
+              metadata: params.metadata,
+              tags: params.tags,
+            })
+          : {
+              id: `dataset_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+              name: params.name,
+              description: params.description,
+              files: [],
+              version: "1.0.0",
+              createdAt: now,
+              updatedAt: now,
+              encrypted: false,
+            };
+
+      // Persist newly uploaded files so later uploads can reuse them
+      const uploadedFiles = await Promise.all(
+        newPaths.map(async (filePath, index): Promise<StoredFile> => {
+          const storedFile: StoredFile = {
+            cid: datasetInfo.files[index]!,
+            filePath,
+            size: (await fs.stat(filePath)).size,
+            encrypted: datasetInfo.encrypted,
+            accessConditions: params.accessConditions,
+            tags: params.tags,
+            uploadedAt: datasetInfo.createdAt,
+            pinned: true,
+            hash: newHashes[index] ?? datasetInfo.files[index],
+          };
+          this.storage.saveFile(storedFile, this.owner);
+          this.fileCache.set(storedFile.cid, storedFile);
+          return storedFile;
+        }),
+      );
+
       // Convert SDK DatasetInfo to Dataset type
       const dataset: Dataset = {
         id: datasetInfo.id,
         name: datasetInfo.name,
         description: datasetInfo.description || "",
-        files: datasetInfo.files.map((hash) => ({
-          cid: hash,
-          size: 0, // Would need to fetch individual file info
-          encrypted: datasetInfo.encrypted,
-          accessConditions: params.accessConditions,
-          tags: params.tags,
-          uploadedAt: datasetInfo.createdAt,
-          originalPath: "",
-          hash: hash,
-        })),
+        files: plan.map((entry, index) => {
+          const file = entry.duplicate ?? uploadedFiles[entry.newIndex!]!;
+          if (entry.repeated) {
+            this.storage.recordDuplicateUpload(file.cid);
+          }
+          return {
+            cid: file.cid,
+            size: file.size,
+            encrypted: file.encrypted,
+            accessConditions: file.accessConditions,
+            tags: file.tags,
+            uploadedAt: file.uploadedAt,
+            originalPath: params.filePaths[index]!,
+            hash: file.hash ?? file.cid,
+            deduplicated: entry.duplicate !== undefined || entry.repeated || undefined,
+          };
+        }),
         metadata: {
           author: "AI Agent",
           license: "Custom",
@@ -652,8 +810,8 @@ export class LighthouseService implements ILighthouseService {
         accessConditions: params.accessConditions,
       };
 
-      // Persist to database and cache
-      this.storage.saveDataset(dataset);
+      // Persist to database and cache, starting the version history
+      this.storage.saveDatasetWithVersion(dataset, DatasetVersions.snapshot(dataset));
       this.datasetCache.set(dataset.id, dataset);
 
       this.logger.info("Dataset created successfully", {
@@ -683,44 +841,74 @@ export class LighthouseService implements ILighthouseService {
     try {
       this.logger.info("Updating dataset", { datasetId: params.datasetId });
 
-      // Use SDK wrapper to update dataset
-      const datasetInfo = await this.sdk.updateDataset(params.datasetId, {
-        addFiles: params.addFiles,
-        removeFiles: params.removeFiles,
-        description: params.description,
-        metadata: params.metadata,
-        tags: params.tags,
-      });
+      const existing = await this.getDataset(params.datasetId);
+      if (!existing) {
+        throw new Error(`Dataset not found: ${params.datasetId}`);
+      }
 
-      // Convert SDK DatasetInfo to Dataset type
+      // Use SDK wrapper to upload added files
+      const addFiles = params.addFiles || [];
+      const datasetInfo =
+        addFiles.length > 0
+          ? await this.sdk.updateDataset(params.datasetId, {
+              addFiles,
+              encrypt: existing.encrypted,
+              description: params.description,
+              metadata: params.metadata,
+              tags: params.tags,
+            })
+          : undefined;
+
+      const addedFiles = await Promise.all(
+        addFiles.map(async (filePath, index): Promise<UploadResult> => {
+          const storedFile: StoredFile = {
+            cid: datasetInfo!.files[index]!,
+            filePath,
+            size: (await fs.stat(filePath)).size,
+            encrypted: datasetInfo!.encrypted,
+            tags: params.tags,
+            uploadedAt: datasetInfo!.updatedAt,
+            pinned: true,
+            hash:
+              (await this.getContentHash(filePath, datasetInfo!.encrypted)) ??
+              datasetInfo!.files[index],
+          };
+          this.storage.saveFile(storedFile, this.owner);
+          this.fileCache.set(storedFile.cid, storedFile);
+          return {
+            cid: storedFile.cid,
+            size: storedFile.size,
+            encrypted: storedFile.encrypted,
+            tags: params.tags,
+            uploadedAt: storedFile.uploadedAt,
+            originalPath: filePath,
+            hash: storedFile.hash,
+          };
+        }),
+      );
+
+      // Apply the changes on top of the stored dataset as a new version
+      const removeFiles = new Set(params.removeFiles || []);
       const dataset: Dataset = {
-        id: datasetInfo.id,
-        name: datasetInfo.name,
-        description: datasetInfo.description || "",
-        files: datasetInfo.files.map((hash) => ({
-          cid: hash,
-          size: 0, // Would need to fetch individual file info
-          encrypted: datasetInfo.encrypted,
-          tags: params.tags,
-          uploadedAt: datasetInfo.updatedAt,
-          originalPath: "",
-          hash: hash,
-        })),
+        ...existing,
+        description: params.description ?? existing.description,
+        files: [...existing.files.filter((file) => !removeFiles.has(file.cid)), ...addedFiles],
         metadata: {
-          author: "AI Agent",
-          license: "Custom",
-          category: "AI Generated",
-          keywords: params.tags,
-          custom: params.metadata,
+          ...existing.metadata,
+          keywords: params.tags ?? existing.metadata.keywords,
+          custom: params.metadata
+            ? { ...existing.metadata.custom, ...params.metadata }
+            : existing.metadata.custom,
         },
-        version: datasetInfo.version,
-        createdAt: datasetInfo.createdAt,
-        updatedAt: datasetInfo.updatedAt,
-        encrypted: datasetInfo.encrypted,
+        version: DatasetVersions.next(existing.version),
+        updatedAt: new Date(),
       };
 
       // Persist to database and update cache
-      this.storage.saveDataset(dataset);
+      this.storage.saveDatasetWithVersion(
+        dataset,
+        DatasetVersions.snapshot(dataset, existing.version),
+      );
       this.datasetCache.set(dataset.id, dataset);
 
       this.logger.info("Dataset updated successfully", {
@@ -736,6 +924,140 @@ export class LighthouseService implements ILighthouseService {
     }
   }
 
+  /**
+   * Register a dataset whose files are already stored (e.g. from a manifest) without uploading
+   */
+  async importDataset(dataset: Dataset): Promise<Dataset> {
+    try {
+      this.logger.info("Importing dataset", { id: dataset.id, fileCount: dataset.files.length });
+
+      if (this.storage.getDataset(dataset.id)) {
+        throw new Error(`Dataset already exists: ${dataset.id}`);
+      }
+
+      // Reference the files by CID; they are not pinned by this account
+      for (const file of dataset.files) {
+        if (!this.storage.getFile(file.cid)) {
+          this.storage.saveFile({
+            cid: file.cid,
+            filePath: file.originalPath || "",
+            size: file.size,
+            encrypted: file.encrypted,
+            accessConditions: file.accessConditions,
+            tags: file.tags,
+            uploadedAt: file.uploadedAt,
+            pinned: false,
+            hash: file.hash,
+          });
+        }
+      }
+
+      this.storage.saveDatasetWithVersion(dataset, DatasetVersions.snapshot(dataset));
+      this.datasetCache.set(dataset.id, dataset);
+
+      this.logger.info("Dataset imported successfully", {
+        id: dataset.id,
+        name: dataset.name,
+        version: dataset.version,
+      });
+
+      return dataset;
+    } catch (error) {
+      this.logger.error("Dataset import failed", error as Error, { id: dataset.id });
+      throw error;
+    }
+  }
+
+  /**
+   * List the version history of a dataset, oldest first
+   */
+  async listDatasetVersions(datasetId: string): Promise<DatasetVersion[]> {
+    if (!(await this.getDataset(datasetId))) {
+      throw new Error(`Dataset not found: ${datasetId}`);
+    }
+    return this.storage.listDatasetVersions(datasetId);
+  }
+
+  /**
+   * Compare the files of two versions of a dataset
+   */
+  async diffDatasetVersions(
+    datasetId: string,
+    fromVersion: string,
+    toVersion: string,
+  ): Promise<DatasetVersionDiff> {
+    return DatasetVersions.diff(
+      this.requireDatasetVersion(datasetId, fromVersion),
+      this.requireDatasetVersion(datasetId, toVersion),
+    );
+  }
+
+  /**
+   * Restore the files and metadata of an earlier version as a new version
+   */
+  async rollbackDataset(datasetId: string, version: string): Promise<Dataset> {
+    try {
+      this.logger.info("Rolling back dataset", { datasetId, version });
+
+      const existing = await this.getDataset(datasetId);
+      if (!existing) {
+        throw new Error(`Dataset not found: ${datasetId}`);
+      }
+      const target = this.requireDatasetVersion(datasetId, version);
+
+      // Restore records of files deleted since the snapshot so the dataset can reference them
+      for (const file of target.files) {
+        if (!this.storage.getFile(file.cid)) {
+          this.storage.saveFile({
+            cid: file.cid,
+            filePath: file.originalPath || "",
+            size: file.size,
+            encrypted: file.encrypted,
+            accessConditions: file.accessConditions,
+            tags: file.tags,
+            uploadedAt: file.uploadedAt,
+            pinned: false,
+            hash: file.hash,
+          });
+        }
+      }
+
+      const dataset: Dataset = {
+        ...existing,
+        description: target.description,
+        files: target.files,
+        metadata: target.metadata,
+        version: DatasetVersions.next(existing.version),
+        updatedAt: new Date(),
+      };
+
+      this.storage.saveDatasetWithVersion(
+        dataset,
+        DatasetVersions.snapshot(dataset, existing.version, target.version),
+      );
+      this.datasetCache.set(dataset.id, dataset);
+
+      this.logger.info("Dataset rolled back successfully", {
+        id: dataset.id,
+        restoredFrom: target.version,
+        version: dataset.version,
+      });
+
+      return dataset;
+    } catch (error) {
+      this.logger.error("Dataset rollback failed", error as Error, { datasetId, version });
+      throw error;
+    }
+  }
+
+  private requireDatasetVersion(datasetId: string, version: string): DatasetVersion {
+    const datasetVersion = this.storage.getDatasetVersion(datasetId, version);
+    if (!datasetVersion) {
+      throw new Error(`Dataset version not found: ${datasetId}@${version}`);
+    }
+    return datasetVersion;
+  }
+
   /**
    * Get dataset by ID
    */
@@ -907,15 +1229,41 @@ export class LighthouseService implements ILighthouseService {
         concurrency: options?.concurrency || 3,
       });
 
+      // Only upload content that is neither pinned already nor repeated earlier in the batch
+      const contentHashes = await Promise.all(
+        filePaths.map((filePath) => this.getContentHash(filePath, options?.encrypt)),
+      );
+      const uploadPaths: string[] = [];
+      const uploadIndexByHash = new Map<string, number>();
+      const plan = filePaths.map((filePath, index) => {
+        const contentHash = contentHashes[index];
+        if (contentHash) {
+          const duplicate = this.findDuplicate(contentHash);
+          if (duplicate) {
+            return { duplicate };
+          }
+          const uploadIndex = uploadIndexByHash.get(contentHash);
+          if (uploadIndex !== undefined) {
+            return { uploadIndex, repeated: true };
+          }
+          uploadIndexByHash.set(contentHash, uploadPaths.length);
+        }
+        uploadPaths.push(filePath);
+        return { uploadIndex: uploadPaths.length - 1, repeated: false };
+      });
+
       // Convert string paths to BatchUploadInput objects
-      const inputs: BatchUploadInput[] = filePaths.map((filePath) => ({
+      const inputs: BatchUploadInput[] = uploadPaths.map((filePath) => ({
         filePath,
       }));
 
-      const result = await this.sdk.batchUpload(inputs, options);
+      const uploaded = inputs.length > 0 ? await this.sdk.batchUpload(inputs, options) : undefined;
+      const uploadHashes = new Map<number, string>(
+        [...uploadIndexByHash].map(([contentHash, index]) => [index, contentHash]),
+      );
 
       // Store successful uploads in cache and database
-      for (const fileResult of result.results) {
+      uploaded?.results.forEach((fileResult, index) => {
         if (fileResult.success && fileResult.data) {
           const storedFile: StoredFile = {
             cid: fileResult.data.hash,
@@ -926,13 +1274,50 @@ export class LighthouseService implements ILighthouseService {
             tags: options?.tags,
             uploadedAt: fileResult.data.uploadedAt,
             pinned: true,
-            hash: fileResult.data.hash,
+            hash: uploadHashes.get(index) ?? fileResult.data.hash,
           };
 
-          this.storage.saveFile(storedFile);
+          this.storage.saveFile(storedFile, this.owner);
           this.fileCache.set(fileResult.data.hash, storedFile);
         }
-      }
+      });
+
+      const results: BatchFileResult<FileInfo>[] = plan.map((entry, index) => {
+        const id = `upload_${index}_${filePaths[index]}`;
+        if (entry.duplicate) {
+          return {
+            id,
+            success: true,
+            data: {
+              hash: entry.duplicate.cid,
+              name: filePaths[index]!,
+              size: entry.duplicate.size,
+              mimeType: "application/octet-stream",
+              uploadedAt: entry.duplicate.uploadedAt,
+              encrypted: false,
+            },
+            duration: 0,
+            retries: 0,
+          };
+        }
+        const fileResult = uploaded!.results[entry.uploadIndex!]!;
+        if (entry.repeated && fileResult.success && fileResult.data) {
+          this.storage.recordDuplicateUpload(fileResult.data.hash);
+        }
+        return { ...fileResult, id };
+      });
+
+      const successful = results.filter((r) => r.success).length;
+      const totalDuration = Date.now() - startTime;
+      const result: BatchOperationResult<FileInfo> = {
+        total: filePaths.length,
+        successful,
+        failed: filePaths.length - successful,
+        results,
+        totalDuration,
+        averageDuration: filePaths.length > 0 ? totalDuration / filePaths.length : 0,
+        successRate: filePaths.length > 0 ? successful / filePaths.length : 0,
+      };
 
       const executionTime = Date.now() - startTime;
       this.logger.info("Batch upload completed", {
@@ -2,7 +2,14 @@
  * Mock Lighthouse Service - Simulates Lighthouse file operations
  */
 
-import { UploadResult, DownloadResult, AccessCondition, Dataset } from "@lighthouse-tooling/types";
+import {
+  UploadResult,
+  DownloadResult,
+  AccessCondition,
+  Dataset,
+  DatasetVersion,
+  DatasetVersionDiff,
+} from "@lighthouse-tooling/types";
 import {
   EnhancedAccessCondition,
   BatchUploadOptions,
@@ -10,17 +17,22 @@ import {
   BatchOperationResult,
   BatchDownloadFileResult,
   FileInfo,
+  CIDMismatchError,
+  getCIDVersion,
 } from "@lighthouse-tooling/sdk-wrapper";
 import { Logger, FileUtils } from "@lighthouse-tooling/shared";
 import { CIDGenerator } from "../utils/cid-generator.js";
-import { ILighthouseService, StoredFile } from "./ILighthouseService.js";
+import { DatasetVersions } from "../utils/dataset-versions.js";
+import { ILighthouseService, StoredFile, DeduplicationStats } from "./ILighthouseService.js";
 
 export class MockLighthouseService implements ILighthouseService {
   private fileStore: Map<string, StoredFile> = new Map();
   private datasetStore: Map<string, Dataset> = new Map();
+  private versionStore: Map<string, DatasetVersion[]> = new Map();
   private logger: Logger;
   private maxStorageSize: number;
   private currentStorageSize: number = 0;
+  private deduplication: DeduplicationStats = { duplicateUploads: 0, bytesSaved: 0 };
 
   constructor(maxStorageSize = 1024 * 1024 * 1024, logger?: Logger) {
     this.maxStorageSize = maxStorageSize; // Default 1GB
@@ -69,14 +81,35 @@ export class MockLighthouseService implements ILighthouseService {
         };
       }
 
+      // Compute the content CID; re-uploading identical content takes no extra storage
+      const cid = await CIDGenerator.fromFile(params.filePath);
+      const alreadyStored = this.fileStore.has(cid);
+
+      // Reuse identical unencrypted content that is still pinned
+      const existing = this.fileStore.get(cid);
+      if (existing && existing.pinned && !existing.encrypted && !params.encrypt) {
+        this.deduplication.duplicateUploads++;
+        this.deduplication.bytesSaved += existing.size;
+        this.logger.info("Reusing pinned content instead of uploading", { cid });
+
+        return {
+          cid,
+          size: existing.size,
+          encrypted: false,
+          accessConditions: existing.accessConditions,
+          tags: existing.tags,
+          uploadedAt: existing.uploadedAt,
+          originalPath: params.filePath,
+          hash: existing.hash,
+          deduplicated: true,
+        };
+      }
+
       // Check storage limits
-      if (this.currentStorageSize + fileInfo.size > this.maxStorageSize) {
+      if (!alreadyStored && this.currentStorageSize + fileInfo.size > this.maxStorageSize) {
         throw new Error("Storage quota exceeded");
       }
 
-      // Generate CID
-      const cid = CIDGenerator.generate(params.filePath);
-
       // Simulate upload delay (200-400ms for realistic feel)
       await this.simulateDelay(200, 400);
 
@@ -94,7 +127,9 @@ export class MockLighthouseService implements ILighthouseService {
       };
 
       this.fileStore.set(cid, storedFile);
-      this.currentStorageSize += fileInfo.size;
+      if (!alreadyStored) {
+        this.currentStorageSize += fileInfo.size;
+      }
 
       const result: UploadResult = {
         cid,
@@ -130,6 +165,7 @@ export class MockLighthouseService implements ILighthouseService {
     cid: string;
     outputPath?: string;
     decrypt?: boolean;
+    verify?: boolean;
   }): Promise<DownloadResult> {
     const startTime = Date.now();
 
@@ -150,6 +186,17 @@ export class MockLighthouseService implements ILighthouseService {
       // Simulate download delay (50-200ms)
       await this.simulateDelay(50, 200);
 
+      // Verify the stored content still hashes to the requested CID
+      if (params.verify) {
+        const actualCid = await CIDGenerator.fromFile(
+          storedFile.filePath,
+          getCIDVersion(params.cid) === 1,
+        );
+        if (actualCid !== params.cid) {
+          throw new CIDMismatchError(params.cid, actualCid);
+        }
+      }
+
       const result: DownloadResult = {
         filePath: params.outputPath || storedFile.filePath,
         cid: params.cid,
@@ -157,6 +204,7 @@ export class MockLighthouseService implements ILighthouseService {
         decrypted: params.decrypt || false,
         downloadedAt: new Date(),
         hash: storedFile.hash,
+        verified: params.verify || false,
       };
 
       const executionTime = Date.now() - startTime;
@@ -260,12 +308,14 @@ export class MockLighthouseService implements ILighthouseService {
     totalSize: number;
     maxSize: number;
     utilization: number;
+    deduplication: DeduplicationStats;
   } {
     return {
       fileCount: this.fileStore.size,
       totalSize: this.currentStorageSize,
       maxSize: this.maxStorageSize,
       utilization: (this.currentStorageSize / this.maxStorageSize) * 100,
+      deduplication: { ...this.deduplication },
     };
   }
 
@@ -381,7 +431,9 @@ export class MockLighthouseService implements ILighthouseService {
   clear(): void {
     this.fileStore.clear();
     this.datasetStore.clear();
+    this.versionStore.clear();
     this.currentStorageSize = 0;
+    this.deduplication = { duplicateUploads: 0, bytesSaved: 0 };
     this.logger.info("Mock storage cleared");
   }
 
@@ -441,6 +493,7 @@ export class MockLighthouseService implements ILighthouseService {
       };
 
       this.datasetStore.set(datasetId, dataset);
+      this.versionStore.set(datasetId, [DatasetVersions.snapshot(dataset)]);
 
       const executionTime = Date.now() - startTime;
       this.logger.info("Dataset created successfully", {
@@ -503,16 +556,12 @@ export class MockLighthouseService implements ILighthouseService {
       }
 
       // Update version and timestamp
-      const versionParts = dataset.version.split(".");
-      if (versionParts.length >= 2 && versionParts[1]) {
-        versionParts[1] = String(parseInt(versionParts[1]) + 1);
-        dataset.version = versionParts.join(".");
-      } else {
-        dataset.version = "1.1.0";
-      }
+      const parentVersion = dataset.version;
+      dataset.version = DatasetVersions.next(dataset.version);
       dataset.updatedAt = new Date();
 
       this.datasetStore.set(params.datasetId, dataset);
+      this.recordVersion(DatasetVersions.snapshot(dataset, parentVersion));
 
       this.logger.info("Dataset updated successfully", {
         id: params.datasetId,
@@ -527,6 +576,95 @@ export class MockLighthouseService implements ILighthouseService {
     }
   }
 
+  /**
+   * Register a dataset whose files are already stored (e.g. from a manifest) without uploading
+   */
+  async importDataset(dataset: Dataset): Promise<Dataset> {
+    this.logger.info("Importing dataset", { id: dataset.id, fileCount: dataset.files.length });
+
+    if (this.datasetStore.has(dataset.id)) {
+      throw new Error(`Dataset already exists: ${dataset.id}`);
+    }
+
+    this.datasetStore.set(dataset.id, dataset);
+    this.versionStore.set(dataset.id, [DatasetVersions.snapshot(dataset)]);
+
+    return dataset;
+  }
+
+  /**
+   * List the version history of a dataset, oldest first
+   */
+  async listDatasetVersions(datasetId: string): Promise<DatasetVersion[]> {
+    if (!this.datasetStore.has(datasetId)) {
+      throw new Error(`Dataset not found: ${datasetId}`);
+    }
+    return structuredClone(this.versionStore.get(datasetId) || []);
+  }
+
+  /**
+   * Compare the files of two versions of a dataset
+   */
+  async diffDatasetVersions(
+    datasetId: string,
+    fromVersion: string,
+    toVersion: string,
+  ): Promise<DatasetVersionDiff> {
+    return DatasetVersions.diff(
+      this.requireDatasetVersion(datasetId, fromVersion),
+      this.requireDatasetVersion(datasetId, toVersion),
+    );
+  }
+
+  /**
+   * Restore the files and metadata of an earlier version as a new version
+   */
+  async rollbackDataset(datasetId: string, version: string): Promise<Dataset> {
+    try {
+      this.logger.info("Rolling back dataset", { datasetId, version });
+
+      const dataset = this.datasetStore.get(datasetId);
+      if (!dataset) {
+        throw new Error(`Dataset not found: ${datasetId}`);
+      }
+      const target = this.requireDatasetVersion(datasetId, version);
+
+      const parentVersion = dataset.version;
+      dataset.description = target.description;
+      dataset.files = structuredClone(target.files);
+      dataset.metadata = structuredClone(target.metadata);
+      dataset.version = DatasetVersions.next(dataset.version);
+      dataset.updatedAt = new Date();
+
+      this.recordVersion(DatasetVersions.snapshot(dataset, parentVersion, target.version));
+
+      this.logger.info("Dataset rolled back successfully", {
+        id: datasetId,
+        restoredFrom: target.version,
+        version: dataset.version,
+      });
+
+      return dataset;
+    } catch (error) {
+      this.logger.error("Dataset rollback failed", error as Error, { datasetId, version });
+      throw error;
+    }
+  }
+
+  private recordVersion(version: DatasetVersion): void {
+    const versions = this.versionStore.get(version.datasetId) || [];
+    versions.push(version);
+    this.versionStore.set(version.datasetId, versions);
+  }
+
+  private requireDatasetVersion(datasetId: string, version: string): DatasetVersion {
+    const datasetVersion = this.versionStore.get(datasetId)?.find((v) => v.version === version);
+    if (!datasetVersion) {
+      throw new Error(`Dataset version not found: ${datasetId}@${version}`);
+    }
+    return datasetVersion;
+  }
+
   /**
    * Get dataset by ID
    */
@@ -597,6 +735,7 @@ export class MockLighthouseService implements ILighthouseService {
       }
 
       this.datasetStore.delete(datasetId);
+      this.versionStore.delete(datasetId);
 
       this.logger.info("Dataset deleted successfully", { datasetId });
     } catch (error) {
@@ -716,6 +855,7 @@ export class MockLighthouseService implements ILighthouseService {
           cid,
           outputPath: options?.outputDir ? `${options.outputDir}/${cid}` : undefined,
           decrypt: options?.decrypt,
+          verify: options?.verify,
         });
 
         results.push({
@@ -726,6 +866,7 @@ export class MockLighthouseService implements ILighthouseService {
             filePath: downloadResult.filePath,
             size: downloadResult.size,
             decrypted: downloadResult.decrypted,
+            verified: downloadResult.verified,
           },
           duration: Date.now() - itemStartTime,
           retries: 0,
@@ -7,8 +7,9 @@ import Database from "better-sqlite3";
 import * as path from "node:path";
 import * as fs from "node:fs";
 import { Logger } from "@lighthouse-tooling/shared";
-import type { StoredFile } from "../services/ILighthouseService.js";
-import type { Dataset } from "@lighthouse-tooling/types";
+import type { StoredFile, DeduplicationStats } from "../services/ILighthouseService.js";
+import type { Dataset, DatasetVersion, UploadResult } from "@lighthouse-tooling/types";
+import type { IdempotencyRecord } from "../registry/types.js";
 
 export interface DatabaseConfig {
   /** Database file path */
@@ -25,6 +26,27 @@ const DEFAULT_CONFIG: DatabaseConfig = {
   enableForeignKeys: true,
 };
 
+interface DatasetVersionRow {
+  dataset_id: string;
+  version: string;
+  parent_version: string | null;
+  restored_from: string | null;
+  description: string;
+  files: string;
+  metadata: string;
+  created_at: string;
+}
+
+interface IdempotencyRow {
+  scope: string;
+  key: string;
+  tool_name: string;
+  args_hash: string;
+  result: string;
+  created_at: string;
+  expires_at: string;
+}
+
 /**
  * Database service for persistent storage of files and datasets
  */
@@ -78,6 +100,7 @@ export class DatabaseService {
         uploaded_at TEXT NOT NULL,
         tags TEXT, -- JSON array
         access_conditions TEXT, -- JSON array
+        duplicate_uploads INTEGER NOT NULL DEFAULT 0,
         created_at TEXT NOT NULL DEFAULT (datetime('now')),
         updated_at TEXT NOT NULL DEFAULT (datetime('now'))
       )
@@ -85,6 +108,30 @@ export class DatabaseService {
       )
       .run();
 
+    // Add deduplication counter to files tables created before it existed
+    const fileColumns = this.db.prepare(`PRAGMA table_info(files)`).all() as Array<{
+      name: string;
+    }>;
+    if (!fileColumns.some((column) => column.name === "duplicate_uploads")) {
+      this.db
+        .prepare(`ALTER TABLE files ADD COLUMN duplicate_uploads INTEGER NOT NULL DEFAULT 0`)
+        .run();
+    }
+
+    // Create file_owners table; accounts that pinned each file, which scopes deduplication
+    this.db
+      .prepare(
+        `
+      CREATE TABLE IF NOT EXISTS file_owners (
+        cid TEXT NOT NULL,
+        owner TEXT NOT NULL,
+        PRIMARY KEY (cid, owner),
+        FOREIGN KEY (cid) REFERENCES files(cid) ON DELETE CASCADE
+      )
+    `,
+      )
+      .run();
+
     // Create datasets table
     this.db
       .prepare(
@@ -122,8 +169,47 @@ export class DatabaseService {
       )
       .run();
 
+    // Create dataset_versions table; rows are never updated once written
+    this.db
+      .prepare(
+        `
+      CREATE TABLE IF NOT EXISTS dataset_versions (
+        dataset_id TEXT NOT NULL,
+        version TEXT NOT NULL,
+        parent_version TEXT,
+        restored_from TEXT,
+        description TEXT NOT NULL DEFAULT '',
+        files TEXT NOT NULL, -- JSON array of file snapshots
+        metadata TEXT NOT NULL, -- JSON object
+        created_at TEXT NOT NULL,
+        PRIMARY KEY (dataset_id, version),
+        FOREIGN KEY (dataset_id) REFERENCES datasets(id) ON DELETE CASCADE
+      )
+    `,
+      )
+      .run();
+
+    // Create idempotency_keys table; results of mutating tool calls, kept for retries
+    this.db
+      .prepare(
+        `
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        scope TEXT NOT NULL,
+        key TEXT NOT NULL,
+        tool_name TEXT NOT NULL,
+        args_hash TEXT NOT NULL,
+        result TEXT NOT NULL, -- JSON tool execution result
+        created_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        PRIMARY KEY (scope, key)
+      )
+    `,
+      )
+      .run();
+
     // Create indexes for better query performance
     this.db.prepare(`CREATE INDEX IF NOT EXISTS idx_files_uploaded_at ON files(uploaded_at)`).run();
+    this.db.prepare(`CREATE INDEX IF NOT EXISTS idx_files_hash ON files(hash)`).run();
     this.db
       .prepare(`CREATE INDEX IF NOT EXISTS idx_datasets_created_at ON datasets(created_at)`)
       .run();
@@ -138,14 +224,19 @@ export class DatabaseService {
     this.db
       .prepare(`CREATE INDEX IF NOT EXISTS idx_dataset_files_file_cid ON dataset_files(file_cid)`)
       .run();
+    this.db
+      .prepare(
+        `CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at)`,
+      )
+      .run();
 
     this.logger.info("Database migrations completed");
   }
 
   /**
-   * Save or update a file record
+   * Save or update a file record, recording the account that pinned it when given
    */
-  saveFile(file: StoredFile): void {
+  saveFile(file: StoredFile, owner?: string): void {
     const stmt = this.db.prepare(`
       INSERT INTO files (
         cid, file_path, size, encrypted, pinned, hash, uploaded_at, tags, access_conditions, updated_at
@@ -172,6 +263,12 @@ export class DatabaseService {
       file.tags ? JSON.stringify(file.tags) : null,
       file.accessConditions ? JSON.stringify(file.accessConditions) : null,
     );
+
+    if (owner) {
+      this.db
+        .prepare(`INSERT OR IGNORE INTO file_owners (cid, owner) VALUES (?, ?)`)
+        .run(file.cid, owner);
+    }
   }
 
   /**
@@ -271,6 +368,41 @@ export class DatabaseService {
     stmt.run(cid);
   }
 
+  /**
+   * Find pinned, unencrypted content with the given content hash that the owner pinned
+   */
+  findFileByHash(hash: string, owner: string): StoredFile | undefined {
+    const stmt = this.db.prepare(
+      `SELECT files.cid FROM files JOIN file_owners ON file_owners.cid = files.cid
+       WHERE files.hash = ? AND file_owners.owner = ? AND files.pinned = 1 AND files.encrypted = 0
+       ORDER BY files.uploaded_at LIMIT 1`,
+    );
+    const row = stmt.get(hash, owner) as { cid: string } | undefined;
+    return row ? this.getFile(row.cid) : undefined;
+  }
+
+  /**
+   * Record an upload that reused an existing file instead of uploading again
+   */
+  recordDuplicateUpload(cid: string): void {
+    const stmt = this.db.prepare(
+      `UPDATE files SET duplicate_uploads = duplicate_uploads + 1, updated_at = datetime('now')
+       WHERE cid = ?`,
+    );
+    stmt.run(cid);
+  }
+
+  /**
+   * Get deduplication statistics
+   */
+  getDeduplicationStats(): DeduplicationStats {
+    const stmt = this.db.prepare(
+      `SELECT SUM(duplicate_uploads) as uploads, SUM(duplicate_uploads * size) as bytes FROM files`,
+    );
+    const result = stmt.get() as { uploads: number | null; bytes: number | null };
+    return { duplicateUploads: result.uploads || 0, bytesSaved: result.bytes || 0 };
+  }
+
   /**
    * Save or update a dataset
    */
@@ -495,6 +627,80 @@ export class DatabaseService {
     deleteDatasetStmt.run(datasetId);
   }
 
+  /**
+   * Record an immutable dataset version
+   */
+  saveDatasetVersion(version: DatasetVersion): void {
+    const stmt = this.db.prepare(`
+      INSERT INTO dataset_versions (
+        dataset_id, version, parent_version, restored_from, description, files, metadata, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    try {
+      stmt.run(
+        version.datasetId,
+        version.version,
+        version.parentVersion || null,
+        version.restoredFrom || null,
+        version.description,
+        JSON.stringify(version.files),
+        JSON.stringify(version.metadata),
+        version.createdAt.toISOString(),
+      );
+    } catch (error) {
+      if ((error as { code?: string }).code === "SQLITE_CONSTRAINT_PRIMARYKEY") {
+        throw new Error(`Dataset version already exists: ${version.datasetId}@${version.version}`);
+      }
+      throw error;
+    }
+  }
+  /**
+   * Save a dataset and record its new version in one transaction
+   */
+  saveDatasetWithVersion(dataset: Dataset, version: DatasetVersion): void {
+    this.db.transaction(() => {
+      this.saveDataset(dataset);
+      this.saveDatasetVersion(version);
+    })();
+  }
+
+  /**
+   * Get a dataset version
+   */
+  getDatasetVersion(datasetId: string, version: string): DatasetVersion | undefined {
+    const stmt = this.db.prepare(
+      `SELECT * FROM dataset_versions WHERE dataset_id = ? AND version = ?`,
+    );
+    const row = stmt.get(datasetId, version) as DatasetVersionRow | undefined;
+    return row ? this.rowToDatasetVersion(row) : undefined;
+  }
+
+  /**
+   * List versions of a dataset, oldest first
+   */
+  listDatasetVersions(datasetId: string): DatasetVersion[] {
+    const stmt = this.db.prepare(
+      `SELECT * FROM dataset_versions WHERE dataset_id = ? ORDER BY rowid`,
+    );
+    const rows = stmt.all(datasetId) as DatasetVersionRow[];
+    return rows.map((row) => this.rowToDatasetVersion(row));
+  }
+
+  private rowToDatasetVersion(row: DatasetVersionRow): DatasetVersion {
+    const files = JSON.parse(row.files) as UploadResult[];
+    return {
+      datasetId: row.dataset_id,
+      version: row.version,
+      parentVersion: row.parent_version || undefined,
+      restoredFrom: row.restored_from || undefined,
+      description: row.description,
+      files: files.map((file) => ({ ...file, uploadedAt: new Date(file.uploadedAt) })),
+      metadata: JSON.parse(row.metadata),
+      createdAt: new Date(row.created_at),
+    };
+  }
+
   /**
    * Update file pinned status
    */
@@ -505,6 +711,58 @@ export class DatabaseService {
     stmt.run(pinned ? 1 : 0, cid);
   }
 
+  /**
+   * Save an idempotency record, replacing any earlier record for the same scope and key
+   */
+  saveIdempotencyRecord(record: IdempotencyRecord): void {
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO idempotency_keys (
+        scope, key, tool_name, args_hash, result, created_at, expires_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    stmt.run(
+      record.scope,
+      record.key,
+      record.toolName,
+      record.argsHash,
+      JSON.stringify(record.result),
+      record.createdAt.toISOString(),
+      record.expiresAt.toISOString(),
+    );
+  }
+
+  /**
+   * Get an unexpired idempotency record
+   */
+  getIdempotencyRecord(scope: string, key: string): IdempotencyRecord | undefined {
+    const stmt = this.db.prepare(
+      `SELECT * FROM idempotency_keys WHERE scope = ? AND key = ? AND expires_at > ?`,
+    );
+    const row = stmt.get(scope, key, new Date().toISOString()) as IdempotencyRow | undefined;
+    if (!row) {
+      return undefined;
+    }
+
+    return {
+      scope: row.scope,
+      key: row.key,
+      toolName: row.tool_name,
+      argsHash: row.args_hash,
+      result: JSON.parse(row.result),
+      createdAt: new Date(row.created_at),
+      expiresAt: new Date(row.expires_at),
+    };
+  }
+
+  /**
+   * Delete expired idempotency records
+   */
+  deleteExpiredIdempotencyRecords(): number {
+    const stmt = this.db.prepare(`DELETE FROM idempotency_keys WHERE expires_at <= ?`);
+    return stmt.run(new Date().toISOString()).changes;
+  }
+
   /**
    * Close database connection
    */
@@ -517,8 +775,11 @@ export class DatabaseService {
    * Clear all data (for testing)
    */
   clear(): void {
+    this.db.prepare(`DELETE FROM idempotency_keys`).run();
+    this.db.prepare(`DELETE FROM dataset_versions`).run();
     this.db.prepare(`DELETE FROM dataset_files`).run();
     this.db.prepare(`DELETE FROM datasets`).run();
+    this.db.prepare(`DELETE FROM file_owners`).run();
     this.db.prepare(`DELETE FROM files`).run();
     this.logger.info("Database cleared");
   }
@@ -5,24 +5,44 @@
  */
 
 import { Logger } from "@lighthouse-tooling/shared";
-import type { StoredFile } from "../services/ILighthouseService.js";
-import type { Dataset } from "@lighthouse-tooling/types";
+import type { StoredFile, DeduplicationStats } from "../services/ILighthouseService.js";
+import type { Dataset, DatasetVersion } from "@lighthouse-tooling/types";
+import type { IdempotencyRecord } from "../registry/types.js";
 
 /**
  * Storage service interface that both DatabaseService and InMemoryStorageService implement
  */
 export interface IStorageService {
-  saveFile(file: StoredFile): void;
+  /** Save or update a file record, recording the account that pinned it when given */
+  saveFile(file: StoredFile, owner?: string): void;
   getFile(cid: string): StoredFile | undefined;
   listFiles(limit?: number, offset?: number): StoredFile[];
   getFileCount(): number;
   getTotalSize(): number;
   deleteFile(cid: string): void;
+  /** Find pinned, unencrypted content with the given content hash that the owner pinned */
+  findFileByHash(hash: string, owner: string): StoredFile | undefined;
+  /** Record an upload that reused an existing file instead of uploading again */
+  recordDuplicateUpload(cid: string): void;
+  getDeduplicationStats(): DeduplicationStats;
   saveDataset(dataset: Dataset): void;
   getDataset(datasetId: string): Dataset | undefined;
   listDatasets(limit?: number, offset?: number): { datasets: Dataset[]; total: number };
   deleteDataset(datasetId: string, deleteFiles?: boolean): void;
+  /** Record an immutable dataset version; fails if the version already exists */
+  saveDatasetVersion(version: DatasetVersion): void;
+  /** Save a dataset and record its new version together; neither is saved if either fails */
+  saveDatasetWithVersion(dataset: Dataset, version: DatasetVersion): void;
+  getDatasetVersion(datasetId: string, version: string): DatasetVersion | undefined;
+  /** List versions of a dataset, oldest first */
+  listDatasetVersions(datasetId: string): DatasetVersion[];
   updateFilePinned(cid: string, pinned: boolean): void;
+  /** Save an idempotency record, replacing any earlier record for the same scope and key */
+  saveIdempotencyRecord(record: IdempotencyRecord): void;
+  /** Get an unexpired idempotency record */
+  getIdempotencyRecord(scope: string, key: string): IdempotencyRecord | undefined;
+  /** Delete expired idempotency records, returning how many were removed */
+  deleteExpiredIdempotencyRecords(): number;
   close(): void;
   clear(): void;
 }
@@ -34,6 +54,16 @@ export interface IStorageService {
 export class InMemoryStorageService implements IStorageService {
   private files: Map<string, StoredFile> = new Map();
   private datasets: Map<string, Dataset> = new Map();
+  /** Dataset ID -> version snapshots, oldest first */
+  private datasetVersions: Map<string, DatasetVersion[]> = new Map();
+  /** Content hash -> CID of unencrypted files */
+  private hashIndex: Map<string, string> = new Map();
+  /** CID -> accounts that pinned the file */
+  private fileOwners: Map<string, Set<string>> = new Map();
+  /** CID -> number of uploads deduplicated against it */
+  private duplicateUploads: Map<string, number> = new Map();
+  /** Scope and key -> idempotency record */
+  private idempotencyRecords: Map<string, IdempotencyRecord> = new Map();
   private logger: Logger;
 
   constructor() {
@@ -46,10 +76,17 @@ export class InMemoryStorageService implements IStorageService {
   }
 
   /**
-   * Save or update a file record
+   * Save or update a file record, recording the account that pinned it when given
    */
-  saveFile(file: StoredFile): void {
+  saveFile(file: StoredFile, owner?: string): void {
     this.files.set(file.cid, { ...file });
+    if (file.hash && !file.encrypted) {
+      this.hashIndex.set(file.hash, file.cid);
+    }
+    if (owner) {
+      const owners = this.fileOwners.get(file.cid) ?? new Set<string>();
+      this.fileOwners.set(file.cid, owners.add(owner));
+    }
   }
 
   /**
@@ -96,9 +133,49 @@ export class InMemoryStorageService implements IStorageService {
    * Delete a file record
    */
   deleteFile(cid: string): void {
+    const file = this.files.get(cid);
+    if (file?.hash && this.hashIndex.get(file.hash) === cid) {
+      this.hashIndex.delete(file.hash);
+    }
+    this.duplicateUploads.delete(cid);
+    this.fileOwners.delete(cid);
     this.files.delete(cid);
   }
 
+  /**
+   * Find pinned, unencrypted content with the given content hash that the owner pinned
+   */
+  findFileByHash(hash: string, owner: string): StoredFile | undefined {
+    const cid = this.hashIndex.get(hash);
+    const file = cid ? this.files.get(cid) : undefined;
+    if (!file || !file.pinned || file.encrypted || !this.fileOwners.get(file.cid)?.has(owner)) {
+      return undefined;
+    }
+    return { ...file };
+  }
+
+  /**
+   * Record an upload that reused an existing file instead of uploading again
+   */
+  recordDuplicateUpload(cid: string): void {
+    if (this.files.has(cid)) {
+      this.duplicateUploads.set(cid, (this.duplicateUploads.get(cid) || 0) + 1);
+    }
+  }
+
+  /**
+   * Get deduplication statistics
+   */
+  getDeduplicationStats(): DeduplicationStats {
+    let duplicateUploads = 0;
+    let bytesSaved = 0;
+    for (const [cid, count] of this.duplicateUploads) {
+      duplicateUploads += count;
+      bytesSaved += count * (this.files.get(cid)?.size || 0);
+    }
+    return { duplicateUploads, bytesSaved };
+  }
+
   /**
    * Save or update a dataset
    */
@@ -145,11 +222,48 @@ export class InMemoryStorageService implements IStorageService {
       const dataset = this.datasets.get(datasetId);
       if (dataset) {
         for (const file of dataset.files) {
-          this.files.delete(file.cid);
+          this.deleteFile(file.cid);
         }
       }
     }
     this.datasets.delete(datasetId);
+    this.datasetVersions.delete(datasetId);
+  }
+
+  /**
+   * Record an immutable dataset version
+   */
+  saveDatasetVersion(version: DatasetVersion): void {
+    const versions = this.datasetVersions.get(version.datasetId) || [];
+    if (versions.some((existing) => existing.version === version.version)) {
+      throw new Error(`Dataset version already exists: ${version.datasetId}@${version.version}`);
+    }
+    versions.push(structuredClone(version));
+    this.datasetVersions.set(version.datasetId, versions);
+  }
+
+  /**
+   * Save a dataset and record its new version together
+   */
+  saveDatasetWithVersion(dataset: Dataset, version: DatasetVersion): void {
+    // Recording the version first leaves the dataset untouched when the version exists
+    this.saveDatasetVersion(version);
+    this.saveDataset(dataset);
+  }
+
+  /**
+   * Get a dataset version
+   */
+  getDatasetVersion(datasetId: string, version: string): DatasetVersion | undefined {
+    const found = this.datasetVersions.get(datasetId)?.find((v) => v.version === version);
+    return found ? structuredClone(found) : undefined;
+  }
+
+  /**
+   * List versions of a dataset, oldest first
+   */
+  listDatasetVersions(datasetId: string): DatasetVersion[] {
+    return structuredClone(this.datasetVersions.get(datasetId) || []);
   }
 
   /**
@@ -162,6 +276,35 @@ export class InMemoryStorageService implements IStorageService {
     }
   }
 
+  /**
+   * Save an idempotency record
+   */
+  saveIdempotencyRecord(record: IdempotencyRecord): void {
+    this.idempotencyRecords.set(`${record.scope}\0${record.key}`, structuredClone(record));
+  }
+
+  /**
+   * Get an unexpired idempotency record
+   */
+  getIdempotencyRecord(scope: string, key: string): IdempotencyRecord | undefined {
+    const record = this.idempotencyRecords.get(`${scope}\0${key}`);
+    return record && record.expiresAt.getTime() > Date.now() ? structuredClone(record) : undefined;
+  }
+
+  /**
+   * Delete expired idempotency records
+   */
+  deleteExpiredIdempotencyRecords(): number {
+    let deleted = 0;
+    for (const [id, record] of this.idempotencyRecords) {
+      if (record.expiresAt.getTime() <= Date.now()) {
+        this.idempotencyRecords.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
   /**
    * Close (no-op for in-memory storage)
    */
@@ -175,6 +318,11 @@ export class InMemoryStorageService implements IStorageService {
   clear(): void {
     this.files.clear();
     this.datasets.clear();
+    this.datasetVersions.clear();
+    this.hashIndex.clear();
+    this.fileOwners.clear();
+    this.duplicateUploads.clear();
+    this.idempotencyRecords.clear();
     this.logger.info("In-memory storage cleared");
   }
 }
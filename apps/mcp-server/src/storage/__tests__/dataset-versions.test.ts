@@ -0,0 +1,114 @@
+/**
+ * Dataset version history tests for both storage backends
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import type { Dataset } from "@lighthouse-tooling/types";
+import { DatabaseService } from "../DatabaseService.js";
+import { IStorageService, InMemoryStorageService } from "../InMemoryStorageService.js";
+import { DatasetVersions } from "../../utils/dataset-versions.js";
+
+const backends: Array<[string, (dir: string) => IStorageService]> = [
+  ["InMemoryStorageService", () => new InMemoryStorageService()],
+  ["DatabaseService", (dir) => new DatabaseService({ dbPath: path.join(dir, "storage.db") })],
+];
+
+function dataset(version: string, cids: string[]): Dataset {
+  const now = new Date();
+  return {
+    id: "dataset_1",
+    name: "Training Data",
+    description: `Version ${version}`,
+    files: cids.map((cid) => ({
+      cid,
+      size: 10,
+      encrypted: false,
+      uploadedAt: now,
+      originalPath: `/data/${cid}.csv`,
+    })),
+    metadata: { keywords: ["ml"] },
+    version,
+    createdAt: now,
+    updatedAt: now,
+    encrypted: false,
+  };
+}
+
+describe.each(backends)("%s dataset versions", (_name, createStorage) => {
+  let dir: string;
+  let storage: IStorageService;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "dataset-versions-"));
+    storage = createStorage(dir);
+    storage.saveDataset(dataset("1.0.0", []));
+  });
+
+  afterEach(() => {
+    storage.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should list versions oldest first with their file snapshots", () => {
+    storage.saveDatasetVersion(DatasetVersions.snapshot(dataset("1.0.0", ["a"])));
+    storage.saveDatasetVersion(DatasetVersions.snapshot(dataset("1.1.0", ["a", "b"]), "1.0.0"));
+
+    const versions = storage.listDatasetVersions("dataset_1");
+
+    expect(versions.map((v) => [v.version, v.parentVersion])).toEqual([
+      ["1.0.0", undefined],
+      ["1.1.0", "1.0.0"],
+    ]);
+    expect(versions[1]!.files.map((f) => f.cid)).toEqual(["a", "b"]);
+    expect(versions[1]!.files[0]!.uploadedAt).toBeInstanceOf(Date);
+    expect(storage.getDatasetVersion("dataset_1", "1.0.0")?.metadata.keywords).toEqual(["ml"]);
+  });
+
+  it("should never overwrite a recorded version", () => {
+    storage.saveDatasetVersion(DatasetVersions.snapshot(dataset("1.0.0", ["a"])));
+
+    expect(() =>
+      storage.saveDatasetVersion(DatasetVersions.snapshot(dataset("1.0.0", ["b"]))),
+    ).toThrow("Dataset version already exists");
+    expect(storage.getDatasetVersion("dataset_1", "1.0.0")?.files[0]?.cid).toBe("a");
+  });
+
+  it("should save neither the dataset nor its version when one of them fails", () => {
+    storage.saveDatasetWithVersion(
+      dataset("1.0.0", []),
+      DatasetVersions.snapshot(dataset("1.0.0", [])),
+    );
+
+    const conflicting = { ...dataset("1.0.0", []), description: "Overwritten" };
+    expect(() =>
+      storage.saveDatasetWithVersion(conflicting, DatasetVersions.snapshot(conflicting)),
+    ).toThrow("Dataset version already exists");
+    expect(storage.getDataset("dataset_1")?.description).toBe("Version 1.0.0");
+    expect(storage.listDatasetVersions("dataset_1")).toHaveLength(1);
+  });
+
+  it("should drop the history with the dataset", () => {
+    storage.saveDatasetVersion(DatasetVersions.snapshot(dataset("1.0.0", ["a"])));
+
+    storage.deleteDataset("dataset_1");
+
+    expect(storage.listDatasetVersions("dataset_1")).toEqual([]);
+  });
+});
+
+describe("DatasetVersions.diff", () => {
+  it("should match files by path and report changed CIDs", () => {
+    const from = DatasetVersions.snapshot(dataset("1.0.0", ["a", "b"]));
+    const to = DatasetVersions.snapshot(dataset("1.1.0", ["b", "c"]));
+    to.files[0] = { ...to.files[0]!, cid: "b2" };
+
+    const diff = DatasetVersions.diff(from, to);
+
+    expect(diff.added.map((f) => f.cid)).toEqual(["c"]);
+    expect(diff.removed.map((f) => f.cid)).toEqual(["a"]);
+    expect(diff.changed).toEqual([{ path: "/data/b.csv", from: from.files[1], to: to.files[0] }]);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Content-hash deduplication index tests for both storage backends
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { DatabaseService } from "../DatabaseService.js";
+import { IStorageService, InMemoryStorageService } from "../InMemoryStorageService.js";
+import type { StoredFile } from "../../services/ILighthouseService.js";
+
+const backends: Array<[string, (dir: string) => IStorageService]> = [
+  ["InMemoryStorageService", () => new InMemoryStorageService()],
+  ["DatabaseService", (dir) => new DatabaseService({ dbPath: path.join(dir, "storage.db") })],
+];
+
+function storedFile(overrides: Partial<StoredFile> = {}): StoredFile {
+  return {
+    cid: "QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o",
+    filePath: "/tmp/hello.txt",
+    size: 12,
+    encrypted: false,
+    uploadedAt: new Date(),
+    pinned: true,
+    hash: "a948904f2f0f479b8f8197694b30184b0d2ed1c1cd2a1ec0fb85d299a192a447",
+    ...overrides,
+  };
+}
+
+describe.each(backends)("%s deduplication", (_name, createStorage) => {
+  let dir: string;
+  let storage: IStorageService;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "dedup-storage-"));
+    storage = createStorage(dir);
+  });
+
+  afterEach(() => {
+    storage.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should find pinned files by content hash", () => {
+    const file = storedFile();
+    storage.saveFile(file, "owner-a");
+
+    expect(storage.findFileByHash(file.hash!, "owner-a")?.cid).toBe(file.cid);
+    expect(storage.findFileByHash("unknown", "owner-a")).toBeUndefined();
+  });
+
+  it("should only find files the owner pinned", () => {
+    const file = storedFile();
+    storage.saveFile(file, "owner-a");
+
+    expect(storage.findFileByHash(file.hash!, "owner-b")).toBeUndefined();
+
+    storage.saveFile(file, "owner-b");
+    expect(storage.findFileByHash(file.hash!, "owner-a")?.cid).toBe(file.cid);
+    expect(storage.findFileByHash(file.hash!, "owner-b")?.cid).toBe(file.cid);
+  });
+
+  it("should ignore encrypted and unpinned files", () => {
+    storage.saveFile(storedFile({ encrypted: true }), "owner-a");
+    expect(storage.findFileByHash(storedFile().hash!, "owner-a")).toBeUndefined();
+
+    storage.saveFile(storedFile({ pinned: false }), "owner-a");
+    expect(storage.findFileByHash(storedFile().hash!, "owner-a")).toBeUndefined();
+  });
+
+  it("should count duplicate uploads and bytes saved", () => {
+    const file = storedFile();
+    storage.saveFile(file);
+
+    storage.recordDuplicateUpload(file.cid);
+    storage.recordDuplicateUpload(file.cid);
+
+    expect(storage.getDeduplicationStats()).toEqual({ duplicateUploads: 2, bytesSaved: 24 });
+  });
+
+  it("should forget deleted files", () => {
+    const file = storedFile();
+    storage.saveFile(file, "owner-a");
+    storage.recordDuplicateUpload(file.cid);
+
+    storage.deleteFile(file.cid);
+
+    expect(storage.findFileByHash(file.hash!, "owner-a")).toBeUndefined();
+    expect(storage.getDeduplicationStats()).toEqual({ duplicateUploads: 0, bytesSaved: 0 });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Idempotency record tests for both storage backends
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { DatabaseService } from "../DatabaseService.js";
+import { IStorageService, InMemoryStorageService } from "../InMemoryStorageService.js";
+import { IdempotencyRecord } from "../../registry/types.js";
+
+const backends: Array<[string, (dir: string) => IStorageService]> = [
+  ["InMemoryStorageService", () => new InMemoryStorageService()],
+  ["DatabaseService", (dir) => new DatabaseService({ dbPath: path.join(dir, "storage.db") })],
+];
+
+function record(key: string, ttlMs: number, overrides: Partial<IdempotencyRecord> = {}) {
+  const now = new Date();
+  return {
+    scope: "key_hash_1",
+    key,
+    toolName: "lighthouse_create_dataset",
+    argsHash: "abc123",
+    result: { success: true, data: { datasetId: "dataset_1" }, executionTime: 12 },
+    createdAt: now,
+    expiresAt: new Date(now.getTime() + ttlMs),
+    ...overrides,
+  };
+}
+
+describe.each(backends)("%s idempotency records", (_name, createStorage) => {
+  let dir: string;
+  let storage: IStorageService;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "idempotency-"));
+    storage = createStorage(dir);
+  });
+
+  afterEach(() => {
+    storage.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should save and return a record with its result", () => {
+    storage.saveIdempotencyRecord(record("req-1", 60_000));
+
+    const found = storage.getIdempotencyRecord("key_hash_1", "req-1");
+    expect(found?.argsHash).toBe("abc123");
+    expect(found?.result).toEqual({
+      success: true,
+      data: { datasetId: "dataset_1" },
+      executionTime: 12,
+    });
+    expect(found?.expiresAt).toBeInstanceOf(Date);
+  });
+
+  it("should keep keys of different scopes apart", () => {
+    storage.saveIdempotencyRecord(record("req-1", 60_000));
+
+    expect(storage.getIdempotencyRecord("key_hash_2", "req-1")).toBeUndefined();
+  });
+
+  it("should not return expired records and delete them on request", () => {
+    storage.saveIdempotencyRecord(record("expired", -1));
+    storage.saveIdempotencyRecord(record("live", 60_000));
+
+    expect(storage.getIdempotencyRecord("key_hash_1", "expired")).toBeUndefined();
+    expect(storage.deleteExpiredIdempotencyRecords()).toBe(1);
+    expect(storage.getIdempotencyRecord("key_hash_1", "live")).toBeDefined();
+  });
+
+  it("should replace an earlier record for the same key", () => {
+    storage.saveIdempotencyRecord(record("req-1", -1));
+    storage.saveIdempotencyRecord(record("req-1", 60_000, { argsHash: "def456" }));
+
+    expect(storage.getIdempotencyRecord("key_hash_1", "req-1")?.argsHash).toBe("def456");
+  });
+});
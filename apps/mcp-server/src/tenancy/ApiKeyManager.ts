@@ -0,0 +1,438 @@
+/**
+ * API Key Manager
+ * Issues, rotates, revokes, suspends and expires tenant API keys
+ */
+
+import {
+  Permission,
+  Role,
+  ROLE_PERMISSIONS,
+  TeamMember,
+  TenantApiKey,
+} from "@lighthouse-tooling/types";
+import { Logger } from "@lighthouse-tooling/shared";
+import * as crypto from "crypto";
+import { TenantStore } from "./storage/TenantStore.js";
+
+/**
+ * API Key Manager Options
+ */
+export interface ApiKeyManagerOptions {
+  store: TenantStore;
+  logger: Logger;
+  /** Hours a rotated key keeps working alongside its successor (default 24) */
+  rotationGracePeriodHours?: number;
+  enableAutoExpiry?: boolean;
+  expiryCheckInterval?: number; // milliseconds
+}
+
+/**
+ * Parameters for issuing a new key
+ */
+export interface IssueApiKeyParams {
+  organizationId: string;
+  teamId?: string;
+  name: string;
+  /** The user the key acts as */
+  holder: string;
+  expiresAt?: string;
+  permissions?: Permission[];
+  metadata?: Record<string, any>;
+}
+
+/**
+ * A newly issued key with its secret, which is only available at this point
+ */
+export interface IssuedApiKey {
+  apiKey: TenantApiKey;
+  fullKey: string;
+}
+
+/**
+ * Result of rotating a key
+ */
+export interface ApiKeyRotation extends IssuedApiKey {
+  /** The rotated key, which keeps working until its expiresAt */
+  previous: TenantApiKey;
+}
+
+/**
+ * Rank of each role, so a caller can be compared with a key's holder
+ */
+const ROLE_RANK: Record<Role, number> = {
+  [Role.OWNER]: 4,
+  [Role.ADMIN]: 3,
+  [Role.MEMBER]: 2,
+  [Role.VIEWER]: 1,
+};
+
+/**
+ * API Key Manager - Manages the lifecycle of tenant API keys
+ */
+export class ApiKeyManager {
+  private store: TenantStore;
+  private logger: Logger;
+  private rotationGracePeriodHours: number;
+  private enableAutoExpiry: boolean;
+  private expiryCheckInterval: number;
+  private expiryTimer?: NodeJS.Timeout;
+
+  constructor(options: ApiKeyManagerOptions) {
+    this.store = options.store;
+    this.logger = options.logger;
+    this.rotationGracePeriodHours = options.rotationGracePeriodHours ?? 24;
+    this.enableAutoExpiry = options.enableAutoExpiry ?? true;
+    this.expiryCheckInterval = options.expiryCheckInterval || 3600000; // 1 hour
+
+    if (this.enableAutoExpiry) {
+      this.startAutoExpiryCheck();
+    }
+  }
+
+  /**
+   * Permissions a key may not be scoped to because its holder's role lacks them
+   */
+  public static excessPermissions(
+    holder: TeamMember,
+    permissions: Permission[] = [],
+  ): Permission[] {
+    const rolePermissions = ROLE_PERMISSIONS[holder.role] || [];
+    return permissions.filter((permission) => !rolePermissions.includes(permission));
+  }
+
+  /**
+   * Issue a new key. Scoped permissions must be a subset of the holder's role.
+   */
+  public async issueKey(params: IssueApiKeyParams): Promise<IssuedApiKey> {
+    await this.assertScopeAllowed(params.organizationId, params.holder, params.permissions);
+
+    const keyId = crypto.randomBytes(8).toString("hex");
+    const secret = crypto.randomBytes(32).toString("hex");
+    const fullKey = params.teamId
+      ? `org_${params.organizationId}_team_${params.teamId}_key_${keyId}.${secret}`
+      : `org_${params.organizationId}_key_${keyId}.${secret}`;
+
+    const apiKey: TenantApiKey = {
+      id: keyId,
+      organizationId: params.organizationId,
+      teamId: params.teamId,
+      createdBy: params.holder,
+      name: params.name,
+      key: fullKey,
+      keyHash: crypto.createHash("sha256").update(secret).digest("hex"),
+      createdAt: new Date().toISOString(),
+      expiresAt: params.expiresAt,
+      status: "active",
+      permissions: params.permissions,
+      usageStats: {
+        totalRequests: 0,
+        failedRequests: 0,
+        rateLimitHits: 0,
+        bytesUploaded: 0,
+        bytesDownloaded: 0,
+      },
+      metadata: params.metadata,
+    };
+
+    await this.store.saveApiKey(params.organizationId, apiKey);
+
+    this.logger.info("API key issued", {
+      organizationId: params.organizationId,
+      teamId: params.teamId,
+      keyId,
+    });
+
+    return { apiKey, fullKey };
+  }
+
+  /**
+   * Issue a successor for an active key. The old key keeps working for the grace period,
+   * then expires. The successor inherits the holder, team, scopes and lifetime.
+   *
+   * The successor's secret goes to the caller, so `rotatedBy` must be the holder or hold
+   * at least the holder's role. While both keys work the successor takes a quota slot of
+   * its own; the old key's slot is released when it expires or is revoked.
+   */
+  public async rotateKey(
+    organizationId: string,
+    keyId: string,
+    options: { gracePeriodHours?: number; rotatedBy?: TeamMember } = {},
+  ): Promise<ApiKeyRotation> {
+    const previous = await this.store.getApiKey(organizationId, keyId);
+    if (!previous) {
+      throw new Error(`API key not found: ${keyId}`);
+    }
+    if (previous.status !== "active" || this.isPastExpiry(previous)) {
+      throw new Error(`Only active keys can be rotated (status: ${previous.status})`);
+    }
+    if (previous.rotatedTo) {
+      throw new Error(`API key has already been rotated to ${previous.rotatedTo}`);
+    }
+    if (options.rotatedBy) {
+      await this.assertMayManage(organizationId, previous, options.rotatedBy, "rotate");
+    }
+
+    const graceHours = options.gracePeriodHours ?? this.rotationGracePeriodHours;
+    if (graceHours > 0) {
+      await this.adjustKeyQuota(organizationId, previous.teamId, 1);
+    }
+
+    const now = new Date();
+    const lifetimeMs = previous.expiresAt
+      ? new Date(previous.expiresAt).getTime() - new Date(previous.createdAt).getTime()
+      : undefined;
+
+    const { apiKey, fullKey } = await this.issueKey({
+      organizationId,
+      teamId: previous.teamId,
+      name: previous.name,
+      holder: previous.createdBy,
+      expiresAt: lifetimeMs ? new Date(now.getTime() + lifetimeMs).toISOString() : undefined,
+      permissions: previous.permissions,
+      metadata: { ...previous.metadata, rotatedBy: options.rotatedBy?.userId },
+    });
+    apiKey.rotatedFrom = previous.id;
+    await this.store.saveApiKey(organizationId, apiKey);
+
+    const graceEnd = new Date(now.getTime() + graceHours * 60 * 60 * 1000);
+    if (!previous.expiresAt || graceEnd < new Date(previous.expiresAt)) {
+      previous.expiresAt = graceEnd.toISOString();
+    }
+    previous.rotatedTo = apiKey.id;
+    previous.rotatedAt = now.toISOString();
+    if (graceHours === 0) {
+      previous.status = "expired";
+    }
+    await this.store.saveApiKey(organizationId, previous);
+
+    this.logger.info("API key rotated", {
+      organizationId,
+      keyId,
+      successorId: apiKey.id,
+      expiresAt: previous.expiresAt,
+    });
+
+    return { apiKey, fullKey, previous };
+  }
+
+  /**
+   * Revoke a key immediately and release its quota slot. Like rotation, `revokedBy` must be
+   * the holder or hold at least the holder's role.
+   */
+  public async revokeKey(
+    organizationId: string,
+    keyId: string,
+    revokedBy?: TeamMember,
+  ): Promise<TenantApiKey> {
+    const apiKey = await this.store.getApiKey(organizationId, keyId);
+    if (!apiKey) {
+      throw new Error(`API key not found: ${keyId}`);
+    }
+    if (apiKey.status === "revoked") {
+      return apiKey;
+    }
+    if (revokedBy) {
+      await this.assertMayManage(organizationId, apiKey, revokedBy, "revoke");
+    }
+
+    const heldSlot = this.holdsSlot(apiKey);
+    apiKey.status = "revoked";
+    apiKey.revokedAt = new Date().toISOString();
+    apiKey.metadata = { ...apiKey.metadata, revokedBy: revokedBy?.userId };
+    await this.store.saveApiKey(organizationId, apiKey);
+    if (heldSlot) {
+      await this.adjustKeyQuota(organizationId, apiKey.teamId, -1);
+    }
+
+    this.logger.info("API key revoked", { organizationId, keyId, revokedBy: revokedBy?.userId });
+    return apiKey;
+  }
+
+  /**
+   * Suspend an active key until it is reinstated, e.g. after anomalous usage
+   */
+  public async suspendKey(
+    organizationId: string,
+    keyId: string,
+    reason: string,
+  ): Promise<TenantApiKey> {
+    const apiKey = await this.store.getApiKey(organizationId, keyId);
+    if (!apiKey) {
+      throw new Error(`API key not found: ${keyId}`);
+    }
+    if (apiKey.status !== "active") {
+      return apiKey;
+    }
+
+    apiKey.status = "suspended";
+    apiKey.suspendedAt = new Date().toISOString();
+    apiKey.suspensionReason = reason;
+    await this.store.saveApiKey(organizationId, apiKey);
+
+    this.logger.warn("API key suspended", { organizationId, keyId, reason });
+    return apiKey;
+  }
+
+  /**
+   * Return a suspended key to active use
+   */
+  public async reinstateKey(organizationId: string, keyId: string): Promise<TenantApiKey> {
+    const apiKey = await this.store.getApiKey(organizationId, keyId);
+    if (!apiKey) {
+      throw new Error(`API key not found: ${keyId}`);
+    }
+    if (apiKey.status !== "suspended") {
+      throw new Error(`Only suspended keys can be reinstated (status: ${apiKey.status})`);
+    }
+
+    apiKey.status = "active";
+    delete apiKey.suspendedAt;
+    delete apiKey.suspensionReason;
+    await this.store.saveApiKey(organizationId, apiKey);
+
+    this.logger.info("API key reinstated", { organizationId, keyId });
+    return apiKey;
+  }
+
+  /**
+   * Mark a key past its expiry as expired and release its quota slot. Returns false when
+   * the key is not due, or is already expired or revoked.
+   */
+  public async expireKey(organizationId: string, keyId: string): Promise<boolean> {
+    const apiKey = await this.store.getApiKey(organizationId, keyId);
+    if (!apiKey || !this.holdsSlot(apiKey) || !this.isPastExpiry(apiKey)) {
+      return false;
+    }
+
+    await this.store.updateApiKeyStatus(organizationId, keyId, "expired");
+    await this.adjustKeyQuota(organizationId, apiKey.teamId, -1);
+    return true;
+  }
+
+  /**
+   * Mark keys past their expiry as expired, in one organization or all of them
+   */
+  public async expireKeys(organizationId?: string): Promise<number> {
+    const organizationIds = organizationId
+      ? [organizationId]
+      : (await this.store.listOrganizations()).map((org) => org.id);
+
+    let expired = 0;
+    for (const orgId of organizationIds) {
+      for (const apiKey of await this.store.listApiKeys(orgId)) {
+        if (this.holdsSlot(apiKey) && (await this.expireKey(orgId, apiKey.id))) {
+          expired++;
+        }
+      }
+    }
+
+    if (expired > 0) {
+      this.logger.info("Expired API keys", { organizationId, count: expired });
+    }
+    return expired;
+  }
+
+  /**
+   * Stop auto-expiry check timer
+   */
+  public stop(): void {
+    if (this.expiryTimer) {
+      clearInterval(this.expiryTimer);
+      this.expiryTimer = undefined;
+    }
+  }
+
+  /**
+   * Reject scopes the holder's role does not grant
+   */
+  private async assertScopeAllowed(
+    organizationId: string,
+    holderId: string,
+    permissions?: Permission[],
+  ): Promise<void> {
+    if (!permissions || permissions.length === 0) {
+      return;
+    }
+
+    const holder = await this.store.findTeamMember(organizationId, holderId);
+    if (!holder) {
+      throw new Error(`Key holder not found: ${holderId}`);
+    }
+
+    const excess = ApiKeyManager.excessPermissions(holder, permissions);
+    if (excess.length > 0) {
+      throw new Error(
+        `Key permissions exceed the ${holder.role} role of ${holderId}: ${excess.join(", ")}`,
+      );
+    }
+  }
+
+  /**
+   * Reject a rotation or revocation by a caller ranked below the key's holder. A holder
+   * who is no longer a member is treated as an owner.
+   */
+  private async assertMayManage(
+    organizationId: string,
+    apiKey: TenantApiKey,
+    caller: TeamMember,
+    action: "rotate" | "revoke",
+  ): Promise<void> {
+    if (caller.userId === apiKey.createdBy) {
+      return;
+    }
+
+    const holder = await this.store.findTeamMember(organizationId, apiKey.createdBy);
+    const holderRank = holder ? ROLE_RANK[holder.role] : ROLE_RANK[Role.OWNER];
+    if (ROLE_RANK[caller.role] < holderRank) {
+      throw new Error(
+        `Cannot ${action} a key held by ${apiKey.createdBy}: role ${caller.role} is below ${holder?.role ?? Role.OWNER}`,
+      );
+    }
+  }
+
+  /**
+   * Change the API key count of the key's team, or organization for org-wide keys.
+   * Taking a slot fails when the quota is full.
+   */
+  private async adjustKeyQuota(
+    organizationId: string,
+    teamId: string | undefined,
+    change: number,
+  ): Promise<void> {
+    const quota = await this.store.getQuota(organizationId, teamId);
+    if (!quota) {
+      return;
+    }
+    if (change > 0 && quota.currentApiKeys + change > quota.maxApiKeys) {
+      throw new Error(`API key quota exceeded. Maximum keys: ${quota.maxApiKeys}`);
+    }
+
+    quota.currentApiKeys = Math.max(0, quota.currentApiKeys + change);
+    await this.store.saveQuota(organizationId, quota, teamId);
+  }
+
+  /**
+   * Whether a key still counts against the key quota. Every key that can still be used, or
+   * reinstated, holds a slot; a rotated key keeps its slot until its grace period ends.
+   */
+  private holdsSlot(apiKey: TenantApiKey): boolean {
+    return apiKey.status === "active" || apiKey.status === "suspended";
+  }
+
+  private isPastExpiry(apiKey: TenantApiKey): boolean {
+    return apiKey.expiresAt !== undefined && new Date(apiKey.expiresAt) <= new Date();
+  }
+
+  /**
+   * Start auto-expiry check timer
+   */
+  private startAutoExpiryCheck(): void {
+    this.expiryTimer = setInterval(async () => {
+      try {
+        await this.expireKeys();
+      } catch (error) {
+        this.logger.error("Failed to expire API keys", error as Error);
+      }
+    }, this.expiryCheckInterval);
+  }
+}
@@ -14,6 +14,7 @@ import {
 } from "@lighthouse-tooling/types";
 import { TenantStore } from "./storage/TenantStore.js";
 import { Logger } from "@lighthouse-tooling/shared";
+import * as crypto from "crypto";
 
 /**
  * Default organization initializer options
@@ -119,7 +120,6 @@ export class DefaultOrganizationInitializer {
    * Migrate legacy API key to tenant format
    */
   private async migrateLegacyApiKey(organizationId: string, apiKey: string): Promise<void> {
-    const crypto = require("crypto");
     const keyId = crypto.createHash("sha256").update(apiKey).digest("hex").slice(0, 16);
 
     // Check if already migrated
@@ -7,7 +7,6 @@ import {
   TenantContext,
   TenantResolutionResult,
   TenantErrorCode,
-  Organization,
   Team,
   TeamMember,
   TenantApiKey,
@@ -16,8 +15,10 @@ import {
   ROLE_PERMISSIONS,
 } from "@lighthouse-tooling/types";
 import { TenantStore } from "./storage/TenantStore.js";
+import { ApiKeyManager } from "./ApiKeyManager.js";
 import { rbac } from "../auth/rbac/index.js";
 import { Logger } from "@lighthouse-tooling/shared";
+import * as crypto from "crypto";
 
 /**
  * API Key format: org_{orgId}_team_{teamId}_key_{keyId}.{secret}
@@ -43,6 +44,8 @@ export interface TenantResolverOptions {
   defaultOrganizationId: string;
   /** Enable strict isolation (prevent cross-tenant access) */
   strictIsolation: boolean;
+  /** Marks keys found past their expiry as expired, releasing their quota slot */
+  apiKeyManager?: ApiKeyManager;
 }
 
 /**
@@ -53,12 +56,14 @@ export class TenantResolver {
   private logger: Logger;
   private defaultOrganizationId: string;
   private strictIsolation: boolean;
+  private apiKeyManager?: ApiKeyManager;
 
   constructor(options: TenantResolverOptions) {
     this.store = options.store;
     this.logger = options.logger;
     this.defaultOrganizationId = options.defaultOrganizationId;
     this.strictIsolation = options.strictIsolation;
+    this.apiKeyManager = options.apiKeyManager;
   }
 
   /**
@@ -67,7 +72,7 @@ export class TenantResolver {
   public parseApiKey(apiKey: string): ParsedApiKey {
     // New format: org_{orgId}_team_{teamId}_key_{keyId}.{secret}
     const newFormatRegex =
-      /^org_([a-zA-Z0-9_-]+)(?:_team_([a-zA-Z0-9_-]+))?_key_([a-zA-Z0-9_-]+)\.(.+)$/;
+      /^org_([a-zA-Z0-9_-]+?)(?:_team_([a-zA-Z0-9_-]+?))?_key_([a-zA-Z0-9_-]+)\.(.+)$/;
     const match = apiKey.match(newFormatRegex);
 
     if (match) {
@@ -150,24 +155,37 @@ export class TenantResolver {
         return this.errorResult(TenantErrorCode.API_KEY_NOT_FOUND, `API key not found`);
       }
 
+      // Check the secret before revealing anything about the key's status
+      if (!this.secretMatches(parsed, tenantApiKey)) {
+        return this.errorResult(TenantErrorCode.API_KEY_NOT_FOUND, `API key not found`);
+      }
+
       // Validate API key status
       if (tenantApiKey.status === "revoked") {
         return this.errorResult(TenantErrorCode.API_KEY_REVOKED, `API key has been revoked`);
       }
 
+      if (tenantApiKey.status === "suspended") {
+        return this.errorResult(TenantErrorCode.API_KEY_SUSPENDED, `API key has been suspended`);
+      }
+
       if (tenantApiKey.status === "expired") {
         return this.errorResult(TenantErrorCode.API_KEY_EXPIRED, `API key has expired`);
       }
 
       // Check expiration
       if (tenantApiKey.expiresAt && new Date(tenantApiKey.expiresAt) < new Date()) {
-        // Mark as expired
-        await this.store.updateApiKeyStatus(parsed.organizationId, parsed.keyId, "expired");
+        // Mark as expired now rather than at the next sweep
+        await this.apiKeyManager?.expireKey(parsed.organizationId, parsed.keyId);
         return this.errorResult(TenantErrorCode.API_KEY_EXPIRED, `API key has expired`);
       }
 
       // Load user (the creator of the API key)
-      const user = await this.findUserInTeams(organization, team, tenantApiKey.createdBy);
+      const user = await this.store.findTeamMember(
+        organization.id,
+        tenantApiKey.createdBy,
+        team?.id,
+      );
 
       if (!user) {
         return this.errorResult(
@@ -228,41 +246,17 @@ export class TenantResolver {
   }
 
   /**
-   * Find user in organization or team
-   */
-  private async findUserInTeams(
-    organization: Organization,
-    team: Team | undefined,
-    userId: string,
-  ): Promise<TeamMember | undefined> {
-    // If team is specified, look in team members
-    if (team) {
-      return team.members.find((member) => member.userId === userId);
-    }
-
-    // Otherwise, search across all teams in organization
-    const teams = await this.store.listTeams(organization.id);
-    for (const t of teams) {
-      const member = t.members.find((m) => m.userId === userId);
-      if (member) {
-        return member;
-      }
-    }
-
-    return undefined;
-  }
-
-  /**
-   * Get effective permissions for user
+   * Get effective permissions for user. A key's scoped permissions can only narrow the
+   * holder's role, so a key never grants more than its holder currently has.
    */
   private getEffectivePermissions(user: TeamMember, apiKey: TenantApiKey): Permission[] {
-    // If API key has scoped permissions, use those
+    const rolePermissions = ROLE_PERMISSIONS[user.role] || [];
+
     if (apiKey.permissions && apiKey.permissions.length > 0) {
-      return apiKey.permissions;
+      return apiKey.permissions.filter((permission) => rolePermissions.includes(permission));
     }
 
-    // Otherwise, use role-based permissions
-    return ROLE_PERMISSIONS[user.role] || [];
+    return rolePermissions;
   }
 
   /**
@@ -314,11 +308,21 @@ export class TenantResolver {
     return { success: true };
   }
 
+  /**
+   * Compare the presented secret with the stored key hash in constant time. Migrated legacy
+   * keys store a truncated hash, so only that prefix is compared for them.
+   */
+  private secretMatches(parsed: ParsedApiKey, apiKey: TenantApiKey): boolean {
+    const hash = crypto.createHash("sha256").update(parsed.secret).digest("hex");
+    const presented = Buffer.from(parsed.isLegacy ? hash.slice(0, apiKey.keyHash.length) : hash);
+    const stored = Buffer.from(apiKey.keyHash);
+    return presented.length === stored.length && crypto.timingSafeEqual(presented, stored);
+  }
+
   /**
    * Generate a deterministic key ID from secret (for legacy keys)
    */
   private generateKeyIdFromSecret(secret: string): string {
-    const crypto = require("crypto");
     return crypto.createHash("sha256").update(secret).digest("hex").slice(0, 16);
   }
 
@@ -0,0 +1,234 @@
+/**
+ * Tenant Tool Guard
+ * Enforces RBAC, tenant isolation and quotas around MCP tool execution
+ */
+
+import * as fs from "fs/promises";
+import { TenantContext, TenantErrorCode, Permission } from "@lighthouse-tooling/types";
+import { Logger } from "@lighthouse-tooling/shared";
+import { rbac, getToolPolicy } from "../auth/rbac/index.js";
+import { QuotaManager, QuotaUpdate } from "./quotas/QuotaManager.js";
+import { UsageTracker } from "./quotas/UsageTracker.js";
+import { ToolExecutionResult } from "../registry/types.js";
+
+/**
+ * Tools that transfer file content into storage
+ */
+const UPLOAD_TOOLS = new Set(["lighthouse_upload_file", "lighthouse_batch_upload"]);
+
+/**
+ * Tools that transfer file content out of storage
+ */
+export const DOWNLOAD_TOOLS = new Set(["lighthouse_fetch_file", "lighthouse_batch_download"]);
+
+/**
+ * Tools allowed to target an organization other than the caller's own
+ */
+const CROSS_TENANT_TOOLS = new Set(["lighthouse-create-organization"]);
+
+/**
+ * Extract transferred byte count from single-file or batch tool results
+ */
+export function getTransferredBytes(data: unknown): number {
+  if (!data || typeof data !== "object") {
+    return 0;
+  }
+
+  const record = data as Record<string, unknown>;
+  if (typeof record.size === "number") {
+    return record.size;
+  }
+
+  if (Array.isArray(record.results)) {
+    return record.results.reduce((sum: number, item: unknown) => {
+      const entry = item as { success?: boolean; size?: unknown };
+      return entry?.success && typeof entry.size === "number" ? sum + entry.size : sum;
+    }, 0);
+  }
+
+  return 0;
+}
+
+/**
+ * Authorization decision for a tool call
+ */
+export interface TenantAuthorizationResult {
+  allowed: boolean;
+  reason?: string;
+  errorCode?: TenantErrorCode;
+  missingPermissions?: Permission[];
+}
+
+/**
+ * Tenant Tool Guard Options
+ */
+export interface TenantToolGuardOptions {
+  quotaManager: QuotaManager;
+  usageTracker: UsageTracker;
+  logger: Logger;
+  /** Reject calls whose organizationId argument differs from the caller's organization */
+  strictIsolation: boolean;
+}
+
+/**
+ * Tenant Tool Guard - Runs tenant checks before and usage accounting after tool calls
+ */
+export class TenantToolGuard {
+  private quotaManager: QuotaManager;
+  private usageTracker: UsageTracker;
+  private logger: Logger;
+  private strictIsolation: boolean;
+
+  constructor(options: TenantToolGuardOptions) {
+    this.quotaManager = options.quotaManager;
+    this.usageTracker = options.usageTracker;
+    this.logger = options.logger;
+    this.strictIsolation = options.strictIsolation;
+  }
+
+  /**
+   * Check permissions, isolation and quota before a tool executes
+   */
+  public async authorize(
+    context: TenantContext,
+    toolName: string,
+    args: Record<string, unknown>,
+  ): Promise<TenantAuthorizationResult> {
+    const policy = getToolPolicy(toolName);
+    if (!policy) {
+      return this.deny(
+        TenantErrorCode.PERMISSION_DENIED,
+        `No access policy defined for tool: ${toolName}`,
+      );
+    }
+
+    const decision = rbac.checkAccess(context, policy);
+    if (!decision.granted) {
+      return {
+        ...this.deny(TenantErrorCode.PERMISSION_DENIED, decision.reason),
+        missingPermissions: decision.missingPermissions,
+      };
+    }
+
+    if (
+      this.strictIsolation &&
+      !CROSS_TENANT_TOOLS.has(toolName) &&
+      typeof args.organizationId === "string" &&
+      args.organizationId !== context.organization.id
+    ) {
+      return this.deny(
+        TenantErrorCode.PERMISSION_DENIED,
+        `Cross-tenant access denied for organization: ${args.organizationId}`,
+      );
+    }
+
+    const requestCheck = await this.quotaManager.checkQuota(context, "request", 1);
+    if (!requestCheck.allowed) {
+      return this.deny(TenantErrorCode.QUOTA_EXCEEDED, requestCheck.reason);
+    }
+
+    if (UPLOAD_TOOLS.has(toolName)) {
+      const uploadSize = await this.estimateUploadSize(args);
+      if (uploadSize > 0) {
+        const storageCheck = await this.quotaManager.checkQuota(context, "storage", uploadSize);
+        if (!storageCheck.allowed) {
+          return this.deny(TenantErrorCode.QUOTA_EXCEEDED, storageCheck.reason);
+        }
+      }
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Record quota usage and usage events after a tool executes
+   */
+  public async recordUsage(
+    context: TenantContext,
+    toolName: string,
+    result: ToolExecutionResult,
+    durationMs: number,
+  ): Promise<void> {
+    try {
+      const transferredBytes = result.success ? getTransferredBytes(result.data) : 0;
+      const update: QuotaUpdate = { requests: 1 };
+
+      if (UPLOAD_TOOLS.has(toolName) && transferredBytes > 0) {
+        update.storage = transferredBytes;
+      } else if (DOWNLOAD_TOOLS.has(toolName) && transferredBytes > 0) {
+        update.bandwidth = transferredBytes;
+      }
+
+      await this.quotaManager.recordUsage(context, update);
+
+      const resourceId = this.getResourceId(result.data);
+      if (UPLOAD_TOOLS.has(toolName)) {
+        await this.usageTracker.trackFileUpload(
+          context,
+          transferredBytes,
+          resourceId,
+          durationMs,
+          result.success,
+        );
+      } else if (DOWNLOAD_TOOLS.has(toolName)) {
+        await this.usageTracker.trackFileDownload(
+          context,
+          transferredBytes,
+          resourceId,
+          durationMs,
+          result.success,
+        );
+      } else {
+        await this.usageTracker.trackApiCall(context, toolName, durationMs, result.success);
+      }
+    } catch (error) {
+      // Usage accounting must never fail an otherwise completed tool call
+      this.logger.error("Failed to record tenant usage", error as Error, {
+        organizationId: context.organization.id,
+        teamId: context.team?.id,
+        toolName,
+      });
+    }
+  }
+
+  /**
+   * Estimate bytes an upload tool is about to store from its file arguments
+   */
+  private async estimateUploadSize(args: Record<string, unknown>): Promise<number> {
+    const filePaths: string[] = [];
+    if (typeof args.filePath === "string") {
+      filePaths.push(args.filePath);
+    }
+    if (Array.isArray(args.filePaths)) {
+      filePaths.push(...args.filePaths.filter((p): p is string => typeof p === "string"));
+    }
+
+    let total = 0;
+    for (const filePath of filePaths) {
+      try {
+        const stats = await fs.stat(filePath);
+        total += stats.size;
+      } catch {
+        // Missing files are reported by the tool's own validation
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Extract the affected resource ID (CID) from a tool result
+   */
+  private getResourceId(data: unknown): string {
+    if (data && typeof data === "object" && typeof (data as { cid?: unknown }).cid === "string") {
+      return (data as { cid: string }).cid;
+    }
+    return "";
+  }
+
+  /**
+   * Create a denied authorization result
+   */
+  private deny(errorCode: TenantErrorCode, reason?: string): TenantAuthorizationResult {
+    return { allowed: false, errorCode, reason };
+  }
+}
@@ -0,0 +1,420 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { ApiKeyManager } from "../ApiKeyManager.js";
+import { TenantResolver } from "../TenantResolver.js";
+import { TenantStore } from "../storage/TenantStore.js";
+import { Logger } from "@lighthouse-tooling/shared";
+import { Organization, Permission, Role, Team, UsageQuota } from "@lighthouse-tooling/types";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+
+describe("ApiKeyManager", () => {
+  let manager: ApiKeyManager;
+  let store: TenantStore;
+  let resolver: TenantResolver;
+  let testDir: string;
+  let logger: Logger;
+
+  const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 3600000).toISOString();
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `api-key-manager-test-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+
+    logger = Logger.getInstance({ level: "error", component: "ApiKeyManagerTest" });
+    store = new TenantStore(
+      {
+        rootPath: testDir,
+        organizationPath: (orgId: string) => path.join(testDir, orgId),
+        teamPath: (orgId: string, teamId: string) => path.join(testDir, orgId, "teams", teamId),
+        enableEncryption: false,
+        backendType: "local",
+      },
+      logger,
+    );
+    await store.initialize();
+
+    manager = new ApiKeyManager({ store, logger, enableAutoExpiry: false });
+    resolver = new TenantResolver({
+      store,
+      logger,
+      defaultOrganizationId: "default",
+      strictIsolation: true,
+    });
+
+    const now = new Date().toISOString();
+    const org: Organization = {
+      id: "test-org",
+      name: "test-org",
+      displayName: "Test Organization",
+      createdAt: now,
+      updatedAt: now,
+      ownerId: "admin1",
+      settings: {} as any,
+      status: "active",
+    };
+    const team: Team = {
+      id: "team1",
+      organizationId: "test-org",
+      name: "team1",
+      displayName: "Team 1",
+      createdAt: now,
+      updatedAt: now,
+      ownerId: "admin1",
+      members: [
+        {
+          userId: "owner1",
+          email: "owner@test.com",
+          displayName: "Owner",
+          role: Role.OWNER,
+          joinedAt: now,
+          status: "active",
+        },
+        {
+          userId: "admin1",
+          email: "admin@test.com",
+          displayName: "Admin",
+          role: Role.ADMIN,
+          joinedAt: now,
+          status: "active",
+        },
+        {
+          userId: "viewer1",
+          email: "viewer@test.com",
+          displayName: "Viewer",
+          role: Role.VIEWER,
+          joinedAt: now,
+          status: "active",
+        },
+      ],
+      status: "active",
+    };
+    const quota: UsageQuota = {
+      storageLimit: 1000000,
+      storageUsed: 0,
+      requestLimit: 1000,
+      requestsUsed: 0,
+      bandwidthLimit: 5000000,
+      bandwidthUsed: 0,
+      maxTeams: 10,
+      currentTeams: 1,
+      maxMembersPerTeam: 50,
+      maxApiKeys: 100,
+      currentApiKeys: 0,
+      resetDate: hoursFromNow(24 * 30),
+    };
+
+    await store.saveOrganization(org);
+    await store.saveTeam("test-org", team);
+    await store.saveQuota("test-org", quota);
+    await store.saveQuota("test-org", quota, "team1");
+  });
+
+  afterEach(async () => {
+    manager.stop();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe("issueKey", () => {
+    it("should issue a key that resolves with its scopes", async () => {
+      const { apiKey, fullKey } = await manager.issueKey({
+        organizationId: "test-org",
+        name: "CI",
+        holder: "admin1",
+        permissions: [Permission.FILE_UPLOAD],
+      });
+
+      const result = await resolver.resolveTenant(fullKey);
+
+      expect(apiKey.status).toBe("active");
+      expect(result.success).toBe(true);
+      expect(result.context?.permissions).toEqual([Permission.FILE_UPLOAD]);
+    });
+
+    it("should reject scopes beyond the holder's role", async () => {
+      await expect(
+        manager.issueKey({
+          organizationId: "test-org",
+          name: "Too broad",
+          holder: "viewer1",
+          permissions: [Permission.FILE_LIST, Permission.FILE_DELETE, Permission.API_KEY_CREATE],
+        }),
+      ).rejects.toThrow(
+        "Key permissions exceed the viewer role of viewer1: file:delete, api_key:create",
+      );
+    });
+  });
+
+  describe("rotateKey", () => {
+    it("should keep the old key working for the grace period", async () => {
+      const { apiKey: original, fullKey: originalKey } = await manager.issueKey({
+        organizationId: "test-org",
+        teamId: "team1",
+        name: "Deploy",
+        holder: "admin1",
+        expiresAt: hoursFromNow(24 * 30),
+        permissions: [Permission.FILE_UPLOAD],
+      });
+
+      const rotation = await manager.rotateKey("test-org", original.id, { gracePeriodHours: 2 });
+
+      expect(rotation.apiKey.rotatedFrom).toBe(original.id);
+      expect(rotation.apiKey.teamId).toBe("team1");
+      expect(rotation.apiKey.permissions).toEqual([Permission.FILE_UPLOAD]);
+      expect(rotation.previous.rotatedTo).toBe(rotation.apiKey.id);
+      expect(new Date(rotation.previous.expiresAt!).getTime()).toBeLessThanOrEqual(
+        Date.now() + 2 * 3600000,
+      );
+      expect(new Date(rotation.apiKey.expiresAt!).getTime()).toBeGreaterThan(
+        Date.now() + 29 * 24 * 3600000,
+      );
+      expect((await resolver.resolveTenant(originalKey)).success).toBe(true);
+      expect((await resolver.resolveTenant(rotation.fullKey)).success).toBe(true);
+    });
+
+    it("should expire the old key immediately with no grace period", async () => {
+      const { apiKey, fullKey } = await manager.issueKey({
+        organizationId: "test-org",
+        name: "Leaked",
+        holder: "admin1",
+      });
+
+      await manager.rotateKey("test-org", apiKey.id, { gracePeriodHours: 0 });
+      const result = await resolver.resolveTenant(fullKey);
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe("API_KEY_EXPIRED");
+    });
+
+    it("should only rotate a key once", async () => {
+      const { apiKey } = await manager.issueKey({
+        organizationId: "test-org",
+        name: "Deploy",
+        holder: "admin1",
+      });
+
+      const rotation = await manager.rotateKey("test-org", apiKey.id);
+
+      await expect(manager.rotateKey("test-org", apiKey.id)).rejects.toThrow(
+        `API key has already been rotated to ${rotation.apiKey.id}`,
+      );
+    });
+
+    it("should let the holder or a higher role rotate a key", async () => {
+      const { apiKey } = await manager.issueKey({
+        organizationId: "test-org",
+        name: "Deploy",
+        holder: "admin1",
+      });
+      const owner = (await store.findTeamMember("test-org", "owner1"))!;
+
+      const rotation = await manager.rotateKey("test-org", apiKey.id, { rotatedBy: owner });
+
+      expect(rotation.apiKey.createdBy).toBe("admin1");
+      expect(rotation.apiKey.metadata?.rotatedBy).toBe("owner1");
+    });
+
+    it("should refuse an admin rotating an owner's key", async () => {
+      const { apiKey } = await manager.issueKey({
+        organizationId: "test-org",
+        name: "Owner key",
+        holder: "owner1",
+      });
+      const admin = (await store.findTeamMember("test-org", "admin1"))!;
+
+      await expect(manager.rotateKey("test-org", apiKey.id, { rotatedBy: admin })).rejects.toThrow(
+        "Cannot rotate a key held by owner1: role admin is below owner",
+      );
+      expect((await store.getApiKey("test-org", apiKey.id))?.rotatedTo).toBeUndefined();
+    });
+
+    it("should count the successor against the quota until the old key expires", async () => {
+      const { apiKey } = await manager.issueKey({
+        organizationId: "test-org",
+        teamId: "team1",
+        name: "Deploy",
+        holder: "admin1",
+      });
+      const quota = (await store.getQuota("test-org", "team1"))!;
+      await store.saveQuota("test-org", { ...quota, currentApiKeys: 1 }, "team1");
+
+      const rotation = await manager.rotateKey("test-org", apiKey.id, { gracePeriodHours: 1 });
+      const during = (await store.getQuota("test-org", "team1"))?.currentApiKeys;
+      await store.saveApiKey("test-org", {
+        ...rotation.previous,
+        expiresAt: new Date(Date.now() - 1000).toISOString(),
+      });
+      await manager.expireKeys("test-org");
+      const after = (await store.getQuota("test-org", "team1"))?.currentApiKeys;
+
+      expect(during).toBe(2);
+      expect(after).toBe(1);
+    });
+
+    it("should refuse a rotation that exceeds the key quota", async () => {
+      const { apiKey } = await manager.issueKey({
+        organizationId: "test-org",
+        teamId: "team1",
+        name: "Deploy",
+        holder: "admin1",
+      });
+      const quota = (await store.getQuota("test-org", "team1"))!;
+      await store.saveQuota("test-org", { ...quota, maxApiKeys: 1, currentApiKeys: 1 }, "team1");
+
+      await expect(manager.rotateKey("test-org", apiKey.id)).rejects.toThrow(
+        "API key quota exceeded. Maximum keys: 1",
+      );
+    });
+
+    it("should refuse to rotate a revoked key", async () => {
+      const { apiKey } = await manager.issueKey({
+        organizationId: "test-org",
+        name: "Deploy",
+        holder: "admin1",
+      });
+      await manager.revokeKey("test-org", apiKey.id);
+
+      await expect(manager.rotateKey("test-org", apiKey.id)).rejects.toThrow(
+        "Only active keys can be rotated (status: revoked)",
+      );
+    });
+  });
+
+  describe("revokeKey", () => {
+    it("should reject the key on its next use", async () => {
+      const { apiKey, fullKey } = await manager.issueKey({
+        organizationId: "test-org",
+        name: "Temp",
+        holder: "admin1",
+      });
+
+      const admin = (await store.findTeamMember("test-org", "admin1"))!;
+
+      const revoked = await manager.revokeKey("test-org", apiKey.id, admin);
+      const result = await resolver.resolveTenant(fullKey);
+
+      expect(revoked.revokedAt).toBeDefined();
+      expect(revoked.metadata?.revokedBy).toBe("admin1");
+      expect(result.errorCode).toBe("API_KEY_REVOKED");
+    });
+
+    it("should release the quota slots of a rotated key and its successor", async () => {
+      const { apiKey } = await manager.issueKey({
+        organizationId: "test-org",
+        teamId: "team1",
+        name: "Deploy",
+        holder: "admin1",
+      });
+      const quota = (await store.getQuota("test-org", "team1"))!;
+      await store.saveQuota("test-org", { ...quota, currentApiKeys: 1 }, "team1");
+      const rotation = await manager.rotateKey("test-org", apiKey.id, { gracePeriodHours: 1 });
+
+      await manager.revokeKey("test-org", rotation.apiKey.id);
+      const afterSuccessor = (await store.getQuota("test-org", "team1"))?.currentApiKeys;
+      await manager.revokeKey("test-org", apiKey.id);
+      await manager.revokeKey("test-org", apiKey.id);
+      const afterBoth = (await store.getQuota("test-org", "team1"))?.currentApiKeys;
+
+      expect(afterSuccessor).toBe(1);
+      expect(afterBoth).toBe(0);
+      expect(await manager.expireKeys("test-org")).toBe(0);
+    });
+
+    it("should refuse an admin revoking an owner's key", async () => {
+      const { apiKey } = await manager.issueKey({
+        organizationId: "test-org",
+        name: "Owner key",
+        holder: "owner1",
+      });
+      const admin = (await store.findTeamMember("test-org", "admin1"))!;
+
+      await expect(manager.revokeKey("test-org", apiKey.id, admin)).rejects.toThrow(
+        "Cannot revoke a key held by owner1: role admin is below owner",
+      );
+      expect((await store.getApiKey("test-org", apiKey.id))?.status).toBe("active");
+    });
+  });
+
+  describe("suspendKey", () => {
+    it("should reject the key until it is reinstated", async () => {
+      const { apiKey, fullKey } = await manager.issueKey({
+        organizationId: "test-org",
+        name: "Pipeline",
+        holder: "admin1",
+      });
+
+      const suspended = await manager.suspendKey("test-org", apiKey.id, "bulk download");
+      expect(suspended).toMatchObject({ status: "suspended", suspensionReason: "bulk download" });
+      expect((await resolver.resolveTenant(fullKey)).errorCode).toBe("API_KEY_SUSPENDED");
+
+      const reinstated = await manager.reinstateKey("test-org", apiKey.id);
+      expect(reinstated.status).toBe("active");
+      expect(reinstated.suspendedAt).toBeUndefined();
+      expect((await resolver.resolveTenant(fullKey)).success).toBe(true);
+    });
+
+    it("should leave revoked keys revoked", async () => {
+      const { apiKey } = await manager.issueKey({
+        organizationId: "test-org",
+        name: "Temp",
+        holder: "admin1",
+      });
+      await manager.revokeKey("test-org", apiKey.id);
+
+      const result = await manager.suspendKey("test-org", apiKey.id, "bulk download");
+
+      expect(result.status).toBe("revoked");
+      await expect(manager.reinstateKey("test-org", apiKey.id)).rejects.toThrow(
+        "Only suspended keys can be reinstated",
+      );
+    });
+  });
+
+  describe("expireKeys", () => {
+    it("should mark keys past their expiry as expired", async () => {
+      const { apiKey: stale } = await manager.issueKey({
+        organizationId: "test-org",
+        name: "Stale",
+        holder: "admin1",
+      });
+      stale.expiresAt = hoursFromNow(-1);
+      await store.saveApiKey("test-org", stale);
+      const { apiKey: fresh } = await manager.issueKey({
+        organizationId: "test-org",
+        name: "Fresh",
+        holder: "admin1",
+        expiresAt: hoursFromNow(1),
+      });
+
+      expect(await manager.expireKeys()).toBe(1);
+      expect((await store.getApiKey("test-org", stale.id))?.status).toBe("expired");
+      expect((await store.getApiKey("test-org", fresh.id))?.status).toBe("active");
+    });
+
+    it("should release the slot of a key the resolver finds expired", async () => {
+      const { apiKey, fullKey } = await manager.issueKey({
+        organizationId: "test-org",
+        teamId: "team1",
+        name: "Short-lived",
+        holder: "admin1",
+      });
+      const quota = (await store.getQuota("test-org", "team1"))!;
+      await store.saveQuota("test-org", { ...quota, currentApiKeys: 1 }, "team1");
+      await store.saveApiKey("test-org", { ...apiKey, expiresAt: hoursFromNow(-1) });
+      const managedResolver = new TenantResolver({
+        store,
+        logger,
+        defaultOrganizationId: "default",
+        strictIsolation: true,
+        apiKeyManager: manager,
+      });
+
+      const result = await managedResolver.resolveTenant(fullKey);
+
+      expect(result.errorCode).toBe("API_KEY_EXPIRED");
+      expect((await store.getApiKey("test-org", apiKey.id))?.status).toBe("expired");
+      expect((await store.getQuota("test-org", "team1"))?.currentApiKeys).toBe(0);
+      expect(await manager.expireKeys("test-org")).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { TenantToolGuard } from "../TenantToolGuard.js";
+import { TenantStore } from "../storage/TenantStore.js";
+import { QuotaManager } from "../quotas/QuotaManager.js";
+import { UsageTracker } from "../quotas/UsageTracker.js";
+import { Logger } from "@lighthouse-tooling/shared";
+import {
+  Organization,
+  Role,
+  ROLE_PERMISSIONS,
+  TenantContext,
+  TenantErrorCode,
+  UsageQuota,
+} from "@lighthouse-tooling/types";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+
+describe("TenantToolGuard", () => {
+  let guard: TenantToolGuard;
+  let store: TenantStore;
+  let quotaManager: QuotaManager;
+  let usageTracker: UsageTracker;
+  let testDir: string;
+  let logger: Logger;
+
+  const createQuota = (overrides: Partial<UsageQuota> = {}): UsageQuota => ({
+    storageLimit: 1000,
+    storageUsed: 0,
+    requestLimit: 100,
+    requestsUsed: 0,
+    bandwidthLimit: 1000,
+    bandwidthUsed: 0,
+    maxTeams: 10,
+    currentTeams: 0,
+    maxMembersPerTeam: 50,
+    maxApiKeys: 100,
+    currentApiKeys: 0,
+    resetDate: new Date(Date.now() + 86400000).toISOString(),
+    ...overrides,
+  });
+
+  const createContext = (role: Role, quota: UsageQuota): TenantContext => ({
+    organization: {
+      id: "test-org",
+      name: "test-org",
+      displayName: "Test Org",
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+      ownerId: "user123",
+      settings: {} as any,
+      status: "active",
+    },
+    user: {
+      userId: "user123",
+      email: "user@example.com",
+      displayName: "Test User",
+      role,
+      joinedAt: new Date().toISOString(),
+      status: "active",
+    },
+    apiKey: {
+      id: "key1",
+      organizationId: "test-org",
+      createdBy: "user123",
+      name: "Test Key",
+      key: "org_test-org_key_key1.secret",
+      keyHash: "hash",
+      createdAt: new Date().toISOString(),
+      status: "active",
+    },
+    permissions: ROLE_PERMISSIONS[role],
+    quota,
+  });
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `tenant-guard-test-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+
+    logger = Logger.getInstance({ level: "error", component: "TenantToolGuardTest" });
+    store = new TenantStore(
+      {
+        rootPath: testDir,
+        organizationPath: (orgId: string) => path.join(testDir, orgId),
+        teamPath: (orgId: string, teamId: string) => path.join(testDir, orgId, "teams", teamId),
+        enableEncryption: false,
+        backendType: "local",
+      },
+      logger,
+    );
+    await store.initialize();
+
+    const org: Organization = createContext(Role.OWNER, createQuota()).organization;
+    await store.saveOrganization(org);
+
+    quotaManager = new QuotaManager({ store, logger, enableAutoReset: false });
+    usageTracker = new UsageTracker({ store, logger, enableTracking: true, batchSize: 1 });
+    guard = new TenantToolGuard({ quotaManager, usageTracker, logger, strictIsolation: true });
+  });
+
+  afterEach(async () => {
+    await usageTracker.stop();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe("authorize", () => {
+    it("should allow tools covered by the caller's role", async () => {
+      const context = createContext(Role.MEMBER, createQuota());
+      const result = await guard.authorize(context, "lighthouse_list_datasets", {});
+
+      expect(result.allowed).toBe(true);
+    });
+
+    it("should deny tools outside the caller's role", async () => {
+      const context = createContext(Role.VIEWER, createQuota());
+      const result = await guard.authorize(context, "lighthouse_upload_file", {});
+
+      expect(result.allowed).toBe(false);
+      expect(result.errorCode).toBe(TenantErrorCode.PERMISSION_DENIED);
+      expect(result.missingPermissions).toContain("file:upload");
+    });
+
+    it("should deny tools without an access policy", async () => {
+      const context = createContext(Role.OWNER, createQuota());
+      const result = await guard.authorize(context, "unknown_tool", {});
+
+      expect(result.allowed).toBe(false);
+      expect(result.errorCode).toBe(TenantErrorCode.PERMISSION_DENIED);
+    });
+
+    it("should deny access to another organization under strict isolation", async () => {
+      const context = createContext(Role.OWNER, createQuota());
+      const result = await guard.authorize(context, "lighthouse-view-quota", {
+        organizationId: "other-org",
+      });
+
+      expect(result.allowed).toBe(false);
+      expect(result.reason).toContain("Cross-tenant");
+    });
+
+    it("should deny requests once the request quota is exhausted", async () => {
+      const context = createContext(Role.OWNER, createQuota({ requestsUsed: 100 }));
+      const result = await guard.authorize(context, "lighthouse_list_datasets", {});
+
+      expect(result.allowed).toBe(false);
+      expect(result.errorCode).toBe(TenantErrorCode.QUOTA_EXCEEDED);
+    });
+
+    it("should check storage quota against the upload file size", async () => {
+      const filePath = path.join(testDir, "large.bin");
+      await fs.writeFile(filePath, Buffer.alloc(600));
+
+      const context = createContext(Role.OWNER, createQuota({ storageUsed: 500 }));
+      const result = await guard.authorize(context, "lighthouse_upload_file", { filePath });
+
+      expect(result.allowed).toBe(false);
+      expect(result.errorCode).toBe(TenantErrorCode.QUOTA_EXCEEDED);
+    });
+  });
+
+  describe("recordUsage", () => {
+    it("should record request and storage usage for uploads", async () => {
+      const quota = createQuota();
+      await store.saveQuota("test-org", quota);
+      const context = createContext(Role.OWNER, quota);
+
+      await guard.recordUsage(
+        context,
+        "lighthouse_upload_file",
+        { success: true, data: { cid: "QmTest", size: 250 }, executionTime: 5 },
+        5,
+      );
+
+      const saved = await store.getQuota("test-org");
+      expect(saved?.requestsUsed).toBe(1);
+      expect(saved?.storageUsed).toBe(250);
+
+      const logs = await store.getAuditLogs("test-org");
+      expect(logs[0]?.action).toBe("file_upload");
+      expect(logs[0]?.resourceId).toBe("QmTest");
+    });
+
+    it("should record bandwidth for successful batch downloads", async () => {
+      const quota = createQuota();
+      await store.saveQuota("test-org", quota);
+      const context = createContext(Role.OWNER, quota);
+
+      await guard.recordUsage(
+        context,
+        "lighthouse_batch_download",
+        {
+          success: true,
+          data: {
+            results: [
+              { success: true, size: 100 },
+              { success: false, size: 50 },
+            ],
+          },
+          executionTime: 5,
+        },
+        5,
+      );
+
+      const saved = await store.getQuota("test-org");
+      expect(saved?.bandwidthUsed).toBe(100);
+    });
+
+    it("should not throw when quota persistence fails", async () => {
+      const context = createContext(Role.OWNER, createQuota());
+
+      await expect(
+        guard.recordUsage(
+          context,
+          "lighthouse_list_datasets",
+          { success: true, executionTime: 1 },
+          1,
+        ),
+      ).resolves.toBeUndefined();
+    });
+  });
+});
@@ -4,7 +4,32 @@
 
 export { TenantResolver, type ParsedApiKey, type TenantResolverOptions } from "./TenantResolver.js";
 
-export { TenantStore } from "./storage/TenantStore.js";
+export { TenantStore, type TenantStoreOptions } from "./storage/TenantStore.js";
+
+export {
+  AuditLog,
+  type AuditLogOptions,
+  type AuditLogCompactionResult,
+} from "./storage/AuditLog.js";
+
+export {
+  TenantToolGuard,
+  type TenantAuthorizationResult,
+  type TenantToolGuardOptions,
+} from "./TenantToolGuard.js";
+
+export {
+  ApiKeyManager,
+  type ApiKeyManagerOptions,
+  type IssueApiKeyParams,
+  type IssuedApiKey,
+  type ApiKeyRotation,
+} from "./ApiKeyManager.js";
+
+export {
+  DefaultOrganizationInitializer,
+  type DefaultOrgInitOptions,
+} from "./DefaultOrganizationInitializer.js";
 
 export {
   QuotaManager,
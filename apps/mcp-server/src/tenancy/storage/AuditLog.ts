@@ -0,0 +1,503 @@
+/**
+ * Audit Log
+ * Append-only, hash-chained JSONL audit log with rotation, retention compaction, filtered
+ * queries, export and verification
+ */
+
+import { AuditLogPage, AuditLogQuery, TenantAuditLog } from "@lighthouse-tooling/types";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { Logger } from "@lighthouse-tooling/shared";
+import {
+  AuditAnchor,
+  AuditChain,
+  AuditChainLink,
+  AuditChainVerification,
+  AuditCheckpoint,
+} from "../../utils/audit-chain.js";
+
+/**
+ * File entries are appended to; rotated segments are named audit-log.<rotatedAtMs>.jsonl
+ */
+const ACTIVE_FILE = "audit-log.jsonl";
+const SEGMENT_PATTERN = /^audit-log\.(\d+)\.jsonl$/;
+const CHECKPOINT_FILE = "audit-checkpoints.jsonl";
+const ANCHOR_FILE = "audit-anchor.json";
+
+/**
+ * Default size at which the active file is rotated (10MB)
+ */
+const DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Default page size
+ */
+const DEFAULT_QUERY_LIMIT = 100;
+
+/**
+ * Default number of entries between signed checkpoints
+ */
+const DEFAULT_CHECKPOINT_INTERVAL = 100;
+
+const CSV_COLUMNS: Array<keyof TenantAuditLog> = [
+  "id",
+  "timestamp",
+  "organizationId",
+  "teamId",
+  "userId",
+  "action",
+  "resource",
+  "resourceId",
+  "result",
+  "errorMessage",
+  "ipAddress",
+  "userAgent",
+  "metadata",
+];
+
+/**
+ * Audit Log Options
+ */
+export interface AuditLogOptions {
+  /** Size in bytes at which the active file is rotated into a segment */
+  maxFileSize?: number;
+  /** Entries older than this are dropped when the log is compacted */
+  retentionDays?: number;
+  /** HMAC key for checkpoints; without one no checkpoints are written or checked */
+  signingKey?: string;
+  /** Number of entries between signed checkpoints */
+  checkpointInterval?: number;
+}
+
+/**
+ * Result of compacting an audit log
+ */
+export interface AuditLogCompactionResult {
+  removedEntries: number;
+  removedFiles: number;
+}
+
+interface LogFile {
+  path: string;
+  /** When the segment was rotated; undefined for the active file */
+  rotatedAt?: number;
+}
+
+interface AuditLogCursor {
+  /** ID of the last entry returned */
+  id: string;
+  /** Its timestamp, to resume from if the entry has since been compacted away */
+  timestamp: number;
+}
+
+/**
+ * Audit Log - Reads and writes the audit log files of one directory per organization
+ */
+export class AuditLog {
+  private maxFileSize: number;
+  private retentionDays?: number;
+  private signingKey?: string;
+  private checkpointInterval: number;
+  private logger: Logger;
+  /** Last chained entry per directory, loaded from disk on first append */
+  private heads: Map<string, AuditChainLink | null> = new Map();
+  /** Appends in progress per directory; each must link to the one before */
+  private appendQueues: Map<string, Promise<void>> = new Map();
+
+  constructor(options: AuditLogOptions, logger: Logger) {
+    this.maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+    this.retentionDays = options.retentionDays;
+    this.signingKey = options.signingKey;
+    this.checkpointInterval = options.checkpointInterval ?? DEFAULT_CHECKPOINT_INTERVAL;
+    this.logger = logger;
+  }
+
+  /**
+   * Set the checkpoint signing key once it has been loaded
+   */
+  public setSigningKey(signingKey: string): void {
+    this.signingKey = signingKey;
+  }
+
+  /**
+   * Append an entry, linking it to the previous one and rotating the active file once it
+   * reaches the size limit
+   */
+  public async append(directory: string, entry: TenantAuditLog): Promise<void> {
+    const previous = this.appendQueues.get(directory) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(() => this.write(directory, entry));
+    this.appendQueues.set(directory, current);
+
+    try {
+      await current;
+    } finally {
+      if (this.appendQueues.get(directory) === current) {
+        this.appendQueues.delete(directory);
+      }
+    }
+  }
+
+  /**
+   * Walk the chain from the oldest entry and check it against the signed checkpoints and
+   * compaction anchor
+   */
+  public async verify(directory: string): Promise<AuditChainVerification> {
+    const entries: TenantAuditLog[] = [];
+    for (const file of (await this.listFiles(directory)).reverse()) {
+      entries.push(...(await this.readEntries(file.path)));
+    }
+
+    const checkpoints = await this.readLines<AuditCheckpoint>(
+      path.join(directory, CHECKPOINT_FILE),
+    );
+    return AuditChain.verify(
+      entries,
+      checkpoints,
+      this.signingKey,
+      await this.readAnchor(directory),
+    );
+  }
+
+  /**
+   * Find entries matching a query, most recent first
+   */
+  public async query(directory: string, query: AuditLogQuery = {}): Promise<AuditLogPage> {
+    const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error("limit must be a positive integer");
+    }
+
+    const startTime = this.parseTime("startTime", query.startTime);
+    const endTime = this.parseTime("endTime", query.endTime);
+    const cursor = query.cursor ? this.decodeCursor(query.cursor) : null;
+    let seeking = cursor !== null;
+
+    const entries: TenantAuditLog[] = [];
+
+    for (const file of await this.listFiles(directory)) {
+      // Every entry in a segment was written before it was rotated
+      if (startTime !== undefined && file.rotatedAt !== undefined && file.rotatedAt < startTime) {
+        break;
+      }
+
+      const fileEntries = await this.readEntries(file.path);
+      for (let i = fileEntries.length - 1; i >= 0; i--) {
+        const entry = fileEntries[i]!;
+        const timestamp = Date.parse(entry.timestamp);
+
+        if (seeking) {
+          if (entry.id === cursor!.id) {
+            seeking = false;
+            continue;
+          }
+          if (timestamp >= cursor!.timestamp) {
+            continue;
+          }
+          seeking = false;
+        }
+
+        if (startTime !== undefined && timestamp < startTime) continue;
+        if (endTime !== undefined && timestamp > endTime) continue;
+        if (!this.matches(entry, query)) continue;
+
+        if (entries.length === limit) {
+          return { entries, nextCursor: this.encodeCursor(entries[limit - 1]!) };
+        }
+        entries.push(entry);
+      }
+    }
+
+    return { entries };
+  }
+
+  /**
+   * Export every entry matching a query (ignoring its limit and cursor) as JSON or CSV
+   */
+  public async export(
+    directory: string,
+    query: AuditLogQuery,
+    format: "json" | "csv",
+  ): Promise<{ content: string; count: number }> {
+    const entries: TenantAuditLog[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.query(directory, { ...query, limit: 1000, cursor });
+      entries.push(...page.entries);
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    const content =
+      format === "csv"
+        ? [
+            CSV_COLUMNS.join(","),
+            ...entries.map((entry) =>
+              CSV_COLUMNS.map((column) => this.csvField(entry[column])).join(","),
+            ),
+          ].join("\n") + "\n"
+        : JSON.stringify(entries, null, 2);
+
+    return { content, count: entries.length };
+  }
+
+  /**
+   * Drop entries older than the retention period from rotated segments. Only the oldest
+   * entries are removed so the remaining chain stays intact, and the active file is left
+   * alone so compaction never races with appends. The last entry removed is signed as the
+   * anchor before anything is deleted, so verification can tell compaction from truncation.
+   */
+  public async compact(
+    directory: string,
+    retentionDays: number | undefined = this.retentionDays,
+  ): Promise<AuditLogCompactionResult> {
+    const result: AuditLogCompactionResult = { removedEntries: 0, removedFiles: 0 };
+    if (retentionDays === undefined) {
+      return result;
+    }
+
+    const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+    const segments = (await this.listFiles(directory))
+      .filter((file) => file.rotatedAt !== undefined)
+      .reverse();
+
+    const plan: Array<{ file: LogFile; kept: TenantAuditLog[]; removed: number }> = [];
+    let lastRemoved: AuditChainLink | null = null;
+
+    for (const file of segments) {
+      const entries = await this.readEntries(file.path);
+      const firstKept =
+        file.rotatedAt! < cutoff
+          ? entries.length
+          : entries.findIndex((entry) => Date.parse(entry.timestamp) >= cutoff);
+      const kept = firstKept === -1 ? [] : entries.slice(firstKept);
+      const removed = entries.length - kept.length;
+
+      for (const { sequence, prevHash, hash } of entries.slice(0, removed)) {
+        if (sequence !== undefined && prevHash && hash) {
+          lastRemoved = { sequence, prevHash, hash };
+        }
+      }
+      plan.push({ file, kept, removed });
+      if (kept.length > 0) {
+        break; // Everything after this segment is newer
+      }
+    }
+
+    if (lastRemoved && this.signingKey) {
+      const temp = path.join(directory, `${ANCHOR_FILE}.tmp`);
+      await fs.writeFile(temp, JSON.stringify(AuditChain.anchor(lastRemoved, this.signingKey)));
+      await fs.rename(temp, path.join(directory, ANCHOR_FILE));
+    }
+
+    for (const { file, kept, removed } of plan) {
+      result.removedEntries += removed;
+      if (kept.length === 0) {
+        await fs.rm(file.path, { force: true });
+        result.removedFiles++;
+      } else if (removed > 0) {
+        const temp = `${file.path}.tmp`;
+        await fs.writeFile(temp, kept.map((entry) => JSON.stringify(entry) + "\n").join(""));
+        await fs.rename(temp, file.path);
+      }
+    }
+
+    if (result.removedEntries > 0) {
+      this.logger.info("Audit log compacted", { directory, ...result });
+    }
+
+    return result;
+  }
+
+  /**
+   * Link and write one entry, then checkpoint and rotate as needed
+   */
+  private async write(directory: string, entry: TenantAuditLog): Promise<void> {
+    if (!this.heads.has(directory)) {
+      this.heads.set(directory, await this.loadHead(directory));
+    }
+
+    const linked = AuditChain.link(entry, this.heads.get(directory)!);
+    const activePath = path.join(directory, ACTIVE_FILE);
+    await fs.appendFile(activePath, JSON.stringify(linked) + "\n", "utf-8");
+    this.heads.set(directory, linked);
+
+    if (this.signingKey && linked.sequence % this.checkpointInterval === 0) {
+      const checkpoint = AuditChain.checkpoint(linked, this.signingKey);
+      await fs.appendFile(
+        path.join(directory, CHECKPOINT_FILE),
+        JSON.stringify(checkpoint) + "\n",
+        "utf-8",
+      );
+    }
+
+    const { size } = await fs.stat(activePath);
+    if (size >= this.maxFileSize) {
+      await this.rotate(directory);
+    }
+  }
+
+  /**
+   * Most recent chained entry on disk, or null for a new (or never chained) log
+   */
+  private async loadHead(directory: string): Promise<AuditChainLink | null> {
+    for (const file of await this.listFiles(directory)) {
+      const entries = await this.readEntries(file.path);
+      for (let i = entries.length - 1; i >= 0; i--) {
+        const { sequence, prevHash, hash } = entries[i]!;
+        if (sequence !== undefined && prevHash && hash) {
+          return { sequence, prevHash, hash };
+        }
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Move the active file into a new segment, then compact older segments
+   */
+  private async rotate(directory: string): Promise<void> {
+    let rotatedAt = Date.now();
+    while (await this.exists(path.join(directory, `audit-log.${rotatedAt}.jsonl`))) {
+      rotatedAt++;
+    }
+
+    await fs.rename(
+      path.join(directory, ACTIVE_FILE),
+      path.join(directory, `audit-log.${rotatedAt}.jsonl`),
+    );
+    this.logger.info("Audit log rotated", { directory, rotatedAt });
+
+    await this.compact(directory);
+  }
+
+  /**
+   * Signed record of the last compacted entry, or null if nothing has been compacted
+   */
+  private async readAnchor(directory: string): Promise<AuditAnchor | null> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(directory, ANCHOR_FILE), "utf-8"));
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Audit log files, newest first
+   */
+  private async listFiles(directory: string): Promise<LogFile[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(directory);
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return []; // No audit log yet
+      }
+      throw error;
+    }
+
+    const segments = names
+      .map((name) => ({ name, match: SEGMENT_PATTERN.exec(name) }))
+      .filter(({ match }) => match)
+      .map(({ name, match }) => ({
+        path: path.join(directory, name),
+        rotatedAt: Number(match![1]),
+      }))
+      .sort((a, b) => b.rotatedAt - a.rotatedAt);
+
+    return names.includes(ACTIVE_FILE)
+      ? [{ path: path.join(directory, ACTIVE_FILE) }, ...segments]
+      : segments;
+  }
+
+  /**
+   * Entries of one file, oldest first. Unreadable lines are skipped.
+   */
+  private async readEntries(filePath: string): Promise<TenantAuditLog[]> {
+    return this.readLines<TenantAuditLog>(filePath);
+  }
+
+  /**
+   * Parse a JSONL file, skipping unreadable lines
+   */
+  private async readLines<T>(filePath: string): Promise<T[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, "utf-8");
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return []; // Not written yet, or rotated or compacted away while reading
+      }
+      throw error;
+    }
+
+    const entries: T[] = [];
+    for (const line of content.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        this.logger.warn("Skipping unreadable audit log line", { filePath });
+      }
+    }
+    return entries;
+  }
+
+  private matches(entry: TenantAuditLog, query: AuditLogQuery): boolean {
+    return (
+      (query.userId === undefined || entry.userId === query.userId) &&
+      (query.teamId === undefined || entry.teamId === query.teamId) &&
+      (query.action === undefined || entry.action === query.action) &&
+      (query.resource === undefined || entry.resource === query.resource) &&
+      (query.resourceId === undefined || entry.resourceId === query.resourceId) &&
+      (query.result === undefined || entry.result === query.result)
+    );
+  }
+
+  private parseTime(field: string, value: string | undefined): number | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    const time = Date.parse(value);
+    if (Number.isNaN(time)) {
+      throw new Error(`Invalid ${field}: ${value}`);
+    }
+    return time;
+  }
+
+  private encodeCursor(entry: TenantAuditLog): string {
+    const cursor: AuditLogCursor = { id: entry.id, timestamp: Date.parse(entry.timestamp) };
+    return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+  }
+
+  private decodeCursor(value: string): AuditLogCursor {
+    try {
+      const cursor = JSON.parse(Buffer.from(value, "base64url").toString("utf-8"));
+      if (typeof cursor.id === "string" && typeof cursor.timestamp === "number") {
+        return cursor;
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new Error("Invalid audit log cursor");
+  }
+
+  private csvField(value: unknown): string {
+    if (value === undefined || value === null) {
+      return "";
+    }
+    const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -4,16 +4,39 @@
  */
 
 import {
+  AuditLogPage,
+  AuditLogQuery,
   Organization,
   Team,
+  TeamMember,
   TenantApiKey,
   UsageQuota,
   TenantAuditLog,
   TenantStorageConfig,
 } from "@lighthouse-tooling/types";
+import * as crypto from "crypto";
 import * as fs from "fs/promises";
 import * as path from "path";
 import { Logger } from "@lighthouse-tooling/shared";
+import { AuditLog, AuditLogCompactionResult } from "./AuditLog.js";
+import { AuditChainVerification } from "../../utils/audit-chain.js";
+
+/**
+ * Tenant Store Options
+ */
+export interface TenantStoreOptions {
+  /** Audit log entries older than this are dropped when the log is compacted */
+  auditLogRetentionDays?: number;
+  /** Size in bytes at which an organization's audit log file is rotated */
+  auditLogMaxFileSize?: number;
+  /** HMAC key for audit log checkpoints; read from (or generated at) auditSigningKeyPath if unset */
+  auditSigningKey?: string;
+  /**
+   * File the generated signing key is kept in. Keep it apart from the root path: anyone who
+   * can rewrite the logs and read the key can re-sign them. Defaults to the root path.
+   */
+  auditSigningKeyPath?: string;
+}
 
 /**
  * Tenant Store - Manages persistent storage of tenant data
@@ -22,11 +45,23 @@ export class TenantStore {
   private config: TenantStorageConfig;
   private logger: Logger;
   private memoryCache: Map<string, any>;
+  private auditLog: AuditLog;
+  private auditSigningKey?: string;
+  private auditSigningKeyPath?: string;
 
-  constructor(config: TenantStorageConfig, logger: Logger) {
+  constructor(config: TenantStorageConfig, logger: Logger, options: TenantStoreOptions = {}) {
     this.config = config;
     this.logger = logger;
     this.memoryCache = new Map();
+    this.auditLog = new AuditLog(
+      {
+        retentionDays: options.auditLogRetentionDays,
+        maxFileSize: options.auditLogMaxFileSize,
+      },
+      logger,
+    );
+    this.auditSigningKey = options.auditSigningKey;
+    this.auditSigningKeyPath = options.auditSigningKeyPath;
   }
 
   /**
@@ -35,6 +70,7 @@ export class TenantStore {
   public async initialize(): Promise<void> {
     try {
       await fs.mkdir(this.config.rootPath, { recursive: true });
+      this.auditLog.setSigningKey(this.auditSigningKey ?? (await this.loadSigningKey()));
       this.logger.info("Tenant store initialized", {
         rootPath: this.config.rootPath,
       });
@@ -167,6 +203,28 @@ export class TenantStore {
     return teams;
   }
 
+  /**
+   * Find a member in a team, or in any team of the organization if no team is given
+   */
+  public async findTeamMember(
+    organizationId: string,
+    userId: string,
+    teamId?: string,
+  ): Promise<TeamMember | undefined> {
+    const teams = teamId
+      ? [await this.getTeam(organizationId, teamId)]
+      : await this.listTeams(organizationId);
+
+    for (const team of teams) {
+      const member = team?.members.find((m) => m.userId === userId);
+      if (member) {
+        return member;
+      }
+    }
+
+    return undefined;
+  }
+
   /**
    * Delete team
    */
@@ -252,7 +310,7 @@ export class TenantStore {
   public async updateApiKeyStatus(
     organizationId: string,
     keyId: string,
-    status: "active" | "revoked" | "expired",
+    status: TenantApiKey["status"],
   ): Promise<void> {
     const apiKey = await this.getApiKey(organizationId, keyId);
     if (!apiKey) {
@@ -370,10 +428,7 @@ export class TenantStore {
    * Append audit log entry
    */
   public async appendAuditLog(organizationId: string, entry: TenantAuditLog): Promise<void> {
-    const auditLogPath = path.join(this.getOrganizationPath(organizationId), "audit-log.jsonl");
-
-    const line = JSON.stringify(entry) + "\n";
-    await fs.appendFile(auditLogPath, line, "utf-8");
+    await this.auditLog.append(this.getOrganizationPath(organizationId), entry);
   }
 
   /**
@@ -383,32 +438,108 @@ export class TenantStore {
     organizationId: string,
     limit: number = 100,
   ): Promise<TenantAuditLog[]> {
-    const auditLogPath = path.join(this.getOrganizationPath(organizationId), "audit-log.jsonl");
+    const page = await this.queryAuditLogs(organizationId, { limit });
+    return page.entries;
+  }
 
-    try {
-      const content = await fs.readFile(auditLogPath, "utf-8");
-      const lines = content.trim().split("\n");
-      const logs: TenantAuditLog[] = [];
-
-      // Read from end (most recent first)
-      for (let i = lines.length - 1; i >= 0 && logs.length < limit; i--) {
-        const line = lines[i];
-        if (line && line.trim()) {
-          logs.push(JSON.parse(line));
-        }
-      }
+  /**
+   * Query audit logs, most recent first, one page at a time
+   */
+  public async queryAuditLogs(
+    organizationId: string,
+    query: AuditLogQuery = {},
+  ): Promise<AuditLogPage> {
+    return this.auditLog.query(this.getOrganizationPath(organizationId), query);
+  }
 
-      return logs;
+  /**
+   * Export every audit log entry matching a query
+   */
+  public async exportAuditLogs(
+    organizationId: string,
+    query: AuditLogQuery,
+    format: "json" | "csv",
+  ): Promise<{ content: string; count: number }> {
+    return this.auditLog.export(this.getOrganizationPath(organizationId), query, format);
+  }
+
+  /**
+   * Write an audit log export to the organization's export directory
+   *
+   * @returns The path the export was written to
+   */
+  public async writeAuditExport(
+    organizationId: string,
+    fileName: string,
+    content: string,
+  ): Promise<string> {
+    if (path.basename(fileName) !== fileName || fileName === "." || fileName === "..") {
+      throw new Error(`Invalid export file name: ${fileName}`);
+    }
+
+    const exportDir = path.join(this.getOrganizationPath(organizationId), "audit-exports");
+    await fs.mkdir(exportDir, { recursive: true });
+    const exportPath = path.join(exportDir, fileName);
+    await fs.writeFile(exportPath, content, { encoding: "utf-8", mode: 0o600 });
+    return exportPath;
+  }
+
+  /**
+   * Drop audit log entries older than the retention period
+   */
+  public async compactAuditLogs(organizationId: string): Promise<AuditLogCompactionResult> {
+    return this.auditLog.compact(this.getOrganizationPath(organizationId));
+  }
+
+  /**
+   * Check that no audit log entry has been edited, removed or reordered
+   */
+  public async verifyAuditLog(organizationId: string): Promise<AuditChainVerification> {
+    return this.auditLog.verify(this.getOrganizationPath(organizationId));
+  }
+
+  // ==================== Helper Methods ====================
+
+  /**
+   * Read the audit checkpoint signing key, creating it on first use. A key generated under
+   * the root path before auditSigningKeyPath was set is moved there.
+   */
+  private async loadSigningKey(): Promise<string> {
+    const legacyPath = path.join(this.config.rootPath, "audit-signing.key");
+    const keyPath = this.auditSigningKeyPath ?? legacyPath;
+
+    if (!path.relative(this.config.rootPath, keyPath).startsWith("..")) {
+      this.logger.warn("Audit signing key is stored alongside the audit logs", { keyPath });
+    }
+
+    const existing = await this.readSigningKey(keyPath);
+    if (existing) {
+      return existing;
+    }
+
+    const legacy = keyPath === legacyPath ? null : await this.readSigningKey(legacyPath);
+    const key = legacy ?? crypto.randomBytes(32).toString("hex");
+    await fs.mkdir(path.dirname(keyPath), { recursive: true });
+    await fs.writeFile(keyPath, key, { encoding: "utf-8", mode: 0o600 });
+
+    if (legacy) {
+      await fs.rm(legacyPath, { force: true });
+      this.logger.info("Moved audit signing key out of the tenancy root", { keyPath });
+    }
+    return key;
+  }
+
+  private async readSigningKey(keyPath: string): Promise<string | null> {
+    try {
+      return (await fs.readFile(keyPath, "utf-8")).trim();
     } catch (error: any) {
       if (error.code === "ENOENT") {
-        return []; // No audit log yet
+        return null;
       }
       throw error;
     }
   }
 
-  // ==================== Helper Methods ====================
-
   /**
    * Get organization directory path
    */
@@ -0,0 +1,309 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { AuditLog } from "../AuditLog.js";
+import { Logger } from "@lighthouse-tooling/shared";
+import { TenantAuditLog } from "@lighthouse-tooling/types";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function entry(id: number, overrides: Partial<TenantAuditLog> = {}): TenantAuditLog {
+  return {
+    id: `log_${id}`,
+    organizationId: "test-org",
+    userId: "alice",
+    action: "lighthouse_update_dataset",
+    resource: "dataset",
+    resourceId: "dataset_1",
+    timestamp: new Date(Date.UTC(2026, 0, 1, 0, id)).toISOString(),
+    result: "success",
+    ...overrides,
+  };
+}
+
+describe("AuditLog", () => {
+  let auditLog: AuditLog;
+  let testDir: string;
+  let logger: Logger;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `audit-log-test-${Date.now()}`);
+    await fs.mkdir(testDir, { recursive: true });
+
+    logger = Logger.getInstance({ level: "error", component: "AuditLogTest" });
+    auditLog = new AuditLog({}, logger);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe("Querying", () => {
+    it("should return an empty page before anything is logged", async () => {
+      expect(await auditLog.query(testDir)).toEqual({ entries: [] });
+    });
+
+    it("should filter by actor, action, resource and outcome, most recent first", async () => {
+      await auditLog.append(testDir, entry(1));
+      await auditLog.append(testDir, entry(2, { userId: "bob", action: "delete_dataset" }));
+      await auditLog.append(testDir, entry(3, { userId: "bob", resourceId: "dataset_2" }));
+      await auditLog.append(testDir, entry(4, { userId: "bob", result: "failure" }));
+
+      const byBob = await auditLog.query(testDir, { userId: "bob" });
+      expect(byBob.entries.map((e) => e.id)).toEqual(["log_4", "log_3", "log_2"]);
+
+      const deleted = await auditLog.query(testDir, {
+        action: "delete_dataset",
+        resource: "dataset",
+        resourceId: "dataset_1",
+      });
+      expect(deleted.entries.map((e) => e.userId)).toEqual(["bob"]);
+
+      const failures = await auditLog.query(testDir, { result: "failure" });
+      expect(failures.entries.map((e) => e.id)).toEqual(["log_4"]);
+    });
+
+    it("should filter by time range", async () => {
+      for (let i = 1; i <= 5; i++) {
+        await auditLog.append(testDir, entry(i));
+      }
+
+      const page = await auditLog.query(testDir, {
+        startTime: entry(2).timestamp,
+        endTime: entry(4).timestamp,
+      });
+
+      expect(page.entries.map((e) => e.id)).toEqual(["log_4", "log_3", "log_2"]);
+    });
+
+    it("should page through matches with a cursor", async () => {
+      for (let i = 1; i <= 5; i++) {
+        await auditLog.append(testDir, entry(i));
+      }
+
+      const first = await auditLog.query(testDir, { limit: 2 });
+      const second = await auditLog.query(testDir, { limit: 2, cursor: first.nextCursor });
+      const third = await auditLog.query(testDir, { limit: 2, cursor: second.nextCursor });
+
+      expect(first.entries.map((e) => e.id)).toEqual(["log_5", "log_4"]);
+      expect(second.entries.map((e) => e.id)).toEqual(["log_3", "log_2"]);
+      expect(third.entries.map((e) => e.id)).toEqual(["log_1"]);
+      expect(third.nextCursor).toBeUndefined();
+    });
+
+    it("should skip unreadable lines", async () => {
+      await auditLog.append(testDir, entry(1));
+      await fs.appendFile(path.join(testDir, "audit-log.jsonl"), "{not json\n");
+      await auditLog.append(testDir, entry(2));
+
+      const page = await auditLog.query(testDir);
+
+      expect(page.entries.map((e) => e.id)).toEqual(["log_2", "log_1"]);
+    });
+
+    it("should reject invalid times and cursors", async () => {
+      await expect(auditLog.query(testDir, { startTime: "yesterday" })).rejects.toThrow(
+        "Invalid startTime: yesterday",
+      );
+      await expect(auditLog.query(testDir, { cursor: "bogus" })).rejects.toThrow(
+        "Invalid audit log cursor",
+      );
+    });
+  });
+
+  describe("Rotation and Compaction", () => {
+    it("should rotate the active file and keep querying across segments", async () => {
+      auditLog = new AuditLog({ maxFileSize: 400 }, logger);
+      for (let i = 1; i <= 8; i++) {
+        await auditLog.append(testDir, entry(i));
+      }
+
+      const files = await fs.readdir(testDir);
+      expect(files.filter((name) => /^audit-log\.\d+\.jsonl$/.test(name)).length).toBeGreaterThan(
+        0,
+      );
+
+      const page = await auditLog.query(testDir, { limit: 3 });
+      const rest = await auditLog.query(testDir, { cursor: page.nextCursor });
+      expect([...page.entries, ...rest.entries].map((e) => e.id)).toEqual([
+        "log_8",
+        "log_7",
+        "log_6",
+        "log_5",
+        "log_4",
+        "log_3",
+        "log_2",
+        "log_1",
+      ]);
+    });
+
+    it("should drop expired entries and segments but never touch the active file", async () => {
+      const old = new Date(Date.now() - 100 * DAY).toISOString();
+      const recent = new Date().toISOString();
+      const line = (e: TenantAuditLog) => JSON.stringify(e) + "\n";
+
+      await fs.writeFile(
+        path.join(testDir, `audit-log.${Date.now() - 95 * DAY}.jsonl`),
+        line(entry(1, { timestamp: old })),
+      );
+      await fs.writeFile(
+        path.join(testDir, `audit-log.${Date.now() - DAY}.jsonl`),
+        line(entry(2, { timestamp: old })) + line(entry(3, { timestamp: recent })),
+      );
+      await fs.writeFile(
+        path.join(testDir, "audit-log.jsonl"),
+        line(entry(4, { timestamp: old })) + line(entry(5, { timestamp: recent })),
+      );
+
+      const result = await auditLog.compact(testDir, 90);
+
+      expect(result).toEqual({ removedEntries: 2, removedFiles: 1 });
+      const page = await auditLog.query(testDir);
+      expect(page.entries.map((e) => e.id)).toEqual(["log_5", "log_4", "log_3"]);
+    });
+
+    it("should not compact without a retention period", async () => {
+      await auditLog.append(testDir, entry(1));
+
+      expect(await auditLog.compact(testDir)).toEqual({ removedEntries: 0, removedFiles: 0 });
+    });
+  });
+
+  describe("Hash Chain", () => {
+    const readActive = async () =>
+      (await fs.readFile(path.join(testDir, "audit-log.jsonl"), "utf-8"))
+        .trim()
+        .split("\n")
+        .map((line) => JSON.parse(line));
+
+    it("should chain entries across rotation and restarts", async () => {
+      auditLog = new AuditLog({ maxFileSize: 400, signingKey: "secret" }, logger);
+      for (let i = 1; i <= 4; i++) {
+        await auditLog.append(testDir, entry(i));
+      }
+
+      const restarted = new AuditLog({ maxFileSize: 400, signingKey: "secret" }, logger);
+      await restarted.append(testDir, entry(5));
+
+      const [latest] = (await restarted.query(testDir, { limit: 1 })).entries;
+      expect(latest?.sequence).toBe(5);
+      expect(await restarted.verify(testDir)).toMatchObject({ valid: true, entriesChecked: 5 });
+    });
+
+    it("should keep the chain intact when appends run concurrently", async () => {
+      await Promise.all([1, 2, 3, 4, 5].map((i) => auditLog.append(testDir, entry(i))));
+
+      expect((await auditLog.verify(testDir)).valid).toBe(true);
+    });
+
+    it("should report the first edited entry", async () => {
+      for (let i = 1; i <= 3; i++) {
+        await auditLog.append(testDir, entry(i));
+      }
+
+      const lines = await readActive();
+      lines[1].userId = "someone-else";
+      await fs.writeFile(
+        path.join(testDir, "audit-log.jsonl"),
+        lines.map((line) => JSON.stringify(line) + "\n").join(""),
+      );
+
+      const result = await auditLog.verify(testDir);
+      expect(result.valid).toBe(false);
+      expect(result.brokenLink).toMatchObject({ index: 1, sequence: 2 });
+    });
+
+    it("should write signed checkpoints that catch a rewritten chain", async () => {
+      auditLog = new AuditLog({ signingKey: "secret", checkpointInterval: 2 }, logger);
+      for (let i = 1; i <= 4; i++) {
+        await auditLog.append(testDir, entry(i));
+      }
+
+      // Drop the newest entry; the checkpoint at sequence 4 no longer has an entry
+      const lines = await readActive();
+      await fs.writeFile(
+        path.join(testDir, "audit-log.jsonl"),
+        lines
+          .slice(0, 3)
+          .map((line) => JSON.stringify(line) + "\n")
+          .join(""),
+      );
+
+      const result = await auditLog.verify(testDir);
+      expect(result.checkpointsChecked).toBe(2);
+      expect(result.brokenLink?.reason).toBe(
+        "Entries up to sequence 4 are missing from the end of the log",
+      );
+    });
+
+    it("should verify after old entries are compacted away", async () => {
+      auditLog = new AuditLog({ maxFileSize: 400, signingKey: "secret" }, logger);
+      const old = new Date(Date.now() - 100 * DAY).toISOString();
+      for (let i = 1; i <= 6; i++) {
+        await auditLog.append(
+          testDir,
+          entry(i, { timestamp: i <= 3 ? old : new Date().toISOString() }),
+        );
+      }
+
+      const { removedEntries } = await auditLog.compact(testDir, 90);
+
+      expect(removedEntries).toBe(3);
+      expect(await auditLog.verify(testDir)).toMatchObject({ valid: true, entriesChecked: 3 });
+    });
+
+    it("should detect entries removed from the start of the log after compaction", async () => {
+      auditLog = new AuditLog({ maxFileSize: 400, signingKey: "secret" }, logger);
+      const old = new Date(Date.now() - 100 * DAY).toISOString();
+      for (let i = 1; i <= 6; i++) {
+        await auditLog.append(
+          testDir,
+          entry(i, { timestamp: i <= 2 ? old : new Date().toISOString() }),
+        );
+      }
+      await auditLog.compact(testDir, 90);
+
+      // Remove the oldest remaining segment by hand
+      const [oldest] = (await fs.readdir(testDir)).filter((name) => /^audit-log\.\d+/.test(name));
+      await fs.rm(path.join(testDir, oldest!));
+
+      const result = await auditLog.verify(testDir);
+      expect(result.valid).toBe(false);
+      expect(result.brokenLink?.reason).toMatch(/missing from the start of the log$/);
+    });
+  });
+
+  describe("Export", () => {
+    it("should export every match as JSON", async () => {
+      for (let i = 1; i <= 3; i++) {
+        await auditLog.append(testDir, entry(i));
+      }
+
+      const { content, count } = await auditLog.export(testDir, { limit: 1 }, "json");
+
+      expect(count).toBe(3);
+      expect(JSON.parse(content).map((e: TenantAuditLog) => e.id)).toEqual([
+        "log_3",
+        "log_2",
+        "log_1",
+      ]);
+    });
+
+    it("should export CSV with escaped fields", async () => {
+      await auditLog.append(
+        testDir,
+        entry(1, { errorMessage: 'quota "storage", exceeded', metadata: { size: 10 } }),
+      );
+
+      const { content } = await auditLog.export(testDir, {}, "csv");
+      const [header, row] = content.trim().split("\n");
+
+      expect(header).toBe(
+        "id,timestamp,organizationId,teamId,userId,action,resource,resourceId,result,errorMessage,ipAddress,userAgent,metadata",
+      );
+      expect(row).toContain('"quota ""storage"", exceeded"');
+      expect(row).toContain('"{""size"":10}"');
+    });
+  });
+});
@@ -318,4 +318,43 @@ describe("TenantStore", () => {
       expect(retrieved?.requestsUsed).toBe(10);
     });
   });
+
+  describe("Audit Signing Key", () => {
+    const storageConfig = () => ({
+      rootPath: testDir,
+      organizationPath: (orgId: string) => path.join(testDir, orgId),
+      teamPath: (orgId: string, teamId: string) => path.join(testDir, orgId, "teams", teamId),
+      enableEncryption: false,
+      backendType: "local" as const,
+    });
+
+    it("should keep the signing key at the configured path", async () => {
+      const keyPath = `${testDir}-keys/audit-signing.key`;
+      const keyed = new TenantStore(storageConfig(), logger, { auditSigningKeyPath: keyPath });
+
+      try {
+        await keyed.initialize();
+
+        expect((await fs.readFile(keyPath, "utf-8")).trim()).toMatch(/^[0-9a-f]{64}$/);
+      } finally {
+        await fs.rm(path.dirname(keyPath), { recursive: true, force: true });
+      }
+    });
+
+    it("should move a key generated under the root path to the configured path", async () => {
+      const legacyPath = path.join(testDir, "audit-signing.key");
+      const legacyKey = (await fs.readFile(legacyPath, "utf-8")).trim();
+      const keyPath = `${testDir}-keys/audit-signing.key`;
+      const keyed = new TenantStore(storageConfig(), logger, { auditSigningKeyPath: keyPath });
+
+      try {
+        await keyed.initialize();
+
+        expect((await fs.readFile(keyPath, "utf-8")).trim()).toBe(legacyKey);
+        await expect(fs.access(legacyPath)).rejects.toThrow();
+      } finally {
+        await fs.rm(path.dirname(keyPath), { recursive: true, force: true });
+      }
+    });
+  });
 });
@@ -2,15 +2,18 @@
  * Handler unit tests
  */
 
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, afterAll, vi } from "vitest";
+import * as fs from "fs/promises";
 import { ToolRegistry } from "../../registry/ToolRegistry.js";
 import { MockLighthouseService } from "../../services/MockLighthouseService.js";
 import { MockDatasetService } from "../../services/MockDatasetService.js";
 import { ListToolsHandler } from "../../handlers/ListToolsHandler.js";
 import { CallToolHandler } from "../../handlers/CallToolHandler.js";
 import { ListResourcesHandler } from "../../handlers/ListResourcesHandler.js";
+import { ReadResourceHandler } from "../../handlers/ReadResourceHandler.js";
 import { InitializeHandler } from "../../handlers/InitializeHandler.js";
 import { LIGHTHOUSE_MCP_TOOLS, ExecutionTimeCategory } from "@lighthouse-tooling/types";
+import { createTestFile, cleanupTestFiles } from "../utils/test-helpers.js";
 
 describe("Handlers", () => {
   let registry: ToolRegistry;
@@ -111,6 +114,116 @@ describe("Handlers", () => {
     });
   });
 
+  describe("ReadResourceHandler", () => {
+    afterAll(async () => {
+      await cleanupTestFiles();
+    });
+
+    it("should return text files as text", async () => {
+      const filePath = await createTestFile("notes.txt", "hello resources");
+      const upload = await lighthouseService.uploadFile({ filePath });
+
+      const handler = new ReadResourceHandler(lighthouseService, datasetService);
+      const response = await handler.handle("test-req-1", `lighthouse://file/${upload.cid}`);
+
+      expect(response.result?.contents).toEqual([
+        { uri: `lighthouse://file/${upload.cid}`, mimeType: "text/plain", text: "hello resources" },
+      ]);
+    });
+
+    it("should return binary files as base64 blobs", async () => {
+      const filePath = await createTestFile("image.png", "\x89PNG binary");
+      const upload = await lighthouseService.uploadFile({ filePath });
+
+      const handler = new ReadResourceHandler(lighthouseService, datasetService);
+      const [contents] = await handler.read(`lighthouse://file/${upload.cid}`);
+
+      expect(contents?.mimeType).toBe("image/png");
+      expect(contents?.text).toBeUndefined();
+      expect(Buffer.from(contents!.blob!, "base64").toString()).toBe("\x89PNG binary");
+    });
+
+    it("should return dataset manifests as JSON", async () => {
+      const filePath = await createTestFile("data.csv", "a,b\n1,2");
+      const dataset = await datasetService.createDataset({ name: "manifest", files: [filePath] });
+
+      const handler = new ReadResourceHandler(lighthouseService, datasetService);
+      const [contents] = await handler.read(`lighthouse://dataset/${dataset.id}`);
+
+      expect(contents?.mimeType).toBe("application/json");
+      expect(JSON.parse(contents!.text!).id).toBe(dataset.id);
+    });
+
+    it("should fetch encrypted files instead of serving the local plaintext", async () => {
+      const filePath = await createTestFile("secret.txt", "local plaintext");
+      const upload = await lighthouseService.uploadFile({ filePath, encrypt: true });
+      const fetchFile = vi
+        .spyOn(lighthouseService, "fetchFile")
+        .mockImplementation(async ({ cid, outputPath }) => {
+          await fs.writeFile(outputPath!, "decrypted content");
+          return {
+            filePath: outputPath!,
+            cid,
+            size: 17,
+            decrypted: true,
+            downloadedAt: new Date(),
+          };
+        });
+
+      const handler = new ReadResourceHandler(lighthouseService, datasetService);
+      const [contents] = await handler.read(`lighthouse://file/${upload.cid}`);
+
+      expect(contents?.text).toBe("decrypted content");
+      expect(fetchFile).toHaveBeenCalledWith(expect.objectContaining({ decrypt: true }));
+    });
+
+    it("should not serve a local copy that no longer matches its content hash", async () => {
+      const filePath = await createTestFile("tampered.txt", "original text");
+      const upload = await lighthouseService.uploadFile({ filePath });
+      await fs.writeFile(filePath, "tampered text");
+      const fetchFile = vi
+        .spyOn(lighthouseService, "fetchFile")
+        .mockImplementation(async ({ cid, outputPath }) => {
+          await fs.writeFile(outputPath!, "original text");
+          return {
+            filePath: outputPath!,
+            cid,
+            size: 13,
+            decrypted: false,
+            downloadedAt: new Date(),
+          };
+        });
+
+      const handler = new ReadResourceHandler(lighthouseService, datasetService);
+      const [contents] = await handler.read(`lighthouse://file/${upload.cid}`);
+
+      expect(contents?.text).toBe("original text");
+      expect(fetchFile).toHaveBeenCalledOnce();
+    });
+
+    it("should refuse to inline files over the size cap", async () => {
+      const filePath = await createTestFile("large.txt", "x".repeat(64));
+      const upload = await lighthouseService.uploadFile({ filePath });
+
+      const handler = new ReadResourceHandler(lighthouseService, datasetService, undefined, {
+        maxInlineSize: 32,
+      });
+      const response = await handler.handle("test-req-2", `lighthouse://file/${upload.cid}`);
+
+      expect(response.error?.message).toContain("too large to inline");
+    });
+
+    it("should return errors for unknown or malformed URIs", async () => {
+      const handler = new ReadResourceHandler(lighthouseService, datasetService);
+
+      const missing = await handler.handle("test-req-3", "lighthouse://dataset/missing");
+      expect(missing.error?.message).toContain("not found");
+
+      const malformed = await handler.handle("test-req-4", "https://example.com/file");
+      expect(malformed.error?.message).toContain("Invalid resource URI");
+    });
+  });
+
   describe("InitializeHandler", () => {
     it("should return server capabilities", async () => {
       const handler = new InitializeHandler({
@@ -0,0 +1,238 @@
+/**
+ * Integration tests for the MCP HTTP transport
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { LighthouseMCPServer } from "../../server.js";
+import { MockLighthouseService } from "../../services/MockLighthouseService.js";
+import { MockDatasetService } from "../../services/MockDatasetService.js";
+import { ServerConfig } from "../../config/server-config.js";
+
+describe("Server HTTP Transport Integration", () => {
+  let server: LighthouseMCPServer;
+  let baseUrl: string;
+  const clients: Client[] = [];
+
+  const validApiKey = "test-api-key-http-transport";
+
+  const testConfig: Partial<ServerConfig> = {
+    logLevel: "error",
+    enableMetrics: false,
+    authentication: {
+      enablePerRequestAuth: true,
+      requireAuthentication: true,
+      keyValidationCache: {
+        enabled: true,
+        maxSize: 100,
+        ttlSeconds: 300,
+        cleanupIntervalSeconds: 60,
+      },
+      rateLimiting: {
+        enabled: true,
+        requestsPerMinute: 60,
+        burstLimit: 10,
+        keyBasedLimiting: true,
+      },
+    },
+    healthCheck: { enabled: false, port: 0 },
+    transport: { mode: "http", host: "127.0.0.1", endpoint: "/mcp", requireAuth: true },
+    idempotency: { windowSeconds: 60, dbPath: ":memory:" },
+  };
+
+  const connect = async (transport: StreamableHTTPClientTransport | SSEClientTransport) => {
+    const client = new Client({ name: "http-test-client", version: "1.0.0" });
+    await client.connect(transport);
+    clients.push(client);
+    return client;
+  };
+
+  const withAuth = (apiKey: string) => ({
+    requestInit: { headers: { Authorization: `Bearer ${apiKey}` } },
+  });
+
+  const startServer = async (config: Partial<ServerConfig>) => {
+    const mockLighthouseService = new MockLighthouseService();
+    server = new LighthouseMCPServer(config, {
+      lighthouseService: mockLighthouseService,
+      datasetService: new MockDatasetService(mockLighthouseService),
+    });
+    vi.spyOn(server.getServiceFactory(), "getService").mockResolvedValue(mockLighthouseService);
+
+    await server.start();
+    baseUrl = `http://127.0.0.1:${server.getHttpPort()}`;
+  };
+
+  const initializeRequest = (apiKey: string) =>
+    fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: {
+          protocolVersion: "2025-03-26",
+          capabilities: {},
+          clientInfo: { name: "raw-client", version: "1.0.0" },
+        },
+      }),
+    });
+
+  beforeEach(async () => {
+    await startServer(testConfig);
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map((client) => client.close()));
+    await server.stop();
+  });
+
+  it("should serve tools, resources and prompts over streamable HTTP", async () => {
+    const client = await connect(
+      new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), withAuth(validApiKey)),
+    );
+
+    const { tools } = await client.listTools();
+    const { prompts } = await client.listPrompts();
+    const { resources } = await client.listResources();
+
+    expect(tools.map((t) => t.name)).toContain("lighthouse_upload_file");
+    expect(prompts.length).toBeGreaterThan(0);
+    expect(resources).toEqual([]);
+  });
+
+  it("should authenticate tool calls with the Authorization header", async () => {
+    const authenticate = vi.spyOn(server.getAuthManager(), "authenticate");
+    const client = await connect(
+      new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), withAuth(validApiKey)),
+    );
+
+    const result = await client.callTool({ name: "lighthouse_list_datasets", arguments: {} });
+
+    expect(result.isError).toBeFalsy();
+    expect(authenticate).toHaveBeenCalledWith(validApiKey);
+  });
+
+  it("should reject clients without credentials", async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: "{}",
+    });
+
+    expect(response.status).toBe(401);
+    await expect(
+      connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`))),
+    ).rejects.toThrow();
+    expect((server as any).httpTransport.getSessionCount()).toBe(0);
+  });
+
+  it("should let the operator accept clients without credentials", async () => {
+    await server.stop();
+    await startServer({
+      ...testConfig,
+      transport: { ...testConfig.transport!, requireAuth: false },
+    });
+    const client = await connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+
+    await expect(
+      client.callTool({ name: "lighthouse_list_datasets", arguments: {} }),
+    ).rejects.toThrow(/API key is required/);
+  });
+
+  it("should reject session reuse with different credentials", async () => {
+    const initialized = await initializeRequest(validApiKey);
+    const sessionId = initialized.headers.get("mcp-session-id")!;
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        Authorization: "Bearer another-api-key",
+        "Mcp-Session-Id": sessionId,
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 2, method: "tools/list" }),
+    });
+
+    expect(initialized.status).toBe(200);
+    expect(sessionId).toBeTruthy();
+    expect(response.status).toBe(403);
+  });
+
+  it("should keep sessions isolated per client", async () => {
+    await connect(
+      new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), withAuth(validApiKey)),
+    );
+    await connect(
+      new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), withAuth(validApiKey)),
+    );
+
+    expect((server as any).httpTransport.getSessionCount()).toBe(2);
+  });
+
+  it("should serve the legacy SSE transport", async () => {
+    const authenticate = vi.spyOn(server.getAuthManager(), "authenticate");
+    const client = await connect(
+      new SSEClientTransport(new URL(`${baseUrl}/sse`), withAuth(validApiKey)),
+    );
+
+    await client.callTool({ name: "lighthouse_list_datasets", arguments: {} });
+
+    expect(authenticate).toHaveBeenCalledWith(validApiKey);
+  });
+
+  it("should reject requests without a session", async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        Authorization: `Bearer ${validApiKey}`,
+      },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "tools/list" }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it("should reject malformed Authorization headers", async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: "Basic abc" },
+      body: "{}",
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should keep serving health checks on the same port", async () => {
+    const response = await fetch(`${baseUrl}/health`);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).status).toBe("healthy");
+  });
+
+  it("should export tool call metrics on the same port", async () => {
+    const client = await connect(
+      new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), withAuth(validApiKey)),
+    );
+    await client.callTool({ name: "lighthouse_list_datasets", arguments: {} });
+
+    const response = await fetch(`${baseUrl}/metrics`);
+    const body = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(body).toContain(
+      'lighthouse_tool_calls_total{tool="lighthouse_list_datasets",result="success"} 1',
+    );
+    expect(body).toContain('lighthouse_auth_requests_total{result="success"} 1');
+  });
+});
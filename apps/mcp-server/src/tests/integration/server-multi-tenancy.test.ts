@@ -0,0 +1,445 @@
+/**
+ * Integration tests for multi-tenant server mode
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as crypto from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+import { Role, TenantApiKey } from "@lighthouse-tooling/types";
+import { InMemorySpanExporter, SpanKind, Tracer } from "@lighthouse-tooling/shared";
+import { LighthouseMCPServer } from "../../server.js";
+import { MockLighthouseService } from "../../services/MockLighthouseService.js";
+import { MockDatasetService } from "../../services/MockDatasetService.js";
+import {
+  ServerConfig,
+  DEFAULT_ORGANIZATION_SETTINGS,
+  DEFAULT_USAGE_QUOTA,
+} from "../../config/server-config.js";
+import { AuthenticationError } from "../../errors/AuthenticationError.js";
+import { InvalidParamsError } from "../../errors/InvalidParamsError.js";
+import { ToolCall } from "../../middleware/index.js";
+import { createTestFile } from "../utils/test-helpers.js";
+
+type CallToolResult = { content: Array<{ type: "text"; text: string }> };
+
+describe("Server Multi-Tenancy Integration", () => {
+  let server: LighthouseMCPServer;
+  let testDir: string;
+
+  const defaultApiKey = "test-api-key-multi-tenant-default";
+
+  const callTool = (name: string, args: Record<string, unknown> = {}): Promise<CallToolResult> =>
+    (server as any).handleCallTool({ params: { name, arguments: args } });
+
+  const parseResult = (result: CallToolResult) => JSON.parse(result.content[0]!.text);
+
+  const createMemberKey = async (role: Role): Promise<string> => {
+    const store = server.getTenantStore()!;
+    const team = (await store.getTeam("default", "default"))!;
+    team.members.push({
+      userId: `user-${role}`,
+      email: `${role}@example.com`,
+      displayName: `${role} user`,
+      role,
+      joinedAt: new Date().toISOString(),
+      status: "active",
+    });
+    await store.saveTeam("default", team);
+    await store.saveQuota("default", { ...DEFAULT_USAGE_QUOTA }, "default");
+
+    const apiKey: TenantApiKey = {
+      id: `key${role}`,
+      organizationId: "default",
+      teamId: "default",
+      createdBy: `user-${role}`,
+      name: `${role} key`,
+      key: `org_default_team_default_key_key${role}.secret`,
+      keyHash: crypto.createHash("sha256").update("secret").digest("hex"),
+      createdAt: new Date().toISOString(),
+      status: "active",
+    };
+    await store.saveApiKey("default", apiKey);
+    return apiKey.key;
+  };
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `server-multi-tenancy-test-${Date.now()}`);
+
+    const config: Partial<ServerConfig> = {
+      logLevel: "error",
+      enableMetrics: false,
+      authentication: {
+        defaultApiKey,
+        enablePerRequestAuth: true,
+        requireAuthentication: true,
+        keyValidationCache: {
+          enabled: true,
+          maxSize: 100,
+          ttlSeconds: 300,
+          cleanupIntervalSeconds: 60,
+        },
+        rateLimiting: {
+          enabled: true,
+          requestsPerMinute: 60,
+          burstLimit: 10,
+          keyBasedLimiting: true,
+        },
+      },
+      multiTenancy: {
+        enabled: true,
+        defaultOrganizationId: "default",
+        storage: {
+          rootPath: testDir,
+          organizationPath: (orgId: string) => path.join(testDir, orgId),
+          teamPath: (orgId: string, teamId: string) => path.join(testDir, orgId, "teams", teamId),
+          enableEncryption: false,
+          backendType: "local",
+        },
+        defaultOrganizationSettings: DEFAULT_ORGANIZATION_SETTINGS,
+        defaultQuota: { ...DEFAULT_USAGE_QUOTA },
+        strictIsolation: true,
+        auditLogRetentionDays: 90,
+      },
+    };
+
+    const mockLighthouseService = new MockLighthouseService();
+    server = new LighthouseMCPServer(config, {
+      lighthouseService: mockLighthouseService,
+      datasetService: new MockDatasetService(mockLighthouseService),
+    });
+
+    await server.initializeMultiTenancy();
+    await server.registerTools();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should register tenancy tools", () => {
+    const toolNames = server
+      .getRegistry()
+      .listTools()
+      .map((t) => t.name);
+
+    expect(server.isMultiTenant()).toBe(true);
+    expect(toolNames).toContain("lighthouse-create-organization");
+    expect(toolNames).toContain("lighthouse-create-team");
+    expect(toolNames).toContain("lighthouse-manage-team-members");
+    expect(toolNames).toContain("lighthouse-create-api-key");
+    expect(toolNames).toContain("lighthouse-list-api-keys");
+    expect(toolNames).toContain("lighthouse-rotate-api-key");
+    expect(toolNames).toContain("lighthouse-revoke-api-key");
+    expect(toolNames).toContain("lighthouse-view-quota");
+    expect(toolNames).toContain("lighthouse_query_audit_log");
+    expect(toolNames).toContain("lighthouse-query-audit-log");
+    expect(toolNames).toContain("lighthouse-verify-audit-log");
+  });
+
+  it("should resolve the migrated default key to the default organization", async () => {
+    const result = parseResult(
+      await callTool("lighthouse-view-quota", { organizationId: "default" }),
+    );
+
+    expect(result.quota.scope).toBe("Organization: default");
+  });
+
+  it("should continue the caller's trace from the request metadata", async () => {
+    const exporter = new InMemorySpanExporter();
+    Tracer.getInstance().addExporter(exporter);
+    const traceId = "0af7651916cd43dd8448eb211c80319c";
+
+    try {
+      await (server as any).handleCallTool({
+        params: {
+          name: "lighthouse-view-quota",
+          arguments: { organizationId: "default" },
+          _meta: { traceparent: `00-${traceId}-b7ad6b7169203331-01` },
+        },
+      });
+    } finally {
+      await Tracer.getInstance().removeExporter(exporter);
+    }
+
+    const spans = exporter.getTrace(traceId);
+    const serverSpan = spans.find((span) => span.kind === SpanKind.SERVER)!;
+    const toolSpan = spans.find((span) => span.name === "tool lighthouse-view-quota")!;
+    expect(serverSpan.name).toBe("tools/call lighthouse-view-quota");
+    expect(serverSpan.parentSpanId).toBe("b7ad6b7169203331");
+    expect(toolSpan.parentSpanId).toBe(serverSpan.spanContext.spanId);
+  });
+
+  it("should record request usage after a tool call", async () => {
+    await callTool("lighthouse_list_datasets");
+
+    const quota = await server.getTenantStore()!.getQuota("default");
+    expect(quota?.requestsUsed).toBe(1);
+  });
+
+  it("should record storage usage for uploads", async () => {
+    const filePath = await createTestFile("tenant-upload.txt", "tenant content");
+    await callTool("lighthouse_upload_file", { filePath });
+
+    const quota = await server.getTenantStore()!.getQuota("default");
+    expect(quota?.storageUsed).toBeGreaterThan(0);
+  });
+
+  it("should inject the tenant context into tenancy tools", async () => {
+    const result = parseResult(
+      await callTool("lighthouse-create-api-key", { organizationId: "default", name: "CI key" }),
+    );
+
+    expect(result.apiKey.createdBy).toBe("system");
+  });
+
+  it("should keep a rotated key working until its grace period ends", async () => {
+    const created = parseResult(
+      await callTool("lighthouse-create-api-key", { organizationId: "default", name: "Deploy" }),
+    );
+    const rotated = parseResult(
+      await callTool("lighthouse-rotate-api-key", {
+        organizationId: "default",
+        keyId: created.apiKey.id,
+        gracePeriodHours: 1,
+      }),
+    );
+
+    expect(rotated.apiKey.rotatedFrom).toBe(created.apiKey.id);
+    for (const apiKey of [created.apiKey.key, rotated.apiKey.key]) {
+      const result = parseResult(
+        await callTool("lighthouse-view-quota", { apiKey, organizationId: "default" }),
+      );
+      expect(result.rawQuota).toBeDefined();
+    }
+
+    await callTool("lighthouse-rotate-api-key", {
+      organizationId: "default",
+      keyId: rotated.apiKey.id,
+      gracePeriodHours: 0,
+    });
+    await expect(
+      callTool("lighthouse-view-quota", { apiKey: rotated.apiKey.key, organizationId: "default" }),
+    ).rejects.toThrow(/expired/);
+  });
+
+  it("should reject a revoked key", async () => {
+    const created = parseResult(
+      await callTool("lighthouse-create-api-key", { organizationId: "default", name: "Temp" }),
+    );
+
+    const revoked = parseResult(
+      await callTool("lighthouse-revoke-api-key", {
+        organizationId: "default",
+        keyId: created.apiKey.id,
+      }),
+    );
+
+    expect(revoked.status).toBe("revoked");
+    await expect(
+      callTool("lighthouse_list_datasets", { apiKey: created.apiKey.key }),
+    ).rejects.toThrow(/revoked/);
+  });
+
+  it("should not let a key be scoped beyond its creator's role", async () => {
+    const adminKey = await createMemberKey(Role.ADMIN);
+
+    await expect(
+      callTool("lighthouse-create-api-key", {
+        apiKey: adminKey,
+        organizationId: "default",
+        name: "Escalation",
+        permissions: ["file:upload", "org:delete"],
+      }),
+    ).rejects.toThrow(/exceed the admin role of user-admin: org:delete/);
+  });
+
+  it("should query the organization audit log", async () => {
+    await server.getTenantStore()!.appendAuditLog("default", {
+      id: "log_1",
+      organizationId: "default",
+      userId: "system",
+      action: "api_call",
+      resource: "lighthouse_create_dataset",
+      resourceId: "dataset_1",
+      timestamp: new Date().toISOString(),
+      result: "success",
+    });
+
+    for (const name of ["lighthouse_query_audit_log", "lighthouse-query-audit-log"]) {
+      const result = parseResult(
+        await callTool(name, {
+          organizationId: "default",
+          resource: "lighthouse_create_dataset",
+        }),
+      );
+
+      expect(result.entries.map((e: { id: string }) => e.id)).toEqual(["log_1"]);
+    }
+  });
+
+  it("should verify the organization audit log chain", async () => {
+    await server.getTenantStore()!.appendAuditLog("default", {
+      id: "log_2",
+      organizationId: "default",
+      userId: "system",
+      action: "api_call",
+      resource: "lighthouse_list_datasets",
+      resourceId: "",
+      timestamp: new Date().toISOString(),
+      result: "success",
+    });
+
+    const result = parseResult(
+      await callTool("lighthouse-verify-audit-log", { organizationId: "default" }),
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.entriesChecked).toBeGreaterThan(0);
+  });
+
+  it("should verify the authentication audit trail", async () => {
+    await callTool("lighthouse_list_datasets");
+
+    const result = parseResult(
+      await callTool("lighthouse-verify-audit-log", {
+        organizationId: "default",
+        target: "authentication",
+      }),
+    );
+
+    expect(result).toMatchObject({ valid: true, target: "authentication" });
+    expect(result.entriesChecked).toBeGreaterThanOrEqual(2);
+    expect(result.message).toMatch(/^Authentication audit trail intact/);
+  });
+
+  it("should reject arguments that do not match the tool schema with field-level errors", async () => {
+    const error = await callTool("lighthouse_create_dataset", {
+      name: "Training Data",
+      filePaths: ["/data/train.csv", 7],
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(InvalidParamsError);
+    expect(error.code).toBe(-32602);
+    expect(error.data.errors).toEqual([
+      { field: "filePaths[1]", message: "Field 'filePaths[1]' must be a string" },
+    ]);
+  });
+
+  it("should not create a duplicate dataset when a call is retried with its idempotency key", async () => {
+    const filePath = await createTestFile("idempotent.csv", "a,b\n1,2\n");
+    const args = { name: "Retried Data", filePaths: [filePath], idempotencyKey: "create-1" };
+
+    const first = parseResult(await callTool("lighthouse_create_dataset", args));
+    const retry = parseResult(await callTool("lighthouse_create_dataset", args));
+    expect(retry).toEqual(first);
+
+    const error = await callTool("lighthouse_create_dataset", {
+      ...args,
+      name: "Other Data",
+    }).catch((e) => e);
+    expect(error).toBeInstanceOf(InvalidParamsError);
+    expect(error.data.errors[0].field).toBe("idempotencyKey");
+
+    const listed = parseResult(await callTool("lighthouse_list_datasets"));
+    expect(listed.datasets.filter((d: { name: string }) => d.name === "Retried Data")).toHaveLength(
+      1,
+    );
+  });
+
+  it("should reject cross-tenant access", async () => {
+    await expect(
+      callTool("lighthouse-view-quota", { organizationId: "other-org" }),
+    ).rejects.toThrow(/Cross-tenant access denied/);
+  });
+
+  it("should enforce role permissions for tenant keys", async () => {
+    const viewerKey = await createMemberKey(Role.VIEWER);
+
+    await expect(
+      callTool("lighthouse-create-team", {
+        apiKey: viewerKey,
+        organizationId: "default",
+        teamId: "new-team",
+        name: "new-team",
+        displayName: "New Team",
+      }),
+    ).rejects.toThrow(/lacks required permissions/);
+
+    const result = parseResult(
+      await callTool("lighthouse-view-quota", { apiKey: viewerKey, organizationId: "default" }),
+    );
+    expect(result.rawQuota).toBeDefined();
+  });
+
+  it("should reject a tenant key presented with the wrong secret", async () => {
+    const viewerKey = await createMemberKey(Role.VIEWER);
+    const forged = viewerKey.replace(/\.secret$/, ".guessed");
+
+    await expect(
+      callTool("lighthouse-view-quota", { apiKey: forged, organizationId: "default" }),
+    ).rejects.toThrow(AuthenticationError);
+  });
+
+  it("should authenticate resource reads like the equivalent tool call", async () => {
+    const filePath = await createTestFile("resource-read.txt", "tenant content");
+    const upload = await server.getLighthouseService().uploadFile({ filePath });
+    const uri = `lighthouse://file/${upload.cid}`;
+    const readResource = (apiKey?: string) => (server as any).handleReadResource(uri, apiKey);
+
+    await expect(readResource("org_unknown_key_abc.secret")).rejects.toBeInstanceOf(
+      AuthenticationError,
+    );
+
+    const result = await readResource(defaultApiKey);
+    expect(result.contents[0].text).toBe("tenant content");
+
+    const quota = await server.getTenantStore()!.getQuota("default");
+    expect(quota?.requestsUsed).toBe(1);
+  });
+
+  it("should run custom middleware on authenticated calls", async () => {
+    const calls: ToolCall[] = [];
+    server.use({
+      name: "audit",
+      after: (call) => void calls.push(call),
+    });
+
+    expect(server.getPipeline().list()).toEqual([
+      "logging",
+      "authentication",
+      "tenant-guard",
+      "usage-anomaly",
+      "audit",
+    ]);
+
+    await callTool("lighthouse_list_datasets", { apiKey: defaultApiKey });
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0]!.context?.tenantContext?.organization.id).toBe("default");
+    expect(calls[0]!.args.apiKey).toBeUndefined();
+    expect(calls[0]!.args._tenantContext).toBeDefined();
+  });
+
+  it("should let custom middleware reject a call before it is charged", async () => {
+    server.use({
+      name: "policy",
+      before: () => {
+        throw new Error("Blocked by policy");
+      },
+    });
+
+    await expect(callTool("lighthouse_list_datasets")).rejects.toThrow(/Blocked by policy/);
+
+    const quota = await server.getTenantStore()!.getQuota("default");
+    expect(quota?.requestsUsed).toBe(0);
+  });
+
+  it("should reject keys that do not resolve to a tenant", async () => {
+    await expect(
+      callTool("lighthouse_list_datasets", { apiKey: "org_unknown_key_abc.secret" }),
+    ).rejects.toBeInstanceOf(AuthenticationError);
+  });
+});
@@ -127,6 +127,43 @@ describe("LighthouseMCPServer Integration", () => {
     });
   });
 
+  describe("Resource reads", () => {
+    it("should read uploaded files by lighthouse:// URI", async () => {
+      const upload = await server.getLighthouseService().uploadFile({ filePath: testFilePath });
+
+      const result = await (server as any).handleReadResource(`lighthouse://file/${upload.cid}`);
+
+      expect(result.contents[0].text).toBe("Integration test content");
+      expect(result.contents[0].mimeType).toBe("text/plain");
+    });
+
+    it("should surface unknown resources as MCP errors", async () => {
+      await expect(
+        (server as any).handleReadResource("lighthouse://dataset/does-not-exist"),
+      ).rejects.toMatchObject({ code: -32003 });
+    });
+  });
+
+  describe("Workflow prompts", () => {
+    it("should list prompts backed by registered tools", () => {
+      const names = server
+        .getPromptRegistry()
+        .listPrompts()
+        .map((p) => p.name);
+
+      expect(names).toContain("lighthouse_encrypted_dataset_upload");
+      expect(names).toContain("lighthouse_token_gated_share");
+      // Quota tools are only registered in multi-tenant mode
+      expect(names).not.toContain("lighthouse_quota_audit");
+    });
+
+    it("should surface invalid prompt arguments as MCP errors", () => {
+      expect(() =>
+        (server as any).handleGetPrompt("lighthouse_encrypted_dataset_upload", {}),
+      ).toThrow(expect.objectContaining({ code: -32602 }));
+    });
+  });
+
   describe("Server statistics", () => {
     it("should track server statistics", async () => {
       const registry = server.getRegistry();
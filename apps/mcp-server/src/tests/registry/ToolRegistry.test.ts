@@ -4,8 +4,15 @@
 
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { ToolRegistry } from "../../registry/ToolRegistry.js";
-import { MCPToolDefinition, ExecutionTimeCategory } from "@lighthouse-tooling/types";
-import { ToolExecutor } from "../../registry/types.js";
+import { MCPToolDefinition, ExecutionTimeCategory, MCPErrorCode } from "@lighthouse-tooling/types";
+import { InMemorySpanExporter, SpanStatusCode, Tracer } from "@lighthouse-tooling/shared";
+import { ToolExecutor, ToolExecutionResult } from "../../registry/types.js";
+import { InMemoryStorageService } from "../../storage/InMemoryStorageService.js";
+import { DatabaseService } from "../../storage/DatabaseService.js";
+import Database from "better-sqlite3";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
 
 describe("ToolRegistry", () => {
   let registry: ToolRegistry;
@@ -157,11 +164,343 @@ describe("ToolRegistry", () => {
       };
 
       registry.register({ ...testTool, name: "error_tool" }, errorExecutor);
-      const result = await registry.executeTool("error_tool", {});
+      const result = await registry.executeTool("error_tool", { param1: "value" });
 
       expect(result.success).toBe(false);
       expect(result.error).toBe("Execution failed");
     });
+
+    it("should count failures and bucket execution times", async () => {
+      registry.register({ ...testTool, name: "error_tool" }, async () => {
+        throw new Error("Execution failed");
+      });
+      registry.register({ ...testTool, name: "unsuccessful_tool" }, async () => ({
+        success: false,
+        error: "Rejected",
+        executionTime: 0,
+      }));
+
+      await registry.executeTool("test_tool", { param1: "test" });
+      await registry.executeTool("error_tool", { param1: "test" });
+      await registry.executeTool("unsuccessful_tool", { param1: "test" });
+
+      const metrics = registry.getToolMetrics();
+      const byName = new Map(metrics.map((tool) => [tool.name, tool]));
+      expect(byName.get("test_tool")).toMatchObject({ callCount: 1, errorCount: 0 });
+      expect(byName.get("error_tool")).toMatchObject({ callCount: 1, errorCount: 1 });
+      expect(byName.get("unsuccessful_tool")).toMatchObject({ callCount: 1, errorCount: 1 });
+
+      const latency = byName.get("test_tool")!.latency;
+      expect(latency.count).toBe(1);
+      expect(latency.bucketCounts.reduce((sum, count) => sum + count, 0)).toBe(1);
+      expect(latency.bucketCounts).toHaveLength(latency.bucketBounds.length + 1);
+    });
+
+    it("should trace executions under the active span", async () => {
+      registry.register({ ...testTool, name: "unsuccessful_tool" }, async () => ({
+        success: false,
+        error: "Rejected",
+        executionTime: 0,
+      }));
+      const tracer = Tracer.getInstance();
+      const exporter = new InMemorySpanExporter();
+      tracer.addExporter(exporter);
+
+      try {
+        await tracer.startActiveSpan("request", {}, async () => {
+          await registry.executeTool("test_tool", { param1: "test" });
+          await registry.executeTool("unsuccessful_tool", { param1: "test" });
+        });
+      } finally {
+        await tracer.removeExporter(exporter);
+      }
+
+      const [succeeded, failed, request] = exporter.getFinishedSpans();
+      expect(succeeded!.name).toBe("tool test_tool");
+      expect(succeeded!.parentSpanId).toBe(request!.spanContext.spanId);
+      expect(succeeded!.attributes).toMatchObject({
+        "mcp.tool.name": "test_tool",
+        "mcp.tool.success": true,
+      });
+      expect(failed!.status).toEqual({ code: SpanStatusCode.ERROR, message: "Rejected" });
+    });
+  });
+
+  describe("argument validation", () => {
+    const datasetTool: MCPToolDefinition = {
+      name: "dataset_tool",
+      description: "A tool with nested parameters",
+      inputSchema: {
+        type: "object",
+        properties: {
+          files: {
+            type: "array",
+            description: "File paths",
+            items: { type: "string", description: "File path", minLength: 1 },
+          },
+          format: { type: "string", description: "Format", enum: ["json", "csv"] },
+          limit: { type: "number", description: "Limit", minimum: 1, maximum: 100 },
+          metadata: {
+            type: "object",
+            description: "Metadata",
+            properties: {
+              author: { type: "string", description: "Author" },
+            },
+            required: ["author"],
+          },
+        },
+        required: ["files"],
+        additionalProperties: false,
+      },
+    };
+
+    it("should reject invalid arguments with field-level errors before execution", async () => {
+      let called = false;
+      registry.register(datasetTool, async () => {
+        called = true;
+        return { success: true, executionTime: 0 };
+      });
+
+      const result = await registry.executeTool("dataset_tool", {
+        files: ["a.csv", 42],
+        format: "xml",
+        limit: 500,
+        metadata: {},
+        extra: true,
+      });
+
+      expect(called).toBe(false);
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(MCPErrorCode.INVALID_PARAMS);
+      expect(result.validationErrors?.map((error) => error.field)).toEqual([
+        "files[1]",
+        "format",
+        "limit",
+        "metadata.author",
+        "extra",
+      ]);
+      expect(result.error).toContain("Field 'files[1]' must be a string");
+    });
+
+    it("should ignore arguments injected by the server", async () => {
+      registry.register(datasetTool, async () => ({ success: true, executionTime: 0 }));
+
+      const result = await registry.executeTool("dataset_tool", {
+        files: ["a.csv"],
+        _tenantContext: { organization: "org_1" },
+      });
+
+      expect(result.success).toBe(true);
+    });
+
+    it("should skip validation for tools registered without it", async () => {
+      registry.register(datasetTool, async () => ({ success: true, executionTime: 0 }), {
+        validateSchema: false,
+      });
+
+      const result = await registry.executeTool("dataset_tool", { files: "a.csv" });
+
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe("idempotency", () => {
+    const createTool: MCPToolDefinition = {
+      name: "create_tool",
+      description: "A mutating tool",
+      inputSchema: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "Name" },
+        },
+        required: ["name"],
+        additionalProperties: false,
+      },
+      mutating: true,
+    };
+
+    let calls: number;
+    const createExecutor: ToolExecutor = async (args) => {
+      calls++;
+      return { success: true, data: { id: `item_${calls}`, args }, executionTime: 0 };
+    };
+
+    beforeEach(() => {
+      calls = 0;
+    });
+
+    it("should add the idempotencyKey argument to mutating tools only", () => {
+      registry.register(createTool, createExecutor);
+      registry.register(testTool, testExecutor);
+
+      const [create, test] = registry.listTools();
+      expect(create?.inputSchema.properties.idempotencyKey?.type).toBe("string");
+      expect(test?.inputSchema.properties.idempotencyKey).toBeUndefined();
+    });
+
+    it("should return the original result for a retry with the same key", async () => {
+      registry.register(createTool, createExecutor);
+
+      const first = await registry.executeTool("create_tool", {
+        name: "a",
+        idempotencyKey: "req-1",
+      });
+      const retry = await registry.executeTool("create_tool", {
+        name: "a",
+        idempotencyKey: "req-1",
+      });
+      const other = await registry.executeTool("create_tool", {
+        name: "a",
+        idempotencyKey: "req-2",
+      });
+
+      expect(calls).toBe(2);
+      expect(first.data).toEqual({ id: "item_1", args: { name: "a" } });
+      expect(first.replayed).toBeUndefined();
+      expect(retry.data).toEqual(first.data);
+      expect(retry.replayed).toBe(true);
+      expect(other.data).toEqual({ id: "item_2", args: { name: "a" } });
+    });
+
+    it("should reject a key reused with different arguments", async () => {
+      registry.register(createTool, createExecutor);
+
+      await registry.executeTool("create_tool", { name: "a", idempotencyKey: "req-1" });
+      const result = await registry.executeTool("create_tool", {
+        name: "b",
+        idempotencyKey: "req-1",
+      });
+
+      expect(calls).toBe(1);
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(MCPErrorCode.INVALID_PARAMS);
+      expect(result.validationErrors?.[0]?.field).toBe("idempotencyKey");
+    });
+
+    it("should let a failed call be retried with the same key", async () => {
+      let fail = true;
+      registry.register(createTool, async (args) => {
+        if (fail) {
+          fail = false;
+          return { success: false, error: "Upstream unavailable", executionTime: 0 };
+        }
+        return createExecutor(args);
+      });
+
+      const failed = await registry.executeTool("create_tool", {
+        name: "a",
+        idempotencyKey: "req-1",
+      });
+      const retry = await registry.executeTool("create_tool", {
+        name: "a",
+        idempotencyKey: "req-1",
+      });
+
+      expect(failed.success).toBe(false);
+      expect(retry.success).toBe(true);
+      expect(retry.replayed).toBeUndefined();
+    });
+
+    it("should make a retry wait for the original call still in flight", async () => {
+      let release!: () => void;
+      registry.register(createTool, async (args) => {
+        await new Promise<void>((resolve) => (release = resolve));
+        return createExecutor(args);
+      });
+
+      const first = registry.executeTool("create_tool", { name: "a", idempotencyKey: "req-1" });
+      const retry = registry.executeTool("create_tool", { name: "a", idempotencyKey: "req-1" });
+      await new Promise((resolve) => setImmediate(resolve));
+      release();
+
+      const results: ToolExecutionResult[] = await Promise.all([first, retry]);
+      expect(calls).toBe(1);
+      expect(results[1]?.replayed).toBe(true);
+      expect(results[1]?.data).toEqual(results[0]?.data);
+    });
+
+    it("should remember keys through the configured storage until the window passes", async () => {
+      const storage = new InMemoryStorageService();
+      registry.configureIdempotency({ storage, windowMs: 50 });
+      registry.register(createTool, createExecutor);
+      await registry.executeTool("create_tool", { name: "a", idempotencyKey: "req-1" });
+
+      // A new registry, as after a restart, sees the stored key
+      const restarted = new ToolRegistry();
+      restarted.configureIdempotency({ storage, windowMs: 50 });
+      restarted.register(createTool, createExecutor);
+      const retry = await restarted.executeTool("create_tool", {
+        name: "a",
+        idempotencyKey: "req-1",
+      });
+      expect(retry.replayed).toBe(true);
+
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      const late = await restarted.executeTool("create_tool", {
+        name: "a",
+        idempotencyKey: "req-1",
+      });
+      expect(late.replayed).toBeUndefined();
+      expect(calls).toBe(2);
+    });
+
+    describe("tools that return secrets", () => {
+      const keyTool: MCPToolDefinition = {
+        ...createTool,
+        name: "create_key_tool",
+        returnsSecrets: true,
+      };
+      const secret = "org_test_key_0123456789abcdef.secretsecretsecret";
+      let dir: string;
+      let storage: DatabaseService;
+
+      beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "idempotency-secrets-"));
+        storage = new DatabaseService({ dbPath: path.join(dir, "storage.db") });
+        registry.configureIdempotency({ storage });
+        registry.register(keyTool, async () => {
+          calls++;
+          return { success: true, data: { apiKey: { key: secret } }, executionTime: 0 };
+        });
+      });
+
+      afterEach(() => {
+        storage.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+      });
+
+      it("should store the record without key material", async () => {
+        const first = await registry.executeTool("create_key_tool", {
+          name: "a",
+          idempotencyKey: "req-1",
+        });
+
+        const db = new Database(path.join(dir, "storage.db"), { readonly: true });
+        const rows = db.prepare("SELECT result FROM idempotency_keys").all() as Array<{
+          result: string;
+        }>;
+        db.close();
+
+        expect(first.data).toEqual({ apiKey: { key: secret } });
+        expect(rows).toHaveLength(1);
+        expect(rows[0]!.result).not.toContain(secret);
+      });
+
+      it("should fail a retry instead of replaying the secret", async () => {
+        await registry.executeTool("create_key_tool", { name: "a", idempotencyKey: "req-1" });
+        const retry = await registry.executeTool("create_key_tool", {
+          name: "a",
+          idempotencyKey: "req-1",
+        });
+
+        expect(calls).toBe(1);
+        expect(retry.success).toBe(false);
+        expect(retry.replayed).toBe(true);
+        expect(retry.errorCode).toBe(MCPErrorCode.OPERATION_FAILED);
+        expect(retry.data).toBeUndefined();
+        expect(JSON.stringify(retry)).not.toContain(secret);
+      });
+    });
   });
 
   describe("getMetrics", () => {
@@ -2,6 +2,7 @@
  * MockLighthouseService unit tests
  */
 
+import * as fs from "fs/promises";
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { MockLighthouseService } from "../../services/MockLighthouseService.js";
 import { createTestFile, cleanupTestFiles } from "../utils/test-helpers.js";
@@ -35,6 +36,17 @@ describe("MockLighthouseService", () => {
       expect(result.uploadedAt).toBeInstanceOf(Date);
     });
 
+    it("should assign the content CID and store identical content once", async () => {
+      const copyPath = await createTestFile("copy.txt", "Test file content");
+
+      const first = await service.uploadFile({ filePath: testFilePath });
+      const second = await service.uploadFile({ filePath: copyPath });
+
+      expect(first.cid).toBe(CIDGenerator.fromContent("Test file content"));
+      expect(second.cid).toBe(first.cid);
+      expect(service.getStorageStats().totalSize).toBe(first.size);
+    });
+
     it("should upload with encryption flag", async () => {
       const result = await service.uploadFile({
         filePath: testFilePath,
@@ -118,6 +130,21 @@ describe("MockLighthouseService", () => {
       expect(result.filePath).toBe(outputPath);
     });
 
+    it("should verify content against the CID on request", async () => {
+      const result = await service.fetchFile({ cid: uploadedCid, verify: true });
+
+      expect(result.verified).toBe(true);
+    });
+
+    it("should reject content that no longer matches the CID", async () => {
+      await fs.writeFile(testFilePath, "Modified content");
+
+      await expect(service.fetchFile({ cid: uploadedCid, verify: true })).rejects.toMatchObject({
+        code: "CID_MISMATCH",
+        actualCid: CIDGenerator.fromContent("Modified content"),
+      });
+    });
+
     it("should throw error for invalid CID", async () => {
       await expect(service.fetchFile({ cid: "invalid-cid" })).rejects.toThrow("Invalid CID format");
     });
@@ -234,6 +261,57 @@ describe("MockLighthouseService", () => {
     });
   });
 
+  describe("deduplication", () => {
+    it("should reuse pinned content and count the bytes saved", async () => {
+      const copyPath = await createTestFile("dedup-copy.txt", "Test file content");
+
+      const first = await service.uploadFile({ filePath: testFilePath });
+      const second = await service.uploadFile({ filePath: copyPath });
+
+      expect(first.deduplicated).toBeUndefined();
+      expect(second.deduplicated).toBe(true);
+      expect(second.originalPath).toBe(copyPath);
+      expect(service.getStorageStats().deduplication).toEqual({
+        duplicateUploads: 1,
+        bytesSaved: first.size,
+      });
+    });
+
+    it("should report the tags stored with reused content, not the requested ones", async () => {
+      const copyPath = await createTestFile("dedup-tags.txt", "Test file content");
+
+      await service.uploadFile({ filePath: testFilePath, tags: ["original"] });
+      const second = await service.uploadFile({ filePath: copyPath, tags: ["requested"] });
+
+      expect(second.deduplicated).toBe(true);
+      expect(second.tags).toEqual(["original"]);
+    });
+
+    it("should not deduplicate encrypted or unpinned content", async () => {
+      const first = await service.uploadFile({ filePath: testFilePath });
+      const encrypted = await service.uploadFile({ filePath: testFilePath, encrypt: true });
+      await service.unpinFile(first.cid);
+      const reuploaded = await service.uploadFile({ filePath: testFilePath });
+
+      expect(encrypted.deduplicated).toBeUndefined();
+      expect(reuploaded.deduplicated).toBeUndefined();
+      expect(service.getStorageStats().deduplication.duplicateUploads).toBe(0);
+    });
+
+    it("should deduplicate files shared between datasets", async () => {
+      const sharedPath = await createTestFile("shared.txt", "Shared content");
+      await service.createDataset({ name: "first", filePaths: [sharedPath] });
+
+      const dataset = await service.createDataset({
+        name: "second",
+        filePaths: [sharedPath, testFilePath],
+      });
+
+      expect(dataset.files.map((file) => file.deduplicated)).toEqual([true, undefined]);
+      expect(service.getStorageStats().deduplication.duplicateUploads).toBe(1);
+    });
+  });
+
   describe("clear", () => {
     it("should clear all stored files", async () => {
       await service.uploadFile({ filePath: testFilePath });
@@ -0,0 +1,141 @@
+/**
+ * AuditChain unit tests
+ */
+
+import { describe, it, expect } from "vitest";
+import { AuditChain, AuditChainLink } from "../../utils/audit-chain.js";
+
+type Entry = { timestamp: string; action: string; details?: Record<string, unknown> };
+
+function buildChain(count: number): Array<Entry & AuditChainLink> {
+  const entries: Array<Entry & AuditChainLink> = [];
+  for (let i = 1; i <= count; i++) {
+    const entry = {
+      timestamp: new Date(Date.UTC(2026, 0, 1, 0, i)).toISOString(),
+      action: `a${i}`,
+    };
+    entries.push(AuditChain.link(entry, entries[entries.length - 1] ?? null));
+  }
+  return entries;
+}
+
+describe("AuditChain", () => {
+  describe("link", () => {
+    it("should link each entry to the previous hash", () => {
+      const [first, second] = buildChain(2);
+
+      expect(first!.sequence).toBe(1);
+      expect(first!.prevHash).toBe(AuditChain.GENESIS_HASH);
+      expect(second!.sequence).toBe(2);
+      expect(second!.prevHash).toBe(first!.hash);
+    });
+
+    it("should hash the same content the same way after a JSON round trip", () => {
+      const linked = AuditChain.link(
+        { timestamp: "2026-01-01T00:00:00.000Z", action: "x", details: { b: 1, a: undefined } },
+        null,
+      );
+      const reloaded = JSON.parse(JSON.stringify(linked));
+
+      expect(AuditChain.hash(reloaded, reloaded.sequence, reloaded.prevHash)).toBe(linked.hash);
+    });
+  });
+
+  describe("verify", () => {
+    it("should accept an intact chain", () => {
+      expect(AuditChain.verify(buildChain(5))).toEqual({
+        valid: true,
+        entriesChecked: 5,
+        checkpointsChecked: 0,
+        unchainedEntries: 0,
+      });
+    });
+
+    it("should report the first edited entry", () => {
+      const entries = buildChain(5);
+      entries[2]!.action = "edited";
+
+      const result = AuditChain.verify(entries);
+
+      expect(result.valid).toBe(false);
+      expect(result.brokenLink).toMatchObject({
+        index: 2,
+        sequence: 3,
+        reason: "Entry content does not match its hash",
+      });
+    });
+
+    it("should report removed and reordered entries", () => {
+      const removed = buildChain(5);
+      removed.splice(1, 1);
+      expect(AuditChain.verify(removed).brokenLink?.reason).toBe("Expected sequence 2 but found 3");
+
+      const reordered = buildChain(5);
+      [reordered[3], reordered[4]] = [reordered[4]!, reordered[3]!];
+      expect(AuditChain.verify(reordered).brokenLink?.index).toBe(3);
+    });
+
+    it("should skip entries written before chaining and trust a compacted start", () => {
+      const legacy = { timestamp: "2025-12-31T00:00:00.000Z", action: "legacy" };
+
+      const result = AuditChain.verify([legacy, ...buildChain(5).slice(2)]);
+
+      expect(result).toMatchObject({ valid: true, entriesChecked: 3, unchainedEntries: 1 });
+    });
+
+    it("should catch a rewritten chain with signed checkpoints", () => {
+      const entries = buildChain(4);
+      const checkpoint = AuditChain.checkpoint(entries[3]!, "secret");
+
+      // Edit an entry and recompute every hash after it
+      const rewritten = entries.slice(0, 1);
+      for (const entry of entries.slice(1)) {
+        rewritten.push(
+          AuditChain.link(
+            { timestamp: entry.timestamp, action: `${entry.action}!` },
+            rewritten.at(-1)!,
+          ),
+        );
+      }
+
+      expect(AuditChain.verify(rewritten).valid).toBe(true);
+      expect(AuditChain.verify(rewritten, [checkpoint], "secret").brokenLink?.reason).toBe(
+        "Entry 4 does not match its signed checkpoint",
+      );
+    });
+
+    it("should reject forged checkpoints and detect a truncated tail", () => {
+      const entries = buildChain(4);
+      const checkpoint = AuditChain.checkpoint(entries[3]!, "secret");
+
+      expect(AuditChain.verify(entries, [checkpoint], "other").brokenLink?.reason).toBe(
+        "Checkpoint signature is invalid",
+      );
+      expect(
+        AuditChain.verify(entries.slice(0, 3), [checkpoint], "secret").brokenLink?.reason,
+      ).toBe("Entries up to sequence 4 are missing from the end of the log");
+    });
+
+    it("should detect a truncated start unless a signed anchor records the compaction", () => {
+      const entries = buildChain(5);
+      const anchor = AuditChain.anchor(entries[1]!, "secret");
+
+      expect(AuditChain.verify(entries.slice(2), [], "secret").brokenLink?.reason).toBe(
+        "Entries 1 to 2 are missing from the start of the log",
+      );
+      expect(AuditChain.verify(entries.slice(2), [], "secret", anchor).valid).toBe(true);
+      expect(AuditChain.verify(entries.slice(3), [], "secret", anchor).brokenLink?.reason).toBe(
+        "Entries 3 to 3 are missing from the start of the log",
+      );
+    });
+
+    it("should not accept a checkpoint as a compaction anchor", () => {
+      const entries = buildChain(5);
+      const checkpoint = AuditChain.checkpoint(entries[1]!, "secret");
+
+      expect(
+        AuditChain.verify(entries.slice(2), [checkpoint], "secret", checkpoint).brokenLink?.reason,
+      ).toBe("Compaction anchor signature is invalid");
+    });
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * CIDGenerator unit tests
+ */
+
+import { describe, it, expect, afterAll } from "vitest";
+import { CIDGenerator } from "../../utils/cid-generator.js";
+import { createTestFile, cleanupTestFiles } from "./test-helpers.js";
+
+describe("CIDGenerator", () => {
+  afterAll(async () => {
+    await cleanupTestFiles();
+  });
+
+  describe("fromContent", () => {
+    it("should match CIDv0 produced by ipfs add", () => {
+      expect(CIDGenerator.fromContent("")).toBe("QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH");
+      expect(CIDGenerator.fromContent("hello world\n")).toBe(
+        "QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o",
+      );
+    });
+
+    it("should match CIDv1 raw leaves produced by ipfs add --cid-version 1", () => {
+      expect(CIDGenerator.fromContent("hello world", true)).toBe(
+        "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e",
+      );
+    });
+  });
+
+  describe("fromFile", () => {
+    it("should give the same file the same CID every time", async () => {
+      const filePath = await createTestFile("stable.txt", "hello world\n");
+
+      expect(await CIDGenerator.fromFile(filePath)).toBe(
+        "QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o",
+      );
+      expect(await CIDGenerator.fromFile(filePath)).toBe(await CIDGenerator.fromFile(filePath));
+    });
+
+    it("should match in-memory import for large files", async () => {
+      const content = "abcdef".repeat(100000);
+      const filePath = await createTestFile("large.txt", content);
+
+      expect(await CIDGenerator.fromFile(filePath, true)).toBe(
+        CIDGenerator.fromContent(content, true),
+      );
+    });
+  });
+
+  describe("generate", () => {
+    it("should produce valid unique identifiers", () => {
+      const first = CIDGenerator.generate("dataset-a");
+
+      expect(CIDGenerator.isValid(first)).toBe(true);
+      expect(CIDGenerator.isValid(CIDGenerator.generate("dataset-a", true))).toBe(true);
+    });
+  });
+});
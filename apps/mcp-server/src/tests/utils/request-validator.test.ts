@@ -118,6 +118,33 @@ describe("RequestValidator", () => {
       });
 
       expect(result.valid).toBe(false);
+      expect(result.errors[0].field).toBe("arrayParam[1]");
+    });
+
+    it("should validate nested objects, required fields and enums", () => {
+      const tool: MCPToolDefinition = {
+        ...testTool,
+        inputSchema: {
+          type: "object",
+          properties: {
+            config: {
+              type: "object",
+              description: "Nested config",
+              properties: {
+                mode: { type: "string", description: "Mode", enum: ["fast", "safe"] },
+                retries: { type: "number", description: "Retries", minimum: 0 },
+              },
+              required: ["mode"],
+            },
+          },
+        },
+      };
+
+      const missing = RequestValidator.validateToolArguments(tool, { config: { retries: -1 } });
+      const badEnum = RequestValidator.validateToolArguments(tool, { config: { mode: "slow" } });
+
+      expect(missing.errors.map((e) => e.field)).toEqual(["config.mode", "config.retries"]);
+      expect(badEnum.errors[0].message).toBe("Field 'config.mode' must be one of: fast, safe");
     });
   });
 
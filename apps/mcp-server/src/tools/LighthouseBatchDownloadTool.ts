@@ -19,6 +19,7 @@ interface BatchDownloadParams {
   outputDir?: string;
   concurrency?: number;
   decrypt?: boolean;
+  verify?: boolean;
   continueOnError?: boolean;
 }
 
@@ -71,6 +72,11 @@ export class LighthouseBatchDownloadTool {
             description: "Whether to decrypt the files during download",
             default: false,
           },
+          verify: {
+            type: "boolean",
+            description: "Recompute the CID of each downloaded file and reject it on mismatch",
+            default: false,
+          },
           continueOnError: {
             type: "boolean",
             description: "Whether to continue downloading other files if one fails (default: true)",
@@ -168,6 +174,11 @@ export class LighthouseBatchDownloadTool {
       return "decrypt must be a boolean";
     }
 
+    // Validate verify parameter
+    if (params.verify !== undefined && typeof params.verify !== "boolean") {
+      return "verify must be a boolean";
+    }
+
     return null;
   }
 
@@ -191,6 +202,7 @@ export class LighthouseBatchDownloadTool {
         outputDir: args.outputDir as string | undefined,
         concurrency: args.concurrency as number | undefined,
         decrypt: args.decrypt as boolean | undefined,
+        verify: args.verify as boolean | undefined,
         continueOnError: args.continueOnError as boolean | undefined,
       };
 
@@ -216,6 +228,7 @@ export class LighthouseBatchDownloadTool {
         concurrency: params.concurrency || 3,
         outputDir: params.outputDir,
         decrypt: params.decrypt,
+        verify: params.verify,
         continueOnError: params.continueOnError ?? true,
       });
 
@@ -245,6 +258,7 @@ export class LighthouseBatchDownloadTool {
           filePath: r.data?.filePath,
           size: r.data?.size,
           decrypted: r.data?.decrypted,
+          verified: r.data?.verified,
           error: r.error,
           duration: r.duration,
           retries: r.retries,
@@ -103,6 +103,7 @@ export class LighthouseBatchUploadTool {
       requiresAuth: true,
       supportsBatch: true,
       executionTime: ExecutionTimeCategory.SLOW,
+      mutating: true,
     };
   }
 
@@ -7,13 +7,12 @@ import { Logger } from "@lighthouse-tooling/shared";
 import {
   MCPToolDefinition,
   ExecutionTimeCategory,
-  TenantApiKey,
   Permission,
   TenantContext,
 } from "@lighthouse-tooling/types";
 import { TenantStore } from "../tenancy/storage/TenantStore.js";
+import { ApiKeyManager } from "../tenancy/ApiKeyManager.js";
 import { ProgressAwareToolResult } from "./types.js";
-import * as crypto from "crypto";
 
 interface CreateApiKeyParams {
   _tenantContext?: TenantContext;
@@ -26,10 +25,12 @@ interface CreateApiKeyParams {
 
 export class LighthouseCreateApiKeyTool {
   private tenantStore: TenantStore;
+  private apiKeyManager: ApiKeyManager;
   private logger: Logger;
 
-  constructor(tenantStore: TenantStore, logger?: Logger) {
+  constructor(tenantStore: TenantStore, apiKeyManager: ApiKeyManager, logger?: Logger) {
     this.tenantStore = tenantStore;
+    this.apiKeyManager = apiKeyManager;
     this.logger =
       logger ||
       Logger.getInstance({
@@ -65,7 +66,7 @@ export class LighthouseCreateApiKeyTool {
           permissions: {
             type: "array",
             description:
-              "Optional custom permissions (if not provided, uses role-based permissions)",
+              "Optional permission scopes, which must be a subset of your role's permissions (if not provided, uses role-based permissions)",
             items: {
               type: "string",
               description: "Permission name (e.g., 'file:upload', 'dataset:create')",
@@ -78,29 +79,11 @@ export class LighthouseCreateApiKeyTool {
       requiresAuth: true,
       supportsBatch: false,
       executionTime: ExecutionTimeCategory.FAST,
+      mutating: true,
+      returnsSecrets: true,
     };
   }
 
-  private generateKeyId(): string {
-    return crypto.randomBytes(8).toString("hex");
-  }
-
-  private generateSecret(): string {
-    return crypto.randomBytes(32).toString("hex");
-  }
-
-  private formatApiKey(
-    organizationId: string,
-    teamId: string | undefined,
-    keyId: string,
-    secret: string,
-  ): string {
-    if (teamId) {
-      return `org_${organizationId}_team_${teamId}_key_${keyId}.${secret}`;
-    }
-    return `org_${organizationId}_key_${keyId}.${secret}`;
-  }
-
   async execute(args: Record<string, unknown>): Promise<ProgressAwareToolResult> {
     const startTime = Date.now();
 
@@ -145,14 +128,6 @@ export class LighthouseCreateApiKeyTool {
         };
       }
 
-      // Generate key components
-      const keyId = this.generateKeyId();
-      const secret = this.generateSecret();
-      const keyHash = crypto.createHash("sha256").update(secret).digest("hex");
-
-      // Format the full API key
-      const fullApiKey = this.formatApiKey(params.organizationId, params.teamId, keyId, secret);
-
       // Calculate expiration if specified
       let expiresAt: string | undefined;
       if (params.expiresInDays) {
@@ -161,32 +136,17 @@ export class LighthouseCreateApiKeyTool {
         expiresAt = expDate.toISOString();
       }
 
-      // Create API key entity
-      const apiKey: TenantApiKey = {
-        id: keyId,
+      const { apiKey, fullKey } = await this.apiKeyManager.issueKey({
         organizationId: params.organizationId,
         teamId: params.teamId,
-        createdBy: params._tenantContext?.user.userId || "system",
         name: params.name,
-        key: fullApiKey,
-        keyHash,
-        createdAt: new Date().toISOString(),
+        holder: params._tenantContext?.user.userId || "system",
         expiresAt,
-        status: "active",
         permissions: params.permissions,
-        usageStats: {
-          totalRequests: 0,
-          failedRequests: 0,
-          rateLimitHits: 0,
-          bytesUploaded: 0,
-          bytesDownloaded: 0,
-        },
         metadata: {
           createdVia: "mcp-tool",
         },
-      };
-
-      await this.tenantStore.saveApiKey(params.organizationId, apiKey);
+      });
 
       // Update quota count
       if (quota) {
@@ -197,7 +157,7 @@ export class LighthouseCreateApiKeyTool {
       this.logger.info("API key created successfully", {
         organizationId: params.organizationId,
         teamId: params.teamId,
-        keyId,
+        keyId: apiKey.id,
       });
 
       return {
@@ -206,7 +166,7 @@ export class LighthouseCreateApiKeyTool {
           apiKey: {
             ...apiKey,
             // Return the full key only once - it won't be retrievable later
-            key: fullApiKey,
+            key: fullKey,
           },
           message:
             "API key created successfully. Store the key securely - it cannot be retrieved later.",
@@ -110,6 +110,7 @@ export class LighthouseCreateDatasetTool {
       requiresAuth: true,
       supportsBatch: false,
       executionTime: ExecutionTimeCategory.SLOW,
+      mutating: true,
     };
   }
 
@@ -124,6 +124,7 @@ export class LighthouseCreateOrganizationTool {
       requiresAuth: true,
       supportsBatch: false,
       executionTime: ExecutionTimeCategory.FAST,
+      mutating: true,
     };
   }
 
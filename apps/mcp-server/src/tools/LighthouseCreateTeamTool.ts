@@ -95,6 +95,7 @@ export class LighthouseCreateTeamTool {
       requiresAuth: true,
       supportsBatch: false,
       executionTime: ExecutionTimeCategory.FAST,
+      mutating: true,
     };
   }
 
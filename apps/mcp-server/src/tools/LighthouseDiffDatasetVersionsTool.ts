@@ -0,0 +1,190 @@
+/**
+ * Lighthouse Diff Dataset Versions Tool - MCP tool for comparing two versions of a dataset
+ */
+
+import { Logger } from "@lighthouse-tooling/shared";
+import { MCPToolDefinition, ExecutionTimeCategory, UploadResult } from "@lighthouse-tooling/types";
+import { ILighthouseService } from "../services/ILighthouseService.js";
+import { ProgressAwareToolResult } from "./types.js";
+
+/**
+ * Input parameters for lighthouse_diff_dataset_versions tool
+ */
+interface DiffDatasetVersionsParams {
+  datasetId: string;
+  fromVersion: string;
+  toVersion: string;
+}
+
+/**
+ * MCP tool for listing files added, removed and changed between two dataset versions
+ */
+export class LighthouseDiffDatasetVersionsTool {
+  private service: ILighthouseService;
+  private logger: Logger;
+
+  constructor(service: ILighthouseService, logger?: Logger) {
+    this.service = service;
+    this.logger =
+      logger ||
+      Logger.getInstance({ level: "info", component: "LighthouseDiffDatasetVersionsTool" });
+  }
+
+  /**
+   * Get tool definition
+   */
+  static getDefinition(): MCPToolDefinition {
+    return {
+      name: "lighthouse_diff_dataset_versions",
+      description:
+        "Compare two versions of a dataset and list the files added, removed and changed between them",
+      inputSchema: {
+        type: "object",
+        properties: {
+          datasetId: {
+            type: "string",
+            description: "Unique identifier of the dataset",
+            minLength: 1,
+            maxLength: 100,
+          },
+          fromVersion: {
+            type: "string",
+            description: "Version to compare from (e.g. 1.0.0)",
+            minLength: 1,
+          },
+          toVersion: {
+            type: "string",
+            description: "Version to compare to (e.g. 1.2.0)",
+            minLength: 1,
+          },
+        },
+        required: ["datasetId", "fromVersion", "toVersion"],
+        additionalProperties: false,
+      },
+      requiresAuth: true,
+      supportsBatch: false,
+      executionTime: ExecutionTimeCategory.FAST,
+    };
+  }
+
+  /**
+   * Validate input parameters
+   */
+  private validateParams(params: DiffDatasetVersionsParams): string | null {
+    if (!params.datasetId || typeof params.datasetId !== "string") {
+      return "datasetId is required and must be a string";
+    }
+
+    if (params.datasetId.length > 100) {
+      return "datasetId must be 100 characters or less";
+    }
+
+    if (!params.fromVersion || typeof params.fromVersion !== "string") {
+      return "fromVersion is required and must be a string";
+    }
+
+    if (!params.toVersion || typeof params.toVersion !== "string") {
+      return "toVersion is required and must be a string";
+    }
+
+    return null;
+  }
+
+  /**
+   * Format a file entry for the response
+   */
+  private formatFile(file: UploadResult) {
+    return { cid: file.cid, size: file.size, originalPath: file.originalPath };
+  }
+
+  /**
+   * Execute the diff dataset versions operation
+   */
+  async execute(args: Record<string, unknown>): Promise<ProgressAwareToolResult> {
+    const startTime = Date.now();
+
+    try {
+      this.logger.info("Executing lighthouse_diff_dataset_versions tool", { args });
+
+      const params: DiffDatasetVersionsParams = {
+        datasetId: args.datasetId as string,
+        fromVersion: args.fromVersion as string,
+        toVersion: args.toVersion as string,
+      };
+
+      const validationError = this.validateParams(params);
+      if (validationError) {
+        this.logger.warn("Parameter validation failed", { error: validationError, args });
+        return {
+          success: false,
+          error: `Invalid parameters: ${validationError}`,
+          executionTime: Date.now() - startTime,
+        };
+      }
+
+      const diff = await this.service.diffDatasetVersions(
+        params.datasetId,
+        params.fromVersion,
+        params.toVersion,
+      );
+
+      const executionTime = Date.now() - startTime;
+      this.logger.info("Dataset versions compared successfully", {
+        datasetId: params.datasetId,
+        fromVersion: params.fromVersion,
+        toVersion: params.toVersion,
+        added: diff.added.length,
+        removed: diff.removed.length,
+        changed: diff.changed.length,
+        executionTime,
+      });
+
+      return {
+        success: true,
+        data: {
+          success: true,
+          datasetId: diff.datasetId,
+          fromVersion: diff.fromVersion,
+          toVersion: diff.toVersion,
+          added: diff.added.map((file) => this.formatFile(file)),
+          removed: diff.removed.map((file) => this.formatFile(file)),
+          changed: diff.changed.map((change) => ({
+            path: change.path,
+            fromCid: change.from.cid,
+            toCid: change.to.cid,
+            fromSize: change.from.size,
+            toSize: change.to.size,
+          })),
+          summary: {
+            added: diff.added.length,
+            removed: diff.removed.length,
+            changed: diff.changed.length,
+          },
+        },
+        executionTime,
+        metadata: {
+          executionTime,
+          datasetId: params.datasetId,
+        },
+      };
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+
+      this.logger.error("Diff dataset versions failed", error as Error, {
+        datasetId: args.datasetId as string,
+        executionTime,
+      });
+
+      return {
+        success: false,
+        error: `Diff dataset versions failed: ${errorMessage}`,
+        executionTime,
+        metadata: {
+          executionTime,
+          datasetId: args.datasetId as string,
+        },
+      };
+    }
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Lighthouse Export Dataset Manifest Tool - MCP tool for exporting a dataset as a portable manifest
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { Logger } from "@lighthouse-tooling/shared";
+import { MCPToolDefinition, ExecutionTimeCategory } from "@lighthouse-tooling/types";
+import { DatasetManifest, ManifestFormat } from "@lighthouse-tooling/sdk-wrapper";
+import { ILighthouseService } from "../services/ILighthouseService.js";
+import { ProgressAwareToolResult } from "./types.js";
+
+/**
+ * Input parameters for lighthouse_export_dataset_manifest tool
+ */
+interface ExportDatasetManifestParams {
+  datasetId: string;
+  format?: ManifestFormat;
+  outputPath?: string;
+}
+
+/**
+ * MCP tool for exporting a dataset as a JSON or CSV manifest. The manifest references files
+ * by CID, so it can be shared or checked into git and imported elsewhere without re-uploading.
+ */
+export class LighthouseExportDatasetManifestTool {
+  private service: ILighthouseService;
+  private logger: Logger;
+
+  constructor(service: ILighthouseService, logger?: Logger) {
+    this.service = service;
+    this.logger =
+      logger ||
+      Logger.getInstance({ level: "info", component: "LighthouseExportDatasetManifestTool" });
+  }
+
+  /**
+   * Get tool definition
+   */
+  static getDefinition(): MCPToolDefinition {
+    return {
+      name: "lighthouse_export_dataset_manifest",
+      description:
+        "Export a dataset as a portable JSON or CSV manifest of file CIDs, sizes, hashes, encryption flags, access conditions and metadata",
+      inputSchema: {
+        type: "object",
+        properties: {
+          datasetId: {
+            type: "string",
+            description: "Unique identifier of the dataset",
+            minLength: 1,
+            maxLength: 100,
+          },
+          format: {
+            type: "string",
+            description: "Manifest format (defaults to the outputPath extension, otherwise json)",
+            enum: ["json", "csv"],
+          },
+          outputPath: {
+            type: "string",
+            description: "Optional path to write the manifest to",
+            minLength: 1,
+          },
+        },
+        required: ["datasetId"],
+        additionalProperties: false,
+      },
+      requiresAuth: true,
+      supportsBatch: false,
+      executionTime: ExecutionTimeCategory.FAST,
+    };
+  }
+
+  /**
+   * Validate input parameters
+   */
+  private validateParams(params: ExportDatasetManifestParams): string | null {
+    if (!params.datasetId || typeof params.datasetId !== "string") {
+      return "datasetId is required and must be a string";
+    }
+
+    if (params.datasetId.length > 100) {
+      return "datasetId must be 100 characters or less";
+    }
+
+    if (params.format !== undefined && params.format !== "json" && params.format !== "csv") {
+      return "format must be json or csv";
+    }
+
+    if (params.outputPath !== undefined && typeof params.outputPath !== "string") {
+      return "outputPath must be a string";
+    }
+
+    return null;
+  }
+
+  /**
+   * Execute the export dataset manifest operation
+   */
+  async execute(args: Record<string, unknown>): Promise<ProgressAwareToolResult> {
+    const startTime = Date.now();
+
+    try {
+      this.logger.info("Executing lighthouse_export_dataset_manifest tool", { args });
+
+      const params: ExportDatasetManifestParams = {
+        datasetId: args.datasetId as string,
+        format: args.format as ManifestFormat | undefined,
+        outputPath: args.outputPath as string | undefined,
+      };
+
+      const validationError = this.validateParams(params);
+      if (validationError) {
+        this.logger.warn("Parameter validation failed", { error: validationError, args });
+        return {
+          success: false,
+          error: `Invalid parameters: ${validationError}`,
+          executionTime: Date.now() - startTime,
+        };
+      }
+
+      const dataset = await this.service.getDataset(params.datasetId);
+      if (!dataset) {
+        throw new Error(`Dataset not found: ${params.datasetId}`);
+      }
+
+      const format =
+        params.format ??
+        (params.outputPath ? DatasetManifest.formatForPath(params.outputPath) : "json");
+      const manifest = DatasetManifest.serialize(dataset, format);
+
+      if (params.outputPath) {
+        await fs.mkdir(path.dirname(params.outputPath), { recursive: true });
+        await fs.writeFile(params.outputPath, manifest, "utf-8");
+      }
+
+      const executionTime = Date.now() - startTime;
+      this.logger.info("Dataset manifest exported successfully", {
+        datasetId: dataset.id,
+        format,
+        outputPath: params.outputPath,
+        executionTime,
+      });
+
+      return {
+        success: true,
+        data: {
+          success: true,
+          datasetId: dataset.id,
+          version: dataset.version,
+          format,
+          fileCount: dataset.files.length,
+          outputPath: params.outputPath,
+          manifest,
+          message: params.outputPath
+            ? `Manifest for dataset "${dataset.name}" written to ${params.outputPath}`
+            : `Manifest for dataset "${dataset.name}" exported as ${format}`,
+        },
+        executionTime,
+        metadata: {
+          executionTime,
+          datasetId: dataset.id,
+          format,
+        },
+      };
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+
+      this.logger.error("Export dataset manifest failed", error as Error, {
+        datasetId: args.datasetId as string,
+        executionTime,
+      });
+
+      return {
+        success: false,
+        error: `Export dataset manifest failed: ${errorMessage}`,
+        executionTime,
+        metadata: {
+          executionTime,
+          datasetId: args.datasetId as string,
+        },
+      };
+    }
+  }
+}
@@ -17,6 +17,7 @@ interface FetchFileParams {
   cid: string;
   outputPath?: string;
   decrypt?: boolean;
+  verify?: boolean;
 }
 
 /**
@@ -61,6 +62,11 @@ export class LighthouseFetchFileTool {
             description: "Whether to decrypt the file during download",
             default: false,
           },
+          verify: {
+            type: "boolean",
+            description: "Recompute the CID of the downloaded content and reject it on mismatch",
+            default: false,
+          },
         },
         required: ["cid"],
         additionalProperties: false,
@@ -148,6 +154,11 @@ export class LighthouseFetchFileTool {
       return "decrypt must be a boolean";
     }
 
+    // Validate verify parameter
+    if (params.verify !== undefined && typeof params.verify !== "boolean") {
+      return "verify must be a boolean";
+    }
+
     return null;
   }
 
@@ -165,6 +176,7 @@ export class LighthouseFetchFileTool {
         cid: args.cid as string,
         outputPath: args.outputPath as string | undefined,
         decrypt: args.decrypt as boolean | undefined,
+        verify: args.verify as boolean | undefined,
       };
       const validationError = await this.validateParams(params);
       if (validationError) {
@@ -201,6 +213,7 @@ export class LighthouseFetchFileTool {
         cid: params.cid,
         outputPath,
         decrypt: params.decrypt,
+        verify: params.verify,
       });
 
       const executionTime = Date.now() - startTime;
@@ -230,6 +243,7 @@ export class LighthouseFetchFileTool {
         size: result.size,
         hash: result.hash,
         decrypted: result.decrypted,
+        verified: result.verified ?? false,
         downloadedAt: result.downloadedAt.toISOString(),
         fileExists: !!fileStats,
         actualFileSize: fileStats?.size,
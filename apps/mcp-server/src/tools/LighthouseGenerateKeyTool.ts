@@ -64,6 +64,8 @@ export class LighthouseGenerateKeyTool {
       requiresAuth: false, // Key generation doesn't require authentication
       supportsBatch: false,
       executionTime: ExecutionTimeCategory.FAST,
+      mutating: true,
+      returnsSecrets: true,
     };
   }
 
@@ -0,0 +1,170 @@
+/**
+ * Lighthouse Import Dataset Manifest Tool - MCP tool for rebuilding a dataset from a manifest
+ */
+
+import fs from "fs/promises";
+import { Logger } from "@lighthouse-tooling/shared";
+import { MCPToolDefinition, ExecutionTimeCategory } from "@lighthouse-tooling/types";
+import { DatasetManifest } from "@lighthouse-tooling/sdk-wrapper";
+import { ILighthouseService } from "../services/ILighthouseService.js";
+import { ProgressAwareToolResult } from "./types.js";
+
+/**
+ * Input parameters for lighthouse_import_dataset_manifest tool
+ */
+interface ImportDatasetManifestParams {
+  manifestPath?: string;
+  manifest?: string;
+}
+
+/**
+ * MCP tool for importing a JSON or CSV dataset manifest. The dataset is rebuilt from the
+ * CIDs in the manifest; no file content is uploaded.
+ */
+export class LighthouseImportDatasetManifestTool {
+  private service: ILighthouseService;
+  private logger: Logger;
+
+  constructor(service: ILighthouseService, logger?: Logger) {
+    this.service = service;
+    this.logger =
+      logger ||
+      Logger.getInstance({ level: "info", component: "LighthouseImportDatasetManifestTool" });
+  }
+
+  /**
+   * Get tool definition
+   */
+  static getDefinition(): MCPToolDefinition {
+    return {
+      name: "lighthouse_import_dataset_manifest",
+      description:
+        "Import a dataset from a JSON or CSV manifest without re-uploading its files. Provide either manifestPath or manifest",
+      inputSchema: {
+        type: "object",
+        properties: {
+          manifestPath: {
+            type: "string",
+            description: "Path to a manifest file",
+            minLength: 1,
+          },
+          manifest: {
+            type: "string",
+            description: "Manifest content",
+            minLength: 1,
+          },
+        },
+        additionalProperties: false,
+      },
+      requiresAuth: true,
+      supportsBatch: false,
+      executionTime: ExecutionTimeCategory.FAST,
+      mutating: true,
+    };
+  }
+
+  /**
+   * Validate input parameters
+   */
+  private validateParams(params: ImportDatasetManifestParams): string | null {
+    if (params.manifestPath === undefined && params.manifest === undefined) {
+      return "either manifestPath or manifest is required";
+    }
+
+    if (params.manifestPath !== undefined && params.manifest !== undefined) {
+      return "provide either manifestPath or manifest, not both";
+    }
+
+    if (params.manifestPath !== undefined && typeof params.manifestPath !== "string") {
+      return "manifestPath must be a string";
+    }
+
+    if (params.manifest !== undefined && typeof params.manifest !== "string") {
+      return "manifest must be a string";
+    }
+
+    return null;
+  }
+
+  /**
+   * Execute the import dataset manifest operation
+   */
+  async execute(args: Record<string, unknown>): Promise<ProgressAwareToolResult> {
+    const startTime = Date.now();
+
+    try {
+      this.logger.info("Executing lighthouse_import_dataset_manifest tool", {
+        manifestPath: args.manifestPath,
+      });
+
+      const params: ImportDatasetManifestParams = {
+        manifestPath: args.manifestPath as string | undefined,
+        manifest: args.manifest as string | undefined,
+      };
+
+      const validationError = this.validateParams(params);
+      if (validationError) {
+        this.logger.warn("Parameter validation failed", { error: validationError });
+        return {
+          success: false,
+          error: `Invalid parameters: ${validationError}`,
+          executionTime: Date.now() - startTime,
+        };
+      }
+
+      const content = params.manifestPath
+        ? await fs.readFile(params.manifestPath, "utf-8")
+        : (params.manifest as string);
+      const dataset = await this.service.importDataset(
+        DatasetManifest.toDataset(DatasetManifest.parse(content)),
+      );
+
+      const executionTime = Date.now() - startTime;
+      this.logger.info("Dataset manifest imported successfully", {
+        datasetId: dataset.id,
+        fileCount: dataset.files.length,
+        executionTime,
+      });
+
+      return {
+        success: true,
+        data: {
+          success: true,
+          dataset: {
+            id: dataset.id,
+            name: dataset.name,
+            description: dataset.description,
+            version: dataset.version,
+            fileCount: dataset.files.length,
+            totalSize: dataset.files.reduce((sum, file) => sum + file.size, 0),
+            encrypted: dataset.encrypted,
+          },
+          message: `Dataset "${dataset.name}" imported with ${dataset.files.length} files`,
+        },
+        executionTime,
+        metadata: {
+          executionTime,
+          datasetId: dataset.id,
+          fileCount: dataset.files.length,
+        },
+      };
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+
+      this.logger.error("Import dataset manifest failed", error as Error, {
+        manifestPath: args.manifestPath as string,
+        executionTime,
+      });
+
+      return {
+        success: false,
+        error: `Import dataset manifest failed: ${errorMessage}`,
+        executionTime,
+        metadata: {
+          executionTime,
+        },
+      };
+    }
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Lighthouse List Dataset Versions Tool - MCP tool for listing the version history of a dataset
+ */
+
+import { Logger } from "@lighthouse-tooling/shared";
+import { MCPToolDefinition, ExecutionTimeCategory } from "@lighthouse-tooling/types";
+import { ILighthouseService } from "../services/ILighthouseService.js";
+import { ProgressAwareToolResult } from "./types.js";
+
+/**
+ * Input parameters for lighthouse_list_dataset_versions tool
+ */
+interface ListDatasetVersionsParams {
+  datasetId: string;
+}
+
+/**
+ * MCP tool for listing the immutable version history of a dataset
+ */
+export class LighthouseListDatasetVersionsTool {
+  private service: ILighthouseService;
+  private logger: Logger;
+
+  constructor(service: ILighthouseService, logger?: Logger) {
+    this.service = service;
+    this.logger =
+      logger ||
+      Logger.getInstance({ level: "info", component: "LighthouseListDatasetVersionsTool" });
+  }
+
+  /**
+   * Get tool definition
+   */
+  static getDefinition(): MCPToolDefinition {
+    return {
+      name: "lighthouse_list_dataset_versions",
+      description:
+        "List the version history of a dataset, oldest first, with the file CIDs recorded at each version",
+      inputSchema: {
+        type: "object",
+        properties: {
+          datasetId: {
+            type: "string",
+            description: "Unique identifier of the dataset",
+            minLength: 1,
+            maxLength: 100,
+          },
+        },
+        required: ["datasetId"],
+        additionalProperties: false,
+      },
+      requiresAuth: true,
+      supportsBatch: false,
+      executionTime: ExecutionTimeCategory.FAST,
+    };
+  }
+
+  /**
+   * Validate input parameters
+   */
+  private validateParams(params: ListDatasetVersionsParams): string | null {
+    if (!params.datasetId || typeof params.datasetId !== "string") {
+      return "datasetId is required and must be a string";
+    }
+
+    if (params.datasetId.length > 100) {
+      return "datasetId must be 100 characters or less";
+    }
+
+    return null;
+  }
+
+  /**
+   * Execute the list dataset versions operation
+   */
+  async execute(args: Record<string, unknown>): Promise<ProgressAwareToolResult> {
+    const startTime = Date.now();
+
+    try {
+      this.logger.info("Executing lighthouse_list_dataset_versions tool", { args });
+
+      const params: ListDatasetVersionsParams = {
+        datasetId: args.datasetId as string,
+      };
+
+      const validationError = this.validateParams(params);
+      if (validationError) {
+        this.logger.warn("Parameter validation failed", { error: validationError, args });
+        return {
+          success: false,
+          error: `Invalid parameters: ${validationError}`,
+          executionTime: Date.now() - startTime,
+        };
+      }
+
+      const versions = await this.service.listDatasetVersions(params.datasetId);
+
+      const executionTime = Date.now() - startTime;
+      this.logger.info("Dataset versions listed successfully", {
+        datasetId: params.datasetId,
+        versionCount: versions.length,
+        executionTime,
+      });
+
+      return {
+        success: true,
+        data: {
+          success: true,
+          datasetId: params.datasetId,
+          versions: versions.map((version) => ({
+            version: version.version,
+            parentVersion: version.parentVersion,
+            restoredFrom: version.restoredFrom,
+            description: version.description,
+            fileCount: version.files.length,
+            totalSize: version.files.reduce((sum, file) => sum + file.size, 0),
+            files: version.files.map((file) => ({
+              cid: file.cid,
+              size: file.size,
+              originalPath: file.originalPath,
+            })),
+            metadata: version.metadata,
+            createdAt: version.createdAt.toISOString(),
+          })),
+        },
+        executionTime,
+        metadata: {
+          executionTime,
+          datasetId: params.datasetId,
+          versionCount: versions.length,
+        },
+      };
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+
+      this.logger.error("List dataset versions failed", error as Error, {
+        datasetId: args.datasetId as string,
+        executionTime,
+      });
+
+      return {
+        success: false,
+        error: `List dataset versions failed: ${errorMessage}`,
+        executionTime,
+        metadata: {
+          executionTime,
+          datasetId: args.datasetId as string,
+        },
+      };
+    }
+  }
+}
@@ -83,6 +83,7 @@ export class LighthouseManageTeamMembersTool {
       requiresAuth: true,
       supportsBatch: false,
       executionTime: ExecutionTimeCategory.FAST,
+      mutating: true,
     };
   }
 
@@ -0,0 +1,189 @@
+/**
+ * Lighthouse Query Audit Log Tool
+ * MCP tool for searching and exporting an organization's audit log
+ */
+
+import { Logger } from "@lighthouse-tooling/shared";
+import {
+  AuditLogQuery,
+  MCPToolDefinition,
+  ExecutionTimeCategory,
+  TenantContext,
+} from "@lighthouse-tooling/types";
+import { TenantStore } from "../tenancy/storage/TenantStore.js";
+import { ProgressAwareToolResult } from "./types.js";
+
+interface QueryAuditLogParams extends AuditLogQuery {
+  _tenantContext?: TenantContext;
+  organizationId: string;
+  format?: "json" | "csv";
+  fileName?: string;
+}
+
+export class LighthouseQueryAuditLogTool {
+  private tenantStore: TenantStore;
+  private logger: Logger;
+
+  constructor(tenantStore: TenantStore, logger?: Logger) {
+    this.tenantStore = tenantStore;
+    this.logger =
+      logger ||
+      Logger.getInstance({
+        level: "info",
+        component: "LighthouseQueryAuditLogTool",
+      });
+  }
+
+  static getDefinition(): MCPToolDefinition {
+    return {
+      name: "lighthouse_query_audit_log",
+      description:
+        "Search an organization's audit log by time range, actor, action, resource and outcome, most recent first, or export the matches as JSON or CSV",
+      inputSchema: {
+        type: "object",
+        properties: {
+          organizationId: {
+            type: "string",
+            description: "Organization ID",
+          },
+          startTime: {
+            type: "string",
+            description: "Only include entries at or after this ISO 8601 time",
+          },
+          endTime: {
+            type: "string",
+            description: "Only include entries at or before this ISO 8601 time",
+          },
+          userId: {
+            type: "string",
+            description: "Only include entries by this user",
+          },
+          teamId: {
+            type: "string",
+            description: "Only include entries for this team",
+          },
+          action: {
+            type: "string",
+            description: "Only include this action (e.g. api_call)",
+          },
+          resource: {
+            type: "string",
+            description: "Only include entries for this resource (e.g. lighthouse_update_dataset)",
+          },
+          resourceId: {
+            type: "string",
+            description: "Only include entries for this resource",
+          },
+          result: {
+            type: "string",
+            description: "Only include successful or failed actions",
+            enum: ["success", "failure"],
+          },
+          limit: {
+            type: "number",
+            description: "Maximum number of entries to return (default 100)",
+            minimum: 1,
+            maximum: 1000,
+          },
+          cursor: {
+            type: "string",
+            description: "nextCursor from a previous page",
+          },
+          format: {
+            type: "string",
+            description: "Export every matching entry in this format instead of returning a page",
+            enum: ["json", "csv"],
+          },
+          fileName: {
+            type: "string",
+            description:
+              "Optional file name to write the export to in the organization's audit-exports directory, instead of returning it",
+            minLength: 1,
+          },
+        },
+        required: ["organizationId"],
+        additionalProperties: false,
+      },
+      requiresAuth: true,
+      supportsBatch: false,
+      executionTime: ExecutionTimeCategory.FAST,
+    };
+  }
+
+  /**
+   * The same tool under the hyphenated name the other tenancy tools use
+   */
+  static getAliasDefinition(): MCPToolDefinition {
+    const definition = LighthouseQueryAuditLogTool.getDefinition();
+    return {
+      ...definition,
+      name: "lighthouse-query-audit-log",
+      description: `${definition.description} (alias of ${definition.name})`,
+    };
+  }
+
+  async execute(args: Record<string, unknown>): Promise<ProgressAwareToolResult> {
+    const startTime = Date.now();
+
+    try {
+      const { _tenantContext, organizationId, format, fileName, ...query } =
+        args as unknown as QueryAuditLogParams;
+
+      if (fileName && !format) {
+        throw new Error("fileName requires a format");
+      }
+
+      this.logger.info("Querying audit log", {
+        organizationId,
+        requestedBy: _tenantContext?.user.userId,
+        format,
+      });
+
+      if (format) {
+        const { content, count } = await this.tenantStore.exportAuditLogs(
+          organizationId,
+          query,
+          format,
+        );
+
+        const outputPath = fileName
+          ? await this.tenantStore.writeAuditExport(organizationId, fileName, content)
+          : undefined;
+
+        return {
+          success: true,
+          data: {
+            format,
+            count,
+            outputPath,
+            content: outputPath ? undefined : content,
+            message: outputPath
+              ? `Exported ${count} audit log entries to ${outputPath}`
+              : `Exported ${count} audit log entries as ${format}`,
+          },
+          executionTime: Date.now() - startTime,
+        };
+      }
+
+      const page = await this.tenantStore.queryAuditLogs(organizationId, query);
+
+      return {
+        success: true,
+        data: {
+          entries: page.entries,
+          count: page.entries.length,
+          nextCursor: page.nextCursor,
+          message: `Found ${page.entries.length} audit log entries`,
+        },
+        executionTime: Date.now() - startTime,
+      };
+    } catch (error) {
+      this.logger.error("Failed to query audit log", error as Error);
+      return {
+        success: false,
+        error: `Failed to query audit log: ${(error as Error).message}`,
+        executionTime: Date.now() - startTime,
+      };
+    }
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Lighthouse Revoke API Key Tool
+ * MCP tool for revoking an API key immediately
+ */
+
+import { Logger } from "@lighthouse-tooling/shared";
+import { MCPToolDefinition, ExecutionTimeCategory, TenantContext } from "@lighthouse-tooling/types";
+import { ApiKeyManager } from "../tenancy/ApiKeyManager.js";
+import { ProgressAwareToolResult } from "./types.js";
+
+interface RevokeApiKeyParams {
+  _tenantContext?: TenantContext;
+  organizationId: string;
+  keyId: string;
+}
+
+export class LighthouseRevokeApiKeyTool {
+  private apiKeyManager: ApiKeyManager;
+  private logger: Logger;
+
+  constructor(apiKeyManager: ApiKeyManager, logger?: Logger) {
+    this.apiKeyManager = apiKeyManager;
+    this.logger =
+      logger ||
+      Logger.getInstance({
+        level: "info",
+        component: "LighthouseRevokeApiKeyTool",
+      });
+  }
+
+  static getDefinition(): MCPToolDefinition {
+    return {
+      name: "lighthouse-revoke-api-key",
+      description:
+        "Revoke an API key. Requests made with it are rejected from then on and its quota slot is freed.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          organizationId: {
+            type: "string",
+            description: "Organization ID",
+          },
+          keyId: {
+            type: "string",
+            description: "ID of the API key to revoke",
+          },
+        },
+        required: ["organizationId", "keyId"],
+        additionalProperties: false,
+      },
+      requiresAuth: true,
+      supportsBatch: false,
+      executionTime: ExecutionTimeCategory.FAST,
+      mutating: true,
+    };
+  }
+
+  async execute(args: Record<string, unknown>): Promise<ProgressAwareToolResult> {
+    const startTime = Date.now();
+
+    try {
+      const params = args as unknown as RevokeApiKeyParams;
+
+      this.logger.info("Revoking API key", {
+        organizationId: params.organizationId,
+        keyId: params.keyId,
+      });
+
+      const apiKey = await this.apiKeyManager.revokeKey(
+        params.organizationId,
+        params.keyId,
+        params._tenantContext?.user,
+      );
+
+      return {
+        success: true,
+        data: {
+          keyId: apiKey.id,
+          status: apiKey.status,
+          revokedAt: apiKey.revokedAt,
+          message: `API key ${apiKey.id} revoked`,
+        },
+        executionTime: Date.now() - startTime,
+      };
+    } catch (error) {
+      this.logger.error("Failed to revoke API key", error as Error);
+      return {
+        success: false,
+        error: `Failed to revoke API key: ${(error as Error).message}`,
+        executionTime: Date.now() - startTime,
+      };
+    }
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Lighthouse Rollback Dataset Tool - MCP tool for restoring an earlier version of a dataset
+ */
+
+import { Logger } from "@lighthouse-tooling/shared";
+import { MCPToolDefinition, ExecutionTimeCategory } from "@lighthouse-tooling/types";
+import { ILighthouseService } from "../services/ILighthouseService.js";
+import { ProgressAwareToolResult } from "./types.js";
+
+/**
+ * Input parameters for lighthouse_rollback_dataset tool
+ */
+interface RollbackDatasetParams {
+  datasetId: string;
+  version: string;
+}
+
+/**
+ * MCP tool for rolling a dataset back to an earlier version. The restored contents are
+ * recorded as a new version, so the history itself is never rewritten.
+ */
+export class LighthouseRollbackDatasetTool {
+  private service: ILighthouseService;
+  private logger: Logger;
+
+  constructor(service: ILighthouseService, logger?: Logger) {
+    this.service = service;
+    this.logger =
+      logger || Logger.getInstance({ level: "info", component: "LighthouseRollbackDatasetTool" });
+  }
+
+  /**
+   * Get tool definition
+   */
+  static getDefinition(): MCPToolDefinition {
+    return {
+      name: "lighthouse_rollback_dataset",
+      description:
+        "Roll a dataset back to an earlier version. The restored files and metadata are saved as a new version",
+      inputSchema: {
+        type: "object",
+        properties: {
+          datasetId: {
+            type: "string",
+            description: "Unique identifier of the dataset",
+            minLength: 1,
+            maxLength: 100,
+          },
+          version: {
+            type: "string",
+            description: "Earlier version to restore (e.g. 1.0.0)",
+            minLength: 1,
+          },
+        },
+        required: ["datasetId", "version"],
+        additionalProperties: false,
+      },
+      requiresAuth: true,
+      supportsBatch: false,
+      executionTime: ExecutionTimeCategory.FAST,
+      mutating: true,
+    };
+  }
+
+  /**
+   * Validate input parameters
+   */
+  private validateParams(params: RollbackDatasetParams): string | null {
+    if (!params.datasetId || typeof params.datasetId !== "string") {
+      return "datasetId is required and must be a string";
+    }
+
+    if (params.datasetId.length > 100) {
+      return "datasetId must be 100 characters or less";
+    }
+
+    if (!params.version || typeof params.version !== "string") {
+      return "version is required and must be a string";
+    }
+
+    return null;
+  }
+
+  /**
+   * Execute the rollback dataset operation
+   */
+  async execute(args: Record<string, unknown>): Promise<ProgressAwareToolResult> {
+    const startTime = Date.now();
+
+    try {
+      this.logger.info("Executing lighthouse_rollback_dataset tool", { args });
+
+      const params: RollbackDatasetParams = {
+        datasetId: args.datasetId as string,
+        version: args.version as string,
+      };
+
+      const validationError = this.validateParams(params);
+      if (validationError) {
+        this.logger.warn("Parameter validation failed", { error: validationError, args });
+        return {
+          success: false,
+          error: `Invalid parameters: ${validationError}`,
+          executionTime: Date.now() - startTime,
+        };
+      }
+
+      const dataset = await this.service.rollbackDataset(params.datasetId, params.version);
+
+      const executionTime = Date.now() - startTime;
+      this.logger.info("Dataset rolled back successfully", {
+        datasetId: dataset.id,
+        restoredFrom: params.version,
+        version: dataset.version,
+        executionTime,
+      });
+
+      return {
+        success: true,
+        data: {
+          success: true,
+          restoredFrom: params.version,
+          dataset: {
+            id: dataset.id,
+            name: dataset.name,
+            description: dataset.description,
+            version: dataset.version,
+            fileCount: dataset.files.length,
+            files: dataset.files.map((file) => ({
+              cid: file.cid,
+              size: file.size,
+              originalPath: file.originalPath,
+            })),
+            updatedAt: dataset.updatedAt.toISOString(),
+          },
+          message: `Dataset "${dataset.name}" restored to version ${params.version} as version ${dataset.version}`,
+        },
+        executionTime,
+        metadata: {
+          executionTime,
+          datasetId: dataset.id,
+          version: dataset.version,
+        },
+      };
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+
+      this.logger.error("Rollback dataset failed", error as Error, {
+        datasetId: args.datasetId as string,
+        version: args.version as string,
+        executionTime,
+      });
+
+      return {
+        success: false,
+        error: `Rollback dataset failed: ${errorMessage}`,
+        executionTime,
+        metadata: {
+          executionTime,
+          datasetId: args.datasetId as string,
+        },
+      };
+    }
+  }
+}
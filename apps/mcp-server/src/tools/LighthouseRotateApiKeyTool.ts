@@ -0,0 +1,109 @@
+/**
+ * Lighthouse Rotate API Key Tool
+ * MCP tool for replacing an API key with a successor while the old key winds down
+ */
+
+import { Logger } from "@lighthouse-tooling/shared";
+import { MCPToolDefinition, ExecutionTimeCategory, TenantContext } from "@lighthouse-tooling/types";
+import { ApiKeyManager } from "../tenancy/ApiKeyManager.js";
+import { ProgressAwareToolResult } from "./types.js";
+
+interface RotateApiKeyParams {
+  _tenantContext?: TenantContext;
+  organizationId: string;
+  keyId: string;
+  gracePeriodHours?: number;
+}
+
+export class LighthouseRotateApiKeyTool {
+  private apiKeyManager: ApiKeyManager;
+  private logger: Logger;
+
+  constructor(apiKeyManager: ApiKeyManager, logger?: Logger) {
+    this.apiKeyManager = apiKeyManager;
+    this.logger =
+      logger ||
+      Logger.getInstance({
+        level: "info",
+        component: "LighthouseRotateApiKeyTool",
+      });
+  }
+
+  static getDefinition(): MCPToolDefinition {
+    return {
+      name: "lighthouse-rotate-api-key",
+      description:
+        "Issue a successor for an API key with the same team, scopes and lifetime. The old key keeps working for a grace period, then expires.",
+      inputSchema: {
+        type: "object",
+        properties: {
+          organizationId: {
+            type: "string",
+            description: "Organization ID",
+          },
+          keyId: {
+            type: "string",
+            description: "ID of the API key to rotate",
+          },
+          gracePeriodHours: {
+            type: "number",
+            description:
+              "Hours the old key keeps working (defaults to the server's rotation grace period; 0 expires it immediately)",
+            minimum: 0,
+          },
+        },
+        required: ["organizationId", "keyId"],
+        additionalProperties: false,
+      },
+      requiresAuth: true,
+      supportsBatch: false,
+      executionTime: ExecutionTimeCategory.FAST,
+      mutating: true,
+      returnsSecrets: true,
+    };
+  }
+
+  async execute(args: Record<string, unknown>): Promise<ProgressAwareToolResult> {
+    const startTime = Date.now();
+
+    try {
+      const params = args as unknown as RotateApiKeyParams;
+
+      this.logger.info("Rotating API key", {
+        organizationId: params.organizationId,
+        keyId: params.keyId,
+      });
+
+      const { apiKey, previous } = await this.apiKeyManager.rotateKey(
+        params.organizationId,
+        params.keyId,
+        {
+          gracePeriodHours: params.gracePeriodHours,
+          rotatedBy: params._tenantContext?.user,
+        },
+      );
+
+      return {
+        success: true,
+        data: {
+          apiKey,
+          previousKey: {
+            id: previous.id,
+            status: previous.status,
+            expiresAt: previous.expiresAt,
+          },
+          message: `API key rotated. The previous key stops working at ${previous.expiresAt}. Store the new key securely - it cannot be retrieved later.`,
+          warning: "This is the only time the full API key will be displayed!",
+        },
+        executionTime: Date.now() - startTime,
+      };
+    } catch (error) {
+      this.logger.error("Failed to rotate API key", error as Error);
+      return {
+        success: false,
+        error: `Failed to rotate API key: ${(error as Error).message}`,
+        executionTime: Date.now() - startTime,
+      };
+    }
+  }
+}
@@ -144,6 +144,7 @@ export class LighthouseSetupAccessControlTool {
       requiresAuth: true,
       supportsBatch: false,
       executionTime: ExecutionTimeCategory.MEDIUM,
+      mutating: true,
     };
   }
 
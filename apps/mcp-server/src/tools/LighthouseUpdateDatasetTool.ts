@@ -91,6 +91,7 @@ export class LighthouseUpdateDatasetTool {
       requiresAuth: true,
       supportsBatch: false,
       executionTime: ExecutionTimeCategory.MEDIUM,
+      mutating: true,
     };
   }
 
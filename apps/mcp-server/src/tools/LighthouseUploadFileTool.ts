@@ -89,6 +89,7 @@ export class LighthouseUploadFileTool {
       requiresAuth: true,
       supportsBatch: false,
       executionTime: ExecutionTimeCategory.MEDIUM,
+      mutating: true,
     };
   }
 
@@ -0,0 +1,107 @@
+/**
+ * Lighthouse Verify Audit Log Tool
+ * MCP tool for checking an organization's audit log, or the server's authentication audit
+ * trail, for tampering
+ */
+
+import { Logger } from "@lighthouse-tooling/shared";
+import { MCPToolDefinition, ExecutionTimeCategory, TenantContext } from "@lighthouse-tooling/types";
+import { TenantStore } from "../tenancy/storage/TenantStore.js";
+import { AuthLogger } from "../auth/AuthLogger.js";
+import { ProgressAwareToolResult } from "./types.js";
+
+type AuditLogTarget = "organization" | "authentication";
+
+interface VerifyAuditLogParams {
+  _tenantContext?: TenantContext;
+  organizationId: string;
+  target?: AuditLogTarget;
+}
+
+export class LighthouseVerifyAuditLogTool {
+  private tenantStore: TenantStore;
+  private authLogger: AuthLogger;
+  private logger: Logger;
+
+  constructor(tenantStore: TenantStore, authLogger: AuthLogger, logger?: Logger) {
+    this.tenantStore = tenantStore;
+    this.authLogger = authLogger;
+    this.logger =
+      logger ||
+      Logger.getInstance({
+        level: "info",
+        component: "LighthouseVerifyAuditLogTool",
+      });
+  }
+
+  static getDefinition(): MCPToolDefinition {
+    return {
+      name: "lighthouse-verify-audit-log",
+      description:
+        "Walk a hash-chained audit log and its signed checkpoints, and report the first entry that was edited, removed or reordered. Checks the organization's audit log, or the server's authentication audit trail with target 'authentication'",
+      inputSchema: {
+        type: "object",
+        properties: {
+          organizationId: {
+            type: "string",
+            description: "Organization ID",
+          },
+          target: {
+            type: "string",
+            enum: ["organization", "authentication"],
+            description: "Audit log to verify (default: organization)",
+          },
+        },
+        required: ["organizationId"],
+        additionalProperties: false,
+      },
+      requiresAuth: true,
+      supportsBatch: false,
+      executionTime: ExecutionTimeCategory.MEDIUM,
+    };
+  }
+
+  async execute(args: Record<string, unknown>): Promise<ProgressAwareToolResult> {
+    const startTime = Date.now();
+
+    try {
+      const params = args as unknown as VerifyAuditLogParams;
+      const target = params.target ?? "organization";
+
+      this.logger.info("Verifying audit log", { organizationId: params.organizationId, target });
+
+      const verification =
+        target === "authentication"
+          ? this.authLogger.verifyAuditTrail()
+          : await this.tenantStore.verifyAuditLog(params.organizationId);
+      const label = target === "authentication" ? "Authentication audit trail" : "Audit log";
+
+      if (!verification.valid) {
+        this.logger.warn("Audit log verification failed", {
+          organizationId: params.organizationId,
+          target,
+          brokenLink: verification.brokenLink,
+        });
+      }
+
+      return {
+        success: true,
+        data: {
+          ...verification,
+          target,
+          message: verification.valid
+            ? `${label} intact: ${verification.entriesChecked} entries and ${verification.checkpointsChecked} checkpoints verified`
+            : `${label} broken at entry ${verification.brokenLink!.index}: ${verification.brokenLink!.reason}`,
+        },
+        executionTime: Date.now() - startTime,
+      };
+    } catch (error) {
+      this.logger.error("Failed to verify audit log", error as Error);
+      return {
+        success: false,
+        error: `Failed to verify audit log: ${(error as Error).message}`,
+        executionTime: Date.now() - startTime,
+      };
+    }
+  }
+}
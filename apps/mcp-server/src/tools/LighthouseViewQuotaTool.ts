@@ -7,6 +7,7 @@ import { Logger } from "@lighthouse-tooling/shared";
 import { MCPToolDefinition, ExecutionTimeCategory, TenantContext } from "@lighthouse-tooling/types";
 import { TenantStore } from "../tenancy/storage/TenantStore.js";
 import { QuotaManager } from "../tenancy/quotas/QuotaManager.js";
+import { ILighthouseService } from "../services/ILighthouseService.js";
 import { ProgressAwareToolResult } from "./types.js";
 
 interface ViewQuotaParams {
@@ -18,11 +19,18 @@ interface ViewQuotaParams {
 export class LighthouseViewQuotaTool {
   private tenantStore: TenantStore;
   private quotaManager: QuotaManager;
+  private lighthouseService?: ILighthouseService;
   private logger: Logger;
 
-  constructor(tenantStore: TenantStore, quotaManager: QuotaManager, logger?: Logger) {
+  constructor(
+    tenantStore: TenantStore,
+    quotaManager: QuotaManager,
+    logger?: Logger,
+    lighthouseService?: ILighthouseService,
+  ) {
     this.tenantStore = tenantStore;
     this.quotaManager = quotaManager;
+    this.lighthouseService = lighthouseService;
     this.logger =
       logger ||
       Logger.getInstance({
@@ -89,6 +97,9 @@ export class LighthouseViewQuotaTool {
       // Get quota status with percentages
       const status = this.quotaManager.getQuotaStatus(quota);
 
+      // Storage saved by reusing pinned content, when a Lighthouse service is available
+      const deduplication = this.lighthouseService?.getStorageStats().deduplication;
+
       // Format for human readability
       const formattedQuota = {
         storage: {
@@ -137,6 +148,12 @@ export class LighthouseViewQuotaTool {
           max: quota.maxApiKeys,
           remaining: quota.maxApiKeys - quota.currentApiKeys,
         },
+        ...(deduplication && {
+          deduplication: {
+            duplicateUploads: deduplication.duplicateUploads,
+            bytesSaved: this.formatBytes(deduplication.bytesSaved),
+          },
+        }),
         resetDate: status.resetDate,
         scope: params.teamId ? `Team: ${params.teamId}` : `Organization: ${params.organizationId}`,
       };
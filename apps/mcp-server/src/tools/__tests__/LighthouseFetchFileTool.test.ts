@@ -146,6 +146,26 @@ describe("LighthouseFetchFileTool", () => {
       });
     });
 
+    it("should request and report content verification", async () => {
+      mockService.fetchFile.mockResolvedValue({
+        filePath: "./downloaded_QmTestCID123456789012345678901234567890123456",
+        cid: "QmTestCID123456789012345678901234567890123456",
+        size: 1024,
+        decrypted: false,
+        verified: true,
+        downloadedAt: new Date("2023-01-01T00:00:00.000Z"),
+      } satisfies DownloadResult);
+
+      const result = await tool.execute({
+        cid: "QmTestCID123456789012345678901234567890123456",
+        verify: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect((result.data as any).verified).toBe(true);
+      expect(mockService.fetchFile).toHaveBeenCalledWith(expect.objectContaining({ verify: true }));
+    });
+
     it("should download and decrypt encrypted file", async () => {
       const encryptedFile: StoredFile = {
         ...mockStoredFile,
@@ -270,6 +290,16 @@ describe("LighthouseFetchFileTool", () => {
       expect(result.error).toContain("decrypt must be a boolean");
     });
 
+    it("should fail when verify is not boolean", async () => {
+      const result = await tool.execute({
+        cid: "QmTestCID123456789012345678901234567890123456",
+        verify: "yes",
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("verify must be a boolean");
+    });
+
     it("should accept valid CID v0 format", async () => {
       mockService.getFileInfo.mockResolvedValue(null); // File not found
 
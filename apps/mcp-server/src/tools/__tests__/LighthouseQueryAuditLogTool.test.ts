@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { LighthouseQueryAuditLogTool } from "../LighthouseQueryAuditLogTool.js";
+import { TenantStore } from "../../tenancy/storage/TenantStore.js";
+import { Logger } from "@lighthouse-tooling/shared";
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as os from "os";
+
+describe("LighthouseQueryAuditLogTool", () => {
+  let tool: LighthouseQueryAuditLogTool;
+  let store: TenantStore;
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = path.join(os.tmpdir(), `query-audit-log-tool-test-${Date.now()}`);
+    await fs.mkdir(path.join(testDir, "test-org"), { recursive: true });
+
+    const logger = Logger.getInstance({ level: "error", component: "QueryAuditLogToolTest" });
+    store = new TenantStore(
+      {
+        rootPath: testDir,
+        organizationPath: (orgId: string) => path.join(testDir, orgId),
+        teamPath: (orgId: string, teamId: string) => path.join(testDir, orgId, "teams", teamId),
+        enableEncryption: false,
+        backendType: "local",
+      },
+      logger,
+    );
+    await store.initialize();
+    tool = new LighthouseQueryAuditLogTool(store, logger);
+
+    const actions = [
+      "lighthouse_create_dataset",
+      "lighthouse_delete_dataset",
+      "lighthouse_fetch_file",
+    ];
+    for (const [i, action] of actions.entries()) {
+      await store.appendAuditLog("test-org", {
+        id: `log_${i}`,
+        organizationId: "test-org",
+        userId: i === 1 ? "mallory" : "alice",
+        action,
+        resource: "dataset",
+        resourceId: "dataset_1",
+        timestamp: new Date(Date.now() - (3 - i) * 1000).toISOString(),
+        result: "success",
+      });
+    }
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it("should have correct tool definition", () => {
+    const def = LighthouseQueryAuditLogTool.getDefinition();
+
+    expect(def.name).toBe("lighthouse_query_audit_log");
+    expect(def.requiresAuth).toBe(true);
+    expect(def.mutating).toBeUndefined();
+  });
+
+  it("should keep the hyphenated name as an alias", () => {
+    const alias = LighthouseQueryAuditLogTool.getAliasDefinition();
+
+    expect(alias.name).toBe("lighthouse-query-audit-log");
+    expect(alias.inputSchema).toEqual(LighthouseQueryAuditLogTool.getDefinition().inputSchema);
+  });
+
+  it("should answer who deleted a dataset", async () => {
+    const result = await tool.execute({
+      organizationId: "test-org",
+      action: "lighthouse_delete_dataset",
+      resourceId: "dataset_1",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.count).toBe(1);
+    expect(result.data.entries[0].userId).toBe("mallory");
+  });
+
+  it("should return a cursor for the next page", async () => {
+    const first = await tool.execute({ organizationId: "test-org", limit: 2 });
+    const second = await tool.execute({
+      organizationId: "test-org",
+      limit: 2,
+      cursor: first.data.nextCursor,
+    });
+
+    expect(first.data.count).toBe(2);
+    expect(second.data.entries.map((e: { id: string }) => e.id)).toEqual(["log_0"]);
+    expect(second.data.nextCursor).toBeUndefined();
+  });
+
+  it("should export matches to a CSV file in the audit-exports directory", async () => {
+    const result = await tool.execute({
+      organizationId: "test-org",
+      userId: "alice",
+      format: "csv",
+      fileName: "audit.csv",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data.count).toBe(2);
+    expect(result.data.outputPath).toBe(
+      path.join(testDir, "test-org", "audit-exports", "audit.csv"),
+    );
+    const lines = (await fs.readFile(result.data.outputPath, "utf-8")).trim().split("\n");
+    expect(lines).toHaveLength(3);
+  });
+
+  it("should return the export inline without a file name", async () => {
+    const result = await tool.execute({ organizationId: "test-org", format: "json" });
+
+    expect(result.success).toBe(true);
+    expect(result.data.outputPath).toBeUndefined();
+    expect(JSON.parse(result.data.content)).toHaveLength(3);
+  });
+
+  it("should refuse to write an export outside the audit-exports directory", async () => {
+    const result = await tool.execute({
+      organizationId: "test-org",
+      format: "csv",
+      fileName: "../../escaped.csv",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Invalid export file name");
+    await expect(fs.access(path.join(testDir, "..", "escaped.csv"))).rejects.toThrow();
+  });
+
+  it("should fail for an invalid time range", async () => {
+    const result = await tool.execute({ organizationId: "test-org", endTime: "not-a-date" });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("Invalid endTime");
+  });
+});
@@ -2,6 +2,8 @@ import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { LighthouseViewQuotaTool } from "../LighthouseViewQuotaTool.js";
 import { TenantStore } from "../../tenancy/storage/TenantStore.js";
 import { QuotaManager } from "../../tenancy/quotas/QuotaManager.js";
+import { MockLighthouseService } from "../../services/MockLighthouseService.js";
+import { createTestFile, cleanupTestFiles } from "../../tests/utils/test-helpers.js";
 import { Logger } from "@lighthouse-tooling/shared";
 import { Organization, Role } from "@lighthouse-tooling/types";
 import * as fs from "fs/promises";
@@ -99,6 +101,29 @@ describe("LighthouseViewQuotaTool", () => {
       expect(result.data.quota.requests).toBeDefined();
       expect(result.data.quota.bandwidth).toBeDefined();
     });
+
+    it("should report storage saved by deduplication", async () => {
+      const service = new MockLighthouseService();
+      const first = await createTestFile("quota-a.txt", "x".repeat(2048));
+      const second = await createTestFile("quota-b.txt", "x".repeat(2048));
+      await service.uploadFile({ filePath: first });
+      await service.uploadFile({ filePath: second });
+
+      const dedupTool = new LighthouseViewQuotaTool(store, quotaManager, logger, service);
+      const result = await dedupTool.execute({ organizationId: "test-org" });
+      await cleanupTestFiles();
+
+      expect(result.data.quota.deduplication).toEqual({
+        duplicateUploads: 1,
+        bytesSaved: "2 KB",
+      });
+    });
+
+    it("should omit deduplication without a Lighthouse service", async () => {
+      const result = await tool.execute({ organizationId: "test-org" });
+
+      expect(result.data.quota.deduplication).toBeUndefined();
+    });
   });
 
   describe("Error Handling", () => {
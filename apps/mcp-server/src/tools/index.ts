@@ -10,8 +10,23 @@ export { LighthouseCreateDatasetTool } from "./LighthouseCreateDatasetTool.js";
 export { LighthouseListDatasetsTool } from "./LighthouseListDatasetsTool.js";
 export { LighthouseGetDatasetTool } from "./LighthouseGetDatasetTool.js";
 export { LighthouseUpdateDatasetTool } from "./LighthouseUpdateDatasetTool.js";
+export { LighthouseListDatasetVersionsTool } from "./LighthouseListDatasetVersionsTool.js";
+export { LighthouseDiffDatasetVersionsTool } from "./LighthouseDiffDatasetVersionsTool.js";
+export { LighthouseRollbackDatasetTool } from "./LighthouseRollbackDatasetTool.js";
+export { LighthouseExportDatasetManifestTool } from "./LighthouseExportDatasetManifestTool.js";
+export { LighthouseImportDatasetManifestTool } from "./LighthouseImportDatasetManifestTool.js";
 export { LighthouseGenerateKeyTool } from "./LighthouseGenerateKeyTool.js";
 export { LighthouseSetupAccessControlTool } from "./LighthouseSetupAccessControlTool.js";
+export { LighthouseCreateOrganizationTool } from "./LighthouseCreateOrganizationTool.js";
+export { LighthouseCreateTeamTool } from "./LighthouseCreateTeamTool.js";
+export { LighthouseManageTeamMembersTool } from "./LighthouseManageTeamMembersTool.js";
+export { LighthouseCreateApiKeyTool } from "./LighthouseCreateApiKeyTool.js";
+export { LighthouseListApiKeysTool } from "./LighthouseListApiKeysTool.js";
+export { LighthouseRotateApiKeyTool } from "./LighthouseRotateApiKeyTool.js";
+export { LighthouseRevokeApiKeyTool } from "./LighthouseRevokeApiKeyTool.js";
+export { LighthouseViewQuotaTool } from "./LighthouseViewQuotaTool.js";
+export { LighthouseQueryAuditLogTool } from "./LighthouseQueryAuditLogTool.js";
+export { LighthouseVerifyAuditLogTool } from "./LighthouseVerifyAuditLogTool.js";
 export * from "./types.js";
 
 import { LighthouseUploadFileTool } from "./LighthouseUploadFileTool.js";
@@ -22,10 +37,43 @@ import { LighthouseCreateDatasetTool } from "./LighthouseCreateDatasetTool.js";
 import { LighthouseListDatasetsTool } from "./LighthouseListDatasetsTool.js";
 import { LighthouseGetDatasetTool } from "./LighthouseGetDatasetTool.js";
 import { LighthouseUpdateDatasetTool } from "./LighthouseUpdateDatasetTool.js";
+import { LighthouseListDatasetVersionsTool } from "./LighthouseListDatasetVersionsTool.js";
+import { LighthouseDiffDatasetVersionsTool } from "./LighthouseDiffDatasetVersionsTool.js";
+import { LighthouseRollbackDatasetTool } from "./LighthouseRollbackDatasetTool.js";
+import { LighthouseExportDatasetManifestTool } from "./LighthouseExportDatasetManifestTool.js";
+import { LighthouseImportDatasetManifestTool } from "./LighthouseImportDatasetManifestTool.js";
 import { LighthouseGenerateKeyTool } from "./LighthouseGenerateKeyTool.js";
 import { LighthouseSetupAccessControlTool } from "./LighthouseSetupAccessControlTool.js";
+import { LighthouseCreateOrganizationTool } from "./LighthouseCreateOrganizationTool.js";
+import { LighthouseCreateTeamTool } from "./LighthouseCreateTeamTool.js";
+import { LighthouseManageTeamMembersTool } from "./LighthouseManageTeamMembersTool.js";
+import { LighthouseCreateApiKeyTool } from "./LighthouseCreateApiKeyTool.js";
+import { LighthouseListApiKeysTool } from "./LighthouseListApiKeysTool.js";
+import { LighthouseRotateApiKeyTool } from "./LighthouseRotateApiKeyTool.js";
+import { LighthouseRevokeApiKeyTool } from "./LighthouseRevokeApiKeyTool.js";
+import { LighthouseViewQuotaTool } from "./LighthouseViewQuotaTool.js";
+import { LighthouseQueryAuditLogTool } from "./LighthouseQueryAuditLogTool.js";
+import { LighthouseVerifyAuditLogTool } from "./LighthouseVerifyAuditLogTool.js";
 import { MCPToolDefinition } from "@lighthouse-tooling/types";
 
+/**
+ * Get multi-tenancy tool definitions (only registered in multi-tenant mode)
+ */
+export function getMultiTenancyToolDefinitions(): MCPToolDefinition[] {
+  return [
+    LighthouseCreateOrganizationTool.getDefinition(),
+    LighthouseCreateTeamTool.getDefinition(),
+    LighthouseManageTeamMembersTool.getDefinition(),
+    LighthouseCreateApiKeyTool.getDefinition(),
+    LighthouseListApiKeysTool.getDefinition(),
+    LighthouseRotateApiKeyTool.getDefinition(),
+    LighthouseRevokeApiKeyTool.getDefinition(),
+    LighthouseViewQuotaTool.getDefinition(),
+    LighthouseQueryAuditLogTool.getDefinition(),
+    LighthouseVerifyAuditLogTool.getDefinition(),
+  ];
+}
+
 /**
  * Get all available tool definitions
  */
@@ -39,8 +87,14 @@ export function getAllToolDefinitions(): MCPToolDefinition[] {
     LighthouseListDatasetsTool.getDefinition(),
     LighthouseGetDatasetTool.getDefinition(),
     LighthouseUpdateDatasetTool.getDefinition(),
+    LighthouseListDatasetVersionsTool.getDefinition(),
+    LighthouseDiffDatasetVersionsTool.getDefinition(),
+    LighthouseRollbackDatasetTool.getDefinition(),
+    LighthouseExportDatasetManifestTool.getDefinition(),
+    LighthouseImportDatasetManifestTool.getDefinition(),
     LighthouseGenerateKeyTool.getDefinition(),
     LighthouseSetupAccessControlTool.getDefinition(),
+    ...getMultiTenancyToolDefinitions(),
   ];
 }
 
@@ -56,6 +110,21 @@ export const ToolFactory = {
   LighthouseListDatasetsTool,
   LighthouseGetDatasetTool,
   LighthouseUpdateDatasetTool,
+  LighthouseListDatasetVersionsTool,
+  LighthouseDiffDatasetVersionsTool,
+  LighthouseRollbackDatasetTool,
+  LighthouseExportDatasetManifestTool,
+  LighthouseImportDatasetManifestTool,
   LighthouseGenerateKeyTool,
   LighthouseSetupAccessControlTool,
+  LighthouseCreateOrganizationTool,
+  LighthouseCreateTeamTool,
+  LighthouseManageTeamMembersTool,
+  LighthouseCreateApiKeyTool,
+  LighthouseListApiKeysTool,
+  LighthouseRotateApiKeyTool,
+  LighthouseRevokeApiKeyTool,
+  LighthouseViewQuotaTool,
+  LighthouseQueryAuditLogTool,
+  LighthouseVerifyAuditLogTool,
 } as const;
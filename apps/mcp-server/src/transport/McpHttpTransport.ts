@@ -0,0 +1,299 @@
+/**
+ * MCP HTTP Transport
+ *
+ * Serves MCP over streamable HTTP (with SSE streaming) and the legacy
+ * HTTP+SSE transport, so several IDE clients can share one server.
+ * Routes are mounted on the HealthCheckServer to share its port and lifecycle.
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { ErrorCode, isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { Logger } from "@lighthouse-tooling/shared";
+import { HealthCheckServer } from "../health/HealthCheckServer.js";
+
+/**
+ * Largest accepted JSON-RPC request body (4MB)
+ */
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Path of the legacy SSE stream endpoint
+ */
+const SSE_PATH = "/sse";
+
+/**
+ * Path clients of the legacy SSE transport post messages to
+ */
+const SSE_MESSAGES_PATH = "/messages";
+
+/**
+ * Client ID recorded on auth info derived from the Authorization header
+ */
+const HTTP_CLIENT_ID = "lighthouse-http";
+
+export interface McpHttpTransportOptions {
+  /** Create a fresh MCP server (with handlers) for each client session */
+  createServer: () => Server;
+  /** Path of the streamable HTTP endpoint */
+  endpoint: string;
+  /** Reject requests without an Authorization bearer token (default true) */
+  requireAuth?: boolean;
+  logger: Logger;
+}
+
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  /** Hash of the bearer token the session was opened with */
+  credential?: string;
+}
+
+type AuthenticatedRequest = IncomingMessage & { auth?: AuthInfo };
+
+export class McpHttpTransport {
+  private sessions: Map<string, HttpSession> = new Map();
+  private createServer: () => Server;
+  private endpoint: string;
+  private requireAuth: boolean;
+  private logger: Logger;
+
+  constructor(options: McpHttpTransportOptions) {
+    this.createServer = options.createServer;
+    this.endpoint = options.endpoint;
+    this.requireAuth = options.requireAuth ?? true;
+    this.logger = options.logger;
+  }
+
+  /**
+   * Mount the MCP endpoints on an HTTP server
+   */
+  mount(httpServer: HealthCheckServer): void {
+    httpServer.mount(this.endpoint, (req, res) => this.handleStreamableRequest(req, res));
+    httpServer.mount(SSE_PATH, (req, res) => this.handleSseStream(req, res));
+    httpServer.mount(SSE_MESSAGES_PATH, (req, res) => this.handleSseMessage(req, res));
+  }
+
+  /**
+   * Close all open client sessions
+   */
+  async close(): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+
+    await Promise.all(sessions.map((session) => session.server.close()));
+    this.logger.info("HTTP transport closed", { sessionCount: sessions.length });
+  }
+
+  /**
+   * Number of connected client sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Handle streamable HTTP requests (POST messages, GET stream, DELETE session)
+   */
+  private async handleStreamableRequest(
+    req: AuthenticatedRequest,
+    res: ServerResponse,
+  ): Promise<void> {
+    if (!this.attachAuth(req, res)) return;
+
+    const body = req.method === "POST" ? await this.readBody(req, res) : undefined;
+    if (req.method === "POST" && body === undefined) return;
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = this.sessions.get(sessionId);
+      if (!session || !(session.transport instanceof StreamableHTTPServerTransport)) {
+        this.sendError(res, 404, ErrorCode.InvalidRequest, `Session not found: ${sessionId}`);
+        return;
+      }
+      if (!this.checkSessionCredential(session, req, res)) return;
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      this.sendError(
+        res,
+        400,
+        ErrorCode.InvalidRequest,
+        "Bad Request: No valid session ID provided",
+      );
+      return;
+    }
+
+    const server = this.createServer();
+    const credential = this.credentialOf(req);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { server, transport, credential });
+        this.logger.info("HTTP session initialized", { sessionId: id, transport: "streamable" });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Open a legacy SSE stream
+   */
+  private async handleSseStream(req: AuthenticatedRequest, res: ServerResponse): Promise<void> {
+    if (req.method !== "GET") {
+      this.sendError(res, 405, ErrorCode.InvalidRequest, "Method not allowed");
+      return;
+    }
+    if (!this.attachAuth(req, res)) return;
+
+    const server = this.createServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const sessionId = transport.sessionId;
+
+    this.sessions.set(sessionId, { server, transport, credential: this.credentialOf(req) });
+    res.on("close", () => {
+      this.sessions.delete(sessionId);
+    });
+
+    await server.connect(transport);
+    this.logger.info("HTTP session initialized", { sessionId, transport: "sse" });
+  }
+
+  /**
+   * Receive a message for a legacy SSE session
+   */
+  private async handleSseMessage(req: AuthenticatedRequest, res: ServerResponse): Promise<void> {
+    if (req.method !== "POST") {
+      this.sendError(res, 405, ErrorCode.InvalidRequest, "Method not allowed");
+      return;
+    }
+    if (!this.attachAuth(req, res)) return;
+
+    const sessionId = new URL(req.url ?? "", "http://localhost").searchParams.get("sessionId");
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      this.sendError(res, 404, ErrorCode.InvalidRequest, `Session not found: ${sessionId}`);
+      return;
+    }
+    if (!this.checkSessionCredential(session, req, res)) return;
+
+    const body = await this.readBody(req, res);
+    if (body === undefined) return;
+
+    await session.transport.handlePostMessage(req, res, body);
+  }
+
+  /**
+   * Expose the Authorization bearer token to MCP handlers as auth info.
+   * Returns false (after responding 401) when the header is malformed, or missing while
+   * authentication is required.
+   */
+  private attachAuth(req: AuthenticatedRequest, res: ServerResponse): boolean {
+    const header = req.headers.authorization;
+    if (!header) {
+      if (this.requireAuth) {
+        this.sendError(res, 401, ErrorCode.InvalidRequest, "Authorization bearer token required");
+        return false;
+      }
+      return true;
+    }
+
+    const match = /^Bearer\s+(\S+)$/i.exec(header);
+    if (!match) {
+      this.sendError(
+        res,
+        401,
+        ErrorCode.InvalidRequest,
+        "Authorization header must be a Bearer token",
+      );
+      return false;
+    }
+
+    req.auth = { token: match[1]!, clientId: HTTP_CLIENT_ID, scopes: [] };
+    return true;
+  }
+
+  /**
+   * Hash of the request's bearer token, so sessions can be bound to it without keeping it
+   */
+  private credentialOf(req: AuthenticatedRequest): string | undefined {
+    return req.auth ? createHash("sha256").update(req.auth.token).digest("hex") : undefined;
+  }
+
+  /**
+   * Reject a request that presents different credentials than its session was opened with.
+   * Returns false after responding 403.
+   */
+  private checkSessionCredential(
+    session: HttpSession,
+    req: AuthenticatedRequest,
+    res: ServerResponse,
+  ): boolean {
+    if (session.credential === this.credentialOf(req)) {
+      return true;
+    }
+
+    this.logger.warn("HTTP session reused with different credentials");
+    this.sendError(
+      res,
+      403,
+      ErrorCode.InvalidRequest,
+      "Session was opened with different credentials",
+    );
+    return false;
+  }
+
+  /**
+   * Read and parse a JSON request body. Returns undefined (after responding) on failure.
+   */
+  private async readBody(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > MAX_BODY_SIZE) {
+        this.sendError(res, 413, ErrorCode.InvalidRequest, "Request body too large");
+        return undefined;
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString("utf-8"));
+    } catch {
+      this.sendError(res, 400, ErrorCode.ParseError, "Parse error: invalid JSON");
+      return undefined;
+    }
+  }
+
+  /**
+   * Send a JSON-RPC error response
+   */
+  private sendError(
+    res: ServerResponse,
+    statusCode: number,
+    code: ErrorCode,
+    message: string,
+  ): void {
+    const json = JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null });
+    res.writeHead(statusCode, {
+      "Content-Type": "application/json",
+      "Content-Length": Buffer.byteLength(json),
+    });
+    res.end(json);
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * Transport exports
+ */
+
+export { McpHttpTransport, type McpHttpTransportOptions } from "./McpHttpTransport.js";
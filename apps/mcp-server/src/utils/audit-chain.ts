@@ -0,0 +1,288 @@
+/**
+ * Audit Chain - Hash chaining, signed checkpoints and verification for tamper-evident audit logs
+ */
+
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Fields linking an audit entry to the one before it
+ */
+export interface AuditChainLink {
+  /** Position in the chain, starting at 1 */
+  sequence: number;
+  /** Hash of the previous entry (GENESIS_HASH for the first) */
+  prevHash: string;
+  /** Hash of this entry's content, sequence and prevHash */
+  hash: string;
+}
+
+/**
+ * Signed record of the chain head, written every few entries. Rewriting the chain after
+ * an edit changes every later hash, which no longer matches the signed checkpoints.
+ */
+export interface AuditCheckpoint {
+  sequence: number;
+  hash: string;
+  timestamp: string;
+  signature: string;
+}
+
+/**
+ * Signed record of where the log starts after compaction: the last entry removed. Without
+ * it, dropping the oldest entries would look the same as compaction.
+ */
+export type AuditAnchor = AuditCheckpoint;
+
+/**
+ * Result of walking an audit chain
+ */
+export interface AuditChainVerification {
+  valid: boolean;
+  entriesChecked: number;
+  checkpointsChecked: number;
+  /** Entries written before chaining was enabled */
+  unchainedEntries: number;
+  /** First problem found, if any */
+  brokenLink?: {
+    /** Index of the entry in the log, oldest first (checkpoint index for checkpoint problems) */
+    index: number;
+    sequence?: number;
+    timestamp?: string;
+    reason: string;
+  };
+}
+
+type ChainableEntry = { timestamp: string } & Partial<AuditChainLink>;
+
+export class AuditChain {
+  static readonly GENESIS_HASH = "0".repeat(64);
+
+  /**
+   * Link an entry to the previous chain head
+   */
+  static link<T extends object>(
+    entry: T,
+    head: { sequence: number; hash: string } | null,
+  ): T & AuditChainLink {
+    const sequence = (head?.sequence ?? 0) + 1;
+    const prevHash = head?.hash ?? AuditChain.GENESIS_HASH;
+    return { ...entry, sequence, prevHash, hash: AuditChain.hash(entry, sequence, prevHash) };
+  }
+
+  /**
+   * Hash an entry's content together with its position in the chain
+   */
+  static hash(entry: object, sequence: number, prevHash: string): string {
+    const content: Record<string, unknown> = { ...entry };
+    delete content.sequence;
+    delete content.prevHash;
+    delete content.hash;
+    return createHash("sha256")
+      .update(`${sequence}:${prevHash}:${AuditChain.canonicalize(content)}`)
+      .digest("hex");
+  }
+
+  /**
+   * Sign the chain head
+   */
+  static checkpoint(head: AuditChainLink, signingKey: string): AuditCheckpoint {
+    const timestamp = new Date().toISOString();
+    return {
+      sequence: head.sequence,
+      hash: head.hash,
+      timestamp,
+      signature: AuditChain.sign(head.sequence, head.hash, timestamp, signingKey),
+    };
+  }
+
+  /**
+   * Sign the last entry removed by compaction. Anchors are signed apart from checkpoints so
+   * a checkpoint cannot be passed off as one.
+   */
+  static anchor(removed: AuditChainLink, signingKey: string): AuditAnchor {
+    const timestamp = new Date().toISOString();
+    return {
+      sequence: removed.sequence,
+      hash: removed.hash,
+      timestamp,
+      signature: AuditChain.sign(removed.sequence, removed.hash, timestamp, signingKey, "anchor"),
+    };
+  }
+
+  /**
+   * Walk entries (oldest first) and report the first broken link. Checkpoints and the
+   * compaction anchor are only checked when the signing key is given; the chain must then
+   * start right after the anchor, or at the genesis entry if nothing was compacted.
+   */
+  static verify(
+    entries: ChainableEntry[],
+    checkpoints: AuditCheckpoint[] = [],
+    signingKey?: string,
+    anchor?: AuditAnchor | null,
+  ): AuditChainVerification {
+    const result: AuditChainVerification = {
+      valid: true,
+      entriesChecked: 0,
+      checkpointsChecked: 0,
+      unchainedEntries: 0,
+    };
+    const hashes = new Map<number, string>();
+    let head: { sequence: number; hash: string } | null = null;
+    let first: { index: number; entry: ChainableEntry } | null = null;
+
+    const broken = (
+      reason: string,
+      index: number,
+      entry?: ChainableEntry,
+    ): AuditChainVerification => ({
+      ...result,
+      valid: false,
+      brokenLink: { index, sequence: entry?.sequence, timestamp: entry?.timestamp, reason },
+    });
+
+    for (const [index, entry] of entries.entries()) {
+      if (entry.hash === undefined || entry.sequence === undefined || !entry.prevHash) {
+        if (head) {
+          return broken("Entry is missing its chain hash", index, entry);
+        }
+        result.unchainedEntries++;
+        continue;
+      }
+
+      if (head && entry.sequence !== head.sequence + 1) {
+        return broken(
+          `Expected sequence ${head.sequence + 1} but found ${entry.sequence}`,
+          index,
+          entry,
+        );
+      }
+      if (head && entry.prevHash !== head.hash) {
+        return broken("Previous hash does not match the preceding entry", index, entry);
+      }
+      if (AuditChain.hash(entry, entry.sequence, entry.prevHash) !== entry.hash) {
+        return broken("Entry content does not match its hash", index, entry);
+      }
+
+      first ??= { index, entry };
+      head = { sequence: entry.sequence, hash: entry.hash };
+      hashes.set(entry.sequence, entry.hash);
+      result.entriesChecked++;
+    }
+
+    if (signingKey === undefined) {
+      return result;
+    }
+
+    if (anchor) {
+      const signature = AuditChain.sign(
+        anchor.sequence,
+        anchor.hash,
+        anchor.timestamp,
+        signingKey,
+        "anchor",
+      );
+      if (!AuditChain.safeEqual(signature, anchor.signature)) {
+        return broken("Compaction anchor signature is invalid", 0, anchor);
+      }
+    }
+
+    const start = anchor ?? { sequence: 0, hash: AuditChain.GENESIS_HASH };
+    if (first && first.entry.sequence! > start.sequence + 1) {
+      return broken(
+        `Entries ${start.sequence + 1} to ${first.entry.sequence! - 1} are missing from the start of the log`,
+        first.index,
+        first.entry,
+      );
+    }
+    if (
+      first &&
+      first.entry.sequence === start.sequence + 1 &&
+      first.entry.prevHash !== start.hash
+    ) {
+      return broken("Previous hash does not match the compaction anchor", first.index, first.entry);
+    }
+    if (
+      first &&
+      first.entry.sequence! <= start.sequence &&
+      hashes.get(start.sequence) !== start.hash
+    ) {
+      return broken(
+        `Entry ${start.sequence} does not match the compaction anchor`,
+        first!.index,
+        first!.entry,
+      );
+    }
+
+    for (const [index, checkpoint] of checkpoints.entries()) {
+      const signature = AuditChain.sign(
+        checkpoint.sequence,
+        checkpoint.hash,
+        checkpoint.timestamp,
+        signingKey,
+      );
+      if (!AuditChain.safeEqual(signature, checkpoint.signature)) {
+        return broken("Checkpoint signature is invalid", index, checkpoint);
+      }
+      result.checkpointsChecked++;
+
+      if (checkpoint.sequence <= start.sequence) {
+        continue; // Entry has been compacted away
+      }
+      if (!head || checkpoint.sequence > head.sequence) {
+        return broken(
+          `Entries up to sequence ${checkpoint.sequence} are missing from the end of the log`,
+          index,
+          checkpoint,
+        );
+      }
+      if (hashes.get(checkpoint.sequence) !== checkpoint.hash) {
+        return broken(
+          `Entry ${checkpoint.sequence} does not match its signed checkpoint`,
+          index,
+          checkpoint,
+        );
+      }
+    }
+
+    return result;
+  }
+
+  private static sign(
+    sequence: number,
+    hash: string,
+    timestamp: string,
+    signingKey: string,
+    purpose: "checkpoint" | "anchor" = "checkpoint",
+  ): string {
+    const message = `${sequence}:${hash}:${timestamp}`;
+    return createHmac("sha256", signingKey)
+      .update(purpose === "anchor" ? `anchor:${message}` : message)
+      .digest("hex");
+  }
+
+  private static safeEqual(a: string, b: string): boolean {
+    const left = Buffer.from(a);
+    const right = Buffer.from(b);
+    return left.length === right.length && timingSafeEqual(left, right);
+  }
+
+  /**
+   * JSON with sorted keys, matching what survives a JSON round trip
+   */
+  private static canonicalize(value: unknown): string {
+    const sort = (node: unknown): unknown => {
+      if (Array.isArray(node)) {
+        return node.map(sort);
+      }
+      if (node && typeof node === "object") {
+        return Object.fromEntries(
+          Object.keys(node)
+            .sort()
+            .map((key) => [key, sort((node as Record<string, unknown>)[key])]),
+        );
+      }
+      return node;
+    };
+    return JSON.stringify(sort(JSON.parse(JSON.stringify(value) ?? "null")));
+  }
+}
@@ -1,58 +1,41 @@
 /**
- * Mock CID Generator - Generates realistic IPFS CIDs for testing
+ * CID Generator - Computes IPFS CIDs for content and unique mock identifiers
  */
 
-import * as crypto from "crypto";
+import { UnixFSImporter } from "@lighthouse-tooling/sdk-wrapper";
 
 export class CIDGenerator {
   /**
-   * Generate a mock CIDv0 (starts with Qm, 46 characters, base58)
+   * Compute the CID IPFS assigns to the given content
    */
-  static generateV0(input: string): string {
-    // Create a hash of the input
-    const hash = crypto.createHash("sha256").update(input).digest("hex");
-
-    // Convert to base58-like string (simplified)
-    const base58Chars = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
-    let result = "Qm";
+  static fromContent(content: Uint8Array | string, useV1 = false): string {
+    return UnixFSImporter.importBuffer(content, { cidVersion: useV1 ? 1 : 0 }).cid;
+  }
 
-    // Use hash to generate 44 base58 characters
-    for (let i = 0; i < 44; i++) {
-      const charIndex = i * 2;
-      const hexValue = hash.substring(charIndex, Math.min(charIndex + 2, hash.length));
-      if (hexValue.length === 2) {
-        const index = parseInt(hexValue, 16) % base58Chars.length;
-        result += base58Chars[index];
-      } else {
-        // Fallback if hash is too short
-        result += base58Chars[i % base58Chars.length];
-      }
-    }
+  /**
+   * Compute the CID IPFS assigns to a file, streaming it from disk
+   */
+  static async fromFile(filePath: string, useV1 = false): Promise<string> {
+    const result = await UnixFSImporter.importFile(filePath, { cidVersion: useV1 ? 1 : 0 });
+    return result.cid;
+  }
 
-    return result;
+  /**
+   * Generate a CIDv0 (dag-pb, starts with Qm) for the input treated as content
+   */
+  static generateV0(input: string): string {
+    return this.fromContent(input);
   }
 
   /**
-   * Generate a mock CIDv1 (starts with b, variable length, base32)
+   * Generate a CIDv1 (starts with b, base32) for the input treated as content
    */
   static generateV1(input: string): string {
-    const hash = crypto.createHash("sha256").update(input).digest("hex");
-
-    // Convert to base32-like string (simplified)
-    const base32Chars = "abcdefghijklmnopqrstuvwxyz234567";
-    let result = "b";
-
-    // Use hash to generate base32 string
-    for (let i = 0; i < 52; i++) {
-      const index = parseInt(hash.substring(i % hash.length), 16) % base32Chars.length;
-      result += base32Chars[index];
-    }
-
-    return result;
+    return this.fromContent(input, true);
   }
 
   /**
-   * Generate a mock CID based on file path and timestamp
+   * Generate a unique CID based on a path and timestamp (for identifiers, not content)
    */
   static generate(filePath: string, useV1 = false): string {
     const timestamp = Date.now().toString();
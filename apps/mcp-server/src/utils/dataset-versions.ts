@@ -0,0 +1,75 @@
+/**
+ * Dataset Versions - Snapshot, numbering and diff helpers for dataset version history
+ */
+
+import {
+  Dataset,
+  DatasetVersion,
+  DatasetVersionDiff,
+  UploadResult,
+} from "@lighthouse-tooling/types";
+
+export class DatasetVersions {
+  /**
+   * Version following the given one (minor bump, e.g. 1.2.0 -> 1.3.0)
+   */
+  static next(version: string): string {
+    const versionParts = version.split(".");
+    if (versionParts.length >= 2 && versionParts[1]) {
+      versionParts[1] = String(parseInt(versionParts[1]) + 1);
+      return versionParts.join(".");
+    }
+    return "1.1.0";
+  }
+
+  /**
+   * Take an immutable snapshot of the dataset's current files and metadata
+   */
+  static snapshot(dataset: Dataset, parentVersion?: string, restoredFrom?: string): DatasetVersion {
+    return {
+      datasetId: dataset.id,
+      version: dataset.version,
+      parentVersion,
+      restoredFrom,
+      description: dataset.description,
+      files: structuredClone(dataset.files),
+      metadata: structuredClone(dataset.metadata),
+      createdAt: new Date(dataset.updatedAt),
+    };
+  }
+
+  /**
+   * Compare the files of two versions. Files are matched by original path when known,
+   * so a path whose CID differs is reported as changed rather than removed and added.
+   */
+  static diff(from: DatasetVersion, to: DatasetVersion): DatasetVersionDiff {
+    const key = (file: UploadResult) => file.originalPath || file.cid;
+    const fromFiles = new Map(from.files.map((file) => [key(file), file]));
+    const toFiles = new Map(to.files.map((file) => [key(file), file]));
+
+    const diff: DatasetVersionDiff = {
+      datasetId: to.datasetId,
+      fromVersion: from.version,
+      toVersion: to.version,
+      added: [],
+      removed: [],
+      changed: [],
+    };
+
+    for (const [path, file] of toFiles) {
+      const previous = fromFiles.get(path);
+      if (!previous) {
+        diff.added.push(file);
+      } else if (previous.cid !== file.cid) {
+        diff.changed.push({ path, from: previous, to: file });
+      }
+    }
+    for (const [path, file] of fromFiles) {
+      if (!toFiles.has(path)) {
+        diff.removed.push(file);
+      }
+    }
+
+    return diff;
+  }
+}
@@ -2,7 +2,7 @@
  * Request Validator - Validates MCP requests and tool parameters
  */
 
-import { MCPToolDefinition, MCPToolInputSchema } from "@lighthouse-tooling/types";
+import { MCPToolDefinition, MCPToolProperty } from "@lighthouse-tooling/types";
 import { Validator } from "@lighthouse-tooling/shared";
 
 export interface ValidationError {
@@ -13,50 +13,26 @@ export interface ValidationError {
 
 export class RequestValidator {
   /**
-   * Validate tool arguments against schema
+   * Validate tool arguments against the tool's input schema. Errors carry the path of the
+   * offending field, e.g. `files[2]` or `metadata.author`.
    */
   static validateToolArguments(
     toolDefinition: MCPToolDefinition,
     args: Record<string, unknown>,
   ): { valid: boolean; errors: ValidationError[] } {
-    const errors: ValidationError[] = [];
     const schema = toolDefinition.inputSchema;
+    const errors = this.validateProperties("", args, schema.properties, schema.required);
 
-    // Check required fields
-    if (schema.required) {
-      for (const requiredField of schema.required) {
-        if (
-          !(requiredField in args) ||
-          args[requiredField] === undefined ||
-          args[requiredField] === null
-        ) {
-          errors.push({
-            field: requiredField,
-            message: `Required field '${requiredField}' is missing`,
-          });
-        }
-      }
-    }
-
-    // Validate each argument
-    for (const [key, value] of Object.entries(args)) {
-      const propertySchema = schema.properties[key];
-
-      if (!propertySchema) {
-        // Allow additional properties unless explicitly disallowed
-        if (schema.additionalProperties === false) {
+    if (schema.additionalProperties === false) {
+      for (const [key, value] of Object.entries(args)) {
+        if (!schema.properties[key]) {
           errors.push({
             field: key,
             message: `Unknown field '${key}'`,
             value,
           });
         }
-        continue;
       }
-
-      // Validate type
-      const typeErrors = this.validateType(key, value, propertySchema);
-      errors.push(...typeErrors);
     }
 
     return {
@@ -66,9 +42,44 @@ export class RequestValidator {
   }
 
   /**
-   * Validate value type
+   * Validate the properties and required fields of an object value
    */
-  private static validateType(fieldName: string, value: unknown, schema: any): ValidationError[] {
+  private static validateProperties(
+    path: string,
+    value: Record<string, unknown>,
+    properties: Record<string, MCPToolProperty> = {},
+    required: string[] = [],
+  ): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    for (const requiredField of required) {
+      if (value[requiredField] === undefined || value[requiredField] === null) {
+        const field = this.joinPath(path, requiredField);
+        errors.push({
+          field,
+          message: `Required field '${field}' is missing`,
+        });
+      }
+    }
+
+    for (const [key, propValue] of Object.entries(value)) {
+      const propertySchema = properties[key];
+      if (propertySchema) {
+        errors.push(...this.validateType(this.joinPath(path, key), propValue, propertySchema));
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate value type and constraints
+   */
+  private static validateType(
+    fieldName: string,
+    value: unknown,
+    schema: MCPToolProperty,
+  ): ValidationError[] {
     const errors: ValidationError[] = [];
 
     if (value === undefined || value === null) {
@@ -85,32 +96,25 @@ export class RequestValidator {
           });
         } else {
           // Validate string constraints
-          if (schema.minLength && value.length < schema.minLength) {
+          if (schema.minLength !== undefined && value.length < schema.minLength) {
             errors.push({
               field: fieldName,
               message: `Field '${fieldName}' must be at least ${schema.minLength} characters`,
               value,
             });
           }
-          if (schema.maxLength && value.length > schema.maxLength) {
+          if (schema.maxLength !== undefined && value.length > schema.maxLength) {
             errors.push({
               field: fieldName,
               message: `Field '${fieldName}' must be at most ${schema.maxLength} characters`,
               value,
             });
           }
-          if (schema.enum && !schema.enum.includes(value)) {
-            errors.push({
-              field: fieldName,
-              message: `Field '${fieldName}' must be one of: ${schema.enum.join(", ")}`,
-              value,
-            });
-          }
         }
         break;
 
       case "number":
-        if (typeof value !== "number") {
+        if (typeof value !== "number" || Number.isNaN(value)) {
           errors.push({
             field: fieldName,
             message: `Field '${fieldName}' must be a number`,
@@ -153,9 +157,9 @@ export class RequestValidator {
           });
         } else if (schema.items) {
           // Validate array items
+          const items = schema.items;
           value.forEach((item, index) => {
-            const itemErrors = this.validateType(`${fieldName}[${index}]`, item, schema.items);
-            errors.push(...itemErrors);
+            errors.push(...this.validateType(`${fieldName}[${index}]`, item, items));
           });
         }
         break;
@@ -167,27 +171,35 @@ export class RequestValidator {
             message: `Field '${fieldName}' must be an object`,
             value,
           });
-        } else if (schema.properties) {
+        } else {
           // Validate object properties
-          const objValue = value as Record<string, unknown>;
-          for (const [propKey, propValue] of Object.entries(objValue)) {
-            const propSchema = schema.properties[propKey];
-            if (propSchema) {
-              const propErrors = this.validateType(
-                `${fieldName}.${propKey}`,
-                propValue,
-                propSchema,
-              );
-              errors.push(...propErrors);
-            }
-          }
+          errors.push(
+            ...this.validateProperties(
+              fieldName,
+              value as Record<string, unknown>,
+              schema.properties,
+              schema.required,
+            ),
+          );
         }
         break;
     }
 
+    if (errors.length === 0 && schema.enum && !schema.enum.includes(value)) {
+      errors.push({
+        field: fieldName,
+        message: `Field '${fieldName}' must be one of: ${schema.enum.join(", ")}`,
+        value,
+      });
+    }
+
     return errors;
   }
 
+  private static joinPath(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+  }
+
   /**
    * Validate file path parameter
    */
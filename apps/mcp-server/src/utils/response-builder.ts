@@ -8,6 +8,7 @@ import {
   MCPError,
   MCPErrorCode,
   MCPContent,
+  MCPResourceContents,
 } from "@lighthouse-tooling/types";
 
 export class ResponseBuilder {
@@ -84,6 +85,15 @@ export class ResponseBuilder {
     });
   }
 
+  /**
+   * Build a resource read response
+   */
+  static resourceContents(id: string | number, contents: MCPResourceContents[]): MCPResponse {
+    return this.success(id, {
+      contents,
+    });
+  }
+
   /**
    * Convert error to MCP error code
    */
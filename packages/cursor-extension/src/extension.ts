@@ -12,6 +12,7 @@ import {
   type AICommandHandlerFunction,
 } from "@lighthouse-tooling/extension-core";
 import { LighthouseAISDK } from "@lighthouse-tooling/sdk-wrapper";
+import { Tracer, configureTracing } from "@lighthouse-tooling/shared";
 import { MCPClient } from "./mcp/mcp-client";
 
 interface AIAgentHooks {
@@ -114,6 +115,9 @@ export class LighthouseCursorExtension {
     }
 
     try {
+      // Export spans when LIGHTHOUSE_TRACE_FILE is set; the MCP server inherits it
+      configureTracing("lighthouse-cursor-extension");
+
       // Validate API key is set
       const config = vscode.workspace.getConfiguration("lighthouse.cursor");
       const apiKey = config.get<string>("apiKey");
@@ -189,6 +193,9 @@ export class LighthouseCursorExtension {
       }
 
       await this.extensionCore.dispose();
+
+      // Write out buffered spans
+      await Tracer.getInstance().shutdown();
       this.isActivated = false;
       console.log("Lighthouse Cursor Extension deactivated");
     } catch (error) {
@@ -230,7 +237,13 @@ export class LighthouseCursorExtension {
     ];
 
     commands.forEach(({ id, handler }) => {
-      const disposable = vscode.commands.registerCommand(id, handler);
+      // Each command starts a trace that its SDK and MCP calls join
+      const run = handler as (...args: unknown[]) => Promise<unknown>;
+      const disposable = vscode.commands.registerCommand(id, (...args: unknown[]) =>
+        Tracer.getInstance().startActiveSpan(id, { attributes: { "vscode.command": id } }, () =>
+          run(...args),
+        ),
+      );
       this.context.subscriptions.push(disposable);
     });
   }
@@ -8,6 +8,7 @@ import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js"
 import { spawn, type ChildProcess } from "node:child_process";
 import * as path from "node:path";
 import * as fs from "node:fs";
+import { SpanKind, SpanStatusCode, Tracer } from "@lighthouse-tooling/shared";
 
 export interface MCPClientConfig {
   /** Path to MCP server executable or command */
@@ -136,48 +137,64 @@ export class MCPClient {
       throw new Error("MCP client not connected. Call connect() first.");
     }
 
-    try {
-      console.log("Calling MCP tool:", toolName);
-
-      // Add API key to args if not present
-      const toolArgs = {
-        ...args,
-        apiKey: args.apiKey || this.config.apiKey || process.env.LIGHTHOUSE_API_KEY,
-      };
-
-      const result = await this.client.callTool({
-        name: toolName,
-        arguments: toolArgs,
-      });
-
-      // Parse result content
-      const content = (result.content as Array<{ type: string; text: string }>) || [];
-      let data: unknown;
-
-      // Try to parse JSON from text content
-      if (content.length > 0 && content[0]?.type === "text") {
+    return Tracer.getInstance().startActiveSpan(
+      `tools/call ${toolName}`,
+      {
+        kind: SpanKind.CLIENT,
+        attributes: { "rpc.system": "mcp", "rpc.method": "tools/call", "mcp.tool.name": toolName },
+      },
+      async (span) => {
         try {
-          data = JSON.parse(content[0].text);
-        } catch {
-          data = content[0].text;
+          console.log("Calling MCP tool:", toolName);
+
+          // Add API key to args if not present
+          const toolArgs = {
+            ...args,
+            apiKey: args.apiKey || this.config.apiKey || process.env.LIGHTHOUSE_API_KEY,
+          };
+
+          // The server continues this trace from the traceparent in the request metadata
+          const result = await this.client.callTool({
+            name: toolName,
+            arguments: toolArgs,
+            _meta: { traceparent: span.traceparent() },
+          });
+
+          // Parse result content
+          const content = (result.content as Array<{ type: string; text: string }>) || [];
+          let data: unknown;
+
+          // Try to parse JSON from text content
+          if (content.length > 0 && content[0]?.type === "text") {
+            try {
+              data = JSON.parse(content[0].text);
+            } catch {
+              data = content[0].text;
+            }
+          }
+
+          console.log("MCP tool call completed:", toolName);
+
+          return {
+            success: true,
+            data,
+            content: content as Array<{ type: string; text: string }>,
+          };
+        } catch (error) {
+          console.error("MCP tool call failed:", error);
+
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : "Unknown error",
+          };
         }
-      }
-
-      console.log("MCP tool call completed:", toolName);
-
-      return {
-        success: true,
-        data,
-        content: content as Array<{ type: string; text: string }>,
-      };
-    } catch (error) {
-      console.error("MCP tool call failed:", error);
-
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
-      };
-    }
+      },
+    );
   }
 
   /**
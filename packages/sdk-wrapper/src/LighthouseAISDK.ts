@@ -1,15 +1,19 @@
 import { EventEmitter } from "eventemitter3";
 import lighthouse from "@lighthouse-web3/sdk";
-import { readFileSync, createWriteStream, promises as fsPromises } from "fs";
-import { dirname } from "path";
+import { readFileSync, createReadStream, createWriteStream, promises as fsPromises } from "fs";
+import { dirname, join } from "path";
+import { homedir } from "os";
 import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
+import { Dataset } from "@lighthouse-tooling/types";
+import { Tracer } from "@lighthouse-tooling/shared";
 import { AuthenticationManager } from "./auth/AuthenticationManager";
 import { ProgressTracker } from "./progress/ProgressTracker";
 import { ErrorHandler } from "./errors/ErrorHandler";
 import { CircuitBreaker } from "./errors/CircuitBreaker";
 import { EncryptionManager } from "./encryption/EncryptionManager";
-import { RateLimiter } from "./utils/RateLimiter";
+import { RateLimiter, RateLimitState } from "./utils/RateLimiter";
 import { ConnectionPool, ConnectionPoolConfig } from "./pool";
+import { CacheAccessEvent, CacheErrorEvent, CacheManager, CacheManagerConfig } from "./cache";
 import {
   LighthouseConfig,
   UploadOptions,
@@ -38,6 +42,40 @@ import {
 import { generateOperationId, validateFile, createFileInfo } from "./utils/helpers";
 import { BatchProcessor } from "./batch/BatchProcessor";
 import { MemoryManager } from "./memory/MemoryManager";
+import {
+  CIDMismatchError,
+  RateLimitError,
+  UnverifiableCIDError,
+  ValidationError,
+} from "./errors/errors";
+import { UnixFSImporter } from "./cid";
+import { DatasetManifest, ManifestFormat } from "./manifest";
+import {
+  ChunkedUploader,
+  ConnectionStatusSource,
+  DEFAULT_CHUNK_SIZE,
+  HttpChunkTransport,
+  UploadSession,
+  UploadSessionStore,
+} from "./upload";
+
+const DEFAULT_API_URL = "https://api.lighthouse.storage";
+const DEFAULT_GATEWAY_URL = "https://gateway.lighthouse.storage";
+
+/** Files at least this large are uploaded in chunks when chunked uploads are configured */
+const DEFAULT_CHUNKED_UPLOAD_THRESHOLD = 100 * 1024 * 1024;
+
+/** Metadata rarely changes behind the SDK's back; lists go stale sooner but are served while refreshed */
+const DEFAULT_CACHE_CONFIG: CacheManagerConfig = {
+  fileMetadataTtl: 5 * 60 * 1000,
+  datasetTtl: 5 * 60 * 1000,
+  listTtl: 30 * 1000,
+  staleWhileRevalidate: 5 * 60 * 1000,
+  cleanupInterval: 60 * 1000,
+};
+
+/** Prefix of cached `listDatasets` responses */
+const DATASET_LIST_KEY = CacheManager.generateResponseKey("listDatasets");
 
 /**
  * Unified SDK wrapper that abstracts Lighthouse and Kavach SDK complexity for AI agents.
@@ -81,7 +119,13 @@ export class LighthouseAISDK extends EventEmitter {
   private rateLimiter: RateLimiter;
   private connectionPool: ConnectionPool | null;
   private memoryManager: MemoryManager;
+  private chunkedUploader: ChunkedUploader;
+  private cache: CacheManager;
   private config: LighthouseConfig;
+  private destroyed = false;
+  private emitRateLimit = (state: RateLimitState): void => {
+    this.emit("rate_limit", state);
+  };
 
   constructor(config: LighthouseConfig) {
     super();
@@ -94,7 +138,9 @@ export class LighthouseAISDK extends EventEmitter {
     });
     this.circuitBreaker = new CircuitBreaker();
     this.encryption = new EncryptionManager();
-    this.rateLimiter = new RateLimiter(10, 1, 1000); // 10 requests per second
+    // 10 requests per second, shared by every instance using this API key and adapted to
+    // the rate limits the server reports
+    this.rateLimiter = RateLimiter.forKey(config.apiKey, 10, 1, 1000);
     this.memoryManager = new MemoryManager({
       maxMemory: 512 * 1024 * 1024, // 512MB
       backpressureThreshold: 0.8,
@@ -119,6 +165,27 @@ export class LighthouseAISDK extends EventEmitter {
       this.connectionPool = new ConnectionPool(poolConfig);
     }
 
+    // Resumable chunked uploads, persisted to the session directory
+    const chunked = config.chunkedUpload ?? {};
+    this.chunkedUploader = new ChunkedUploader(
+      new HttpChunkTransport(
+        chunked.endpoint || `${config.baseUrl || DEFAULT_API_URL}/api/v0/uploads`,
+        config.apiKey,
+        (requestConfig) => this.executeHttpRequest(requestConfig),
+      ),
+      new UploadSessionStore(
+        chunked.sessionDir || join(homedir(), ".lighthouse", "upload-sessions"),
+      ),
+      chunked.chunkSize || DEFAULT_CHUNK_SIZE,
+    );
+
+    // Read-through metadata cache (disabled rather than absent when config.cache is false)
+    this.cache = new CacheManager({
+      ...DEFAULT_CACHE_CONFIG,
+      ...(typeof config.cache === "object" ? config.cache : {}),
+      ...(config.cache === false ? { enabled: false } : {}),
+    });
+
     // Forward authentication events
     this.auth.on("auth:error", (error) => this.emit("auth:error", error));
     this.auth.on("auth:refresh", () => this.emit("auth:refresh"));
@@ -135,7 +202,13 @@ export class LighthouseAISDK extends EventEmitter {
     this.progress.on("download:error", (event) => this.emit("download:error", event));
 
     // Forward error handler events
-    this.errorHandler.on("retry", (event) => this.emit("retry", event));
+    this.errorHandler.on("retry", (event) => {
+      // Requests not made through executeHttpRequest still slow the shared limiter down
+      if (event.error instanceof RateLimitError) {
+        this.rateLimiter.throttle(event.error.retryAfter);
+      }
+      this.emit("retry", event);
+    });
     this.errorHandler.on("error", (error) => this.emit("error", error));
 
     // Forward circuit breaker events
@@ -180,17 +253,48 @@ export class LighthouseAISDK extends EventEmitter {
       this.emit("memory:backpressure:end", event),
     );
     this.memoryManager.on("cleanup:needed", (event) => this.emit("memory:cleanup:needed", event));
+
+    // Forward cache lookups to the event stream
+    this.cache.on("hit", (event: CacheAccessEvent) => this.emitCacheEvent("cache:hit", event));
+    this.cache.on("miss", (event: CacheAccessEvent) => this.emitCacheEvent("cache:miss", event));
+
+    // Forward rate limit changes; the limiter is shared, so the listener is removed on destroy
+    this.rateLimiter.on("rate_limit", this.emitRateLimit);
   }
 
   /**
-   * Execute operation with rate limiting
+   * Emit a cache lookup both on its own and on the SDK event stream
+   */
+  private emitCacheEvent(
+    type: "cache:hit" | "cache:miss" | "cache:error",
+    event: CacheAccessEvent | CacheErrorEvent,
+  ): void {
+    const sdkEvent: SDKEvent = {
+      type,
+      operationId: event.key,
+      data: event,
+      error: "error" in event ? event.error : undefined,
+      timestamp: new Date(),
+    };
+    this.emit(type, event);
+    this.emit("event", sdkEvent);
+  }
+
+  /**
+   * Execute operation with rate limiting, inside a span named after the operation
    */
   private async executeWithRateLimit<T>(
     operation: () => Promise<T>,
     operationName: string,
   ): Promise<T> {
-    await this.rateLimiter.acquire();
-    return this.circuitBreaker.execute(operation, operationName);
+    return Tracer.getInstance().startActiveSpan(
+      `LighthouseAISDK.${operationName}`,
+      { attributes: { "sdk.operation": operationName } },
+      async () => {
+        await this.rateLimiter.acquire();
+        return this.circuitBreaker.execute(operation, operationName);
+      },
+    );
   }
 
   /**
@@ -278,6 +382,18 @@ export class LighthouseAISDK extends EventEmitter {
           // Start progress tracking
           this.progress.startOperation(operationId, "upload", fileStats.size);
 
+          if (this.shouldUploadInChunks(fileStats.size, options)) {
+            const fileInfo = await this.uploadInChunks(
+              operationId,
+              filePath,
+              fileStats.size,
+              options,
+            );
+            this.cache.invalidateFile(fileInfo.hash);
+            this.progress.completeOperation(operationId, fileInfo);
+            return fileInfo;
+          }
+
           // Use API key directly
           const apiKey = this.config.apiKey;
 
@@ -297,17 +413,24 @@ export class LighthouseAISDK extends EventEmitter {
           // Upload file using Lighthouse SDK buffer method with timeout
           let uploadResponse;
           try {
-            const uploadPromise = lighthouse.uploadBuffer(fileBuffer, apiKey);
+            const uploadPromise = this.config.directApi
+              ? this.uploadViDirectAPI(
+                  fileBuffer,
+                  apiKey,
+                  options.fileName || filePath.split("/").pop() || "file",
+                )
+              : lighthouse.uploadBuffer(fileBuffer, apiKey);
             uploadResponse = await this.withTimeout(uploadPromise, dynamicTimeout);
           } catch (error) {
             // Try fallback to direct API call if standard method fails
             const errorMessage = error instanceof Error ? error.message : String(error);
 
             if (
-              errorMessage.includes("ETIMEDOUT") ||
-              errorMessage.includes("timeout") ||
-              errorMessage.includes("ENOTFOUND") ||
-              errorMessage.includes("ECONNREFUSED")
+              !this.config.directApi &&
+              (errorMessage.includes("ETIMEDOUT") ||
+                errorMessage.includes("timeout") ||
+                errorMessage.includes("ENOTFOUND") ||
+                errorMessage.includes("ECONNREFUSED"))
             ) {
               console.warn("Standard upload failed, trying direct API fallback:", errorMessage);
 
@@ -366,6 +489,9 @@ Maximum file size may be exceeded. Try uploading a smaller file.`);
             encrypted: options.encrypt || false,
           });
 
+          // Re-uploaded content may carry new metadata
+          this.cache.invalidateFile(fileInfo.hash);
+
           // Complete operation
           this.progress.completeOperation(operationId, fileInfo);
 
@@ -378,6 +504,89 @@ Maximum file size may be exceeded. Try uploading a smaller file.`);
     }, "uploadFile");
   }
 
+  /**
+   * Whether an upload should go through resumable chunked upload. Chunks are sent as they
+   * are, so encrypted uploads are never chunked.
+   */
+  private shouldUploadInChunks(fileSize: number, options: UploadOptions): boolean {
+    if (options.resumable) {
+      if (options.encrypt) {
+        throw new ValidationError("Resumable uploads do not support encryption");
+      }
+      return true;
+    }
+    const chunked = this.config.chunkedUpload;
+    return (
+      !!chunked &&
+      !options.encrypt &&
+      fileSize >= (chunked.threshold ?? DEFAULT_CHUNKED_UPLOAD_THRESHOLD)
+    );
+  }
+
+  /**
+   * Upload a file in resumable chunks, reporting progress per chunk. A retry, or a new call
+   * after a crash, resumes from the last chunk the server acknowledged.
+   */
+  private async uploadInChunks(
+    operationId: string,
+    filePath: string,
+    fileSize: number,
+    options: UploadOptions,
+  ): Promise<FileInfo> {
+    const result = await this.chunkedUploader.upload(filePath, {
+      fileName: options.fileName,
+      onChunk: (session) => {
+        const last = session.completedChunks[session.completedChunks.length - 1]!;
+        const loaded = session.completedChunks.reduce((sum, chunk) => sum + chunk.size, 0);
+        this.progress.updateChunkProgress(operationId, loaded, {
+          index: last.index,
+          completed: session.completedChunks.length,
+          count: session.chunkCount,
+        });
+        const progress = this.progress.getProgress(operationId);
+        if (progress) options.onProgress?.(progress);
+      },
+    });
+
+    if (!result || !result.Hash) {
+      throw new Error("Invalid upload response from Lighthouse");
+    }
+
+    return createFileInfo({
+      hash: result.Hash,
+      name: options.fileName || filePath.split("/").pop() || "unknown",
+      size: fileSize,
+      mimeType: options.mimeType || "application/octet-stream",
+      metadata: options.metadata,
+      encrypted: false,
+    });
+  }
+
+  /**
+   * Pause chunked uploads while the given monitor (e.g. the shared ConnectionMonitor) reports
+   * the connection as offline, and resume them from the last completed chunk once it is back.
+   *
+   * @param monitor - Emitter of `connected` and `disconnected` events, or null to detach
+   */
+  setConnectionMonitor(monitor: ConnectionStatusSource | null): void {
+    this.chunkedUploader.setConnectionMonitor(monitor);
+  }
+
+  /**
+   * List chunked uploads that have not completed. Uploading the same, unchanged file again
+   * resumes its session.
+   */
+  async listUploadSessions(): Promise<UploadSession[]> {
+    return this.chunkedUploader.listSessions();
+  }
+
+  /**
+   * Discard a recorded upload session so the file is uploaded from the beginning next time
+   */
+  async discardUploadSession(sessionId: string): Promise<void> {
+    return this.chunkedUploader.discardSession(sessionId);
+  }
+
   /**
    * Add timeout wrapper for promises
    */
@@ -395,18 +604,39 @@ Maximum file size may be exceeded. Try uploading a smaller file.`);
    * otherwise fall back to a direct axios call.
    */
   private async executeHttpRequest<T = any>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
-    if (this.connectionPool) {
-      const instance = await this.connectionPool.acquire();
-      try {
-        return await instance.request<T>(config);
-      } finally {
-        this.connectionPool.release(instance);
+    let response: AxiosResponse<T>;
+    try {
+      if (this.connectionPool) {
+        response = await this.connectionPool.request<T>(config);
+      } else {
+        const axiosLib: { request: (config: AxiosRequestConfig) => Promise<AxiosResponse<T>> } =
+          eval("require")("axios");
+        response = await axiosLib.request(config);
       }
-    } else {
-      const axiosLib: { request: (config: AxiosRequestConfig) => Promise<AxiosResponse<T>> } =
-        eval("require")("axios");
-      return axiosLib.request(config);
+    } catch (error) {
+      const failed = (error as { response?: AxiosResponse }).response;
+      if (failed) {
+        this.rateLimiter.observe(failed.headers, failed.status);
+      }
+      throw error;
     }
+
+    // Rate limit headers resize the limiter shared by every instance using this API key
+    this.rateLimiter.observe(response?.headers, response?.status);
+    return response;
+  }
+
+  /**
+   * GET a Lighthouse REST endpoint under `baseUrl`
+   */
+  private async getFromApi(path: string): Promise<any> {
+    const response = await this.executeHttpRequest({
+      method: "GET",
+      url: `${this.config.baseUrl || DEFAULT_API_URL}${path}`,
+      headers: { Authorization: `Bearer ${this.config.apiKey}` },
+      timeout: this.config.timeout || 30000,
+    });
+    return response.data;
   }
 
   /**
@@ -418,7 +648,8 @@ Maximum file size may be exceeded. Try uploading a smaller file.`);
     fileName: string,
   ): Promise<any> {
     // This is a fallback method that uses direct HTTP calls to api.lighthouse.storage
-    // when the standard SDK fails (usually due to node.lighthouse.storage being down)
+    // when the standard SDK fails (usually due to node.lighthouse.storage being down),
+    // and the only upload path with `directApi`
 
     const FormData = eval("require")("form-data");
 
@@ -427,7 +658,7 @@ Maximum file size may be exceeded. Try uploading a smaller file.`);
 
     const response = await this.executeHttpRequest({
       method: "POST",
-      url: "https://api.lighthouse.storage/api/v0/add",
+      url: `${this.config.baseUrl || DEFAULT_API_URL}/api/v0/add`,
       data: formData,
       headers: {
         ...formData.getHeaders(),
@@ -444,6 +675,9 @@ Maximum file size may be exceeded. Try uploading a smaller file.`);
   /**
    * Download a file from Lighthouse with comprehensive error handling and progress tracking.
    *
+   * With a `contentCache` configured, cached content is copied from disk instead, and
+   * downloaded content is added to the cache.
+   *
    * @param cid - Content identifier (hash) of the file to download
    * @param outputPath - Local path where the file should be saved
    * @param options - Download configuration options
@@ -453,6 +687,8 @@ Maximum file size may be exceeded. Try uploading a smaller file.`);
    * @throws {NetworkError} When network issues prevent download
    * @throws {TimeoutError} When download operation times out
    * @throws {ValidationError} When CID format is invalid
+   * @throws {CIDMismatchError} When `verify` is set and the content does not match the CID
+   * @throws {UnverifiableCIDError} When `verify` is set and the CID cannot be recomputed locally
    *
    * @example
    * ```typescript
@@ -475,6 +711,13 @@ Maximum file size may be exceeded. Try uploading a smaller file.`);
   ): Promise<string> {
     const operationId = generateOperationId();
 
+    // Cached content needs neither the network nor a rate limit slot
+    if (this.config.contentCache && !options.decrypt) {
+      if (await this.downloadFromContentCache(operationId, cid, outputPath, options)) {
+        return outputPath;
+      }
+    }
+
     return this.executeWithRateLimit(async () => {
       return this.errorHandler.executeWithRetry(async () => {
         try {
@@ -511,7 +754,7 @@ Maximum file size may be exceeded. Try uploading a smaller file.`);
           this.progress.updateProgress(operationId, 0, "preparing");
 
           // Lighthouse IPFS gateway URL
-          const gatewayUrl = `https://gateway.lighthouse.storage/ipfs/${cid}`;
+          const gatewayUrl = `${this.config.gatewayUrl || DEFAULT_GATEWAY_URL}/ipfs/${cid}`;
 
           // Calculate timeout based on expected size (minimum 2 minutes, +30s per 10MB)
           // User-provided timeout takes precedence
@@ -593,17 +836,36 @@ Maximum file size may be exceeded. Try uploading a smaller file.`);
             throw new Error("Downloaded file is empty");
           }
 
+          if (options.verify) {
+            this.progress.updateProgress(operationId, 100, "processing");
+            await this.verifyDownload(cid, outputPath);
+          }
+
+          if (this.config.contentCache) {
+            await this.cacheDownload(cid, outputPath, options.verify ?? false).catch(
+              (error: Error) => {
+                // The download itself succeeded; it is just not available offline
+                this.emitCacheEvent("cache:error", { cache: "content", key: cid, error });
+              },
+            );
+          }
+
           // Complete operation
           this.progress.completeOperation(operationId, {
             filePath: outputPath,
             size: stats.size,
             cid,
+            verified: options.verify ?? false,
           });
 
           return outputPath;
         } catch (error) {
           this.progress.failOperation(operationId, error as Error);
 
+          if (error instanceof CIDMismatchError || error instanceof UnverifiableCIDError) {
+            throw error;
+          }
+
           // Provide more helpful error messages
           const errorMessage = error instanceof Error ? error.message : String(error);
 
@@ -630,9 +892,112 @@ Check your internet connection and try again.`);
     }, "downloadFile");
   }
 
+  /**
+   * Copy content from the content cache, reporting it as a completed download.
+   * Returns false on a miss.
+   */
+  private async downloadFromContentCache(
+    operationId: string,
+    cid: string,
+    outputPath: string,
+    options: DownloadOptions,
+  ): Promise<boolean> {
+    const contentCache = this.config.contentCache!;
+    const entry = await contentCache.copyTo(cid, outputPath);
+    const { hits, misses } = contentCache.getStats();
+    this.emitCacheEvent(entry ? "cache:hit" : "cache:miss", {
+      cache: "content",
+      key: cid,
+      hits,
+      misses,
+    });
+
+    if (!entry) {
+      return false;
+    }
+
+    this.progress.startOperation(operationId, "download", entry.size);
+    try {
+      if (options.verify) {
+        this.progress.updateProgress(operationId, 100, "processing");
+        await this.verifyDownload(cid, outputPath).catch(async (error) => {
+          if (error instanceof CIDMismatchError) {
+            await contentCache.delete(cid);
+          }
+          throw error;
+        });
+      }
+    } catch (error) {
+      this.progress.failOperation(operationId, error as Error);
+      throw error;
+    }
+
+    this.progress.completeOperation(operationId, {
+      filePath: outputPath,
+      size: entry.size,
+      cid,
+      verified: options.verify ?? false,
+      cached: true,
+    });
+    return true;
+  }
+
+  /**
+   * Cache downloaded content under its CID. Content the caller did not verify is checked
+   * here first, so a bad gateway response is never served from the cache.
+   */
+  private async cacheDownload(cid: string, filePath: string, verified: boolean): Promise<void> {
+    if (!verified) {
+      const { matches, actualCid } = await this.recomputeCID(cid, filePath);
+      if (!matches) {
+        throw new CIDMismatchError(cid, actualCid);
+      }
+    }
+    await this.config.contentCache!.put(cid, filePath);
+  }
+
+  /**
+   * Recompute the CID of downloaded content, deleting the file if it does not match
+   */
+  private async verifyDownload(cid: string, filePath: string): Promise<void> {
+    const { matches, actualCid } = await this.recomputeCID(cid, filePath);
+
+    if (!matches) {
+      await fsPromises.unlink(filePath).catch(() => {});
+      throw new CIDMismatchError(cid, actualCid);
+    }
+  }
+
+  /**
+   * Recompute the CID of a file under each layout the CID's codec allows, assuming
+   * 256KiB chunks. `actualCid` is the first layout's CID when none match.
+   */
+  private async recomputeCID(
+    cid: string,
+    filePath: string,
+  ): Promise<{ matches: boolean; actualCid: string }> {
+    const layouts = UnixFSImporter.layoutsFor(cid);
+    if (layouts.length === 0) {
+      throw new UnverifiableCIDError(cid);
+    }
+
+    // Hash every candidate layout in a single pass over the file
+    const importers = layouts.map((layout) => new UnixFSImporter(layout));
+    for await (const chunk of createReadStream(filePath)) {
+      importers.forEach((importer) => importer.push(chunk as Buffer));
+    }
+    const actualCids = importers.map((importer) => importer.finish().cid);
+
+    return actualCids.includes(cid)
+      ? { matches: true, actualCid: cid }
+      : { matches: false, actualCid: actualCids[0]! };
+  }
+
   /**
    * Retrieve file information and metadata from Lighthouse.
    *
+   * Results are cached until the file is uploaded or shared again, or its TTL passes.
+   *
    * @param cid - Content identifier (hash) of the file
    * @returns Promise resolving to file information including size, type, and metadata
    *
@@ -649,10 +1014,18 @@ Check your internet connection and try again.`);
    * ```
    */
   async getFileInfo(cid: string): Promise<FileInfo> {
-    return this.executeWithRateLimit(async () => {
+    const cached = this.cache.getFileMetadata(cid);
+    if (cached) {
+      return cached;
+    }
+    const generation = this.cache.getGeneration();
+
+    const fileInfo = await this.executeWithRateLimit(async () => {
       return this.errorHandler.executeWithRetry(async () => {
         // Get file status from Lighthouse (doesn't require auth for public files)
-        const statusResponse = await lighthouse.getFileInfo(cid);
+        const statusResponse = this.config.directApi
+          ? await this.getFromApi(`/api/lighthouse/file_info?cid=${encodeURIComponent(cid)}`)
+          : await lighthouse.getFileInfo(cid);
 
         if (!statusResponse) {
           throw new Error(`File not found: ${cid}`);
@@ -661,13 +1034,18 @@ Check your internet connection and try again.`);
         return createFileInfo({
           hash: cid,
           name: (statusResponse as any).fileName || "unknown",
-          size: (statusResponse as any).fileSize || 0,
+          size:
+            Number((statusResponse as any).fileSize ?? (statusResponse as any).fileSizeInBytes) ||
+            0,
           mimeType: (statusResponse as any).mimeType || "application/octet-stream",
           metadata: (statusResponse as any).metadata || {},
           encrypted: (statusResponse as any).encrypted || false,
         });
       }, "getFileInfo");
     }, "getFileInfo");
+
+    this.cache.setFileMetadata(cid, fileInfo, generation);
+    return fileInfo;
   }
 
   /**
@@ -702,7 +1080,9 @@ Check your internet connection and try again.`);
         const apiKey = this.config.apiKey;
 
         // Get uploads list from Lighthouse
-        const uploadsResponse = await lighthouse.getUploads(apiKey);
+        const uploadsResponse = this.config.directApi
+          ? { data: await this.getFromApi("/api/user/files_uploaded?lastKey=null") }
+          : await lighthouse.getUploads(apiKey);
 
         if (!uploadsResponse || !uploadsResponse.data) {
           return {
@@ -878,11 +1258,14 @@ Check your internet connection and try again.`);
     shareToAddress: string,
     authToken: AuthToken,
   ): Promise<EncryptionResponse> {
-    return this.executeWithRateLimit(async () => {
+    const response = await this.executeWithRateLimit(async () => {
       return this.errorHandler.executeWithRetry(async () => {
         return await this.encryption.shareToAddress(cid, ownerAddress, shareToAddress, authToken);
       }, "shareFileAccess");
     }, "shareFileAccess");
+
+    this.cache.invalidateFile(cid);
+    return response;
   }
 
   /**
@@ -998,6 +1381,13 @@ Check your internet connection and try again.`);
     return this.connectionPool.getStats();
   }
 
+  /**
+   * Get the state of the rate limiter shared by instances using this API key
+   */
+  getRateLimitState(): RateLimitState {
+    return this.rateLimiter.getState();
+  }
+
   /**
    * Reset error metrics
    */
@@ -1107,6 +1497,8 @@ Check your internet connection and try again.`);
             fileCount: uploadedFiles.length,
           };
 
+          this.cache.invalidateLists(DATASET_LIST_KEY);
+
           // Complete operation
           this.progress.completeOperation(operationId, datasetInfo);
 
@@ -1141,6 +1533,8 @@ Check your internet connection and try again.`);
     options: {
       addFiles?: string[];
       removeFiles?: string[];
+      /** Encrypt the added files */
+      encrypt?: boolean;
       description?: string;
       metadata?: Record<string, any>;
       tags?: string[];
@@ -1171,7 +1565,7 @@ Check your internet connection and try again.`);
               const progressPercentage = (i / options.addFiles.length) * 80;
               this.progress.updateProgress(operationId, progressPercentage, "uploading");
 
-              const fileInfo = await this.uploadFile(filePath);
+              const fileInfo = await this.uploadFile(filePath, { encrypt: options.encrypt });
               updatedFiles.push(fileInfo.hash);
               totalSize += fileInfo.size;
             }
@@ -1189,13 +1583,16 @@ Check your internet connection and try again.`);
             version: "1.1.0",
             createdAt: new Date(now.getTime() - 86400000), // 1 day ago
             updatedAt: now,
-            encrypted: false,
+            encrypted: options.encrypt || false,
             metadata: options.metadata,
             tags: options.tags,
             totalSize,
             fileCount: updatedFiles.length,
           };
 
+          this.cache.invalidateDataset(datasetId);
+          this.cache.invalidateLists(DATASET_LIST_KEY);
+
           this.progress.completeOperation(operationId, datasetInfo);
           return datasetInfo;
         } catch (error) {
@@ -1209,6 +1606,8 @@ Check your internet connection and try again.`);
   /**
    * Retrieve information about a specific dataset.
    *
+   * Results are cached until the dataset is updated or deleted, or its TTL passes.
+   *
    * @param datasetId - ID of the dataset to retrieve
    * @returns Promise resolving to dataset information
    *
@@ -1219,7 +1618,13 @@ Check your internet connection and try again.`);
    * ```
    */
   async getDataset(datasetId: string): Promise<DatasetInfo> {
-    return this.executeWithRateLimit(async () => {
+    const cached = this.cache.getDataset(datasetId);
+    if (cached) {
+      return cached;
+    }
+    const generation = this.cache.getGeneration();
+
+    const dataset = await this.executeWithRateLimit(async () => {
       return this.errorHandler.executeWithRetry(async () => {
         // For now, return a mock dataset since we don't have persistent storage
         // In a real implementation, this would fetch from a database or metadata service
@@ -1241,11 +1646,17 @@ Check your internet connection and try again.`);
         };
       }, "getDataset");
     }, "getDataset");
+
+    this.cache.setDataset(datasetId, dataset, generation);
+    return dataset;
   }
 
   /**
    * List all datasets with pagination support.
    *
+   * Pages are cached. Once stale, a page is still returned while it is refreshed in the
+   * background; updating or deleting a dataset drops all cached pages.
+   *
    * @param limit - Maximum number of datasets to return
    * @param offset - Number of datasets to skip for pagination
    * @returns Promise resolving to paginated list of datasets
@@ -1261,6 +1672,14 @@ Check your internet connection and try again.`);
    * ```
    */
   async listDatasets(limit: number = 10, offset: number = 0): Promise<ListDatasetsResponse> {
+    const key = CacheManager.generateResponseKey("listDatasets", { limit, offset });
+    return this.cache.getList(key, () => this.fetchDatasets(limit, offset));
+  }
+
+  /**
+   * Fetch a page of datasets, bypassing the cache
+   */
+  private async fetchDatasets(limit: number, offset: number): Promise<ListDatasetsResponse> {
     return this.executeWithRateLimit(async () => {
       return this.errorHandler.executeWithRetry(async () => {
         // For now, return mock datasets since we don't have persistent storage
@@ -1314,7 +1733,7 @@ Check your internet connection and try again.`);
    * ```
    */
   async deleteDataset(datasetId: string, deleteFiles: boolean = false): Promise<void> {
-    return this.executeWithRateLimit(async () => {
+    await this.executeWithRateLimit(async () => {
       return this.errorHandler.executeWithRetry(async () => {
         // For now, just simulate deletion since we don't have persistent storage
         // In a real implementation, this would:
@@ -1329,6 +1748,58 @@ Check your internet connection and try again.`);
         }
       }, "deleteDataset");
     }, "deleteDataset");
+
+    this.cache.invalidateDataset(datasetId);
+    this.cache.invalidateLists(DATASET_LIST_KEY);
+  }
+
+  /**
+   * Export a dataset as a portable manifest describing its files by CID.
+   *
+   * @param dataset - Dataset to describe
+   * @param options - Manifest format and optional file to write. The format defaults to the
+   *   output file extension (`.csv` for CSV), otherwise JSON.
+   * @returns Promise resolving to the manifest content
+   *
+   * @example
+   * ```typescript
+   * await sdk.exportDatasetManifest(dataset, { outputPath: './datasets/training.json' });
+   * ```
+   */
+  async exportDatasetManifest(
+    dataset: Dataset,
+    options: { format?: ManifestFormat; outputPath?: string } = {},
+  ): Promise<string> {
+    const format =
+      options.format ??
+      (options.outputPath ? DatasetManifest.formatForPath(options.outputPath) : "json");
+    const content = DatasetManifest.serialize(dataset, format);
+
+    if (options.outputPath) {
+      await fsPromises.mkdir(dirname(options.outputPath), { recursive: true });
+      await fsPromises.writeFile(options.outputPath, content, "utf-8");
+    }
+
+    return content;
+  }
+
+  /**
+   * Rebuild a dataset from a manifest file without uploading any content.
+   *
+   * @param manifestPath - Path to a JSON or CSV manifest
+   * @returns Promise resolving to the dataset described by the manifest
+   *
+   * @throws {ValidationError} When the manifest is malformed or references invalid CIDs
+   *
+   * @example
+   * ```typescript
+   * const dataset = await sdk.importDatasetManifest('./datasets/training.json');
+   * console.log(`${dataset.name}: ${dataset.files.length} files`);
+   * ```
+   */
+  async importDatasetManifest(manifestPath: string): Promise<Dataset> {
+    const content = await fsPromises.readFile(manifestPath, "utf-8");
+    return DatasetManifest.toDataset(DatasetManifest.parse(content));
   }
 
   // ============================================
@@ -1579,6 +2050,7 @@ Check your internet connection and try again.`);
           const filePath = await this.downloadFile(input.cid, outputPath, {
             expectedSize: input.expectedSize,
             decrypt: options.decrypt,
+            verify: options.verify,
           });
 
           // Get actual file size
@@ -1589,6 +2061,7 @@ Check your internet connection and try again.`);
             filePath,
             size: fileStats.size,
             decrypted: options.decrypt ?? false,
+            verified: options.verify ?? false,
           };
         } finally {
           // Release memory tracking
@@ -1672,6 +2145,20 @@ Check your internet connection and try again.`);
     }
   }
 
+  /**
+   * Get metadata cache statistics
+   */
+  getCacheStats() {
+    return this.cache.getStats();
+  }
+
+  /**
+   * Drop all cached metadata so the next reads go to the network
+   */
+  clearCache(): void {
+    this.cache.clearAll();
+  }
+
   /**
    * Get memory manager statistics
    */
@@ -1687,9 +2174,14 @@ Check your internet connection and try again.`);
   }
 
   /**
-   * Cleanup resources and disconnect
+   * Cleanup resources and disconnect. Calling it again has no effect.
    */
   destroy(): void {
+    if (this.destroyed) {
+      return;
+    }
+    this.destroyed = true;
+
     this.auth.destroy();
     this.progress.cleanup();
     this.encryption.destroy();
@@ -1697,6 +2189,10 @@ Check your internet connection and try again.`);
       this.connectionPool.destroy();
     }
     this.memoryManager.destroy();
+    this.chunkedUploader.dispose();
+    this.cache.destroy();
+    this.rateLimiter.off("rate_limit", this.emitRateLimit);
+    this.rateLimiter.release();
     this.removeAllListeners();
   }
 }
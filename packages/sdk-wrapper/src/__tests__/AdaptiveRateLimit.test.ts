@@ -0,0 +1,104 @@
+import { LighthouseAISDK } from "../LighthouseAISDK";
+import { RateLimiter, RateLimitState } from "../utils/RateLimiter";
+
+jest.mock("@lighthouse-web3/sdk", () => ({}));
+jest.mock("axios", () => {
+  const request = jest.fn();
+  return {
+    __esModule: true,
+    request,
+    default: Object.assign(jest.fn(), { request, create: jest.fn() }),
+  };
+});
+
+const mockedRequest = jest.requireMock("axios").request as jest.Mock;
+
+const fileInfoResponse = (status: number, headers: Record<string, string>) => ({
+  status,
+  statusText: "",
+  headers,
+  data: { fileName: "data.csv", mimeType: "text/csv", fileSizeInBytes: "12" },
+});
+
+describe("LighthouseAISDK adaptive rate limiting", () => {
+  const sdks: LighthouseAISDK[] = [];
+
+  const createSDK = (apiKey: string) => {
+    const sdk = new LighthouseAISDK({
+      apiKey,
+      maxRetries: 0,
+      pool: false,
+      cache: false,
+      directApi: true,
+    });
+    sdks.push(sdk);
+    return sdk;
+  };
+
+  afterEach(() => {
+    sdks.splice(0).forEach((sdk) => sdk.destroy());
+    mockedRequest.mockReset();
+  });
+
+  it("should slow down every instance using the API key when the server pushes back", async () => {
+    const first = createSDK("adaptive-key");
+    const second = createSDK("adaptive-key");
+    const other = createSDK("unrelated-key");
+    const events: RateLimitState[] = [];
+    second.on("rate_limit", (state: RateLimitState) => events.push(state));
+
+    mockedRequest.mockRejectedValueOnce(
+      Object.assign(new Error("Request failed with status code 429"), {
+        response: fileInfoResponse(429, { "retry-after": "60" }),
+      }),
+    );
+    await expect(first.getFileInfo("QmThrottled")).rejects.toThrow();
+
+    expect(events).toHaveLength(1);
+    expect(events[0]!.capacity).toBe(5);
+    expect(second.getRateLimitState().retryAfter).toBeGreaterThan(59000);
+    expect(other.getRateLimitState().retryAfter).toBe(0);
+  });
+
+  it("should shrink to the limit reported in response headers", async () => {
+    const sdk = createSDK("limited-key");
+    mockedRequest.mockResolvedValue(
+      fileInfoResponse(200, { "x-ratelimit-limit": "4", "x-ratelimit-remaining": "3" }),
+    );
+
+    await sdk.getFileInfo("QmLimited");
+
+    expect(sdk.getRateLimitState()).toMatchObject({
+      capacity: 4,
+      serverLimit: 4,
+      serverRemaining: 3,
+    });
+  });
+
+  it("should release the shared limiter when the last instance is destroyed", () => {
+    const first = createSDK("released-key");
+    const second = createSDK("released-key");
+    const count = RateLimiter.getSharedCount();
+
+    first.destroy();
+    first.destroy();
+    expect(RateLimiter.getSharedCount()).toBe(count);
+
+    second.destroy();
+    expect(RateLimiter.getSharedCount()).toBe(count - 1);
+  });
+
+  it("should stop forwarding shared limiter events once destroyed", async () => {
+    const sdk = createSDK("destroyed-key");
+    const survivor = createSDK("destroyed-key");
+    const events: RateLimitState[] = [];
+    sdk.on("rate_limit", (state: RateLimitState) => events.push(state));
+    sdk.destroy();
+
+    mockedRequest.mockResolvedValue(fileInfoResponse(200, { "x-ratelimit-limit": "2" }));
+    await survivor.getFileInfo("QmAfterDestroy");
+
+    expect(events).toEqual([]);
+    expect(survivor.getRateLimitState().capacity).toBe(2);
+  });
+});
@@ -1,3 +1,4 @@
+import { InMemorySpanExporter, SpanKind, Tracer } from "@lighthouse-tooling/shared";
 import { ConnectionPool, ConnectionPoolConfig } from "../pool";
 
 // Mock axios
@@ -175,6 +176,35 @@ describe("ConnectionPool", () => {
 
       expect(pool.activeCount).toBe(0);
     });
+
+    it("should send the request in a client span with a traceparent header", async () => {
+      pool = new ConnectionPool({ maxConnections: 5 });
+      const exporter = new InMemorySpanExporter();
+      Tracer.getInstance().addExporter(exporter);
+
+      const axios = require("axios");
+      const mockInstance = axios.__mockInstance;
+      mockInstance.request.mockClear();
+
+      try {
+        await pool.request({ method: "post", url: "https://example.com/api?key=secret" });
+      } finally {
+        await Tracer.getInstance().removeExporter(exporter);
+      }
+
+      const [span] = exporter.getFinishedSpans();
+      expect(span!.name).toBe("HTTP POST");
+      expect(span!.kind).toBe(SpanKind.CLIENT);
+      expect(span!.attributes).toMatchObject({
+        "http.url": "https://example.com/api",
+        "http.status_code": 200,
+      });
+
+      const sentConfig = mockInstance.request.mock.calls[0][0];
+      expect(sentConfig.headers.traceparent).toBe(
+        `00-${span!.spanContext.traceId}-${span!.spanContext.spanId}-01`,
+      );
+    });
   });
 
   describe("getStats", () => {
@@ -0,0 +1,115 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import axios from "axios";
+import { ContentCache } from "@lighthouse-tooling/shared";
+import { LighthouseAISDK } from "../LighthouseAISDK";
+import { UnixFSImporter } from "../cid";
+import { CIDMismatchError } from "../errors";
+import { SDKEvent } from "../types";
+
+jest.mock("@lighthouse-web3/sdk", () => ({}));
+jest.mock("axios", () => {
+  const mockAxios = jest.fn();
+  return {
+    __esModule: true,
+    default: Object.assign(mockAxios, { create: jest.fn(() => mockAxios) }),
+  };
+});
+
+const mockedAxios = axios as unknown as jest.Mock;
+
+describe("LighthouseAISDK content cache", () => {
+  const content = "training data\n";
+  const cid = UnixFSImporter.importBuffer(content).cid;
+  let sdk: LighthouseAISDK;
+  let contentCache: ContentCache;
+  let dir: string;
+
+  const serve = (body: string) => {
+    mockedAxios.mockImplementation(async () => ({
+      status: 200,
+      statusText: "OK",
+      data: Readable.from([Buffer.from(body)]),
+    }));
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), "lighthouse-content-cache-"));
+    contentCache = new ContentCache({ directory: join(dir, "cache") });
+    sdk = new LighthouseAISDK({ apiKey: "test-api-key", maxRetries: 0, pool: false, contentCache });
+  });
+
+  afterEach(async () => {
+    sdk.destroy();
+    mockedAxios.mockReset();
+    await contentCache.flush();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should serve repeated downloads from the cache", async () => {
+    serve(content);
+    const events: SDKEvent[] = [];
+    sdk.on("event", (event: SDKEvent) => events.push(event));
+
+    await sdk.downloadFile(cid, join(dir, "first.txt"));
+    await sdk.downloadFile(cid, join(dir, "second.txt"));
+
+    expect(mockedAxios).toHaveBeenCalledTimes(1);
+    expect(await fs.readFile(join(dir, "second.txt"), "utf-8")).toBe(content);
+    expect(
+      events.filter((event) => event.type.startsWith("cache:")).map((event) => event.type),
+    ).toEqual(["cache:miss", "cache:hit"]);
+  });
+
+  it("should serve cached content while offline", async () => {
+    serve(content);
+    await sdk.downloadFile(cid, join(dir, "online.txt"));
+    mockedAxios.mockRejectedValue(new Error("getaddrinfo ENOTFOUND gateway.lighthouse.storage"));
+
+    const outputPath = join(dir, "offline.txt");
+
+    await expect(sdk.downloadFile(cid, outputPath, { verify: true })).resolves.toBe(outputPath);
+    expect(await fs.readFile(outputPath, "utf-8")).toBe(content);
+  });
+
+  it("should not cache content that does not match its CID", async () => {
+    serve("tampered data\n");
+    const events: SDKEvent[] = [];
+    sdk.on("event", (event: SDKEvent) => events.push(event));
+
+    await sdk.downloadFile(cid, join(dir, "unverified.txt"));
+
+    expect(await contentCache.has(cid)).toBe(false);
+    expect(events.find((event) => event.type === "cache:error")?.error).toBeInstanceOf(
+      CIDMismatchError,
+    );
+  });
+
+  it("should drop cached content that fails verification", async () => {
+    await fs.writeFile(join(dir, "tampered.txt"), "tampered data\n");
+    await contentCache.put(cid, join(dir, "tampered.txt"));
+
+    await expect(
+      sdk.downloadFile(cid, join(dir, "verified.txt"), { verify: true }),
+    ).rejects.toBeInstanceOf(CIDMismatchError);
+    expect(await contentCache.has(cid)).toBe(false);
+  });
+
+  it("should report cache write failures as cache:error events", async () => {
+    serve(content);
+    const failure = new Error("ENOSPC: no space left on device");
+    jest.spyOn(contentCache, "put").mockRejectedValue(failure);
+    const events: SDKEvent[] = [];
+    sdk.on("event", (event: SDKEvent) => events.push(event));
+
+    const outputPath = join(dir, "uncached.txt");
+
+    await expect(sdk.downloadFile(cid, outputPath)).resolves.toBe(outputPath);
+    await new Promise((resolve) => setImmediate(resolve));
+    const errorEvent = events.find((event) => event.type === "cache:error");
+    expect(errorEvent?.error).toBe(failure);
+    expect(errorEvent?.data).toMatchObject({ cache: "content", key: cid });
+  });
+});
@@ -0,0 +1,103 @@
+import { promises as fs, existsSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Readable } from "stream";
+import axios from "axios";
+import { LighthouseAISDK } from "../LighthouseAISDK";
+import { CIDMismatchError, UnverifiableCIDError } from "../errors";
+import { UnixFSImporter, encodeCID, formatCID, sha256Multihash } from "../cid";
+
+jest.mock("@lighthouse-web3/sdk", () => ({}));
+jest.mock("axios", () => {
+  const mockAxios = jest.fn();
+  return {
+    __esModule: true,
+    default: Object.assign(mockAxios, { create: jest.fn(() => mockAxios) }),
+  };
+});
+
+const mockedAxios = axios as unknown as jest.Mock;
+
+describe("LighthouseAISDK download verification", () => {
+  const content = "training data\n";
+  const cid = UnixFSImporter.importBuffer(content).cid;
+  let sdk: LighthouseAISDK;
+  let dir: string;
+
+  const serve = (body: string) => {
+    mockedAxios.mockImplementation(async () => ({
+      status: 200,
+      statusText: "OK",
+      data: Readable.from([Buffer.from(body)]),
+    }));
+  };
+
+  beforeEach(async () => {
+    sdk = new LighthouseAISDK({ apiKey: "test-api-key", maxRetries: 0, pool: false });
+    dir = await fs.mkdtemp(join(tmpdir(), "lighthouse-download-"));
+  });
+
+  afterEach(async () => {
+    sdk.destroy();
+    mockedAxios.mockReset();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should accept content matching the CID", async () => {
+    serve(content);
+    const outputPath = join(dir, "data.txt");
+
+    await expect(sdk.downloadFile(cid, outputPath, { verify: true })).resolves.toBe(outputPath);
+    expect(await fs.readFile(outputPath, "utf-8")).toBe(content);
+  });
+
+  it("should reject and delete content that does not match the CID", async () => {
+    serve("tampered data\n");
+    const outputPath = join(dir, "data.txt");
+
+    const error = await sdk.downloadFile(cid, outputPath, { verify: true }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(CIDMismatchError);
+    expect(error.code).toBe("CID_MISMATCH");
+    expect(error.actualCid).toBe(UnixFSImporter.importBuffer("tampered data\n").cid);
+    expect(existsSync(outputPath)).toBe(false);
+  });
+
+  it("should accept a dag-pb CIDv1 built without raw leaves", async () => {
+    serve(content);
+    const dagPbCid = UnixFSImporter.importBuffer(content, { cidVersion: 1, rawLeaves: false }).cid;
+    const outputPath = join(dir, "data.txt");
+
+    expect(dagPbCid).toMatch(/^bafybei/);
+    await expect(sdk.downloadFile(dagPbCid, outputPath, { verify: true })).resolves.toBe(
+      outputPath,
+    );
+  });
+
+  it("should report CIDs it cannot recompute as unverifiable", async () => {
+    serve(content);
+    const dagCborCid = formatCID(1, encodeCID(1, 0x71, sha256Multihash(Buffer.from(content))));
+    const outputPath = join(dir, "data.txt");
+
+    const error = await sdk.downloadFile(dagCborCid, outputPath, { verify: true }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(UnverifiableCIDError);
+    expect(error.code).toBe("CID_UNVERIFIABLE");
+    expect(existsSync(outputPath)).toBe(true);
+  });
+
+  it("should skip verification unless requested", async () => {
+    serve("tampered data\n");
+
+    await expect(sdk.downloadFile(cid, join(dir, "data.txt"))).resolves.toBeDefined();
+  });
+
+  it("should report verification per file in batch downloads", async () => {
+    serve(content);
+
+    const result = await sdk.batchDownload([{ cid }], { outputDir: dir, verify: true });
+
+    expect(result.successful).toBe(1);
+    expect(result.results[0]!.data).toMatchObject({ cid, verified: true });
+  });
+});
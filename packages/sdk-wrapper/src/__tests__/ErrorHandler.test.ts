@@ -1,3 +1,4 @@
+import { InMemorySpanExporter, SpanStatusCode, Tracer } from "@lighthouse-tooling/shared";
 import { ErrorHandler } from "../errors/ErrorHandler";
 import {
   NetworkError,
@@ -52,6 +53,15 @@ describe("ErrorHandler", () => {
       expect((classified as RateLimitError).retryAfter).toBe(60000);
     });
 
+    it("should classify rate limit responses from HTTP clients", () => {
+      const responseError = new Error("Request failed with status code 429");
+      (responseError as any).response = { status: 429, headers: { "retry-after": "2" } };
+
+      const classified = errorHandler.classifyError(responseError, "test");
+      expect(classified).toBeInstanceOf(RateLimitError);
+      expect((classified as RateLimitError).retryAfter).toBe(2000);
+    });
+
     it("should classify timeout errors correctly", () => {
       const timeoutError = new Error("Request timed out");
       (timeoutError as any).code = "ETIMEDOUT";
@@ -103,6 +113,28 @@ describe("ErrorHandler", () => {
       expect(operation).toHaveBeenCalledTimes(1);
     });
 
+    it("should wait as long as Retry-After asks before retrying", async () => {
+      const operation = jest
+        .fn()
+        .mockRejectedValueOnce(new RateLimitError("Too many requests", 300))
+        .mockResolvedValue("success");
+
+      const start = Date.now();
+      await errorHandler.executeWithRetry(operation, "test");
+
+      expect(Date.now() - start).toBeGreaterThanOrEqual(290);
+      expect(operation).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry when Retry-After exceeds the maximum delay", async () => {
+      const operation = jest.fn().mockRejectedValue(new RateLimitError("Too many requests", 5000));
+
+      await expect(errorHandler.executeWithRetry(operation, "test")).rejects.toBeInstanceOf(
+        RateLimitError,
+      );
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
     it("should respect max retries", async () => {
       const operation = jest.fn().mockRejectedValue(new NetworkError("Network error"));
 
@@ -113,6 +145,32 @@ describe("ErrorHandler", () => {
       expect(operation).toHaveBeenCalledTimes(3); // 1 initial + 2 retries
     });
 
+    it("should trace each attempt and backoff", async () => {
+      const exporter = new InMemorySpanExporter();
+      Tracer.getInstance().addExporter(exporter);
+      const operation = jest
+        .fn()
+        .mockRejectedValueOnce(new NetworkError("Network error"))
+        .mockResolvedValue("success");
+
+      try {
+        await errorHandler.executeWithRetry(operation, "upload");
+      } finally {
+        await Tracer.getInstance().removeExporter(exporter);
+      }
+
+      const spans = exporter.getFinishedSpans();
+      expect(spans.map((span) => span.name)).toEqual([
+        "upload attempt",
+        "retry.backoff",
+        "upload attempt",
+      ]);
+      expect(spans[0]!.status.code).toBe(SpanStatusCode.ERROR);
+      expect(spans[1]!.attributes["retry.delay_ms"]).toBe(100);
+      expect(spans[2]!.attributes["retry.attempt"]).toBe(1);
+      expect(spans[2]!.status.code).toBe(SpanStatusCode.UNSET);
+    });
+
     it("should track error metrics", async () => {
       const operation = jest.fn().mockRejectedValue(new NetworkError("Network error"));
 
@@ -1,5 +1,6 @@
+import lighthouse from "@lighthouse-web3/sdk";
 import { LighthouseAISDK } from "../LighthouseAISDK";
-import { LighthouseConfig } from "../types";
+import { LighthouseConfig, SDKEvent } from "../types";
 
 // Mock the lighthouse SDK
 jest.mock("@lighthouse-web3/sdk", () => ({
@@ -7,6 +8,7 @@ jest.mock("@lighthouse-web3/sdk", () => ({
   download: jest.fn(),
   getFileStatus: jest.fn(),
   getUploads: jest.fn(),
+  getFileInfo: jest.fn(),
 }));
 
 // Mock fs promises
@@ -247,6 +249,111 @@ describe("LighthouseAISDK", () => {
     });
   });
 
+  describe("caching", () => {
+    const mockGetFileInfo = lighthouse.getFileInfo as jest.Mock;
+
+    beforeEach(() => {
+      mockGetFileInfo.mockResolvedValue({ fileName: "doc.pdf", fileSize: 2048 });
+    });
+
+    it("should read file info through the cache", async () => {
+      const first = await sdk.getFileInfo("QmCached");
+      const second = await sdk.getFileInfo("QmCached");
+
+      expect(second).toEqual(first);
+      expect(mockGetFileInfo).toHaveBeenCalledTimes(1);
+      expect(sdk.getCacheStats().fileMetadata).toMatchObject({ hits: 1, misses: 1 });
+    });
+
+    it("should refetch file info after the file is shared", async () => {
+      jest
+        .spyOn((sdk as any).encryption, "shareToAddress")
+        .mockResolvedValue({ isSuccess: true, keyShards: [] });
+
+      await sdk.getFileInfo("QmShared");
+      await sdk.shareFileAccess("QmShared", "0xowner", "0xrecipient", "jwt");
+      await sdk.getFileInfo("QmShared");
+
+      expect(mockGetFileInfo).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not cache file info fetched before the file was shared", async () => {
+      jest
+        .spyOn((sdk as any).encryption, "shareToAddress")
+        .mockResolvedValue({ isSuccess: true, keyShards: [] });
+      let resolve: (value: unknown) => void = () => undefined;
+      mockGetFileInfo.mockImplementationOnce(() => new Promise((r) => (resolve = r)));
+
+      const inFlight = sdk.getFileInfo("QmShared");
+      await sdk.shareFileAccess("QmShared", "0xowner", "0xrecipient", "jwt");
+      resolve({ fileName: "doc.pdf", fileSize: 2048 });
+      await inFlight;
+      await sdk.getFileInfo("QmShared");
+
+      expect(mockGetFileInfo).toHaveBeenCalledTimes(2);
+    });
+
+    it("should invalidate a dataset when it is updated", async () => {
+      await sdk.getDataset("dataset_1");
+      await sdk.getDataset("dataset_1");
+      await sdk.updateDataset("dataset_1", { description: "Updated" });
+      await sdk.getDataset("dataset_1");
+
+      expect(sdk.getCacheStats().datasets).toMatchObject({ hits: 1, misses: 2 });
+    });
+
+    it("should invalidate dataset lists when a dataset is created", async () => {
+      jest.spyOn(console, "log").mockImplementation(() => undefined);
+      jest.spyOn(sdk, "uploadFile").mockResolvedValue({
+        hash: "QmCreated",
+        name: "data.csv",
+        size: 12,
+        mimeType: "text/csv",
+        uploadedAt: new Date(),
+        encrypted: false,
+      });
+
+      await sdk.listDatasets(10, 0);
+      await sdk.listDatasets(10, 0);
+      await sdk.createDataset(["./data.csv"], { name: "created" });
+      await sdk.listDatasets(10, 0);
+
+      expect(sdk.getCacheStats().lists).toMatchObject({ hits: 1, misses: 2 });
+    });
+
+    it("should invalidate dataset lists when a dataset is deleted", async () => {
+      jest.spyOn(console, "log").mockImplementation(() => undefined);
+
+      await sdk.listDatasets(10, 0);
+      await sdk.listDatasets(10, 0);
+      await sdk.deleteDataset("dataset_1");
+      await sdk.listDatasets(10, 0);
+
+      expect(sdk.getCacheStats().lists).toMatchObject({ hits: 1, misses: 2 });
+    });
+
+    it("should report hits and misses on the event stream", async () => {
+      const events: SDKEvent[] = [];
+      sdk.on("event", (event: SDKEvent) => events.push(event));
+
+      await sdk.getDataset("dataset_1");
+      await sdk.getDataset("dataset_1");
+
+      expect(events.map((event) => event.type)).toEqual(["cache:miss", "cache:hit"]);
+      expect(events[1]?.data).toEqual({ cache: "dataset", key: "dataset_1", hits: 1, misses: 1 });
+    });
+
+    it("should not cache when config.cache is false", async () => {
+      const uncachedSdk = new LighthouseAISDK({ ...config, cache: false });
+
+      await uncachedSdk.getFileInfo("QmUncached");
+      await uncachedSdk.getFileInfo("QmUncached");
+
+      expect(mockGetFileInfo).toHaveBeenCalledTimes(2);
+      uncachedSdk.destroy();
+    });
+  });
+
   describe("destroy", () => {
     it("should cleanup resources", () => {
       const removeAllListenersSpy = jest.spyOn(sdk, "removeAllListeners");
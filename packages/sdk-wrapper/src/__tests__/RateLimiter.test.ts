@@ -1,4 +1,5 @@
-import { RateLimiter } from "../utils/RateLimiter";
+import { InMemorySpanExporter, Tracer } from "@lighthouse-tooling/shared";
+import { RateLimiter, RateLimitState, parseRetryAfter } from "../utils/RateLimiter";
 
 describe("RateLimiter", () => {
   it("should allow requests within rate limit", async () => {
@@ -52,4 +53,116 @@ describe("RateLimiter", () => {
 
     expect(tokensAfter).toBeGreaterThan(tokensBefore);
   });
+
+  it("should trace only the requests that wait", async () => {
+    const limiter = new RateLimiter(1, 1, 100);
+    const exporter = new InMemorySpanExporter();
+    Tracer.getInstance().addExporter(exporter);
+
+    try {
+      await limiter.acquire();
+      await limiter.acquire();
+    } finally {
+      await Tracer.getInstance().removeExporter(exporter);
+    }
+
+    const spans = exporter.getFinishedSpans();
+    expect(spans).toHaveLength(1);
+    expect(spans[0]!.name).toBe("rate_limiter.wait");
+    expect(spans[0]!.endTime - spans[0]!.startTime).toBeGreaterThan(0);
+  });
+});
+
+describe("RateLimiter adaptation", () => {
+  it("should pause and halve the bucket on Retry-After", async () => {
+    const limiter = new RateLimiter(8, 8, 100);
+    const states: RateLimitState[] = [];
+    limiter.on("rate_limit", (state: RateLimitState) => states.push(state));
+
+    limiter.observe({ "retry-after": "0.2" }, 429);
+
+    expect(states).toHaveLength(1);
+    expect(states[0]).toMatchObject({ capacity: 4, available: 0 });
+    expect(states[0]!.retryAfter).toBeGreaterThan(150);
+
+    const start = Date.now();
+    await limiter.acquire();
+    expect(Date.now() - start).toBeGreaterThanOrEqual(150);
+  });
+
+  it("should only extend a pause on repeated signals", () => {
+    const limiter = new RateLimiter(8, 8, 100);
+
+    limiter.observe({}, 429);
+    limiter.observe({ "retry-after": "5" }, 429);
+
+    expect(limiter.getState().capacity).toBe(4);
+    expect(limiter.getState().retryAfter).toBeGreaterThan(4000);
+  });
+
+  it("should grow back one token per unthrottled response", async () => {
+    const limiter = new RateLimiter(4, 4, 100);
+    limiter.throttle(0);
+    limiter.throttle(0);
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    limiter.observe({}, 200);
+    limiter.observe({}, 200);
+    limiter.observe({}, 200);
+    limiter.observe({}, 200);
+
+    expect(limiter.getState().capacity).toBe(4);
+  });
+
+  it("should follow the rate limit headers the server reports", () => {
+    const limiter = new RateLimiter(10, 1, 1000);
+
+    limiter.observe({ "x-ratelimit-limit": "3", "x-ratelimit-remaining": "2" }, 200);
+    expect(limiter.getState()).toMatchObject({
+      capacity: 3,
+      available: 2,
+      serverLimit: 3,
+      serverRemaining: 2,
+    });
+
+    limiter.observe({ "ratelimit-remaining": "0", "ratelimit-reset": "30" }, 200);
+    expect(limiter.getState().retryAfter).toBeGreaterThan(29000);
+  });
+});
+
+describe("RateLimiter sharing", () => {
+  afterEach(() => {
+    RateLimiter.resetShared();
+  });
+
+  it("should share one limiter per API key and settings", () => {
+    const first = RateLimiter.forKey("shared-key");
+
+    expect(RateLimiter.forKey("shared-key")).toBe(first);
+    expect(RateLimiter.forKey("other-key")).not.toBe(first);
+    expect(RateLimiter.forKey("shared-key", 2, 1, 1000)).not.toBe(first);
+  });
+
+  it("should drop a shared limiter once every reference is released", () => {
+    const first = RateLimiter.forKey("released-key");
+    const second = RateLimiter.forKey("released-key");
+
+    first.release();
+    expect(RateLimiter.getSharedCount()).toBe(1);
+    expect(RateLimiter.forKey("released-key")).toBe(second);
+
+    second.release();
+    second.release();
+    expect(RateLimiter.getSharedCount()).toBe(0);
+    expect(RateLimiter.forKey("released-key")).not.toBe(first);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("should read delay seconds and HTTP dates", () => {
+    expect(parseRetryAfter("2")).toBe(2000);
+    expect(parseRetryAfter(new Date(Date.now() + 10000).toUTCString())).toBeGreaterThan(8000);
+    expect(parseRetryAfter("soon")).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+  });
 });
@@ -4,6 +4,7 @@
  * Manages multiple caches for different types of data with configurable policies
  */
 
+import { EventEmitter } from "eventemitter3";
 import { LRUCache } from "./LRUCache";
 import { FileInfo, DatasetInfo } from "../types";
 
@@ -16,31 +17,82 @@ export interface CacheManagerConfig {
   datasetCacheSize?: number;
   /** Response cache size for API calls */
   responseCacheSize?: number;
+  /** List response cache size */
+  listCacheSize?: number;
   /** Default TTL for cached items (ms) */
   defaultTtl?: number;
+  /** TTL for file metadata (ms, default: defaultTtl) */
+  fileMetadataTtl?: number;
+  /** TTL for datasets (ms, default: defaultTtl) */
+  datasetTtl?: number;
+  /** TTL for responses (ms, default: defaultTtl) */
+  responseTtl?: number;
+  /** Time a list response stays fresh (ms, default: defaultTtl) */
+  listTtl?: number;
+  /** Time a list response may still be served after going stale while it is refreshed (ms, default: 0) */
+  staleWhileRevalidate?: number;
   /** Cleanup interval for expired entries (ms) */
   cleanupInterval?: number;
 }
 
+/** Caches reporting lookups; "content" is the on-disk content cache used by downloads */
+export type CacheType = "file" | "dataset" | "response" | "list" | "content";
+
+/**
+ * Emitted as `hit` or `miss` for each lookup while caching is enabled
+ */
+export interface CacheAccessEvent {
+  cache: CacheType;
+  key: string;
+  /** Whether a list hit was served stale while it is refreshed */
+  stale?: boolean;
+  /** Hits and misses of this cache so far */
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Emitted by the SDK as `cache:error` when content could not be written to a cache
+ */
+export interface CacheErrorEvent {
+  cache: CacheType;
+  key: string;
+  error: Error;
+}
+
+interface ListEntry {
+  value: unknown;
+  freshUntil: number;
+}
+
 /**
  * Manages caching for Lighthouse SDK operations
  */
-export class CacheManager {
+export class CacheManager extends EventEmitter {
   private enabled: boolean;
   private fileMetadataCache: LRUCache<FileInfo>;
   private datasetCache: LRUCache<DatasetInfo>;
   private responseCache: LRUCache<unknown>;
+  private listCache: LRUCache<ListEntry>;
+  private listTtl: number;
+  private listLoads = new Map<string, Promise<unknown>>();
+  /** Bumped on list invalidation so loads started before it are not cached */
+  private listGeneration = 0;
+  /** Bumped on file and dataset invalidation, likewise for their fetches */
+  private metadataGeneration = 0;
   private cleanupTimer?: NodeJS.Timeout;
 
   constructor(config: CacheManagerConfig = {}) {
+    super();
     this.enabled = config.enabled ?? true;
 
     const defaultTtl = config.defaultTtl ?? 5 * 60 * 1000; // 5 minutes
+    this.listTtl = config.listTtl ?? defaultTtl;
 
     // Initialize caches
     this.fileMetadataCache = new LRUCache<FileInfo>({
       maxSize: config.fileMetadataCacheSize ?? 1000,
-      ttl: defaultTtl,
+      ttl: config.fileMetadataTtl ?? defaultTtl,
       onEvict: (key) => {
         console.debug(`[Cache] Evicted file metadata: ${key}`);
       },
@@ -48,7 +100,7 @@ export class CacheManager {
 
     this.datasetCache = new LRUCache<DatasetInfo>({
       maxSize: config.datasetCacheSize ?? 500,
-      ttl: defaultTtl,
+      ttl: config.datasetTtl ?? defaultTtl,
       onEvict: (key) => {
         console.debug(`[Cache] Evicted dataset: ${key}`);
       },
@@ -56,12 +108,21 @@ export class CacheManager {
 
     this.responseCache = new LRUCache<unknown>({
       maxSize: config.responseCacheSize ?? 2000,
-      ttl: defaultTtl,
+      ttl: config.responseTtl ?? defaultTtl,
       onEvict: (key) => {
         console.debug(`[Cache] Evicted response: ${key}`);
       },
     });
 
+    // List entries outlive their freshness by the stale-while-revalidate window
+    this.listCache = new LRUCache<ListEntry>({
+      maxSize: config.listCacheSize ?? 200,
+      ttl: this.listTtl + (config.staleWhileRevalidate ?? 0),
+      onEvict: (key) => {
+        console.debug(`[Cache] Evicted list: ${key}`);
+      },
+    });
+
     // Setup cleanup interval
     if (config.cleanupInterval) {
       this.startCleanup(config.cleanupInterval);
@@ -73,14 +134,17 @@ export class CacheManager {
    */
   getFileMetadata(cid: string): FileInfo | undefined {
     if (!this.enabled) return undefined;
-    return this.fileMetadataCache.get(cid);
+    const metadata = this.fileMetadataCache.get(cid);
+    this.emitAccess("file", cid, metadata !== undefined);
+    return metadata;
   }
 
   /**
-   * Cache file metadata
+   * Cache file metadata. Given the `getGeneration()` from before it was fetched, it is
+   * not cached if a file or dataset was invalidated since.
    */
-  setFileMetadata(cid: string, metadata: FileInfo): void {
-    if (!this.enabled) return;
+  setFileMetadata(cid: string, metadata: FileInfo, generation?: number): void {
+    if (!this.enabled || this.isOutdated(generation)) return;
     this.fileMetadataCache.set(cid, metadata);
   }
 
@@ -89,23 +153,35 @@ export class CacheManager {
    */
   getDataset(datasetId: string): DatasetInfo | undefined {
     if (!this.enabled) return undefined;
-    return this.datasetCache.get(datasetId);
+    const dataset = this.datasetCache.get(datasetId);
+    this.emitAccess("dataset", datasetId, dataset !== undefined);
+    return dataset;
   }
 
   /**
-   * Cache dataset
+   * Cache dataset. Given the `getGeneration()` from before it was fetched, it is not
+   * cached if a file or dataset was invalidated since.
    */
-  setDataset(datasetId: string, dataset: DatasetInfo): void {
-    if (!this.enabled) return;
+  setDataset(datasetId: string, dataset: DatasetInfo, generation?: number): void {
+    if (!this.enabled || this.isOutdated(generation)) return;
     this.datasetCache.set(datasetId, dataset);
   }
 
+  /**
+   * Current file and dataset generation, to be passed to `setFileMetadata`/`setDataset`
+   */
+  getGeneration(): number {
+    return this.metadataGeneration;
+  }
+
   /**
    * Get cached response
    */
   getResponse<T = unknown>(key: string): T | undefined {
     if (!this.enabled) return undefined;
-    return this.responseCache.get(key) as T | undefined;
+    const response = this.responseCache.get(key) as T | undefined;
+    this.emitAccess("response", key, response !== undefined);
+    return response;
   }
 
   /**
@@ -116,10 +192,33 @@ export class CacheManager {
     this.responseCache.set(key, response);
   }
 
+  /**
+   * Get a list response, loading it on a miss. A stale response is returned as is
+   * while it is reloaded in the background.
+   */
+  async getList<T>(key: string, load: () => Promise<T>): Promise<T> {
+    if (!this.enabled) return load();
+
+    const entry = this.listCache.get(key);
+    if (!entry) {
+      this.emitAccess("list", key, false);
+      return this.loadList(key, load);
+    }
+
+    const stale = Date.now() >= entry.freshUntil;
+    this.emitAccess("list", key, true, stale);
+    if (stale) {
+      // A failed refresh keeps the stale entry until the window closes
+      this.loadList(key, load).catch(() => undefined);
+    }
+    return entry.value as T;
+  }
+
   /**
    * Invalidate file metadata
    */
   invalidateFile(cid: string): void {
+    this.metadataGeneration++;
     this.fileMetadataCache.delete(cid);
   }
 
@@ -127,6 +226,7 @@ export class CacheManager {
    * Invalidate dataset
    */
   invalidateDataset(datasetId: string): void {
+    this.metadataGeneration++;
     this.datasetCache.delete(datasetId);
   }
 
@@ -137,13 +237,35 @@ export class CacheManager {
     this.responseCache.delete(key);
   }
 
+  /**
+   * Invalidate list responses whose key starts with the prefix. Loads already in
+   * progress are no longer shared, so later reads start a fresh one.
+   */
+  invalidateLists(prefix: string): void {
+    this.listGeneration++;
+    for (const key of this.listCache.keys()) {
+      if (key.startsWith(prefix)) {
+        this.listCache.delete(key);
+      }
+    }
+    for (const key of [...this.listLoads.keys()]) {
+      if (key.startsWith(prefix)) {
+        this.listLoads.delete(key);
+      }
+    }
+  }
+
   /**
    * Clear all caches
    */
   clearAll(): void {
+    this.listGeneration++;
+    this.metadataGeneration++;
+    this.listLoads.clear();
     this.fileMetadataCache.clear();
     this.datasetCache.clear();
     this.responseCache.clear();
+    this.listCache.clear();
   }
 
   /**
@@ -176,9 +298,60 @@ export class CacheManager {
       fileMetadata: this.fileMetadataCache.getStats(),
       datasets: this.datasetCache.getStats(),
       responses: this.responseCache.getStats(),
+      lists: this.listCache.getStats(),
     };
   }
 
+  /**
+   * Load a list response and cache it, sharing one load per key
+   */
+  private loadList<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const pending = this.listLoads.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const generation = this.listGeneration;
+    const promise = load()
+      .then((value) => {
+        if (generation === this.listGeneration) {
+          this.listCache.set(key, { value, freshUntil: Date.now() + this.listTtl });
+        }
+        return value;
+      })
+      .finally(() => {
+        // An invalidation may have replaced this load with a newer one
+        if (this.listLoads.get(key) === promise) {
+          this.listLoads.delete(key);
+        }
+      });
+
+    this.listLoads.set(key, promise);
+    return promise;
+  }
+
+  private isOutdated(generation?: number): boolean {
+    return generation !== undefined && generation !== this.metadataGeneration;
+  }
+
+  private emitAccess(
+    cache: Exclude<CacheType, "content">,
+    key: string,
+    hit: boolean,
+    stale?: boolean,
+  ): void {
+    const stats = {
+      file: this.fileMetadataCache,
+      dataset: this.datasetCache,
+      response: this.responseCache,
+      list: this.listCache,
+    }[cache].getStats();
+
+    const event: CacheAccessEvent = { cache, key, hits: stats.hits, misses: stats.misses };
+    if (stale !== undefined) {
+      event.stale = stale;
+    }
+    this.emit(hit ? "hit" : "miss", event);
+  }
+
   /**
    * Start periodic cleanup of expired entries
    */
@@ -187,8 +360,9 @@ export class CacheManager {
       const fileRemoved = this.fileMetadataCache.cleanup();
       const datasetRemoved = this.datasetCache.cleanup();
       const responseRemoved = this.responseCache.cleanup();
+      const listRemoved = this.listCache.cleanup();
 
-      const total = fileRemoved + datasetRemoved + responseRemoved;
+      const total = fileRemoved + datasetRemoved + responseRemoved + listRemoved;
       if (total > 0) {
         console.debug(`[Cache] Cleaned up ${total} expired entries`);
       }
@@ -209,6 +383,7 @@ export class CacheManager {
       this.cleanupTimer = undefined;
     }
     this.clearAll();
+    this.removeAllListeners();
   }
 
   /**
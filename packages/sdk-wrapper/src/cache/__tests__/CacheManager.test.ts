@@ -51,6 +51,21 @@ describe("CacheManager", () => {
       cacheManager.invalidateFile("QmTest123");
       expect(cacheManager.getFileMetadata("QmTest123")).toBeUndefined();
     });
+
+    it("should not cache metadata fetched before invalidation", () => {
+      const fileInfo: FileInfo = {
+        hash: "QmTest123",
+        name: "test.txt",
+        size: 1024,
+        uploadedAt: new Date(),
+      };
+
+      const generation = cacheManager.getGeneration();
+      cacheManager.invalidateFile("QmTest123");
+      cacheManager.setFileMetadata("QmTest123", fileInfo, generation);
+
+      expect(cacheManager.getFileMetadata("QmTest123")).toBeUndefined();
+    });
   });
 
   describe("Dataset caching", () => {
@@ -86,6 +101,23 @@ describe("CacheManager", () => {
       cacheManager.invalidateDataset("dataset-1");
       expect(cacheManager.getDataset("dataset-1")).toBeUndefined();
     });
+
+    it("should not cache a dataset fetched before invalidation", () => {
+      const dataset: DatasetInfo = {
+        id: "dataset-1",
+        name: "My Dataset",
+        description: "Test dataset",
+        files: [],
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      const generation = cacheManager.getGeneration();
+      cacheManager.invalidateDataset("dataset-1");
+      cacheManager.setDataset("dataset-1", dataset, generation);
+
+      expect(cacheManager.getDataset("dataset-1")).toBeUndefined();
+    });
   });
 
   describe("Response caching", () => {
@@ -109,6 +141,98 @@ describe("CacheManager", () => {
     });
   });
 
+  describe("List caching", () => {
+    let lists: CacheManager;
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      lists = new CacheManager({ listTtl: 1000, staleWhileRevalidate: 5000 });
+    });
+
+    afterEach(() => {
+      lists.destroy();
+      jest.useRealTimers();
+    });
+
+    it("should load a list once while it is fresh", async () => {
+      const load = jest.fn().mockResolvedValue(["a"]);
+
+      expect(await lists.getList("datasets", load)).toEqual(["a"]);
+      expect(await lists.getList("datasets", load)).toEqual(["a"]);
+      expect(load).toHaveBeenCalledTimes(1);
+    });
+
+    it("should serve a stale list while it is refreshed", async () => {
+      const load = jest.fn().mockResolvedValueOnce(["a"]).mockResolvedValueOnce(["a", "b"]);
+      await lists.getList("datasets", load);
+
+      jest.advanceTimersByTime(2000);
+
+      expect(await lists.getList("datasets", load)).toEqual(["a"]);
+      expect(load).toHaveBeenCalledTimes(2);
+      await Promise.resolve();
+      expect(await lists.getList("datasets", load)).toEqual(["a", "b"]);
+    });
+
+    it("should reload a list once the stale window has passed", async () => {
+      const load = jest.fn().mockResolvedValueOnce(["a"]).mockResolvedValueOnce(["b"]);
+      await lists.getList("datasets", load);
+
+      jest.advanceTimersByTime(7000);
+
+      expect(await lists.getList("datasets", load)).toEqual(["b"]);
+    });
+
+    it("should not cache a load that was started before invalidation", async () => {
+      let resolve: (value: string[]) => void = () => undefined;
+      const pending = lists.getList(
+        "datasets:page-1",
+        () => new Promise<string[]>((r) => (resolve = r)),
+      );
+
+      lists.invalidateLists("datasets");
+      resolve(["outdated"]);
+      await pending;
+
+      const load = jest.fn().mockResolvedValue(["current"]);
+      expect(await lists.getList("datasets:page-1", load)).toEqual(["current"]);
+    });
+
+    it("should not share a load that was started before invalidation", async () => {
+      let resolve: (value: string[]) => void = () => undefined;
+      const outdated = lists.getList(
+        "datasets:page-1",
+        () => new Promise<string[]>((r) => (resolve = r)),
+      );
+
+      lists.invalidateLists("datasets");
+      const current = lists.getList("datasets:page-1", async () => ["current"]);
+      resolve(["outdated"]);
+
+      expect(await outdated).toEqual(["outdated"]);
+      expect(await current).toEqual(["current"]);
+      expect(await lists.getList("datasets:page-1", jest.fn())).toEqual(["current"]);
+    });
+
+    it("should emit hits and misses with running counts", async () => {
+      const events: Array<[string, unknown]> = [];
+      lists.on("hit", (event) => events.push(["hit", event]));
+      lists.on("miss", (event) => events.push(["miss", event]));
+      const load = jest.fn().mockResolvedValue([]);
+
+      await lists.getList("datasets", load);
+      await lists.getList("datasets", load);
+      jest.advanceTimersByTime(2000);
+      await lists.getList("datasets", load);
+
+      expect(events).toEqual([
+        ["miss", { cache: "list", key: "datasets", hits: 0, misses: 1 }],
+        ["hit", { cache: "list", key: "datasets", stale: false, hits: 1, misses: 1 }],
+        ["hit", { cache: "list", key: "datasets", stale: true, hits: 2, misses: 1 }],
+      ]);
+    });
+  });
+
   describe("Cache control", () => {
     it("should enable and disable caching", () => {
       const fileInfo: FileInfo = {
@@ -5,4 +5,9 @@
 export { LRUCache } from "./LRUCache";
 export type { CacheOptions } from "./LRUCache";
 export { CacheManager } from "./CacheManager";
-export type { CacheManagerConfig } from "./CacheManager";
+export type {
+  CacheManagerConfig,
+  CacheAccessEvent,
+  CacheErrorEvent,
+  CacheType,
+} from "./CacheManager";
@@ -0,0 +1,267 @@
+/**
+ * UnixFS Importer - Chunks content and builds a balanced UnixFS DAG to compute
+ * the same CIDs as `ipfs add`, without a node or network access
+ */
+
+import * as fs from "fs";
+import {
+  CIDInfo,
+  CIDVersion,
+  CODEC_DAG_PB,
+  CODEC_RAW,
+  encodeCID,
+  encodeVarint,
+  formatCID,
+  isSha256Multihash,
+  parseCID,
+  sha256Multihash,
+} from "./multiformats";
+
+/** Fixed-size chunker default used by IPFS (256KiB) */
+export const DEFAULT_CHUNK_SIZE = 262144;
+
+/** Maximum links per node in the balanced layout used by IPFS */
+export const DEFAULT_MAX_CHILDREN = 174;
+
+/** UnixFS Data.DataType.File */
+const UNIXFS_TYPE_FILE = 2;
+
+export interface UnixFSImporterOptions {
+  /** CIDv0 uses dag-pb leaves; CIDv1 uses raw leaves unless `rawLeaves` is false */
+  cidVersion?: CIDVersion;
+  rawLeaves?: boolean;
+  chunkSize?: number;
+  maxChildren?: number;
+}
+
+export interface UnixFSImportResult {
+  cid: string;
+  /** Content size in bytes */
+  size: number;
+  /** Number of blocks in the DAG */
+  blockCount: number;
+}
+
+interface DagNode {
+  cid: Buffer;
+  /** Bytes of file content below this node */
+  fileSize: number;
+  /** Serialized size of this block plus all blocks below it */
+  totalSize: number;
+}
+
+export class UnixFSImporter {
+  private cidVersion: CIDVersion;
+  private rawLeaves: boolean;
+  private chunkSize: number;
+  private maxChildren: number;
+  private pending: Buffer[] = [];
+  private pendingSize = 0;
+  private leaves: DagNode[] = [];
+  private blockCount = 0;
+
+  constructor(options: UnixFSImporterOptions = {}) {
+    this.cidVersion = options.cidVersion ?? 0;
+    this.rawLeaves = options.rawLeaves ?? this.cidVersion === 1;
+    this.chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    this.maxChildren = options.maxChildren ?? DEFAULT_MAX_CHILDREN;
+
+    if (this.chunkSize <= 0 || this.maxChildren < 2) {
+      throw new Error("Invalid importer options: chunkSize must be positive, maxChildren >= 2");
+    }
+    if (this.rawLeaves && this.cidVersion === 0) {
+      throw new Error("Invalid importer options: CIDv0 cannot have raw leaves");
+    }
+  }
+
+  /**
+   * Importer options for each layout that can produce a CID: a raw CID is a single raw
+   * block, CIDv0 has dag-pb leaves, and a dag-pb CIDv1 may have either kind of leaf.
+   * Returns none when the CID's encoding, codec or hash cannot be recomputed here.
+   */
+  static layoutsFor(cid: string): UnixFSImporterOptions[] {
+    let info: CIDInfo;
+    try {
+      info = parseCID(cid);
+    } catch {
+      return [];
+    }
+    if (!isSha256Multihash(info.hashCode)) {
+      return [];
+    }
+
+    if (info.codec === CODEC_RAW) {
+      return [{ cidVersion: 1, rawLeaves: true }];
+    }
+    if (info.codec !== CODEC_DAG_PB) {
+      return [];
+    }
+    return info.version === 0
+      ? [{ cidVersion: 0 }]
+      : [
+          { cidVersion: 1, rawLeaves: true },
+          { cidVersion: 1, rawLeaves: false },
+        ];
+  }
+
+  /**
+   * Compute the CID of in-memory content
+   */
+  static importBuffer(
+    content: Uint8Array | string,
+    options?: UnixFSImporterOptions,
+  ): UnixFSImportResult {
+    const importer = new UnixFSImporter(options);
+    importer.push(typeof content === "string" ? Buffer.from(content) : content);
+    return importer.finish();
+  }
+
+  /**
+   * Compute the CID of a file, streaming it from disk
+   */
+  static async importFile(
+    filePath: string,
+    options?: UnixFSImporterOptions,
+  ): Promise<UnixFSImportResult> {
+    const importer = new UnixFSImporter(options);
+    for await (const chunk of fs.createReadStream(filePath)) {
+      importer.push(chunk as Buffer);
+    }
+    return importer.finish();
+  }
+
+  /**
+   * Append content, emitting a leaf for every full chunk
+   */
+  push(data: Uint8Array): void {
+    this.pending.push(Buffer.from(data.buffer, data.byteOffset, data.byteLength));
+    this.pendingSize += data.byteLength;
+
+    if (this.pendingSize < this.chunkSize) {
+      return;
+    }
+
+    let buffered = Buffer.concat(this.pending, this.pendingSize);
+    while (buffered.length >= this.chunkSize) {
+      this.leaves.push(this.createLeaf(buffered.subarray(0, this.chunkSize)));
+      buffered = buffered.subarray(this.chunkSize);
+    }
+    this.pending = buffered.length > 0 ? [buffered] : [];
+    this.pendingSize = buffered.length;
+  }
+
+  /**
+   * Flush the final chunk and build the DAG root
+   */
+  finish(): UnixFSImportResult {
+    if (this.pendingSize > 0 || this.leaves.length === 0) {
+      this.leaves.push(this.createLeaf(Buffer.concat(this.pending, this.pendingSize)));
+      this.pending = [];
+      this.pendingSize = 0;
+    }
+
+    let level = this.leaves;
+    while (level.length > 1) {
+      const parents: DagNode[] = [];
+      for (let i = 0; i < level.length; i += this.maxChildren) {
+        parents.push(this.createParent(level.slice(i, i + this.maxChildren)));
+      }
+      level = parents;
+    }
+
+    const root = level[0]!;
+    return {
+      cid: formatCID(this.cidVersion, root.cid),
+      size: root.fileSize,
+      blockCount: this.blockCount,
+    };
+  }
+
+  private createLeaf(chunk: Buffer): DagNode {
+    this.blockCount++;
+
+    if (this.rawLeaves) {
+      return {
+        cid: encodeCID(1, CODEC_RAW, sha256Multihash(chunk)),
+        fileSize: chunk.length,
+        totalSize: chunk.length,
+      };
+    }
+
+    const block = encodePBNode([], encodeUnixFSFile(chunk, chunk.length, []));
+    return {
+      cid: encodeCID(this.cidVersion, CODEC_DAG_PB, sha256Multihash(block)),
+      fileSize: chunk.length,
+      totalSize: block.length,
+    };
+  }
+
+  private createParent(children: DagNode[]): DagNode {
+    this.blockCount++;
+
+    const fileSize = children.reduce((sum, child) => sum + child.fileSize, 0);
+    const data = encodeUnixFSFile(
+      undefined,
+      fileSize,
+      children.map((child) => child.fileSize),
+    );
+    const block = encodePBNode(children, data);
+
+    return {
+      cid: encodeCID(this.cidVersion, CODEC_DAG_PB, sha256Multihash(block)),
+      fileSize,
+      totalSize: block.length + children.reduce((sum, child) => sum + child.totalSize, 0),
+    };
+  }
+}
+
+/**
+ * Protobuf varint field (wire type 0)
+ */
+function varintField(fieldNumber: number, value: number): Buffer {
+  return Buffer.concat([encodeVarint(fieldNumber << 3), encodeVarint(value)]);
+}
+
+/**
+ * Protobuf length-delimited field (wire type 2)
+ */
+function bytesField(fieldNumber: number, bytes: Uint8Array): Buffer {
+  return Buffer.concat([encodeVarint((fieldNumber << 3) | 2), encodeVarint(bytes.length), bytes]);
+}
+
+/**
+ * UnixFS Data message for a file node: Type, Data, filesize, blocksizes
+ */
+function encodeUnixFSFile(
+  content: Buffer | undefined,
+  fileSize: number,
+  blockSizes: number[],
+): Buffer {
+  const fields = [varintField(1, UNIXFS_TYPE_FILE)];
+  if (content && content.length > 0) {
+    fields.push(bytesField(2, content));
+  }
+  fields.push(varintField(3, fileSize));
+  for (const blockSize of blockSizes) {
+    fields.push(varintField(4, blockSize));
+  }
+  return Buffer.concat(fields);
+}
+
+/**
+ * dag-pb PBNode in canonical order: Links (Hash, Name, Tsize) before Data
+ */
+function encodePBNode(links: DagNode[], data: Buffer): Buffer {
+  const fields = links.map((link) =>
+    bytesField(
+      2,
+      Buffer.concat([
+        bytesField(1, link.cid),
+        bytesField(2, Buffer.alloc(0)),
+        varintField(3, link.totalSize),
+      ]),
+    ),
+  );
+  fields.push(bytesField(1, data));
+  return Buffer.concat(fields);
+}
@@ -0,0 +1,116 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { UnixFSImporter, DEFAULT_CHUNK_SIZE } from "../UnixFSImporter";
+import { CODEC_DAG_PB, CODEC_RAW, getCIDVersion, parseCID } from "../multiformats";
+
+describe("UnixFSImporter", () => {
+  it("should match CIDv0 produced by ipfs add", () => {
+    expect(UnixFSImporter.importBuffer("").cid).toBe(
+      "QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH",
+    );
+    expect(UnixFSImporter.importBuffer("hello world").cid).toBe(
+      "Qmf412jQZiuVUtdgnB36FXFX7xg5V6KEbSJ4dpQuhkLyfD",
+    );
+    expect(UnixFSImporter.importBuffer("hello world\n").cid).toBe(
+      "QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o",
+    );
+  });
+
+  it("should match CIDv1 raw leaves produced by ipfs add --cid-version 1", () => {
+    expect(UnixFSImporter.importBuffer("", { cidVersion: 1 }).cid).toBe(
+      "bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku",
+    );
+    expect(UnixFSImporter.importBuffer("hello world", { cidVersion: 1 }).cid).toBe(
+      "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e",
+    );
+  });
+
+  it("should match CIDv1 dag-pb leaves produced by ipfs add --raw-leaves=false", () => {
+    // The CIDv1 form of Qmf412jQZiuVUtdgnB36FXFX7xg5V6KEbSJ4dpQuhkLyfD
+    expect(
+      UnixFSImporter.importBuffer("hello world", { cidVersion: 1, rawLeaves: false }).cid,
+    ).toBe("bafybeihykld7uyxzogax6vgyvag42y7464eywpf55gxi5qpoisibh3c5wa");
+    expect(() => new UnixFSImporter({ cidVersion: 0, rawLeaves: true })).toThrow(
+      "CIDv0 cannot have raw leaves",
+    );
+  });
+
+  it("should choose the layouts to try from the CID's codec", () => {
+    expect(UnixFSImporter.layoutsFor("QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o")).toEqual([
+      { cidVersion: 0 },
+    ]);
+    expect(
+      UnixFSImporter.layoutsFor("bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e"),
+    ).toEqual([{ cidVersion: 1, rawLeaves: true }]);
+    expect(
+      UnixFSImporter.layoutsFor("bafybeihykld7uyxzogax6vgyvag42y7464eywpf55gxi5qpoisibh3c5wa"),
+    ).toHaveLength(2);
+    expect(UnixFSImporter.layoutsFor("test_cid")).toEqual([]);
+  });
+
+  it("should build a dag-pb root for multi-chunk content", () => {
+    const content = Buffer.alloc(DEFAULT_CHUNK_SIZE * 2 + 1, 7);
+
+    const v0 = UnixFSImporter.importBuffer(content);
+    const v1 = UnixFSImporter.importBuffer(content, { cidVersion: 1 });
+
+    expect(v0.blockCount).toBe(4);
+    expect(v0.size).toBe(content.length);
+    expect(v0.cid).toMatch(/^Qm[1-9A-HJ-NP-Za-km-z]{44}$/);
+    expect(v1.cid).toMatch(/^bafybei/);
+  });
+
+  it("should add intermediate levels beyond the maximum link count", () => {
+    const result = UnixFSImporter.importBuffer(Buffer.alloc(10), {
+      chunkSize: 1,
+      maxChildren: 3,
+    });
+
+    // 10 leaves -> 4 parents -> 2 parents -> root
+    expect(result.blockCount).toBe(17);
+  });
+
+  it("should not depend on how content is pushed", () => {
+    const content = Buffer.from("x".repeat(1000));
+    const importer = new UnixFSImporter({ chunkSize: 64 });
+    for (let i = 0; i < content.length; i += 37) {
+      importer.push(content.subarray(i, i + 37));
+    }
+
+    expect(importer.finish().cid).toBe(UnixFSImporter.importBuffer(content, { chunkSize: 64 }).cid);
+  });
+
+  it("should stream files from disk", async () => {
+    const dir = await fs.mkdtemp(join(tmpdir(), "unixfs-"));
+    const filePath = join(dir, "large.txt");
+    const content = "abcdef".repeat(100000);
+    await fs.writeFile(filePath, content);
+
+    try {
+      const result = await UnixFSImporter.importFile(filePath, { cidVersion: 1 });
+      expect(result.cid).toBe(UnixFSImporter.importBuffer(content, { cidVersion: 1 }).cid);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should infer the CID version from its encoding", () => {
+    expect(getCIDVersion("QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o")).toBe(0);
+    expect(getCIDVersion("bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e")).toBe(1);
+    expect(() => getCIDVersion("test_cid")).toThrow("Invalid CID");
+  });
+
+  it("should read the codec and hash function from a CID", () => {
+    expect(parseCID("QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o")).toEqual({
+      version: 0,
+      codec: CODEC_DAG_PB,
+      hashCode: 0x12,
+    });
+    expect(parseCID("bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e")).toEqual({
+      version: 1,
+      codec: CODEC_RAW,
+      hashCode: 0x12,
+    });
+  });
+});
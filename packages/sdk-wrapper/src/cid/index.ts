@@ -0,0 +1,22 @@
+/**
+ * Content addressing module exports
+ */
+
+export { UnixFSImporter, DEFAULT_CHUNK_SIZE, DEFAULT_MAX_CHILDREN } from "./UnixFSImporter";
+export type { UnixFSImporterOptions, UnixFSImportResult } from "./UnixFSImporter";
+export {
+  CODEC_RAW,
+  CODEC_DAG_PB,
+  encodeVarint,
+  decodeVarint,
+  encodeBase58btc,
+  encodeBase32,
+  decodeBase32,
+  sha256Multihash,
+  encodeCID,
+  formatCID,
+  getCIDVersion,
+  parseCID,
+  isSha256Multihash,
+} from "./multiformats";
+export type { CIDVersion, CIDInfo } from "./multiformats";
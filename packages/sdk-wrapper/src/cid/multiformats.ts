@@ -0,0 +1,214 @@
+/**
+ * Multiformats - Varint, multibase, multihash and CID encoding used to build IPFS CIDs offline
+ */
+
+import * as crypto from "crypto";
+
+/** Multicodec code for raw binary blocks */
+export const CODEC_RAW = 0x55;
+
+/** Multicodec code for dag-pb (MerkleDAG protobuf) blocks */
+export const CODEC_DAG_PB = 0x70;
+
+const SHA2_256_CODE = 0x12;
+const SHA2_256_LENGTH = 32;
+
+const BASE58BTC_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+/** Multibase prefix for lowercase, unpadded base32 */
+const BASE32_PREFIX = "b";
+
+export type CIDVersion = 0 | 1;
+
+/**
+ * The parts of a CID that decide how its content was hashed
+ */
+export interface CIDInfo {
+  version: CIDVersion;
+  /** Multicodec of the root block */
+  codec: number;
+  /** Multihash function code */
+  hashCode: number;
+}
+
+/**
+ * Encode an unsigned integer as an unsigned LEB128 varint
+ */
+export function encodeVarint(value: number): Buffer {
+  const bytes: number[] = [];
+  let remaining = value;
+
+  while (remaining >= 0x80) {
+    bytes.push(remaining % 0x80 | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  bytes.push(remaining);
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decode an unsigned LEB128 varint, returning its value and the offset after it
+ */
+export function decodeVarint(bytes: Uint8Array, offset = 0): [number, number] {
+  let value = 0;
+  let multiplier = 1;
+
+  for (let i = offset; i < bytes.length; i++) {
+    const byte = bytes[i]!;
+    value += (byte & 0x7f) * multiplier;
+    if ((byte & 0x80) === 0) {
+      return [value, i + 1];
+    }
+    multiplier *= 0x80;
+  }
+
+  throw new Error("Invalid varint: unexpected end of input");
+}
+
+/**
+ * Encode bytes as base58btc (Bitcoin alphabet)
+ */
+export function encodeBase58btc(bytes: Uint8Array): string {
+  let leadingZeros = 0;
+  while (leadingZeros < bytes.length && bytes[leadingZeros] === 0) {
+    leadingZeros++;
+  }
+
+  // Little-endian base58 digits
+  const digits: number[] = [];
+  for (let i = leadingZeros; i < bytes.length; i++) {
+    let carry = bytes[i]!;
+    for (let j = 0; j < digits.length; j++) {
+      carry += digits[j]! * 256;
+      digits[j] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+
+  let result = "1".repeat(leadingZeros);
+  for (let i = digits.length - 1; i >= 0; i--) {
+    result += BASE58BTC_ALPHABET[digits[i]!];
+  }
+  return result;
+}
+
+/**
+ * Encode bytes as RFC 4648 base32 (lowercase, no padding)
+ */
+export function encodeBase32(bytes: Uint8Array): string {
+  let result = "";
+  let buffer = 0;
+  let bits = 0;
+
+  for (const byte of bytes) {
+    buffer = ((buffer << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      result += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 0x1f];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    result += BASE32_ALPHABET[(buffer << (5 - bits)) & 0x1f];
+  }
+
+  return result;
+}
+
+/**
+ * Decode RFC 4648 base32 (lowercase, no padding)
+ */
+export function decodeBase32(text: string): Buffer {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of text) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    buffer = ((buffer << 5) | index) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Hash bytes with SHA2-256 and wrap the digest as a multihash
+ */
+export function sha256Multihash(bytes: Uint8Array): Buffer {
+  const digest = crypto.createHash("sha256").update(bytes).digest();
+  return Buffer.concat([Buffer.from([SHA2_256_CODE, SHA2_256_LENGTH]), digest]);
+}
+
+/**
+ * Binary CID for a block. CIDv0 is the bare multihash and implies dag-pb.
+ */
+export function encodeCID(version: CIDVersion, codec: number, multihash: Buffer): Buffer {
+  if (version === 0) {
+    if (codec !== CODEC_DAG_PB) {
+      throw new Error("Invalid CID: CIDv0 only supports dag-pb");
+    }
+    return multihash;
+  }
+
+  return Buffer.concat([encodeVarint(1), encodeVarint(codec), multihash]);
+}
+
+/**
+ * String form of a binary CID: base58btc for CIDv0, multibase base32 for CIDv1
+ */
+export function formatCID(version: CIDVersion, cid: Buffer): string {
+  return version === 0 ? encodeBase58btc(cid) : BASE32_PREFIX + encodeBase32(cid);
+}
+
+/**
+ * CID version implied by the string encoding of a CID
+ */
+export function getCIDVersion(cid: string): CIDVersion {
+  if (/^Qm[1-9A-HJ-NP-Za-km-z]{44}$/.test(cid)) {
+    return 0;
+  }
+  if (/^b[a-z2-7]+$/.test(cid)) {
+    return 1;
+  }
+  throw new Error(`Invalid CID: unsupported encoding for ${cid}`);
+}
+
+/**
+ * Version, codec and hash function of a CID string. CIDv0 is always dag-pb and SHA2-256.
+ */
+export function parseCID(cid: string): CIDInfo {
+  if (getCIDVersion(cid) === 0) {
+    return { version: 0, codec: CODEC_DAG_PB, hashCode: SHA2_256_CODE };
+  }
+
+  const bytes = decodeBase32(cid.slice(BASE32_PREFIX.length));
+  const [version, codecOffset] = decodeVarint(bytes);
+  if (version !== 1) {
+    throw new Error(`Invalid CID: unsupported version ${version}`);
+  }
+  const [codec, hashOffset] = decodeVarint(bytes, codecOffset);
+  const [hashCode] = decodeVarint(bytes, hashOffset);
+
+  return { version: 1, codec, hashCode };
+}
+
+/**
+ * Whether a multihash function is the one the importer hashes blocks with
+ */
+export function isSha256Multihash(hashCode: number): boolean {
+  return hashCode === SHA2_256_CODE;
+}
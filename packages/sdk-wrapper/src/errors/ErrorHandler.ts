@@ -1,4 +1,5 @@
 import { EventEmitter } from "eventemitter3";
+import { Tracer } from "@lighthouse-tooling/shared";
 import {
   LighthouseError,
   NetworkError,
@@ -10,6 +11,7 @@ import {
   InsufficientStorageError,
 } from "./errors";
 import { RetryPolicy, ErrorMetrics } from "./types";
+import { parseRetryAfter } from "../utils/RateLimiter";
 
 /**
  * Intelligent error classification and handling system
@@ -50,7 +52,7 @@ export class ErrorHandler extends EventEmitter {
     }
 
     const message = error.message || "Unknown error";
-    const statusCode = error.status || error.statusCode;
+    const statusCode = error.status || error.statusCode || error.response?.status;
 
     // Timeout errors (check before network errors since timeouts can have network-like codes)
     if (this.isTimeoutError(error)) {
@@ -139,15 +141,23 @@ export class ErrorHandler extends EventEmitter {
     customPolicy?: Partial<RetryPolicy>,
   ): Promise<T> {
     const policy = { ...this.defaultRetryPolicy, ...customPolicy };
+    const tracer = Tracer.getInstance();
     let lastError: LighthouseError | undefined;
 
     for (let attempt = 0; attempt <= policy.maxRetries; attempt++) {
       try {
-        // Apply timeout if specified
-        if (policy.timeout) {
-          return await this.withTimeout(operation(), policy.timeout);
-        }
-        return await operation();
+        // Each attempt gets its own span so retries and their causes are visible in the trace
+        return await tracer.startActiveSpan(
+          `${context} attempt`,
+          { attributes: { "retry.attempt": attempt, "retry.max_retries": policy.maxRetries } },
+          () => {
+            // Apply timeout if specified
+            if (policy.timeout) {
+              return this.withTimeout(operation(), policy.timeout);
+            }
+            return operation();
+          },
+        );
       } catch (error) {
         lastError = this.classifyError(error, context);
         this.recordError(lastError);
@@ -157,12 +167,22 @@ export class ErrorHandler extends EventEmitter {
           break;
         }
 
+        // Wait as long as the server asks; give up if that is longer than we would back off
+        const retryAfter = lastError instanceof RateLimitError ? lastError.retryAfter : undefined;
+        if (retryAfter !== undefined && retryAfter > policy.maxDelay) {
+          break;
+        }
+
         this.metrics.retryAttempts++;
         this.emit("retry", { attempt, error: lastError, context });
 
         // Calculate delay with exponential backoff and jitter
-        const delay = this.calculateDelay(attempt, policy);
-        await this.sleep(delay);
+        const delay = retryAfter ?? this.calculateDelay(attempt, policy);
+        await tracer.startActiveSpan(
+          "retry.backoff",
+          { attributes: { "retry.attempt": attempt, "retry.delay_ms": delay } },
+          () => this.sleep(delay),
+        );
       }
     }
 
@@ -239,11 +259,14 @@ export class ErrorHandler extends EventEmitter {
   }
 
   /**
-   * Extract retry-after header value
+   * Extract retry-after header value, in seconds or as an HTTP date
    */
   private extractRetryAfter(error: unknown): number | undefined {
-    const retryAfter = (error as any).headers?.["retry-after"] || (error as any).retryAfter;
-    return retryAfter ? parseInt(retryAfter, 10) * 1000 : undefined;
+    const retryAfter =
+      (error as any).headers?.["retry-after"] ||
+      (error as any).response?.headers?.["retry-after"] ||
+      (error as any).retryAfter;
+    return parseRetryAfter(retryAfter);
   }
 
   /**
@@ -127,3 +127,41 @@ export class InsufficientStorageError extends LighthouseError {
     super(message, "INSUFFICIENT_STORAGE", false, 507, originalError);
   }
 }
+
+/**
+ * Content integrity errors when downloaded data does not hash to the requested CID.
+ *
+ * Not retryable: the gateway served different content for the CID, so the
+ * download is discarded rather than trusted.
+ */
+export class CIDMismatchError extends LighthouseError {
+  public readonly expectedCid: string;
+  public readonly actualCid: string;
+
+  constructor(expectedCid: string, actualCid: string) {
+    super(
+      `Content integrity check failed: expected CID ${expectedCid}, computed ${actualCid}`,
+      "CID_MISMATCH",
+      false,
+    );
+    this.expectedCid = expectedCid;
+    this.actualCid = actualCid;
+  }
+}
+
+/**
+ * Content integrity errors when a CID's encoding, codec or hash function cannot be
+ * recomputed locally, so the content can be neither confirmed nor rejected.
+ */
+export class UnverifiableCIDError extends LighthouseError {
+  public readonly cid: string;
+
+  constructor(cid: string) {
+    super(
+      `Content integrity check unavailable: cannot recompute CID ${cid}`,
+      "CID_UNVERIFIABLE",
+      false,
+    );
+    this.cid = cid;
+  }
+}
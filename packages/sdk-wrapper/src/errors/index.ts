@@ -13,5 +13,7 @@ export {
   ValidationError,
   FileNotFoundError,
   InsufficientStorageError,
+  CIDMismatchError,
+  UnverifiableCIDError,
 } from "./errors";
 export type { RetryPolicy, ErrorMetrics, CircuitBreakerConfig } from "./types";
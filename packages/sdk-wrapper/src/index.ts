@@ -27,6 +27,8 @@ export {
   ValidationError,
   FileNotFoundError,
   InsufficientStorageError,
+  CIDMismatchError,
+  UnverifiableCIDError,
 } from "./errors";
 
 // Types and interfaces
@@ -36,6 +38,8 @@ export type {
   UploadOptions,
   DownloadOptions,
   ProgressInfo,
+  ChunkProgress,
+  ChunkedUploadConfig,
   FileInfo,
   ListFilesResponse,
   DatasetOptions,
@@ -70,14 +74,46 @@ export type { RetryPolicy, ErrorMetrics, CircuitBreakerConfig } from "./errors/t
 
 // Performance and caching modules
 export { LRUCache, CacheManager } from "./cache";
-export type { CacheManagerConfig, CacheOptions } from "./cache";
+export type {
+  CacheManagerConfig,
+  CacheAccessEvent,
+  CacheErrorEvent,
+  CacheType,
+  CacheOptions,
+} from "./cache";
 export { ConnectionPool } from "./pool";
 export type { ConnectionPoolConfig } from "./pool";
 export { BatchProcessor } from "./batch";
 export type { BatchOptions, BatchOperation, BatchResult, BatchStats } from "./batch";
 export { MemoryManager } from "./memory";
+export {
+  ChunkedUploader,
+  HttpChunkTransport,
+  UploadSessionStore,
+  DEFAULT_CHUNK_SIZE,
+} from "./upload";
+export type {
+  ChunkTransport,
+  ChunkedUploadResult,
+  ChunkedUploadOptions,
+  ConnectionStatusSource,
+  UploadChunk,
+  UploadSession,
+} from "./upload";
 export type { MemoryManagerConfig, MemoryStats } from "./memory";
 
+// Content addressing (offline CID computation)
+export { UnixFSImporter, getCIDVersion } from "./cid";
+export type { UnixFSImporterOptions, UnixFSImportResult, CIDVersion } from "./cid";
+
+// Portable dataset manifests
+export { DatasetManifest, MANIFEST_KIND, MANIFEST_VERSION } from "./manifest";
+export type { DatasetManifestDocument, DatasetManifestFile, ManifestFormat } from "./manifest";
+
+// Adaptive rate limiting
+export { RateLimiter, parseRetryAfter } from "./utils/RateLimiter";
+export type { RateLimitState } from "./utils/RateLimiter";
+
 // Utility functions
 export {
   generateOperationId,
@@ -0,0 +1,359 @@
+/**
+ * Portable dataset manifests.
+ *
+ * A manifest describes a dataset by reference: file CIDs, sizes, hashes, encryption flags,
+ * access conditions and metadata. Importing one rebuilds the dataset record without
+ * uploading anything, so manifests can be handed between teams or checked into git.
+ */
+
+import { AccessCondition, Dataset, DatasetMetadata } from "@lighthouse-tooling/types";
+import { ValidationError } from "../errors";
+import { getCIDVersion } from "../cid";
+
+export const MANIFEST_KIND = "lighthouse-dataset-manifest";
+export const MANIFEST_VERSION = 1;
+
+export type ManifestFormat = "json" | "csv";
+
+/**
+ * A file entry in a dataset manifest
+ */
+export interface DatasetManifestFile {
+  /** Content identifier */
+  cid: string;
+  /** Size in bytes */
+  size: number;
+  /** Content hash recorded at upload */
+  hash?: string;
+  /** Whether the stored content is encrypted */
+  encrypted: boolean;
+  /** Original path of the file when it was added */
+  path?: string;
+  /** Upload timestamp (ISO 8601) */
+  uploadedAt: string;
+  /** Tags attached to the file */
+  tags?: string[];
+  /** Access conditions of the file */
+  accessConditions?: AccessCondition[];
+}
+
+/**
+ * Self-describing dataset manifest
+ */
+export interface DatasetManifestDocument {
+  kind: typeof MANIFEST_KIND;
+  manifestVersion: number;
+  /** Export timestamp (ISO 8601) */
+  exportedAt: string;
+  dataset: {
+    id: string;
+    name: string;
+    description: string;
+    version: string;
+    encrypted: boolean;
+    createdAt: string;
+    updatedAt: string;
+    accessConditions?: AccessCondition[];
+    metadata: DatasetMetadata;
+  };
+  files: DatasetManifestFile[];
+}
+
+const CSV_COLUMNS = [
+  "cid",
+  "size",
+  "hash",
+  "encrypted",
+  "path",
+  "uploadedAt",
+  "tags",
+  "accessConditions",
+] as const;
+
+export class DatasetManifest {
+  /**
+   * Describe a dataset as a manifest document
+   */
+  static fromDataset(dataset: Dataset, exportedAt: Date = new Date()): DatasetManifestDocument {
+    return {
+      kind: MANIFEST_KIND,
+      manifestVersion: MANIFEST_VERSION,
+      exportedAt: exportedAt.toISOString(),
+      dataset: {
+        id: dataset.id,
+        name: dataset.name,
+        description: dataset.description,
+        version: dataset.version,
+        encrypted: dataset.encrypted,
+        createdAt: new Date(dataset.createdAt).toISOString(),
+        updatedAt: new Date(dataset.updatedAt).toISOString(),
+        accessConditions: dataset.accessConditions,
+        metadata: dataset.metadata,
+      },
+      files: dataset.files.map((file) => ({
+        cid: file.cid,
+        size: file.size,
+        hash: file.hash,
+        encrypted: file.encrypted,
+        path: file.originalPath || undefined,
+        uploadedAt: new Date(file.uploadedAt).toISOString(),
+        tags: file.tags,
+        accessConditions: file.accessConditions,
+      })),
+    };
+  }
+
+  /**
+   * Rebuild the dataset record described by a manifest
+   */
+  static toDataset(manifest: DatasetManifestDocument): Dataset {
+    const { dataset } = manifest;
+    return {
+      id: dataset.id,
+      name: dataset.name,
+      description: dataset.description,
+      files: manifest.files.map((file) => ({
+        cid: file.cid,
+        size: file.size,
+        encrypted: file.encrypted,
+        accessConditions: file.accessConditions,
+        tags: file.tags,
+        uploadedAt: new Date(file.uploadedAt),
+        originalPath: file.path,
+        hash: file.hash,
+      })),
+      metadata: dataset.metadata,
+      version: dataset.version,
+      createdAt: new Date(dataset.createdAt),
+      updatedAt: new Date(dataset.updatedAt),
+      encrypted: dataset.encrypted,
+      accessConditions: dataset.accessConditions,
+    };
+  }
+
+  /**
+   * Serialize a dataset as a JSON or CSV manifest
+   */
+  static serialize(dataset: Dataset, format: ManifestFormat = "json"): string {
+    const manifest = DatasetManifest.fromDataset(dataset);
+    return format === "csv"
+      ? DatasetManifest.toCSV(manifest)
+      : JSON.stringify(manifest, null, 2) + "\n";
+  }
+
+  /**
+   * Parse and validate a JSON or CSV manifest. The format is detected from the content.
+   */
+  static parse(content: string): DatasetManifestDocument {
+    const trimmed = content.trimStart();
+    let manifest: unknown;
+
+    if (trimmed.startsWith("{")) {
+      try {
+        manifest = JSON.parse(trimmed);
+      } catch (error) {
+        throw new ValidationError("Invalid manifest: malformed JSON", error as Error);
+      }
+    } else {
+      manifest = DatasetManifest.fromCSV(trimmed);
+    }
+
+    return DatasetManifest.validate(manifest);
+  }
+
+  /**
+   * Format implied by a manifest file name
+   */
+  static formatForPath(filePath: string): ManifestFormat {
+    return filePath.toLowerCase().endsWith(".csv") ? "csv" : "json";
+  }
+
+  /**
+   * CSV manifest: dataset fields in leading "# key: value" lines, then one row per file
+   */
+  private static toCSV(manifest: DatasetManifestDocument): string {
+    const lines = [
+      `# ${MANIFEST_KIND}: ${manifest.manifestVersion}`,
+      `# exportedAt: ${manifest.exportedAt}`,
+      `# dataset: ${JSON.stringify(manifest.dataset)}`,
+      CSV_COLUMNS.join(","),
+    ];
+
+    for (const file of manifest.files) {
+      const row = [
+        file.cid,
+        String(file.size),
+        file.hash ?? "",
+        String(file.encrypted),
+        file.path ?? "",
+        file.uploadedAt,
+        file.tags ? JSON.stringify(file.tags) : "",
+        file.accessConditions ? JSON.stringify(file.accessConditions) : "",
+      ];
+      lines.push(row.map(escapeCSV).join(","));
+    }
+
+    return lines.join("\n") + "\n";
+  }
+
+  private static fromCSV(content: string): unknown {
+    const directives: Record<string, string> = {};
+    let body = content;
+
+    while (body.startsWith("#")) {
+      const end = body.indexOf("\n");
+      const line = (end === -1 ? body : body.slice(0, end)).replace(/\r$/, "");
+      const separator = line.indexOf(":");
+      if (separator !== -1) {
+        directives[line.slice(1, separator).trim()] = line.slice(separator + 1).trim();
+      }
+      body = end === -1 ? "" : body.slice(end + 1);
+    }
+
+    if (directives[MANIFEST_KIND] === undefined) {
+      throw new ValidationError(`Invalid manifest: missing "# ${MANIFEST_KIND}" header`);
+    }
+
+    let dataset: unknown;
+    try {
+      dataset = JSON.parse(directives.dataset ?? "");
+    } catch (error) {
+      throw new ValidationError("Invalid manifest: malformed dataset header", error as Error);
+    }
+
+    const [header, ...rows] = parseCSV(body);
+    if (!header || header.join(",") !== CSV_COLUMNS.join(",")) {
+      throw new ValidationError(`Invalid manifest: expected columns ${CSV_COLUMNS.join(",")}`);
+    }
+
+    const files = rows.map((row, index) => {
+      const field = (name: (typeof CSV_COLUMNS)[number]) => row[CSV_COLUMNS.indexOf(name)] ?? "";
+      try {
+        return {
+          cid: field("cid"),
+          size: Number(field("size")),
+          hash: field("hash") || undefined,
+          encrypted: field("encrypted") === "true",
+          path: field("path") || undefined,
+          uploadedAt: field("uploadedAt"),
+          tags: field("tags") ? JSON.parse(field("tags")) : undefined,
+          accessConditions: field("accessConditions")
+            ? JSON.parse(field("accessConditions"))
+            : undefined,
+        };
+      } catch (error) {
+        throw new ValidationError(`Invalid manifest: malformed row ${index + 1}`, error as Error);
+      }
+    });
+
+    return {
+      kind: MANIFEST_KIND,
+      manifestVersion: Number(directives[MANIFEST_KIND]),
+      exportedAt: directives.exportedAt,
+      dataset,
+      files,
+    };
+  }
+
+  private static validate(value: unknown): DatasetManifestDocument {
+    const manifest = value as DatasetManifestDocument;
+
+    if (!manifest || typeof manifest !== "object" || manifest.kind !== MANIFEST_KIND) {
+      throw new ValidationError(`Invalid manifest: kind must be "${MANIFEST_KIND}"`);
+    }
+    if (
+      !Number.isInteger(manifest.manifestVersion) ||
+      manifest.manifestVersion < 1 ||
+      manifest.manifestVersion > MANIFEST_VERSION
+    ) {
+      throw new ValidationError(
+        `Invalid manifest: unsupported manifestVersion ${manifest.manifestVersion}`,
+      );
+    }
+
+    const dataset = manifest.dataset;
+    if (!dataset || typeof dataset.id !== "string" || !dataset.id) {
+      throw new ValidationError("Invalid manifest: dataset.id is required");
+    }
+    if (typeof dataset.name !== "string" || !dataset.name) {
+      throw new ValidationError("Invalid manifest: dataset.name is required");
+    }
+    if (!Array.isArray(manifest.files)) {
+      throw new ValidationError("Invalid manifest: files must be an array");
+    }
+
+    manifest.files.forEach((file, index) => {
+      try {
+        getCIDVersion(file.cid);
+      } catch {
+        throw new ValidationError(`Invalid manifest: files[${index}] has an invalid CID`);
+      }
+      if (!Number.isFinite(file.size) || file.size < 0) {
+        throw new ValidationError(`Invalid manifest: files[${index}] has an invalid size`);
+      }
+      if (Number.isNaN(new Date(file.uploadedAt).getTime())) {
+        throw new ValidationError(`Invalid manifest: files[${index}] has an invalid uploadedAt`);
+      }
+    });
+
+    return {
+      ...manifest,
+      dataset: {
+        ...dataset,
+        description: dataset.description ?? "",
+        version: dataset.version ?? "1.0.0",
+        encrypted: dataset.encrypted ?? false,
+        metadata: dataset.metadata ?? {},
+      },
+    };
+  }
+}
+
+function escapeCSV(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Parse RFC 4180 CSV, including quoted fields that contain commas, quotes or newlines
+ */
+function parseCSV(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.length > 1 || r[0] !== "");
+}
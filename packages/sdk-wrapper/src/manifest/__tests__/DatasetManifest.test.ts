@@ -0,0 +1,97 @@
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AccessConditionType, Dataset } from "@lighthouse-tooling/types";
+import { DatasetManifest } from "../DatasetManifest";
+import { LighthouseAISDK } from "../../LighthouseAISDK";
+import { ValidationError } from "../../errors";
+
+function createDataset(): Dataset {
+  return {
+    id: "dataset_1",
+    name: "Training Data",
+    description: "Images, labels",
+    files: [
+      {
+        cid: "QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o",
+        size: 12,
+        encrypted: false,
+        uploadedAt: new Date("2024-01-01T00:00:00.000Z"),
+        originalPath: '/data/labels "v1", final.csv',
+        hash: "a948904f2f0f479b8f8197694b30184b0d2ed1c1cd2a1ec0fb85d299a192a447",
+        tags: ["labels"],
+      },
+      {
+        cid: "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e",
+        size: 11,
+        encrypted: true,
+        uploadedAt: new Date("2024-01-02T00:00:00.000Z"),
+        accessConditions: [
+          { type: AccessConditionType.TOKEN_BALANCE, condition: "balance", value: "100" },
+        ],
+      },
+    ],
+    metadata: { author: "ML Team", license: "MIT", keywords: ["vision"] },
+    version: "1.2.0",
+    createdAt: new Date("2024-01-01T00:00:00.000Z"),
+    updatedAt: new Date("2024-01-02T00:00:00.000Z"),
+    encrypted: false,
+  };
+}
+
+describe("DatasetManifest", () => {
+  it.each(["json", "csv"] as const)("should round-trip a dataset through %s", (format) => {
+    const dataset = createDataset();
+
+    const content = DatasetManifest.serialize(dataset, format);
+    const imported = DatasetManifest.toDataset(DatasetManifest.parse(content));
+
+    expect(imported).toEqual({
+      ...dataset,
+      files: [dataset.files[0], { ...dataset.files[1], originalPath: undefined }],
+    });
+  });
+
+  it("should write CSV with the dataset in header lines", () => {
+    const content = DatasetManifest.serialize(createDataset(), "csv");
+    const lines = content.split("\n");
+
+    expect(lines[0]).toBe("# lighthouse-dataset-manifest: 1");
+    expect(lines[3]).toBe("cid,size,hash,encrypted,path,uploadedAt,tags,accessConditions");
+    expect(lines[4]).toContain('"/data/labels ""v1"", final.csv"');
+  });
+
+  it("should reject manifests with invalid CIDs", () => {
+    const manifest = DatasetManifest.fromDataset(createDataset());
+    manifest.files[0]!.cid = "not-a-cid";
+
+    expect(() => DatasetManifest.parse(JSON.stringify(manifest))).toThrow(ValidationError);
+    expect(() => DatasetManifest.parse(JSON.stringify(manifest))).toThrow(
+      "files[0] has an invalid CID",
+    );
+  });
+
+  it("should reject content that is not a manifest", () => {
+    expect(() => DatasetManifest.parse('{"name":"x"}')).toThrow("kind must be");
+    expect(() => DatasetManifest.parse("cid,size\nQm,1\n")).toThrow("missing");
+  });
+
+  it("should export and import manifest files through the SDK", async () => {
+    const sdk = new LighthouseAISDK({ apiKey: "test-key" });
+    const dir = await fs.mkdtemp(join(tmpdir(), "manifest-"));
+    const outputPath = join(dir, "nested", "training.csv");
+
+    try {
+      await sdk.exportDatasetManifest(createDataset(), { outputPath });
+      const imported = await sdk.importDatasetManifest(outputPath);
+
+      expect((await fs.readFile(outputPath, "utf-8")).startsWith("# lighthouse")).toBe(true);
+      expect(imported.files.map((file) => file.cid)).toEqual(
+        createDataset().files.map((file) => file.cid),
+      );
+    } finally {
+      sdk.destroy();
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,10 @@
+/**
+ * Dataset manifest module exports
+ */
+
+export { DatasetManifest, MANIFEST_KIND, MANIFEST_VERSION } from "./DatasetManifest";
+export type {
+  DatasetManifestDocument,
+  DatasetManifestFile,
+  ManifestFormat,
+} from "./DatasetManifest";
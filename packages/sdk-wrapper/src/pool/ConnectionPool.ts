@@ -5,8 +5,9 @@
  * of creating new connections for each request
  */
 
-import axios, { AxiosInstance, AxiosRequestConfig } from "axios";
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
 import { EventEmitter } from "eventemitter3";
+import { SpanKind, SpanStatusCode, Tracer } from "@lighthouse-tooling/shared";
 
 export interface ConnectionPoolConfig {
   /** Maximum number of concurrent connections */
@@ -180,14 +181,45 @@ export class ConnectionPool extends EventEmitter {
    * Execute a request using a pooled connection
    */
   async execute<T = unknown>(config: AxiosRequestConfig): Promise<T> {
-    const instance = await this.acquire();
+    const response = await this.request<T>(config);
+    return response.data;
+  }
 
-    try {
-      const response = await instance.request<T>(config);
-      return response.data;
-    } finally {
-      this.release(instance);
-    }
+  /**
+   * Send a request on a pooled connection inside a client span, propagating
+   * the trace to the server with a traceparent header
+   */
+  async request<T = unknown>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> {
+    const method = (config.method || "GET").toUpperCase();
+
+    return Tracer.getInstance().startActiveSpan(
+      `HTTP ${method}`,
+      {
+        kind: SpanKind.CLIENT,
+        attributes: { "http.method": method, "http.url": (config.url || "").split("?")[0] ?? "" },
+      },
+      async (span) => {
+        const acquireStart = Date.now();
+        const instance = await this.acquire();
+        span.setAttribute("pool.wait_ms", Date.now() - acquireStart);
+
+        try {
+          const response = await instance.request<T>({
+            ...config,
+            headers: { ...config.headers, traceparent: span.traceparent() },
+          });
+          span.setAttribute("http.status_code", response.status);
+          return response;
+        } catch (error) {
+          const status = (error as { response?: { status?: number } }).response?.status;
+          span.setAttribute("http.status_code", status);
+          span.setStatus({ code: SpanStatusCode.ERROR, message: (error as Error).message });
+          throw error;
+        } finally {
+          this.release(instance);
+        }
+      },
+    );
   }
 
   /**
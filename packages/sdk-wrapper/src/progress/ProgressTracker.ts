@@ -1,5 +1,5 @@
 import { EventEmitter } from "eventemitter3";
-import { ProgressInfo, SDKEvent, SDKEventType } from "../types";
+import { ChunkProgress, ProgressInfo, SDKEvent, SDKEventType } from "../types";
 
 /**
  * Tracks progress for file operations and emits events for UI integration
@@ -56,6 +56,19 @@ export class ProgressTracker extends EventEmitter {
     this.emitEvent(`${operation.type}:progress` as SDKEventType, operationId, progressInfo);
   }
 
+  /**
+   * Update progress for a chunked operation after one of its chunks completes
+   */
+  updateChunkProgress(operationId: string, loaded: number, chunk: ChunkProgress): void {
+    const operation = this.operations.get(operationId);
+    if (!operation) {
+      return;
+    }
+
+    operation.chunk = chunk;
+    this.updateProgress(operationId, loaded, "uploading");
+  }
+
   /**
    * Complete an operation
    */
@@ -149,6 +162,7 @@ export class ProgressTracker extends EventEmitter {
       rate: operation.rate,
       eta,
       phase: operation.phase,
+      ...(operation.chunk && { chunk: operation.chunk }),
     };
   }
 
@@ -202,4 +216,5 @@ interface OperationProgress {
   phase: ProgressInfo["phase"];
   rate: number;
   lastUpdate: number;
+  chunk?: ChunkProgress;
 }
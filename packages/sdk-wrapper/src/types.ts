@@ -1,5 +1,7 @@
 import { AccessCondition } from "@lighthouse-tooling/types";
+import { ContentCache } from "@lighthouse-tooling/shared";
 import { ConnectionPoolConfig } from "./pool/ConnectionPool";
+import { CacheManagerConfig } from "./cache/CacheManager";
 
 /**
  * Configuration options for the Lighthouse AI SDK
@@ -9,6 +11,13 @@ export interface LighthouseConfig {
   apiKey: string;
   /** Base URL for Lighthouse API (optional) */
   baseUrl?: string;
+  /** Gateway that serves content by CID (default: https://gateway.lighthouse.storage) */
+  gatewayUrl?: string;
+  /**
+   * Upload, look up and list files with plain HTTP requests to `baseUrl` rather than through
+   * `@lighthouse-web3/sdk`, whose endpoints are fixed. Needed to point the SDK at a local gateway.
+   */
+  directApi?: boolean;
   /** Timeout for requests in milliseconds */
   timeout?: number;
   /** Maximum number of retry attempts */
@@ -17,6 +26,26 @@ export interface LighthouseConfig {
   debug?: boolean;
   /** Connection pool configuration. Omit for default settings. Set to false to disable pooling. */
   pool?: ConnectionPoolConfig | false;
+  /** Resumable chunked uploads. Omit to upload files in a single request unless asked per upload. */
+  chunkedUpload?: ChunkedUploadConfig;
+  /** Metadata cache configuration. Omit for default settings. Set to false to disable caching. */
+  cache?: CacheManagerConfig | false;
+  /** On-disk cache of downloaded content, which may be shared between SDK instances. Omit to always download. */
+  contentCache?: ContentCache;
+}
+
+/**
+ * Resumable chunked upload configuration
+ */
+export interface ChunkedUploadConfig {
+  /** Upload session endpoint (default: `${baseUrl}/api/v0/uploads`) */
+  endpoint?: string;
+  /** Chunk size in bytes (default: 8MB) */
+  chunkSize?: number;
+  /** Files at least this large are uploaded in chunks (default: 100MB) */
+  threshold?: number;
+  /** Directory for persisted upload sessions (default: ~/.lighthouse/upload-sessions) */
+  sessionDir?: string;
 }
 
 /**
@@ -51,6 +80,8 @@ export interface UploadOptions {
   accessConditions?: AccessCondition[];
   /** Custom metadata */
   metadata?: Record<string, any>;
+  /** Upload in resumable chunks regardless of file size; cannot be combined with `encrypt` */
+  resumable?: boolean;
 }
 
 /**
@@ -65,6 +96,8 @@ export interface DownloadOptions {
   decrypt?: boolean;
   /** Timeout in milliseconds (default: calculated based on expectedSize) */
   timeout?: number;
+  /** Recompute the CID of the downloaded content and reject it on mismatch */
+  verify?: boolean;
 }
 
 /**
@@ -83,6 +116,20 @@ export interface ProgressInfo {
   eta?: number;
   /** Operation phase */
   phase: "preparing" | "uploading" | "downloading" | "processing" | "complete";
+  /** Chunk progress of a chunked upload */
+  chunk?: ChunkProgress;
+}
+
+/**
+ * Chunk progress of a chunked upload
+ */
+export interface ChunkProgress {
+  /** Index of the chunk that just completed */
+  index: number;
+  /** Chunks completed so far */
+  completed: number;
+  /** Total number of chunks */
+  count: number;
 }
 
 /**
@@ -132,7 +179,10 @@ export type SDKEventType =
   | "download:complete"
   | "download:error"
   | "auth:refresh"
-  | "auth:error";
+  | "auth:error"
+  | "cache:hit"
+  | "cache:miss"
+  | "cache:error";
 
 /**
  * SDK event data
@@ -369,6 +419,8 @@ export interface BatchDownloadOptions {
   outputDir?: string;
   /** Whether to decrypt files */
   decrypt?: boolean;
+  /** Recompute the CID of each downloaded file and reject it on mismatch */
+  verify?: boolean;
   /** Progress callback (completed, total, failures) */
   onProgress?: (completed: number, total: number, failures: number) => void;
   /** Whether to continue on individual file errors (default: true) */
@@ -451,4 +503,6 @@ export interface BatchDownloadFileResult {
   size: number;
   /** Whether file was decrypted */
   decrypted: boolean;
+  /** Whether the content was verified against its CID */
+  verified?: boolean;
 }
@@ -0,0 +1,348 @@
+/**
+ * Chunked Uploader for resumable uploads of large files
+ *
+ * Splits a file into fixed-size chunks, sends them one at a time with a SHA-256 checksum and
+ * records each acknowledged chunk in an upload session. An interrupted upload resumes from
+ * the last completed chunk, whether it was interrupted by an error, a crash or the connection
+ * going offline.
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import { basename } from "path";
+import { AxiosError, AxiosRequestConfig, AxiosResponse } from "axios";
+import { LighthouseError } from "../errors";
+import { UploadChunk, UploadSession, UploadSessionStore } from "./UploadSessionStore";
+
+/** Default chunk size (8MB) */
+export const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Response of a completed chunked upload
+ */
+export interface ChunkedUploadResult {
+  Hash: string;
+  Name: string;
+  Size: string | number;
+}
+
+/**
+ * Server side of a chunked upload
+ */
+export interface ChunkTransport {
+  /** Open an upload and return its server-assigned identifier */
+  start(params: {
+    fileName: string;
+    fileSize: number;
+    chunkSize: number;
+    chunkCount: number;
+  }): Promise<string>;
+  /** Send one chunk. Must reject if the signal is aborted. */
+  uploadChunk(
+    uploadId: string,
+    chunk: UploadChunk,
+    data: Buffer,
+    signal: AbortSignal,
+  ): Promise<void>;
+  /** Assemble the uploaded chunks into the final file */
+  complete(uploadId: string, chunks: UploadChunk[]): Promise<ChunkedUploadResult>;
+}
+
+/**
+ * Source of connectivity events, such as the shared package's ConnectionMonitor
+ */
+export interface ConnectionStatusSource {
+  on(event: "connected" | "disconnected", listener: () => void): unknown;
+  removeListener(event: "connected" | "disconnected", listener: () => void): unknown;
+}
+
+export interface ChunkedUploadOptions {
+  /** File name reported to the server (defaults to the file's base name) */
+  fileName?: string;
+  /** Called after every chunk the server acknowledges, including on resume */
+  onChunk?: (session: UploadSession) => void;
+}
+
+type RequestFn = (config: AxiosRequestConfig) => Promise<AxiosResponse>;
+
+/**
+ * HTTP chunk transport.
+ *
+ * - `POST {endpoint}` with `{fileName, fileSize, chunkSize, chunkCount}` returns `{uploadId}`
+ * - `PUT {endpoint}/{uploadId}/chunks/{index}` sends the raw chunk with `Content-Range`
+ *   and `X-Chunk-Checksum: sha256=<hex>` headers
+ * - `POST {endpoint}/{uploadId}/complete` with `{chunks}` returns `{Hash, Name, Size}`
+ */
+export class HttpChunkTransport implements ChunkTransport {
+  constructor(
+    private readonly endpoint: string,
+    private readonly apiKey: string,
+    private readonly request: RequestFn,
+  ) {}
+
+  async start(params: {
+    fileName: string;
+    fileSize: number;
+    chunkSize: number;
+    chunkCount: number;
+  }): Promise<string> {
+    const response = await this.send({ method: "POST", url: this.endpoint, data: params });
+    if (!response.data?.uploadId) {
+      throw new Error("Invalid upload session response from server");
+    }
+    return response.data.uploadId;
+  }
+
+  async uploadChunk(
+    uploadId: string,
+    chunk: UploadChunk,
+    data: Buffer,
+    signal: AbortSignal,
+  ): Promise<void> {
+    await this.send({
+      method: "PUT",
+      url: `${this.endpoint}/${encodeURIComponent(uploadId)}/chunks/${chunk.index}`,
+      data,
+      signal,
+      headers: {
+        "Content-Type": "application/octet-stream",
+        "Content-Range": `bytes ${chunk.offset}-${chunk.offset + chunk.size - 1}/*`,
+        "X-Chunk-Checksum": `sha256=${chunk.checksum}`,
+      },
+      maxBodyLength: Infinity,
+    });
+  }
+
+  async complete(uploadId: string, chunks: UploadChunk[]): Promise<ChunkedUploadResult> {
+    const response = await this.send({
+      method: "POST",
+      url: `${this.endpoint}/${encodeURIComponent(uploadId)}/complete`,
+      data: { chunks: chunks.map(({ index, checksum }) => ({ index, checksum })) },
+    });
+    return response.data;
+  }
+
+  private async send(config: AxiosRequestConfig): Promise<AxiosResponse> {
+    try {
+      return await this.request({
+        ...config,
+        headers: { ...config.headers, Authorization: `Bearer ${this.apiKey}` },
+      });
+    } catch (error: unknown) {
+      // The server no longer knows the upload; the session has to start over
+      if (error instanceof Error && (error as AxiosError).response?.status === 404) {
+        throw new LighthouseError(
+          "Upload session expired on the server",
+          "UPLOAD_SESSION_EXPIRED",
+          true,
+          404,
+          error,
+        );
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Uploads files in chunks, persisting progress to an UploadSessionStore
+ */
+export class ChunkedUploader {
+  private readonly transport: ChunkTransport;
+  private readonly store: UploadSessionStore;
+  private readonly chunkSize: number;
+  private monitor: ConnectionStatusSource | null = null;
+  private online = true;
+  private waiters: Array<() => void> = [];
+  private inFlight = new Set<AbortController>();
+
+  private readonly handleConnected = () => {
+    this.online = true;
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((resolve) => resolve());
+  };
+
+  private readonly handleDisconnected = () => {
+    this.online = false;
+    this.inFlight.forEach((controller) => controller.abort());
+  };
+
+  constructor(
+    transport: ChunkTransport,
+    store: UploadSessionStore,
+    chunkSize = DEFAULT_CHUNK_SIZE,
+  ) {
+    if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+      throw new Error("chunkSize must be a positive integer");
+    }
+    this.transport = transport;
+    this.store = store;
+    this.chunkSize = chunkSize;
+  }
+
+  /**
+   * Pause uploads while the monitor reports the connection as offline. A chunk in flight
+   * when the connection drops is abandoned and sent again once it is back.
+   */
+  setConnectionMonitor(monitor: ConnectionStatusSource | null): void {
+    if (this.monitor) {
+      this.monitor.removeListener("connected", this.handleConnected);
+      this.monitor.removeListener("disconnected", this.handleDisconnected);
+    }
+    this.monitor = monitor;
+    if (monitor) {
+      monitor.on("connected", this.handleConnected);
+      monitor.on("disconnected", this.handleDisconnected);
+    } else {
+      this.handleConnected();
+    }
+  }
+
+  /**
+   * Upload a file, resuming its recorded session if the file has not changed since
+   */
+  async upload(
+    filePath: string,
+    options: ChunkedUploadOptions = {},
+  ): Promise<ChunkedUploadResult & { resumed: boolean }> {
+    const stats = await fs.stat(filePath);
+    const id = UploadSessionStore.sessionIdFor(filePath, stats.size, stats.mtimeMs, this.chunkSize);
+
+    let session = await this.store.load(id);
+    const resumed = session !== null;
+
+    if (!session) {
+      const fileName = options.fileName || basename(filePath);
+      const chunkCount = Math.max(1, Math.ceil(stats.size / this.chunkSize));
+      await this.waitUntilOnline();
+      const uploadId = await this.transport.start({
+        fileName,
+        fileSize: stats.size,
+        chunkSize: this.chunkSize,
+        chunkCount,
+      });
+      const now = new Date().toISOString();
+      session = {
+        id,
+        uploadId,
+        filePath,
+        fileName,
+        fileSize: stats.size,
+        fileModifiedAt: stats.mtimeMs,
+        chunkSize: this.chunkSize,
+        chunkCount,
+        completedChunks: [],
+        createdAt: now,
+        updatedAt: now,
+      };
+      await this.store.save(session);
+    } else if (session.completedChunks.length > 0) {
+      options.onChunk?.(session);
+    }
+
+    const completed = new Set(session.completedChunks.map((chunk) => chunk.index));
+    const handle = await fs.open(filePath, "r");
+
+    try {
+      for (let index = 0; index < session.chunkCount; index++) {
+        if (completed.has(index)) continue;
+
+        const offset = index * session.chunkSize;
+        const size = Math.min(session.chunkSize, session.fileSize - offset);
+        const data = Buffer.alloc(size);
+        await handle.read(data, 0, size, offset);
+
+        const chunk: UploadChunk = {
+          index,
+          offset,
+          size,
+          checksum: createHash("sha256").update(data).digest("hex"),
+        };
+
+        await this.sendChunk(session, chunk, data);
+
+        session.completedChunks.push(chunk);
+        session.updatedAt = new Date().toISOString();
+        await this.store.save(session);
+        options.onChunk?.(session);
+      }
+    } finally {
+      await handle.close();
+    }
+
+    await this.waitUntilOnline();
+    const chunks = [...session.completedChunks].sort((a, b) => a.index - b.index);
+    const result = await this.withExpiredSessionCleanup(session, () =>
+      this.transport.complete(session!.uploadId, chunks),
+    );
+    await this.store.delete(session.id);
+
+    return { ...result, resumed };
+  }
+
+  /**
+   * Recorded sessions of uploads that have not completed
+   */
+  listSessions(): Promise<UploadSession[]> {
+    return this.store.list();
+  }
+
+  /**
+   * Forget a recorded session, so the next upload of the file starts from the beginning
+   */
+  discardSession(id: string): Promise<void> {
+    return this.store.delete(id);
+  }
+
+  /**
+   * Stop listening to the connection monitor and abandon chunks in flight
+   */
+  dispose(): void {
+    this.setConnectionMonitor(null);
+    this.inFlight.forEach((controller) => controller.abort());
+  }
+
+  /**
+   * Send a chunk, waiting out and retrying across offline periods
+   */
+  private async sendChunk(session: UploadSession, chunk: UploadChunk, data: Buffer): Promise<void> {
+    for (;;) {
+      await this.waitUntilOnline();
+
+      const controller = new AbortController();
+      this.inFlight.add(controller);
+      try {
+        await this.withExpiredSessionCleanup(session, () =>
+          this.transport.uploadChunk(session.uploadId, chunk, data, controller.signal),
+        );
+        return;
+      } catch (error) {
+        // Aborted because the connection went offline: resend once it is back
+        if (!this.online) continue;
+        throw error;
+      } finally {
+        this.inFlight.delete(controller);
+      }
+    }
+  }
+
+  private async withExpiredSessionCleanup<T>(
+    session: UploadSession,
+    operation: () => Promise<T>,
+  ): Promise<T> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (error instanceof LighthouseError && error.code === "UPLOAD_SESSION_EXPIRED") {
+        await this.store.delete(session.id);
+      }
+      throw error;
+    }
+  }
+
+  private waitUntilOnline(): Promise<void> {
+    if (this.online) return Promise.resolve();
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * Upload Session Store for resumable chunked uploads
+ *
+ * Persists one JSON record per in-progress upload so that an interrupted upload,
+ * including one interrupted by a process crash, can continue from its last completed chunk
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import { join, resolve } from "path";
+
+/**
+ * A chunk acknowledged by the upload server
+ */
+export interface UploadChunk {
+  /** Zero-based chunk index */
+  index: number;
+  /** Byte offset of the chunk in the file */
+  offset: number;
+  /** Chunk size in bytes */
+  size: number;
+  /** SHA-256 of the chunk content (hex) */
+  checksum: string;
+}
+
+/**
+ * Persisted state of a resumable upload
+ */
+export interface UploadSession {
+  /** Local session identifier, derived from the file path, size, mtime and chunk size */
+  id: string;
+  /** Upload identifier assigned by the server */
+  uploadId: string;
+  filePath: string;
+  fileName: string;
+  fileSize: number;
+  /** File modification time when the session started; a changed file starts a new session */
+  fileModifiedAt: number;
+  chunkSize: number;
+  chunkCount: number;
+  /** Chunks acknowledged by the server, in completion order */
+  completedChunks: UploadChunk[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * File-backed store of upload sessions
+ */
+export class UploadSessionStore {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  /**
+   * Session identifier for a given file state. The same file, unchanged, maps to the same session.
+   */
+  static sessionIdFor(
+    filePath: string,
+    fileSize: number,
+    fileModifiedAt: number,
+    chunkSize: number,
+  ): string {
+    return createHash("sha256")
+      .update(`${resolve(filePath)}:${fileSize}:${fileModifiedAt}:${chunkSize}`)
+      .digest("hex")
+      .slice(0, 32);
+  }
+
+  /**
+   * Load a session, or null if none is recorded (or the record is unreadable)
+   */
+  async load(id: string): Promise<UploadSession | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.pathFor(id), "utf-8")) as UploadSession;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Persist a session. The record is written to a temporary file and renamed into place,
+   * so a crash mid-write never leaves a truncated record behind.
+   */
+  async save(session: UploadSession): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const target = this.pathFor(session.id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(session, null, 2), "utf-8");
+    await fs.rename(temp, target);
+  }
+
+  /**
+   * Remove a session record
+   */
+  async delete(id: string): Promise<void> {
+    await fs.rm(this.pathFor(id), { force: true });
+  }
+
+  /**
+   * List all recorded sessions, oldest first
+   */
+  async list(): Promise<UploadSession[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const sessions: UploadSession[] = [];
+    for (const entry of entries) {
+      if (entry.endsWith(".json")) {
+        const session = await this.load(entry.slice(0, -".json".length));
+        if (session) sessions.push(session);
+      }
+    }
+
+    return sessions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  private pathFor(id: string): string {
+    return join(this.directory, `${id}.json`);
+  }
+}
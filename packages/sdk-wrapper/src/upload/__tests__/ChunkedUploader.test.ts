@@ -0,0 +1,228 @@
+import { createHash } from "crypto";
+import { EventEmitter } from "events";
+import { promises as fs } from "fs";
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import axios from "axios";
+import lighthouse from "@lighthouse-web3/sdk";
+import { ChunkedUploader, HttpChunkTransport } from "../ChunkedUploader";
+import { UploadSessionStore } from "../UploadSessionStore";
+import { LighthouseAISDK } from "../../LighthouseAISDK";
+import { UnixFSImporter } from "../../cid";
+import { SDKEvent } from "../../types";
+
+const CHUNK_SIZE = 4;
+const CONTENT = "resumable chunked upload\n";
+const EXPECTED_CID = UnixFSImporter.importBuffer(CONTENT).cid;
+
+/**
+ * Local stand-in for the upload session API
+ */
+class StandInServer {
+  readonly stored: number[] = [];
+  beforeChunk: (index: number, req: IncomingMessage) => "ok" | "drop" | "hang" = () => "ok";
+  private uploads = new Map<string, Map<number, Buffer>>();
+  private server: Server;
+
+  constructor() {
+    this.server = createServer(async (req, res) => {
+      const body: Buffer[] = [];
+      for await (const part of req) body.push(part as Buffer);
+      const data = Buffer.concat(body);
+      const [, , id, action, index] = (req.url ?? "").split("/");
+
+      if (req.method === "POST" && !id) {
+        const uploadId = `upload-${this.uploads.size + 1}`;
+        this.uploads.set(uploadId, new Map());
+        return this.json(res, 200, { uploadId });
+      }
+
+      const chunks = this.uploads.get(id ?? "");
+      if (!chunks) return this.json(res, 404, { error: "Unknown upload" });
+
+      if (req.method === "PUT" && action === "chunks") {
+        const behaviour = this.beforeChunk(Number(index), req);
+        if (behaviour === "drop") return req.socket.destroy();
+        if (behaviour === "hang") return;
+
+        const checksum = createHash("sha256").update(data).digest("hex");
+        if (req.headers["x-chunk-checksum"] !== `sha256=${checksum}`) {
+          return this.json(res, 400, { error: "Checksum mismatch" });
+        }
+        chunks.set(Number(index), data);
+        this.stored.push(Number(index));
+        return this.json(res, 200, {});
+      }
+
+      if (req.method === "POST" && action === "complete") {
+        const { chunks: order } = JSON.parse(data.toString()) as { chunks: { index: number }[] };
+        const content = Buffer.concat(order.map(({ index }) => chunks.get(index)!));
+        const { cid } = UnixFSImporter.importBuffer(content);
+        return this.json(res, 200, { Hash: cid, Name: "file", Size: String(content.length) });
+      }
+
+      this.json(res, 404, { error: "Not found" });
+    });
+  }
+
+  async listen(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/uploads`;
+  }
+
+  async close(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  private json(res: import("http").ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  }
+}
+
+describe("ChunkedUploader", () => {
+  let server: StandInServer;
+  let endpoint: string;
+  let dir: string;
+  let filePath: string;
+  let sessionDir: string;
+
+  const createUploader = () =>
+    new ChunkedUploader(
+      new HttpChunkTransport(endpoint, "test-key", (config) => axios.request(config)),
+      new UploadSessionStore(sessionDir),
+      CHUNK_SIZE,
+    );
+
+  beforeEach(async () => {
+    server = new StandInServer();
+    endpoint = await server.listen();
+    dir = await fs.mkdtemp(join(tmpdir(), "chunked-upload-"));
+    sessionDir = join(dir, "sessions");
+    filePath = join(dir, "data.txt");
+    await fs.writeFile(filePath, CONTENT);
+  });
+
+  afterEach(async () => {
+    await server.close();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("should upload every chunk with its checksum and drop the session when done", async () => {
+    const result = await createUploader().upload(filePath);
+
+    expect(result.Hash).toBe(EXPECTED_CID);
+    expect(result.resumed).toBe(false);
+    expect(server.stored).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(await new UploadSessionStore(sessionDir).list()).toEqual([]);
+  });
+
+  it("should resume from the last completed chunk after a crash", async () => {
+    server.beforeChunk = (index) => (index === 3 ? "drop" : "ok");
+
+    await expect(createUploader().upload(filePath)).rejects.toThrow();
+
+    const [session] = await new UploadSessionStore(sessionDir).list();
+    expect(session!.completedChunks.map((chunk) => chunk.index)).toEqual([0, 1, 2]);
+    expect(session!.completedChunks[1]!.checksum).toBe(
+      createHash("sha256").update(CONTENT.slice(4, 8)).digest("hex"),
+    );
+
+    // A fresh uploader, as after a process restart, picks the session up from disk
+    server.beforeChunk = () => "ok";
+    server.stored.length = 0;
+    const result = await createUploader().upload(filePath);
+
+    expect(result.resumed).toBe(true);
+    expect(result.Hash).toBe(EXPECTED_CID);
+    expect(server.stored).toEqual([3, 4, 5, 6]);
+  });
+
+  it("should start over when the file changed since the session was recorded", async () => {
+    server.beforeChunk = (index) => (index === 2 ? "drop" : "ok");
+    await expect(createUploader().upload(filePath)).rejects.toThrow();
+
+    server.beforeChunk = () => "ok";
+    await fs.writeFile(filePath, CONTENT.toUpperCase());
+    const result = await createUploader().upload(filePath);
+
+    expect(result.resumed).toBe(false);
+    expect(result.Hash).toBe(UnixFSImporter.importBuffer(CONTENT.toUpperCase()).cid);
+  });
+
+  it("should pause while offline and resend the interrupted chunk", async () => {
+    const monitor = new EventEmitter();
+    const uploader = createUploader();
+    uploader.setConnectionMonitor(monitor);
+    let dropped = false;
+
+    server.beforeChunk = (index) => {
+      if (index !== 2 || dropped) return "ok";
+      dropped = true;
+      monitor.emit("disconnected");
+      setTimeout(() => monitor.emit("connected"), 50);
+      return "hang";
+    };
+
+    const result = await uploader.upload(filePath);
+    uploader.dispose();
+
+    expect(dropped).toBe(true);
+    expect(result.Hash).toBe(EXPECTED_CID);
+    expect(server.stored).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(monitor.listenerCount("disconnected")).toBe(0);
+  });
+
+  it("should report progress per chunk through the SDK", async () => {
+    const sdk = new LighthouseAISDK({
+      apiKey: "test-key",
+      maxRetries: 0,
+      pool: false,
+      chunkedUpload: { endpoint, chunkSize: CHUNK_SIZE, sessionDir },
+    });
+    const events: SDKEvent[] = [];
+    sdk.on("upload:progress", (event: SDKEvent) => events.push(event));
+
+    try {
+      const fileInfo = await sdk.uploadFile(filePath, { resumable: true });
+
+      expect(fileInfo.hash).toBe(EXPECTED_CID);
+      expect(fileInfo.size).toBe(CONTENT.length);
+      const chunkEvents = events.filter((event) => event.data.chunk);
+      expect(chunkEvents.map((event) => event.data.chunk.completed)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+      expect(chunkEvents[6]!.data).toMatchObject({ loaded: CONTENT.length, percentage: 100 });
+      expect(await sdk.listUploadSessions()).toEqual([]);
+    } finally {
+      sdk.destroy();
+    }
+  });
+
+  it("should refuse encrypted resumable uploads and not chunk encrypted ones", async () => {
+    const sdk = new LighthouseAISDK({
+      apiKey: "test-key",
+      maxRetries: 0,
+      pool: false,
+      chunkedUpload: { endpoint, chunkSize: CHUNK_SIZE, sessionDir, threshold: 1 },
+    });
+    const chunked = jest.spyOn(sdk as any, "uploadInChunks");
+    const standard = jest
+      .spyOn(lighthouse, "uploadBuffer")
+      .mockResolvedValue({ data: { Name: "data.txt", Hash: EXPECTED_CID, Size: "25" } } as any);
+
+    try {
+      await expect(sdk.uploadFile(filePath, { resumable: true, encrypt: true })).rejects.toThrow(
+        "Resumable uploads do not support encryption",
+      );
+      await sdk.uploadFile(filePath, { encrypt: true });
+
+      expect(chunked).not.toHaveBeenCalled();
+      expect(standard).toHaveBeenCalledTimes(1);
+    } finally {
+      standard.mockRestore();
+      sdk.destroy();
+    }
+  });
+});
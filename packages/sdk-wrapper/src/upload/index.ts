@@ -0,0 +1,13 @@
+/**
+ * Resumable chunked upload module exports
+ */
+
+export { ChunkedUploader, HttpChunkTransport, DEFAULT_CHUNK_SIZE } from "./ChunkedUploader";
+export type {
+  ChunkTransport,
+  ChunkedUploadResult,
+  ChunkedUploadOptions,
+  ConnectionStatusSource,
+} from "./ChunkedUploader";
+export { UploadSessionStore } from "./UploadSessionStore";
+export type { UploadChunk, UploadSession } from "./UploadSessionStore";
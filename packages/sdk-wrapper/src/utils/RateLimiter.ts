@@ -1,32 +1,153 @@
+import { createHash } from "crypto";
+import { EventEmitter } from "eventemitter3";
+import { Tracer } from "@lighthouse-tooling/shared";
+
+/** Pause applied after a 429 that carries no Retry-After */
+const DEFAULT_THROTTLE_DELAY = 1000;
+
+/**
+ * Rate limiter state, emitted as `rate_limit` whenever the server pushes back or the
+ * limiter grows or shrinks
+ */
+export interface RateLimitState {
+  /** Requests that may be made in a burst, adjusted from server responses */
+  capacity: number;
+  /** Tokens available now */
+  available: number;
+  /** Requests waiting for a token */
+  queued: number;
+  /** Milliseconds until requests resume; 0 unless paused by Retry-After or an exhausted limit */
+  retryAfter: number;
+  /** Limit last reported by the server */
+  serverLimit?: number;
+  /** Remaining requests last reported by the server */
+  serverRemaining?: number;
+}
+
+/**
+ * Parse a Retry-After value, either delay seconds or an HTTP date, into milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
 /**
- * Simple token bucket rate limiter for API requests
+ * Token bucket rate limiter for API requests that adapts to the server. Responses are fed
+ * to `observe`: a 429 or Retry-After pauses all requests and halves the bucket, and each
+ * unthrottled response grows it back by one token, up to the configured size.
  */
-export class RateLimiter {
+export class RateLimiter extends EventEmitter {
+  private static shared = new Map<string, { limiter: RateLimiter; references: number }>();
+
   private tokens: number;
+  private capacity: number;
+  private ceiling: number;
   private lastRefill: number;
+  private pausedUntil = 0;
+  private serverLimit?: number;
+  private serverRemaining?: number;
   private queue: Array<() => void> = [];
+  private sharedId?: string;
 
   constructor(
     private maxTokens: number = 10,
     private refillRate: number = 1,
     private refillInterval: number = 1000,
   ) {
+    super();
     this.tokens = maxTokens;
+    this.capacity = maxTokens;
+    this.ceiling = maxTokens;
     this.lastRefill = Date.now();
   }
 
+  /**
+   * The limiter shared by every caller using the same API key and settings in this
+   * process, so server pushback seen by one SDK instance slows them all. Each call takes
+   * a reference that must be given back with `release`; the limiter is dropped once none
+   * are left.
+   */
+  static forKey(
+    apiKey: string,
+    maxTokens: number = 10,
+    refillRate: number = 1,
+    refillInterval: number = 1000,
+  ): RateLimiter {
+    const id = createHash("sha256")
+      .update(`${apiKey}\0${maxTokens}:${refillRate}:${refillInterval}`)
+      .digest("hex");
+
+    let entry = RateLimiter.shared.get(id);
+    if (!entry) {
+      const limiter = new RateLimiter(maxTokens, refillRate, refillInterval);
+      limiter.sharedId = id;
+      entry = { limiter, references: 0 };
+      RateLimiter.shared.set(id, entry);
+    }
+    entry.references++;
+    return entry.limiter;
+  }
+
+  /**
+   * Drop every shared limiter, so tests start from a clean state
+   */
+  static resetShared(): void {
+    RateLimiter.shared.clear();
+  }
+
+  /**
+   * Number of shared limiters currently held
+   */
+  static getSharedCount(): number {
+    return RateLimiter.shared.size;
+  }
+
+  /**
+   * Give back a reference taken with `forKey`. Has no effect on unshared limiters.
+   */
+  release(): void {
+    const entry = this.sharedId ? RateLimiter.shared.get(this.sharedId) : undefined;
+    if (!entry || entry.limiter !== this) {
+      return;
+    }
+
+    entry.references--;
+    if (entry.references <= 0) {
+      RateLimiter.shared.delete(this.sharedId!);
+      this.removeAllListeners();
+    }
+  }
+
   private refillTokens(): void {
     const now = Date.now();
     const timePassed = now - this.lastRefill;
-    const tokensToAdd = (timePassed / this.refillInterval) * this.refillRate;
+    // A shrunken bucket refills proportionally slower
+    const rate = this.refillRate * (this.capacity / this.maxTokens);
+    const tokensToAdd = (timePassed / this.refillInterval) * rate;
 
     if (tokensToAdd > 0) {
-      this.tokens = Math.min(this.maxTokens, this.tokens + tokensToAdd);
+      this.tokens = Math.min(this.capacity, this.tokens + tokensToAdd);
       this.lastRefill = now;
     }
   }
 
   private processQueue(): void {
+    const pause = this.pausedUntil - Date.now();
+    if (pause > 0) {
+      setTimeout(() => this.processQueue(), pause);
+      return;
+    }
+
     this.refillTokens();
     while (this.queue.length > 0 && this.tokens >= 1) {
       this.tokens--;
@@ -42,19 +163,88 @@ export class RateLimiter {
   async acquire(): Promise<void> {
     this.refillTokens();
 
-    if (this.tokens >= 1) {
+    if (this.tokens >= 1 && this.pausedUntil <= Date.now()) {
       this.tokens--;
       return Promise.resolve();
     }
 
+    // Only waits get a span, so a throttled call shows up in its trace
+    const span = Tracer.getInstance().startSpan("rate_limiter.wait", {
+      attributes: { "rate_limiter.queue_position": this.queue.length + 1 },
+    });
+
     return new Promise<void>((resolve) => {
-      this.queue.push(resolve);
+      this.queue.push(() => {
+        span.end();
+        resolve();
+      });
       if (this.queue.length === 1) {
-        setTimeout(() => this.processQueue(), this.refillInterval / 2);
+        const pause = this.pausedUntil - Date.now();
+        setTimeout(() => this.processQueue(), Math.max(pause, this.refillInterval / 2));
       }
     });
   }
 
+  /**
+   * Adjust to a server response from its status and headers: `Retry-After`, and
+   * `RateLimit-Limit`/`-Remaining`/`-Reset` with or without the `X-` prefix
+   */
+  observe(headers: Record<string, unknown> | undefined, status?: number): void {
+    const header = (name: string) => headers?.[name] ?? headers?.[`x-${name}`];
+    const limit = toNumber(header("ratelimit-limit"));
+    const remaining = toNumber(header("ratelimit-remaining"));
+    const reset = toNumber(header("ratelimit-reset"));
+    const retryAfter = parseRetryAfter(headers?.["retry-after"]);
+
+    if (limit !== undefined) {
+      this.serverLimit = limit;
+      this.ceiling = Math.max(1, Math.min(this.maxTokens, limit));
+    }
+    if (remaining !== undefined) {
+      this.serverRemaining = remaining;
+      this.refillTokens();
+      this.tokens = Math.min(this.tokens, remaining);
+    }
+
+    if (status === 429 || retryAfter !== undefined) {
+      this.throttle(retryAfter);
+    } else if (remaining === 0 && reset !== undefined) {
+      // Reset is delay seconds, or epoch seconds from servers that send a timestamp
+      this.throttle(reset > 1e9 ? reset * 1000 - Date.now() : reset * 1000);
+    } else if (status === undefined || status < 400) {
+      this.grow();
+    }
+  }
+
+  /**
+   * Pause every request for `delay` ms (1s by default) and halve the bucket. Repeat
+   * signals during the same pause only extend it.
+   */
+  throttle(delay: number = DEFAULT_THROTTLE_DELAY): void {
+    const now = Date.now();
+    const alreadyPaused = this.pausedUntil > now;
+
+    this.pausedUntil = Math.max(this.pausedUntil, now + Math.max(0, delay));
+    if (!alreadyPaused) {
+      this.refillTokens();
+      this.capacity = Math.max(1, Math.floor(this.capacity / 2));
+      this.tokens = 0;
+    }
+
+    this.emit("rate_limit", this.getState());
+  }
+
+  getState(): RateLimitState {
+    return {
+      capacity: this.capacity,
+      available: this.getAvailableTokens(),
+      queued: this.queue.length,
+      retryAfter: Math.max(0, this.pausedUntil - Date.now()),
+      serverLimit: this.serverLimit,
+      serverRemaining: this.serverRemaining,
+    };
+  }
+
   getAvailableTokens(): number {
     this.refillTokens();
     return Math.floor(this.tokens);
@@ -63,4 +253,26 @@ export class RateLimiter {
   getQueueLength(): number {
     return this.queue.length;
   }
+
+  /**
+   * Grow the bucket by one token after an unthrottled response, or shrink it to a
+   * lowered server limit
+   */
+  private grow(): void {
+    if (this.pausedUntil > Date.now() || this.capacity === this.ceiling) {
+      return;
+    }
+
+    this.capacity = this.capacity < this.ceiling ? this.capacity + 1 : this.ceiling;
+    this.tokens = Math.min(this.tokens, this.capacity);
+    this.emit("rate_limit", this.getState());
+  }
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === "") {
+    return undefined;
+  }
+  const number = Number(value);
+  return Number.isNaN(number) ? undefined : number;
 }
@@ -14,6 +14,9 @@ export * from "./utils";
 // Export offline mode support
 export * from "./offline";
 
+// Export distributed tracing
+export * from "./tracing";
+
 // Re-export commonly used types for convenience
 export type {
   RetryConfig,
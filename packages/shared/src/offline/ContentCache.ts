@@ -0,0 +1,460 @@
+/**
+ * Content Cache for Offline Access
+ * @fileoverview Content-addressed on-disk cache of downloaded files, keyed by CID
+ */
+
+import { EventEmitter } from "events";
+import { createHash } from "crypto";
+import { createReadStream, createWriteStream, promises as fs } from "fs";
+import * as path from "path";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+import { Logger } from "../utils/logger.js";
+import { FileCache } from "./FileCache.js";
+
+/**
+ * Which entry makes room for new content
+ */
+export type ContentEvictionPolicy = "lru" | "lfu";
+
+export interface ContentCacheConfig {
+  /** Directory blobs and their index are kept in */
+  directory: string;
+  /** Maximum total size of cached content in bytes */
+  maxSize?: number;
+  /** Evict the least recently (lru) or least frequently (lfu) read content first */
+  evictionPolicy?: ContentEvictionPolicy;
+  /**
+   * The `CacheStorageType` backed by this cache: DISK (default) reads every hit from disk,
+   * HYBRID also keeps recent content in memory
+   */
+  storageType?: "disk" | "hybrid";
+  /** Bytes of content HYBRID storage keeps in memory (default 64MB) */
+  memorySize?: number;
+}
+
+export interface ContentCacheEntry {
+  cid: string;
+  size: number;
+  /** SHA-256 of the content (hex), checked on every read */
+  sha256: string;
+  accessCount: number;
+  lastAccessed: Date;
+  createdAt: Date;
+}
+
+export interface ContentCacheStats {
+  size: number;
+  entries: number;
+  maxSize: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  /** Reads that failed the integrity check */
+  corrupted: number;
+  hitRate: number;
+}
+
+interface ContentCacheIndex {
+  version: 1;
+  entries: ContentCacheEntry[];
+}
+
+/** CIDs are base58 or base32; anything else could escape the blob directory */
+const CID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Disk-backed blob cache with a size budget. Each blob is stored under its CID and
+ * its SHA-256 is recorded in an index; content that no longer matches is dropped on
+ * read, so a damaged cache costs a download rather than returning bad data. With
+ * HYBRID storage, recently cached and read content is also held in a FileCache, and hits
+ * on it skip the disk.
+ *
+ * Emits `hit`, `miss`, `set`, `evict`, `corrupt` and `rejected` events.
+ */
+export class ContentCache extends EventEmitter {
+  private entries = new Map<string, ContentCacheEntry>();
+  private logger: Logger;
+  private config: Required<ContentCacheConfig>;
+  private memory?: FileCache<Buffer>;
+  private currentSize = 0;
+  private loaded?: Promise<void>;
+  private indexWrite: Promise<void> = Promise.resolve();
+  private stats = {
+    hits: 0,
+    misses: 0,
+    evictions: 0,
+    corrupted: 0,
+  };
+
+  constructor(config: ContentCacheConfig) {
+    super();
+    this.config = {
+      directory: config.directory,
+      maxSize: config.maxSize ?? 1024 * 1024 * 1024, // 1GB
+      evictionPolicy: config.evictionPolicy ?? "lru",
+      storageType: config.storageType ?? "disk",
+      memorySize: config.memorySize ?? 64 * 1024 * 1024, // 64MB
+    };
+
+    if (this.config.storageType === "hybrid") {
+      this.memory = new FileCache<Buffer>({ maxSize: this.config.memorySize });
+    }
+
+    this.logger = Logger.getInstance({
+      level: "info",
+      component: "ContentCache",
+    });
+  }
+
+  /**
+   * Whether the CID is cached
+   */
+  async has(cid: string): Promise<boolean> {
+    await this.load();
+    return this.entries.has(cid);
+  }
+
+  /**
+   * Get the index entry for a CID without counting it as a read
+   */
+  async getEntry(cid: string): Promise<ContentCacheEntry | undefined> {
+    await this.load();
+    const entry = this.entries.get(cid);
+    return entry ? { ...entry } : undefined;
+  }
+
+  /**
+   * Copy cached content to `outputPath`, verifying it on the way.
+   * Returns undefined on a miss or when the cached copy is damaged.
+   */
+  async copyTo(cid: string, outputPath: string): Promise<ContentCacheEntry | undefined> {
+    await this.load();
+    const entry = this.entries.get(cid);
+
+    if (!entry) {
+      this.stats.misses++;
+      this.emit("miss", { cid });
+      return undefined;
+    }
+
+    const inMemory = this.memory?.get(cid);
+    if (inMemory) {
+      await fs.mkdir(path.dirname(outputPath), { recursive: true });
+      await fs.writeFile(outputPath, inMemory);
+      return this.recordHit(entry);
+    }
+
+    let sha256: string;
+    try {
+      await fs.mkdir(path.dirname(outputPath), { recursive: true });
+      sha256 = await copyWithHash(this.blobPath(cid), outputPath);
+    } catch (error) {
+      await fs.unlink(outputPath).catch(() => undefined);
+      return this.discardCorrupt(entry, (error as Error).message);
+    }
+
+    if (sha256 !== entry.sha256) {
+      await fs.unlink(outputPath).catch(() => undefined);
+      return this.discardCorrupt(entry, "checksum mismatch");
+    }
+
+    await this.keepInMemory(cid, outputPath, entry.size);
+    return this.recordHit(entry);
+  }
+
+  /**
+   * Cache the content of a file under its CID, evicting other content to stay within
+   * the size budget. Content larger than the whole budget is not cached. Callers check
+   * the content against the CID first; the recorded SHA-256 only catches later damage.
+   */
+  async put(cid: string, sourcePath: string): Promise<ContentCacheEntry | undefined> {
+    if (!CID_PATTERN.test(cid)) {
+      throw new Error(`Invalid CID for content cache: ${cid}`);
+    }
+    await this.load();
+
+    const { size } = await fs.stat(sourcePath);
+    if (size > this.config.maxSize) {
+      this.logger.warn("Content too large for cache", {
+        cid,
+        size,
+        maxSize: this.config.maxSize,
+      });
+      this.emit("rejected", { cid, size });
+      return undefined;
+    }
+
+    // Copy to a temporary file first so a crash never leaves a partial blob under a CID
+    const blobPath = this.blobPath(cid);
+    const tempPath = `${blobPath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.mkdir(path.dirname(blobPath), { recursive: true });
+
+    let sha256: string;
+    try {
+      sha256 = await copyWithHash(sourcePath, tempPath);
+    } catch (error) {
+      await fs.unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+
+    const existing = this.entries.get(cid);
+    if (existing) {
+      this.entries.delete(cid);
+      this.currentSize -= existing.size;
+    }
+    await this.makeRoom(size);
+    await fs.rename(tempPath, blobPath);
+
+    const now = new Date();
+    const entry: ContentCacheEntry = {
+      cid,
+      size,
+      sha256,
+      accessCount: existing?.accessCount ?? 0,
+      lastAccessed: now,
+      createdAt: existing?.createdAt ?? now,
+    };
+    this.entries.set(cid, entry);
+    this.currentSize += size;
+    this.persist();
+    await this.keepInMemory(cid, blobPath, size);
+
+    this.logger.debug("Content cached", {
+      cid,
+      size,
+      totalSize: this.currentSize,
+      entries: this.entries.size,
+    });
+
+    this.emit("set", { cid, entry });
+    return { ...entry };
+  }
+
+  /**
+   * Remove content from the cache
+   */
+  async delete(cid: string): Promise<boolean> {
+    await this.load();
+    const entry = this.entries.get(cid);
+    if (!entry) {
+      return false;
+    }
+
+    await this.remove(entry);
+    this.persist();
+    return true;
+  }
+
+  /**
+   * Remove all cached content
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    const count = this.entries.size;
+
+    for (const entry of Array.from(this.entries.values())) {
+      await this.remove(entry);
+    }
+    this.persist();
+
+    this.logger.info("Content cache cleared", { count });
+  }
+
+  /**
+   * Wait for pending index writes
+   */
+  async flush(): Promise<void> {
+    await this.indexWrite;
+  }
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): ContentCacheStats {
+    const total = this.stats.hits + this.stats.misses;
+    return {
+      size: this.currentSize,
+      entries: this.entries.size,
+      maxSize: this.config.maxSize,
+      hits: this.stats.hits,
+      misses: this.stats.misses,
+      evictions: this.stats.evictions,
+      corrupted: this.stats.corrupted,
+      hitRate: total > 0 ? this.stats.hits / total : 0,
+    };
+  }
+
+  /**
+   * Evict entries until `size` more bytes fit within the budget
+   */
+  private async makeRoom(size: number): Promise<void> {
+    while (this.currentSize + size > this.config.maxSize && this.entries.size > 0) {
+      const victim = this.selectVictim();
+      await this.remove(victim);
+      this.stats.evictions++;
+
+      this.logger.debug("Evicted cached content", {
+        cid: victim.cid,
+        size: victim.size,
+        accessCount: victim.accessCount,
+        policy: this.config.evictionPolicy,
+      });
+
+      this.emit("evict", { cid: victim.cid, entry: victim });
+    }
+  }
+
+  private selectVictim(): ContentCacheEntry {
+    const byRecency = (a: ContentCacheEntry, b: ContentCacheEntry) =>
+      a.lastAccessed.getTime() - b.lastAccessed.getTime();
+    const byFrequency = (a: ContentCacheEntry, b: ContentCacheEntry) =>
+      a.accessCount - b.accessCount || byRecency(a, b);
+
+    const compare = this.config.evictionPolicy === "lfu" ? byFrequency : byRecency;
+    return Array.from(this.entries.values()).reduce((victim, entry) =>
+      compare(entry, victim) < 0 ? entry : victim,
+    );
+  }
+
+  private recordHit(entry: ContentCacheEntry): ContentCacheEntry {
+    entry.accessCount++;
+    entry.lastAccessed = new Date();
+    this.stats.hits++;
+    this.persist();
+
+    this.emit("hit", { cid: entry.cid, entry });
+    return { ...entry };
+  }
+
+  /**
+   * Hold verified content in memory with HYBRID storage, if it fits
+   */
+  private async keepInMemory(cid: string, filePath: string, size: number): Promise<void> {
+    if (this.memory && size <= this.config.memorySize) {
+      this.memory.set(cid, await fs.readFile(filePath), size);
+    }
+  }
+
+  private async discardCorrupt(
+    entry: ContentCacheEntry,
+    reason: string,
+  ): Promise<ContentCacheEntry | undefined> {
+    this.stats.corrupted++;
+    this.stats.misses++;
+    this.logger.warn("Discarding damaged cached content", { cid: entry.cid, reason });
+
+    await this.remove(entry);
+    this.persist();
+
+    this.emit("corrupt", { cid: entry.cid, reason });
+    this.emit("miss", { cid: entry.cid });
+    return undefined;
+  }
+
+  private async remove(entry: ContentCacheEntry): Promise<void> {
+    this.memory?.delete(entry.cid);
+    if (this.entries.get(entry.cid) === entry) {
+      this.entries.delete(entry.cid);
+      this.currentSize -= entry.size;
+    }
+    await fs.unlink(this.blobPath(entry.cid)).catch(() => undefined);
+  }
+
+  /**
+   * Load the index once, dropping entries whose blob has gone missing
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readIndex();
+    }
+    return this.loaded;
+  }
+
+  private async readIndex(): Promise<void> {
+    let index: ContentCacheIndex;
+    try {
+      index = JSON.parse(await fs.readFile(this.indexPath(), "utf-8")) as ContentCacheIndex;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.logger.warn("Content cache index unreadable, starting empty", {
+          error: (error as Error).message,
+        });
+      }
+      return;
+    }
+
+    for (const stored of index.entries ?? []) {
+      if (!CID_PATTERN.test(stored.cid)) continue;
+      try {
+        const { size } = await fs.stat(this.blobPath(stored.cid));
+        if (size !== stored.size) continue;
+      } catch {
+        continue;
+      }
+
+      const entry: ContentCacheEntry = {
+        ...stored,
+        lastAccessed: new Date(stored.lastAccessed),
+        createdAt: new Date(stored.createdAt),
+      };
+      this.entries.set(entry.cid, entry);
+      this.currentSize += entry.size;
+    }
+
+    this.logger.debug("Content cache index loaded", {
+      entries: this.entries.size,
+      size: this.currentSize,
+    });
+  }
+
+  /**
+   * Write the index atomically, one write at a time
+   */
+  private persist(): void {
+    const index: ContentCacheIndex = {
+      version: 1,
+      entries: Array.from(this.entries.values()),
+    };
+
+    this.indexWrite = this.indexWrite
+      .then(async () => {
+        const target = this.indexPath();
+        const temp = `${target}.tmp`;
+        await fs.mkdir(this.config.directory, { recursive: true });
+        await fs.writeFile(temp, JSON.stringify(index), "utf-8");
+        await fs.rename(temp, target);
+      })
+      .catch((error) => {
+        this.logger.warn("Failed to write content cache index", {
+          error: (error as Error).message,
+        });
+      });
+  }
+
+  private blobPath(cid: string): string {
+    return path.join(this.config.directory, "blobs", cid);
+  }
+
+  private indexPath(): string {
+    return path.join(this.config.directory, "index.json");
+  }
+}
+
+/**
+ * Copy a file, returning the SHA-256 (hex) of the bytes copied
+ */
+async function copyWithHash(source: string, target: string): Promise<string> {
+  const hash = createHash("sha256");
+  await pipeline(
+    createReadStream(source),
+    new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        hash.update(chunk);
+        callback(null, chunk);
+      },
+    }),
+    createWriteStream(target),
+  );
+  return hash.digest("hex");
+}
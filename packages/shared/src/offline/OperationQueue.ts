@@ -21,15 +21,30 @@ export enum OperationType {
   UPDATE_DATASET = "update_dataset",
 }
 
+/**
+ * Processing lane; interactive operations always run before background ones
+ */
+export enum OperationPriority {
+  INTERACTIVE = "interactive",
+  BACKGROUND = "background",
+}
+
 export interface QueuedOperation {
   id: string;
   type: OperationType;
   status: OperationStatus;
+  priority: OperationPriority;
   params: Record<string, unknown>;
+  /** Operations that must complete before this one runs */
+  dependsOn: string[];
   createdAt: Date;
   updatedAt: Date;
   retryCount: number;
   maxRetries: number;
+  /** Earliest time of the next attempt while backing off */
+  nextAttemptAt?: Date;
+  /** Set while the operation is in the dead-letter store */
+  deadLetteredAt?: Date;
   error?: string;
   result?: unknown;
 }
@@ -37,25 +52,56 @@ export interface QueuedOperation {
 export interface OperationQueueConfig {
   maxQueueSize?: number;
   maxRetries?: number;
+  /** Delay before the first retry; doubled on each further attempt */
   retryDelay?: number;
+  /** Upper bound for the retry delay */
+  maxRetryDelay?: number;
+  /** Random spread applied to each retry delay, as a fraction of it (0-1) */
+  retryJitter?: number;
+  /** Dead-lettered operations kept before the oldest are dropped */
+  maxDeadLetters?: number;
   persistenceEnabled?: boolean;
   persistencePath?: string;
 }
 
+export interface EnqueueOptions {
+  maxRetries?: number;
+  priority?: OperationPriority;
+  /** IDs of queued operations that must complete first */
+  dependsOn?: string[];
+}
+
+/**
+ * Changes that can be made to a dead-lettered operation before replaying it
+ */
+export interface DeadLetterUpdate {
+  params?: Record<string, unknown>;
+  priority?: OperationPriority;
+  maxRetries?: number;
+}
+
 export interface OperationExecutor {
   execute(operation: QueuedOperation): Promise<unknown>;
   canExecute(): Promise<boolean>;
 }
 
 /**
- * Operation Queue with offline support and retry logic
+ * Operation Queue with offline support and retry logic.
+ *
+ * Operations run one at a time, interactive before background, once their
+ * dependencies have completed. Failures are retried with exponential backoff;
+ * operations that run out of retries (or whose dependency failed) move to a
+ * dead-letter store where they can be inspected, edited and replayed.
  */
 export class OperationQueue extends EventEmitter {
   private queue: Map<string, QueuedOperation> = new Map();
+  private deadLetters: Map<string, QueuedOperation> = new Map();
   private logger: Logger;
   private config: Required<OperationQueueConfig>;
   private isProcessing = false;
   private executor: OperationExecutor | null = null;
+  private processTimer?: NodeJS.Timeout;
+  private processTimerDue = 0;
 
   constructor(config: OperationQueueConfig = {}) {
     super();
@@ -63,6 +109,9 @@ export class OperationQueue extends EventEmitter {
       maxQueueSize: config.maxQueueSize ?? 100,
       maxRetries: config.maxRetries ?? 3,
       retryDelay: config.retryDelay ?? 5000, // 5 seconds
+      maxRetryDelay: config.maxRetryDelay ?? 5 * 60 * 1000, // 5 minutes
+      retryJitter: config.retryJitter ?? 0.2,
+      maxDeadLetters: config.maxDeadLetters ?? 100,
       persistenceEnabled: config.persistenceEnabled ?? true,
       persistencePath: config.persistencePath ?? ".lighthouse-queue",
     };
@@ -86,20 +135,24 @@ export class OperationQueue extends EventEmitter {
   async enqueue(
     type: OperationType,
     params: Record<string, unknown>,
-    options: { maxRetries?: number } = {},
+    options: EnqueueOptions = {},
   ): Promise<string> {
-    // Check queue size limit
-    if (this.queue.size >= this.config.maxQueueSize) {
-      throw new Error(
-        `Queue size limit reached (${this.config.maxQueueSize}). Please wait for pending operations to complete.`,
-      );
+    this.assertCapacity();
+
+    const dependsOn = options.dependsOn ?? [];
+    for (const dependencyId of dependsOn) {
+      if (!this.getOperation(dependencyId)) {
+        throw new Error(`Unknown dependency: ${dependencyId}`);
+      }
     }
 
     const operation: QueuedOperation = {
       id: this.generateId(),
       type,
       status: OperationStatus.PENDING,
+      priority: options.priority ?? OperationPriority.BACKGROUND,
       params,
+      dependsOn,
       createdAt: new Date(),
       updatedAt: new Date(),
       retryCount: 0,
@@ -110,6 +163,8 @@ export class OperationQueue extends EventEmitter {
     this.logger.info("Operation enqueued", {
       id: operation.id,
       type: operation.type,
+      priority: operation.priority,
+      dependsOn,
     });
 
     this.emit("enqueued", operation);
@@ -129,14 +184,14 @@ export class OperationQueue extends EventEmitter {
    * Get operation status
    */
   getOperation(id: string): QueuedOperation | undefined {
-    return this.queue.get(id);
+    return this.queue.get(id) ?? this.deadLetters.get(id);
   }
 
   /**
-   * Get all operations
+   * Get all operations, including dead-lettered ones
    */
   getAllOperations(): QueuedOperation[] {
-    return Array.from(this.queue.values());
+    return [...Array.from(this.queue.values()), ...Array.from(this.deadLetters.values())];
   }
 
   /**
@@ -150,7 +205,14 @@ export class OperationQueue extends EventEmitter {
    * Get failed operations
    */
   getFailedOperations(): QueuedOperation[] {
-    return this.getAllOperations().filter((op) => op.status === OperationStatus.FAILED);
+    return this.getDeadLetters();
+  }
+
+  /**
+   * Get dead-lettered operations, oldest first
+   */
+  getDeadLetters(): QueuedOperation[] {
+    return Array.from(this.deadLetters.values());
   }
 
   /**
@@ -172,6 +234,7 @@ export class OperationQueue extends EventEmitter {
 
     this.logger.info("Operation cancelled", { id });
     this.emit("cancelled", operation);
+    this.deadLetterBlockedOperations();
 
     if (this.config.persistenceEnabled) {
       await this.persistQueue();
@@ -184,15 +247,53 @@ export class OperationQueue extends EventEmitter {
    * Retry failed operation
    */
   async retryOperation(id: string): Promise<boolean> {
-    const operation = this.queue.get(id);
-    if (!operation || operation.status !== OperationStatus.FAILED) {
+    return this.replayDeadLetter(id);
+  }
+
+  /**
+   * Edit a dead-lettered operation without replaying it
+   */
+  async updateDeadLetter(
+    id: string,
+    changes: DeadLetterUpdate,
+  ): Promise<QueuedOperation | undefined> {
+    const operation = this.deadLetters.get(id);
+    if (!operation) {
+      return undefined;
+    }
+
+    this.applyUpdate(operation, changes);
+
+    this.logger.info("Dead-lettered operation updated", { id });
+    this.emit("dead_letter_updated", operation);
+
+    if (this.config.persistenceEnabled) {
+      await this.persistQueue();
+    }
+
+    return operation;
+  }
+
+  /**
+   * Move a dead-lettered operation back into the queue with its retries reset,
+   * optionally editing it first
+   */
+  async replayDeadLetter(id: string, changes: DeadLetterUpdate = {}): Promise<boolean> {
+    const operation = this.deadLetters.get(id);
+    if (!operation) {
       return false;
     }
 
+    this.assertCapacity();
+    this.applyUpdate(operation, changes);
+
+    this.deadLetters.delete(id);
     operation.status = OperationStatus.PENDING;
     operation.retryCount = 0;
     operation.error = undefined;
-    operation.updatedAt = new Date();
+    operation.nextAttemptAt = undefined;
+    operation.deadLetteredAt = undefined;
+    this.queue.set(id, operation);
 
     this.logger.info("Operation retry requested", { id });
     this.emit("retry", operation);
@@ -207,6 +308,28 @@ export class OperationQueue extends EventEmitter {
     return true;
   }
 
+  /**
+   * Permanently remove a dead-lettered operation. Operations that depend on it
+   * no longer wait for it.
+   */
+  async discardDeadLetter(id: string): Promise<boolean> {
+    const operation = this.deadLetters.get(id);
+    if (!operation) {
+      return false;
+    }
+
+    this.deadLetters.delete(id);
+
+    this.logger.info("Dead-lettered operation discarded", { id });
+    this.emit("discarded", operation);
+
+    if (this.config.persistenceEnabled) {
+      await this.persistQueue();
+    }
+
+    return true;
+  }
+
   /**
    * Clear completed and cancelled operations
    */
@@ -257,15 +380,12 @@ export class OperationQueue extends EventEmitter {
         return;
       }
 
-      // Get pending operations
-      const pending = this.getPendingOperations();
-      if (pending.length === 0) {
-        return;
-      }
-
-      // Process operations sequentially
-      for (const operation of pending) {
+      // Process operations sequentially, picking the next one each time so that
+      // interactive operations enqueued meanwhile jump ahead of background ones
+      let operation = this.nextReadyOperation();
+      while (operation && this.executor) {
         await this.processOperation(operation);
+        operation = this.nextReadyOperation();
       }
     } catch (error) {
       this.logger.error("Error processing queue", error as Error);
@@ -273,13 +393,153 @@ export class OperationQueue extends EventEmitter {
       this.isProcessing = false;
 
       // Check if there are still pending operations
-      if (this.getPendingOperations().length > 0) {
-        // Schedule next processing
-        setTimeout(() => this.processQueue(), this.config.retryDelay);
+      const pending = this.getPendingOperations();
+      if (pending.length > 0 && this.executor) {
+        // Wake up for the earliest backoff to expire, or poll the executor again
+        const now = Date.now();
+        const backoffs = pending
+          .map((op) => op.nextAttemptAt?.getTime() ?? 0)
+          .filter((due) => due > now);
+        const delay = backoffs.length > 0 ? Math.min(...backoffs) - now : this.config.retryDelay;
+        this.scheduleProcessing(delay);
       }
     }
   }
 
+  /**
+   * Schedule a processing run, keeping an earlier one if already scheduled
+   */
+  private scheduleProcessing(delay: number): void {
+    const due = Date.now() + delay;
+    if (this.processTimer && this.processTimerDue <= due) {
+      return;
+    }
+
+    clearTimeout(this.processTimer);
+    this.processTimerDue = due;
+    this.processTimer = setTimeout(() => {
+      this.processTimer = undefined;
+      this.processQueue();
+    }, delay);
+  }
+
+  /**
+   * Highest-priority pending operation that is out of backoff and whose
+   * dependencies have completed
+   */
+  private nextReadyOperation(): QueuedOperation | undefined {
+    this.deadLetterBlockedOperations();
+
+    const now = Date.now();
+    const ready = this.getPendingOperations().filter(
+      (op) =>
+        (!op.nextAttemptAt || op.nextAttemptAt.getTime() <= now) &&
+        op.dependsOn.every((id) => this.isDependencyComplete(id)),
+    );
+
+    const lane = (op: QueuedOperation) => (op.priority === OperationPriority.INTERACTIVE ? 0 : 1);
+    ready.sort((a, b) => lane(a) - lane(b) || a.createdAt.getTime() - b.createdAt.getTime());
+
+    return ready[0];
+  }
+
+  /**
+   * Completed dependencies, and those cleared or discarded since, no longer block
+   */
+  private isDependencyComplete(id: string): boolean {
+    const dependency = this.getOperation(id);
+    return !dependency || dependency.status === OperationStatus.COMPLETED;
+  }
+
+  /**
+   * Dead-letter pending operations whose dependency failed or was cancelled,
+   * following the chain through operations that depend on those
+   */
+  private deadLetterBlockedOperations(): void {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const operation of this.getPendingOperations()) {
+        const failed = operation.dependsOn.find((id) => {
+          const dependency = this.getOperation(id);
+          return (
+            dependency?.status === OperationStatus.FAILED ||
+            dependency?.status === OperationStatus.CANCELLED
+          );
+        });
+
+        if (failed) {
+          operation.error = `Dependency ${failed} did not complete`;
+          this.moveToDeadLetter(operation);
+          this.emit("failed", operation);
+          changed = true;
+        }
+      }
+    }
+  }
+
+  /**
+   * Move an operation into the dead-letter store, dropping the oldest entries
+   * beyond `maxDeadLetters`
+   */
+  private moveToDeadLetter(operation: QueuedOperation): void {
+    operation.status = OperationStatus.FAILED;
+    operation.nextAttemptAt = undefined;
+    operation.deadLetteredAt = new Date();
+    operation.updatedAt = new Date();
+
+    this.queue.delete(operation.id);
+    this.deadLetters.set(operation.id, operation);
+
+    this.logger.warn("Operation moved to dead-letter store", {
+      id: operation.id,
+      type: operation.type,
+      error: operation.error,
+    });
+
+    this.emit("dead_lettered", operation);
+
+    while (this.deadLetters.size > this.config.maxDeadLetters) {
+      const [oldestId, oldest] = this.deadLetters.entries().next().value as [
+        string,
+        QueuedOperation,
+      ];
+      this.deadLetters.delete(oldestId);
+      this.logger.warn("Dead-letter store full, dropped oldest operation", {
+        id: oldestId,
+        type: oldest.type,
+      });
+      this.emit("discarded", oldest);
+    }
+  }
+
+  private applyUpdate(operation: QueuedOperation, changes: DeadLetterUpdate): void {
+    if (changes.params !== undefined) operation.params = changes.params;
+    if (changes.priority !== undefined) operation.priority = changes.priority;
+    if (changes.maxRetries !== undefined) operation.maxRetries = changes.maxRetries;
+    operation.updatedAt = new Date();
+  }
+
+  /**
+   * Exponential backoff with jitter for the given attempt (1-based)
+   */
+  private getRetryDelay(retryCount: number): number {
+    const base = Math.min(
+      this.config.maxRetryDelay,
+      this.config.retryDelay * 2 ** (retryCount - 1),
+    );
+    const jitter = base * this.config.retryJitter * (Math.random() * 2 - 1);
+    return Math.max(0, Math.round(base + jitter));
+  }
+
+  private assertCapacity(): void {
+    if (this.queue.size >= this.config.maxQueueSize) {
+      throw new Error(
+        `Queue size limit reached (${this.config.maxQueueSize}). Please wait for pending operations to complete.`,
+      );
+    }
+  }
+
   /**
    * Process single operation
    */
@@ -297,6 +557,7 @@ export class OperationQueue extends EventEmitter {
 
       operation.status = OperationStatus.COMPLETED;
       operation.result = result;
+      operation.error = undefined;
       operation.updatedAt = new Date();
 
       this.logger.info("Operation completed", {
@@ -317,20 +578,24 @@ export class OperationQueue extends EventEmitter {
       operation.updatedAt = new Date();
 
       if (operation.retryCount >= operation.maxRetries) {
-        operation.status = OperationStatus.FAILED;
         this.logger.error("Operation failed (max retries reached)", error as Error, {
           id: operation.id,
           type: operation.type,
           retries: operation.retryCount,
         });
+        this.moveToDeadLetter(operation);
         this.emit("failed", operation);
+        this.deadLetterBlockedOperations();
       } else {
+        const delay = this.getRetryDelay(operation.retryCount);
         operation.status = OperationStatus.PENDING;
+        operation.nextAttemptAt = new Date(Date.now() + delay);
         this.logger.warn("Operation failed, will retry", {
           id: operation.id,
           type: operation.type,
           retries: operation.retryCount,
           maxRetries: operation.maxRetries,
+          delay,
         });
         this.emit("retry_scheduled", operation);
       }
@@ -355,36 +620,45 @@ export class OperationQueue extends EventEmitter {
     // This will be implemented based on the environment (Node.js fs or browser storage)
     // For now, just emit an event that can be handled by the extension
     this.emit("persist_required", {
-      operations: this.getAllOperations(),
+      operations: Array.from(this.queue.values()),
+      deadLetters: this.getDeadLetters(),
       path: this.config.persistencePath,
     });
   }
 
   /**
-   * Load queue from storage
+   * Load queue from storage. Operations that were running when the queue was
+   * persisted run again; failed operations from older queue files are dead-lettered.
    */
-  async loadQueue(operations: QueuedOperation[]): Promise<void> {
+  async loadQueue(
+    operations: QueuedOperation[],
+    deadLetters: QueuedOperation[] = [],
+  ): Promise<void> {
     this.queue.clear();
-
-    for (const operation of operations) {
-      // Restore dates
-      operation.createdAt = new Date(operation.createdAt);
-      operation.updatedAt = new Date(operation.updatedAt);
-
-      // Only restore pending and failed operations
-      if (
-        operation.status === OperationStatus.PENDING ||
-        operation.status === OperationStatus.FAILED
-      ) {
-        this.queue.set(operation.id, operation);
+    this.deadLetters.clear();
+
+    for (const operation of [...operations, ...deadLetters].map(restoreOperation)) {
+      switch (operation.status) {
+        case OperationStatus.PROCESSING:
+          operation.status = OperationStatus.PENDING;
+          this.queue.set(operation.id, operation);
+          break;
+        case OperationStatus.PENDING:
+          this.queue.set(operation.id, operation);
+          break;
+        case OperationStatus.FAILED:
+          operation.deadLetteredAt ??= operation.updatedAt;
+          this.deadLetters.set(operation.id, operation);
+          break;
       }
     }
 
     this.logger.info("Queue loaded from storage", {
       count: this.queue.size,
+      deadLetters: this.deadLetters.size,
     });
 
-    this.emit("loaded", { count: this.queue.size });
+    this.emit("loaded", { count: this.queue.size, deadLetters: this.deadLetters.size });
 
     // Start processing
     if (this.queue.size > 0) {
@@ -420,14 +694,32 @@ export class OperationQueue extends EventEmitter {
   async dispose(): Promise<void> {
     this.isProcessing = false;
     this.executor = null;
+    clearTimeout(this.processTimer);
+    this.processTimer = undefined;
 
     if (this.config.persistenceEnabled) {
       await this.persistQueue();
     }
 
     this.queue.clear();
+    this.deadLetters.clear();
     this.removeAllListeners();
 
     this.logger.info("Operation queue disposed");
   }
 }
+
+/**
+ * Revive a persisted operation, filling in fields added since it was written
+ */
+function restoreOperation(operation: QueuedOperation): QueuedOperation {
+  return {
+    ...operation,
+    priority: operation.priority ?? OperationPriority.BACKGROUND,
+    dependsOn: operation.dependsOn ?? [],
+    createdAt: new Date(operation.createdAt),
+    updatedAt: new Date(operation.updatedAt),
+    nextAttemptAt: operation.nextAttemptAt ? new Date(operation.nextAttemptAt) : undefined,
+    deadLetteredAt: operation.deadLetteredAt ? new Date(operation.deadLetteredAt) : undefined,
+  };
+}
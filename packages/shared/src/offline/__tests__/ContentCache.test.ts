@@ -0,0 +1,173 @@
+/**
+ * Tests for Content Cache
+ */
+
+import { promises as fs } from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ContentCache } from "../ContentCache";
+
+describe("ContentCache", () => {
+  let testDir: string;
+  let cacheDir: string;
+  let cache: ContentCache;
+
+  const writeSource = async (name: string, content: string): Promise<string> => {
+    const filePath = path.join(testDir, "source", name);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  const output = (name: string) => path.join(testDir, "output", name);
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), "content-cache-test-"));
+    cacheDir = path.join(testDir, "cache");
+    cache = new ContentCache({ directory: cacheDir, maxSize: 100 });
+  });
+
+  afterEach(async () => {
+    await cache.flush();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe("put and copyTo", () => {
+    it("should copy cached content to the output path", async () => {
+      await cache.put("QmHello", await writeSource("hello.txt", "hello world"));
+
+      const entry = await cache.copyTo("QmHello", output("hello.txt"));
+
+      expect(entry).toMatchObject({ cid: "QmHello", size: 11, accessCount: 1 });
+      expect(await fs.readFile(output("hello.txt"), "utf-8")).toBe("hello world");
+      expect(cache.getStats()).toMatchObject({ hits: 1, misses: 0, entries: 1, size: 11 });
+    });
+
+    it("should miss on unknown content", async () => {
+      const misses: string[] = [];
+      cache.on("miss", ({ cid }) => misses.push(cid));
+
+      expect(await cache.copyTo("QmMissing", output("missing.txt"))).toBeUndefined();
+      expect(misses).toEqual(["QmMissing"]);
+      await expect(fs.access(output("missing.txt"))).rejects.toThrow();
+    });
+
+    it("should reject CIDs that are not plain identifiers", async () => {
+      const source = await writeSource("escape.txt", "x");
+
+      await expect(cache.put("../escape", source)).rejects.toThrow("Invalid CID");
+    });
+
+    it("should not cache content larger than the budget", async () => {
+      const source = await writeSource("large.bin", "x".repeat(101));
+
+      expect(await cache.put("QmLarge", source)).toBeUndefined();
+      expect(await cache.has("QmLarge")).toBe(false);
+    });
+  });
+
+  describe("integrity", () => {
+    it("should discard content that no longer matches its checksum", async () => {
+      await cache.put("QmDamaged", await writeSource("data.txt", "original"));
+      await fs.writeFile(path.join(cacheDir, "blobs", "QmDamaged"), "tampered");
+
+      const corrupt: string[] = [];
+      cache.on("corrupt", ({ cid }) => corrupt.push(cid));
+
+      expect(await cache.copyTo("QmDamaged", output("data.txt"))).toBeUndefined();
+      expect(corrupt).toEqual(["QmDamaged"]);
+      expect(await cache.has("QmDamaged")).toBe(false);
+      expect(cache.getStats().corrupted).toBe(1);
+      await expect(fs.access(output("data.txt"))).rejects.toThrow();
+    });
+  });
+
+  describe("eviction", () => {
+    it("should evict the least recently read content first", async () => {
+      await cache.put("QmA", await writeSource("a", "a".repeat(40)));
+      await cache.put("QmB", await writeSource("b", "b".repeat(40)));
+      await cache.copyTo("QmA", output("a"));
+
+      await cache.put("QmC", await writeSource("c", "c".repeat(40)));
+
+      expect(await cache.has("QmA")).toBe(true);
+      expect(await cache.has("QmB")).toBe(false);
+      expect(await cache.has("QmC")).toBe(true);
+      expect(cache.getStats()).toMatchObject({ evictions: 1, size: 80 });
+    });
+
+    it("should evict the least frequently read content with lfu", async () => {
+      cache = new ContentCache({ directory: cacheDir, maxSize: 100, evictionPolicy: "lfu" });
+      await cache.put("QmA", await writeSource("a", "a".repeat(40)));
+      await cache.put("QmB", await writeSource("b", "b".repeat(40)));
+      await cache.copyTo("QmA", output("a"));
+      await cache.copyTo("QmA", output("a"));
+      await cache.copyTo("QmB", output("b"));
+
+      await cache.put("QmC", await writeSource("c", "c".repeat(40)));
+
+      expect(await cache.has("QmA")).toBe(true);
+      expect(await cache.has("QmB")).toBe(false);
+    });
+  });
+
+  describe("hybrid storage", () => {
+    let hybrid: ContentCache;
+
+    beforeEach(() => {
+      hybrid = new ContentCache({
+        directory: path.join(testDir, "hybrid"),
+        maxSize: 100,
+        storageType: "hybrid",
+        memorySize: 20,
+      });
+    });
+
+    afterEach(async () => {
+      await hybrid.flush();
+    });
+
+    it("should serve recent content from memory without reading the blob", async () => {
+      await hybrid.put("QmHot", await writeSource("hot.txt", "hot content"));
+      await fs.rm(path.join(testDir, "hybrid", "blobs"), { recursive: true, force: true });
+
+      const entry = await hybrid.copyTo("QmHot", output("hot.txt"));
+
+      expect(entry?.size).toBe(11);
+      expect(await fs.readFile(output("hot.txt"), "utf-8")).toBe("hot content");
+    });
+
+    it("should read content that does not fit in memory from disk", async () => {
+      await hybrid.put("QmLarge", await writeSource("large.txt", "x".repeat(30)));
+      await fs.rm(path.join(testDir, "hybrid", "blobs"), { recursive: true, force: true });
+
+      expect(await hybrid.copyTo("QmLarge", output("large.txt"))).toBeUndefined();
+      expect(hybrid.getStats().corrupted).toBe(1);
+    });
+  });
+
+  describe("persistence", () => {
+    it("should keep cached content across restarts", async () => {
+      await cache.put("QmKept", await writeSource("kept.txt", "kept"));
+      await cache.flush();
+
+      const restarted = new ContentCache({ directory: cacheDir, maxSize: 100 });
+      const entry = await restarted.copyTo("QmKept", output("kept.txt"));
+
+      expect(entry?.createdAt).toBeInstanceOf(Date);
+      expect(await fs.readFile(output("kept.txt"), "utf-8")).toBe("kept");
+      await restarted.flush();
+    });
+
+    it("should drop index entries whose blob is missing", async () => {
+      await cache.put("QmGone", await writeSource("gone.txt", "gone"));
+      await cache.flush();
+      await fs.unlink(path.join(cacheDir, "blobs", "QmGone"));
+
+      const restarted = new ContentCache({ directory: cacheDir, maxSize: 100 });
+
+      expect(await restarted.has("QmGone")).toBe(false);
+      expect(restarted.getStats().size).toBe(0);
+    });
+  });
+});
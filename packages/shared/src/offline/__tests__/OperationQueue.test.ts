@@ -6,6 +6,7 @@ import {
   OperationQueue,
   OperationType,
   OperationStatus,
+  OperationPriority,
   OperationExecutor,
   QueuedOperation,
 } from "../OperationQueue";
@@ -13,8 +14,10 @@ import {
 class MockExecutor implements OperationExecutor {
   private shouldSucceed = true;
   private canExecuteValue = true;
+  executed: QueuedOperation[] = [];
 
   async execute(operation: QueuedOperation): Promise<unknown> {
+    this.executed.push({ ...operation });
     if (!this.shouldSucceed) {
       throw new Error("Mock execution failed");
     }
@@ -240,4 +243,208 @@ describe("OperationQueue", () => {
       expect(listener).toHaveBeenCalled();
     });
   });
+
+  describe("priorities", () => {
+    it("should run interactive operations before background ones", async () => {
+      executor.setCanExecute(false);
+      const first = await queue.enqueue(OperationType.UPLOAD_FILE, {});
+      const second = await queue.enqueue(OperationType.UPLOAD_FILE, {});
+      const interactive = await queue.enqueue(
+        OperationType.FETCH_FILE,
+        {},
+        { priority: OperationPriority.INTERACTIVE },
+      );
+
+      executor.setCanExecute(true);
+      await new Promise((resolve) => setTimeout(resolve, 300));
+
+      expect(executor.executed.map((op) => op.id)).toEqual([interactive, first, second]);
+    });
+  });
+
+  describe("dependencies", () => {
+    it("should wait for dependencies to complete", async () => {
+      executor.setCanExecute(false);
+      const upload = await queue.enqueue(OperationType.UPLOAD_FILE, {});
+      const dataset = await queue.enqueue(
+        OperationType.CREATE_DATASET,
+        {},
+        { priority: OperationPriority.INTERACTIVE, dependsOn: [upload] },
+      );
+
+      executor.setCanExecute(true);
+      await new Promise((resolve) => setTimeout(resolve, 300));
+
+      expect(executor.executed.map((op) => op.id)).toEqual([upload, dataset]);
+      expect(queue.getOperation(dataset)?.status).toBe(OperationStatus.COMPLETED);
+    });
+
+    it("should reject unknown dependencies", async () => {
+      await expect(
+        queue.enqueue(OperationType.CREATE_DATASET, {}, { dependsOn: ["op_missing"] }),
+      ).rejects.toThrow("Unknown dependency: op_missing");
+    });
+
+    it("should dead-letter operations whose dependency failed", async () => {
+      executor.setShouldSucceed(false);
+      const upload = await queue.enqueue(OperationType.UPLOAD_FILE, {}, { maxRetries: 1 });
+      const dataset = await queue.enqueue(
+        OperationType.CREATE_DATASET,
+        {},
+        { dependsOn: [upload] },
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(executor.executed.map((op) => op.id)).toEqual([upload]);
+      expect(queue.getDeadLetters().map((op) => op.id)).toEqual([upload, dataset]);
+      expect(queue.getOperation(dataset)?.error).toBe(`Dependency ${upload} did not complete`);
+    });
+  });
+
+  describe("backoff", () => {
+    it("should double the delay on each retry up to the maximum", async () => {
+      await queue.dispose();
+      queue = new OperationQueue({
+        maxRetries: 4,
+        retryDelay: 50,
+        maxRetryDelay: 150,
+        retryJitter: 0,
+        persistenceEnabled: false,
+      });
+      queue.setExecutor(executor);
+
+      const delays: number[] = [];
+      queue.on("retry_scheduled", (operation: QueuedOperation) => {
+        delays.push(operation.nextAttemptAt!.getTime() - operation.updatedAt.getTime());
+      });
+
+      executor.setShouldSucceed(false);
+      await queue.enqueue(OperationType.UPLOAD_FILE, {});
+      await new Promise((resolve) => setTimeout(resolve, 600));
+
+      expect(delays).toHaveLength(3);
+      expect(delays[0]).toBeGreaterThanOrEqual(50);
+      expect(delays[0]).toBeLessThan(60);
+      expect(delays[1]).toBeGreaterThanOrEqual(100);
+      expect(delays[1]).toBeLessThan(110);
+      expect(delays[2]).toBeGreaterThanOrEqual(150);
+      expect(delays[2]).toBeLessThan(160);
+    });
+  });
+
+  describe("dead letters", () => {
+    const deadLetter = async (): Promise<string> => {
+      executor.setShouldSucceed(false);
+      const id = await queue.enqueue(
+        OperationType.UPLOAD_FILE,
+        { filePath: "/typo.txt" },
+        {
+          maxRetries: 1,
+        },
+      );
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      return id;
+    };
+
+    it("should move operations out of the queue after max retries", async () => {
+      const id = await deadLetter();
+
+      const [operation] = queue.getDeadLetters();
+      expect(operation.id).toBe(id);
+      expect(operation.deadLetteredAt).toBeInstanceOf(Date);
+      expect(queue.getPendingOperations()).toHaveLength(0);
+      expect(queue.getStats()).toMatchObject({ total: 1, failed: 1 });
+    });
+
+    it("should replay an edited operation", async () => {
+      const id = await deadLetter();
+      await queue.updateDeadLetter(id, { priority: OperationPriority.INTERACTIVE });
+
+      executor.setShouldSucceed(true);
+      const replayed = await queue.replayDeadLetter(id, { params: { filePath: "/fixed.txt" } });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(replayed).toBe(true);
+      expect(executor.executed.at(-1)).toMatchObject({
+        id,
+        priority: OperationPriority.INTERACTIVE,
+        params: { filePath: "/fixed.txt" },
+      });
+      expect(queue.getOperation(id)?.status).toBe(OperationStatus.COMPLETED);
+      expect(queue.getDeadLetters()).toHaveLength(0);
+    });
+
+    it("should discard dead-lettered operations", async () => {
+      const id = await deadLetter();
+
+      expect(await queue.discardDeadLetter(id)).toBe(true);
+      expect(queue.getOperation(id)).toBeUndefined();
+      expect(await queue.discardDeadLetter(id)).toBe(false);
+    });
+
+    it("should drop the oldest dead letters beyond the limit", async () => {
+      await queue.dispose();
+      queue = new OperationQueue({ maxRetries: 1, maxDeadLetters: 1, persistenceEnabled: false });
+      queue.setExecutor(executor);
+
+      const first = await deadLetter();
+      const second = await deadLetter();
+
+      expect(queue.getOperation(first)).toBeUndefined();
+      expect(queue.getDeadLetters().map((op) => op.id)).toEqual([second]);
+    });
+  });
+
+  describe("persistence", () => {
+    const stored = (id: string, status: OperationStatus) =>
+      ({
+        id,
+        type: OperationType.UPLOAD_FILE,
+        status,
+        params: {},
+        createdAt: "2026-01-01T00:00:00.000Z",
+        updatedAt: "2026-01-01T00:00:00.000Z",
+        retryCount: 0,
+        maxRetries: 3,
+      }) as unknown as QueuedOperation;
+
+    it("should persist queued and dead-lettered operations separately", async () => {
+      await queue.dispose();
+      queue = new OperationQueue({ maxRetries: 1, persistenceEnabled: true });
+      queue.setExecutor(executor);
+      const persisted = jest.fn();
+      queue.on("persist_required", persisted);
+
+      executor.setShouldSucceed(false);
+      const failed = await queue.enqueue(OperationType.UPLOAD_FILE, {});
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      executor.setCanExecute(false);
+      const pending = await queue.enqueue(OperationType.FETCH_FILE, {});
+
+      const [{ operations, deadLetters }] = persisted.mock.calls.at(-1);
+      expect(operations.map((op: QueuedOperation) => op.id)).toEqual([pending]);
+      expect(deadLetters.map((op: QueuedOperation) => op.id)).toEqual([failed]);
+    });
+
+    it("should restore interrupted operations and dead-letter old failures", async () => {
+      executor.setCanExecute(false);
+
+      await queue.loadQueue([
+        stored("op_interrupted", OperationStatus.PROCESSING),
+        stored("op_failed", OperationStatus.FAILED),
+        stored("op_done", OperationStatus.COMPLETED),
+      ]);
+
+      const interrupted = queue.getOperation("op_interrupted");
+      expect(interrupted).toMatchObject({
+        status: OperationStatus.PENDING,
+        priority: OperationPriority.BACKGROUND,
+        dependsOn: [],
+      });
+      expect(interrupted?.createdAt).toBeInstanceOf(Date);
+      expect(queue.getDeadLetters().map((op) => op.id)).toEqual(["op_failed"]);
+      expect(queue.getOperation("op_done")).toBeUndefined();
+    });
+  });
 });
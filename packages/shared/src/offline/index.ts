@@ -3,11 +3,30 @@
  * @fileoverview Exports for offline queue and connection monitoring
  */
 
-export { OperationQueue, OperationStatus, OperationType } from "./OperationQueue.js";
-export type { QueuedOperation, OperationQueueConfig, OperationExecutor } from "./OperationQueue.js";
+export {
+  OperationQueue,
+  OperationStatus,
+  OperationType,
+  OperationPriority,
+} from "./OperationQueue.js";
+export type {
+  QueuedOperation,
+  OperationQueueConfig,
+  OperationExecutor,
+  EnqueueOptions,
+  DeadLetterUpdate,
+} from "./OperationQueue.js";
 
 export { ConnectionMonitor, ConnectionState } from "./ConnectionMonitor.js";
 export type { ConnectionMonitorConfig, ConnectionHealth } from "./ConnectionMonitor.js";
 
 export { FileCache } from "./FileCache.js";
 export type { CacheEntry, FileCacheConfig, CacheStats } from "./FileCache.js";
+
+export { ContentCache } from "./ContentCache.js";
+export type {
+  ContentCacheConfig,
+  ContentCacheEntry,
+  ContentCacheStats,
+  ContentEvictionPolicy,
+} from "./ContentCache.js";
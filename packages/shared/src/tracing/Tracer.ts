@@ -0,0 +1,354 @@
+/**
+ * Distributed Tracer
+ * @fileoverview OpenTelemetry-style spans with W3C trace context propagation
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { randomBytes } from "crypto";
+import { performance } from "perf_hooks";
+
+/**
+ * Span kinds, numbered as in OTLP
+ */
+export enum SpanKind {
+  INTERNAL = 1,
+  SERVER = 2,
+  CLIENT = 3,
+}
+
+/**
+ * Span status codes, numbered as in OTLP
+ */
+export enum SpanStatusCode {
+  UNSET = 0,
+  OK = 1,
+  ERROR = 2,
+}
+
+export type SpanAttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+export interface SpanContext {
+  /** 32 lowercase hex characters */
+  traceId: string;
+  /** 16 lowercase hex characters */
+  spanId: string;
+  /** W3C trace flags; bit 0 marks the trace as sampled */
+  traceFlags: number;
+}
+
+export interface SpanStatus {
+  code: SpanStatusCode;
+  message?: string;
+}
+
+export interface SpanEvent {
+  name: string;
+  /** Milliseconds since the epoch */
+  time: number;
+  attributes?: SpanAttributes;
+}
+
+/**
+ * A finished span as handed to exporters
+ */
+export interface ReadableSpan {
+  name: string;
+  kind: SpanKind;
+  spanContext: SpanContext;
+  parentSpanId?: string;
+  /** Milliseconds since the epoch, with sub-millisecond precision */
+  startTime: number;
+  endTime: number;
+  attributes: SpanAttributes;
+  events: SpanEvent[];
+  status: SpanStatus;
+  serviceName: string;
+}
+
+export interface SpanExporter {
+  export(spans: ReadableSpan[]): void | Promise<void>;
+  /** Write out anything buffered and release resources */
+  shutdown?(): Promise<void>;
+}
+
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+  /**
+   * Parent of the new span. Defaults to the active span; pass a remote context
+   * (e.g. from parseTraceparent) to continue a trace from another process,
+   * or null to start a new trace.
+   */
+  parent?: SpanContext | null;
+}
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const INVALID_TRACE_ID = "0".repeat(32);
+const INVALID_SPAN_ID = "0".repeat(16);
+
+/**
+ * Format a span context as a W3C traceparent header value
+ */
+export function formatTraceparent(context: SpanContext): string {
+  const flags = (context.traceFlags & 0xff).toString(16);
+  return `00-${context.traceId}-${context.spanId}-${flags.length === 1 ? "0" + flags : flags}`;
+}
+
+/**
+ * Parse a W3C traceparent header value. Returns null when it is missing or malformed.
+ */
+export function parseTraceparent(value: unknown): SpanContext | null {
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const match = TRACEPARENT_PATTERN.exec(value.trim().toLowerCase());
+  if (!match || match[1] === INVALID_TRACE_ID || match[2] === INVALID_SPAN_ID) {
+    return null;
+  }
+
+  return {
+    traceId: match[1] as string,
+    spanId: match[2] as string,
+    traceFlags: parseInt(match[3] as string, 16),
+  };
+}
+
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/**
+ * A unit of work within a trace. End it exactly once; later calls are ignored.
+ */
+export class Span {
+  readonly name: string;
+  readonly kind: SpanKind;
+  readonly parentSpanId?: string;
+  readonly startTime: number;
+  private context: SpanContext;
+  private attributes: SpanAttributes;
+  private events: SpanEvent[] = [];
+  private status: SpanStatus = { code: SpanStatusCode.UNSET };
+  private endTime?: number;
+
+  constructor(
+    private tracer: Tracer,
+    name: string,
+    context: SpanContext,
+    options: { kind: SpanKind; parentSpanId?: string; attributes?: SpanAttributes },
+  ) {
+    this.name = name;
+    this.context = context;
+    this.kind = options.kind;
+    this.parentSpanId = options.parentSpanId;
+    this.attributes = { ...options.attributes };
+    this.startTime = now();
+  }
+
+  spanContext(): SpanContext {
+    return { ...this.context };
+  }
+
+  /**
+   * The W3C traceparent header value to propagate this span to another process
+   */
+  traceparent(): string {
+    return formatTraceparent(this.context);
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue | undefined): this {
+    if (value !== undefined && !this.isEnded()) {
+      this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    Object.keys(attributes).forEach((key) => this.setAttribute(key, attributes[key]));
+    return this;
+  }
+
+  addEvent(name: string, attributes?: SpanAttributes): this {
+    if (!this.isEnded()) {
+      this.events.push({ name, time: now(), attributes });
+    }
+    return this;
+  }
+
+  setStatus(status: SpanStatus): this {
+    if (!this.isEnded()) {
+      this.status = { ...status };
+    }
+    return this;
+  }
+
+  /**
+   * Record an error as an `exception` event and mark the span as failed
+   */
+  recordException(error: unknown): this {
+    const err = error instanceof Error ? error : new Error(String(error));
+    this.addEvent("exception", {
+      "exception.type": err.name,
+      "exception.message": err.message,
+    });
+    return this.setStatus({ code: SpanStatusCode.ERROR, message: err.message });
+  }
+
+  isEnded(): boolean {
+    return this.endTime !== undefined;
+  }
+
+  end(): void {
+    if (this.isEnded()) {
+      return;
+    }
+    this.endTime = now();
+    this.tracer.onSpanEnd(this.toReadableSpan(this.endTime));
+  }
+
+  private toReadableSpan(endTime: number): ReadableSpan {
+    return {
+      name: this.name,
+      kind: this.kind,
+      spanContext: this.spanContext(),
+      parentSpanId: this.parentSpanId,
+      startTime: this.startTime,
+      endTime,
+      attributes: { ...this.attributes },
+      events: this.events.slice(),
+      status: { ...this.status },
+      serviceName: this.tracer.getServiceName(),
+    };
+  }
+}
+
+// Kept on the global object so copies of this package loaded from different
+// paths (source and dist, or two bundles) still share one tracer and context
+const TRACER_KEY = Symbol.for("@lighthouse-tooling/shared/tracer");
+
+/**
+ * Process-wide tracer. Spans are always created so context propagates, but they
+ * are only exported once an exporter has been added.
+ */
+export class Tracer {
+  private storage = new AsyncLocalStorage<Span>();
+  private exporters: SpanExporter[] = [];
+  private serviceName = "lighthouse";
+
+  /**
+   * Get the process-wide tracer
+   */
+  static getInstance(): Tracer {
+    const holder = globalThis as unknown as Record<symbol, Tracer | undefined>;
+    let tracer = holder[TRACER_KEY];
+    if (!tracer) {
+      tracer = new Tracer();
+      holder[TRACER_KEY] = tracer;
+    }
+    return tracer;
+  }
+
+  /**
+   * Name recorded as the `service.name` resource of exported spans
+   */
+  setServiceName(serviceName: string): void {
+    this.serviceName = serviceName;
+  }
+
+  getServiceName(): string {
+    return this.serviceName;
+  }
+
+  addExporter(exporter: SpanExporter): void {
+    if (!this.exporters.includes(exporter)) {
+      this.exporters.push(exporter);
+    }
+  }
+
+  /**
+   * Detach an exporter and shut it down
+   */
+  async removeExporter(exporter: SpanExporter): Promise<void> {
+    const index = this.exporters.indexOf(exporter);
+    if (index === -1) {
+      return;
+    }
+    this.exporters.splice(index, 1);
+    await exporter.shutdown?.();
+  }
+
+  /**
+   * Detach and shut down every exporter
+   */
+  async shutdown(): Promise<void> {
+    const exporters = this.exporters;
+    this.exporters = [];
+    await Promise.all(exporters.map((exporter) => exporter.shutdown?.()));
+  }
+
+  /**
+   * The span whose callback is currently running, if any
+   */
+  getActiveSpan(): Span | undefined {
+    return this.storage.getStore();
+  }
+
+  /**
+   * Start a span without making it active. The caller must end it.
+   */
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    const parent =
+      options.parent === undefined ? this.getActiveSpan()?.spanContext() : options.parent;
+
+    const context: SpanContext = {
+      traceId: parent ? parent.traceId : randomBytes(16).toString("hex"),
+      spanId: randomBytes(8).toString("hex"),
+      traceFlags: parent ? parent.traceFlags : 1,
+    };
+
+    return new Span(this, name, context, {
+      kind: options.kind ?? SpanKind.INTERNAL,
+      parentSpanId: parent?.spanId,
+      attributes: options.attributes,
+    });
+  }
+
+  /**
+   * Run `fn` inside a new active span, so spans started within it become its children.
+   * The span ends when `fn` settles; a thrown error is recorded and rethrown.
+   */
+  async startActiveSpan<T>(
+    name: string,
+    options: SpanOptions,
+    fn: (span: Span) => Promise<T>,
+  ): Promise<T> {
+    const span = this.startSpan(name, options);
+
+    try {
+      return await this.storage.run(span, () => fn(span));
+    } catch (error) {
+      span.recordException(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Hand a finished span to the exporters. Export failures never reach the traced code.
+   */
+  onSpanEnd(span: ReadableSpan): void {
+    for (const exporter of this.exporters) {
+      try {
+        const result = exporter.export([span]);
+        if (result && typeof result.catch === "function") {
+          result.catch(() => undefined);
+        }
+      } catch {
+        // Tracing must not break the operation being traced
+      }
+    }
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Tests for Tracer
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Tracer, SpanKind, SpanStatusCode, formatTraceparent, parseTraceparent } from "../Tracer";
+import { InMemorySpanExporter, FileSpanExporter, toOtlpJson } from "../exporters";
+
+describe("Tracer", () => {
+  const tracer = Tracer.getInstance();
+  let exporter: InMemorySpanExporter;
+
+  beforeEach(() => {
+    exporter = new InMemorySpanExporter();
+    tracer.addExporter(exporter);
+  });
+
+  afterEach(async () => {
+    await tracer.shutdown();
+  });
+
+  it("should return the same instance", () => {
+    expect(Tracer.getInstance()).toBe(tracer);
+  });
+
+  it("should parent spans started inside an active span", async () => {
+    await tracer.startActiveSpan("outer", {}, async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      tracer.startSpan("inner").end();
+    });
+
+    const [inner, outer] = exporter.getFinishedSpans();
+    expect(inner!.name).toBe("inner");
+    expect(outer!.name).toBe("outer");
+    expect(inner!.spanContext.traceId).toBe(outer!.spanContext.traceId);
+    expect(inner!.parentSpanId).toBe(outer!.spanContext.spanId);
+    expect(outer!.parentSpanId).toBeUndefined();
+  });
+
+  it("should keep concurrent traces apart", async () => {
+    await Promise.all(
+      ["a", "b"].map((name) =>
+        tracer.startActiveSpan(name, {}, async () => {
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          tracer.startSpan(`${name}-child`).end();
+        }),
+      ),
+    );
+
+    const spans = exporter.getFinishedSpans();
+    const byName = (name: string) => spans.find((span) => span.name === name)!;
+    expect(byName("a-child").parentSpanId).toBe(byName("a").spanContext.spanId);
+    expect(byName("b-child").parentSpanId).toBe(byName("b").spanContext.spanId);
+    expect(byName("a").spanContext.traceId).not.toBe(byName("b").spanContext.traceId);
+  });
+
+  it("should continue a remote trace", () => {
+    const remote = parseTraceparent("00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01")!;
+    tracer.startSpan("handler", { kind: SpanKind.SERVER, parent: remote }).end();
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span!.kind).toBe(SpanKind.SERVER);
+    expect(span!.spanContext.traceId).toBe(remote.traceId);
+    expect(span!.parentSpanId).toBe(remote.spanId);
+  });
+
+  it("should record a thrown error and rethrow it", async () => {
+    await expect(
+      tracer.startActiveSpan("failing", {}, async () => {
+        throw new Error("boom");
+      }),
+    ).rejects.toThrow("boom");
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span!.status).toEqual({ code: SpanStatusCode.ERROR, message: "boom" });
+    expect(span!.events[0]).toMatchObject({
+      name: "exception",
+      attributes: { "exception.message": "boom" },
+    });
+  });
+
+  it("should export a span once and ignore changes after it ends", () => {
+    const span = tracer.startSpan("once", { attributes: { a: 1 } });
+    span.end();
+    span.setAttribute("b", 2);
+    span.end();
+
+    expect(exporter.getFinishedSpans()).toHaveLength(1);
+    expect(exporter.getFinishedSpans()[0]!.attributes).toEqual({ a: 1 });
+  });
+
+  it("should not let a failing exporter break the traced code", async () => {
+    tracer.addExporter({
+      export: () => {
+        throw new Error("exporter down");
+      },
+    });
+
+    await expect(tracer.startActiveSpan("work", {}, async () => 42)).resolves.toBe(42);
+  });
+});
+
+describe("traceparent", () => {
+  it("should round-trip a span context", () => {
+    const context = {
+      traceId: "0af7651916cd43dd8448eb211c80319c",
+      spanId: "b7ad6b7169203331",
+      traceFlags: 1,
+    };
+    const header = formatTraceparent(context);
+
+    expect(header).toBe("00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01");
+    expect(parseTraceparent(header)).toEqual(context);
+  });
+
+  it("should reject malformed and all-zero values", () => {
+    expect(parseTraceparent(undefined)).toBeNull();
+    expect(parseTraceparent("not-a-traceparent")).toBeNull();
+    expect(parseTraceparent(`00-${"0".repeat(32)}-b7ad6b7169203331-01`)).toBeNull();
+    expect(parseTraceparent(`00-0af7651916cd43dd8448eb211c80319c-${"0".repeat(16)}-01`)).toBeNull();
+  });
+});
+
+describe("FileSpanExporter", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "lighthouse-trace-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should append spans as OTLP/JSON lines", async () => {
+    const filePath = path.join(dir, "traces", "spans.jsonl");
+    const fileExporter = new FileSpanExporter({ filePath, maxBatchSize: 2 });
+    const tracer = Tracer.getInstance();
+    tracer.addExporter(fileExporter);
+
+    await tracer.startActiveSpan("upload", { attributes: { size: 10 } }, async () => {
+      tracer.startSpan("http", { kind: SpanKind.CLIENT }).end();
+    });
+    tracer.startSpan("later").end();
+    await tracer.shutdown();
+
+    const lines = fs.readFileSync(filePath, "utf8").trim().split("\n");
+    expect(lines).toHaveLength(2);
+
+    const request = JSON.parse(lines[0]!);
+    const spans = request.resourceSpans[0].scopeSpans[0].spans;
+    expect(spans.map((span: { name: string }) => span.name)).toEqual(["http", "upload"]);
+    expect(spans[0].parentSpanId).toBe(spans[1].spanId);
+    expect(spans[0].kind).toBe(SpanKind.CLIENT);
+    expect(spans[1].attributes).toEqual([{ key: "size", value: { intValue: "10" } }]);
+    expect(spans[1].startTimeUnixNano).toMatch(/^\d{19}$/);
+  });
+});
+
+describe("toOtlpJson", () => {
+  it("should group spans by service", () => {
+    const tracer = Tracer.getInstance();
+    const exporter = new InMemorySpanExporter();
+    tracer.addExporter(exporter);
+
+    tracer.setServiceName("extension");
+    tracer.startSpan("client").end();
+    tracer.setServiceName("server");
+    tracer.startSpan("handler").end();
+    tracer.setServiceName("lighthouse");
+
+    const { resourceSpans } = toOtlpJson(exporter.getFinishedSpans());
+    void tracer.removeExporter(exporter);
+    expect(resourceSpans).toHaveLength(2);
+    expect(resourceSpans[0]!.resource).toEqual({
+      attributes: [{ key: "service.name", value: { stringValue: "extension" } }],
+    });
+  });
+});
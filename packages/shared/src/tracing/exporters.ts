@@ -0,0 +1,203 @@
+/**
+ * Span Exporters
+ * @fileoverview In-process and OTLP/JSON file exporters for finished spans
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { ReadableSpan, SpanAttributes, SpanExporter, Tracer } from "./Tracer.js";
+
+/**
+ * Keeps finished spans in memory, for tests and in-process inspection
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: ReadableSpan[] = [];
+
+  constructor(private maxSpans = 10000) {}
+
+  export(spans: ReadableSpan[]): void {
+    this.spans.push(...spans);
+    if (this.spans.length > this.maxSpans) {
+      this.spans.splice(0, this.spans.length - this.maxSpans);
+    }
+  }
+
+  getFinishedSpans(): ReadableSpan[] {
+    return this.spans.slice();
+  }
+
+  /**
+   * Finished spans of one trace, in the order they ended
+   */
+  getTrace(traceId: string): ReadableSpan[] {
+    return this.spans.filter((span) => span.spanContext.traceId === traceId);
+  }
+
+  reset(): void {
+    this.spans = [];
+  }
+}
+
+export interface FileSpanExporterConfig {
+  /** File the OTLP/JSON lines are appended to */
+  filePath: string;
+  /** Spans buffered before a write is forced */
+  maxBatchSize?: number;
+  /** Longest a finished span waits before it is written (ms) */
+  flushInterval?: number;
+}
+
+/**
+ * Appends finished spans to a file as OTLP/JSON, one `ExportTraceServiceRequest`
+ * per line, the layout read by the OpenTelemetry Collector's file receiver
+ */
+export class FileSpanExporter implements SpanExporter {
+  private config: Required<FileSpanExporterConfig>;
+  private buffer: ReadableSpan[] = [];
+  private flushTimer?: NodeJS.Timeout;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(config: FileSpanExporterConfig) {
+    this.config = {
+      filePath: config.filePath,
+      maxBatchSize: config.maxBatchSize ?? 100,
+      flushInterval: config.flushInterval ?? 5000,
+    };
+  }
+
+  export(spans: ReadableSpan[]): void {
+    this.buffer.push(...spans);
+
+    if (this.buffer.length >= this.config.maxBatchSize) {
+      void this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => void this.flush(), this.config.flushInterval);
+      this.flushTimer.unref?.();
+    }
+  }
+
+  /**
+   * Write buffered spans and wait for all pending writes
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    if (this.buffer.length > 0) {
+      const line = JSON.stringify(toOtlpJson(this.buffer)) + "\n";
+      this.buffer = [];
+      this.writing = this.writing.then(() => this.append(line));
+    }
+
+    await this.writing;
+  }
+
+  async shutdown(): Promise<void> {
+    await this.flush();
+  }
+
+  private async append(line: string): Promise<void> {
+    try {
+      await fs.promises.mkdir(path.dirname(this.config.filePath), { recursive: true });
+      await fs.promises.appendFile(this.config.filePath, line, "utf8");
+    } catch {
+      // A trace file that cannot be written loses spans, not requests
+    }
+  }
+}
+
+/**
+ * Name this process in exported spans and, when a trace file is given (by default
+ * from LIGHTHOUSE_TRACE_FILE), export its spans there. Returns the file exporter, if any.
+ */
+export function configureTracing(
+  serviceName: string,
+  filePath: string | undefined = process.env.LIGHTHOUSE_TRACE_FILE,
+): FileSpanExporter | undefined {
+  const tracer = Tracer.getInstance();
+  tracer.setServiceName(serviceName);
+
+  if (!filePath) {
+    return undefined;
+  }
+
+  const exporter = new FileSpanExporter({ filePath });
+  tracer.addExporter(exporter);
+  return exporter;
+}
+
+type OtlpAnyValue = { stringValue: string } | { boolValue: boolean } | { doubleValue: number };
+
+interface OtlpKeyValue {
+  key: string;
+  value: OtlpAnyValue | { intValue: string };
+}
+
+/**
+ * Convert finished spans to an OTLP/JSON `ExportTraceServiceRequest`, grouped by service
+ */
+export function toOtlpJson(spans: ReadableSpan[]): {
+  resourceSpans: Array<Record<string, unknown>>;
+} {
+  const byService = new Map<string, ReadableSpan[]>();
+  spans.forEach((span) => {
+    const group = byService.get(span.serviceName) ?? [];
+    group.push(span);
+    byService.set(span.serviceName, group);
+  });
+
+  return {
+    resourceSpans: Array.from(byService.entries()).map(([serviceName, group]) => ({
+      resource: { attributes: toKeyValues({ "service.name": serviceName }) },
+      scopeSpans: [
+        {
+          scope: { name: "@lighthouse-tooling/shared" },
+          spans: group.map((span) => ({
+            traceId: span.spanContext.traceId,
+            spanId: span.spanContext.spanId,
+            ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+            name: span.name,
+            kind: span.kind,
+            startTimeUnixNano: toUnixNano(span.startTime),
+            endTimeUnixNano: toUnixNano(span.endTime),
+            attributes: toKeyValues(span.attributes),
+            events: span.events.map((event) => ({
+              timeUnixNano: toUnixNano(event.time),
+              name: event.name,
+              attributes: toKeyValues(event.attributes ?? {}),
+            })),
+            status: {
+              code: span.status.code,
+              ...(span.status.message ? { message: span.status.message } : {}),
+            },
+          })),
+        },
+      ],
+    })),
+  };
+}
+
+function toKeyValues(attributes: SpanAttributes): OtlpKeyValue[] {
+  return Object.keys(attributes).map((key) => {
+    const value = attributes[key];
+    if (typeof value === "boolean") {
+      return { key, value: { boolValue: value } };
+    }
+    if (typeof value === "number") {
+      return Number.isInteger(value)
+        ? { key, value: { intValue: String(value) } }
+        : { key, value: { doubleValue: value } };
+    }
+    return { key, value: { stringValue: String(value) } };
+  });
+}
+
+/**
+ * Epoch milliseconds as a decimal nanosecond string, which OTLP/JSON uses to
+ * avoid losing precision in 64-bit integers (microsecond resolution)
+ */
+function toUnixNano(milliseconds: number): string {
+  return `${Math.round(milliseconds * 1000)}000`;
+}
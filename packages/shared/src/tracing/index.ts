@@ -0,0 +1,31 @@
+/**
+ * Distributed Tracing
+ * @fileoverview Exports for spans, trace context propagation and span exporters
+ */
+
+export {
+  Tracer,
+  Span,
+  SpanKind,
+  SpanStatusCode,
+  formatTraceparent,
+  parseTraceparent,
+} from "./Tracer.js";
+export type {
+  SpanContext,
+  SpanStatus,
+  SpanEvent,
+  SpanAttributes,
+  SpanAttributeValue,
+  SpanOptions,
+  SpanExporter,
+  ReadableSpan,
+} from "./Tracer.js";
+
+export {
+  InMemorySpanExporter,
+  FileSpanExporter,
+  configureTracing,
+  toOtlpJson,
+} from "./exporters.js";
+export type { FileSpanExporterConfig } from "./exporters.js";
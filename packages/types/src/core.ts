@@ -23,6 +23,8 @@ export interface UploadResult {
   originalPath?: string;
   /** Hash of the file content for integrity verification */
   hash?: string;
+  /** Whether identical pinned content was reused instead of uploading again */
+  deduplicated?: boolean;
 }
 
 /**
@@ -51,6 +53,46 @@ export interface Dataset {
   accessConditions?: AccessCondition[];
 }
 
+/**
+ * Immutable snapshot of a dataset, recorded each time the dataset changes
+ */
+export interface DatasetVersion {
+  /** Dataset the snapshot belongs to */
+  datasetId: string;
+  /** Version recorded by this snapshot */
+  version: string;
+  /** Version this snapshot was derived from */
+  parentVersion?: string;
+  /** Earlier version whose contents were restored by a rollback */
+  restoredFrom?: string;
+  /** Description of the dataset at this version */
+  description: string;
+  /** Files included in the dataset at this version */
+  files: UploadResult[];
+  /** Metadata of the dataset at this version */
+  metadata: DatasetMetadata;
+  /** Timestamp when the snapshot was recorded */
+  createdAt: Date;
+}
+
+/**
+ * File-level differences between two versions of a dataset
+ */
+export interface DatasetVersionDiff {
+  /** Dataset being compared */
+  datasetId: string;
+  /** Version compared from */
+  fromVersion: string;
+  /** Version compared to */
+  toVersion: string;
+  /** Files only present in the newer version */
+  added: UploadResult[];
+  /** Files only present in the older version */
+  removed: UploadResult[];
+  /** Files at the same path whose content changed */
+  changed: Array<{ path: string; from: UploadResult; to: UploadResult }>;
+}
+
 /**
  * Metadata associated with a dataset
  */
@@ -189,4 +231,6 @@ export interface DownloadResult {
   downloadedAt: Date;
   /** Hash of the downloaded file for integrity verification */
   hash?: string;
+  /** Whether the content was verified against its CID */
+  verified?: boolean;
 }
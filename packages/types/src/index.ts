@@ -31,6 +31,8 @@ export type {
   // Core types
   UploadResult,
   Dataset,
+  DatasetVersion,
+  DatasetVersionDiff,
   AccessCondition,
   ProgressUpdate,
   UploadConfig,
@@ -82,6 +84,8 @@ export type {
   OrganizationSettings,
   TenantResolutionResult,
   TenantAuditLog,
+  AuditLogQuery,
+  AuditLogPage,
   MultiTenancyConfig,
 } from "./multi-tenancy.js";
 
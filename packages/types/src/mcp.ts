@@ -21,6 +21,10 @@ export interface MCPToolDefinition {
   supportsBatch?: boolean;
   /** Estimated execution time category */
   executionTime?: ExecutionTimeCategory;
+  /** Whether the tool changes stored state; mutating tools accept an idempotencyKey */
+  mutating?: boolean;
+  /** Whether results carry secrets such as API keys; they are never kept for idempotent replay */
+  returnsSecrets?: boolean;
 }
 
 /**
@@ -147,12 +151,28 @@ export interface MCPResult {
   tools?: MCPToolDefinition[];
   /** Content of the tool call result */
   content?: MCPContent[];
+  /** Contents of a read resource */
+  contents?: MCPResourceContents[];
   /** Text content */
   text?: string;
   /** Additional metadata */
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Contents of a resource returned by resources/read
+ */
+export interface MCPResourceContents {
+  /** URI of the resource */
+  uri: string;
+  /** MIME type of the resource */
+  mimeType?: string;
+  /** Text content, for textual resources */
+  text?: string;
+  /** Binary content (base64 encoded), for non-textual resources */
+  blob?: string;
+}
+
 /**
  * Content structure for MCP responses
  */
@@ -54,6 +54,8 @@ export enum Permission {
   ORG_MANAGE_BILLING = "org:manage_billing",
   ORG_VIEW_USAGE = "org:view_usage",
 
+  ORG_VIEW_AUDIT_LOG = "org:view_audit_log",
+
   // Quota Management
   QUOTA_VIEW = "quota:view",
   QUOTA_UPDATE = "quota:update",
@@ -91,6 +93,7 @@ export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
     Permission.API_KEY_LIST,
     // Usage
     Permission.ORG_VIEW_USAGE,
+    Permission.ORG_VIEW_AUDIT_LOG,
     Permission.QUOTA_VIEW,
   ],
   [Role.MEMBER]: [
@@ -247,9 +250,21 @@ export interface TenantApiKey {
   /** Last used timestamp */
   lastUsedAt?: string;
   /** Key status */
-  status: "active" | "revoked" | "expired";
-  /** Scoped permissions (overrides role permissions if set) */
+  status: "active" | "revoked" | "expired" | "suspended";
+  /** Scoped permissions (restricts the holder's role permissions if set) */
   permissions?: Permission[];
+  /** When the key was revoked */
+  revokedAt?: string;
+  /** When the key was suspended */
+  suspendedAt?: string;
+  /** Why the key was suspended */
+  suspensionReason?: string;
+  /** ID of the key issued to replace this one */
+  rotatedTo?: string;
+  /** ID of the key this one replaced */
+  rotatedFrom?: string;
+  /** When the key was rotated */
+  rotatedAt?: string;
   /** Usage statistics */
   usageStats?: ApiKeyUsageStats;
   /** Metadata */
@@ -346,6 +361,7 @@ export enum TenantErrorCode {
   API_KEY_NOT_FOUND = "API_KEY_NOT_FOUND",
   API_KEY_EXPIRED = "API_KEY_EXPIRED",
   API_KEY_REVOKED = "API_KEY_REVOKED",
+  API_KEY_SUSPENDED = "API_KEY_SUSPENDED",
   PERMISSION_DENIED = "PERMISSION_DENIED",
   QUOTA_EXCEEDED = "QUOTA_EXCEEDED",
   ORGANIZATION_SUSPENDED = "ORGANIZATION_SUSPENDED",
@@ -384,6 +400,48 @@ export interface TenantAuditLog {
   errorMessage?: string;
   /** Additional metadata */
   metadata?: Record<string, any>;
+  /** Position in the organization's hash chain */
+  sequence?: number;
+  /** Hash of the previous entry */
+  prevHash?: string;
+  /** Hash of this entry, covering its content, sequence and prevHash */
+  hash?: string;
+}
+
+/**
+ * Audit log query; all criteria are optional and must all match
+ */
+export interface AuditLogQuery {
+  /** Entries at or after this time (ISO 8601) */
+  startTime?: string;
+  /** Entries at or before this time (ISO 8601) */
+  endTime?: string;
+  /** User who performed the action */
+  userId?: string;
+  /** Team the action was performed in */
+  teamId?: string;
+  /** Action performed */
+  action?: string;
+  /** Resource affected */
+  resource?: string;
+  /** Resource ID */
+  resourceId?: string;
+  /** Action result */
+  result?: "success" | "failure";
+  /** Maximum number of entries to return */
+  limit?: number;
+  /** Cursor returned with the previous page */
+  cursor?: string;
+}
+
+/**
+ * A page of audit log entries
+ */
+export interface AuditLogPage {
+  /** Matching entries, most recent first */
+  entries: TenantAuditLog[];
+  /** Cursor for the next page; absent on the last page */
+  nextCursor?: string;
 }
 
 /**
@@ -420,4 +478,10 @@ export interface MultiTenancyConfig {
   strictIsolation: boolean;
   /** Audit log retention days */
   auditLogRetentionDays: number;
+  /** HMAC key for audit log checkpoints (read from or generated at auditSigningKeyPath if unset) */
+  auditSigningKey?: string;
+  /** File the generated audit signing key is kept in, outside the storage root path */
+  auditSigningKeyPath?: string;
+  /** Hours a rotated API key keeps working alongside its successor */
+  apiKeyRotationGraceHours?: number;
 }
@@ -593,9 +593,9 @@ export interface CacheConfiguration {
 export enum CacheStorageType {
   /** Memory cache */
   MEMORY = "memory",
-  /** Disk cache */
+  /** Content cached on disk by CID (ContentCache) */
   DISK = "disk",
-  /** Hybrid cache */
+  /** Content cached on disk, with recently read content also held in memory (ContentCache) */
   HYBRID = "hybrid",
 }
 
@@ -21,6 +21,7 @@ describe("LighthouseVSCodeExtension", () => {
         get: jest.fn(),
         update: jest.fn(),
       },
+      globalStorageUri: { fsPath: "/tmp/lighthouse-vscode-test" },
     } as any;
 
     // Mock workspace configuration to return API key
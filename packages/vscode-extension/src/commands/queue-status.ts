@@ -5,7 +5,7 @@
 
 import * as vscode from "vscode";
 import { OfflineMCPClient } from "../mcp/mcp-client-with-offline.js";
-import { OperationStatus, ConnectionState } from "@lighthouse-tooling/shared";
+import { OperationStatus, ConnectionState, QueuedOperation } from "@lighthouse-tooling/shared";
 
 export function registerQueueStatusCommand(
   context: vscode.ExtensionContext,
@@ -26,51 +26,88 @@ export function registerQueueStatusCommand(
       },
     );
 
-    panel.webview.html = getQueueStatusHTML(stats, connectionState, operations);
+    panel.webview.html = getQueueStatusHTML(
+      stats,
+      connectionState,
+      operations,
+      mcpClient.getDeadLetters(),
+    );
+
+    const render = () => {
+      panel.webview.html = getQueueStatusHTML(
+        mcpClient.getQueueStats(),
+        mcpClient.getConnectionState(),
+        mcpClient.getAllQueuedOperations(),
+        mcpClient.getDeadLetters(),
+      );
+    };
 
     // Handle messages from webview
     panel.webview.onDidReceiveMessage(
       async (message) => {
         switch (message.command) {
-          case "retry":
-            await mcpClient.retryOperation(message.operationId);
-            vscode.window.showInformationMessage(`Retrying operation ${message.operationId}`);
-            // Refresh view
-            panel.webview.html = getQueueStatusHTML(
-              mcpClient.getQueueStats(),
-              mcpClient.getConnectionState(),
-              mcpClient.getAllQueuedOperations(),
-            );
+          case "inspect": {
+            const operation = mcpClient
+              .getDeadLetters()
+              .find((op) => op.id === message.operationId);
+            if (operation) {
+              const document = await vscode.workspace.openTextDocument({
+                content: JSON.stringify(operation, null, 2),
+                language: "json",
+              });
+              await vscode.window.showTextDocument(document, vscode.ViewColumn.Beside);
+            }
+            break;
+          }
+
+          case "saveDeadLetter": {
+            const params = parseParams(message.params);
+            if (params && (await mcpClient.updateDeadLetter(message.operationId, { params }))) {
+              vscode.window.showInformationMessage(`Saved operation ${message.operationId}`);
+              render();
+            }
+            break;
+          }
+
+          case "replay": {
+            const params = parseParams(message.params);
+            if (!params) {
+              break;
+            }
+            try {
+              await mcpClient.replayDeadLetter(message.operationId, { params });
+              vscode.window.showInformationMessage(`Replaying operation ${message.operationId}`);
+            } catch (error) {
+              vscode.window.showErrorMessage(
+                `Failed to replay operation: ${error instanceof Error ? error.message : String(error)}`,
+              );
+            }
+            render();
+            break;
+          }
+
+          case "discard":
+            await mcpClient.discardDeadLetter(message.operationId);
+            vscode.window.showInformationMessage(`Discarded operation ${message.operationId}`);
+            render();
             break;
 
           case "cancel":
             await mcpClient.cancelOperation(message.operationId);
             vscode.window.showInformationMessage(`Cancelled operation ${message.operationId}`);
             // Refresh view
-            panel.webview.html = getQueueStatusHTML(
-              mcpClient.getQueueStats(),
-              mcpClient.getConnectionState(),
-              mcpClient.getAllQueuedOperations(),
-            );
+            render();
             break;
 
           case "clearCompleted":
             const cleared = await mcpClient.clearCompleted();
             vscode.window.showInformationMessage(`Cleared ${cleared} completed operations`);
             // Refresh view
-            panel.webview.html = getQueueStatusHTML(
-              mcpClient.getQueueStats(),
-              mcpClient.getConnectionState(),
-              mcpClient.getAllQueuedOperations(),
-            );
+            render();
             break;
 
           case "refresh":
-            panel.webview.html = getQueueStatusHTML(
-              mcpClient.getQueueStats(),
-              mcpClient.getConnectionState(),
-              mcpClient.getAllQueuedOperations(),
-            );
+            render();
             break;
         }
       },
@@ -80,10 +117,43 @@ export function registerQueueStatusCommand(
   });
 }
 
+/**
+ * Parse operation parameters edited in the webview, reporting invalid JSON
+ */
+function parseParams(text: string): Record<string, unknown> | undefined {
+  try {
+    const params = JSON.parse(text);
+    if (params && typeof params === "object" && !Array.isArray(params)) {
+      return params as Record<string, unknown>;
+    }
+    vscode.window.showErrorMessage("Operation parameters must be a JSON object");
+  } catch (error) {
+    vscode.window.showErrorMessage(`Invalid JSON: ${(error as Error).message}`);
+  }
+  return undefined;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Quote a value as a script argument inside an HTML attribute
+ */
+function scriptArg(value: string): string {
+  return escapeHtml(JSON.stringify(value));
+}
+
 function getQueueStatusHTML(
   stats: any,
   connectionState: ConnectionState,
   operations: any[],
+  deadLetters: QueuedOperation[],
 ): string {
   const connectionIcon =
     connectionState === ConnectionState.CONNECTED
@@ -103,6 +173,7 @@ function getQueueStatusHTML(
           : "Disconnected";
 
   const operationsHTML = operations
+    .filter((op) => op.status !== OperationStatus.FAILED)
     .map((op) => {
       const statusIcon =
         op.status === OperationStatus.COMPLETED
@@ -116,25 +187,49 @@ function getQueueStatusHTML(
                 : "⏳";
 
       const actions =
-        op.status === OperationStatus.FAILED
-          ? `<button onclick="retry('${op.id}')">Retry</button>`
-          : op.status === OperationStatus.PENDING
-            ? `<button onclick="cancel('${op.id}')">Cancel</button>`
-            : "";
+        op.status === OperationStatus.PENDING
+          ? `<button onclick="cancel(${scriptArg(op.id)})">Cancel</button>`
+          : "";
 
       return `
         <tr>
-          <td>${statusIcon} ${op.status}</td>
-          <td>${op.type}</td>
+          <td>${statusIcon} ${escapeHtml(op.status)}</td>
+          <td>${escapeHtml(op.type)}</td>
+          <td>${escapeHtml(op.priority)}</td>
           <td>${new Date(op.createdAt).toLocaleString()}</td>
           <td>${op.retryCount}/${op.maxRetries}</td>
-          <td>${op.error || "-"}</td>
+          <td>${op.dependsOn.length > 0 ? escapeHtml(op.dependsOn.join(", ")) : "-"}</td>
+          <td>${op.error ? escapeHtml(op.error) : "-"}</td>
           <td>${actions}</td>
         </tr>
       `;
     })
     .join("");
 
+  const deadLettersHTML = deadLetters
+    .map(
+      (op) => `
+        <details class="dead-letter">
+          <summary>
+            ❌ <strong>${escapeHtml(op.type)}</strong> ${escapeHtml(op.error || "Unknown error")}
+            (${op.deadLetteredAt ? new Date(op.deadLetteredAt).toLocaleString() : "-"})
+          </summary>
+          <p>
+            ${escapeHtml(op.id)} · ${escapeHtml(op.priority)} · ${op.retryCount}/${op.maxRetries} attempts
+            ${op.dependsOn.length > 0 ? ` · depends on ${escapeHtml(op.dependsOn.join(", "))}` : ""}
+          </p>
+          <textarea id="params-${escapeHtml(op.id)}" rows="8">${escapeHtml(JSON.stringify(op.params, null, 2))}</textarea>
+          <div class="actions">
+            <button onclick="inspect(${scriptArg(op.id)})">Inspect</button>
+            <button onclick="saveDeadLetter(${scriptArg(op.id)})">Save</button>
+            <button onclick="replay(${scriptArg(op.id)})">Replay</button>
+            <button onclick="discard(${scriptArg(op.id)})">Discard</button>
+          </div>
+        </details>
+      `,
+    )
+    .join("");
+
   return `
     <!DOCTYPE html>
     <html>
@@ -214,6 +309,20 @@ function getQueueStatusHTML(
         .actions {
           margin-top: 15px;
         }
+        .dead-letter {
+          padding: 10px 0;
+          border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        .dead-letter summary {
+          cursor: pointer;
+        }
+        textarea {
+          width: 100%;
+          font-family: var(--vscode-editor-font-family);
+          color: var(--vscode-input-foreground);
+          background-color: var(--vscode-input-background);
+          border: 1px solid var(--vscode-input-border);
+        }
       </style>
     </head>
     <body>
@@ -265,15 +374,17 @@ function getQueueStatusHTML(
       <div class="status-section">
         <h2>Operations</h2>
         ${
-          operations.length > 0
+          operationsHTML
             ? `
           <table>
             <thead>
               <tr>
                 <th>Status</th>
                 <th>Type</th>
+                <th>Priority</th>
                 <th>Created</th>
                 <th>Retries</th>
+                <th>Depends On</th>
                 <th>Error</th>
                 <th>Actions</th>
               </tr>
@@ -287,13 +398,21 @@ function getQueueStatusHTML(
         }
       </div>
 
+      <div class="status-section">
+        <h2>Dead Letters</h2>
+        ${
+          deadLetters.length > 0
+            ? `
+          <p>Operations that ran out of retries. Edit their parameters and replay them, or discard them.</p>
+          ${deadLettersHTML}
+        `
+            : "<p>No dead-lettered operations</p>"
+        }
+      </div>
+
       <script>
         const vscode = acquireVsCodeApi();
 
-        function retry(operationId) {
-          vscode.postMessage({ command: 'retry', operationId });
-        }
-
         function cancel(operationId) {
           vscode.postMessage({ command: 'cancel', operationId });
         }
@@ -305,6 +424,26 @@ function getQueueStatusHTML(
         function refresh() {
           vscode.postMessage({ command: 'refresh' });
         }
+
+        function editedParams(operationId) {
+          return document.getElementById('params-' + operationId).value;
+        }
+
+        function inspect(operationId) {
+          vscode.postMessage({ command: 'inspect', operationId });
+        }
+
+        function saveDeadLetter(operationId) {
+          vscode.postMessage({ command: 'saveDeadLetter', operationId, params: editedParams(operationId) });
+        }
+
+        function replay(operationId) {
+          vscode.postMessage({ command: 'replay', operationId, params: editedParams(operationId) });
+        }
+
+        function discard(operationId) {
+          vscode.postMessage({ command: 'discard', operationId });
+        }
       </script>
     </body>
     </html>
@@ -4,9 +4,10 @@
  */
 
 import * as vscode from "vscode";
+import * as path from "path";
 import { createExtensionCore, type ExtensionCore } from "@lighthouse-tooling/extension-core";
-import { LighthouseAISDK } from "@lighthouse-tooling/sdk-wrapper";
-import { FileUtils } from "@lighthouse-tooling/shared";
+import { LighthouseAISDK, RateLimitState } from "@lighthouse-tooling/sdk-wrapper";
+import { ContentCache, FileUtils, Tracer, configureTracing } from "@lighthouse-tooling/shared";
 import { VSCodeCommandRegistry } from "./commands/command-registry";
 import { VSCodeProgressStreamer } from "./ui/progress-streamer";
 import { VSCodeWorkspaceProvider } from "./workspace/workspace-provider";
@@ -31,6 +32,7 @@ export class LighthouseVSCodeExtension {
   private treeProvider: VSCodeTreeProvider;
   private aiHooks: AIAgentHooks;
   private mcpClient: MCPClient | null = null;
+  private contentCache: ContentCache | undefined;
   private isActivated = false;
 
   constructor(private context: vscode.ExtensionContext) {
@@ -38,11 +40,16 @@ export class LighthouseVSCodeExtension {
     const config = vscode.workspace.getConfiguration("lighthouse.vscode");
     const apiKey = config.get<string>("apiKey") || "";
 
-    this.sdk = new LighthouseAISDK({
-      apiKey,
-      maxRetries: 5, // Increased retries
-      timeout: 180000, // Increased to 3 minutes for better reliability
-    });
+    // Opened files are kept in the extension's storage so reopening them works offline
+    const contentCacheSize = config.get<number>("contentCacheSize") ?? 1024;
+    if (contentCacheSize > 0) {
+      this.contentCache = new ContentCache({
+        directory: path.join(context.globalStorageUri.fsPath, "content-cache"),
+        maxSize: contentCacheSize * 1024 * 1024,
+      });
+    }
+
+    this.sdk = this.createSDK(apiKey);
     this.commandRegistry = new VSCodeCommandRegistry(context);
     this.progressStreamer = new VSCodeProgressStreamer();
     this.workspaceProvider = new VSCodeWorkspaceProvider();
@@ -64,6 +71,24 @@ export class LighthouseVSCodeExtension {
     this.aiHooks = new AIAgentHooksImpl(this.extensionCore, null);
   }
 
+  /**
+   * Create the SDK used by VSCode commands
+   */
+  private createSDK(apiKey: string): LighthouseAISDK {
+    const sdk = new LighthouseAISDK({
+      apiKey,
+      maxRetries: 5, // Increased retries
+      timeout: 180000, // Increased to 3 minutes for better reliability
+      contentCache: this.contentCache,
+    });
+    sdk.on("rate_limit", (state: RateLimitState) => {
+      if (state.retryAfter > 0) {
+        this.statusBar.showRateLimited(state.retryAfter);
+      }
+    });
+    return sdk;
+  }
+
   /**
    * Activate the extension
    */
@@ -73,6 +98,9 @@ export class LighthouseVSCodeExtension {
     }
 
     try {
+      // Export spans when LIGHTHOUSE_TRACE_FILE is set; the MCP server inherits it
+      configureTracing("lighthouse-vscode-extension");
+
       // Validate API key is set
       const config = vscode.workspace.getConfiguration("lighthouse.vscode");
       const apiKey = config.get<string>("apiKey");
@@ -162,6 +190,9 @@ export class LighthouseVSCodeExtension {
       await this.extensionCore.dispose();
       await this.statusBar.dispose();
       await this.treeProvider.dispose();
+
+      // Write out buffered spans
+      await Tracer.getInstance().shutdown();
       this.isActivated = false;
     } catch (error) {
       console.error("Error during extension deactivation:", error);
@@ -224,7 +255,13 @@ export class LighthouseVSCodeExtension {
     ];
 
     commands.forEach(({ id, handler }) => {
-      const disposable = vscode.commands.registerCommand(id, handler);
+      // Each command starts a trace that its SDK and MCP calls join
+      const run = handler as (...args: unknown[]) => Promise<unknown>;
+      const disposable = vscode.commands.registerCommand(id, (...args: unknown[]) =>
+        Tracer.getInstance().startActiveSpan(id, { attributes: { "vscode.command": id } }, () =>
+          run(...args),
+        ),
+      );
       this.context.subscriptions.push(disposable);
     });
   }
@@ -1036,11 +1073,7 @@ Try again with a smaller file or check your network connection.`;
 
       if (apiKey) {
         // Update the SDK configuration with new API key
-        this.sdk = new LighthouseAISDK({
-          apiKey,
-          maxRetries: 5, // Increased retries
-          timeout: 180000, // Increased to 3 minutes for better reliability
-        });
+        this.sdk = this.createSDK(apiKey);
         await this.sdk.initialize();
 
         // Update workspace provider with new SDK instance
@@ -7,8 +7,11 @@ import { MCPClient, MCPClientConfig, MCPToolCallResult } from "./mcp-client.js";
 import {
   OperationQueue,
   OperationType,
+  OperationPriority,
   OperationExecutor,
   QueuedOperation,
+  EnqueueOptions,
+  DeadLetterUpdate,
   ConnectionMonitor,
   ConnectionState,
 } from "@lighthouse-tooling/shared";
@@ -38,6 +41,7 @@ export class OfflineMCPClient extends MCPClient implements OperationExecutor {
   private offlineConfig: Required<Omit<OfflineMCPClientConfig, keyof MCPClientConfig>>;
   private statusBarItem: vscode.StatusBarItem;
   private queuePersistencePath: string;
+  private persistChain: Promise<void> = Promise.resolve();
 
   constructor(config: OfflineMCPClientConfig = {}, context: vscode.ExtensionContext) {
     super(config);
@@ -118,9 +122,15 @@ export class OfflineMCPClient extends MCPClient implements OperationExecutor {
       vscode.window.showErrorMessage(`Operation failed: ${operation.type} - ${operation.error}`);
     });
 
-    this.offlineQueue.on("persist_required", async (data: { operations: QueuedOperation[] }) => {
-      await this.persistQueue(data.operations);
-    });
+    this.offlineQueue.on(
+      "persist_required",
+      (data: { operations: QueuedOperation[]; deadLetters: QueuedOperation[] }) => {
+        // Write one snapshot at a time so an older one never lands last
+        this.persistChain = this.persistChain.then(() =>
+          this.persistQueue(data.operations, data.deadLetters),
+        );
+      },
+    );
 
     // Connection monitor events
     this.connectionMonitor.on("connected", () => {
@@ -173,9 +183,14 @@ export class OfflineMCPClient extends MCPClient implements OperationExecutor {
   }
 
   /**
-   * Override callTool to support offline queuing
+   * Override callTool to support offline queuing. `queueOptions` apply if the call
+   * ends up queued, e.g. to create a dataset only after queued uploads complete.
    */
-  async callTool(toolName: string, args: Record<string, unknown>): Promise<MCPToolCallResult> {
+  async callTool(
+    toolName: string,
+    args: Record<string, unknown>,
+    queueOptions: EnqueueOptions = {},
+  ): Promise<MCPToolCallResult> {
     // If connected, call directly
     if (this.isClientConnected()) {
       try {
@@ -188,7 +203,7 @@ export class OfflineMCPClient extends MCPClient implements OperationExecutor {
         );
 
         if (this.offlineConfig.enableOfflineQueue) {
-          return await this.queueOperation(toolName, args);
+          return await this.queueOperation(toolName, args, queueOptions);
         }
 
         throw error;
@@ -197,7 +212,7 @@ export class OfflineMCPClient extends MCPClient implements OperationExecutor {
 
     // If offline and queue enabled, queue the operation
     if (this.offlineConfig.enableOfflineQueue) {
-      return await this.queueOperation(toolName, args);
+      return await this.queueOperation(toolName, args, queueOptions);
     }
 
     // Otherwise, throw error
@@ -212,13 +227,15 @@ export class OfflineMCPClient extends MCPClient implements OperationExecutor {
   private async queueOperation(
     toolName: string,
     args: Record<string, unknown>,
+    options: EnqueueOptions,
   ): Promise<MCPToolCallResult> {
     try {
       const operationType = this.mapToolToOperationType(toolName);
-      const operationId = await this.offlineQueue.enqueue(operationType, {
-        toolName,
-        args,
-      });
+      const operationId = await this.offlineQueue.enqueue(
+        operationType,
+        { toolName, args },
+        { priority: this.getDefaultPriority(operationType), ...options },
+      );
 
       this.offlineLogger.info("Operation queued", {
         id: operationId,
@@ -256,6 +273,15 @@ export class OfflineMCPClient extends MCPClient implements OperationExecutor {
     return mapping[toolName] || OperationType.UPLOAD_FILE;
   }
 
+  /**
+   * Fetches are usually waited on by the user; uploads and dataset changes are not
+   */
+  private getDefaultPriority(type: OperationType): OperationPriority {
+    return type === OperationType.FETCH_FILE
+      ? OperationPriority.INTERACTIVE
+      : OperationPriority.BACKGROUND;
+  }
+
   /**
    * Execute queued operation (OperationExecutor interface)
    */
@@ -324,6 +350,37 @@ export class OfflineMCPClient extends MCPClient implements OperationExecutor {
     return await this.offlineQueue.retryOperation(operationId);
   }
 
+  /**
+   * Get dead-lettered operations
+   */
+  getDeadLetters(): QueuedOperation[] {
+    return this.offlineQueue.getDeadLetters();
+  }
+
+  /**
+   * Edit a dead-lettered operation
+   */
+  async updateDeadLetter(
+    operationId: string,
+    changes: DeadLetterUpdate,
+  ): Promise<QueuedOperation | undefined> {
+    return await this.offlineQueue.updateDeadLetter(operationId, changes);
+  }
+
+  /**
+   * Replay a dead-lettered operation, optionally editing it first
+   */
+  async replayDeadLetter(operationId: string, changes?: DeadLetterUpdate): Promise<boolean> {
+    return await this.offlineQueue.replayDeadLetter(operationId, changes);
+  }
+
+  /**
+   * Permanently remove a dead-lettered operation
+   */
+  async discardDeadLetter(operationId: string): Promise<boolean> {
+    return await this.offlineQueue.discardDeadLetter(operationId);
+  }
+
   /**
    * Cancel operation
    */
@@ -387,7 +444,7 @@ export class OfflineMCPClient extends MCPClient implements OperationExecutor {
 
     if (stats.failed > 0) {
       text += ` [${stats.failed} failed]`;
-      tooltip += `\n${stats.failed} failed operations`;
+      tooltip += `\n${stats.failed} dead-lettered operations`;
     }
 
     this.statusBarItem.text = `${icon} ${text}`;
@@ -396,36 +453,65 @@ export class OfflineMCPClient extends MCPClient implements OperationExecutor {
   }
 
   /**
-   * Persist queue to storage
+   * Persist queue and dead letters to storage as one snapshot, so an operation moving
+   * between them is never saved in both or neither
    */
-  private async persistQueue(operations: QueuedOperation[]): Promise<void> {
+  private async persistQueue(
+    operations: QueuedOperation[],
+    deadLetters: QueuedOperation[],
+  ): Promise<void> {
     try {
       const dir = path.dirname(this.queuePersistencePath);
       await fs.mkdir(dir, { recursive: true });
-      await fs.writeFile(this.queuePersistencePath, JSON.stringify(operations, null, 2));
-      this.offlineLogger.debug("Queue persisted", { count: operations.length });
+      await this.writeFileAtomic(this.queuePersistencePath, { operations, deadLetters });
+      this.offlineLogger.debug("Queue persisted", {
+        count: operations.length,
+        deadLetters: deadLetters.length,
+      });
     } catch (error) {
       this.offlineLogger.error("Failed to persist queue", error as Error);
     }
   }
 
+  /**
+   * Write through a temporary file so a crash never leaves a truncated queue
+   */
+  private async writeFileAtomic(filePath: string, data: unknown): Promise<void> {
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+    await fs.rename(tempPath, filePath);
+  }
+
   /**
    * Load persisted queue
    */
   private async loadPersistedQueue(): Promise<void> {
     try {
-      const data = await fs.readFile(this.queuePersistencePath, "utf-8");
-      const operations = JSON.parse(data) as QueuedOperation[];
-      await this.offlineQueue.loadQueue(operations);
+      const { operations, deadLetters } = await this.readQueueFile(this.queuePersistencePath);
+      await this.offlineQueue.loadQueue(operations, deadLetters);
       this.updateStatusBar();
       this.offlineLogger.info("Queue loaded from persistence", {
         count: operations.length,
+        deadLetters: deadLetters.length,
       });
+    } catch (error) {
+      this.offlineLogger.error("Failed to load persisted queue", error as Error);
+    }
+  }
+
+  private async readQueueFile(
+    filePath: string,
+  ): Promise<{ operations: QueuedOperation[]; deadLetters: QueuedOperation[] }> {
+    try {
+      const snapshot = JSON.parse(await fs.readFile(filePath, "utf-8"));
+      // Queues saved before dead letters were tracked are a plain list of operations
+      return Array.isArray(snapshot) ? { operations: snapshot, deadLetters: [] } : snapshot;
     } catch (error) {
       // File might not exist on first run
-      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
-        this.offlineLogger.error("Failed to load persisted queue", error as Error);
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { operations: [], deadLetters: [] };
       }
+      throw error;
     }
   }
 
@@ -435,6 +521,7 @@ export class OfflineMCPClient extends MCPClient implements OperationExecutor {
   async dispose(): Promise<void> {
     this.stopMonitoring();
     await this.offlineQueue.dispose();
+    await this.persistChain;
     this.connectionMonitor.dispose();
     this.statusBarItem.dispose();
     await super.disconnect();
@@ -8,7 +8,7 @@ import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js"
 import { spawn, type ChildProcess } from "node:child_process";
 import * as path from "node:path";
 import * as fs from "node:fs";
-import { Logger } from "@lighthouse-tooling/shared";
+import { Logger, SpanKind, SpanStatusCode, Tracer } from "@lighthouse-tooling/shared";
 import type { MCPToolDefinition, MCPResult } from "@lighthouse-tooling/types";
 
 export interface MCPClientConfig {
@@ -176,58 +176,74 @@ export class MCPClient {
       throw new Error("MCP client not connected. Call connect() first.");
     }
 
-    try {
-      this.logger.debug("Calling MCP tool", { toolName, args });
-
-      // Add API key to args if not present
-      const toolArgs = {
-        ...args,
-        apiKey: args.apiKey || this.config.apiKey || process.env.LIGHTHOUSE_API_KEY,
-      };
-
-      const result = await this.client.callTool({
-        name: toolName,
-        arguments: toolArgs,
-      });
-
-      // Parse result content
-      const content = (result.content || []) as Array<{ type: string; text: string }>;
-      let data: unknown;
-
-      // Try to parse JSON from text content
-      if (
-        Array.isArray(content) &&
-        content.length > 0 &&
-        content[0] &&
-        content[0].type === "text"
-      ) {
+    return Tracer.getInstance().startActiveSpan(
+      `tools/call ${toolName}`,
+      {
+        kind: SpanKind.CLIENT,
+        attributes: { "rpc.system": "mcp", "rpc.method": "tools/call", "mcp.tool.name": toolName },
+      },
+      async (span) => {
         try {
-          data = JSON.parse(content[0].text);
-        } catch {
-          data = content[0].text;
+          this.logger.debug("Calling MCP tool", { toolName, args });
+
+          // Add API key to args if not present
+          const toolArgs = {
+            ...args,
+            apiKey: args.apiKey || this.config.apiKey || process.env.LIGHTHOUSE_API_KEY,
+          };
+
+          // The server continues this trace from the traceparent in the request metadata
+          const result = await this.client.callTool({
+            name: toolName,
+            arguments: toolArgs,
+            _meta: { traceparent: span.traceparent() },
+          });
+
+          // Parse result content
+          const content = (result.content || []) as Array<{ type: string; text: string }>;
+          let data: unknown;
+
+          // Try to parse JSON from text content
+          if (
+            Array.isArray(content) &&
+            content.length > 0 &&
+            content[0] &&
+            content[0].type === "text"
+          ) {
+            try {
+              data = JSON.parse(content[0].text);
+            } catch {
+              data = content[0].text;
+            }
+          }
+
+          this.logger.info("MCP tool call completed", {
+            toolName,
+            success: true,
+          });
+
+          return {
+            success: true,
+            data,
+            content,
+          };
+        } catch (error) {
+          this.logger.error("MCP tool call failed", error as Error, {
+            toolName,
+          });
+
+          span.setStatus({
+            code: SpanStatusCode.ERROR,
+            message: error instanceof Error ? error.message : "Unknown error",
+          });
+
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : "Unknown error",
+          };
         }
-      }
-
-      this.logger.info("MCP tool call completed", {
-        toolName,
-        success: true,
-      });
-
-      return {
-        success: true,
-        data,
-        content,
-      };
-    } catch (error) {
-      this.logger.error("MCP tool call failed", error as Error, {
-        toolName,
-      });
-
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
-      };
-    }
+      },
+    );
   }
 
   /**
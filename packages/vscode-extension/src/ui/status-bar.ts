@@ -68,6 +68,18 @@ export class VSCodeStatusBar {
     }, duration);
   }
 
+  /**
+   * Show that Lighthouse has paused requests, until they resume
+   */
+  showRateLimited(retryAfter: number): void {
+    this.showWarning(
+      `Lighthouse rate limited, resuming in ${Math.ceil(retryAfter / 1000)}s`,
+      retryAfter,
+    );
+    this.statusBarItem.tooltip =
+      "Lighthouse asked for fewer requests; queued requests resume automatically";
+  }
+
   /**
    * Show progress message
    */